@@ -17,6 +17,9 @@ import { getConfig } from './src/config/env.config';
 import AppNavigator from './src/navigation/AppNavigator';
 import BackgroundTaskManager from './src/services/BackgroundTaskManager';
 import CallNavigationManager from './src/services/CallNavigationManager';
+// Side-effect import: defines the health background task before the OS can launch it
+import './src/services/health/HealthBackgroundSync';
+import { HealthSyncService } from './src/services/health/HealthSyncService';
 import NotifeeNotificationService from './src/services/NotifeeNotificationService';
 import { ConsolidatedPermissionManager } from './src/services/PermissionManagerMigrated';
 import { store, persistor } from './src/store';
@@ -742,6 +745,14 @@ function App() {
           // App continues - background tasks are not critical for basic app function
         }
 
+        // Register the OS background task that keeps health data syncing while the app is closed
+        console.log('🔄 Scheduling background health sync...');
+        HealthSyncService.getInstance()
+          .scheduleBackgroundSync()
+          .catch(healthSyncError => {
+            console.warn('⚠️ Background health sync scheduling failed (non-critical):', healthSyncError);
+          });
+
         // Initialize CallNavigationManager for call navigation persistence
         console.log('🔄 Initializing CallNavigationManager...');
         try {
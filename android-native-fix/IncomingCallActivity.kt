@@ -46,6 +46,7 @@ class IncomingCallActivity : AppCompatActivity() {
         }
 
         // Extract call data from intent
+        val callUuid = intent.getStringExtra("callUuid") ?: ""
         val callId = intent.getStringExtra("callId") ?: ""
         val callerId = intent.getStringExtra("callerId") ?: ""
         val callerName = intent.getStringExtra("callerName") ?: ""
@@ -66,6 +67,7 @@ class IncomingCallActivity : AppCompatActivity() {
             action = "com.lns.hopmed.INCOMING_CALL"
             
             // Pass all call data
+            putExtra("callUuid", callUuid)
             putExtra("callId", callId)
             putExtra("callerId", callerId)
             putExtra("callerName", callerName)
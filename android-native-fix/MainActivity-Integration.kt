@@ -42,6 +42,7 @@ private fun handleIncomingCallIntent(intent: Intent) {
     }
     
     // Extract call data from intent
+    val callUuid = intent.getStringExtra("callUuid") ?: ""
     val callId = intent.getStringExtra("callId") ?: ""
     val callerId = intent.getStringExtra("callerId") ?: ""
     val callerName = intent.getStringExtra("callerName") ?: ""
@@ -58,6 +59,7 @@ private fun handleIncomingCallIntent(intent: Intent) {
     
     // Prepare call data for React Native
     val callData = Arguments.createMap().apply {
+        putString("callUuid", callUuid)
         putString("callId", callId)
         putString("callerId", callerId)
         putString("callerName", callerName)
@@ -37,6 +37,7 @@ class NativeIncomingCallModule(reactContext: ReactApplicationContext) :
                         Intent.FLAG_ACTIVITY_SINGLE_TOP
                 
                 // Extract call data from ReadableMap
+                putExtra("callUuid", callData.getString("callUuid") ?: "")
                 putExtra("callId", callData.getString("callId") ?: "")
                 putExtra("callerId", callData.getString("callerId") ?: "")
                 putExtra("callerName", callData.getString("callerName") ?: "")
@@ -117,6 +117,7 @@ export default {
         'android.permission.FOREGROUND_SERVICE',
         'android.permission.FOREGROUND_SERVICE_CAMERA',
         'android.permission.FOREGROUND_SERVICE_MICROPHONE',
+        'android.permission.FOREGROUND_SERVICE_MEDIA_PROJECTION',
         'android.permission.BLUETOOTH',
         'android.permission.BLUETOOTH_ADMIN',
         'android.permission.BLUETOOTH_CONNECT',
@@ -137,6 +138,18 @@ export default {
         'android.permission.health.READ_TOTAL_CALORIES_BURNED',
         'android.permission.health.READ_ACTIVE_CALORIES_BURNED',
         'android.permission.health.READ_EXERCISE',
+        // Vitals shown on the metric detail screens
+        'android.permission.health.READ_SLEEP',
+        'android.permission.health.READ_BLOOD_PRESSURE',
+        'android.permission.health.READ_OXYGEN_SATURATION',
+        'android.permission.health.READ_WEIGHT',
+        'android.permission.health.READ_BLOOD_GLUCOSE',
+        'android.permission.health.READ_BODY_TEMPERATURE',
+        // Readings the patient logs by hand
+        'android.permission.health.WRITE_BLOOD_PRESSURE',
+        'android.permission.health.WRITE_BLOOD_GLUCOSE',
+        'android.permission.health.WRITE_WEIGHT',
+        'android.permission.health.WRITE_BODY_TEMPERATURE',
         'android.permission.health.READ_HEALTH_DATA_IN_BACKGROUND', // Background data access
       ],
       intentFilters: [
@@ -250,7 +263,10 @@ export default {
       ],
       [
         '@daily-co/config-plugin-rn-daily-js',
-        {},
+        {
+          // Adds the iOS broadcast upload extension used for screen sharing
+          enableScreenShare: true,
+        },
       ],
       [
         '@sentry/react-native/expo',
@@ -271,12 +287,13 @@ export default {
         {
           background: true, // ✅ CRITICAL: Enables background-delivery entitlement for real-time health data updates
           NSHealthShareUsageDescription: 'HopMed needs access to read your health data including steps, heart rate, calories burned, and exercise time to provide comprehensive wellness tracking and share your health progress with your healthcare providers during consultations.',
-          NSHealthUpdateUsageDescription: 'HopMed needs to write health data including activity metrics and wellness information to help you track your fitness goals and maintain accurate, comprehensive health records.',
+          NSHealthUpdateUsageDescription: 'HopMed saves the blood pressure, blood glucose, weight and temperature readings you log to Apple Health so your health records stay accurate and complete.',
         }
       ],
       './plugins/with-health-connect.js',
       './plugins/with-health-connect-delegate.js', // CRITICAL: Adds permission delegate to MainActivity for Android 10+ compatibility
       './plugins/with-health-connect-rationale.js', // CRITICAL: Adds Android 14+ support and PermissionsRationaleActivity
+      'expo-background-task', // Registers the BGTaskScheduler identifier / WorkManager worker for background health sync
       './plugins/androidManifestPlugin.js',
       './plugins/with-bundle-package-type.js',
       '@config-plugins/react-native-callkeep',
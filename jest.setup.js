@@ -7,6 +7,11 @@ import mockAsyncStorage from '@react-native-async-storage/async-storage/jest/asy
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () => mockAsyncStorage);
 
+// Mock NetInfo
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
+
 // Mock Expo modules
 jest.mock('expo-constants', () => ({
   default: {
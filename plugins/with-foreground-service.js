@@ -131,6 +131,7 @@ function withForegroundServiceManifest(config) {
       'android.permission.FOREGROUND_SERVICE',
       'android.permission.FOREGROUND_SERVICE_MICROPHONE',
       'android.permission.FOREGROUND_SERVICE_CAMERA',
+      'android.permission.FOREGROUND_SERVICE_MEDIA_PROJECTION',
     ];
 
     for (const permission of permissions) {
@@ -186,7 +187,8 @@ function withForegroundServiceManifest(config) {
           'android:name': 'com.supersami.foregroundservice.ForegroundService',
           'android:enabled': 'true',
           'android:exported': 'false',
-          'android:foregroundServiceType': 'camera|microphone',
+          // mediaProjection: screen sharing restarts the service with this type
+          'android:foregroundServiceType': 'camera|microphone|mediaProjection',
           'android:stopWithTask': 'false',
         },
       });
@@ -24,6 +24,18 @@ module.exports = function withHealthConnect(config) {
         'android.permission.health.READ_ACTIVE_CALORIES_BURNED',
         // Exercise and activity sessions
         'android.permission.health.READ_EXERCISE',
+        // Sleep, blood pressure, blood oxygen, weight and glucose detail screens
+        'android.permission.health.READ_SLEEP',
+        'android.permission.health.READ_BLOOD_PRESSURE',
+        'android.permission.health.READ_OXYGEN_SATURATION',
+        'android.permission.health.READ_WEIGHT',
+        'android.permission.health.READ_BLOOD_GLUCOSE',
+        'android.permission.health.READ_BODY_TEMPERATURE',
+        // Readings the patient logs by hand
+        'android.permission.health.WRITE_BLOOD_PRESSURE',
+        'android.permission.health.WRITE_BLOOD_GLUCOSE',
+        'android.permission.health.WRITE_WEIGHT',
+        'android.permission.health.WRITE_BODY_TEMPERATURE',
         // Background data access (Android 10+)
         'android.permission.health.READ_HEALTH_DATA_IN_BACKGROUND',
       ];
@@ -0,0 +1,106 @@
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { COLORS } from '../constants';
+
+import { Button } from './common/Button';
+
+interface AppLockScreenProps {
+  isUnlocking: boolean;
+  onUnlock: () => void;
+  onSignOut: () => void;
+  testID?: string;
+}
+
+/**
+ * Covers the whole app while AuthStateMachine is `locked`. Prompts for
+ * biometrics as soon as it appears; signing out is the way past it for a user
+ * who cannot unlock.
+ */
+const AppLockScreen: React.FC<AppLockScreenProps> = ({
+  isUnlocking,
+  onUnlock,
+  onSignOut,
+  testID = 'app-lock-screen',
+}) => {
+  const promptOnShowRef = useRef(onUnlock);
+
+  // Prompt once when the lock appears; later attempts are user initiated
+  useEffect(() => {
+    promptOnShowRef.current();
+  }, []);
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={[StyleSheet.absoluteFill, styles.container]}
+      testID={testID}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name="lock-closed" size={40} color={COLORS.WHITE} />
+      </View>
+      <Text style={styles.title}>HopMed is locked</Text>
+      <Text style={styles.subtitle}>Unlock with Face ID, fingerprint or your device passcode</Text>
+
+      <Button
+        title="Unlock"
+        icon="finger-print"
+        onPress={onUnlock}
+        loading={isUnlocking}
+        style={styles.unlockButton}
+        testID="app-lock-unlock"
+      />
+      <TouchableOpacity onPress={onSignOut} style={styles.signOutButton} testID="app-lock-sign-out">
+        <Text style={styles.signOutText}>Sign out</Text>
+      </TouchableOpacity>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: COLORS.TEXT_SECONDARY,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  unlockButton: {
+    minWidth: 200,
+  },
+  signOutButton: {
+    marginTop: 20,
+    padding: 8,
+  },
+  signOutText: {
+    fontSize: 15,
+    color: COLORS.TEXT_SECONDARY,
+  },
+});
+
+export default AppLockScreen;
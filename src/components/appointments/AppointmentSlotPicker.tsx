@@ -0,0 +1,230 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import React, { memo, useMemo } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { COLORS } from '../../constants';
+import { toSlotDateTime } from '../../hooks/useAvailableSlots';
+import { AdaptiveTouchableOpacity } from '../adaptive/AdaptiveComponents';
+
+const formatSlotTime = (date: string, slot: string) =>
+  format(parseISO(toSlotDateTime(date, slot)), 'HH:mm');
+
+interface AppointmentSlotPickerProps {
+  slotsByDate: Record<string, string[]>;
+  selectedDate: string | null;
+  selectedSlot: string | null;
+  onSelectDate: (date: string) => void;
+  onSelectSlot: (slot: string) => void;
+  isLoading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+export const AppointmentSlotPicker: React.FC<AppointmentSlotPickerProps> = memo(
+  ({
+    slotsByDate,
+    selectedDate,
+    selectedSlot,
+    onSelectDate,
+    onSelectSlot,
+    isLoading = false,
+    error,
+    onRetry,
+  }) => {
+    const dates = useMemo(
+      () =>
+        Object.keys(slotsByDate)
+          .filter(date => slotsByDate[date].length > 0)
+          .sort(),
+      [slotsByDate]
+    );
+
+    const slots = selectedDate ? (slotsByDate[selectedDate] ?? []) : [];
+
+    if (isLoading) {
+      return (
+        <View style={styles.stateContainer}>
+          <ActivityIndicator color={COLORS.PRIMARY} />
+          <Text style={styles.stateText}>Loading available times...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer}>
+          <Ionicons name="warning-outline" size={32} color={COLORS.ERROR} />
+          <Text style={styles.stateText}>{error}</Text>
+          {onRetry && (
+            <AdaptiveTouchableOpacity style={styles.retryButton} onPress={onRetry}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    if (dates.length === 0) {
+      return (
+        <View style={styles.stateContainer}>
+          <Ionicons name="calendar-outline" size={32} color={COLORS.TEXT_SECONDARY} />
+          <Text style={styles.stateText}>No available times in this period</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.datesRow}
+        >
+          {dates.map(date => {
+            const isSelected = date === selectedDate;
+            const parsed = parseISO(date);
+            return (
+              <AdaptiveTouchableOpacity
+                key={date}
+                style={[styles.dateChip, isSelected && styles.dateChipSelected]}
+                onPress={() => onSelectDate(date)}
+                enableHaptics
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.dateWeekday, isSelected && styles.dateTextSelected]}>
+                  {format(parsed, 'EEE')}
+                </Text>
+                <Text style={[styles.dateDay, isSelected && styles.dateTextSelected]}>
+                  {format(parsed, 'd')}
+                </Text>
+                <Text style={[styles.dateMonth, isSelected && styles.dateTextSelected]}>
+                  {format(parsed, 'MMM')}
+                </Text>
+              </AdaptiveTouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        {selectedDate ? (
+          <View style={styles.slotsGrid}>
+            {slots.map(slot => {
+              const isSelected = slot === selectedSlot;
+              return (
+                <AdaptiveTouchableOpacity
+                  key={slot}
+                  style={[styles.slotChip, isSelected && styles.slotChipSelected]}
+                  onPress={() => onSelectSlot(slot)}
+                  enableHaptics
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={[styles.slotText, isSelected && styles.slotTextSelected]}>
+                    {formatSlotTime(selectedDate, slot)}
+                  </Text>
+                </AdaptiveTouchableOpacity>
+              );
+            })}
+          </View>
+        ) : (
+          <Text style={styles.hintText}>Select a day to see available times</Text>
+        )}
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  stateContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 32,
+  },
+  stateText: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  retryButtonText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  datesRow: {
+    paddingVertical: 4,
+  },
+  dateChip: {
+    width: 64,
+    paddingVertical: 10,
+    marginRight: 8,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+  },
+  dateChipSelected: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  dateWeekday: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  dateDay: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.TEXT_PRIMARY,
+    marginVertical: 2,
+  },
+  dateMonth: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  dateTextSelected: {
+    color: COLORS.TEXT_DARK,
+  },
+  slotsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 16,
+  },
+  slotChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.GLASS_BG,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+  },
+  slotChipSelected: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  slotText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  slotTextSelected: {
+    color: COLORS.TEXT_DARK,
+  },
+  hintText: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 16,
+  },
+});
+
+export default AppointmentSlotPicker;
@@ -0,0 +1,71 @@
+import React, { memo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { COLORS } from '../../constants';
+import type { Appointment } from '../../types';
+
+const STATUS_META: Record<Appointment['status'], { label: string; color: string }> = {
+  scheduled: { label: 'Scheduled', color: COLORS.WARNING },
+  confirmed: { label: 'Confirmed', color: COLORS.SUCCESS },
+  in_progress: { label: 'In progress', color: COLORS.HEALTH_BLUE },
+  completed: { label: 'Completed', color: COLORS.TEXT_TERTIARY },
+  cancelled: { label: 'Cancelled', color: COLORS.ERROR },
+  no_show: { label: 'No-show', color: COLORS.HEALTH_ORANGE },
+};
+
+export const APPOINTMENT_TYPE_LABELS: Record<Appointment['type'], string> = {
+  video_call: 'Video consultation',
+  in_person: 'In-person visit',
+  home_visit: 'Home visit',
+};
+
+/**
+ * Name of the other party on an appointment: patients see their doctor,
+ * doctors see the patient.
+ */
+export const getAppointmentCounterpartName = (appointment: Appointment, isDoctor: boolean) => {
+  if (isDoctor) {
+    const patient = appointment.patient;
+    return patient
+      ? `${patient.firstName} ${patient.lastName}`
+      : `Patient #${appointment.patient_id}`;
+  }
+  const doctorUser = appointment.doctor?.user;
+  return doctorUser ? `Dr. ${doctorUser.firstName} ${doctorUser.lastName}` : 'Your doctor';
+};
+
+export const AppointmentStatusBadge: React.FC<{ status: Appointment['status'] }> = memo(
+  ({ status }) => {
+    const meta = STATUS_META[status] ?? STATUS_META.scheduled;
+    return (
+      <View style={[styles.badge, { borderColor: meta.color }]}>
+        <View style={[styles.dot, { backgroundColor: meta.color }]} />
+        <Text style={[styles.label, { color: meta.color }]}>{meta.label}</Text>
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginRight: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default AppointmentStatusBadge;
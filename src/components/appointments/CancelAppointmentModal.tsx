@@ -0,0 +1,218 @@
+import React, { memo, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { COLORS } from '../../constants';
+import { AdaptiveTouchableOpacity } from '../adaptive/AdaptiveComponents';
+
+const CANCELLATION_REASONS = [
+  'Schedule conflict',
+  'Feeling better',
+  'Booked by mistake',
+  'Found another doctor',
+  'Other',
+] as const;
+
+interface CancelAppointmentModalProps {
+  visible: boolean;
+  isSubmitting?: boolean;
+  onConfirm: (reason: string) => void;
+  onDismiss: () => void;
+}
+
+export const CancelAppointmentModal: React.FC<CancelAppointmentModalProps> = memo(
+  ({ visible, isSubmitting = false, onConfirm, onDismiss }) => {
+    const [selectedReason, setSelectedReason] = useState<string | null>(null);
+    const [details, setDetails] = useState('');
+
+    // Start from a clean form every time the modal is reopened
+    useEffect(() => {
+      if (visible) {
+        setSelectedReason(null);
+        setDetails('');
+      }
+    }, [visible]);
+
+    const requiresDetails = selectedReason === 'Other';
+    const canSubmit =
+      selectedReason !== null && (!requiresDetails || details.trim().length > 0) && !isSubmitting;
+
+    const handleConfirm = () => {
+      if (!canSubmit || !selectedReason) return;
+      const reason = details.trim() ? `${selectedReason}: ${details.trim()}` : selectedReason;
+      onConfirm(reason);
+    };
+
+    return (
+      <Modal visible={visible} transparent animationType="fade" onRequestClose={onDismiss}>
+        <KeyboardAvoidingView
+          style={styles.overlay}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.sheet}>
+            <Text style={styles.title}>Cancel appointment</Text>
+            <Text style={styles.subtitle}>Let the other party know why you are cancelling.</Text>
+
+            {CANCELLATION_REASONS.map(reason => {
+              const isSelected = reason === selectedReason;
+              return (
+                <AdaptiveTouchableOpacity
+                  key={reason}
+                  style={[styles.reasonRow, isSelected && styles.reasonRowSelected]}
+                  onPress={() => setSelectedReason(reason)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <View style={[styles.radio, isSelected && styles.radioSelected]} />
+                  <Text style={styles.reasonText}>{reason}</Text>
+                </AdaptiveTouchableOpacity>
+              );
+            })}
+
+            <TextInput
+              style={styles.input}
+              value={details}
+              onChangeText={setDetails}
+              placeholder={
+                requiresDetails ? 'Please describe the reason' : 'Add details (optional)'
+              }
+              placeholderTextColor={COLORS.TEXT_PLACEHOLDER}
+              multiline
+              maxLength={500}
+            />
+
+            <View style={styles.actions}>
+              <AdaptiveTouchableOpacity
+                style={styles.secondaryButton}
+                onPress={onDismiss}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.secondaryButtonText}>Keep appointment</Text>
+              </AdaptiveTouchableOpacity>
+              <AdaptiveTouchableOpacity
+                style={[styles.dangerButton, !canSubmit && styles.buttonDisabled]}
+                onPress={handleConfirm}
+                disabled={!canSubmit}
+                enableHaptics
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator color={COLORS.WHITE} />
+                ) : (
+                  <Text style={styles.dangerButtonText}>Cancel appointment</Text>
+                )}
+              </AdaptiveTouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: COLORS.OVERLAY_DARK,
+  },
+  sheet: {
+    backgroundColor: COLORS.BACKGROUND_PRIMARY,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 6,
+    backgroundColor: COLORS.GLASS_BG,
+  },
+  reasonRowSelected: {
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: COLORS.TEXT_SECONDARY,
+    marginRight: 12,
+  },
+  radioSelected: {
+    borderColor: COLORS.PRIMARY,
+    backgroundColor: COLORS.PRIMARY,
+  },
+  reasonText: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  input: {
+    minHeight: 72,
+    marginTop: 10,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.INPUT_BG_PRIMARY,
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: COLORS.BUTTON_SECONDARY,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: COLORS.ERROR,
+    marginLeft: 8,
+  },
+  dangerButtonText: {
+    color: COLORS.WHITE,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default CancelAppointmentModal;
@@ -0,0 +1,264 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { MAX_CHAT_MESSAGE_LENGTH } from '../../hooks/daily/useInCallChat';
+import type { ChatMessage } from '../../types';
+
+interface InCallChatDrawerProps {
+  visible: boolean;
+  messages: ChatMessage[];
+  currentUserId: string | null;
+  contactName?: string;
+  onSend: (text: string) => boolean;
+  onClose: () => void;
+  isReadByRecipient: (message: ChatMessage) => boolean;
+}
+
+/**
+ * ✅ Chat drawer shown over video and audio calls
+ * Slides over the lower half of the call so the remote video stays visible.
+ */
+export const InCallChatDrawer: React.FC<InCallChatDrawerProps> = memo(
+  ({ visible, messages, currentUserId, contactName, onSend, onClose, isReadByRecipient }) => {
+    const [draft, setDraft] = useState('');
+    const listRef = useRef<FlatList<ChatMessage>>(null);
+
+    // Keep the newest message in view whenever the drawer opens or a message arrives
+    useEffect(() => {
+      if (visible && messages.length > 0) {
+        requestAnimationFrame(() => listRef.current?.scrollToEnd({ animated: true }));
+      }
+    }, [visible, messages.length]);
+
+    const handleSend = useCallback(() => {
+      if (onSend(draft)) {
+        setDraft('');
+      }
+    }, [draft, onSend]);
+
+    const renderMessage = useCallback(
+      ({ item }: { item: ChatMessage }) => {
+        const isOwn = String(item.senderId) === currentUserId;
+        const isRead = isOwn && isReadByRecipient(item);
+        return (
+          <View style={[styles.bubble, isOwn ? styles.ownBubble : styles.remoteBubble]}>
+            <Text style={styles.bubbleText}>{item.content}</Text>
+            <View style={styles.bubbleMeta}>
+              <Text style={styles.bubbleTime}>{format(new Date(item.timestamp), 'HH:mm')}</Text>
+              {isOwn && (
+                <Ionicons
+                  name={isRead ? 'checkmark-done' : 'checkmark'}
+                  size={14}
+                  color={isRead ? '#4FC3F7' : 'rgba(255,255,255,0.6)'}
+                  accessibilityLabel={isRead ? 'Read' : 'Sent'}
+                />
+              )}
+            </View>
+          </View>
+        );
+      },
+      [currentUserId, isReadByRecipient]
+    );
+
+    if (!visible) return null;
+
+    return (
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        pointerEvents="box-none"
+      >
+        <View style={styles.drawer}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>
+              {contactName ? `Chat with ${contactName}` : 'Chat'}
+            </Text>
+            <TouchableOpacity
+              onPress={onClose}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityRole="button"
+              accessibilityLabel="Close chat"
+            >
+              <Ionicons name="close" size={24} color="#fff" />
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            ref={listRef}
+            data={messages}
+            keyExtractor={item => item.messageId}
+            renderItem={renderMessage}
+            contentContainerStyle={styles.listContent}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                Messages you send here are saved with this appointment.
+              </Text>
+            }
+          />
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              value={draft}
+              onChangeText={setDraft}
+              placeholder="Type a message"
+              placeholderTextColor="rgba(255,255,255,0.5)"
+              maxLength={MAX_CHAT_MESSAGE_LENGTH}
+              multiline
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, !draft.trim() && styles.sendButtonDisabled]}
+              onPress={handleSend}
+              disabled={!draft.trim()}
+              accessibilityRole="button"
+              accessibilityLabel="Send message"
+            >
+              <Ionicons name="send" size={18} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    );
+  }
+);
+
+/**
+ * Small unread counter for the chat control button
+ */
+export const ChatUnreadBadge: React.FC<{ count: number }> = memo(({ count }) => {
+  if (count <= 0) return null;
+  return (
+    <View style={styles.badge} accessibilityLabel={`${count} unread messages`}>
+      <Text style={styles.badgeText}>{count > 9 ? '9+' : count}</Text>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'flex-end',
+    zIndex: 20,
+  },
+  drawer: {
+    height: '55%',
+    backgroundColor: 'rgba(20, 20, 20, 0.96)',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: Platform.OS === 'ios' ? 24 : 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(255,255,255,0.15)',
+  },
+  title: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: 12,
+  },
+  listContent: {
+    padding: 12,
+    flexGrow: 1,
+  },
+  emptyText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  ownBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#007AFF',
+  },
+  remoteBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  bubbleText: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  bubbleMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+    gap: 4,
+  },
+  bubbleTime: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 12,
+    paddingTop: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 96,
+    color: '#fff',
+    fontSize: 15,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
+  badge: {
+    position: 'absolute',
+    top: -2,
+    right: -2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#FF3B30',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
+
+export default InCallChatDrawer;
@@ -0,0 +1,63 @@
+import React, { memo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+
+import type { CaptionLine } from '../../services/callCaptionsService';
+
+interface LiveCaptionsProps {
+  lines: CaptionLine[];
+  isTranscribing: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * ✅ Live captions overlay
+ * Recent lines with the speaker's name; the line still being spoken is dimmed.
+ */
+export const LiveCaptions: React.FC<LiveCaptionsProps> = memo(
+  ({ lines, isTranscribing, style }) => {
+    return (
+      <View style={[styles.container, style]} pointerEvents="none" accessibilityLiveRegion="polite">
+        {lines.length === 0 ? (
+          <Text style={styles.placeholder}>
+            {isTranscribing ? 'Listening…' : 'Starting captions…'}
+          </Text>
+        ) : (
+          lines.map(line => (
+            <Text key={line.id} style={[styles.line, !line.isFinal && styles.interimLine]}>
+              <Text style={styles.speaker}>{line.speakerName}: </Text>
+              {line.text}
+            </Text>
+          ))
+        )}
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  placeholder: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  line: {
+    color: '#fff',
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  interimLine: {
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  speaker: {
+    fontWeight: '700',
+    color: '#FFD60A',
+  },
+});
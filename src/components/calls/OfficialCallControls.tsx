@@ -1,9 +1,12 @@
+import { ScreenCapturePickerView } from '@daily-co/react-native-daily-js';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
 
 import { COLORS } from '../../constants';
+import { useCallObject } from '../../hooks/daily/useCallObject';
 import { useOfficialCallControls } from '../../hooks/daily/useOfficialCallControls';
+import { useScreenShare } from '../../hooks/daily/useScreenShare';
 
 interface OfficialCallControlsProps {
   onEndCall: () => void;
@@ -23,6 +26,7 @@ export const OfficialCallControls: React.FC<OfficialCallControlsProps> = ({
 }) => {
   const { isMuted, isVideoEnabled, toggleAudio, toggleVideo, isHandRaised, toggleHand } =
     useOfficialCallControls();
+  const screenShare = useScreenShare(useCallObject());
 
   // Enhanced UX state - consistent with other controls
   const [showSecondaryControls, setShowSecondaryControls] = useState(false);
@@ -58,16 +62,19 @@ export const OfficialCallControls: React.FC<OfficialCallControlsProps> = ({
             <Text style={styles.handIcon}>{isHandRaised ? '✋' : '👋'}</Text>
           </TouchableOpacity>
 
-          {/* Screen Share Placeholder */}
+          {/* Screen Share */}
           {showScreenShare && (
             <TouchableOpacity
               style={[
                 styles.secondaryButton,
                 { width: secondaryControlSize, height: secondaryControlSize },
+                screenShare.isSharing && styles.activeSecondaryButton,
+                disabled && styles.disabledButton,
               ]}
-              disabled={disabled}
+              onPress={screenShare.toggleScreenShare}
+              disabled={disabled || screenShare.isStarting}
               accessibilityRole="button"
-              accessibilityLabel="Share screen"
+              accessibilityLabel={screenShare.isSharing ? 'Stop sharing screen' : 'Share screen'}
             >
               <Ionicons name="desktop" size={20} color="#fff" />
             </TouchableOpacity>
@@ -145,6 +152,11 @@ export const OfficialCallControls: React.FC<OfficialCallControlsProps> = ({
         <Ionicons name="call" size={endCallIconSize} color="#fff" />
         <Text style={styles.endCallLabel}>End Call</Text>
       </TouchableOpacity>
+
+      {/* iOS broadcast picker, opened by useScreenShare; renders nothing visible */}
+      {showScreenShare && Platform.OS === 'ios' && (
+        <ScreenCapturePickerView ref={screenShare.screenCapturePickerRef} />
+      )}
     </View>
   );
 };
@@ -0,0 +1,219 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useEffect, useState } from 'react';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { RecordingConsentPrompt } from '../../hooks/daily/useCallRecording';
+
+interface RecordingConsentModalProps {
+  prompt: RecordingConsentPrompt | null;
+  contactName?: string;
+  /** Live captions transcribe the call, so they ask for consent the same way */
+  purpose?: 'recording' | 'captions';
+  onRespond: (accepted: boolean) => void;
+}
+
+const CONSENT_COPY = {
+  recording: {
+    icon: 'recording',
+    requestTitle: 'Record this consultation?',
+    incomingTitle: (name: string) => `${name} would like to record this consultation`,
+    body: 'The recording is stored with this appointment for medical and legal records.',
+    requestNote: (name: string) =>
+      `${name} will be asked for consent. Recording starts only if they agree.`,
+    incomingNote:
+      'Recording starts only if you agree. You can withdraw consent at any time during the call.',
+  },
+  captions: {
+    icon: 'logo-closed-captioning',
+    requestTitle: 'Turn on live captions?',
+    incomingTitle: (name: string) => `${name} would like live captions for this consultation`,
+    body: 'Captions transcribe the call, and the transcript is stored with this appointment.',
+    requestNote: (name: string) =>
+      `${name} will be asked for consent. Captions start only if they agree.`,
+    incomingNote: 'Captions start only if you agree.',
+  },
+} as const;
+
+/**
+ * ✅ Consent prompt for consultation recordings and live captions
+ * Shown to whoever asks before asking, and to the other party when asked.
+ */
+export const RecordingConsentModal: React.FC<RecordingConsentModalProps> = memo(
+  ({ prompt, contactName = 'The other participant', purpose = 'recording', onRespond }) => {
+    const isRequest = prompt?.kind === 'confirm';
+    const copy = CONSENT_COPY[purpose];
+
+    return (
+      <Modal
+        visible={!!prompt}
+        transparent
+        animationType="fade"
+        onRequestClose={() => onRespond(false)}
+      >
+        <View style={styles.backdrop}>
+          <View style={styles.card}>
+            <View style={styles.iconCircle}>
+              <Ionicons name={copy.icon} size={28} color="#FF3B30" />
+            </View>
+            <Text style={styles.title}>
+              {isRequest ? copy.requestTitle : copy.incomingTitle(contactName)}
+            </Text>
+            <Text style={styles.body}>{copy.body}</Text>
+            <Text style={styles.body}>
+              {isRequest ? copy.requestNote(contactName) : copy.incomingNote}
+            </Text>
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.button, styles.declineButton]}
+                onPress={() => onRespond(false)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.buttonText}>{isRequest ? 'Cancel' : 'Decline'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.acceptButton]}
+                onPress={() => onRespond(true)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.buttonText}>{isRequest ? 'I consent, ask' : 'I consent'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    );
+  }
+);
+
+interface RecordingIndicatorProps {
+  startedAt: number | null;
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Persistent recording indicator, visible to everyone while the recording runs
+ */
+export const RecordingIndicator: React.FC<RecordingIndicatorProps> = memo(
+  ({ startedAt, actionLabel, onAction }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+      const interval = setInterval(() => setNow(Date.now()), 1000);
+      return () => clearInterval(interval);
+    }, []);
+
+    return (
+      <View style={styles.indicator} accessibilityLabel="This consultation is being recorded">
+        <View style={styles.recordingDot} />
+        <Text style={styles.indicatorText}>
+          REC{startedAt ? ` ${formatElapsed(now - startedAt)}` : ''}
+        </Text>
+        {actionLabel && onAction && (
+          <TouchableOpacity
+            onPress={onAction}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+          >
+            <Text style={styles.indicatorAction}>{actionLabel}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#1c1c1e',
+    borderRadius: 20,
+    padding: 24,
+    alignItems: 'center',
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: 'rgba(255, 59, 48, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  body: {
+    color: 'rgba(255, 255, 255, 0.75)',
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 16,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  declineButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  acceptButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  indicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    gap: 6,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#FF3B30',
+  },
+  indicatorText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  indicatorAction: {
+    color: '#FF6B6B',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+});
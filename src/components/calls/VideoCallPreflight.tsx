@@ -3,6 +3,8 @@ import React, { useEffect, useMemo, useState, useCallback, useRef } from 'react'
 import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
 
 import { COLORS } from '../../constants';
+import type { PreflightResult } from '../../services/CallPreflightService';
+import CallPreflightService from '../../services/CallPreflightService';
 import DailyService from '../../services/dailyService';
 import NetworkMonitorService, { NetworkQuality } from '../../services/networkMonitorService';
 import PermissionManager from '../../services/PermissionManagerMigrated';
@@ -21,8 +23,15 @@ interface Assessment {
 interface Props {
   callType: 'audio' | 'video';
   slim?: boolean;
+  /**
+   * Run the network and device test before a video call that joins through
+   * DailyService.joinConsultation, and ask whether to join with the camera
+   * off when the link is too weak for video
+   */
+  connectionTest?: boolean;
   onReadyChange?: (ready: boolean) => void;
   onAssessmentChange?: (assessment: Assessment) => void;
+  onAudioOnlyChoice?: (audioOnly: boolean) => void;
 }
 
 const StatusRow = ({
@@ -49,20 +58,32 @@ const StatusRow = ({
 const VideoCallPreflight: React.FC<Props> = ({
   callType,
   slim,
+  connectionTest = false,
   onReadyChange,
   onAssessmentChange,
+  onAudioOnlyChoice,
 }) => {
   const [sdkReady, setSdkReady] = useState<boolean | null>(null);
   const [permGranted, setPermGranted] = useState<boolean | null>(null);
   const [networkReady, setNetworkReady] = useState<boolean | null>(null);
   const [networkQuality, setNetworkQuality] = useState<NetworkQuality | null>(null);
   const [micPermGranted, setMicPermGranted] = useState<boolean | null>(null);
+  const [testState, setTestState] = useState<'idle' | 'running' | 'done'>('idle');
+  const [testResult, setTestResult] = useState<PreflightResult | null>(null);
+  const [audioOnlyChoice, setAudioOnlyChoice] = useState<boolean | null>(null);
   const warnedRef = useRef(false);
+  const mountedRef = useRef(true);
 
   const permissionType = callType === 'video' ? 'camera+microphone' : 'microphone';
+  const runsConnectionTest = connectionTest && callType === 'video';
+  // Not ready until the test has run and any audio-only recommendation is answered
+  const connectionTestPending =
+    runsConnectionTest &&
+    (testState !== 'done' || (testResult?.recommendAudioOnly === true && audioOnlyChoice === null));
 
   const recompute = useCallback(() => {
-    const videoReady = sdkReady === true && permGranted === true && networkReady === true;
+    const videoReady =
+      sdkReady === true && permGranted === true && networkReady === true && !connectionTestPending;
     const audioNetworkReady = NetworkMonitorService.isAudioCallViable();
     const audioReady = sdkReady === true && micPermGranted === true && audioNetworkReady;
     onReadyChange?.(videoReady);
@@ -107,11 +128,43 @@ const VideoCallPreflight: React.FC<Props> = ({
     micPermGranted,
     networkReady,
     networkQuality,
+    connectionTestPending,
     onReadyChange,
     onAssessmentChange,
     callType,
   ]);
 
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // The test opens the camera, so it waits for the SDK and permissions
+  useEffect(() => {
+    if (!runsConnectionTest || testState !== 'idle' || sdkReady !== true || permGranted !== true) {
+      return;
+    }
+
+    setTestState('running');
+    (async () => {
+      const result = await DailyService.runPreflightTest('video');
+      if (!mountedRef.current) return;
+      setTestResult(result);
+      setTestState('done');
+    })();
+  }, [runsConnectionTest, testState, sdkReady, permGranted]);
+
+  const chooseAudioOnly = useCallback(
+    (audioOnly: boolean) => {
+      CallPreflightService.getInstance().setAudioOnlyChoice(audioOnly);
+      setAudioOnlyChoice(audioOnly);
+      onAudioOnlyChoice?.(audioOnly);
+    },
+    [onAudioOnlyChoice]
+  );
+
   useEffect(() => {
     let unsubscribe: (() => void) | undefined;
     let mounted = true;
@@ -214,7 +267,13 @@ const VideoCallPreflight: React.FC<Props> = ({
     return permGranted ? 'Permissions granted' : 'Permissions needed';
   }, [permGranted]);
 
-  const allReady = sdkReady && permGranted && networkReady;
+  const connectionLabel = useMemo(() => {
+    if (testState !== 'done') return 'Testing connection...';
+    if (!testResult) return 'Connection test unavailable';
+    return `Connection ${testResult.score}/100`;
+  }, [testState, testResult]);
+
+  const allReady = sdkReady && permGranted && networkReady && !connectionTestPending;
 
   return (
     <View style={[styles.container, slim && styles.containerSlim]}>
@@ -233,6 +292,37 @@ const VideoCallPreflight: React.FC<Props> = ({
         onFix={!permGranted ? requestFixPermissions : undefined}
       />
       <StatusRow ok={!!networkReady} label={qualityLabel} />
+      {runsConnectionTest && (
+        <StatusRow
+          ok={testState === 'done' && testResult?.status !== 'fail'}
+          label={connectionLabel}
+        />
+      )}
+
+      {runsConnectionTest && testResult?.recommendAudioOnly === true && (
+        <View style={styles.infoBanner}>
+          <Ionicons name="cellular-outline" size={14} color="#FFB74D" />
+          {audioOnlyChoice === null ? (
+            <>
+              <Text style={styles.infoText}>
+                Your connection is too weak for reliable video. Join with your camera off?
+              </Text>
+              <TouchableOpacity style={styles.fixBtn} onPress={() => chooseAudioOnly(true)}>
+                <Text style={styles.fixText}>Camera off</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.choiceBtn} onPress={() => chooseAudioOnly(false)}>
+                <Text style={styles.fixText}>Keep video</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <Text style={styles.infoText}>
+              {audioOnlyChoice
+                ? 'You will join with your camera off. You can turn it on during the call.'
+                : 'You will join with video. It may freeze on this connection.'}
+            </Text>
+          )}
+        </View>
+      )}
 
       {sdkReady === false && (
         <View style={styles.infoBanner}>
@@ -312,6 +402,13 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.PRIMARY,
     borderRadius: 8,
   },
+  choiceBtn: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.35)',
+    borderRadius: 8,
+  },
   fixText: {
     color: '#fff',
     fontSize: 11,
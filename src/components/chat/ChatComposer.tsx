@@ -0,0 +1,343 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import React, { memo, useCallback, useEffect, useState } from 'react';
+import { ActionSheetIOS, Alert, Platform, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { COLORS } from '../../constants';
+import { useVoiceNoteRecorder } from '../../hooks/useVoiceNoteRecorder';
+import type { ChatMessage, LocalChatAttachment } from '../../types';
+import { AdaptiveTouchableOpacity } from '../adaptive/AdaptiveComponents';
+
+import { formatDuration, getMessagePreview } from './ChatMessageBubble';
+
+export const MAX_MESSAGE_LENGTH = 4000;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export interface ComposedMessage {
+  messageType: ChatMessage['messageType'];
+  content: string;
+  attachments?: LocalChatAttachment[];
+}
+
+interface ChatComposerProps {
+  replyTo: ChatMessage | null;
+  editing: ChatMessage | null;
+  onSend: (message: ComposedMessage) => void;
+  onSubmitEdit: (content: string) => void;
+  onCancelContext: () => void;
+}
+
+const isTooLarge = (attachment: LocalChatAttachment) => {
+  if (attachment.fileSize <= MAX_ATTACHMENT_BYTES) return false;
+  Alert.alert('File too large', 'Attachments can be up to 25 MB.');
+  return true;
+};
+
+/**
+ * ✅ Message input for chat rooms
+ * Text with optional reply or edit context, photo and document attachments,
+ * and tap-to-record voice notes.
+ */
+export const ChatComposer: React.FC<ChatComposerProps> = memo(
+  ({ replyTo, editing, onSend, onSubmitEdit, onCancelContext }) => {
+    const [draft, setDraft] = useState('');
+    const recorder = useVoiceNoteRecorder();
+
+    // Editing starts from the current text of the message
+    useEffect(() => {
+      setDraft(editing ? editing.content : '');
+    }, [editing]);
+
+    const handleSend = useCallback(() => {
+      const content = draft.trim();
+      if (!content) return;
+
+      if (editing) {
+        if (content !== editing.content) {
+          onSubmitEdit(content);
+        } else {
+          onCancelContext();
+        }
+      } else {
+        onSend({ messageType: 'text', content });
+      }
+      setDraft('');
+    }, [draft, editing, onCancelContext, onSend, onSubmitEdit]);
+
+    const pickImage = useCallback(async () => {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          'Photos unavailable',
+          'Allow photo library access in Settings to share images.'
+        );
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        quality: 0.8,
+      });
+      const asset = result.assets?.[0];
+      if (result.canceled || !asset) return;
+
+      const attachment: LocalChatAttachment = {
+        uri: asset.uri,
+        fileName: asset.fileName ?? `photo-${Date.now()}.jpg`,
+        fileSize: asset.fileSize ?? 0,
+        mimeType: asset.mimeType ?? 'image/jpeg',
+      };
+      if (isTooLarge(attachment)) return;
+
+      onSend({ messageType: 'image', content: draft.trim(), attachments: [attachment] });
+      setDraft('');
+    }, [draft, onSend]);
+
+    const pickDocument = useCallback(async () => {
+      const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+      const asset = result.assets?.[0];
+      if (result.canceled || !asset) return;
+
+      const attachment: LocalChatAttachment = {
+        uri: asset.uri,
+        fileName: asset.name,
+        fileSize: asset.size ?? 0,
+        mimeType: asset.mimeType ?? 'application/octet-stream',
+      };
+      if (isTooLarge(attachment)) return;
+
+      onSend({ messageType: 'file', content: draft.trim(), attachments: [attachment] });
+      setDraft('');
+    }, [draft, onSend]);
+
+    const showAttachmentOptions = useCallback(() => {
+      const options = ['Photo', 'Document', 'Cancel'];
+      const handlers = [pickImage, pickDocument];
+
+      if (Platform.OS === 'ios') {
+        ActionSheetIOS.showActionSheetWithOptions(
+          { options, cancelButtonIndex: options.length - 1 },
+          index => handlers[index]?.()
+        );
+      } else {
+        Alert.alert('Attach', undefined, [
+          { text: 'Photo', onPress: pickImage },
+          { text: 'Document', onPress: pickDocument },
+          { text: 'Cancel', style: 'cancel' },
+        ]);
+      }
+    }, [pickDocument, pickImage]);
+
+    const toggleRecording = useCallback(async () => {
+      if (recorder.isRecording) {
+        const voiceNote = await recorder.stop();
+        if (voiceNote) {
+          onSend({ messageType: 'voice', content: '', attachments: [voiceNote] });
+        }
+        return;
+      }
+
+      try {
+        const started = await recorder.start();
+        if (!started) {
+          Alert.alert('Microphone unavailable', 'Allow microphone access to record voice notes.');
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to start voice note:', error);
+      }
+    }, [onSend, recorder]);
+
+    const context = editing ?? replyTo;
+    const hasText = draft.trim().length > 0;
+
+    return (
+      <View style={styles.container}>
+        {context && (
+          <View style={styles.contextBar}>
+            <Ionicons
+              name={editing ? 'create-outline' : 'return-up-back-outline'}
+              size={18}
+              color={COLORS.PRIMARY}
+            />
+            <View style={styles.contextTextWrapper}>
+              <Text style={styles.contextTitle}>{editing ? 'Edit message' : 'Replying to'}</Text>
+              <Text style={styles.contextText} numberOfLines={1}>
+                {getMessagePreview(context)}
+              </Text>
+            </View>
+            <AdaptiveTouchableOpacity
+              onPress={onCancelContext}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityRole="button"
+              accessibilityLabel={editing ? 'Cancel edit' : 'Cancel reply'}
+            >
+              <Ionicons name="close" size={20} color={COLORS.TEXT_SECONDARY} />
+            </AdaptiveTouchableOpacity>
+          </View>
+        )}
+
+        {recorder.isRecording ? (
+          <View style={styles.inputRow}>
+            <AdaptiveTouchableOpacity
+              style={styles.iconButton}
+              onPress={recorder.cancel}
+              accessibilityRole="button"
+              accessibilityLabel="Discard recording"
+            >
+              <Ionicons name="trash-outline" size={22} color={COLORS.ERROR} />
+            </AdaptiveTouchableOpacity>
+            <View style={styles.recordingIndicator}>
+              <View style={styles.recordingDot} />
+              <Text style={styles.recordingText}>
+                Recording {formatDuration(recorder.durationMs)}
+              </Text>
+            </View>
+            <AdaptiveTouchableOpacity
+              style={styles.sendButton}
+              onPress={toggleRecording}
+              enableHaptics
+              accessibilityRole="button"
+              accessibilityLabel="Send voice message"
+            >
+              <Ionicons name="send" size={18} color={COLORS.TEXT_DARK} />
+            </AdaptiveTouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.inputRow}>
+            {!editing && (
+              <AdaptiveTouchableOpacity
+                style={styles.iconButton}
+                onPress={showAttachmentOptions}
+                accessibilityRole="button"
+                accessibilityLabel="Add attachment"
+              >
+                <Ionicons name="attach" size={24} color={COLORS.TEXT_SECONDARY} />
+              </AdaptiveTouchableOpacity>
+            )}
+            <TextInput
+              style={styles.input}
+              value={draft}
+              onChangeText={setDraft}
+              placeholder="Message"
+              placeholderTextColor={COLORS.TEXT_PLACEHOLDER}
+              maxLength={MAX_MESSAGE_LENGTH}
+              multiline
+            />
+            {hasText || editing ? (
+              <AdaptiveTouchableOpacity
+                style={[styles.sendButton, !hasText && styles.sendButtonDisabled]}
+                onPress={handleSend}
+                disabled={!hasText}
+                enableHaptics
+                accessibilityRole="button"
+                accessibilityLabel={editing ? 'Save edit' : 'Send message'}
+              >
+                <Ionicons
+                  name={editing ? 'checkmark' : 'send'}
+                  size={18}
+                  color={COLORS.TEXT_DARK}
+                />
+              </AdaptiveTouchableOpacity>
+            ) : (
+              <AdaptiveTouchableOpacity
+                style={styles.sendButton}
+                onPress={toggleRecording}
+                enableHaptics
+                accessibilityRole="button"
+                accessibilityLabel="Record voice message"
+              >
+                <Ionicons name="mic" size={20} color={COLORS.TEXT_DARK} />
+              </AdaptiveTouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.GLASS_BORDER,
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    paddingBottom: Platform.OS === 'ios' ? 28 : 12,
+  },
+  contextBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingBottom: 8,
+  },
+  contextTextWrapper: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  contextTitle: {
+    color: COLORS.PRIMARY,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  contextText: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 13,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+    backgroundColor: COLORS.GLASS_BG,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    paddingHorizontal: 14,
+    paddingTop: 10,
+    paddingBottom: 10,
+    marginHorizontal: 6,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: COLORS.PRIMARY,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
+  recordingIndicator: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 40,
+    marginHorizontal: 6,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.ERROR,
+    marginRight: 8,
+  },
+  recordingText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+  },
+});
+
+export default ChatComposer;
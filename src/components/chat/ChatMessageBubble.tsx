@@ -0,0 +1,307 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { Audio } from 'expo-av';
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { Image, Linking, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { COLORS } from '../../constants';
+import type { ChatAttachment, ChatMessage } from '../../types';
+
+interface ChatMessageBubbleProps {
+  message: ChatMessage;
+  isOwn: boolean;
+  /** The message this one replies to, when it is loaded */
+  repliedTo?: ChatMessage;
+  isRead: boolean;
+  onLongPress?: (message: ChatMessage) => void;
+  onPressFailed?: (message: ChatMessage) => void;
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes <= 0) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Short preview used for replies and the chat list
+ */
+export const getMessagePreview = (message: Pick<ChatMessage, 'content' | 'messageType'>) => {
+  if (message.content) return message.content;
+  switch (message.messageType) {
+    case 'image':
+      return '📷 Photo';
+    case 'voice':
+      return '🎤 Voice message';
+    case 'file':
+      return '📎 Document';
+    default:
+      return '';
+  }
+};
+
+const VoiceNotePlayer: React.FC<{ attachment: ChatAttachment }> = memo(({ attachment }) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+
+  useEffect(
+    () => () => {
+      soundRef.current?.unloadAsync().catch(() => {});
+    },
+    []
+  );
+
+  const togglePlayback = useCallback(async () => {
+    try {
+      if (!soundRef.current) {
+        const { sound } = await Audio.Sound.createAsync({ uri: attachment.url }, {}, status => {
+          if (!status.isLoaded) return;
+          setPositionMs(status.positionMillis);
+          setIsPlaying(status.isPlaying);
+          if (status.didJustFinish) {
+            sound.setPositionAsync(0).catch(() => {});
+          }
+        });
+        soundRef.current = sound;
+      }
+
+      if (isPlaying) {
+        await soundRef.current.pauseAsync();
+      } else {
+        await soundRef.current.playAsync();
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to play voice message:', error);
+    }
+  }, [attachment.url, isPlaying]);
+
+  return (
+    <TouchableOpacity
+      style={styles.voiceRow}
+      onPress={togglePlayback}
+      accessibilityRole="button"
+      accessibilityLabel={isPlaying ? 'Pause voice message' : 'Play voice message'}
+    >
+      <Ionicons name={isPlaying ? 'pause-circle' : 'play-circle'} size={32} color={COLORS.WHITE} />
+      <Text style={styles.voiceDuration}>
+        {formatDuration(isPlaying || positionMs > 0 ? positionMs : (attachment.durationMs ?? 0))}
+      </Text>
+    </TouchableOpacity>
+  );
+});
+
+const AttachmentView: React.FC<{ attachment: ChatAttachment; messageType: string }> = memo(
+  ({ attachment, messageType }) => {
+    const openAttachment = useCallback(() => {
+      Linking.openURL(attachment.url).catch(error =>
+        console.warn('⚠️ Failed to open attachment:', error)
+      );
+    }, [attachment.url]);
+
+    if (messageType === 'voice' || attachment.mimeType.startsWith('audio/')) {
+      return <VoiceNotePlayer attachment={attachment} />;
+    }
+
+    if (attachment.mimeType.startsWith('image/')) {
+      return (
+        <TouchableOpacity onPress={openAttachment} accessibilityLabel={attachment.fileName}>
+          <Image
+            source={{ uri: attachment.thumbnailUrl ?? attachment.url }}
+            style={styles.image}
+            resizeMode="cover"
+          />
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        style={styles.fileRow}
+        onPress={openAttachment}
+        accessibilityRole="button"
+        accessibilityLabel={`Open ${attachment.fileName}`}
+      >
+        <Ionicons name="document-text-outline" size={28} color={COLORS.WHITE} />
+        <View style={styles.fileInfo}>
+          <Text style={styles.fileName} numberOfLines={1}>
+            {attachment.fileName}
+          </Text>
+          {attachment.fileSize > 0 && (
+            <Text style={styles.fileSize}>{formatFileSize(attachment.fileSize)}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  }
+);
+
+/**
+ * ✅ Single message in a chat room
+ * Handles text, image, document and voice messages, reply quotes, edit
+ * markers and the delivery state of the user's own messages.
+ */
+export const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = memo(
+  ({ message, isOwn, repliedTo, isRead, onLongPress, onPressFailed }) => {
+    const isFailed = message.localStatus === 'failed';
+
+    const renderStatus = () => {
+      if (!isOwn) return null;
+      if (isFailed) {
+        return <Ionicons name="alert-circle" size={14} color={COLORS.ERROR} />;
+      }
+      if (message.localStatus === 'pending') {
+        return <Ionicons name="time-outline" size={14} color="rgba(255,255,255,0.6)" />;
+      }
+      return (
+        <Ionicons
+          name={isRead ? 'checkmark-done' : 'checkmark'}
+          size={14}
+          color={isRead ? COLORS.PRIMARY : 'rgba(255,255,255,0.6)'}
+          accessibilityLabel={isRead ? 'Read' : 'Sent'}
+        />
+      );
+    };
+
+    if (message.messageType === 'system') {
+      return <Text style={styles.systemText}>{message.content}</Text>;
+    }
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onLongPress={() => onLongPress?.(message)}
+        onPress={isFailed ? () => onPressFailed?.(message) : undefined}
+        style={[styles.bubble, isOwn ? styles.ownBubble : styles.remoteBubble]}
+      >
+        {message.replyToId && (
+          <View style={styles.replyQuote}>
+            <Text style={styles.replyText} numberOfLines={2}>
+              {repliedTo ? getMessagePreview(repliedTo) : 'Earlier message'}
+            </Text>
+          </View>
+        )}
+
+        {message.attachments?.map(attachment => (
+          <AttachmentView
+            key={attachment.id}
+            attachment={attachment}
+            messageType={message.messageType}
+          />
+        ))}
+
+        {!!message.content && <Text style={styles.bubbleText}>{message.content}</Text>}
+
+        <View style={styles.meta}>
+          {message.isEdited && <Text style={styles.metaText}>edited</Text>}
+          <Text style={styles.metaText}>{format(new Date(message.timestamp), 'HH:mm')}</Text>
+          {renderStatus()}
+        </View>
+        {isFailed && <Text style={styles.failedText}>Not sent · tap to retry</Text>}
+      </TouchableOpacity>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  ownBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: COLORS.BUTTON_SEMI_TRANSPARENT,
+    borderBottomRightRadius: 4,
+  },
+  remoteBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: COLORS.GLASS_BG,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    borderBottomLeftRadius: 4,
+  },
+  bubbleText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.PRIMARY,
+    paddingLeft: 8,
+    marginBottom: 6,
+  },
+  replyText: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 13,
+  },
+  image: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  fileInfo: {
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  fileName: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  fileSize: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 12,
+  },
+  voiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 140,
+    marginBottom: 4,
+  },
+  voiceDuration: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+    gap: 4,
+  },
+  metaText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 11,
+  },
+  failedText: {
+    color: COLORS.ERROR,
+    fontSize: 11,
+    marginTop: 2,
+    textAlign: 'right',
+  },
+  systemText: {
+    alignSelf: 'center',
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 12,
+    marginVertical: 8,
+  },
+});
+
+export default ChatMessageBubble;
@@ -0,0 +1,142 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, isToday } from 'date-fns';
+import React, { memo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { COLORS } from '../../constants';
+import type { ChatRoom } from '../../types';
+import { AdaptiveCard } from '../adaptive/AdaptiveComponents';
+
+export const getChatCounterpartName = (room: ChatRoom, isDoctor: boolean) => {
+  if (isDoctor) {
+    return room.patientName ?? `Patient #${room.patientId}`;
+  }
+  return room.doctorName ? `Dr. ${room.doctorName}` : 'Your doctor';
+};
+
+interface ChatRoomListItemProps {
+  room: ChatRoom;
+  isDoctor: boolean;
+  onPress: (room: ChatRoom) => void;
+}
+
+export const ChatRoomListItem: React.FC<ChatRoomListItemProps> = memo(
+  ({ room, isDoctor, onPress }) => {
+    const unread = room.unreadCount[isDoctor ? 'doctor' : 'patient'];
+    const activityAt = new Date(room.lastMessageAt ?? room.createdAt);
+
+    return (
+      <AdaptiveCard style={styles.card} onPress={() => onPress(room)}>
+        <View style={styles.row}>
+          <View style={styles.avatar}>
+            <Ionicons
+              name={isDoctor ? 'person-outline' : 'medical-outline'}
+              size={22}
+              color={COLORS.PRIMARY}
+            />
+          </View>
+          <View style={styles.details}>
+            <View style={styles.titleRow}>
+              <Text style={styles.name} numberOfLines={1}>
+                {getChatCounterpartName(room, isDoctor)}
+              </Text>
+              <Text style={[styles.time, unread > 0 && styles.timeUnread]}>
+                {format(activityAt, isToday(activityAt) ? 'HH:mm' : 'd MMM')}
+              </Text>
+            </View>
+            <View style={styles.titleRow}>
+              <Text style={[styles.preview, unread > 0 && styles.previewUnread]} numberOfLines={1}>
+                {room.lastMessage ?? 'No messages yet'}
+              </Text>
+              {unread > 0 && (
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>{unread > 99 ? '99+' : unread}</Text>
+                </View>
+              )}
+            </View>
+            {room.status !== 'active' && <Text style={styles.closedText}>Conversation closed</Text>}
+          </View>
+        </View>
+      </AdaptiveCard>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 16,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: COLORS.GLASS_BG,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  name: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+    marginRight: 8,
+  },
+  time: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  timeUnread: {
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+  preview: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+    marginRight: 8,
+  },
+  previewUnread: {
+    color: COLORS.TEXT_PRIMARY,
+    fontWeight: '500',
+  },
+  badge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: COLORS.PRIMARY,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  closedText: {
+    fontSize: 12,
+    color: COLORS.TEXT_MUTED,
+    marginTop: 4,
+  },
+});
+
+export default ChatRoomListItem;
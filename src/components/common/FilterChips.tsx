@@ -0,0 +1,75 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import { COLORS } from '../../constants';
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  active: boolean;
+}
+
+interface FilterChipsProps {
+  chips: FilterChip[];
+  /** Called with the chip's key; the caller decides what the new filters are */
+  onToggle: (key: string) => void;
+  testID?: string;
+}
+
+export const FilterChips: React.FC<FilterChipsProps> = ({
+  chips,
+  onToggle,
+  testID = 'filter-chips',
+}) => (
+  <ScrollView
+    horizontal
+    showsHorizontalScrollIndicator={false}
+    contentContainerStyle={styles.container}
+    testID={testID}
+  >
+    {chips.map(chip => (
+      <TouchableOpacity
+        key={chip.key}
+        style={chip.active ? [styles.chip, styles.chipActive] : styles.chip}
+        onPress={() => onToggle(chip.key)}
+        accessibilityRole="button"
+        accessibilityState={{ selected: chip.active }}
+        testID={`${testID}-${chip.key}`}
+      >
+        <Text style={chip.active ? [styles.label, styles.labelActive] : styles.label}>
+          {chip.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </ScrollView>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    backgroundColor: COLORS.GLASS_BG,
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  label: {
+    fontSize: 13,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  labelActive: {
+    color: COLORS.TEXT_DARK,
+    fontWeight: '600',
+  },
+});
+
+export default FilterChips;
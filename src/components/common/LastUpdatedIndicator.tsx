@@ -0,0 +1,65 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { COLORS } from '../../constants';
+
+interface LastUpdatedIndicatorProps {
+  /** When the list was last fetched from the backend */
+  timestamp: number | null;
+  /** The list is the copy saved on disk and has not been revalidated yet */
+  isStale?: boolean;
+  testID?: string;
+}
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+export const LastUpdatedIndicator: React.FC<LastUpdatedIndicatorProps> = ({
+  timestamp,
+  isStale = false,
+  testID = 'last-updated',
+}) => {
+  const [, setTick] = useState(0);
+
+  // Keep the relative time current while the list stays on screen
+  useEffect(() => {
+    const interval = setInterval(() => setTick(tick => tick + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!timestamp) return null;
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Ionicons
+        name={isStale ? 'cloud-offline-outline' : 'time-outline'}
+        size={12}
+        color={COLORS.TEXT_SECONDARY}
+      />
+      <Text style={styles.text}>Updated {formatAge(timestamp)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  text: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+    marginLeft: 4,
+  },
+});
+
+export default LastUpdatedIndicator;
@@ -14,3 +14,5 @@ export { Input } from './Input';
 export { SearchInput } from './SearchInput';
 export { Card, CardHeader, CardContent, CardFooter } from './Card';
 export { KeyboardAwareScrollView } from './KeyboardAwareScrollView';
+export { LastUpdatedIndicator } from './LastUpdatedIndicator';
+export { FilterChips } from './FilterChips';
@@ -8,11 +8,13 @@
  * 4. ✅ Stable event handler references (fixes stale closures)
  * 5. ✅ CallKit and Foreground Service integration
  * 6. ✅ Optimized track sync (reduces unnecessary retries)
+ * 7. ✅ Screen sharing (mediaProjection service on Android, broadcast extension on iOS)
+ * 8. ✅ Consented cloud recording with a persistent recording indicator
  *
  * MIGRATION: Replace EnterpriseCallInterface.tsx with this file
  */
 
-import { DailyMediaView } from '@daily-co/react-native-daily-js';
+import { DailyMediaView, ScreenCapturePickerView } from '@daily-co/react-native-daily-js';
 import type DailyMediaStreamTrack from '@daily-co/react-native-webrtc/lib/typescript/MediaStreamTrack';
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
@@ -30,46 +32,28 @@ import {
   ActivityIndicator,
 } from 'react-native';
 
+import { useCallActiveSpeaker } from '../../hooks/daily/useActiveSpeaker';
+import { useCallCaptions } from '../../hooks/daily/useCallCaptions';
+import { useCallRecording } from '../../hooks/daily/useCallRecording';
+import { useInCallChat } from '../../hooks/daily/useInCallChat';
+import { useScreenShare } from '../../hooks/daily/useScreenShare';
+import { useAdaptiveQuality } from '../../hooks/useAdaptiveQuality';
+import AdaptiveQualityController from '../../services/AdaptiveQualityController';
+import CallLifecycleManager from '../../services/CallLifecycleManager';
 import DailyCallManager from '../../services/DailyCallManager';
 import VideoCallBackgroundManager from '../../services/VideoCallBackgroundManager';
 import type { VideoCallBackgroundListener } from '../../services/VideoCallBackgroundManager';
+import type { DailyCallObject, DailyParticipant } from '../../types/dailyCall';
 import CallPerformanceMonitor from '../../utils/CallPerformanceMonitor';
 // ✨ NEW: Import native platform managers
 import CallKitManager from '../../services/CallKitManager';
 import ForegroundServiceManager from '../../services/ForegroundServiceManager';
+import { ChatUnreadBadge, InCallChatDrawer } from '../calls/InCallChatDrawer';
+import { LiveCaptions } from '../calls/LiveCaptions';
+import { RecordingConsentModal, RecordingIndicator } from '../calls/RecordingConsent';
+import { ScreenShareView } from './ParticipantView';
 
 // Daily.co type shims
-interface DailyParticipantTrack {
-  persistentTrack?: DailyMediaStreamTrack | null;
-}
-interface DailyParticipant {
-  session_id: string; // ✨ NEW: Unique session identifier
-  user_name?: string;
-  local?: boolean;
-  tracks?: { video?: DailyParticipantTrack; audio?: DailyParticipantTrack };
-}
-interface DailyParticipantCounts {
-  present: number;
-}
-interface DailyNetworkStats {
-  stats?: {
-    video?: { recvLatency?: number; recvPacketLoss?: number };
-    audio?: { recvLatency?: number };
-  };
-}
-interface DailyCall {
-  participantCounts(): DailyParticipantCounts;
-  participants(): Record<string, DailyParticipant>;
-  localVideo(): boolean;
-  localAudio(): boolean;
-  setLocalVideo(enabled: boolean): void;
-  setLocalAudio(enabled: boolean): void;
-  getNetworkStats(): Promise<DailyNetworkStats>;
-  join(options: Record<string, unknown>): Promise<void>;
-  leave(): Promise<void>;
-  on(event: string, handler: (ev?: unknown) => void): DailyCall;
-  off(event: string, handler?: (ev?: unknown) => void): DailyCall;
-}
 interface DailyParticipantEvent {
   participant?: DailyParticipant;
   type?: string;
@@ -113,6 +97,8 @@ const isTrackLive = (track: DailyMediaStreamTrack | null): boolean => {
 
 interface EnterpriseCallInterfaceProps {
   roomUrl: string;
+  /** Meeting token the backend issued for this private room */
+  meetingToken: string;
   callType: 'audio' | 'video';
   contactName?: string;
   contactTitle?: string;
@@ -121,6 +107,15 @@ interface EnterpriseCallInterfaceProps {
   autoJoin?: boolean;
   userName?: string;
   userId?: string;
+  /** Appointment this call belongs to; keys the persisted in-call chat history */
+  appointmentId?: number | string;
+  /**
+   * Backend id of the call; keys the in-call chat outside an appointment, and an
+   * outgoing call is answered once the recipient joins the room
+   */
+  callId?: string;
+  /** Shows a control to open the patient's shared health data (doctor side) */
+  onOpenPatientHealth?: () => void;
   medicalContext?: {
     consultationType?: 'routine' | 'urgent' | 'emergency' | 'follow-up';
     appointmentTime?: Date;
@@ -137,6 +132,7 @@ const QUALITY_CONFIG = {
 
 const EnterpriseCallInterface: React.FC<EnterpriseCallInterfaceProps> = ({
   roomUrl,
+  meetingToken,
   callType,
   contactName = 'Healthcare Provider',
   contactTitle = 'Medical Professional',
@@ -145,10 +141,13 @@ const EnterpriseCallInterface: React.FC<EnterpriseCallInterfaceProps> = ({
   autoJoin = true,
   userName,
   userId,
+  appointmentId,
+  callId,
+  onOpenPatientHealth,
   medicalContext,
 }) => {
   // Core call state
-  const [callObject, setCallObject] = useState<DailyCall | null>(null);
+  const [callObject, setCallObject] = useState<DailyCallObject | null>(null);
   const [appState, setAppState] = useState<'idle' | 'joining' | 'joined' | 'error' | 'leaving'>(
     'idle'
   );
@@ -195,6 +194,47 @@ const EnterpriseCallInterface: React.FC<EnterpriseCallInterfaceProps> = ({
   // ✅ FIX: Memory pressure warning state
   const [showMemoryWarning, setShowMemoryWarning] = useState(false);
 
+  // 📶 Mid-call quality changes, with the reason shown to the user
+  const { notice: qualityNotice } = useAdaptiveQuality('EnterpriseCallInterface');
+
+  // ✨ NEW: In-call chat over Daily app-messages
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const chat = useInCallChat(callObject, {
+    appointmentId,
+    roomUrl,
+    callId,
+    isOpen: isChatOpen,
+  });
+
+  // 🖥️ Screen sharing; a remote share replaces the remote camera in the video area
+  const screenShare = useScreenShare(callObject);
+
+  // 🔴 Cloud recording, started by the doctor once both parties have consented
+  const recording = useCallRecording(callObject, { appointmentId, roomUrl });
+  const isRecordingBusy = ['awaiting-consent', 'starting', 'stopping'].includes(recording.status);
+
+  // 💬 Live captions once both parties consent, credited to the active speaker when Daily doesn't say who spoke
+  const { activeSpeakerId } = useCallActiveSpeaker(callObject);
+  const captions = useCallCaptions(callObject, { appointmentId, roomUrl, activeSpeakerId });
+
+  // 📞 The recipient joining answers the call, even if the backend's status push is lost
+  useEffect(() => {
+    if (!callObject || !callId) return;
+
+    const handleRemoteJoined = (ev?: unknown) => {
+      if ((ev as DailyParticipantEvent | undefined)?.participant?.local !== false) return;
+
+      CallLifecycleManager.getInstance()
+        .confirmAnswered(callId)
+        .catch(error => devError('Failed to mark call answered:', error));
+    };
+
+    callObject.on('participant-joined', handleRemoteJoined);
+    return () => {
+      callObject.off('participant-joined', handleRemoteJoined);
+    };
+  }, [callObject, callId]);
+
   // ✨ NEW: Track current remote participant to prevent mixing
   const [currentRemoteSessionId, setCurrentRemoteSessionId] = useState<string | null>(null);
 
@@ -847,7 +887,7 @@ const EnterpriseCallInterface: React.FC<EnterpriseCallInterfaceProps> = ({
       try {
         const newCallObject = (await DailyCallManager.getCallObject(
           roomUrl
-        )) as unknown as DailyCall;
+        )) as unknown as DailyCallObject;
         if (isMounted) {
           setCallObject(newCallObject);
           CallPerformanceMonitor.startSession(roomUrl);
@@ -951,6 +991,8 @@ const stableHandlers = useMemo(() => ({
       );
       devLog('🎥 Registered with VideoCallBackgroundManager');
 
+      AdaptiveQualityController.getInstance().startCallSession(callObject, callType);
+
       // ✨ NEW: Start native platform services
       if (Platform.OS === 'ios') {
         CallKitManager.getInstance().reportCallConnected(callUUID);
@@ -991,6 +1033,7 @@ const stableHandlers = useMemo(() => ({
         backgroundManagerUnsubscribeRef.current = null;
       }
       VideoCallBackgroundManager.getInstance().endCallSession();
+      AdaptiveQualityController.getInstance().endCallSession();
 
       // ✨ NEW: Stop native platform services
       if (Platform.OS === 'ios') {
@@ -1081,6 +1124,7 @@ const stableHandlers = useMemo(() => ({
 
       const joinOptions: Record<string, unknown> = {
         url: roomUrl,
+        token: meetingToken,
         startVideoOff: callType === 'audio',
         startAudioOff: false,
         userName: effectiveUserName,
@@ -1126,6 +1170,7 @@ const stableHandlers = useMemo(() => ({
   }, [
     callObject,
     roomUrl,
+    meetingToken,
     autoJoin,
     callType,
     contactName,
@@ -1601,6 +1646,7 @@ const stableHandlers = useMemo(() => ({
                   callObject
                     .join({
                       url: roomUrl,
+                      token: meetingToken,
                       // Retry with conservative defaults
                       startVideoOff: callType === 'audio',
                       startAudioOff: false,
@@ -1725,7 +1771,13 @@ const stableHandlers = useMemo(() => ({
 
         {/* Video Area */}
         <View style={[styles.videoContainer, uiState.isFullscreen && styles.fullscreenVideo]}>
-          {callState.remoteParticipantCount > 0 ? (
+          {screenShare.remoteScreenShare ? (
+            <ScreenShareView
+              videoTrack={screenShare.remoteScreenShare.track}
+              sharerName={screenShare.remoteScreenShare.userName}
+              style={styles.remoteVideo}
+            />
+          ) : callState.remoteParticipantCount > 0 ? (
             /* ✅ FIX #1: Use isTrackLive() to prevent frozen remote frames */
             isTrackLive(callState.videoTrack) ? (
               <>
@@ -1833,6 +1885,56 @@ const stableHandlers = useMemo(() => ({
             </Animated.View>
           )}
 
+          {/* 📶 Why call quality just changed */}
+          {qualityNotice && !showMemoryWarning && (
+            <Animated.View style={[styles.memoryWarning, { opacity: fadeAnim }]}>
+              <BlurView intensity={60} style={styles.qualityNoticeBlur}>
+                <Ionicons
+                  name={qualityNotice.to === 'audio-only' ? 'videocam-off-outline' : 'cellular-outline'}
+                  size={20}
+                  color="#007AFF"
+                />
+                <Text style={styles.memoryWarningText}>{qualityNotice.reason}</Text>
+              </BlurView>
+            </Animated.View>
+          )}
+
+          {/* 🔴 Recording request outcome */}
+          {recording.notice && !showMemoryWarning && !qualityNotice && (
+            <View style={styles.memoryWarning}>
+              <BlurView intensity={60} style={styles.qualityNoticeBlur}>
+                <Ionicons name="recording-outline" size={20} color="#007AFF" />
+                <Text style={styles.memoryWarningText}>{recording.notice}</Text>
+              </BlurView>
+            </View>
+          )}
+
+          {/* 💬 Captions request outcome */}
+          {captions.notice && !showMemoryWarning && !qualityNotice && !recording.notice && (
+            <View style={styles.memoryWarning}>
+              <BlurView intensity={60} style={styles.qualityNoticeBlur}>
+                <Ionicons name="logo-closed-captioning" size={20} color="#007AFF" />
+                <Text style={styles.memoryWarningText}>{captions.notice}</Text>
+              </BlurView>
+            </View>
+          )}
+
+          {/* 🖥️ Our own screen share */}
+          {screenShare.isSharing && !showMemoryWarning && !qualityNotice && !recording.notice && !captions.notice && (
+            <View style={styles.memoryWarning}>
+              <BlurView intensity={60} style={styles.qualityNoticeBlur}>
+                <Ionicons name="desktop-outline" size={20} color="#007AFF" />
+                <Text style={styles.memoryWarningText}>You are sharing your screen</Text>
+                <TouchableOpacity
+                  onPress={screenShare.stopScreenShare}
+                  accessibilityLabel="Stop sharing screen"
+                >
+                  <Text style={styles.stopSharingText}>Stop</Text>
+                </TouchableOpacity>
+              </BlurView>
+            </View>
+          )}
+
           {/* Local video preview */}
           {callType === 'video' && (
             <View
@@ -1919,6 +2021,25 @@ const stableHandlers = useMemo(() => ({
             </BlurView>
           </Animated.View>
 
+          {/* 🔴 Stays visible in fullscreen, unlike the top bar */}
+          {recording.isRecording && (
+            <View style={styles.recordingIndicatorContainer} pointerEvents="box-none">
+              <RecordingIndicator
+                startedAt={recording.startedAt}
+                actionLabel={recording.role === 'doctor' ? 'Stop' : 'Withdraw consent'}
+                onAction={
+                  recording.role === 'doctor' ? recording.stopRecording : recording.withdrawConsent
+                }
+              />
+            </View>
+          )}
+
+          {captions.captionsEnabled && (
+            <View style={styles.captionsContainer} pointerEvents="none">
+              <LiveCaptions lines={captions.lines} isTranscribing={captions.isTranscribing} />
+            </View>
+          )}
+
           {/* Fullscreen tap area */}
           {uiState.isFullscreen && (
             <TouchableOpacity
@@ -1984,6 +2105,67 @@ const stableHandlers = useMemo(() => ({
                   </TouchableOpacity>
                 )}
 
+                <TouchableOpacity
+                  style={[styles.controlButton, isChatOpen && styles.activeControlButton]}
+                  onPress={() => setIsChatOpen(open => !open)}
+                  accessibilityLabel={isChatOpen ? 'Hide chat' : 'Open chat'}
+                >
+                  <Ionicons name="chatbubble-ellipses" size={26} color="#fff" />
+                  <ChatUnreadBadge count={chat.unreadCount} />
+                </TouchableOpacity>
+
+                {onOpenPatientHealth && (
+                  <TouchableOpacity
+                    style={styles.controlButton}
+                    onPress={onOpenPatientHealth}
+                    accessibilityLabel="Show patient health data"
+                  >
+                    <Ionicons name="pulse" size={26} color="#fff" />
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.controlButton, screenShare.isSharing && styles.activeControlButton]}
+                  onPress={screenShare.toggleScreenShare}
+                  disabled={screenShare.isStarting}
+                  accessibilityLabel={screenShare.isSharing ? 'Stop sharing screen' : 'Share screen'}
+                >
+                  {screenShare.isStarting ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Ionicons name="desktop-outline" size={26} color="#fff" />
+                  )}
+                </TouchableOpacity>
+
+                {captions.canCaption && (
+                  <TouchableOpacity
+                    style={[styles.controlButton, captions.captionsEnabled && styles.activeControlButton]}
+                    onPress={captions.toggleCaptions}
+                    accessibilityLabel={captions.captionsEnabled ? 'Hide captions' : 'Show captions'}
+                  >
+                    <Ionicons name="logo-closed-captioning" size={26} color="#fff" />
+                  </TouchableOpacity>
+                )}
+
+                {recording.canRecord && (
+                  <TouchableOpacity
+                    style={[styles.controlButton, recording.isRecording && styles.recordingButton]}
+                    onPress={recording.isRecording ? recording.stopRecording : recording.requestRecording}
+                    disabled={isRecordingBusy}
+                    accessibilityLabel={recording.isRecording ? 'Stop recording' : 'Record consultation'}
+                  >
+                    {isRecordingBusy ? (
+                      <ActivityIndicator size="small" color="#fff" />
+                    ) : (
+                      <Ionicons
+                        name={recording.isRecording ? 'stop' : 'radio-button-on'}
+                        size={26}
+                        color={recording.isRecording ? '#fff' : '#FF3B30'}
+                      />
+                    )}
+                  </TouchableOpacity>
+                )}
+
                 <TouchableOpacity
                   style={[styles.controlButton, styles.endCallButton]}
                   onPress={handleEndCall}
@@ -2006,6 +2188,34 @@ const stableHandlers = useMemo(() => ({
             </View>
           </BlurView>
         </Animated.View>
+
+        <InCallChatDrawer
+          visible={isChatOpen}
+          messages={chat.messages}
+          currentUserId={chat.currentUserId}
+          contactName={contactName}
+          onSend={chat.sendMessage}
+          onClose={() => setIsChatOpen(false)}
+          isReadByRecipient={chat.isReadByRecipient}
+        />
+
+        <RecordingConsentModal
+          prompt={recording.consentPrompt}
+          contactName={contactName}
+          onRespond={recording.respondToConsent}
+        />
+
+        <RecordingConsentModal
+          prompt={captions.consentPrompt}
+          contactName={contactName}
+          purpose="captions"
+          onRespond={captions.respondToConsent}
+        />
+
+        {/* iOS broadcast picker, opened by useScreenShare; renders nothing visible */}
+        {Platform.OS === 'ios' && (
+          <ScreenCapturePickerView ref={screenShare.screenCapturePickerRef} />
+        )}
       </SafeAreaView>
     );
   }
@@ -2229,6 +2439,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#F44336',
     borderColor: '#F44336',
   },
+  activeControlButton: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
   endCallButton: {
     backgroundColor: '#F44336',
     borderColor: '#F44336',
@@ -2531,6 +2745,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#FF9800',
   },
+  qualityNoticeBlur: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 122, 255, 0.2)',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
   memoryWarningText: {
     color: '#fff',
     fontSize: 14,
@@ -2538,6 +2762,31 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  recordingButton: {
+    backgroundColor: '#FF3B30',
+    borderColor: '#FF3B30',
+  },
+  recordingIndicatorContainer: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 110 : 90,
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    zIndex: 26,
+  },
+  captionsContainer: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    zIndex: 24,
+  },
+  stopSharingText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '700',
+    marginLeft: 12,
+  },
 });
 
 export { EnterpriseCallInterface };
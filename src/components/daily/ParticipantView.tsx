@@ -7,6 +7,7 @@
  * - Network state indicators
  * - Speaking indicators
  * - Mobile-optimized layout
+ * - Screen-share tile that takes over the grid while anyone shares
  *
  * ✅ ANDROID FIXES APPLIED:
  * - Removed borderRadius/overflow on Android for proper video rendering
@@ -15,7 +16,12 @@
  * - Fixed video container clipping issues
  */
 
-import type { DailyParticipant, DailyTrackState } from '@daily-co/react-native-daily-js';
+import {
+  DailyMediaView,
+  type DailyParticipant,
+  type DailyTrackState,
+} from '@daily-co/react-native-daily-js';
+import type DailyMediaStreamTrack from '@daily-co/react-native-webrtc/lib/typescript/MediaStreamTrack';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useMemo, useState } from 'react';
 import {
@@ -304,6 +310,69 @@ export const RemoteParticipantView: React.FC<Omit<ParticipantViewProps, 'isLocal
   return <ParticipantView {...props} isLocal={false} />;
 };
 
+// Screen tracks in these states keep the screen-share layout on screen
+const ACTIVE_SCREEN_STATES = ['loading', 'playable', 'interrupted'];
+
+const isSharingScreen = (participant: DailyParticipant | null) =>
+  !!participant && ACTIVE_SCREEN_STATES.includes(participant.tracks.screenVideo?.state);
+
+// Screen-share tile: the shared screen is letterboxed, never cropped
+interface ScreenShareViewProps {
+  videoTrack: DailyMediaStreamTrack | null;
+  sharerName: string;
+  isLocal?: boolean;
+  onStopSharing?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export const ScreenShareView: React.FC<ScreenShareViewProps> = ({
+  videoTrack,
+  sharerName,
+  isLocal = false,
+  onStopSharing,
+  style,
+}) => {
+  return (
+    <View style={[styles.screenShareContainer, style]}>
+      {isLocal ? (
+        // Rendering our own screen back into itself would mirror the capture endlessly
+        <View style={styles.screenSharePlaceholder}>
+          <Ionicons name="desktop-outline" size={48} color="rgba(255, 255, 255, 0.8)" />
+          <Text style={styles.screenShareTitle}>You are sharing your screen</Text>
+          {onStopSharing && (
+            <TouchableOpacity
+              style={styles.stopSharingButton}
+              onPress={onStopSharing}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.stopSharingText}>Stop sharing</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : videoTrack ? (
+        <DailyMediaView
+          videoTrack={videoTrack}
+          audioTrack={null}
+          mirror={false}
+          style={styles.mediaView}
+          objectFit="contain"
+        />
+      ) : (
+        <View style={styles.screenSharePlaceholder}>
+          <Text style={styles.screenShareTitle}>Loading shared screen...</Text>
+        </View>
+      )}
+
+      <View style={styles.screenShareLabel}>
+        <Ionicons name="desktop-outline" size={12} color="#fff" />
+        <Text style={styles.screenShareLabelText} numberOfLines={1}>
+          {isLocal ? 'Your screen' : `${sharerName}'s screen`}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
 // ✅ OFFICIAL PATTERN: Participant grid following Daily.co examples
 interface ParticipantGridProps {
   localParticipant: DailyParticipant | null;
@@ -311,6 +380,7 @@ interface ParticipantGridProps {
   style?: StyleProp<ViewStyle>;
   showLocalParticipant?: boolean;
   localParticipantStyle?: StyleProp<ViewStyle>;
+  onStopScreenShare?: () => void;
 }
 
 export const ParticipantGrid: React.FC<ParticipantGridProps> = ({
@@ -319,6 +389,7 @@ export const ParticipantGrid: React.FC<ParticipantGridProps> = ({
   style,
   showLocalParticipant = true,
   localParticipantStyle,
+  onStopScreenShare,
 }) => {
   // Enhanced UX: Allow swapping local/remote video positions
   const [isLocalVideoExpanded, setIsLocalVideoExpanded] = useState(false);
@@ -336,10 +407,50 @@ export const ParticipantGrid: React.FC<ParticipantGridProps> = ({
     }
   }, [remoteParticipants.length, localParticipant, showLocalParticipant]);
 
+  // A remote share takes priority over our own
+  const screenSharer = useMemo(
+    () =>
+      remoteParticipants.find(isSharingScreen) ??
+      (isSharingScreen(localParticipant) ? localParticipant : null),
+    [remoteParticipants, localParticipant]
+  );
+
   const handleLocalVideoTap = () => {
     setIsLocalVideoExpanded(!isLocalVideoExpanded);
   };
 
+  // Screen-share layout: the shared screen on top, cameras in a strip below
+  if (screenSharer) {
+    const screenVideo = screenSharer.tracks.screenVideo;
+    const cameraParticipants = [
+      ...remoteParticipants,
+      ...(showLocalParticipant && localParticipant ? [localParticipant] : []),
+    ];
+
+    return (
+      <View style={[styles.grid, style]}>
+        <ScreenShareView
+          videoTrack={screenVideo.state === 'playable' ? screenVideo.persistentTrack : null}
+          sharerName={screenSharer.user_name || 'Participant'}
+          isLocal={!!screenSharer.local}
+          onStopSharing={onStopScreenShare}
+        />
+        <View style={styles.screenShareStrip}>
+          {cameraParticipants.map(participant => (
+            <ParticipantView
+              key={participant.session_id}
+              participant={participant}
+              isLocal={!!participant.local}
+              mirror={!!participant.local}
+              style={styles.screenShareStripItem}
+              compact
+            />
+          ))}
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.grid, gridStyle, style]}>
       {/* Conditional rendering based on expanded state */}
@@ -880,6 +991,65 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 
+  // Screen-share layout styles
+  screenShareContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+    position: 'relative',
+  },
+  screenSharePlaceholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+  },
+  screenShareTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  stopSharingButton: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  stopSharingText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  screenShareLabel: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: '80%',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  screenShareLabelText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  screenShareStrip: {
+    flexDirection: 'row',
+    height: 120,
+    gap: 8,
+    padding: 8,
+  },
+  screenShareStripItem: {
+    flex: 0,
+    width: 90,
+  },
+
   // ✅ ENHANCED: Debug panel styles
   enhancedDebugPanel: {
     position: 'absolute',
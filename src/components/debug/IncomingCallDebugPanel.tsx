@@ -178,7 +178,7 @@ export const IncomingCallDebugPanel: React.FC = () => {
       
       const launcher = IncomingCallActivityLauncher.getInstance();
       await launcher.launchIncomingCallUI({
-        callId: 'test-call-123',
+        callUuid: 'test-call-123',
         callerId: 'test-doctor-123',
         callerName: 'Dr. Test Smith',
         callerType: 'doctor',
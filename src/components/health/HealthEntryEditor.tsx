@@ -0,0 +1,397 @@
+import { Ionicons } from '@expo/vector-icons';
+import type { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import DateTimePicker, { DateTimePickerAndroid } from '@react-native-community/datetimepicker';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import { COLORS } from '../../constants';
+import type { ManualEntryInput } from '../../services/health/ManualHealthEntry';
+import {
+  MANUAL_ENTRY_DEFINITIONS,
+  MANUAL_ENTRY_TYPES,
+  ManualHealthEntry,
+} from '../../services/health/ManualHealthEntry';
+import { selectUser } from '../../store/selectors/authSelectors';
+import type { HealthMetric } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+interface HealthEntryEditorProps {
+  visible: boolean;
+  /** Reading type selected when the form opens */
+  initialType?: HealthDataType;
+  onSaved?: (metric: HealthMetric) => void;
+  onClose: () => void;
+}
+
+const PLATFORM_STORE = Platform.OS === 'ios' ? 'Apple Health' : 'Health Connect';
+
+// Accepts a decimal comma as well as a point
+const parseReading = (text: string) => parseFloat(text.replace(',', '.'));
+
+/**
+ * ✅ Log a reading by hand
+ * Blood pressure, glucose, weight or temperature in the patient's own units.
+ * The reading is checked, saved to Apple Health or Health Connect and uploaded.
+ */
+export const HealthEntryEditor: React.FC<HealthEntryEditorProps> = ({
+  visible,
+  initialType = HealthDataType.BLOOD_PRESSURE,
+  onSaved,
+  onClose,
+}) => {
+  const user = useSelector(selectUser);
+
+  const [type, setType] = useState<HealthDataType>(initialType);
+  const [unit, setUnit] = useState('');
+  const [valueText, setValueText] = useState('');
+  const [diastolicText, setDiastolicText] = useState('');
+  const [timestamp, setTimestamp] = useState(new Date());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const definition = MANUAL_ENTRY_DEFINITIONS[type];
+
+  // Start each entry blank, taken now
+  useEffect(() => {
+    if (!visible) return;
+    setType(initialType);
+    setValueText('');
+    setDiastolicText('');
+    setTimestamp(new Date());
+  }, [visible, initialType]);
+
+  // A new type starts in its default unit
+  useEffect(() => {
+    setUnit(MANUAL_ENTRY_DEFINITIONS[type]?.units[0].label ?? '');
+  }, [type]);
+
+  const canSave =
+    !isSaving &&
+    valueText.trim() !== '' &&
+    (!definition?.hasDiastolic || diastolicText.trim() !== '');
+
+  const selectType = (next: HealthDataType) => {
+    setType(next);
+    setValueText('');
+    setDiastolicText('');
+  };
+
+  const handleTimeChange = (_event: DateTimePickerEvent, date?: Date) => {
+    if (date) setTimestamp(date);
+  };
+
+  const openAndroidPicker = (mode: 'date' | 'time') => {
+    DateTimePickerAndroid.open({
+      value: timestamp,
+      mode,
+      maximumDate: new Date(),
+      onChange: handleTimeChange,
+    });
+  };
+
+  const save = async (input: ManualEntryInput) => {
+    const metric = ManualHealthEntry.toMetric(input);
+    if (!metric || !user) return;
+
+    setIsSaving(true);
+    try {
+      const result = await ManualHealthEntry.save(String(user.id), metric);
+      onSaved?.(metric);
+      onClose();
+      if (!result.savedToPlatform) {
+        Alert.alert(
+          'Reading Saved',
+          `Your reading was saved to HopMed but couldn't be added to ${PLATFORM_STORE}. Check HopMed's access in ${PLATFORM_STORE}.`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Failed to save manual reading:', error);
+      Alert.alert('Error', 'Unable to save your reading. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const input: ManualEntryInput = {
+      type,
+      value: parseReading(valueText),
+      diastolic: definition?.hasDiastolic ? parseReading(diastolicText) : undefined,
+      unit,
+      timestamp,
+    };
+
+    const { errors, warnings } = ManualHealthEntry.validate(input);
+    if (errors.length > 0) {
+      Alert.alert('Check Your Reading', errors.join('\n'));
+      return;
+    }
+
+    if (warnings.length > 0) {
+      Alert.alert('Unusual Reading', `${warnings.join('\n')}\n\nIs this reading correct?`, [
+        { text: 'Edit', style: 'cancel' },
+        { text: 'Save', onPress: () => save(input) },
+      ]);
+      return;
+    }
+
+    await save(input);
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityState={{ checked: selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <LinearGradient
+        colors={COLORS.BRAND_GRADIENT}
+        locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+        start={COLORS.BRAND_GRADIENT_START}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Log a reading</Text>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Ionicons name="close" size={26} color={COLORS.WHITE} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionTitle}>Reading</Text>
+          <View style={styles.chips}>
+            {MANUAL_ENTRY_TYPES.map(option => {
+              const optionDefinition = MANUAL_ENTRY_DEFINITIONS[option];
+              return optionDefinition
+                ? renderChip(option, optionDefinition.title, type === option, () =>
+                    selectType(option)
+                  )
+                : null;
+            })}
+          </View>
+
+          {definition && definition.units.length > 1 && (
+            <>
+              <Text style={styles.sectionTitle}>Unit</Text>
+              <View style={styles.chips}>
+                {definition.units.map(option =>
+                  renderChip(option.label, option.label, unit === option.label, () =>
+                    setUnit(option.label)
+                  )
+                )}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>
+            {definition?.hasDiastolic ? `Systolic / Diastolic (${unit})` : `Value (${unit})`}
+          </Text>
+          <View style={styles.valueRow}>
+            <TextInput
+              style={styles.valueInput}
+              value={valueText}
+              onChangeText={setValueText}
+              keyboardType="decimal-pad"
+              placeholder={definition?.hasDiastolic ? '120' : '0'}
+              placeholderTextColor={COLORS.TEXT_SECONDARY}
+              maxLength={6}
+              accessibilityLabel={definition?.hasDiastolic ? 'Systolic' : definition?.title}
+              testID="health-entry-value"
+            />
+            {definition?.hasDiastolic && (
+              <>
+                <Text style={styles.separator}>/</Text>
+                <TextInput
+                  style={styles.valueInput}
+                  value={diastolicText}
+                  onChangeText={setDiastolicText}
+                  keyboardType="decimal-pad"
+                  placeholder="80"
+                  placeholderTextColor={COLORS.TEXT_SECONDARY}
+                  maxLength={6}
+                  accessibilityLabel="Diastolic"
+                  testID="health-entry-diastolic"
+                />
+              </>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Taken</Text>
+          {Platform.OS === 'ios' ? (
+            <DateTimePicker
+              value={timestamp}
+              mode="datetime"
+              display="compact"
+              maximumDate={new Date()}
+              onChange={handleTimeChange}
+              themeVariant="dark"
+              style={styles.iosPicker}
+            />
+          ) : (
+            <View style={styles.chips}>
+              <TouchableOpacity style={styles.chip} onPress={() => openAndroidPicker('date')}>
+                <Text style={styles.chipText}>{timestamp.toLocaleDateString()}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.chip} onPress={() => openAndroidPicker('time')}>
+                <Text style={styles.chipText}>
+                  {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Text style={styles.notice}>
+            Saved to {PLATFORM_STORE} and shared with your care team like your other readings.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!canSave}
+            testID="save-health-entry"
+          >
+            {isSaving ? (
+              <ActivityIndicator color={COLORS.WHITE} />
+            ) : (
+              <Text style={styles.saveText}>Save reading</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 24,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginRight: 12,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    backgroundColor: COLORS.GLASS_BG,
+  },
+  chipSelected: {
+    borderColor: COLORS.SECONDARY,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  chipText: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  chipTextSelected: {
+    color: COLORS.WHITE,
+    fontWeight: '600',
+  },
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  valueInput: {
+    flex: 1,
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  separator: {
+    fontSize: 24,
+    color: COLORS.TEXT_SECONDARY,
+    marginHorizontal: 12,
+  },
+  iosPicker: {
+    alignSelf: 'flex-start',
+  },
+  notice: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 16,
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 20,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default HealthEntryEditor;
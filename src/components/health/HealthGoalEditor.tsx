@@ -0,0 +1,271 @@
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { COLORS } from '../../constants';
+import type { HealthGoal } from '../../types/health';
+
+interface HealthGoalEditorProps {
+  visible: boolean;
+  /** The goal being changed, or null to add one */
+  goal: HealthGoal | null;
+  onSave: (period: HealthGoal['period'], target: number) => void;
+  onDelete: (goal: HealthGoal) => void;
+  onClose: () => void;
+}
+
+const PERIOD_OPTIONS: { label: string; value: HealthGoal['period'] }[] = [
+  { label: 'Every day', value: 'daily' },
+  { label: 'Every week', value: 'weekly' },
+  { label: 'Every month', value: 'monthly' },
+];
+
+const SUGGESTED_TARGETS: Record<HealthGoal['period'], number[]> = {
+  daily: [5_000, 7_500, 10_000, 12_500],
+  weekly: [35_000, 50_000, 70_000, 84_000],
+  monthly: [150_000, 225_000, 300_000, 375_000],
+};
+
+const MAX_TARGET = 10_000_000;
+
+/**
+ * ✅ Set a steps goal
+ * Pick the period and the target. Each period has one goal, so saving a
+ * period that already has one replaces it.
+ */
+export const HealthGoalEditor: React.FC<HealthGoalEditorProps> = ({
+  visible,
+  goal,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [period, setPeriod] = useState<HealthGoal['period']>('daily');
+  const [targetText, setTargetText] = useState('');
+
+  // Start from the goal being edited, or a blank daily goal
+  useEffect(() => {
+    if (!visible) return;
+    setPeriod(goal?.period ?? 'daily');
+    setTargetText(goal ? String(goal.target) : '');
+  }, [visible, goal]);
+
+  const target = parseInt(targetText.replace(/[^0-9]/g, ''), 10);
+  const canSave = Number.isFinite(target) && target > 0 && target <= MAX_TARGET;
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={styles.optionRow}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityState={{ checked: selected }}
+    >
+      <Text style={styles.optionLabel}>{label}</Text>
+      {selected && <Ionicons name="checkmark" size={20} color={COLORS.SECONDARY} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <LinearGradient
+        colors={COLORS.BRAND_GRADIENT}
+        locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+        start={COLORS.BRAND_GRADIENT_START}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{goal ? 'Edit steps goal' : 'New steps goal'}</Text>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Ionicons name="close" size={26} color={COLORS.WHITE} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionTitle}>How often</Text>
+          {PERIOD_OPTIONS.map(option =>
+            renderOption(option.value, option.label, period === option.value, () =>
+              setPeriod(option.value)
+            )
+          )}
+
+          <Text style={styles.sectionTitle}>Steps</Text>
+          <TextInput
+            style={styles.targetInput}
+            value={targetText}
+            onChangeText={setTargetText}
+            keyboardType="number-pad"
+            placeholder="10000"
+            placeholderTextColor={COLORS.TEXT_SECONDARY}
+            maxLength={9}
+            accessibilityLabel="Steps target"
+          />
+          <View style={styles.suggestions}>
+            {SUGGESTED_TARGETS[period].map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.suggestion, target === value && styles.suggestionSelected]}
+                onPress={() => setTargetText(String(value))}
+              >
+                <Text style={styles.suggestionText}>{value.toLocaleString()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.notice}>
+            You'll get a notification the first time you reach your goal each{' '}
+            {period === 'daily' ? 'day' : period === 'weekly' ? 'week' : 'month'}.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+            onPress={() => onSave(period, target)}
+            disabled={!canSave}
+            testID="save-health-goal"
+          >
+            <Text style={styles.saveText}>{goal ? 'Update goal' : 'Add goal'}</Text>
+          </TouchableOpacity>
+
+          {goal && (
+            <TouchableOpacity style={styles.deleteButton} onPress={() => onDelete(goal)}>
+              <Text style={styles.deleteText}>Remove goal</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 24,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginRight: 12,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  targetInput: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  suggestion: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    backgroundColor: COLORS.GLASS_BG,
+  },
+  suggestionSelected: {
+    borderColor: COLORS.SECONDARY,
+  },
+  suggestionText: {
+    fontSize: 14,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  notice: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 16,
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 20,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  deleteText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.ERROR,
+  },
+});
+
+export default HealthGoalEditor;
@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useRef, useEffect } from 'react';
+import React, { useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,9 +13,10 @@ import {
 } from 'react-native';
 
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS } from '../../constants';
+import type { HealthGoal } from '../../types/health';
 import { HealthDataType } from '../../types/health';
 
-interface HealthGoal {
+export interface HealthGoalCardItem {
   id: string;
   type: HealthDataType;
   target: number;
@@ -23,15 +24,17 @@ interface HealthGoal {
   unit: string;
   icon: keyof typeof Ionicons.glyphMap;
   color: string;
+  period?: HealthGoal['period'];
   streak?: number;
   bestStreak?: number;
+  personalBest?: number;
   isAchieved?: boolean;
 }
 
 interface HealthGoalsCardProps {
-  goals: HealthGoal[];
-  onGoalPress?: (goal: HealthGoal) => void;
-  onEditGoal?: (goal: HealthGoal) => void;
+  goals: HealthGoalCardItem[];
+  onGoalPress?: (goal: HealthGoalCardItem) => void;
+  onEditGoal?: (goal: HealthGoalCardItem) => void;
   showProgress?: boolean;
   compactView?: boolean;
 }
@@ -43,12 +46,29 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
   showProgress = true,
   compactView = false,
 }) => {
-  const animatedValues = useRef(goals.map(() => new Animated.Value(0))).current;
+  // One bar per goal id, so adding or removing a goal leaves the other bars where they are
+  const progressValues = useRef(new Map<string, Animated.Value>()).current;
+  const getProgressValue = useCallback(
+    (goalId: string) => {
+      let value = progressValues.get(goalId);
+      if (!value) {
+        value = new Animated.Value(0);
+        progressValues.set(goalId, value);
+      }
+      return value;
+    },
+    [progressValues]
+  );
 
   useEffect(() => {
+    const goalIds = new Set(goals.map(goal => goal.id));
+    for (const goalId of progressValues.keys()) {
+      if (!goalIds.has(goalId)) progressValues.delete(goalId);
+    }
+
     const animations = goals.map((goal, index) => {
       const progress = Math.min((goal.current / goal.target) * 100, 100);
-      return Animated.timing(animatedValues[index], {
+      return Animated.timing(getProgressValue(goal.id), {
         toValue: progress,
         duration: 1500,
         delay: index * 200,
@@ -57,23 +77,27 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
     });
 
     Animated.parallel(animations).start();
-  }, [goals]);
+  }, [goals, progressValues, getProgressValue]);
 
-  const handleGoalPress = (goal: HealthGoal) => {
+  const handleGoalPress = (goal: HealthGoalCardItem) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onGoalPress?.(goal);
   };
 
-  const handleGoalLongPress = (goal: HealthGoal) => {
+  const handleGoalLongPress = (goal: HealthGoalCardItem) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-    Alert.alert('Edit Goal', `Would you like to modify your ${getGoalLabel(goal.type)} goal?`, [
-      { text: 'Cancel', style: 'cancel' },
-      { text: 'Edit', onPress: () => onEditGoal?.(goal) },
-    ]);
+    Alert.alert(
+      'Edit Goal',
+      `Would you like to modify your ${getGoalTitle(goal).toLowerCase()} goal?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Edit', onPress: () => onEditGoal?.(goal) },
+      ]
+    );
   };
 
-  const calculateProgress = (goal: HealthGoal): number => {
+  const calculateProgress = (goal: HealthGoalCardItem): number => {
     return Math.min((goal.current / goal.target) * 100, 100);
   };
 
@@ -84,7 +108,7 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
     return value.toLocaleString();
   };
 
-  const getGoalStatus = (goal: HealthGoal): string => {
+  const getGoalStatus = (goal: HealthGoalCardItem): string => {
     const progress = calculateProgress(goal);
 
     if (progress >= 100) return 'Completed!';
@@ -94,7 +118,7 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
     return 'Just started';
   };
 
-  const renderGoalItem = (goal: HealthGoal, index: number) => {
+  const renderGoalItem = (goal: HealthGoalCardItem) => {
     const progress = calculateProgress(goal);
     const isCompleted = progress >= 100;
 
@@ -111,7 +135,7 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
           </View>
 
           <View style={styles.compactContent}>
-            <Text style={styles.compactLabel}>{getGoalLabel(goal.type)}</Text>
+            <Text style={styles.compactLabel}>{getGoalTitle(goal)}</Text>
             <Text style={styles.compactProgress}>
               {formatGoalValue(goal.current)} / {formatGoalValue(goal.target)} {goal.unit}
             </Text>
@@ -156,11 +180,11 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
           </View>
 
           <View style={styles.goalInfo}>
-            <Text style={styles.goalTitle}>{getGoalLabel(goal.type)}</Text>
+            <Text style={styles.goalTitle}>{getGoalTitle(goal)}</Text>
             <Text style={styles.goalStatus}>{getGoalStatus(goal)}</Text>
           </View>
 
-          {goal.streak && goal.streak > 0 && (
+          {goal.streak !== undefined && goal.streak > 0 && (
             <View style={styles.streakContainer}>
               <Ionicons name="flame" size={16} color={COLORS.WARNING} />
               <Text style={styles.streakText}>{goal.streak}</Text>
@@ -187,7 +211,7 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
                     styles.progressBar,
                     {
                       backgroundColor: goal.color,
-                      width: animatedValues[index].interpolate({
+                      width: getProgressValue(goal.id).interpolate({
                         inputRange: [0, 100],
                         outputRange: ['0%', '100%'],
                       }),
@@ -202,12 +226,23 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
           )}
         </View>
 
-        {goal.bestStreak && (
+        {goal.bestStreak ? (
           <View style={styles.achievementRow}>
             <Ionicons name="trophy" size={14} color={COLORS.WARNING} />
-            <Text style={styles.achievementText}>Best streak: {goal.bestStreak} days</Text>
+            <Text style={styles.achievementText}>
+              Best streak: {goal.bestStreak} {getStreakUnit(goal, goal.bestStreak)}
+            </Text>
+          </View>
+        ) : null}
+
+        {goal.personalBest ? (
+          <View style={styles.achievementRow}>
+            <Ionicons name="ribbon" size={14} color={COLORS.WARNING} />
+            <Text style={styles.achievementText}>
+              Personal best: {goal.personalBest.toLocaleString()} {goal.unit}
+            </Text>
           </View>
-        )}
+        ) : null}
       </TouchableOpacity>
     );
   };
@@ -228,7 +263,7 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
                 style={[
                   styles.summaryProgressFill,
                   {
-                    width: `${(completedGoals / totalGoals) * 100}%`,
+                    width: `${totalGoals > 0 ? (completedGoals / totalGoals) * 100 : 0}%`,
                   },
                 ]}
               />
@@ -250,13 +285,35 @@ export const HealthGoalsCard: React.FC<HealthGoalsCardProps> = ({
         contentContainerStyle={compactView ? styles.compactScrollContent : undefined}
       >
         <View style={compactView ? styles.compactContainer : styles.goalsContainer}>
-          {goals.map(renderGoalItem)}
+          {goals.map(goal => renderGoalItem(goal))}
         </View>
       </ScrollView>
     </View>
   );
 };
 
+const PERIOD_LABELS: Record<HealthGoal['period'], string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const STREAK_UNITS: Record<HealthGoal['period'], [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+};
+
+const getGoalTitle = (goal: HealthGoalCardItem): string =>
+  goal.period
+    ? `${PERIOD_LABELS[goal.period]} ${getGoalLabel(goal.type)}`
+    : getGoalLabel(goal.type);
+
+const getStreakUnit = (goal: HealthGoalCardItem, count: number): string => {
+  const [singular, plural] = STREAK_UNITS[goal.period ?? 'daily'];
+  return count === 1 ? singular : plural;
+};
+
 const getGoalLabel = (type: HealthDataType): string => {
   const labels: Record<HealthDataType, string> = {
     [HealthDataType.HEART_RATE]: 'Heart Rate',
@@ -0,0 +1,117 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { BORDER_RADIUS, SPACING, TYPOGRAPHY } from '../../constants';
+import { DETAIL_METRICS, HEALTH_METRIC_DETAILS } from '../../services/health/HealthMetricHistory';
+import type { HealthDataType } from '../../types/health';
+
+import { HealthEntryEditor } from './HealthEntryEditor';
+
+interface HealthMetricLinksProps {
+  onSelect: (metric: HealthDataType) => void;
+}
+
+/**
+ * ✅ Vitals on the steps dashboards
+ * One row per metric with a detail screen; tapping a row opens it. Readings
+ * taken on a cuff, meter or scale can be logged from here too.
+ */
+export const HealthMetricLinks: React.FC<HealthMetricLinksProps> = ({ onSelect }) => {
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>Vitals</Text>
+        <TouchableOpacity
+          style={styles.logButton}
+          onPress={() => setIsEntryOpen(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Log a reading"
+          testID="log-health-reading"
+        >
+          <Ionicons name="add" size={18} color="rgba(255, 255, 255, 0.9)" />
+          <Text style={styles.logText}>Log reading</Text>
+        </TouchableOpacity>
+      </View>
+      {DETAIL_METRICS.map(metric => {
+        const detail = HEALTH_METRIC_DETAILS[metric];
+        if (!detail) return null;
+
+        return (
+          <TouchableOpacity
+            key={metric}
+            style={styles.row}
+            onPress={() => onSelect(metric)}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={detail.title}
+            testID={`health-metric-${metric}`}
+          >
+            <Ionicons
+              name={detail.icon as keyof typeof Ionicons.glyphMap}
+              size={24}
+              color={detail.color}
+            />
+            <Text style={styles.label}>{detail.title}</Text>
+            <Ionicons name="chevron-forward" size={20} color="rgba(255, 255, 255, 0.6)" />
+          </TouchableOpacity>
+        );
+      })}
+      <HealthEntryEditor visible={isEntryOpen} onClose={() => setIsEntryOpen(false)} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: SPACING.LG,
+    paddingBottom: SPACING.LG,
+    gap: SPACING.SM,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.XS,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.FONT_SIZE_LG,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.XS,
+    paddingHorizontal: SPACING.MD,
+    paddingVertical: SPACING.XS,
+    borderRadius: BORDER_RADIUS.LG,
+    backgroundColor: 'rgba(74, 78, 138, 0.5)',
+  },
+  logText: {
+    fontSize: TYPOGRAPHY.FONT_SIZE_SM,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.MD,
+    backgroundColor: 'rgba(74, 78, 138, 0.5)',
+    borderRadius: BORDER_RADIUS.LG,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    paddingHorizontal: SPACING.LG,
+    paddingVertical: SPACING.MD,
+  },
+  label: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.FONT_SIZE_BASE,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.9)',
+  },
+});
+
+export default HealthMetricLinks;
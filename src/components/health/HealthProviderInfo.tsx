@@ -4,10 +4,12 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+import type { HealthUploadQueueStatus } from '../../types/health';
 
 interface HealthProviderInfoProps {
   providerName: string;
   lastSyncTime: string | null;
+  uploadStatus?: HealthUploadQueueStatus;
 }
 
 const getProviderIcon = (providerName: string): keyof typeof Ionicons.glyphMap => {
@@ -32,37 +34,74 @@ const getProviderDisplayName = (providerName: string): string => {
   return providerName;
 };
 
+const getUploadStatusText = (status: HealthUploadQueueStatus): string | null => {
+  if (status.pending === 0) {
+    return null;
+  }
+
+  const readings = `${status.pending} reading${status.pending === 1 ? '' : 's'}`;
+  if (status.isUploading) {
+    return `Uploading ${readings}…`;
+  }
+  if (status.nextRetryAt) {
+    return `${readings} waiting to upload, retrying ${formatDistanceToNow(status.nextRetryAt, {
+      addSuffix: true,
+    })}`;
+  }
+  return `${readings} waiting to upload`;
+};
+
 export const HealthProviderInfo: React.FC<HealthProviderInfoProps> = ({
   providerName,
   lastSyncTime,
+  uploadStatus,
 }) => {
   const lastSyncText = lastSyncTime
     ? `Synced ${formatDistanceToNow(new Date(lastSyncTime), { addSuffix: true })}`
     : 'Not synced yet';
+  const uploadStatusText = uploadStatus ? getUploadStatusText(uploadStatus) : null;
 
   return (
     <View style={styles.container}>
-      <Ionicons
-        name={getProviderIcon(providerName)}
-        size={20}
-        color={COLORS.TEXT_SECONDARY}
-        style={styles.icon}
-      />
-      <Text style={styles.text}>Data from {getProviderDisplayName(providerName)}</Text>
-      <Text style={styles.syncText}>{lastSyncText}</Text>
+      <View style={styles.row}>
+        <Ionicons
+          name={getProviderIcon(providerName)}
+          size={20}
+          color={COLORS.TEXT_SECONDARY}
+          style={styles.icon}
+        />
+        <Text style={styles.text}>Data from {getProviderDisplayName(providerName)}</Text>
+        <Text style={styles.syncText}>{lastSyncText}</Text>
+      </View>
+      {uploadStatusText && (
+        <View style={[styles.row, styles.uploadRow]}>
+          <Ionicons
+            name={uploadStatus?.isUploading ? 'cloud-upload-outline' : 'cloud-offline-outline'}
+            size={16}
+            color={COLORS.WARNING}
+            style={styles.icon}
+          />
+          <Text style={styles.uploadText}>{uploadStatusText}</Text>
+        </View>
+      )}
     </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row',
-    alignItems: 'center',
     padding: SPACING.SM,
     backgroundColor: COLORS.LIGHT_GRAY,
     borderRadius: BORDER_RADIUS.MD,
     marginTop: SPACING.SM,
   },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  uploadRow: {
+    marginTop: SPACING.XS,
+  },
   icon: {
     marginRight: SPACING.SM,
   },
@@ -77,4 +116,10 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.FONT_SIZE_SM,
     color: COLORS.TEXT_MUTED,
   },
+  uploadText: {
+    fontFamily: TYPOGRAPHY.FONT_FAMILY_REGULAR,
+    fontSize: TYPOGRAPHY.FONT_SIZE_SM,
+    color: COLORS.TEXT_SECONDARY,
+    flex: 1,
+  },
 });
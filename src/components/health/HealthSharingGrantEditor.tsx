@@ -0,0 +1,322 @@
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { COLORS } from '../../constants';
+import type { HealthSharingGrant, HealthSharingGrantRequest } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+export interface SharingDoctor {
+  id: string;
+  name: string;
+  specialty?: string;
+}
+
+interface HealthSharingGrantEditorProps {
+  visible: boolean;
+  /** Doctors the patient can share with; ignored when editing a grant */
+  doctors: SharingDoctor[];
+  /** The grant being changed, or null to share with a new doctor */
+  grant: HealthSharingGrant | null;
+  isSaving: boolean;
+  onSave: (request: HealthSharingGrantRequest) => void;
+  onClose: () => void;
+}
+
+// Data types a patient can share, in the order a clinician reads them
+export const SHAREABLE_DATA_TYPES: HealthDataType[] = [
+  HealthDataType.HEART_RATE,
+  HealthDataType.RESTING_HEART_RATE,
+  HealthDataType.BLOOD_PRESSURE,
+  HealthDataType.OXYGEN_SATURATION,
+  HealthDataType.RESPIRATORY_RATE,
+  HealthDataType.BODY_TEMPERATURE,
+  HealthDataType.BLOOD_GLUCOSE,
+  HealthDataType.WEIGHT,
+  HealthDataType.STEPS,
+  HealthDataType.SLEEP,
+  HealthDataType.EXERCISE,
+  HealthDataType.CALORIES_BURNED,
+];
+
+export const getSharingLabel = (type: HealthDataType): string => {
+  const labels: Record<HealthDataType, string> = {
+    [HealthDataType.HEART_RATE]: 'Heart Rate',
+    [HealthDataType.STEPS]: 'Steps',
+    [HealthDataType.SLEEP]: 'Sleep',
+    [HealthDataType.WEIGHT]: 'Weight',
+    [HealthDataType.HEIGHT]: 'Height',
+    [HealthDataType.BLOOD_PRESSURE]: 'Blood Pressure',
+    [HealthDataType.OXYGEN_SATURATION]: 'Oxygen',
+    [HealthDataType.BODY_TEMPERATURE]: 'Temperature',
+    [HealthDataType.BLOOD_GLUCOSE]: 'Glucose',
+    [HealthDataType.DISTANCE]: 'Distance',
+    [HealthDataType.CALORIES_BURNED]: 'Calories',
+    [HealthDataType.BODY_FAT_PERCENTAGE]: 'Body Fat',
+    [HealthDataType.ACTIVE_ENERGY]: 'Active Energy',
+    [HealthDataType.RESTING_HEART_RATE]: 'Resting HR',
+    [HealthDataType.RESPIRATORY_RATE]: 'Respiratory',
+    [HealthDataType.EXERCISE]: 'Exercise',
+  };
+  return labels[type] || 'Health Data';
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 'keep' leaves an edited grant's end date as it is
+type SharingDuration = number | null | 'keep';
+
+const DURATION_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '24 hours', value: DAY_MS },
+  { label: '1 week', value: 7 * DAY_MS },
+  { label: '30 days', value: 30 * DAY_MS },
+  { label: '90 days', value: 90 * DAY_MS },
+  { label: 'Until I stop sharing', value: null },
+];
+
+/**
+ * ✅ Share health data with a doctor
+ * Pick the doctor, the data types they may see and for how long. Saving
+ * replaces any current grant for that doctor.
+ */
+export const HealthSharingGrantEditor: React.FC<HealthSharingGrantEditorProps> = ({
+  visible,
+  doctors,
+  grant,
+  isSaving,
+  onSave,
+  onClose,
+}) => {
+  const [doctorId, setDoctorId] = useState<string | null>(null);
+  const [dataTypes, setDataTypes] = useState<HealthDataType[]>([]);
+  const [duration, setDuration] = useState<SharingDuration>(30 * DAY_MS);
+
+  // Start from the grant being edited, or a blank 30-day share
+  useEffect(() => {
+    if (!visible) return;
+    setDoctorId(grant?.doctor_id ?? null);
+    setDataTypes(grant?.data_types ?? []);
+    setDuration(grant ? (grant.expires_at ? 'keep' : null) : 30 * DAY_MS);
+  }, [visible, grant]);
+
+  const toggleDataType = (type: HealthDataType) => {
+    setDataTypes(current =>
+      current.includes(type) ? current.filter(existing => existing !== type) : [...current, type]
+    );
+  };
+
+  const canSave = !!doctorId && dataTypes.length > 0 && !isSaving;
+
+  const handleSave = () => {
+    if (!doctorId) return;
+    let expiresAt: string | null;
+    if (duration === 'keep') {
+      expiresAt = grant?.expires_at ?? null;
+    } else {
+      expiresAt = duration === null ? null : new Date(Date.now() + duration).toISOString();
+    }
+    onSave({ doctor_id: doctorId, data_types: dataTypes, expires_at: expiresAt });
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    accessibilityRole: 'radio' | 'checkbox'
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={styles.optionRow}
+      onPress={onPress}
+      disabled={isSaving}
+      accessibilityRole={accessibilityRole}
+      accessibilityState={{ checked: selected }}
+    >
+      <Text style={styles.optionLabel}>{label}</Text>
+      {selected && <Ionicons name="checkmark" size={20} color={COLORS.SECONDARY} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <LinearGradient
+        colors={COLORS.BRAND_GRADIENT}
+        locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+        start={COLORS.BRAND_GRADIENT_START}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>
+            {grant ? `Sharing with ${grant.doctor_name}` : 'Share health data'}
+          </Text>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Ionicons name="close" size={26} color={COLORS.WHITE} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {!grant && (
+            <>
+              <Text style={styles.sectionTitle}>Doctor</Text>
+              {doctors.length === 0 ? (
+                <Text style={styles.notice}>
+                  Doctors you've booked an appointment with will appear here.
+                </Text>
+              ) : (
+                doctors.map(doctor =>
+                  renderOption(
+                    doctor.id,
+                    doctor.specialty ? `${doctor.name} · ${doctor.specialty}` : doctor.name,
+                    doctorId === doctor.id,
+                    () => setDoctorId(doctor.id),
+                    'radio'
+                  )
+                )
+              )}
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>What they can see</Text>
+          {SHAREABLE_DATA_TYPES.map(type =>
+            renderOption(
+              type,
+              getSharingLabel(type),
+              dataTypes.includes(type),
+              () => toggleDataType(type),
+              'checkbox'
+            )
+          )}
+
+          <Text style={styles.sectionTitle}>For how long</Text>
+          {grant?.expires_at &&
+            renderOption(
+              'keep',
+              `Until ${new Date(grant.expires_at).toLocaleDateString()}`,
+              duration === 'keep',
+              () => setDuration('keep'),
+              'radio'
+            )}
+          {DURATION_OPTIONS.map(option =>
+            renderOption(
+              option.label,
+              option.label,
+              duration === option.value,
+              () => setDuration(option.value),
+              'radio'
+            )
+          )}
+
+          <Text style={styles.notice}>
+            Your doctor only sees the data you tick, and only until sharing ends. Every time they
+            look, it's recorded in your access log.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!canSave}
+            testID="save-health-sharing"
+          >
+            {isSaving ? (
+              <ActivityIndicator color={COLORS.WHITE} />
+            ) : (
+              <Text style={styles.saveText}>{grant ? 'Update sharing' : 'Share'}</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 24,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginRight: 12,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  notice: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 12,
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 20,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+});
+
+export default HealthSharingGrantEditor;
@@ -0,0 +1,532 @@
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { COLORS } from '../../constants';
+import PatientHealthSummary from '../../services/health/PatientHealthSummary';
+import RealTimeHealthMonitor from '../../services/health/RealTimeHealthMonitor';
+import {
+  useGetPatientThresholdAuditQuery,
+  useGetPatientThresholdsQuery,
+} from '../../store/api/healthApi';
+import type {
+  HealthDataType,
+  HealthThreshold,
+  HealthThresholdAuditEntry,
+} from '../../types/health';
+
+interface HealthThresholdEditorProps {
+  visible: boolean;
+  patientId: string;
+  patientName: string;
+  /** Data types the patient has shared; only these can be given limits */
+  types: HealthDataType[];
+  onClose: () => void;
+}
+
+type LimitKey = 'critical_min' | 'min' | 'max' | 'critical_max';
+type LimitFields = Record<LimitKey, string>;
+
+// In the order they sit on the scale
+const LIMIT_FIELDS: { key: LimitKey; label: string }[] = [
+  { key: 'critical_min', label: 'Critical low' },
+  { key: 'min', label: 'Low' },
+  { key: 'max', label: 'High' },
+  { key: 'critical_max', label: 'Critical high' },
+];
+
+// Change history entries shown per data type
+const MAX_AUDIT_ENTRIES = 10;
+
+const toFields = (threshold?: HealthThreshold): LimitFields => ({
+  critical_min: threshold?.critical_min?.toString() ?? '',
+  min: threshold?.min?.toString() ?? '',
+  max: threshold?.max?.toString() ?? '',
+  critical_max: threshold?.critical_max?.toString() ?? '',
+});
+
+// Accepts a decimal comma as well as a point
+const parseLimit = (text: string) => parseFloat(text.replace(',', '.'));
+
+const validateLimits = (limits: Record<LimitKey, number>): string | null => {
+  if (LIMIT_FIELDS.some(({ key }) => !Number.isFinite(limits[key]))) {
+    return 'Enter all four limits';
+  }
+  if (
+    limits.critical_min > limits.min ||
+    limits.min >= limits.max ||
+    limits.max > limits.critical_max
+  ) {
+    return 'Limits must run from critical low, low and high up to critical high';
+  }
+  return null;
+};
+
+const formatLimit = (value?: number) => (value === undefined ? '–' : String(value));
+
+const describeChange = (entry: HealthThresholdAuditEntry): string => {
+  const { previous, current } = entry;
+  if (!previous) return 'Set custom limits';
+  if (!current) return 'Reset to the default limits';
+
+  const changes = LIMIT_FIELDS.filter(({ key }) => previous[key] !== current[key]).map(
+    ({ key, label }) => `${label} ${formatLimit(previous[key])} → ${formatLimit(current[key])}`
+  );
+  if (previous.enabled !== current.enabled) {
+    changes.push(current.enabled ? 'Alerts turned on' : 'Alerts turned off');
+  }
+  return changes.join(', ') || 'No changes';
+};
+
+/**
+ * ✅ Set a patient's alert limits (doctor only)
+ * Each shared vital starts from the default limits. Saved limits replace the
+ * defaults on the patient's monitor, and every change is kept in the audit
+ * trail with who made it and why.
+ */
+export const HealthThresholdEditor: React.FC<HealthThresholdEditorProps> = ({
+  visible,
+  patientId,
+  patientName,
+  types,
+  onClose,
+}) => {
+  const thresholdsQuery = useGetPatientThresholdsQuery(patientId, { skip: !visible });
+  const auditQuery = useGetPatientThresholdAuditQuery(patientId, { skip: !visible });
+
+  const defaults = useMemo(() => RealTimeHealthMonitor.getInstance().getDefaultThresholds(), []);
+  const vitals = useMemo(
+    () =>
+      PatientHealthSummary.VITALS.filter(
+        vital =>
+          types.includes(vital.type) && defaults.some(threshold => threshold.type === vital.type)
+      ),
+    [types, defaults]
+  );
+
+  const [selectedType, setSelectedType] = useState<HealthDataType | null>(null);
+  const [fields, setFields] = useState<LimitFields>(toFields());
+  const [enabled, setEnabled] = useState(true);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const overrides = useMemo(() => thresholdsQuery.data?.thresholds ?? [], [thresholdsQuery.data]);
+  const override = overrides.find(threshold => threshold.type === selectedType);
+  const current = override ?? defaults.find(threshold => threshold.type === selectedType);
+  const vital = vitals.find(option => option.type === selectedType);
+
+  // Keep the selection on a vital that can be edited
+  useEffect(() => {
+    if (!visible) return;
+    if (selectedType && vitals.some(option => option.type === selectedType)) return;
+    setSelectedType(vitals[0]?.type ?? null);
+  }, [visible, vitals, selectedType]);
+
+  // Show the limits in force for the selected vital
+  useEffect(() => {
+    setFields(toFields(current));
+    setEnabled(current?.enabled ?? true);
+    setReason('');
+  }, [current]);
+
+  const auditEntries = useMemo(
+    () =>
+      (auditQuery.data?.entries ?? [])
+        .filter(entry => entry.type === selectedType)
+        .sort((a, b) => new Date(b.changed_at).getTime() - new Date(a.changed_at).getTime())
+        .slice(0, MAX_AUDIT_ENTRIES),
+    [auditQuery.data, selectedType]
+  );
+
+  const saveThresholds = async (thresholds: HealthThreshold[]) => {
+    setIsSaving(true);
+    try {
+      await RealTimeHealthMonitor.getInstance().updateThresholds(
+        patientId,
+        thresholds,
+        reason.trim() || undefined
+      );
+    } catch (error) {
+      console.error('❌ Failed to update patient thresholds:', error);
+      Alert.alert('Error', 'Unable to update the alert limits. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedType) return;
+
+    const limits = {
+      critical_min: parseLimit(fields.critical_min),
+      min: parseLimit(fields.min),
+      max: parseLimit(fields.max),
+      critical_max: parseLimit(fields.critical_max),
+    };
+    const error = validateLimits(limits);
+    if (error) {
+      Alert.alert('Check the Limits', error);
+      return;
+    }
+
+    await saveThresholds([
+      ...overrides.filter(threshold => threshold.type !== selectedType),
+      { type: selectedType, ...limits, enabled },
+    ]);
+  };
+
+  const handleReset = () => {
+    if (!override || !vital) return;
+    Alert.alert(
+      'Use Default Limits',
+      `${patientName}'s ${vital.label.toLowerCase()} alerts will go back to the default limits.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: () =>
+            saveThresholds(overrides.filter(threshold => threshold.type !== override.type)),
+        },
+      ]
+    );
+  };
+
+  const renderBody = () => {
+    if (thresholdsQuery.isLoading) {
+      return <ActivityIndicator color={COLORS.WHITE} style={styles.loading} />;
+    }
+    if (thresholdsQuery.error) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>Couldn't load the current limits.</Text>
+          <TouchableOpacity onPress={thresholdsQuery.refetch} accessibilityRole="button">
+            <Text style={styles.retryText}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    if (!vital) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>
+            {patientName} hasn't shared any vitals that alert limits apply to.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.sectionTitle}>Vital</Text>
+        <View style={styles.chips}>
+          {vitals.map(option => {
+            const selected = option.type === selectedType;
+            return (
+              <TouchableOpacity
+                key={option.type}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setSelectedType(option.type)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: selected }}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.sectionTitle}>
+          Limits ({vital.unit}) · {override ? 'Custom' : 'Default'}
+        </Text>
+        <View style={styles.limitsGrid}>
+          {LIMIT_FIELDS.map(({ key, label }) => (
+            <View key={key} style={styles.limitField}>
+              <Text style={styles.limitLabel}>{label}</Text>
+              <TextInput
+                style={styles.limitInput}
+                value={fields[key]}
+                onChangeText={text => setFields(previous => ({ ...previous, [key]: text }))}
+                keyboardType="decimal-pad"
+                maxLength={6}
+                accessibilityLabel={`${label} ${vital.label.toLowerCase()}`}
+              />
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Alert on this vital</Text>
+          <Switch
+            value={enabled}
+            onValueChange={setEnabled}
+            trackColor={{ false: COLORS.GLASS_BORDER, true: COLORS.SECONDARY }}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Reason</Text>
+        <TextInput
+          style={styles.reasonInput}
+          value={reason}
+          onChangeText={setReason}
+          placeholder="Recorded in the change history"
+          placeholderTextColor={COLORS.TEXT_SECONDARY}
+          maxLength={200}
+          multiline
+          accessibilityLabel="Reason for the change"
+        />
+
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+          testID="save-health-thresholds"
+        >
+          {isSaving ? (
+            <ActivityIndicator color={COLORS.WHITE} />
+          ) : (
+            <Text style={styles.saveText}>Save limits</Text>
+          )}
+        </TouchableOpacity>
+
+        {override && (
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset} disabled={isSaving}>
+            <Text style={styles.resetText}>Use default limits</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.sectionTitle}>Change history</Text>
+        {auditQuery.isLoading ? (
+          <ActivityIndicator color={COLORS.WHITE} />
+        ) : auditEntries.length === 0 ? (
+          <Text style={styles.messageText}>No changes yet.</Text>
+        ) : (
+          auditEntries.map(entry => (
+            <View key={entry.id} style={styles.auditEntry}>
+              <Text style={styles.auditChange}>{describeChange(entry)}</Text>
+              <Text style={styles.auditMeta}>
+                {entry.changed_by.name} · {new Date(entry.changed_at).toLocaleString()}
+              </Text>
+              {entry.reason ? <Text style={styles.auditReason}>“{entry.reason}”</Text> : null}
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <LinearGradient
+        colors={COLORS.BRAND_GRADIENT}
+        locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+        start={COLORS.BRAND_GRADIENT_START}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Alert limits for {patientName}</Text>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Ionicons name="close" size={26} color={COLORS.WHITE} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {renderBody()}
+        </ScrollView>
+      </LinearGradient>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 24,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginRight: 12,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  loading: {
+    paddingVertical: 24,
+  },
+  message: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 8,
+  },
+  messageText: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.ACCENT_GREEN,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    backgroundColor: COLORS.GLASS_BG,
+  },
+  chipSelected: {
+    borderColor: COLORS.SECONDARY,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  chipText: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  chipTextSelected: {
+    color: COLORS.WHITE,
+    fontWeight: '600',
+  },
+  limitsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  limitField: {
+    flexGrow: 1,
+    flexBasis: '45%',
+  },
+  limitLabel: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginBottom: 4,
+  },
+  limitInput: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  reasonInput: {
+    minHeight: 64,
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 20,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  resetButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  resetText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.ERROR,
+  },
+  auditEntry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.GLASS_BORDER,
+  },
+  auditChange: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  auditMeta: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  auditReason: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 4,
+  },
+});
+
+export default HealthThresholdEditor;
@@ -0,0 +1,328 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+
+import { BORDER_RADIUS, COLORS, SPACING, TYPOGRAPHY } from '../../constants';
+import { usePatientHealthPanel } from '../../hooks/health/usePatientHealthPanel';
+import type { HealthAlert, HealthDataType } from '../../types/health';
+
+import { HealthChart } from './HealthChart';
+import { HealthInsightsCard } from './HealthInsightsCard';
+import { HealthThresholdEditor } from './HealthThresholdEditor';
+import { WeeklyStepsChart } from './WeeklyStepsChart';
+
+interface PatientHealthPanelProps {
+  patientId?: string;
+  patientName: string;
+  /** Refresh in the background, e.g. while in a call with the patient */
+  live?: boolean;
+  /** Let the doctor set the patient's alert limits */
+  thresholdsEditable?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+const ALERT_CARD_TYPES: Record<HealthAlert['type'], 'error' | 'warning' | 'info'> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'info',
+};
+
+const formatReadingTime = (date: Date) =>
+  date.toLocaleString('en-US', {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * ✅ Doctor-side patient health panel
+ * Recent vitals with trend sparklines, this week's steps and active alerts,
+ * limited to what the patient has shared with this doctor.
+ */
+export const PatientHealthPanel: React.FC<PatientHealthPanelProps> = memo(
+  ({ patientId, patientName, live = false, thresholdsEditable = false, style }) => {
+    const {
+      status,
+      sharedTypes,
+      accessExpiresAt,
+      vitals,
+      weeklySteps,
+      alerts,
+      isRefreshing,
+      refresh,
+    } = usePatientHealthPanel(patientId, { live });
+    const [selectedType, setSelectedType] = useState<HealthDataType | null>(null);
+    const [thresholdsVisible, setThresholdsVisible] = useState(false);
+
+    // Default to the first vital with enough readings to draw a trend
+    useEffect(() => {
+      if (selectedType && vitals.some(vital => vital.type === selectedType)) return;
+      setSelectedType(vitals.find(vital => vital.trend.length > 1)?.type ?? null);
+    }, [vitals, selectedType]);
+
+    const selectedVital = vitals.find(vital => vital.type === selectedType);
+
+    const renderBody = () => {
+      switch (status) {
+        case 'loading':
+          return <ActivityIndicator color={COLORS.WHITE} style={styles.loading} />;
+
+        case 'no-access':
+          return (
+            <View style={styles.message}>
+              <Ionicons name="lock-closed" size={28} color={COLORS.TEXT_SECONDARY} />
+              <Text style={styles.messageTitle}>
+                {patientName} hasn't shared health data with you
+              </Text>
+              <Text style={styles.messageText}>
+                Patients choose which health data their doctors can see, and for how long.
+              </Text>
+            </View>
+          );
+
+        case 'error':
+          return (
+            <View style={styles.message}>
+              <Ionicons name="cloud-offline" size={28} color={COLORS.TEXT_SECONDARY} />
+              <Text style={styles.messageTitle}>Couldn't load health data</Text>
+              <TouchableOpacity onPress={refresh} accessibilityRole="button">
+                <Text style={styles.retryText}>Try again</Text>
+              </TouchableOpacity>
+            </View>
+          );
+
+        case 'ready':
+          if (vitals.length === 0 && !weeklySteps && alerts.length === 0) {
+            return (
+              <View style={styles.message}>
+                <Ionicons name="pulse" size={28} color={COLORS.TEXT_SECONDARY} />
+                <Text style={styles.messageText}>No readings synced this week.</Text>
+              </View>
+            );
+          }
+          return (
+            <>
+              {alerts.map(alert => (
+                <HealthInsightsCard
+                  key={alert.id}
+                  type={ALERT_CARD_TYPES[alert.type]}
+                  title={alert.title}
+                  message={alert.message}
+                  icon={alert.type === 'critical' ? 'alert-circle' : 'warning'}
+                  showAnimation={false}
+                />
+              ))}
+
+              {vitals.length > 0 && (
+                <View style={styles.vitalsGrid}>
+                  {vitals.map(vital => (
+                    <TouchableOpacity
+                      key={vital.type}
+                      style={[
+                        styles.vitalTile,
+                        vital.type === selectedType && styles.vitalTileSelected,
+                      ]}
+                      onPress={() => setSelectedType(vital.type)}
+                      disabled={vital.trend.length < 2}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${vital.label} ${vital.value} ${vital.unit}`}
+                    >
+                      <View style={styles.vitalHeader}>
+                        <Ionicons
+                          name={vital.icon as keyof typeof Ionicons.glyphMap}
+                          size={16}
+                          color={vital.color}
+                        />
+                        <Text style={styles.vitalLabel}>{vital.label}</Text>
+                      </View>
+                      <Text style={styles.vitalValue}>
+                        {vital.value}
+                        <Text style={styles.vitalUnit}> {vital.unit}</Text>
+                      </Text>
+                      <Text style={styles.vitalTime}>{formatReadingTime(vital.timestamp)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {selectedVital && selectedVital.trend.length > 1 && (
+                <HealthChart
+                  data={selectedVital.trend}
+                  type="line"
+                  period="Week"
+                  height={160}
+                  color={selectedVital.color}
+                  showGrid={false}
+                  animated={false}
+                  yAxisLabel={`${selectedVital.label} (${selectedVital.unit})`}
+                />
+              )}
+
+              {weeklySteps && <WeeklyStepsChart data={weeklySteps} />}
+            </>
+          );
+      }
+    };
+
+    return (
+      <View style={[styles.container, style]}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>Health data</Text>
+            {status === 'ready' && accessExpiresAt && (
+              <Text style={styles.subtitle}>
+                Shared until {new Date(accessExpiresAt).toLocaleDateString()}
+              </Text>
+            )}
+          </View>
+          {status !== 'loading' && (
+            <TouchableOpacity
+              onPress={refresh}
+              disabled={isRefreshing}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityRole="button"
+              accessibilityLabel="Refresh health data"
+            >
+              {isRefreshing ? (
+                <ActivityIndicator size="small" color={COLORS.WHITE} />
+              ) : (
+                <Ionicons name="refresh" size={20} color={COLORS.WHITE} />
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+        {renderBody()}
+
+        {thresholdsEditable && patientId && status === 'ready' && (
+          <>
+            <TouchableOpacity
+              style={styles.thresholdsButton}
+              onPress={() => setThresholdsVisible(true)}
+              accessibilityRole="button"
+            >
+              <Ionicons name="options" size={16} color={COLORS.ACCENT_GREEN} />
+              <Text style={styles.thresholdsText}>Alert limits</Text>
+            </TouchableOpacity>
+            <HealthThresholdEditor
+              visible={thresholdsVisible}
+              patientId={patientId}
+              patientName={patientName}
+              types={sharedTypes}
+              onClose={() => setThresholdsVisible(false)}
+            />
+          </>
+        )}
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.CARD,
+    borderRadius: BORDER_RADIUS.XL,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    padding: SPACING.MD,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.SM,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: TYPOGRAPHY.FONT_SIZE_LG,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: TYPOGRAPHY.FONT_SIZE_XS,
+    marginTop: 2,
+  },
+  loading: {
+    paddingVertical: SPACING.LG,
+  },
+  message: {
+    alignItems: 'center',
+    paddingVertical: SPACING.MD,
+    gap: SPACING.SM,
+  },
+  messageTitle: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: TYPOGRAPHY.FONT_SIZE_BASE,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  messageText: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: TYPOGRAPHY.FONT_SIZE_SM,
+    textAlign: 'center',
+  },
+  retryText: {
+    color: COLORS.ACCENT_GREEN,
+    fontSize: TYPOGRAPHY.FONT_SIZE_SM,
+    fontWeight: '600',
+  },
+  vitalsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.SM,
+    marginVertical: SPACING.SM,
+  },
+  vitalTile: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    backgroundColor: COLORS.BUTTON_SECONDARY,
+    borderRadius: BORDER_RADIUS.LG,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    padding: SPACING.SM + 4,
+  },
+  vitalTileSelected: {
+    borderColor: COLORS.ACCENT_GREEN,
+  },
+  vitalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.XS,
+  },
+  vitalLabel: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: TYPOGRAPHY.FONT_SIZE_XS,
+  },
+  vitalValue: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: TYPOGRAPHY.FONT_SIZE_XL,
+    fontWeight: '700',
+    marginTop: SPACING.XS,
+  },
+  vitalUnit: {
+    fontSize: TYPOGRAPHY.FONT_SIZE_SM,
+    fontWeight: '400',
+  },
+  vitalTime: {
+    color: COLORS.TEXT_MUTED,
+    fontSize: TYPOGRAPHY.FONT_SIZE_XS,
+    marginTop: 2,
+  },
+  thresholdsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.XS,
+    paddingTop: SPACING.SM,
+  },
+  thresholdsText: {
+    color: COLORS.ACCENT_GREEN,
+    fontSize: TYPOGRAPHY.FONT_SIZE_SM,
+    fontWeight: '600',
+  },
+});
+
+export default PatientHealthPanel;
@@ -12,16 +12,20 @@ export interface ChartDataPoint {
   label: string;
   isCurrent: boolean;
   isFuture?: boolean;
+  isEmpty?: boolean; // No reading: no dot, and the curve skips the point
+  secondaryValue?: number; // Drawn as a second curve, e.g. diastolic blood pressure
 }
 
 interface UnifiedStepsChartProps {
   data: ChartDataPoint[];
   maxValue?: number;
+  minValue?: number;
 }
 
 export const UnifiedStepsChart: React.FC<UnifiedStepsChartProps> = ({
   data,
   maxValue: propMaxValue,
+  minValue = 0,
 }) => {
   const numPoints = data.length;
   const BAR_SPACING = numPoints > 7 ? 4 : 8;
@@ -42,19 +46,22 @@ export const UnifiedStepsChart: React.FC<UnifiedStepsChartProps> = ({
   // Calculate max value for scaling (with 10% padding)
   const maxValue = propMaxValue || Math.max(...data.map(d => d.value), 1000) * 1.1;
 
+  const toY = (value: number) =>
+    CHART_HEIGHT - 60 - ((value - minValue) / (maxValue - minValue)) * (CHART_HEIGHT - 80);
+
   // Generate smooth curve path
-  const generateCurvePath = (): string => {
+  const generateCurvePath = (getValue: (d: ChartDataPoint) => number | undefined = d => d.value): string => {
     if (data.length === 0) return '';
 
-    // Filter out future data points
-    const pastAndCurrentData = data.filter(d => !d.isFuture);
+    // Filter out future and empty data points
+    const pastAndCurrentData = data.filter(d => !d.isFuture && !d.isEmpty && getValue(d) !== undefined);
     if (pastAndCurrentData.length === 0) return '';
 
     const points = pastAndCurrentData.map((d, index) => {
       const originalIndex = data.findIndex(item => item.label === d.label);
       return {
         x: POINT_WIDTH / 2 + originalIndex * (POINT_WIDTH + BAR_SPACING),
-        y: CHART_HEIGHT - 60 - (d.value / maxValue) * (CHART_HEIGHT - 80),
+        y: toY(getValue(d) ?? minValue),
       };
     });
 
@@ -81,6 +88,7 @@ export const UnifiedStepsChart: React.FC<UnifiedStepsChartProps> = ({
   };
 
   const curvePath = generateCurvePath();
+  const secondaryCurvePath = generateCurvePath(d => d.secondaryValue);
 
   return (
     <Animated.View style={[styles.container, { opacity: fadeAnim }]}>
@@ -111,11 +119,11 @@ export const UnifiedStepsChart: React.FC<UnifiedStepsChartProps> = ({
         {/* Bar - Only show for current period */}
         <G>
           {data.map((point, index) => {
-            if (!point.isCurrent || point.isFuture) return null;
+            if (!point.isCurrent || point.isFuture || point.isEmpty) return null;
 
-            const barHeight = (point.value / maxValue) * (CHART_HEIGHT - 80);
+            const y = toY(point.value);
+            const barHeight = CHART_HEIGHT - 60 - y;
             const x = index * (POINT_WIDTH + BAR_SPACING);
-            const y = CHART_HEIGHT - 60 - barHeight;
 
             return (
               <Rect
@@ -155,20 +163,35 @@ export const UnifiedStepsChart: React.FC<UnifiedStepsChartProps> = ({
           opacity={0.85}
         />
 
+        {/* Secondary Curve Line */}
+        {secondaryCurvePath !== '' && (
+          <Path
+            d={secondaryCurvePath}
+            stroke="#F5C2A8"
+            strokeWidth={2.5}
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeDasharray="6,4"
+            opacity={0.85}
+          />
+        )}
+
         {/* Data Points - Only for past and current */}
         <G>
           {data.map((point, index) => {
-            if (point.isFuture) return null;
+            if (point.isFuture || point.isEmpty) return null;
 
             const cx = POINT_WIDTH / 2 + index * (POINT_WIDTH + BAR_SPACING);
-            const cy = CHART_HEIGHT - 60 - (point.value / maxValue) * (CHART_HEIGHT - 80);
+            const cy = toY(point.value);
 
+            // Sparse readings (isEmpty set) get a dot each, or a lone one wouldn't show
             return (
               <Circle
                 key={`point-${index}`}
                 cx={cx}
                 cy={cy}
-                r={point.isCurrent ? 8 : 0}
+                r={point.isCurrent ? 8 : point.isEmpty === false ? 4 : 0}
                 fill="#34D399"
                 stroke="#fff"
                 strokeWidth={2}
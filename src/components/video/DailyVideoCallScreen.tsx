@@ -14,11 +14,14 @@ import DailyService from '../../services/dailyService';
 
 interface DailyVideoCallScreenProps {
   roomUrl: string;
+  /** Meeting token for private consultation rooms */
+  token?: string | null;
   onEndCall: () => void;
 }
 
 export const DailyVideoCallScreen: React.FC<DailyVideoCallScreenProps> = ({
   roomUrl,
+  token,
   onEndCall,
 }) => {
   const [joined, setJoined] = useState(false);
@@ -64,7 +67,7 @@ export const DailyVideoCallScreen: React.FC<DailyVideoCallScreenProps> = ({
       callObject.on('meeting-session-state-changed', handleMeetingStateChanged);
 
       console.log('Joining Daily.co room:', roomUrl);
-      await DailyService.joinRoom(roomUrl);
+      await DailyService.joinRoom(roomUrl, { token });
     } catch (error) {
       console.error('Failed to initialize Daily.co:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -10,6 +10,9 @@
  * - Calories (line 909) - active + basal = total
  * - Active Time (line 924-926)
  *
+ * plus the vitals shown in HealthMetricDetailScreen (sleep, blood pressure,
+ * blood oxygen, weight and glucose)
+ *
  * @see https://github.com/Kingstinct/react-native-healthkit
  */
 
@@ -24,6 +27,17 @@ export const HKQuantityType = {
 
   // Heart
   heartRate: 'HKQuantityTypeIdentifierHeartRate',
+
+  // Vitals & body measurements (metric detail screens)
+  bloodPressureSystolic: 'HKQuantityTypeIdentifierBloodPressureSystolic',
+  bloodPressureDiastolic: 'HKQuantityTypeIdentifierBloodPressureDiastolic',
+  oxygenSaturation: 'HKQuantityTypeIdentifierOxygenSaturation',
+  bodyMass: 'HKQuantityTypeIdentifierBodyMass',
+  bloodGlucose: 'HKQuantityTypeIdentifierBloodGlucose',
+} as const;
+
+export const HKCategoryType = {
+  sleepAnalysis: 'HKCategoryTypeIdentifierSleepAnalysis',
 } as const;
 
 export type HKQuantityTypeValue = typeof HKQuantityType[keyof typeof HKQuantityType];
@@ -318,6 +318,18 @@ export const STORAGE_KEYS = {
   LAST_SYNC: 'hopmed_last_sync',
   DEVICE_ID: 'hopmed_device_id',
   HEALTHKIT_PERMISSION_REQUESTED: 'hopmed_healthkit_permission_requested',
+  CALL_CHAT_HISTORY: 'hopmed_call_chat_history',
+  CALL_TRANSCRIPT_OUTBOX: 'hopmed_call_transcript_outbox',
+  CHAT_OUTBOX: 'hopmed_chat_outbox',
+  HEALTH_UPLOAD_QUEUE: 'hopmed_health_upload_queue',
+  HEALTH_SYNC_METRICS: 'hopmed_health_sync_metrics',
+  HEALTH_SOURCE_PRIORITY: 'hopmed_health_source_priority',
+  HEALTH_GOALS: 'hopmed_health_goals',
+  HEALTH_GOAL_HISTORY: 'hopmed_health_goal_history',
+  CALL_HISTORY: 'hopmed_call_history',
+  ENTITY_CACHE_DOCTORS: 'hopmed_entity_cache_doctors',
+  ENTITY_CACHE_CUSTOMERS: 'hopmed_entity_cache_customers',
+  APP_LOCK_SETTINGS: 'hopmed_app_lock_settings',
 } as const;
 
 // Error messages
@@ -330,6 +342,7 @@ export const ERROR_MESSAGES = {
   VALIDATION_ERROR: 'Please check your input and try again.',
   HEALTH_SERVICE_UNAVAILABLE: 'Health services are not available on this device.',
   WATCH_CONNECTION_FAILED: 'Failed to connect to your smartwatch.',
+  SESSION_REVOKED: 'This device was signed out from another device. Please log in again.',
 } as const;
 
 // Success messages
@@ -1,13 +1,20 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+import type { DailyCallObject } from '../../types/dailyCall';
+
 import { useCallObject } from './useCallObject';
 
 /**
  * ✅ OFFICIAL PATTERN: Active speaker detection hook
  * Following exact pattern from audio-only-react-native example
  */
-export const useActiveSpeaker = () => {
-  const callObject = useCallObject();
+export const useActiveSpeaker = () => useCallActiveSpeaker(useCallObject());
+
+/**
+ * ✅ Active speaker detection for an explicit call object
+ * For call UIs that own their call object instead of using the DailyCallProvider.
+ */
+export const useCallActiveSpeaker = (callObject: DailyCallObject | null) => {
   const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
   const [activeSpeaker, setActiveSpeaker] = useState<any | null>(null);
   const speakerHistoryRef = useRef<any[]>([]);
@@ -15,27 +22,30 @@ export const useActiveSpeaker = () => {
   /**
    * ✅ OFFICIAL PATTERN: Handle active speaker change events
    */
-  const handleActiveSpeakerChange = useCallback((event?: any) => {
-    console.log('[ACTIVE SPEAKER CHANGE]', event);
-    const id = event?.activeSpeaker?.peerId || null;
-    setActiveSpeakerId(id);
-    // Try to resolve full participant for convenience (optional)
-    try {
-      const participants = callObject?.participants();
-      const match = id
-        ? Object.values(participants || {}).find((p: any) => p.session_id === id)
-        : null;
-      if (match) {
-        setActiveSpeaker(match);
-        // Track simple history of last few speakers
-        speakerHistoryRef.current = [match, ...speakerHistoryRef.current].slice(0, 5);
-      } else {
+  const handleActiveSpeakerChange = useCallback(
+    (event?: any) => {
+      console.log('[ACTIVE SPEAKER CHANGE]', event);
+      const id = event?.activeSpeaker?.peerId || null;
+      setActiveSpeakerId(id);
+      // Try to resolve full participant for convenience (optional)
+      try {
+        const participants = callObject?.participants();
+        const match = id
+          ? Object.values(participants || {}).find((p: any) => p.session_id === id)
+          : null;
+        if (match) {
+          setActiveSpeaker(match);
+          // Track simple history of last few speakers
+          speakerHistoryRef.current = [match, ...speakerHistoryRef.current].slice(0, 5);
+        } else {
+          setActiveSpeaker(null);
+        }
+      } catch {
         setActiveSpeaker(null);
       }
-    } catch {
-      setActiveSpeaker(null);
-    }
-  }, []);
+    },
+    [callObject]
+  );
 
   /**
    * Start listening for active speaker changes when callObject is set
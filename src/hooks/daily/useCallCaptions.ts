@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+
+import type {
+  CallCaptionsEnvelope,
+  CaptionLine,
+  CaptionSession,
+} from '../../services/callCaptionsService';
+import callCaptionsService from '../../services/callCaptionsService';
+import type { RecordingRole } from '../../services/callRecordingService';
+import callRecordingService from '../../services/callRecordingService';
+import { selectUser } from '../../store/selectors/authSelectors';
+import type { DailyCallObject } from '../../types/dailyCall';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+
+import type { RecordingConsentPrompt } from './useCallRecording';
+
+// How long the requester waits for the other party to answer
+const CONSENT_TIMEOUT_MS = 60000;
+const NOTICE_DURATION_MS = 6000;
+
+/** Same prompts as recording: confirming our own consent, or being asked */
+export type CaptionsConsentPrompt = RecordingConsentPrompt;
+
+interface UseCallCaptionsOptions {
+  appointmentId?: number | string;
+  roomUrl?: string;
+  /** Current active speaker, credited for lines that arrive without a participant id */
+  activeSpeakerId?: string | null;
+}
+
+/**
+ * ✅ Live captions hook
+ * Each participant turns captions on or off for themselves. The room's
+ * transcription only starts once both parties have stored their consent
+ * against the appointment: turning captions on confirms our own consent and
+ * asks the other party, and the doctor's client starts it when both agree.
+ * The doctor's client saves the transcript against the appointment when the
+ * call ends.
+ */
+export const useCallCaptions = (
+  callObject: DailyCallObject | null,
+  { appointmentId, roomUrl, activeSpeakerId = null }: UseCallCaptionsOptions
+) => {
+  const user = useSelector(selectUser);
+  const isDoctor = user?.accountType === 'health_specialist';
+  const role: RecordingRole = isDoctor ? 'doctor' : 'patient';
+  const userId = user ? String(user.id) : null;
+
+  const [captionsEnabled, setCaptionsEnabled] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [lines, setLines] = useState<CaptionLine[]>([]);
+  const [consentPrompt, setConsentPrompt] = useState<CaptionsConsentPrompt | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const sessionRef = useRef<CaptionSession | null>(null);
+  const activeSpeakerRef = useRef(activeSpeakerId);
+  const isStartingRef = useRef(false);
+  const savedRef = useRef(false);
+  // The request we are waiting on an answer to
+  const pendingRequestRef = useRef<string | null>(null);
+  const consentTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  activeSpeakerRef.current = activeSpeakerId;
+
+  const transcriptAppointmentId = useMemo(
+    () => callRecordingService.getAppointmentId({ appointmentId, roomUrl }),
+    [appointmentId, roomUrl]
+  );
+
+  // Consent is stored against the appointment, so captions need one
+  const canCaption = !!callObject && transcriptAppointmentId !== null;
+
+  const send = useCallback(
+    (envelope: CallCaptionsEnvelope, to = '*') => {
+      if (!callObject) return false;
+      try {
+        callObject.sendAppMessage(envelope, to);
+        return true;
+      } catch (error) {
+        console.warn('⚠️ [Captions] Failed to send app message:', error);
+        return false;
+      }
+    },
+    [callObject]
+  );
+
+  const clearConsentTimeout = useCallback(() => {
+    if (consentTimeoutRef.current) {
+      clearTimeout(consentTimeoutRef.current);
+      consentTimeoutRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  useEffect(() => clearConsentTimeout, [clearConsentTimeout]);
+
+  const startTranscription = useCallback(async () => {
+    if (!callObject || isStartingRef.current) return;
+    isStartingRef.current = true;
+    try {
+      await callObject.startTranscription();
+    } catch (error) {
+      console.error('❌ [Captions] Failed to start transcription:', error);
+      SentryErrorTracker.getInstance().trackServiceError(error as Error, {
+        service: 'useCallCaptions',
+        action: 'startTranscription',
+        provider: 'daily',
+      });
+    } finally {
+      isStartingRef.current = false;
+    }
+  }, [callObject]);
+
+  const saveTranscript = useCallback(() => {
+    const session = sessionRef.current;
+    if (!isDoctor || savedRef.current || !session || transcriptAppointmentId === null) return;
+
+    const transcript = session.getTranscript();
+    if (transcript.length === 0) return;
+
+    savedRef.current = true;
+    callCaptionsService.saveTranscript(
+      callCaptionsService.buildTranscript(
+        transcriptAppointmentId,
+        transcript,
+        session.getStartedAt()
+      )
+    );
+  }, [isDoctor, transcriptAppointmentId]);
+
+  /**
+   * Follow the room's transcription whether or not captions are shown, so the
+   * transcript covers the whole call
+   */
+  useEffect(() => {
+    if (!callObject) return;
+
+    const session = callCaptionsService.createSession(callObject, {
+      getFallbackSpeakerId: () => activeSpeakerRef.current,
+      onChange: state => {
+        setIsTranscribing(state.isTranscribing);
+        setLines(state.lines);
+      },
+    });
+    sessionRef.current = session;
+    savedRef.current = false;
+    session.attach();
+
+    const handleAppMessage = (event?: any) => {
+      const data = event?.data;
+      if (!callCaptionsService.isCaptionsEnvelope(data)) return;
+
+      switch (data.type) {
+        case 'captions:request':
+          if (data.requestedBy === userId) return;
+          setConsentPrompt({
+            kind: 'incoming',
+            requestId: data.requestId,
+            fromSessionId: event?.fromId,
+          });
+          break;
+        case 'captions:consent':
+          if (data.requestId !== pendingRequestRef.current) return;
+          clearConsentTimeout();
+          pendingRequestRef.current = null;
+          if (!data.accepted) {
+            setCaptionsEnabled(false);
+            setNotice('Captions were declined');
+          } else if (isDoctor && !session.getState().isTranscribing) {
+            startTranscription();
+          }
+          break;
+      }
+    };
+
+    callObject.on('app-message', handleAppMessage);
+    callObject.on('left-meeting', saveTranscript);
+
+    return () => {
+      callObject.off('app-message', handleAppMessage);
+      callObject.off('left-meeting', saveTranscript);
+      session.detach();
+      saveTranscript();
+      sessionRef.current = null;
+    };
+  }, [callObject, isDoctor, userId, startTranscription, saveTranscript, clearConsentTimeout]);
+
+  const toggleCaptions = useCallback(() => {
+    if (captionsEnabled) {
+      setCaptionsEnabled(false);
+      return;
+    }
+    // Both parties already agreed to this call's transcription
+    if (isTranscribing) {
+      setCaptionsEnabled(true);
+      return;
+    }
+    if (!canCaption || pendingRequestRef.current) return;
+    setConsentPrompt({ kind: 'confirm' });
+  }, [captionsEnabled, isTranscribing, canCaption]);
+
+  const respondToConsent = useCallback(
+    async (accepted: boolean) => {
+      const prompt = consentPrompt;
+      setConsentPrompt(null);
+      if (!prompt || transcriptAppointmentId === null || !userId) return;
+
+      if (prompt.kind === 'confirm') {
+        if (!accepted) return;
+
+        const saved = await callRecordingService.saveConsent(
+          transcriptAppointmentId,
+          role,
+          true,
+          'transcription'
+        );
+        if (!saved) {
+          setNotice('Your consent could not be saved, so captions were not started');
+          return;
+        }
+
+        const request = callCaptionsService.createRequest(userId);
+        if (!send(request)) {
+          setNotice('Could not ask for consent to captions');
+          return;
+        }
+
+        pendingRequestRef.current = request.requestId;
+        setCaptionsEnabled(true);
+        clearConsentTimeout();
+        consentTimeoutRef.current = setTimeout(() => {
+          if (pendingRequestRef.current !== request.requestId) return;
+          pendingRequestRef.current = null;
+          setCaptionsEnabled(false);
+          setNotice('No answer to the captions request');
+        }, CONSENT_TIMEOUT_MS);
+        return;
+      }
+
+      // Only say yes once our consent is on record
+      const saved = await callRecordingService.saveConsent(
+        transcriptAppointmentId,
+        role,
+        accepted,
+        'transcription'
+      );
+      const consented = accepted && saved;
+      if (accepted && !saved) {
+        setNotice('Your consent could not be saved, so captions will not start');
+      }
+      send(
+        { type: 'captions:consent', requestId: prompt.requestId, accepted: consented, userId },
+        prompt.fromSessionId
+      );
+      // The patient asked and has already consented, so the doctor can start now
+      if (consented && isDoctor && !sessionRef.current?.getState().isTranscribing) {
+        startTranscription();
+      }
+    },
+    [
+      consentPrompt,
+      transcriptAppointmentId,
+      userId,
+      role,
+      isDoctor,
+      send,
+      clearConsentTimeout,
+      startTranscription,
+    ]
+  );
+
+  return {
+    canCaption,
+    captionsEnabled,
+    isTranscribing,
+    lines: captionsEnabled ? lines : [],
+    consentPrompt,
+    notice,
+    toggleCaptions,
+    respondToConsent,
+  };
+};
+
+export default useCallCaptions;
@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+
+import type { CallRecordingEnvelope, RecordingRole } from '../../services/callRecordingService';
+import callRecordingService from '../../services/callRecordingService';
+import { selectUser } from '../../store/selectors/authSelectors';
+import type { DailyCallObject } from '../../types/dailyCall';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+
+// How long the doctor waits for the other party to answer a recording request
+const CONSENT_TIMEOUT_MS = 60000;
+const NOTICE_DURATION_MS = 6000;
+
+export type RecordingStatus = 'idle' | 'awaiting-consent' | 'starting' | 'recording' | 'stopping';
+
+/**
+ * `confirm`: the doctor confirming their own consent before asking the other party.
+ * `incoming`: the other party being asked to consent.
+ */
+export type RecordingConsentPrompt =
+  | { kind: 'confirm' }
+  | { kind: 'incoming'; requestId: string; fromSessionId?: string };
+
+interface UseCallRecordingOptions {
+  appointmentId?: number | string;
+  roomUrl?: string;
+}
+
+/**
+ * ✅ Consented consultation recording hook
+ * The doctor asks, both parties store their consent against the appointment,
+ * and only then is the Daily cloud recording started. The other party can
+ * withdraw consent mid-call, which stops the recording.
+ */
+export const useCallRecording = (
+  callObject: DailyCallObject | null,
+  { appointmentId, roomUrl }: UseCallRecordingOptions
+) => {
+  const user = useSelector(selectUser);
+  const role: RecordingRole = user?.accountType === 'health_specialist' ? 'doctor' : 'patient';
+  const userId = user ? String(user.id) : null;
+
+  const [status, setStatus] = useState<RecordingStatus>('idle');
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [consentPrompt, setConsentPrompt] = useState<RecordingConsentPrompt | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // The request currently waiting for an answer (doctor) and the one we agreed to (patient)
+  const pendingRequestRef = useRef<string | null>(null);
+  const activeRequestRef = useRef<string | null>(null);
+  const consentTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const recordingAppointmentId = useMemo(
+    () => callRecordingService.getAppointmentId({ appointmentId, roomUrl }),
+    [appointmentId, roomUrl]
+  );
+
+  const canRecord = role === 'doctor' && !!callObject && recordingAppointmentId !== null;
+
+  const send = useCallback(
+    (envelope: CallRecordingEnvelope, to = '*') => {
+      if (!callObject) return false;
+      try {
+        callObject.sendAppMessage(envelope, to);
+        return true;
+      } catch (error) {
+        console.warn('⚠️ [Recording] Failed to send app message:', error);
+        return false;
+      }
+    },
+    [callObject]
+  );
+
+  const clearConsentTimeout = useCallback(() => {
+    if (consentTimeoutRef.current) {
+      clearTimeout(consentTimeoutRef.current);
+      consentTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Notices clear themselves; the recording indicator is what stays on screen
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  useEffect(() => clearConsentTimeout, [clearConsentTimeout]);
+
+  const requestRecording = useCallback(() => {
+    if (!canRecord || status !== 'idle') return;
+    setConsentPrompt({ kind: 'confirm' });
+  }, [canRecord, status]);
+
+  const respondToConsent = useCallback(
+    async (accepted: boolean) => {
+      const prompt = consentPrompt;
+      setConsentPrompt(null);
+      if (!prompt || recordingAppointmentId === null || !userId) return;
+
+      if (prompt.kind === 'confirm') {
+        if (!accepted) return;
+
+        const saved = await callRecordingService.saveConsent(recordingAppointmentId, role, true);
+        if (!saved) {
+          setNotice('Your consent could not be saved, so recording was not started');
+          return;
+        }
+
+        const request = callRecordingService.createRequest(userId);
+        if (!send(request)) {
+          setNotice('Could not ask for consent to record');
+          return;
+        }
+
+        pendingRequestRef.current = request.requestId;
+        setStatus('awaiting-consent');
+        clearConsentTimeout();
+        consentTimeoutRef.current = setTimeout(() => {
+          if (pendingRequestRef.current !== request.requestId) return;
+          pendingRequestRef.current = null;
+          setStatus('idle');
+          setNotice('No answer to the recording request');
+        }, CONSENT_TIMEOUT_MS);
+        return;
+      }
+
+      // Only say yes once our consent is on record
+      const saved = await callRecordingService.saveConsent(recordingAppointmentId, role, accepted);
+      const consented = accepted && saved;
+      if (accepted && !saved) {
+        setNotice('Your consent could not be saved, so recording will not start');
+      }
+      activeRequestRef.current = consented ? prompt.requestId : null;
+      send(
+        { type: 'recording:consent', requestId: prompt.requestId, accepted: consented, userId },
+        prompt.fromSessionId
+      );
+    },
+    [consentPrompt, recordingAppointmentId, userId, role, send, clearConsentTimeout]
+  );
+
+  /**
+   * Withdraw a consent given earlier in this call; the doctor's side stops the recording
+   */
+  const withdrawConsent = useCallback(async () => {
+    const requestId = activeRequestRef.current;
+    if (!requestId || recordingAppointmentId === null || !userId) return;
+
+    activeRequestRef.current = null;
+    await callRecordingService.saveConsent(recordingAppointmentId, role, false);
+    send({ type: 'recording:consent', requestId, accepted: false, userId });
+  }, [recordingAppointmentId, userId, role, send]);
+
+  const stopRecording = useCallback(async () => {
+    if (!callObject || status !== 'recording') return;
+    setStatus('stopping');
+    try {
+      await callObject.stopRecording();
+    } catch (error) {
+      console.error('❌ [Recording] Failed to stop:', error);
+      setStatus('recording');
+    }
+  }, [callObject, status]);
+
+  /**
+   * Listen for the consent handshake and Daily's own recording events
+   */
+  useEffect(() => {
+    if (!callObject) return;
+
+    const startRecording = async () => {
+      setStatus('starting');
+      try {
+        await callObject.startRecording();
+      } catch (error) {
+        console.error('❌ [Recording] Failed to start:', error);
+        setStatus('idle');
+        setNotice('Recording could not be started');
+        SentryErrorTracker.getInstance().trackServiceError(error as Error, {
+          service: 'useCallRecording',
+          action: 'startRecording',
+          provider: 'daily',
+        });
+      }
+    };
+
+    const handleAppMessage = (event?: any) => {
+      const data = event?.data;
+      if (!callRecordingService.isRecordingEnvelope(data)) return;
+
+      switch (data.type) {
+        case 'recording:request':
+          if (data.requestedBy === userId) return;
+          setConsentPrompt({
+            kind: 'incoming',
+            requestId: data.requestId,
+            fromSessionId: event?.fromId,
+          });
+          break;
+        case 'recording:consent':
+          if (data.requestId === pendingRequestRef.current) {
+            clearConsentTimeout();
+            pendingRequestRef.current = null;
+            if (data.accepted) {
+              activeRequestRef.current = data.requestId;
+              startRecording();
+            } else {
+              setStatus('idle');
+              setNotice('Recording was declined');
+            }
+          } else if (data.requestId === activeRequestRef.current && !data.accepted) {
+            activeRequestRef.current = null;
+            setNotice('Consent to record was withdrawn');
+            callObject.stopRecording();
+          }
+          break;
+      }
+    };
+
+    const handleRecordingStarted = () => {
+      setStatus('recording');
+      setStartedAt(Date.now());
+      SentryErrorTracker.getInstance().addBreadcrumb({
+        category: 'call.recording',
+        message: 'Recording started',
+        level: 'info',
+      });
+    };
+
+    const handleRecordingStopped = () => {
+      setStatus('idle');
+      setStartedAt(null);
+      activeRequestRef.current = null;
+    };
+
+    const handleRecordingError = (event?: any) => {
+      handleRecordingStopped();
+      setNotice('Recording stopped because of an error');
+      SentryErrorTracker.getInstance().trackWarning('Daily recording error', {
+        service: 'useCallRecording',
+        provider: 'daily',
+        additional: { errorMsg: event?.errorMsg },
+      });
+    };
+
+    callObject.on('app-message', handleAppMessage);
+    callObject.on('recording-started', handleRecordingStarted);
+    callObject.on('recording-stopped', handleRecordingStopped);
+    callObject.on('recording-error', handleRecordingError);
+
+    return () => {
+      callObject.off('app-message', handleAppMessage);
+      callObject.off('recording-started', handleRecordingStarted);
+      callObject.off('recording-stopped', handleRecordingStopped);
+      callObject.off('recording-error', handleRecordingError);
+    };
+  }, [callObject, userId, clearConsentTimeout]);
+
+  return {
+    role,
+    status,
+    isRecording: status === 'recording',
+    startedAt,
+    canRecord,
+    consentPrompt,
+    notice,
+    requestRecording,
+    respondToConsent,
+    withdrawConsent,
+    stopRecording,
+  };
+};
+
+export default useCallRecording;
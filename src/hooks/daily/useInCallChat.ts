@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+
+import type { CallChatEnvelope, CallChatSender } from '../../services/callChatService';
+import callChatService from '../../services/callChatService';
+import { selectUser } from '../../store/selectors/authSelectors';
+import type { ChatMessage } from '../../types';
+import type { DailyCallObject } from '../../types/dailyCall';
+
+// Daily caps app-messages at 4KB, so history is replayed to late joiners one message at a time
+const SYNC_REPLAY_LIMIT = 20;
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+interface UseInCallChatOptions {
+  appointmentId?: number | string;
+  roomUrl?: string;
+  /** Backend call id; keys the history of calls made outside an appointment */
+  callId?: string;
+  /** Whether the chat drawer is visible; visible messages are marked as read */
+  isOpen: boolean;
+}
+
+/**
+ * ✅ In-call text chat hook
+ * Sends and receives ChatMessages over Daily app-messages, tracks read receipts
+ * and keeps the history for the appointment (or call) in local storage.
+ */
+export const useInCallChat = (
+  callObject: DailyCallObject | null,
+  { appointmentId, roomUrl, callId, isOpen }: UseInCallChatOptions
+) => {
+  const user = useSelector(selectUser);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const hasLoadedRef = useRef(false);
+
+  const chatId = useMemo(
+    () => callChatService.getChatId({ appointmentId, roomUrl, callId }),
+    [appointmentId, roomUrl, callId]
+  );
+
+  const sender = useMemo<CallChatSender | null>(
+    () =>
+      user
+        ? {
+            id: String(user.id),
+            role: user.accountType === 'health_specialist' ? 'doctor' : 'patient',
+          }
+        : null,
+    [user]
+  );
+
+  const send = useCallback(
+    (envelope: CallChatEnvelope, to = '*') => {
+      if (!callObject) return false;
+      try {
+        callObject.sendAppMessage(envelope, to);
+        return true;
+      } catch (error) {
+        console.warn('⚠️ [InCallChat] Failed to send app message:', error);
+        return false;
+      }
+    },
+    [callObject]
+  );
+
+  /**
+   * Load the stored history for this appointment
+   */
+  useEffect(() => {
+    hasLoadedRef.current = false;
+    setMessages([]);
+    if (!chatId) return;
+
+    let cancelled = false;
+    callChatService.loadHistory(chatId).then(history => {
+      if (cancelled) return;
+      hasLoadedRef.current = true;
+      setMessages(prev => callChatService.mergeMessages(history, prev));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId]);
+
+  /**
+   * Persist every change once the stored history has been merged in
+   */
+  useEffect(() => {
+    messagesRef.current = messages;
+    if (chatId && hasLoadedRef.current) {
+      callChatService.saveHistory(chatId, messages);
+    }
+  }, [chatId, messages]);
+
+  /**
+   * Listen for chat traffic and replay recent history to participants who join late
+   */
+  useEffect(() => {
+    if (!callObject || !chatId) return;
+
+    const handleAppMessage = (event?: any) => {
+      const data = event?.data;
+      if (!callChatService.isChatEnvelope(data)) return;
+
+      switch (data.type) {
+        case 'chat:message':
+          if (data.message.chatId !== chatId) return;
+          setMessages(prev => callChatService.mergeMessages(prev, [data.message]));
+          break;
+        case 'chat:read':
+          if (data.chatId !== chatId) return;
+          setMessages(prev => callChatService.applyReadReceipt(prev, data));
+          break;
+        case 'chat:sync':
+          if (data.chatId !== chatId) return;
+          setMessages(prev => callChatService.mergeMessages(prev, data.messages));
+          break;
+      }
+    };
+
+    const handleParticipantJoined = (event?: any) => {
+      const sessionId = event?.participant?.session_id;
+      if (!sessionId) return;
+      messagesRef.current.slice(-SYNC_REPLAY_LIMIT).forEach(message => {
+        send({ type: 'chat:sync', chatId, messages: [message] }, sessionId);
+      });
+    };
+
+    callObject.on('app-message', handleAppMessage);
+    callObject.on('participant-joined', handleParticipantJoined);
+
+    return () => {
+      callObject.off('app-message', handleAppMessage);
+      callObject.off('participant-joined', handleParticipantJoined);
+    };
+  }, [callObject, chatId, send]);
+
+  const unreadMessages = useMemo(
+    () => (sender ? callChatService.getUnreadMessages(messages, sender.id) : []),
+    [messages, sender]
+  );
+
+  /**
+   * Mark everything visible as read and let the other side know
+   */
+  useEffect(() => {
+    if (!isOpen || !sender || !chatId || unreadMessages.length === 0) return;
+
+    const receipt = {
+      messageIds: unreadMessages.map(message => message.messageId),
+      userId: sender.id,
+      readAt: new Date().toISOString(),
+    };
+    setMessages(prev => callChatService.applyReadReceipt(prev, receipt));
+    send({ type: 'chat:read', chatId, ...receipt });
+  }, [isOpen, sender, chatId, unreadMessages, send]);
+
+  const sendMessage = useCallback(
+    (text: string) => {
+      const content = text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+      if (!content || !sender || !chatId) return false;
+
+      const message = callChatService.createMessage(chatId, sender, content);
+      if (!send({ type: 'chat:message', message })) return false;
+
+      setMessages(prev => callChatService.mergeMessages(prev, [message]));
+      return true;
+    },
+    [chatId, sender, send]
+  );
+
+  /**
+   * Whether the other participant has read one of our messages
+   */
+  const isReadByRecipient = useCallback(
+    (message: ChatMessage) =>
+      message.readBy.some(receipt => String(receipt.userId) !== String(message.senderId)),
+    []
+  );
+
+  return {
+    chatId,
+    messages,
+    unreadCount: unreadMessages.length,
+    currentUserId: sender?.id ?? null,
+    sendMessage,
+    isReadByRecipient,
+  };
+};
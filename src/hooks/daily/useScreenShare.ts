@@ -0,0 +1,161 @@
+import type DailyMediaStreamTrack from '@daily-co/react-native-webrtc/lib/typescript/MediaStreamTrack';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { findNodeHandle, NativeModules, Platform } from 'react-native';
+
+import ForegroundServiceManager from '../../services/ForegroundServiceManager';
+import type { DailyCallObject, DailyParticipant } from '../../types/dailyCall';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+
+// Remote screen tracks in these states still occupy the screen-share tile
+const ACTIVE_SCREEN_STATES = ['loading', 'playable', 'interrupted'];
+
+export interface RemoteScreenShare {
+  sessionId: string;
+  userName: string;
+  /** Null until the track is playable */
+  track: DailyMediaStreamTrack | null;
+}
+
+const findRemoteScreenShare = (callObject: DailyCallObject): RemoteScreenShare | null => {
+  const sharer = Object.values(callObject.participants()).find(
+    participant =>
+      !participant.local &&
+      ACTIVE_SCREEN_STATES.includes(participant.tracks?.screenVideo?.state ?? 'off')
+  );
+  if (!sharer) return null;
+
+  const screenVideo = sharer.tracks?.screenVideo;
+  return {
+    sessionId: sharer.session_id,
+    userName: sharer.user_name || 'Participant',
+    track: screenVideo?.state === 'playable' ? (screenVideo.persistentTrack ?? null) : null,
+  };
+};
+
+/**
+ * ✅ Screen sharing hook
+ * Starts and stops the local screen share and tracks a remote participant's share.
+ * Android needs a mediaProjection foreground service before capture can start;
+ * iOS captures through the broadcast extension, picked via `screenCapturePickerRef`
+ * (attach it to a ScreenCapturePickerView rendered by the call UI).
+ */
+export const useScreenShare = (callObject: DailyCallObject | null) => {
+  const [isSharing, setIsSharing] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [remoteScreenShare, setRemoteScreenShare] = useState<RemoteScreenShare | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const screenCapturePickerRef = useRef(null);
+
+  const startScreenShare = useCallback(async () => {
+    if (!callObject || isSharing || isStarting) return;
+
+    setIsStarting(true);
+    setError(null);
+    try {
+      if (Platform.OS === 'android') {
+        const serviceStarted =
+          await ForegroundServiceManager.getInstance().startScreenShareService();
+        if (!serviceStarted) {
+          setError('Screen sharing is not available right now');
+          return;
+        }
+      } else if (Platform.OS === 'ios') {
+        const reactTag = findNodeHandle(screenCapturePickerRef.current);
+        if (reactTag) {
+          NativeModules.ScreenCapturePickerViewManager?.show(reactTag);
+        }
+      }
+
+      console.log('🖥️ [ScreenShare] Starting screen share');
+      await callObject.startScreenShare();
+    } catch (shareError) {
+      console.error('❌ [ScreenShare] Failed to start:', shareError);
+      setError('Could not start screen sharing');
+      await ForegroundServiceManager.getInstance().stopScreenShareService();
+      SentryErrorTracker.getInstance().trackServiceError(shareError as Error, {
+        service: 'useScreenShare',
+        action: 'startScreenShare',
+        provider: 'daily',
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  }, [callObject, isSharing, isStarting]);
+
+  const stopScreenShare = useCallback(async () => {
+    if (!callObject) return;
+    try {
+      console.log('🖥️ [ScreenShare] Stopping screen share');
+      await callObject.stopScreenShare();
+    } catch (shareError) {
+      console.warn('⚠️ [ScreenShare] Failed to stop:', shareError);
+    }
+  }, [callObject]);
+
+  const toggleScreenShare = useCallback(() => {
+    if (isSharing) {
+      return stopScreenShare();
+    }
+    return startScreenShare();
+  }, [isSharing, startScreenShare, stopScreenShare]);
+
+  /**
+   * Follow local and remote screen tracks as participants change
+   */
+  useEffect(() => {
+    if (!callObject) return;
+
+    const refresh = () => {
+      const local = callObject.participants().local as DailyParticipant | undefined;
+      const localState = local?.tracks?.screenVideo?.state ?? 'off';
+      setIsSharing(!['off', 'blocked'].includes(localState));
+      setRemoteScreenShare(findRemoteScreenShare(callObject));
+    };
+
+    // Also fires when the share is ended from the system UI
+    const handleLocalShareStopped = () => {
+      setIsSharing(false);
+      ForegroundServiceManager.getInstance().stopScreenShareService();
+    };
+
+    const handleNonFatalError = (event?: any) => {
+      if (event?.type !== 'screen-share-error') return;
+      console.warn('⚠️ [ScreenShare] Screen share error:', event.errorMsg);
+      setError(event.errorMsg || 'Screen sharing stopped unexpectedly');
+      handleLocalShareStopped();
+    };
+
+    refresh();
+
+    const refreshEvents = [
+      'participant-joined',
+      'participant-updated',
+      'participant-left',
+      'track-started',
+      'track-stopped',
+      'local-screen-share-started',
+    ];
+    refreshEvents.forEach(event => callObject.on(event, refresh));
+    callObject.on('local-screen-share-stopped', handleLocalShareStopped);
+    callObject.on('nonfatal-error', handleNonFatalError);
+
+    return () => {
+      refreshEvents.forEach(event => callObject.off(event, refresh));
+      callObject.off('local-screen-share-stopped', handleLocalShareStopped);
+      callObject.off('nonfatal-error', handleNonFatalError);
+    };
+  }, [callObject]);
+
+  return {
+    isSharing,
+    isStarting,
+    remoteScreenShare,
+    error,
+    startScreenShare,
+    stopScreenShare,
+    toggleScreenShare,
+    screenCapturePickerRef,
+  };
+};
+
+export default useScreenShare;
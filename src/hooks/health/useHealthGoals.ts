@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import { HealthGoalService } from '../../services/health/HealthGoalService';
+import { HealthGoalTracker } from '../../services/health/HealthGoalTracker';
+import type { AppDispatch } from '../../store';
+import { useUpdateHealthGoalsMutation } from '../../store/api/healthApi';
+import { selectHealthGoalProgress, selectHealthGoals } from '../../store/selectors/healthSelectors';
+import { setHealthGoalProgress, setHealthGoals } from '../../store/slices/healthSlice';
+import type { HealthGoal, HealthGoalHistory, HealthGoalProgress } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+import { useMonthlyWeeks } from './useMonthlyWeeks';
+import { useWeeklySteps } from './useWeeklySteps';
+
+const service = HealthGoalService.getInstance();
+
+/**
+ * ✅ Health goals of the signed-in user, with their progress, and saving edits.
+ * Goals are kept on the device first; the backend copy is best effort.
+ */
+export function useHealthGoals(userId: string | null) {
+  const dispatch = useDispatch<AppDispatch>();
+  const goals = useSelector(selectHealthGoals);
+  const progress = useSelector(selectHealthGoalProgress);
+  const [updateHealthGoals] = useUpdateHealthGoalsMutation();
+
+  const saveGoals = useCallback(
+    async (nextGoals: HealthGoal[]) => {
+      if (!userId) return;
+
+      dispatch(setHealthGoals(nextGoals));
+      await service.saveGoals(userId, nextGoals);
+
+      updateHealthGoals({
+        userId,
+        goals: nextGoals
+          .filter(goal => goal.isActive)
+          .map(({ type, target, period }) => ({ type, target, period })),
+      })
+        .unwrap()
+        .catch(error => console.warn('⚠️ Health goals not synced to the backend:', error));
+    },
+    [dispatch, updateHealthGoals, userId]
+  );
+
+  // One goal per data type and period; saving over an existing one replaces it.
+  // `replacing` is the goal an edit started from, when the edit made a new one.
+  const saveGoal = useCallback(
+    (goal: HealthGoal, replacing?: HealthGoal) =>
+      saveGoals([
+        ...goals.filter(
+          existing =>
+            existing.id !== goal.id &&
+            existing.id !== replacing?.id &&
+            (existing.type !== goal.type || existing.period !== goal.period)
+        ),
+        goal,
+      ]),
+    [goals, saveGoals]
+  );
+
+  const removeGoal = useCallback(
+    (goalId: string) => saveGoals(goals.filter(goal => goal.id !== goalId)),
+    [goals, saveGoals]
+  );
+
+  return { goals, progress, saveGoal, removeGoal };
+}
+
+/**
+ * ✅ Loads the user's goals and keeps their streaks and personal bests up to
+ * date from the weekly and monthly step totals, notifying once per period when
+ * a goal is reached. Mount once for the patient's session; pass null when
+ * signed out.
+ */
+export function useHealthGoalTracking(userId: string | null) {
+  const dispatch = useDispatch<AppDispatch>();
+  const goals = useSelector(selectHealthGoals);
+  const { weeklyData, refresh: refreshWeekly } = useWeeklySteps();
+  const { monthlyData, refresh: refreshMonthly } = useMonthlyWeeks();
+  const historyRef = useRef<Record<string, HealthGoalHistory> | null>(null);
+  const refreshRef = useRef({ refreshWeekly, refreshMonthly });
+  refreshRef.current = { refreshWeekly, refreshMonthly };
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    historyRef.current = null;
+
+    Promise.all([service.loadGoals(userId), service.loadHistory(userId)])
+      .then(([loadedGoals, history]) => {
+        if (cancelled) return;
+        historyRef.current = history;
+        dispatch(setHealthGoals(loadedGoals));
+      })
+      .catch(error => console.error('❌ Failed to load health goals:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, userId]);
+
+  useEffect(() => {
+    const history = historyRef.current;
+    if (!userId || !history) return;
+
+    const now = new Date();
+    const nextHistory: Record<string, HealthGoalHistory> = {};
+    const progress: HealthGoalProgress[] = [];
+
+    goals
+      .filter(goal => goal.isActive && goal.type === HealthDataType.STEPS)
+      .forEach(goal => {
+        const periods = HealthGoalTracker.getStepPeriods(goal.period, weeklyData, monthlyData, now);
+        const recorded = HealthGoalTracker.record(goal, history[goal.id], periods);
+        const goalProgress = HealthGoalTracker.getProgress(goal, recorded.history, periods, now);
+
+        nextHistory[goal.id] = recorded.history;
+        progress.push(goalProgress);
+
+        if (recorded.achievedNow) {
+          service.notifyGoalAchieved(goal, goalProgress.current, goalProgress.streak);
+        }
+      });
+
+    historyRef.current = nextHistory;
+    dispatch(setHealthGoalProgress(progress));
+    service
+      .saveHistory(userId, nextHistory)
+      .catch(error => console.error('❌ Failed to save health goal history:', error));
+  }, [dispatch, userId, goals, weeklyData, monthlyData]);
+
+  // Steps keep counting while the app is in the background
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        refreshRef.current.refreshWeekly();
+        refreshRef.current.refreshMonthly();
+      }
+    });
+    return () => subscription.remove();
+  }, [userId]);
+}
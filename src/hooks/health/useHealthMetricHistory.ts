@@ -0,0 +1,559 @@
+/**
+ * useHealthMetricHistory - Vitals history for the metric detail screens
+ *
+ * Reads sleep, blood pressure, blood oxygen, weight or blood glucose for today,
+ * this week, this month or this year and groups it into chart buckets with
+ * HealthMetricHistory.
+ *
+ * Features:
+ * - One query per view (systolic and diastolic are read side by side on iOS)
+ * - Same permission and error handling as useYearlyMonths
+ * - Platform-specific implementations (iOS HealthKit + Android Health Connect)
+ * - Readings recorded by several sources count once, from the user's preferred source
+ * - Future buckets are left empty
+ */
+
+import * as Device from 'expo-device';
+import { useCallback, useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+import {
+  getSdkStatus,
+  initialize,
+  openHealthConnectSettings,
+  readRecords,
+  requestPermission,
+  SdkAvailabilityStatus,
+  SleepStageType,
+} from 'react-native-health-connect';
+import type { TimeRangeFilter } from 'react-native-health-connect/lib/typescript/types/base.types';
+
+import { HKCategoryType, HKQuantityType } from '../../constants/healthKitTypes';
+import { HealthDataNormalizer } from '../../services/health/HealthDataNormalizer';
+import type { HealthMetricBucket } from '../../services/health/HealthMetricHistory';
+import {
+  HEALTH_METRIC_DETAILS,
+  HealthMetricHistory,
+} from '../../services/health/HealthMetricHistory';
+import { wearableHealthManager } from '../../services/health/WearableHealthManager';
+import type { HealthMetricPoint, HealthMetricSample, HealthMetricView } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+import type { HealthKitErrorType } from '../../types/healthKit';
+import { healthConnectManager } from '../../utils/HealthConnectManager';
+import {
+  handleHealthKitError,
+  logHealthKitSuccess,
+  sanitizeHealthValue,
+  validateDateRange,
+} from '../../utils/healthKitUtils';
+
+import { useHealthKitPermissions } from './useHealthKitPermissions';
+
+// HKCategoryValueSleepAnalysis values that are not sleep: in bed, awake
+const HEALTHKIT_NOT_ASLEEP = [0, 2];
+const HEALTH_CONNECT_NOT_ASLEEP: number[] = [SleepStageType.AWAKE, SleepStageType.OUT_OF_BED];
+
+// A year of blood oxygen from a watch runs to several pages
+const MAX_HEALTH_CONNECT_PAGES = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const hoursBetween = (start: string | Date, end: string | Date) =>
+  (new Date(end).getTime() - new Date(start).getTime()) / HOUR_MS;
+
+// A night that counts toward the first bucket starts the evening before it
+const getQueryRange = (metric: HealthDataType, buckets: HealthMetricBucket[]) => {
+  const startDate = new Date(buckets[0].startDate);
+  if (metric === HealthDataType.SLEEP) {
+    startDate.setDate(startDate.getDate() - 1);
+  }
+  return { startDate, endDate: buckets[buckets.length - 1].endDate };
+};
+
+// Shaped like AppleHealthKitProvider's samples, so sources are told apart the same way
+const getHealthKitSource = (sample: any) => {
+  const sourceName: string = sample.sourceRevision?.source?.name ?? '';
+  return HealthDataNormalizer.identifySource(
+    {
+      sourceName: sample.metadata?.HKWasUserEntered ? `${sourceName} (user entered)` : sourceName,
+      device: sample.device?.name,
+    },
+    'ios'
+  );
+};
+
+// iOS - read HealthKit samples for the range
+const readHealthKitSamples = async (
+  metric: HealthDataType,
+  startDate: Date,
+  endDate: Date
+): Promise<HealthMetricSample[]> => {
+  const hk = require('@kingstinct/react-native-healthkit');
+  const filter = { startDate, endDate };
+
+  if (metric === HealthDataType.SLEEP) {
+    const samples = await hk.queryCategorySamples(HKCategoryType.sleepAnalysis, {
+      filter,
+      limit: 0,
+      ascending: true,
+    });
+    return (samples ?? [])
+      .filter((sample: any) => !HEALTHKIT_NOT_ASLEEP.includes(sample.value))
+      .map((sample: any) => ({
+        startDate: new Date(sample.startDate),
+        endDate: new Date(sample.endDate),
+        value: hoursBetween(sample.startDate, sample.endDate),
+        ...getHealthKitSource(sample),
+      }));
+  }
+
+  const readQuantity = async (
+    identifier: string,
+    unit: string,
+    scale = 1
+  ): Promise<HealthMetricSample[]> => {
+    const samples = await hk.queryQuantitySamples(identifier, {
+      filter,
+      limit: 0,
+      ascending: true,
+      unit,
+    });
+    return (samples ?? []).flatMap((sample: any) => {
+      const value = sanitizeHealthValue(sample.quantity * scale);
+      return value === null
+        ? []
+        : [
+            {
+              startDate: new Date(sample.startDate),
+              endDate: new Date(sample.endDate),
+              value,
+              ...getHealthKitSource(sample),
+            },
+          ];
+    });
+  };
+
+  switch (metric) {
+    case HealthDataType.BLOOD_PRESSURE: {
+      const [systolic, diastolic] = await Promise.all([
+        readQuantity(HKQuantityType.bloodPressureSystolic, 'mmHg'),
+        readQuantity(HKQuantityType.bloodPressureDiastolic, 'mmHg'),
+      ]);
+      // Both halves of a cuff reading carry the reading's timestamp
+      return systolic.map(reading => ({
+        ...reading,
+        secondaryValue: diastolic.find(
+          other => other.startDate.getTime() === reading.startDate.getTime()
+        )?.value,
+      }));
+    }
+    case HealthDataType.OXYGEN_SATURATION:
+      // HealthKit reports a 0-1 fraction
+      return readQuantity(HKQuantityType.oxygenSaturation, '%', 100);
+    case HealthDataType.WEIGHT:
+      return readQuantity(HKQuantityType.bodyMass, 'kg');
+    case HealthDataType.BLOOD_GLUCOSE:
+      return readQuantity(HKQuantityType.bloodGlucose, 'mg/dL');
+    default:
+      return [];
+  }
+};
+
+// Android - shape a Health Connect record like a HealthKit sample
+const toHealthConnectSample = (metric: HealthDataType, record: any): HealthMetricSample | null => {
+  if (metric === HealthDataType.SLEEP) {
+    const stages: any[] = record.stages ?? [];
+    const asleep =
+      stages.length > 0
+        ? stages.filter(stage => !HEALTH_CONNECT_NOT_ASLEEP.includes(stage.stage))
+        : [record];
+    return {
+      startDate: new Date(record.startTime),
+      endDate: new Date(record.endTime),
+      value: asleep.reduce((sum, part) => sum + hoursBetween(part.startTime, part.endTime), 0),
+      ...HealthDataNormalizer.identifySource(record, 'android'),
+    };
+  }
+
+  let value: number | undefined;
+  let secondaryValue: number | undefined;
+  switch (metric) {
+    case HealthDataType.BLOOD_PRESSURE:
+      value = record.systolic?.inMillimetersOfMercury;
+      secondaryValue = record.diastolic?.inMillimetersOfMercury;
+      break;
+    case HealthDataType.OXYGEN_SATURATION:
+      value = record.percentage;
+      break;
+    case HealthDataType.WEIGHT:
+      value = record.weight?.inKilograms;
+      break;
+    case HealthDataType.BLOOD_GLUCOSE:
+      value = record.level?.inMilligramsPerDeciliter;
+      break;
+    default:
+      break;
+  }
+
+  const sanitized = sanitizeHealthValue(value);
+  if (sanitized === null) return null;
+
+  const time = new Date(record.time);
+  return {
+    startDate: time,
+    endDate: time,
+    value: sanitized,
+    secondaryValue,
+    ...HealthDataNormalizer.identifySource(record, 'android'),
+  };
+};
+
+/**
+ * Hook to fetch one vital grouped for a detail view
+ * Uses HealthKit samples on iOS and Health Connect records on Android
+ */
+export const useHealthMetricHistory = (metric: HealthDataType, view: HealthMetricView) => {
+  const detail = HEALTH_METRIC_DETAILS[metric];
+  const recordType = detail?.healthConnect;
+
+  const [data, setData] = useState<HealthMetricPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<HealthKitErrorType | null>(null);
+
+  // Android State
+  const [androidHasPermissions, setAndroidHasPermissions] = useState(false);
+  const [isInitialized, setIsInitialized] = useState(false);
+
+  // iOS - HealthKit permissions
+  const {
+    isAuthorized,
+    isAvailable,
+    error: permissionError,
+    requestPermissions: requestIosPermissions,
+  } = useHealthKitPermissions({
+    permissions: detail?.healthKit ?? [],
+    hookName: 'useHealthMetricHistory',
+  });
+
+  // Empty buckets for the view, shown while loading and after errors
+  const setEmptyData = useCallback(() => {
+    setData(HealthMetricHistory.aggregate(metric, HealthMetricHistory.getBuckets(view), []));
+  }, [metric, view]);
+
+  // iOS - Fetch samples for the view
+  const fetchIosData = useCallback(async () => {
+    if (Platform.OS !== 'ios' || !isAvailable) {
+      setIsLoading(false);
+      return;
+    }
+
+    if (!isAuthorized) {
+      setIsLoading(false);
+      setError(permissionError ?? 'NOT_AUTHORIZED');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const buckets = HealthMetricHistory.getBuckets(view);
+      const { startDate, endDate } = getQueryRange(metric, buckets);
+
+      const validation = validateDateRange(startDate, endDate);
+      if (!validation.valid) {
+        setError(validation.error!);
+        return;
+      }
+
+      if (!Device.isDevice) {
+        setError('NOT_AVAILABLE');
+        return;
+      }
+
+      if (__DEV__) {
+        console.log(`📈 Fetching iOS ${metric} (${view}):`, {
+          from: startDate.toISOString(),
+          to: endDate.toISOString(),
+        });
+      }
+
+      // The same reading often reaches HealthKit from both the watch and the phone
+      const samples = HealthMetricHistory.mergeSources(
+        metric,
+        await readHealthKitSamples(metric, startDate, endDate),
+        await wearableHealthManager.getSourcePriority(metric)
+      );
+      const points = HealthMetricHistory.aggregate(metric, buckets, samples);
+
+      logHealthKitSuccess(
+        { hook: 'useHealthMetricHistory', action: 'fetchIosData' },
+        { metric, view, sampleCount: samples.length }
+      );
+
+      setData(points);
+    } catch (err) {
+      const errorType = handleHealthKitError(err, {
+        hook: 'useHealthMetricHistory',
+        action: 'fetchIosData',
+        additional: { platform: 'ios', metric, view },
+      });
+
+      setError(errorType);
+      setEmptyData();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthorized, isAvailable, permissionError, metric, view, setEmptyData]);
+
+  useEffect(() => {
+    fetchIosData();
+  }, [fetchIosData]);
+
+  // Android - Health Connect
+  const testHealthConnectFunctionality = useCallback(async () => {
+    if (Platform.OS !== 'android') return false;
+
+    try {
+      const status = await getSdkStatus();
+      if (status === SdkAvailabilityStatus.SDK_UNAVAILABLE) {
+        setError('NOT_AVAILABLE');
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      setError('QUERY_FAILED');
+      return false;
+    }
+  }, []);
+
+  const initializeHealthConnect = useCallback(async () => {
+    if (isInitialized) return true;
+
+    try {
+      const initResult = await initialize();
+      if (!initResult) {
+        throw new Error('Health Connect initialization returned false');
+      }
+      setIsInitialized(true);
+      return true;
+    } catch (err) {
+      setError('INITIALIZATION_FAILED');
+      setIsInitialized(false);
+      return false;
+    }
+  }, [isInitialized]);
+
+  // ✅ CRASH-SAFE: Check permissions without requesting them
+  const syncPermissionState = useCallback(async () => {
+    if (!isInitialized || !recordType) {
+      return false;
+    }
+
+    try {
+      const grantedPermissions = await healthConnectManager.getGrantedPermissions({
+        useCache: true,
+        delayMs: 100,
+      });
+      const hasReadPermission = grantedPermissions.some(
+        p => p.recordType === recordType && p.accessType === 'read'
+      );
+
+      if (hasReadPermission && !androidHasPermissions) {
+        console.log(
+          `✅ [useHealthMetricHistory] ${recordType} permission sync: enabling data fetch`
+        );
+        setAndroidHasPermissions(true);
+      }
+
+      return hasReadPermission;
+    } catch (err) {
+      // Silent failure - permissions might not be granted yet, which is OK
+      console.log(
+        `ℹ️ [useHealthMetricHistory] ${recordType} permission sync: not ready or not granted`
+      );
+      return false;
+    }
+  }, [isInitialized, androidHasPermissions, recordType]);
+
+  const requestAndroidPermissions = useCallback(async () => {
+    if (!isInitialized || !recordType) {
+      setError('INITIALIZATION_FAILED');
+      return false;
+    }
+
+    try {
+      await requestPermission([{ accessType: 'read', recordType }]);
+
+      const grantedPermissions = await healthConnectManager.getGrantedPermissions({
+        useCache: false,
+        delayMs: 100,
+      });
+      const hasReadPermission = grantedPermissions.some(
+        p => p.recordType === recordType && p.accessType === 'read'
+      );
+
+      setAndroidHasPermissions(hasReadPermission);
+
+      if (!hasReadPermission) {
+        setError('NOT_AUTHORIZED');
+      }
+
+      return hasReadPermission;
+    } catch (err) {
+      setError('NOT_AUTHORIZED');
+      setAndroidHasPermissions(false);
+      return false;
+    }
+  }, [isInitialized, recordType]);
+
+  // Fetch Android records for the view, following page tokens
+  const fetchAndroidData = useCallback(async () => {
+    if (!isInitialized || !androidHasPermissions || !recordType) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const buckets = HealthMetricHistory.getBuckets(view);
+      const { startDate, endDate } = getQueryRange(metric, buckets);
+      const timeRangeFilter: TimeRangeFilter = {
+        operator: 'between',
+        startTime: startDate.toISOString(),
+        endTime: endDate.toISOString(),
+      };
+
+      const records: any[] = [];
+      let pageToken: string | undefined;
+      let pages = 0;
+      do {
+        const result = await readRecords(recordType, {
+          timeRangeFilter,
+          ascendingOrder: true,
+          pageToken,
+        });
+        records.push(...result.records);
+        pageToken = result.pageToken;
+        pages += 1;
+      } while (pageToken && pages < MAX_HEALTH_CONNECT_PAGES);
+
+      const samples = HealthMetricHistory.mergeSources(
+        metric,
+        records
+          .map(record => toHealthConnectSample(metric, record))
+          .filter((sample): sample is HealthMetricSample => sample !== null),
+        await wearableHealthManager.getSourcePriority(metric)
+      );
+
+      if (__DEV__) {
+        console.log(
+          `✅ [useHealthMetricHistory] ${records.length} ${recordType} records (${view})`
+        );
+      }
+
+      setData(HealthMetricHistory.aggregate(metric, buckets, samples));
+      setError(null);
+    } catch (err) {
+      console.warn(`❌ [useHealthMetricHistory] Failed to read ${recordType}:`, err);
+      setError('QUERY_FAILED');
+      setEmptyData();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isInitialized, androidHasPermissions, recordType, metric, view, setEmptyData]);
+
+  // Android initialization
+  useEffect(() => {
+    if (Platform.OS !== 'android') {
+      return;
+    }
+
+    const setupHealthConnect = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const isHealthConnectAvailable = await testHealthConnectFunctionality();
+      if (!isHealthConnectAvailable) {
+        setIsLoading(false);
+        return;
+      }
+
+      const initSuccess = await initializeHealthConnect();
+      if (!initSuccess) {
+        setIsLoading(false);
+        return;
+      }
+
+      // Another screen may already have been granted this record type
+      const hasExistingPermissions = await syncPermissionState();
+      if (!hasExistingPermissions) {
+        setAndroidHasPermissions(false);
+        setError('NOT_AUTHORIZED');
+        setEmptyData();
+      }
+
+      setIsLoading(false);
+    };
+
+    setupHealthConnect();
+  }, [testHealthConnectFunctionality, initializeHealthConnect, syncPermissionState, setEmptyData]);
+
+  // Android data fetching
+  useEffect(() => {
+    if (androidHasPermissions && isInitialized && Platform.OS === 'android') {
+      fetchAndroidData();
+    }
+  }, [androidHasPermissions, isInitialized, fetchAndroidData]);
+
+  const openSettings = useCallback(async () => {
+    if (Platform.OS !== 'android') return;
+    try {
+      openHealthConnectSettings();
+    } catch (err) {
+      console.error('Error opening Health Connect settings:', err);
+    }
+  }, []);
+
+  const retryPermissionRequest = useCallback(async () => {
+    if (Platform.OS === 'ios') {
+      await requestIosPermissions();
+    } else if (Platform.OS === 'android') {
+      if (!isInitialized) {
+        setError('INITIALIZATION_FAILED');
+        return;
+      }
+      setError(null);
+      setIsLoading(true);
+      try {
+        const success = await requestAndroidPermissions();
+        if (success) {
+          await fetchAndroidData();
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    }
+  }, [requestIosPermissions, requestAndroidPermissions, fetchAndroidData, isInitialized]);
+
+  // Platform-specific returns
+  if (Platform.OS === 'ios') {
+    return {
+      data,
+      isLoading,
+      error,
+      refresh: fetchIosData,
+      requestPermissions: retryPermissionRequest,
+    };
+  }
+
+  // Android
+  return {
+    data,
+    isLoading,
+    error,
+    refresh: fetchAndroidData,
+    requestPermissions: retryPermissionRequest,
+    openSettings,
+    syncPermissions: syncPermissionState,
+  };
+};
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useDispatch } from 'react-redux';
+
+import { HealthUploadQueue } from '../../services/health/HealthUploadQueue';
+import { healthApi } from '../../store/api/healthApi';
+import type { HealthUploadQueueStatus } from '../../types/health';
+
+const queue = HealthUploadQueue.getInstance();
+
+/**
+ * Live status of the health upload queue (pending readings, backoff, last error)
+ */
+export function useHealthUploadQueueStatus(): HealthUploadQueueStatus {
+  useEffect(() => {
+    queue.load();
+  }, []);
+
+  const subscribe = useCallback((onChange: () => void) => queue.subscribe(onChange), []);
+  return useSyncExternalStore(subscribe, () => queue.getStatus());
+}
+
+/**
+ * Keeps queued health readings uploading for the signed-in user, refetching
+ * cached health metrics after each upload. Mount once for the session; pass
+ * null when signed out.
+ */
+export function useHealthUploadQueueSync(userId: string | null) {
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    if (!userId) return;
+    return queue.start(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let lastUploadAt = queue.getStatus().lastUploadAt;
+    return queue.subscribe(() => {
+      const status = queue.getStatus();
+      if (status.lastUploadAt === lastUploadAt) return;
+      lastUploadAt = status.lastUploadAt;
+      dispatch(
+        healthApi.util.invalidateTags([
+          { type: 'HealthMetrics', id: 'LIST' },
+          { type: 'HealthSync', id: userId },
+        ])
+      );
+    });
+  }, [dispatch, userId]);
+}
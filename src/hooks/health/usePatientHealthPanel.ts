@@ -0,0 +1,133 @@
+import { useCallback, useMemo } from 'react';
+
+import type { VitalSummary } from '../../services/health/PatientHealthSummary';
+import PatientHealthSummary from '../../services/health/PatientHealthSummary';
+import {
+  useGetHealthDataQuery,
+  useGetPatientHealthAccessQuery,
+  useGetPatientHealthAlertsQuery,
+} from '../../store/api/healthApi';
+import type { HealthAlert } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+import type { DailyStepData } from './useWeeklySteps';
+
+// How often the panel refreshes while the doctor is in a call with the patient
+const LIVE_REFRESH_MS = 60 * 1000;
+
+export type PatientHealthPanelStatus = 'loading' | 'no-access' | 'error' | 'ready';
+
+interface UsePatientHealthPanelOptions {
+  /** Keep refreshing, e.g. while in a call with the patient */
+  live?: boolean;
+  skip?: boolean;
+}
+
+interface PatientHealthPanelData {
+  status: PatientHealthPanelStatus;
+  sharedTypes: HealthDataType[];
+  accessExpiresAt: string | null;
+  vitals: VitalSummary[];
+  weeklySteps: DailyStepData[] | null;
+  alerts: HealthAlert[];
+  isRefreshing: boolean;
+  refresh: () => void;
+}
+
+const isForbidden = (error: unknown) => (error as { status?: unknown } | undefined)?.status === 403;
+
+/**
+ * ✅ Doctor-side view of a patient's synced health data
+ * Nothing is fetched until the backend confirms the patient has shared data
+ * with this doctor, and only the shared types are requested. A 403 from the
+ * data endpoints (consent revoked or expired meanwhile) reads as no access.
+ */
+export const usePatientHealthPanel = (
+  patientId: string | undefined,
+  { live = false, skip = false }: UsePatientHealthPanelOptions = {}
+): PatientHealthPanelData => {
+  const pollingInterval = live ? LIVE_REFRESH_MS : 0;
+
+  const access = useGetPatientHealthAccessQuery(patientId ?? '', {
+    skip: skip || !patientId,
+    pollingInterval,
+  });
+
+  const sharedTypes = useMemo(() => {
+    const grant = access.data;
+    if (!grant?.granted) return [];
+    if (grant.expires_at && new Date(grant.expires_at).getTime() <= Date.now()) return [];
+    return grant.data_types;
+  }, [access.data]);
+
+  const skipData = skip || !patientId || sharedTypes.length === 0;
+
+  const health = useGetHealthDataQuery(
+    { userId: patientId ?? '', period: 'This week', dataTypes: sharedTypes },
+    { skip: skipData, pollingInterval }
+  );
+  const alertsQuery = useGetPatientHealthAlertsQuery(patientId ?? '', {
+    skip: skipData,
+    pollingInterval,
+  });
+
+  const vitals = useMemo(
+    () => (health.data ? PatientHealthSummary.getLatestVitals(health.data, sharedTypes) : []),
+    [health.data, sharedTypes]
+  );
+
+  const weeklySteps = useMemo(
+    () =>
+      health.data && sharedTypes.includes(HealthDataType.STEPS)
+        ? PatientHealthSummary.toWeeklySteps(health.data.steps)
+        : null,
+    [health.data, sharedTypes]
+  );
+
+  const alerts = useMemo(
+    () =>
+      alertsQuery.data
+        ? PatientHealthSummary.getActiveAlerts(alertsQuery.data.alerts, sharedTypes)
+        : [],
+    [alertsQuery.data, sharedTypes]
+  );
+
+  const { refetch: refetchAccess } = access;
+  const { refetch: refetchHealth } = health;
+  const { refetch: refetchAlerts } = alertsQuery;
+  const refresh = useCallback(() => {
+    refetchAccess();
+    if (!skipData) {
+      refetchHealth();
+      refetchAlerts();
+    }
+  }, [refetchAccess, refetchHealth, refetchAlerts, skipData]);
+
+  let status: PatientHealthPanelStatus;
+  if (access.isLoading || health.isLoading) {
+    status = 'loading';
+  } else if (
+    isForbidden(access.error) ||
+    isForbidden(health.error) ||
+    (access.data && sharedTypes.length === 0)
+  ) {
+    status = 'no-access';
+  } else if (access.error || health.error) {
+    status = 'error';
+  } else {
+    status = 'ready';
+  }
+
+  return {
+    status,
+    sharedTypes,
+    accessExpiresAt: access.data?.expires_at ?? null,
+    vitals,
+    weeklySteps,
+    alerts,
+    isRefreshing: access.isFetching || health.isFetching || alertsQuery.isFetching,
+    refresh,
+  };
+};
+
+export default usePatientHealthPanel;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+
+import type { QualityChange, QualityLevel } from '../services/AdaptiveQualityController';
+import AdaptiveQualityController from '../services/AdaptiveQualityController';
+
+// Long enough to read, short enough not to cover the call
+const NOTICE_DURATION_MS = 6000;
+
+/**
+ * ✅ Live call quality level with a short-lived notice explaining the last change
+ * The notice clears itself; the level stays until the controller changes it.
+ */
+export const useAdaptiveQuality = (listenerId: string) => {
+  const [level, setLevel] = useState<QualityLevel>(() =>
+    AdaptiveQualityController.getInstance().getLevel()
+  );
+  const [notice, setNotice] = useState<QualityChange | null>(null);
+
+  useEffect(() => {
+    let noticeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = AdaptiveQualityController.getInstance().addListener(listenerId, change => {
+      setLevel(change.to);
+      setNotice(change);
+      if (noticeTimeout) clearTimeout(noticeTimeout);
+      noticeTimeout = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (noticeTimeout) clearTimeout(noticeTimeout);
+    };
+  }, [listenerId]);
+
+  return { level, notice };
+};
+
+export default useAdaptiveQuality;
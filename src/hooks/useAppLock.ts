@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+
+import AppLockService from '../services/AppLockService';
+import AuthStateMachine from '../services/AuthStateMachine';
+import type { RootState } from '../store';
+import { selectIsAuthenticated, selectUser } from '../store/selectors/authSelectors';
+
+/**
+ * ✅ Biometric app lock state
+ * Keeps AuthStateMachine in step with the signed-in session so it can move to
+ * `locked`, and follows it into and out of that state. Once the app has
+ * finished initializing, a restored session is locked before it is shown
+ * (`isCheckingLaunchLock` stays true until that is decided).
+ */
+export const useAppLock = (isInitializing: boolean) => {
+  const isAuthenticated = useSelector(selectIsAuthenticated);
+  const user = useSelector(selectUser);
+  const tokens = useSelector((state: RootState) => state.auth?.tokens);
+  const [isLocked, setIsLocked] = useState(() => AuthStateMachine.getInstance().isLocked());
+  const [isCheckingLaunchLock, setIsCheckingLaunchLock] = useState(true);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    const machine = AuthStateMachine.getInstance();
+    const handleStateChange = ({ to }: { to: string }) => setIsLocked(to === 'locked');
+
+    machine.on('stateChange', handleStateChange);
+    setIsLocked(machine.isLocked());
+
+    return () => {
+      machine.off('stateChange', handleStateChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const machine = AuthStateMachine.getInstance();
+
+    // A lock left over after the session was cleared has nothing to protect
+    if (!isAuthenticated || !user || !tokens) {
+      if (machine.isLocked()) {
+        machine.logout();
+      }
+      return;
+    }
+
+    if (!machine.isAuthenticated() && !machine.isLocked()) {
+      machine.loginSuccess(tokens, user);
+    }
+  }, [isAuthenticated, user, tokens]);
+
+  useEffect(() => {
+    if (isInitializing || !isCheckingLaunchLock) return;
+
+    if (!isAuthenticated) {
+      setIsCheckingLaunchLock(false);
+      return;
+    }
+
+    AppLockService.getInstance()
+      .lockOnLaunch()
+      .catch(error => console.error('❌ Failed to lock app on launch:', error))
+      .finally(() => setIsCheckingLaunchLock(false));
+  }, [isAuthenticated, isCheckingLaunchLock, isInitializing]);
+
+  const unlock = useCallback(async () => {
+    setIsUnlocking(true);
+    try {
+      return await AppLockService.getInstance().unlock();
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, []);
+
+  return { isLocked: isAuthenticated && isLocked, isCheckingLaunchLock, isUnlocking, unlock };
+};
+
+export default useAppLock;
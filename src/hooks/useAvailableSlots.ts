@@ -0,0 +1,91 @@
+import { addDays, format } from 'date-fns';
+import { useCallback, useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+
+import type { AppDispatch } from '../store';
+import {
+  selectAvailableSlotDates,
+  selectAvailableSlots,
+  selectSlotsError,
+  selectSlotsLoading,
+} from '../store/selectors/appointmentsSelectors';
+import { clearAvailableSlots, fetchAvailableSlots } from '../store/slices/appointmentsSlice';
+
+/**
+ * The slots endpoint returns either full ISO timestamps or bare "HH:mm" times
+ * keyed by day, so normalize both shapes into a single ISO string.
+ */
+export const toSlotDateTime = (date: string, slot: string): string =>
+  slot.includes('T') ? slot : new Date(`${date}T${slot}`).toISOString();
+
+interface UseAvailableSlotsOptions {
+  doctorId: number | string | undefined;
+  daysAhead?: number;
+  durationMinutes?: number;
+}
+
+/**
+ * Loads bookable slots for a doctor over the next `daysAhead` days and tracks
+ * the user's day/time selection. Used by both booking and rescheduling.
+ */
+export function useAvailableSlots({
+  doctorId,
+  daysAhead = 14,
+  durationMinutes = 30,
+}: UseAvailableSlotsOptions) {
+  const dispatch = useDispatch<AppDispatch>();
+  const slotsByDate = useSelector(selectAvailableSlots);
+  const availableDates = useSelector(selectAvailableSlotDates);
+  const isLoading = useSelector(selectSlotsLoading);
+  const error = useSelector(selectSlotsError);
+
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+
+  const loadSlots = useCallback(() => {
+    if (doctorId === undefined) return;
+    const today = new Date();
+    dispatch(
+      fetchAvailableSlots({
+        doctorId,
+        startDate: format(today, 'yyyy-MM-dd'),
+        endDate: format(addDays(today, daysAhead), 'yyyy-MM-dd'),
+        duration: durationMinutes,
+      })
+    );
+  }, [dispatch, doctorId, daysAhead, durationMinutes]);
+
+  useEffect(() => {
+    loadSlots();
+    return () => {
+      dispatch(clearAvailableSlots());
+    };
+  }, [dispatch, loadSlots]);
+
+  // Preselect the first day with availability once slots arrive
+  useEffect(() => {
+    if (selectedDate && availableDates.includes(selectedDate)) return;
+    setSelectedDate(availableDates[0] ?? null);
+    setSelectedSlot(null);
+  }, [availableDates, selectedDate]);
+
+  const selectDate = useCallback((date: string) => {
+    setSelectedDate(date);
+    setSelectedSlot(null);
+  }, []);
+
+  const selectedDateTime =
+    selectedDate && selectedSlot ? toSlotDateTime(selectedDate, selectedSlot) : null;
+
+  return {
+    slotsByDate,
+    isLoading,
+    error,
+    selectedDate,
+    selectedSlot,
+    selectedDateTime,
+    selectDate,
+    selectSlot: setSelectedSlot,
+    reload: loadSlots,
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { AppStateStatus } from 'react-native';
+import { AppState } from 'react-native';
+
+import CallLifecycleManager from '../services/CallLifecycleManager';
+import type { CallHistoryEntry } from '../types/callTypes';
+
+/**
+ * ✅ Call history with missed-call count
+ * Follows every lifecycle change. Given the signed-in user's id it also pulls
+ * the backend's history on mount and whenever the app returns to the
+ * foreground, so calls that rang while the app was closed are counted too;
+ * mount it that way once for the session and pass null elsewhere.
+ */
+export const useCallHistory = (userId: string | null) => {
+  const [history, setHistory] = useState<CallHistoryEntry[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    const manager = CallLifecycleManager.getInstance();
+    let isMounted = true;
+
+    const reload = () => {
+      manager.getHistory().then(entries => {
+        if (isMounted) {
+          setHistory(entries);
+        }
+      });
+    };
+
+    reload();
+    const unsubscribe = manager.addListener(reload);
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+
+    setIsRefreshing(true);
+    try {
+      await CallLifecycleManager.getInstance().syncHistory(userId);
+    } catch (error) {
+      console.warn('⚠️ Could not sync call history:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    refresh();
+
+    const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
+      if (nextAppState === 'active') {
+        refresh();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [refresh, userId]);
+
+  const markMissedCallsSeen = useCallback(
+    () => CallLifecycleManager.getInstance().markMissedCallsSeen(),
+    []
+  );
+
+  const missedCount = useMemo(() => history.filter(entry => !entry.seen).length, [history]);
+
+  return { history, missedCount, isRefreshing, refresh, markMissedCallsSeen };
+};
+
+export default useCallHistory;
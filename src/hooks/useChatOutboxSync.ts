@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import type { AppStateStatus } from 'react-native';
+import { AppState } from 'react-native';
+import { useDispatch } from 'react-redux';
+
+import NetworkMonitorService from '../services/networkMonitorService';
+import type { AppDispatch } from '../store';
+import { flushChatOutbox, loadChatOutbox, setChatConnected } from '../store/slices/chatSlice';
+
+/**
+ * ✅ Keeps the chat outbox moving
+ * Restores queued messages on launch and retries them whenever the device
+ * comes back online or the app returns to the foreground. Mount once for
+ * the signed-in session.
+ */
+export const useChatOutboxSync = (enabled: boolean) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const wasConnectedRef = useRef(NetworkMonitorService.isConnected());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    dispatch(loadChatOutbox()).then(() => dispatch(flushChatOutbox()));
+
+    const unsubscribeNetwork = NetworkMonitorService.addListener(state => {
+      const reconnected = state.isConnected && !wasConnectedRef.current;
+      wasConnectedRef.current = state.isConnected;
+      dispatch(setChatConnected(state.isConnected));
+
+      if (reconnected) {
+        console.log('📶 Back online, flushing chat outbox');
+        dispatch(flushChatOutbox());
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener(
+      'change',
+      (nextAppState: AppStateStatus) => {
+        if (nextAppState === 'active') {
+          dispatch(flushChatOutbox());
+        }
+      }
+    );
+
+    return () => {
+      unsubscribeNetwork();
+      appStateSubscription.remove();
+    };
+  }, [dispatch, enabled]);
+};
+
+export default useChatOutboxSync;
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+
+import type { AppDispatch, RootState } from '../store';
+import {
+  selectAllAppointments,
+  selectDueConsultationAppointment,
+} from '../store/selectors/appointmentsSelectors';
+import { fetchMyAppointments } from '../store/slices/appointmentsSlice';
+
+/**
+ * ✅ The video appointment a call from a details screen belongs to
+ * Loads the user's appointments once if none are in the store yet. Recording
+ * and saved transcripts are stored against this appointment, so calls outside
+ * a booked consultation resolve to `undefined` and offer neither.
+ */
+export const useConsultationAppointmentId = (participant: {
+  doctorId?: string | number;
+  patientId?: string | number;
+}): number | undefined => {
+  const dispatch = useDispatch<AppDispatch>();
+  const hasAppointments = useSelector(
+    (state: RootState) => selectAllAppointments(state).length > 0
+  );
+  const appointment = useSelector((state: RootState) =>
+    selectDueConsultationAppointment(state, participant)
+  );
+  const requestedRef = useRef(false);
+
+  useEffect(() => {
+    if (requestedRef.current || hasAppointments) return;
+    requestedRef.current = true;
+    dispatch(fetchMyAppointments({ limit: 100, sortBy: 'appointment_date' }));
+  }, [dispatch, hasAppointments]);
+
+  return appointment?.appointment_id;
+};
@@ -2,15 +2,25 @@ import type { AsyncThunk } from '@reduxjs/toolkit';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 
+import NetworkMonitorService from '../services/networkMonitorService';
 import type { AppDispatch, RootState } from '../store';
+import type { EntityPageRequest } from '../store/slices/entitiesSlice';
 
-interface EntityListOptions<T> {
-  fetchAction: AsyncThunk<any, void, {}>;
+// Wait for typing to pause before asking the server for new results
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface EntityListOptions<T, F extends object> {
+  fetchAction: AsyncThunk<any, EntityPageRequest | undefined, { state: any; rejectValue: string }>;
+  loadCachedAction: AsyncThunk<any, void, {}>;
   setSearchQueryAction: (query: string) => { type: string; payload: any };
+  setFiltersAction?: (filters: Partial<F>) => { type: string; payload: any };
   dataSelector: (state: RootState) => T[];
   loadingSelector: (state: RootState) => boolean;
+  loadingMoreSelector: (state: RootState) => boolean;
   errorSelector: (state: RootState) => string | null;
   filteredCountSelector: (state: RootState) => number;
+  paginationSelector: (state: RootState) => { page: number; hasMore: boolean };
+  cacheStatusSelector: (state: RootState) => { lastUpdated: number | null; isFromCache: boolean };
   enablePerformanceLogging?: boolean;
   screenName?: string;
 }
@@ -22,26 +32,36 @@ interface LoadingStates {
   isInitialLoad: boolean;
 }
 
-export const useEntityList = <T>({
+export const useEntityList = <T, F extends object = {}>({
   fetchAction,
+  loadCachedAction,
   setSearchQueryAction,
+  setFiltersAction,
   dataSelector,
   loadingSelector,
+  loadingMoreSelector,
   errorSelector,
   filteredCountSelector,
+  paginationSelector,
+  cacheStatusSelector,
   enablePerformanceLogging = __DEV__,
   screenName = 'EntityList',
-}: EntityListOptions<T>) => {
+}: EntityListOptions<T, F>) => {
   const dispatch = useDispatch<AppDispatch>();
   const isMountedRef = useRef(true);
   const hasLoadedRef = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
   const loadStartTimeRef = useRef<number>(0);
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const wasConnectedRef = useRef(NetworkMonitorService.isConnected());
 
   const entities = useSelector(dataSelector);
   const isLoading = useSelector(loadingSelector);
+  const isLoadingMore = useSelector(loadingMoreSelector);
   const error = useSelector(errorSelector);
   const filteredCount = useSelector(filteredCountSelector);
+  const pagination = useSelector(paginationSelector);
+  const cacheStatus = useSelector(cacheStatusSelector);
 
   const [refreshing, setRefreshing] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
@@ -134,7 +154,7 @@ export const useEntityList = <T>({
         console.log(`🔄 ${screenName} - Starting refresh`);
       }
 
-      await dispatch(fetchAction()).unwrap();
+      await dispatch(fetchAction({ refresh: true })).unwrap();
 
       if (enablePerformanceLogging) {
         const refreshTime = Date.now() - loadStartTimeRef.current;
@@ -159,15 +179,67 @@ export const useEntityList = <T>({
     }
   }, [dispatch, fetchAction, enablePerformanceLogging, screenName]);
 
-  // Enhanced search with debouncing built-in
+  // Enhanced search with debouncing built-in; results come back from the server a page at a time
   const handleSearchChange = useCallback(
     (query: string) => {
       if (!isMountedRef.current) return;
       dispatch(setSearchQueryAction(query));
+
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+      searchTimeoutRef.current = setTimeout(() => {
+        searchTimeoutRef.current = null;
+        dispatch(fetchAction({ refresh: true }))
+          .unwrap()
+          .catch((error: any) => {
+            console.error(`❌ ${screenName} - Search failed:`, error);
+          });
+      }, SEARCH_DEBOUNCE_MS);
+    },
+    [dispatch, fetchAction, setSearchQueryAction, screenName]
+  );
+
+  // Filters are toggled one tap at a time, so the first page is refetched right away
+  const handleFiltersChange = useCallback(
+    (filters: Partial<F>) => {
+      if (!isMountedRef.current || !setFiltersAction) return;
+      dispatch(setFiltersAction(filters));
+
+      dispatch(fetchAction({ refresh: true }))
+        .unwrap()
+        .catch((error: any) => {
+          console.error(`❌ ${screenName} - Filtering failed:`, error);
+        });
     },
-    [dispatch, setSearchQueryAction]
+    [dispatch, fetchAction, setFiltersAction, screenName]
   );
 
+  // Infinite scroll: fetch the next page when the list nears its end
+  const loadMore = useCallback(async () => {
+    if (!isMountedRef.current) return;
+    if (!pagination.hasMore || isLoading || isLoadingMore || refreshing) return;
+
+    const nextPage = pagination.page + 1;
+    try {
+      if (enablePerformanceLogging) {
+        console.log(`📄 ${screenName} - Loading page ${nextPage}`);
+      }
+      await dispatch(fetchAction({ page: nextPage })).unwrap();
+    } catch (error: any) {
+      console.error(`❌ ${screenName} - Loading page ${nextPage} failed:`, error);
+    }
+  }, [
+    dispatch,
+    fetchAction,
+    pagination,
+    isLoading,
+    isLoadingMore,
+    refreshing,
+    enablePerformanceLogging,
+    screenName,
+  ]);
+
   // Retry function for error states
   const retry = useCallback(async () => {
     if (!isMountedRef.current) return;
@@ -252,10 +324,30 @@ export const useEntityList = <T>({
     };
 
     initializeServices();
-    initialLoad(); // Call once on mount
+    // Show the copy saved on disk first, then revalidate it from the network
+    dispatch(loadCachedAction()).finally(() => initialLoad()); // Call once on mount
+
+    // Revalidate in the background whenever the device comes back online
+    const unsubscribeNetwork = NetworkMonitorService.addListener(state => {
+      const reconnected = state.isConnected && !wasConnectedRef.current;
+      wasConnectedRef.current = state.isConnected;
+
+      if (reconnected && isMountedRef.current) {
+        console.log(`📶 ${screenName} - Back online, revalidating`);
+        dispatch(fetchAction({ refresh: true }))
+          .unwrap()
+          .catch((error: any) => {
+            console.warn(`⚠️ ${screenName} - Revalidation failed:`, error);
+          });
+      }
+    });
 
     return () => {
       isMountedRef.current = false;
+      unsubscribeNetwork();
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
       // Abort any ongoing requests
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -272,6 +364,12 @@ export const useEntityList = <T>({
     refreshing,
     onRefresh,
     handleSearchChange,
+    handleFiltersChange,
+    loadMore,
+    isLoadingMore,
+    hasMore: pagination.hasMore,
+    lastUpdated: cacheStatus.lastUpdated,
+    isShowingCachedData: cacheStatus.isFromCache,
     retry,
     retryCount,
     loadingStates,
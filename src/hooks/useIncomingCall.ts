@@ -22,10 +22,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useNavigation } from '@react-navigation/native';
 
+import CallLifecycleManager from '../services/CallLifecycleManager';
 import IncomingCallManager, { type IncomingCallData } from '../services/IncomingCallManager';
 import NotifeeNotificationService, { type PushTokenData } from '../services/NotifeeNotificationService';
 import CallNavigationManager from '../services/CallNavigationManager';
-import { VIDEO_CALL_CONFIG } from '../config/videoCallConfig';
 import { SentryErrorTracker } from '../utils/sentryErrorTracker';
 
 /**
@@ -172,7 +172,8 @@ export function useIncomingCall(options: UseIncomingCallOptions = {}): UseIncomi
         callData.metadata || {},
         callData.callerName,
         callData.callerType,
-        callData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+        callData.roomUrl,
+        callData.callId
       );
 
       // Navigate to appropriate details screen with restoreCall flag
@@ -212,9 +213,13 @@ export function useIncomingCall(options: UseIncomingCallOptions = {}): UseIncomi
 
     try {
       const callManager = IncomingCallManager.getInstance();
+      const callData = callManager.getActiveCall(callUuid);
+      if (callData?.callId) {
+        await CallLifecycleManager.getInstance().answerCall(callData.callId);
+      }
+
       await callManager.setCallConnected(callUuid);
 
-      const callData = callManager.getActiveCall(callUuid);
       if (callData) {
         setIncomingCall(callData);
       }
@@ -238,6 +243,11 @@ export function useIncomingCall(options: UseIncomingCallOptions = {}): UseIncomi
 
     try {
       const callManager = IncomingCallManager.getInstance();
+      const callData = callManager.getActiveCall(callUuid);
+      if (callData?.callId) {
+        await CallLifecycleManager.getInstance().declineCall(callData.callId);
+      }
+
       await callManager.endCall(callUuid);
 
       setIncomingCall(null);
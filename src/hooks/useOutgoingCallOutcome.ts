@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
+
+import CallLifecycleManager from '../services/CallLifecycleManager';
+import { CallLifecycleState } from '../types/callTypes';
+
+const OUTCOME_MESSAGES: Partial<Record<CallLifecycleState, (name: string) => string>> = {
+  [CallLifecycleState.DECLINED]: name => `${name} declined the call.`,
+  [CallLifecycleState.BUSY]: name => `${name} is on another call. Please try again later.`,
+  [CallLifecycleState.MISSED]: name => `${name} did not answer.`,
+};
+
+/**
+ * ✅ Leaves an outgoing call the recipient will not join
+ * Calls `onEnded` and tells the caller why when the call is declined, the
+ * recipient is busy, or it rings out.
+ */
+export const useOutgoingCallOutcome = (
+  callId: string | null,
+  participantName: string,
+  onEnded: () => void
+) => {
+  useEffect(() => {
+    if (!callId) return;
+
+    return CallLifecycleManager.getInstance().addListener(entry => {
+      const message = OUTCOME_MESSAGES[entry.state];
+      if (entry.callId !== callId || entry.direction !== 'outgoing' || !message) {
+        return;
+      }
+
+      onEnded();
+      Alert.alert('Call Not Connected', message(participantName));
+    });
+  }, [callId, participantName, onEnded]);
+};
+
+export default useOutgoingCallOutcome;
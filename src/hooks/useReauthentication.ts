@@ -0,0 +1,43 @@
+import { useNavigation } from '@react-navigation/native';
+import { useEffect, useState } from 'react';
+
+import AppLockService from '../services/AppLockService';
+
+/**
+ * ✅ Re-authentication gate for screens with sensitive data
+ * Asks for biometrics when the screen opens and leaves it when the user
+ * cancels. Returns whether the content may be shown; always true while the
+ * app lock is turned off. Pass `enabled: false` when the screen is opened for
+ * an ongoing call so the prompt does not get in the way.
+ */
+export const useReauthentication = (reason: string, enabled = true) => {
+  const navigation = useNavigation();
+  const [isVerified, setIsVerified] = useState(!enabled);
+
+  useEffect(() => {
+    if (!enabled) {
+      setIsVerified(true);
+      return;
+    }
+
+    let isMounted = true;
+    AppLockService.getInstance()
+      .requireReauthentication(reason)
+      .then(passed => {
+        if (!isMounted) return;
+        if (passed) {
+          setIsVerified(true);
+        } else if (navigation.canGoBack()) {
+          navigation.goBack();
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [enabled, navigation, reason]);
+
+  return isVerified;
+};
+
+export default useReauthentication;
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { sessionsApi } from '../services/api/sessionsApi';
+import type { UserSession } from '../types';
+
+/**
+ * ✅ Signed-in devices with remote sign-out
+ * Loads the session list on mount; revoking removes the session locally once
+ * the backend confirms.
+ */
+export const useSessions = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await sessionsApi.getSessions();
+      // Current device first, then most recently active
+      const sorted = [...(response.data ?? [])].sort(
+        (a, b) =>
+          Number(b.isCurrent) - Number(a.isCurrent) ||
+          new Date(b.lastActiveAt).getTime() - new Date(a.lastActiveAt).getTime()
+      );
+      setSessions(sorted);
+      setError(null);
+    } catch (loadError: any) {
+      setError(loadError.message || 'Unable to load your devices');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions().finally(() => setIsLoading(false));
+  }, [loadSessions]);
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      await loadSessions();
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [loadSessions]);
+
+  const revokeSession = useCallback(async (sessionId: string) => {
+    await sessionsApi.revokeSession(sessionId);
+    setSessions(current => current.filter(session => session.id !== sessionId));
+  }, []);
+
+  const revokeOtherSessions = useCallback(async () => {
+    await sessionsApi.revokeOtherSessions();
+    setSessions(current => current.filter(session => session.isCurrent));
+  }, []);
+
+  return {
+    sessions,
+    isLoading,
+    isRefreshing,
+    error,
+    refresh,
+    revokeSession,
+    revokeOtherSessions,
+  };
+};
+
+export default useSessions;
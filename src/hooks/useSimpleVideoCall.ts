@@ -183,7 +183,7 @@ export const useSimpleVideoCall = () => {
           console.log(`🏗️ [REAL] Created/Found Daily.co room: ${roomUrl}`);
 
           // Join the room
-          await DailyService.joinRoom(roomUrl);
+          await DailyService.joinRoom(roomUrl, { token: roomInfo.token });
 
           // Set video off for audio-only calls
           if (callType === 'audio') {
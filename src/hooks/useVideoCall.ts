@@ -443,7 +443,9 @@ export const useVideoCall = () => {
 
         // Create room URL from channel name
         const channelInfo = await DailyService.createRoom(channelName);
-        await DailyService.joinRoom(channelInfo.roomUrl || channelInfo.channelName); // ✅ FIX: Use roomUrl from ChannelInfo
+        await DailyService.joinRoom(channelInfo.roomUrl || channelInfo.channelName, {
+          token: channelInfo.token,
+        });
 
         if (audioOnly) {
           await DailyService.setLocalVideo(false);
@@ -0,0 +1,95 @@
+import { Audio } from 'expo-av';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { LocalChatAttachment } from '../types';
+
+// Voice notes are for short follow-ups; longer recordings are cut off here
+const MAX_VOICE_NOTE_MS = 5 * 60 * 1000;
+
+/**
+ * ✅ Records voice notes for chat with expo-av
+ * `stop` resolves to an attachment ready for the outbox, or null if the
+ * recording was too short to be useful.
+ */
+export const useVoiceNoteRecorder = () => {
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [durationMs, setDurationMs] = useState(0);
+
+  const start = useCallback(async () => {
+    if (recordingRef.current) return false;
+
+    const permission = await Audio.requestPermissionsAsync();
+    if (!permission.granted) {
+      return false;
+    }
+
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+
+    const { recording } = await Audio.Recording.createAsync(
+      Audio.RecordingOptionsPresets.HIGH_QUALITY,
+      status => {
+        setDurationMs(status.durationMillis);
+        if (status.durationMillis >= MAX_VOICE_NOTE_MS) {
+          recording.stopAndUnloadAsync().catch(() => {});
+        }
+      },
+      500
+    );
+    recordingRef.current = recording;
+    setDurationMs(0);
+    setIsRecording(true);
+    return true;
+  }, []);
+
+  const finish = useCallback(async (keep: boolean): Promise<LocalChatAttachment | null> => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    if (!recording) return null;
+
+    try {
+      const status = await recording.getStatusAsync();
+      if (status.isRecording) {
+        await recording.stopAndUnloadAsync();
+      }
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+
+      const uri = recording.getURI();
+      if (!keep || !uri || status.durationMillis < 1000) {
+        return null;
+      }
+
+      const extension = uri.split('.').pop() ?? 'm4a';
+      return {
+        uri,
+        fileName: `voice-note-${Date.now()}.${extension}`,
+        fileSize: 0, // Filled in by the backend after upload
+        mimeType: extension === 'caf' ? 'audio/x-caf' : 'audio/m4a',
+        durationMs: status.durationMillis,
+      };
+    } catch (error) {
+      console.warn('⚠️ Failed to finish voice note:', error);
+      return null;
+    }
+  }, []);
+
+  const stop = useCallback(() => finish(true), [finish]);
+  const cancel = useCallback(() => finish(false), [finish]);
+
+  // Never leave the microphone open if the composer unmounts mid-recording
+  useEffect(
+    () => () => {
+      recordingRef.current?.stopAndUnloadAsync().catch(() => {});
+      recordingRef.current = null;
+    },
+    []
+  );
+
+  return { isRecording, durationMs, start, stop, cancel };
+};
+
+export default useVoiceNoteRecorder;
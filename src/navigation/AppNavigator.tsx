@@ -7,10 +7,14 @@ import React, { useEffect, useState, useRef } from 'react';
 import { DeviceEventEmitter, Platform, BackHandler, Alert } from 'react-native';
 import { useSelector, useDispatch } from 'react-redux';
 
+import AppLockScreen from '../components/AppLockScreen';
 import LoadingScreen from '../components/LoadingScreen';
+import { ERROR_MESSAGES } from '../constants';
+import { useAppLock } from '../hooks/useAppLock';
 import { useAuthSession } from '../hooks/useAuthSession';
+import AuthStateMachine from '../services/AuthStateMachine';
 import type { RootState, AppDispatch } from '../store';
-import { loadStoredAuth, clearAuth } from '../store/slices/authSlice';
+import { loadStoredAuth, clearAuth, logoutUser } from '../store/slices/authSlice';
 import { isExpoGo } from '../utils/nativeModuleChecker';
 
 import AuthNavigator from './AuthNavigator';
@@ -50,6 +54,7 @@ const AppNavigator: React.FC = () => {
 
   // Use auth session hook for app state changes
   useAuthSession();
+  const { isLocked, isCheckingLaunchLock, isUnlocking, unlock } = useAppLock(isInitializing);
 
   // Debug logging
   console.log(
@@ -116,8 +121,24 @@ const AppNavigator: React.FC = () => {
     const handleTokenExpired = (event?: any) => {
       const type = Platform.OS === 'web' ? event?.detail?.type : event?.type;
       const reason = Platform.OS === 'web' ? event?.detail?.reason : event?.reason;
+      const code = Platform.OS === 'web' ? event?.detail?.code : event?.code;
       console.log(`🔑 Token issue received: type=${type} reason=${reason}`);
 
+      // Signed out from another device: explain instead of failing with a generic error
+      if (code === 'TOKEN_REVOKED') {
+        console.log('🔑 Session revoked remotely, signing out');
+        AuthStateMachine.getInstance().sessionRevoked(ERROR_MESSAGES.SESSION_REVOKED);
+        import('../services/authService').then(({ authService }) => {
+          authService.clearSession();
+          authService.clearLocalData().catch((error: any) => {
+            console.warn('Failed to clear local data after remote sign-out:', error);
+          });
+        });
+        dispatch(clearAuth());
+        Alert.alert('Signed Out', ERROR_MESSAGES.SESSION_REVOKED);
+        return;
+      }
+
       // Only perform logout for definitive authentication failures
       if (type === 'definitive_auth_failure') {
         console.log('🔑 Definitive auth failure, clearing session');
@@ -198,132 +219,142 @@ const AppNavigator: React.FC = () => {
     };
   }, [dispatch, isAuthenticated]);
 
-  if (isLoading || isInitializing) {
+  if (isLoading || isInitializing || isCheckingLaunchLock) {
     return <LoadingScreen message={isInitializing ? 'Initializing app...' : 'Loading...'} />;
   }
 
   return (
-    <Stack.Navigator
-      screenOptions={{
-        headerShown: false,
-        ...TransitionPresets.SlideFromRightIOS,
-        gestureEnabled: true,
-        gestureDirection: 'horizontal',
-        gestureResponseDistance: Platform.OS === 'ios' ? 25 : 50,
-        cardStyleInterpolator: CardStyleInterpolators.forHorizontalIOS,
-        transitionSpec: {
-          open: {
-            animation: 'timing',
-            config: {
-              duration: 300,
+    <>
+      <Stack.Navigator
+        screenOptions={{
+          headerShown: false,
+          ...TransitionPresets.SlideFromRightIOS,
+          gestureEnabled: true,
+          gestureDirection: 'horizontal',
+          gestureResponseDistance: Platform.OS === 'ios' ? 25 : 50,
+          cardStyleInterpolator: CardStyleInterpolators.forHorizontalIOS,
+          transitionSpec: {
+            open: {
+              animation: 'timing',
+              config: {
+                duration: 300,
+              },
             },
-          },
-          close: {
-            animation: 'timing',
-            config: {
-              duration: 300,
+            close: {
+              animation: 'timing',
+              config: {
+                duration: 300,
+              },
             },
           },
-        },
-      }}
-    >
-      {isAuthenticated ? (
-        <>
-          {/** Initialize background tasks when authenticated */}
-          {BackgroundTaskManager.getInstance() && null}
-          <Stack.Screen
-            name="Main"
-            component={MainNavigator}
-            options={{
-              cardStyleInterpolator: CardStyleInterpolators.forFadeFromCenter,
-            }}
-          />
-          {/* ✅ NEW: Call screens at root level for optimal performance */}
-          {/* 🚨 CRITICAL: IncomingCallScreen for Android 10+ fallback */}
-          <Stack.Screen
-            name="IncomingCall"
-            component={IncomingCallScreen as any}
-            options={{
-              headerShown: false,
-              presentation: 'modal', // Full-screen modal for incoming calls
-              gestureEnabled: false, // Prevent dismissal during incoming call
-              cardStyleInterpolator: CardStyleInterpolators.forFadeFromCenter,
-              animationEnabled: true,
-              transitionSpec: {
-                open: {
-                  animation: 'timing',
-                  config: {
-                    duration: 200,
+        }}
+      >
+        {isAuthenticated ? (
+          <>
+            {/** Initialize background tasks when authenticated */}
+            {BackgroundTaskManager.getInstance() && null}
+            <Stack.Screen
+              name="Main"
+              component={MainNavigator}
+              options={{
+                cardStyleInterpolator: CardStyleInterpolators.forFadeFromCenter,
+              }}
+            />
+            {/* ✅ NEW: Call screens at root level for optimal performance */}
+            {/* 🚨 CRITICAL: IncomingCallScreen for Android 10+ fallback */}
+            <Stack.Screen
+              name="IncomingCall"
+              component={IncomingCallScreen as any}
+              options={{
+                headerShown: false,
+                presentation: 'modal', // Full-screen modal for incoming calls
+                gestureEnabled: false, // Prevent dismissal during incoming call
+                cardStyleInterpolator: CardStyleInterpolators.forFadeFromCenter,
+                animationEnabled: true,
+                transitionSpec: {
+                  open: {
+                    animation: 'timing',
+                    config: {
+                      duration: 200,
+                    },
                   },
-                },
-                close: {
-                  animation: 'timing',
-                  config: {
-                    duration: 150,
+                  close: {
+                    animation: 'timing',
+                    config: {
+                      duration: 150,
+                    },
                   },
                 },
-              },
-            }}
-          />
-          <Stack.Screen
-            name="VideoCall"
-            component={VideoCallScreen as any}
-            options={{
-              headerShown: false,
-              presentation: Platform.OS === 'ios' ? 'modal' : 'card',
-              gestureEnabled: false, // Prevent accidental swipe dismissal
-              cardStyleInterpolator: CardStyleInterpolators.forModalPresentationIOS,
-              transitionSpec: {
-                open: {
-                  animation: 'timing',
-                  config: {
-                    duration: 300,
+              }}
+            />
+            <Stack.Screen
+              name="VideoCall"
+              component={VideoCallScreen as any}
+              options={{
+                headerShown: false,
+                presentation: Platform.OS === 'ios' ? 'modal' : 'card',
+                gestureEnabled: false, // Prevent accidental swipe dismissal
+                cardStyleInterpolator: CardStyleInterpolators.forModalPresentationIOS,
+                transitionSpec: {
+                  open: {
+                    animation: 'timing',
+                    config: {
+                      duration: 300,
+                    },
                   },
-                },
-                close: {
-                  animation: 'timing',
-                  config: {
-                    duration: 250,
+                  close: {
+                    animation: 'timing',
+                    config: {
+                      duration: 250,
+                    },
                   },
                 },
-              },
-            }}
-          />
-          <Stack.Screen
-            name="AudioCall"
-            component={AudioCallScreen as any}
-            options={{
-              headerShown: false,
-              presentation: Platform.OS === 'ios' ? 'modal' : 'card',
-              gestureEnabled: true, // Allow back gesture for audio calls
-              cardStyleInterpolator: CardStyleInterpolators.forVerticalIOS,
-              transitionSpec: {
-                open: {
-                  animation: 'timing',
-                  config: {
-                    duration: 300,
+              }}
+            />
+            <Stack.Screen
+              name="AudioCall"
+              component={AudioCallScreen as any}
+              options={{
+                headerShown: false,
+                presentation: Platform.OS === 'ios' ? 'modal' : 'card',
+                gestureEnabled: true, // Allow back gesture for audio calls
+                cardStyleInterpolator: CardStyleInterpolators.forVerticalIOS,
+                transitionSpec: {
+                  open: {
+                    animation: 'timing',
+                    config: {
+                      duration: 300,
+                    },
                   },
-                },
-                close: {
-                  animation: 'timing',
-                  config: {
-                    duration: 250,
+                  close: {
+                    animation: 'timing',
+                    config: {
+                      duration: 250,
+                    },
                   },
                 },
-              },
+              }}
+            />
+          </>
+        ) : (
+          <Stack.Screen
+            name="Auth"
+            component={AuthNavigator}
+            options={{
+              cardStyleInterpolator: CardStyleInterpolators.forFadeFromCenter,
             }}
           />
-        </>
-      ) : (
-        <Stack.Screen
-          name="Auth"
-          component={AuthNavigator}
-          options={{
-            cardStyleInterpolator: CardStyleInterpolators.forFadeFromCenter,
-          }}
+        )}
+      </Stack.Navigator>
+      {/* Biometric lock covers the app without unmounting it, so navigation and calls survive */}
+      {isLocked && (
+        <AppLockScreen
+          isUnlocking={isUnlocking}
+          onUnlock={unlock}
+          onSignOut={() => dispatch(logoutUser())}
         />
       )}
-    </Stack.Navigator>
+    </>
   );
 };
 
@@ -9,24 +9,52 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useSelector } from 'react-redux';
 
 import { COLORS } from '../constants';
+import { useHealthGoalTracking } from '../hooks/health/useHealthGoals';
+import { useHealthUploadQueueSync } from '../hooks/health/useHealthUploadQueue';
+import { useCallHistory } from '../hooks/useCallHistory';
+import { useChatOutboxSync } from '../hooks/useChatOutboxSync';
+import AppointmentDetailsScreen from '../screens/appointments/AppointmentDetailsScreen';
+import AppointmentsScreen from '../screens/appointments/AppointmentsScreen';
+import BookAppointmentScreen from '../screens/appointments/BookAppointmentScreen';
+import CallHistoryScreen from '../screens/calls/CallHistoryScreen';
+import RescheduleAppointmentScreen from '../screens/appointments/RescheduleAppointmentScreen';
+import ChatListScreen from '../screens/chat/ChatListScreen';
+import ChatRoomScreen from '../screens/chat/ChatRoomScreen';
+import HealthGoalsScreen from '../screens/health/HealthGoalsScreen';
+import HealthMetricDetailScreen from '../screens/health/HealthMetricDetailScreen';
 import SimpleStepsDashboard from '../screens/health/SimpleStepsDashboard';
 import CustomerDetailsScreen from '../screens/main/CustomerDetailsScreen_IMPROVED';
 import CustomersScreen from '../screens/main/CustomersScreen';
 import DoctorDetailsScreen from '../screens/main/DoctorDetailsScreen_IMPROVED';
 import DoctorsScreen from '../screens/main/DoctorsScreen';
+import AppLockSettingsScreen from '../screens/settings/AppLockSettingsScreen';
+import HealthAccessLogScreen from '../screens/settings/HealthAccessLogScreen';
+import HealthSharingScreen from '../screens/settings/HealthSharingScreen';
+import HealthSourcePriorityScreen from '../screens/settings/HealthSourcePriorityScreen';
+import SessionsScreen from '../screens/settings/SessionsScreen';
 import type { RootState } from '../store';
+import { selectTotalUnreadChats } from '../store/selectors/chatSelectors';
 
 const Tab = createBottomTabNavigator();
 const DoctorsStack = createStackNavigator();
 const CustomersStack = createStackNavigator();
 const HealthStack = createStackNavigator();
+const AppointmentsStack = createStackNavigator();
 const PublicRoomStack = createStackNavigator();
+const ChatStack = createStackNavigator();
 
 const DoctorsStackNavigator: React.FC = () => {
   return (
     <DoctorsStack.Navigator screenOptions={{ headerShown: false }}>
       <DoctorsStack.Screen name="DoctorsList" component={DoctorsScreen} />
       <DoctorsStack.Screen name="DoctorDetails" component={DoctorDetailsScreen} />
+      <DoctorsStack.Screen name="BookAppointment" component={BookAppointmentScreen} />
+      <DoctorsStack.Screen name="CallHistory" component={CallHistoryScreen} />
+      <DoctorsStack.Screen name="AppLockSettings" component={AppLockSettingsScreen} />
+      <DoctorsStack.Screen name="Sessions" component={SessionsScreen} />
+      <DoctorsStack.Screen name="HealthSharing" component={HealthSharingScreen} />
+      <DoctorsStack.Screen name="HealthAccessLog" component={HealthAccessLogScreen} />
+      <DoctorsStack.Screen name="HealthSourcePriority" component={HealthSourcePriorityScreen} />
     </DoctorsStack.Navigator>
   );
 };
@@ -36,136 +64,213 @@ const CustomersStackNavigator: React.FC = () => {
     <CustomersStack.Navigator screenOptions={{ headerShown: false }}>
       <CustomersStack.Screen name="CustomersList" component={CustomersScreen} />
       <CustomersStack.Screen name="CustomerDetails" component={CustomerDetailsScreen} />
+      <CustomersStack.Screen name="CallHistory" component={CallHistoryScreen} />
+      <CustomersStack.Screen name="AppLockSettings" component={AppLockSettingsScreen} />
+      <CustomersStack.Screen name="Sessions" component={SessionsScreen} />
     </CustomersStack.Navigator>
   );
 };
 
+// Goal streaks and notifications stay current for the whole patient session,
+// not only once the Health tab has been opened
+const HealthGoalTracking: React.FC<{ userId: string }> = ({ userId }) => {
+  useHealthGoalTracking(userId);
+  return null;
+};
+
 const HealthStackNavigator: React.FC = () => {
   return (
     <HealthStack.Navigator screenOptions={{ headerShown: false }}>
       <HealthStack.Screen name="HealthDashboard" component={SimpleStepsDashboard} />
+      <HealthStack.Screen name="HealthGoals" component={HealthGoalsScreen} />
+      <HealthStack.Screen name="HealthMetricDetail" component={HealthMetricDetailScreen} />
     </HealthStack.Navigator>
   );
 };
 
+const AppointmentsStackNavigator: React.FC = () => {
+  return (
+    <AppointmentsStack.Navigator screenOptions={{ headerShown: false }}>
+      <AppointmentsStack.Screen name="AppointmentsList" component={AppointmentsScreen} />
+      <AppointmentsStack.Screen name="AppointmentDetails" component={AppointmentDetailsScreen} />
+      <AppointmentsStack.Screen
+        name="RescheduleAppointment"
+        component={RescheduleAppointmentScreen}
+      />
+    </AppointmentsStack.Navigator>
+  );
+};
+
+const ChatStackNavigator: React.FC = () => {
+  return (
+    <ChatStack.Navigator screenOptions={{ headerShown: false }}>
+      <ChatStack.Screen name="ChatList" component={ChatListScreen} />
+      <ChatStack.Screen name="ChatRoom" component={ChatRoomScreen} />
+    </ChatStack.Navigator>
+  );
+};
+
 const MainNavigator: React.FC = () => {
   const insets = useSafeAreaInsets();
   const { user } = useSelector((state: RootState) => state.auth);
   const isDoctor = user?.accountType === 'health_specialist';
+  const unreadChats = useSelector(selectTotalUnreadChats);
+
+  // Queued chat messages are retried app-wide, not only while a chat screen is open
+  useChatOutboxSync(!!user);
+  useHealthUploadQueueSync(user ? String(user.id) : null);
+  // Also pulls calls that rang while the app was closed, for the missed-call badge
+  const { missedCount: missedCalls } = useCallHistory(user ? String(user.id) : null);
 
   return (
-    <Tab.Navigator
-      screenOptions={({ route }) => ({
-        tabBarIcon: ({ focused, color, size }) => {
-          let iconName: keyof typeof Ionicons.glyphMap;
-
-          switch (route.name) {
-            case 'Doctors':
-              iconName = focused ? 'medical' : 'medical-outline';
-              break;
-            case 'Customers':
-              iconName = focused ? 'people' : 'people-outline';
-              break;
-            case 'Health':
-              iconName = focused ? 'fitness' : 'fitness-outline';
-              break;
-            case 'PublicRoom':
-              iconName = focused ? 'globe' : 'globe-outline';
-              break;
-            default:
-              iconName = 'ellipse-outline';
-          }
-
-          return <Ionicons name={iconName} size={size} color={color} />;
-        },
-        tabBarActiveTintColor: COLORS.PRIMARY,
-        tabBarInactiveTintColor: 'rgba(255, 255, 255, 0.6)',
-        tabBarStyle: (() => {
-          // Get the currently focused route name from the nested navigator
-          const routeName = getFocusedRouteNameFromRoute(route) ?? 'DoctorsList';
-
-          // Top-level screens that should show the tab bar
-          const topLevelScreens = ['DoctorsList', 'CustomersList', 'HealthDashboard', 'PublicRoom'];
-          const shouldShowTabBar = topLevelScreens.includes(routeName);
-
-          if (shouldShowTabBar) {
+    <>
+      {user && !isDoctor && <HealthGoalTracking userId={String(user.id)} />}
+      <Tab.Navigator
+        screenOptions={({ route }) => ({
+          tabBarIcon: ({ focused, color, size }) => {
+            let iconName: keyof typeof Ionicons.glyphMap;
+
+            switch (route.name) {
+              case 'Doctors':
+                iconName = focused ? 'medical' : 'medical-outline';
+                break;
+              case 'Customers':
+                iconName = focused ? 'people' : 'people-outline';
+                break;
+              case 'Appointments':
+                iconName = focused ? 'calendar' : 'calendar-outline';
+                break;
+              case 'Chat':
+                iconName = focused ? 'chatbubbles' : 'chatbubbles-outline';
+                break;
+              case 'Health':
+                iconName = focused ? 'fitness' : 'fitness-outline';
+                break;
+              case 'PublicRoom':
+                iconName = focused ? 'globe' : 'globe-outline';
+                break;
+              default:
+                iconName = 'ellipse-outline';
+            }
+
+            return <Ionicons name={iconName} size={size} color={color} />;
+          },
+          tabBarActiveTintColor: COLORS.PRIMARY,
+          tabBarInactiveTintColor: 'rgba(255, 255, 255, 0.6)',
+          tabBarStyle: (() => {
+            // Get the currently focused route name from the nested navigator
+            const routeName = getFocusedRouteNameFromRoute(route) ?? 'DoctorsList';
+
+            // Top-level screens that should show the tab bar
+            const topLevelScreens = [
+              'DoctorsList',
+              'CustomersList',
+              'AppointmentsList',
+              'ChatList',
+              'HealthDashboard',
+              'PublicRoom',
+            ];
+            const shouldShowTabBar = topLevelScreens.includes(routeName);
+
+            if (shouldShowTabBar) {
+              return {
+                backgroundColor: COLORS.GLASS_BG,
+                borderTopWidth: 1,
+                borderTopColor: COLORS.GLASS_BORDER_LIGHT,
+                position: 'absolute' as const,
+                bottom: 0,
+                left: 0,
+                right: 0,
+                elevation: 0,
+                shadowOpacity: 0,
+                paddingBottom: Math.max(insets.bottom, Platform.OS === 'ios' ? 20 : 8),
+                paddingTop: 8,
+                height:
+                  (Platform.OS === 'ios' ? 68 : 60) +
+                  Math.max(insets.bottom, Platform.OS === 'ios' ? 20 : 8),
+              };
+            }
+
             return {
-              backgroundColor: COLORS.GLASS_BG,
-              borderTopWidth: 1,
-              borderTopColor: COLORS.GLASS_BORDER_LIGHT,
-              position: 'absolute' as const,
-              bottom: 0,
-              left: 0,
-              right: 0,
-              elevation: 0,
-              shadowOpacity: 0,
-              paddingBottom: Math.max(insets.bottom, Platform.OS === 'ios' ? 20 : 8),
-              paddingTop: 8,
-              height:
-                (Platform.OS === 'ios' ? 68 : 60) +
-                Math.max(insets.bottom, Platform.OS === 'ios' ? 20 : 8),
+              display: 'none' as const,
             };
-          }
-
-          return {
-            display: 'none' as const,
-          };
-        })(),
-        tabBarLabelStyle: {
-          fontSize: 12,
-          fontWeight: '500',
-        },
-        headerShown: false,
-        tabBarHideOnKeyboard: true,
-        tabBarVisibilityAnimationConfig: {
-          show: {
-            animation: 'timing',
-            config: {
-              duration: 200,
-            },
+          })(),
+          tabBarLabelStyle: {
+            fontSize: 12,
+            fontWeight: '500',
           },
-          hide: {
-            animation: 'timing',
-            config: {
-              duration: 200,
+          headerShown: false,
+          tabBarHideOnKeyboard: true,
+          tabBarVisibilityAnimationConfig: {
+            show: {
+              animation: 'timing',
+              config: {
+                duration: 200,
+              },
             },
+            hide: {
+              animation: 'timing',
+              config: {
+                duration: 200,
+              },
+            },
+          },
+        })}
+        screenListeners={{
+          state: () => {
+            // Add haptic feedback for tab switches
+            if (Platform.OS === 'ios') {
+              Haptics.selectionAsync().catch(() => {
+                // Haptic feedback failed, continue silently
+              });
+            }
           },
-        },
-      })}
-      screenListeners={{
-        state: () => {
-          // Add haptic feedback for tab switches
-          if (Platform.OS === 'ios') {
-            Haptics.selectionAsync().catch(() => {
-              // Haptic feedback failed, continue silently
-            });
-          }
-        },
-      }}
-    >
-      {isDoctor ? (
-        <>
-          <Tab.Screen
-            name="Customers"
-            component={CustomersStackNavigator}
-            options={{
-              tabBarLabel: 'Patients',
-            }}
-          />
-        </>
-      ) : (
-        <>
-          <Tab.Screen
-            name="Doctors"
-            component={DoctorsStackNavigator}
-            options={{
-              tabBarLabel: 'Doctors',
-            }}
-          />
-          <Tab.Screen name="Health" component={HealthStackNavigator} />
-        </>
-      )}
-    </Tab.Navigator>
+        }}
+      >
+        {isDoctor ? (
+          <>
+            <Tab.Screen
+              name="Customers"
+              component={CustomersStackNavigator}
+              options={{
+                tabBarLabel: 'Patients',
+                tabBarBadge: missedCalls > 0 ? missedCalls : undefined,
+              }}
+            />
+            <Tab.Screen name="Appointments" component={AppointmentsStackNavigator} />
+            <Tab.Screen
+              name="Chat"
+              component={ChatStackNavigator}
+              options={{
+                tabBarLabel: 'Messages',
+                tabBarBadge: unreadChats > 0 ? unreadChats : undefined,
+              }}
+            />
+          </>
+        ) : (
+          <>
+            <Tab.Screen
+              name="Doctors"
+              component={DoctorsStackNavigator}
+              options={{
+                tabBarLabel: 'Doctors',
+                tabBarBadge: missedCalls > 0 ? missedCalls : undefined,
+              }}
+            />
+            <Tab.Screen name="Appointments" component={AppointmentsStackNavigator} />
+            <Tab.Screen
+              name="Chat"
+              component={ChatStackNavigator}
+              options={{
+                tabBarLabel: 'Messages',
+                tabBarBadge: unreadChats > 0 ? unreadChats : undefined,
+              }}
+            />
+            <Tab.Screen name="Health" component={HealthStackNavigator} />
+          </>
+        )}
+      </Tab.Navigator>
+    </>
   );
 };
 
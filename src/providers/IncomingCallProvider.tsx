@@ -18,7 +18,6 @@ import React, { useEffect, useState, PropsWithChildren } from 'react';
 import { useNavigation } from '@react-navigation/native';
 import IncomingCallManager, { type IncomingCallData } from '../services/IncomingCallManager';
 import CallNavigationManager from '../services/CallNavigationManager';
-import { VIDEO_CALL_CONFIG } from '../config/videoCallConfig';
 import ForegroundCallService from '../services/ForegroundCallService';
 
 export function IncomingCallProvider({ children }: PropsWithChildren) {
@@ -62,7 +61,8 @@ export function IncomingCallProvider({ children }: PropsWithChildren) {
         callData.metadata || {},
         callData.callerName,
         callData.callerType,
-        callData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+        callData.roomUrl,
+        callData.callId
       );
 
       // Navigate to appropriate details screen
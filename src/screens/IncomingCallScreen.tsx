@@ -11,7 +11,7 @@
  * - Caller information display
  */
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -27,15 +27,16 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { LinearGradient } from 'expo-linear-gradient';
 
+import CallLifecycleManager from '../services/CallLifecycleManager';
 import IncomingCallActivityLauncher from '../services/IncomingCallActivityLauncher';
 import type { IncomingCallData } from '../services/IncomingCallActivityLauncher';
 import CallNavigationManager from '../services/CallNavigationManager';
 import CallNotificationManager from '../services/CallNotificationManager';
-import { VIDEO_CALL_CONFIG } from '../config/videoCallConfig';
 
 type IncomingCallScreenParams = {
   IncomingCall: {
     callData?: IncomingCallData;
+    autoAnswer?: boolean; // Answered from the notification's action button
   };
 };
 
@@ -96,11 +97,16 @@ const IncomingCallScreen: React.FC = () => {
   }, []);
 
   // Handle answer call
-  const handleAnswer = useCallback(() => {
+  const handleAnswer = useCallback(async () => {
     if (!callData) return;
 
     console.log('✅ User answered incoming call from screen');
 
+    // Stops the local ring timeout and tells the caller the call was picked up
+    if (callData.callId) {
+      await CallLifecycleManager.getInstance().answerCall(callData.callId);
+    }
+
     // Register call session with navigation manager
     CallNavigationManager.getInstance().startCallSession(
       callData.callType,
@@ -108,7 +114,8 @@ const IncomingCallScreen: React.FC = () => {
       callData.metadata || {},
       callData.callerName,
       callData.callerType,
-      callData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+      callData.roomUrl,
+      callData.callId
     );
 
     // Navigate to appropriate details screen with restoreCall flag
@@ -161,11 +168,15 @@ const IncomingCallScreen: React.FC = () => {
   }, [callData, navigation]);
 
   // Handle decline call
-  const handleDecline = useCallback(() => {
+  const handleDecline = useCallback(async () => {
     if (!callData) return;
 
     console.log('❌ User declined incoming call from screen');
 
+    if (callData.callId) {
+      await CallLifecycleManager.getInstance().declineCall(callData.callId);
+    }
+
     // ✅ Trigger decline callback
     IncomingCallActivityLauncher.getInstance().handleDecline();
 
@@ -181,6 +192,15 @@ const IncomingCallScreen: React.FC = () => {
     navigation.goBack();
   }, [callData, navigation]);
 
+  // ✅ Answer once when opened from the notification's Answer action
+  const autoAnsweredRef = useRef(false);
+  useEffect(() => {
+    if (route.params?.autoAnswer && callData && !autoAnsweredRef.current) {
+      autoAnsweredRef.current = true;
+      handleAnswer();
+    }
+  }, [route.params?.autoAnswer, callData, handleAnswer]);
+
   // ✅ Handle no call data gracefully
   if (!callData) {
     useEffect(() => {
@@ -0,0 +1,538 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import {
+  AdaptiveCard,
+  AdaptiveTouchableOpacity,
+} from '../../components/adaptive/AdaptiveComponents';
+import {
+  APPOINTMENT_TYPE_LABELS,
+  AppointmentStatusBadge,
+  getAppointmentCounterpartName,
+} from '../../components/appointments/AppointmentStatusBadge';
+import { CancelAppointmentModal } from '../../components/appointments/CancelAppointmentModal';
+import { COLORS } from '../../constants';
+import appointmentService from '../../services/appointmentService';
+import type { AppDispatch, RootState } from '../../store';
+import {
+  selectAppointmentById,
+  selectAppointmentsLoading,
+} from '../../store/selectors/appointmentsSelectors';
+import { selectUser } from '../../store/selectors/authSelectors';
+import {
+  cancelAppointment,
+  confirmAppointment,
+  fetchAppointmentById,
+  markAppointmentNoShow,
+} from '../../store/slices/appointmentsSlice';
+import { openAppointmentChat } from '../../store/slices/chatSlice';
+import type { AppointmentRecording, AppointmentsStackParamList } from '../../types';
+
+type AppointmentDetailsRoute = RouteProp<AppointmentsStackParamList, 'AppointmentDetails'>;
+
+const RECORDING_STATUS_LABELS: Record<AppointmentRecording['status'], string> = {
+  processing: 'Processing',
+  available: 'Available',
+  failed: 'Failed',
+};
+
+const formatRecordingDuration = (seconds?: number) =>
+  seconds ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : null;
+
+const AppointmentDetailsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<AppointmentDetailsRoute>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { appointmentId } = route.params;
+
+  const user = useSelector(selectUser);
+  const isDoctor = user?.accountType === 'health_specialist';
+  const appointment = useSelector((state: RootState) =>
+    selectAppointmentById(state, appointmentId)
+  );
+  const isLoading = useSelector(selectAppointmentsLoading);
+
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [recordings, setRecordings] = useState<AppointmentRecording[]>([]);
+
+  useEffect(() => {
+    dispatch(fetchAppointmentById(appointmentId));
+  }, [dispatch, appointmentId]);
+
+  // Consultation recordings are only made on video appointments
+  const isVideoAppointment = appointment?.type === 'video_call';
+  useEffect(() => {
+    if (!isVideoAppointment) return;
+
+    let cancelled = false;
+    appointmentService
+      .getAppointmentRecordings(appointmentId)
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setRecordings(response.data);
+        }
+      })
+      .catch(error => console.warn('⚠️ Failed to load appointment recordings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, isVideoAppointment]);
+
+  const handleOpenRecording = useCallback(async (recording: AppointmentRecording) => {
+    if (recording.status !== 'available' || !recording.download_url) return;
+    try {
+      await Linking.openURL(recording.download_url);
+    } catch {
+      Alert.alert('Error', 'Could not open the recording');
+    }
+  }, []);
+
+  const runAction = useCallback(async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      Alert.alert('Done', successMessage);
+    } catch (error: any) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, []);
+
+  const handleCancelConfirm = useCallback(
+    async (reason: string) => {
+      await runAction(
+        () => dispatch(cancelAppointment({ appointmentId, reason })).unwrap(),
+        'The appointment has been cancelled.'
+      );
+      setShowCancelModal(false);
+    },
+    [dispatch, appointmentId, runAction]
+  );
+
+  const handleConfirm = useCallback(() => {
+    runAction(
+      () => dispatch(confirmAppointment(appointmentId)).unwrap(),
+      'The appointment has been confirmed.'
+    );
+  }, [dispatch, appointmentId, runAction]);
+
+  const handleNoShow = useCallback(() => {
+    Alert.alert('Mark as no-show', 'Confirm that the patient did not attend this appointment.', [
+      { text: 'Back', style: 'cancel' },
+      {
+        text: 'Mark no-show',
+        style: 'destructive',
+        onPress: () =>
+          runAction(
+            () => dispatch(markAppointmentNoShow(appointmentId)).unwrap(),
+            'The appointment has been marked as no-show.'
+          ),
+      },
+    ]);
+  }, [dispatch, appointmentId, runAction]);
+
+  const handleReschedule = useCallback(() => {
+    navigation.navigate('RescheduleAppointment', { appointmentId });
+  }, [navigation, appointmentId]);
+
+  const handleMessage = useCallback(async () => {
+    setIsSubmitting(true);
+    try {
+      const room = await dispatch(openAppointmentChat(appointmentId)).unwrap();
+      navigation.navigate('Chat', {
+        screen: 'ChatRoom',
+        params: { chatId: room.chatId, appointmentId },
+      });
+    } catch (error: any) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Could not open the conversation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [dispatch, navigation, appointmentId]);
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <AdaptiveTouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.goBack()}
+        enableHaptics
+        hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+        accessibilityRole="button"
+        accessibilityLabel="Go back"
+      >
+        <Ionicons name="arrow-back" size={24} color={COLORS.WHITE} />
+      </AdaptiveTouchableOpacity>
+      <Text style={styles.headerTitle}>Appointment</Text>
+      <View style={styles.placeholder} />
+    </View>
+  );
+
+  if (!appointment) {
+    return (
+      <LinearGradient
+        colors={COLORS.BRAND_GRADIENT}
+        locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+        start={COLORS.BRAND_GRADIENT_START}
+        style={styles.container}
+      >
+        {renderHeader()}
+        <View style={styles.centered}>
+          {isLoading ? (
+            <ActivityIndicator color={COLORS.PRIMARY} size="large" />
+          ) : (
+            <Text style={styles.mutedText}>Appointment not found</Text>
+          )}
+        </View>
+      </LinearGradient>
+    );
+  }
+
+  const date = new Date(appointment.appointment_date);
+  const isActive = appointment.status === 'scheduled' || appointment.status === 'confirmed';
+  const hasStarted = date.getTime() <= Date.now();
+  const canReschedule = isActive && !hasStarted && !isDoctor;
+  const canCancel = isActive && !hasStarted;
+  const canConfirm = isDoctor && appointment.status === 'scheduled' && !hasStarted;
+  const canMarkNoShow = isDoctor && isActive && hasStarted;
+  const canMessage = appointment.status !== 'cancelled';
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      {renderHeader()}
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.counterpartName}>
+            {getAppointmentCounterpartName(appointment, isDoctor)}
+          </Text>
+          {!isDoctor && appointment.doctor?.specialties?.length > 0 && (
+            <Text style={styles.mutedText}>
+              {appointment.doctor.specialties.map(specialty => specialty.name).join(', ')}
+            </Text>
+          )}
+          <View style={styles.badgeRow}>
+            <AppointmentStatusBadge status={appointment.status} />
+          </View>
+
+          <View style={styles.infoRow}>
+            <Ionicons name="calendar-outline" size={18} color={COLORS.PRIMARY} />
+            <Text style={styles.infoText}>{format(date, 'EEEE d MMMM yyyy')}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Ionicons name="time-outline" size={18} color={COLORS.PRIMARY} />
+            <Text style={styles.infoText}>
+              {format(date, 'HH:mm')} · {appointment.duration_minutes} min
+            </Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Ionicons name="videocam-outline" size={18} color={COLORS.PRIMARY} />
+            <Text style={styles.infoText}>{APPOINTMENT_TYPE_LABELS[appointment.type]}</Text>
+          </View>
+          {appointment.hospital && (
+            <View style={styles.infoRow}>
+              <Ionicons name="business-outline" size={18} color={COLORS.PRIMARY} />
+              <Text style={styles.infoText}>{appointment.hospital.name}</Text>
+            </View>
+          )}
+          <View style={styles.infoRow}>
+            <Ionicons name="card-outline" size={18} color={COLORS.PRIMARY} />
+            <Text style={styles.infoText}>${appointment.fee}</Text>
+          </View>
+        </AdaptiveCard>
+
+        {(appointment.symptoms || appointment.notes || appointment.cancellation_reason) && (
+          <AdaptiveCard style={styles.card}>
+            {appointment.symptoms && (
+              <>
+                <Text style={styles.sectionTitle}>Symptoms</Text>
+                <Text style={styles.bodyText}>{appointment.symptoms}</Text>
+              </>
+            )}
+            {appointment.notes && (
+              <>
+                <Text style={styles.sectionTitle}>Notes</Text>
+                <Text style={styles.bodyText}>{appointment.notes}</Text>
+              </>
+            )}
+            {appointment.cancellation_reason && (
+              <>
+                <Text style={styles.sectionTitle}>Cancellation reason</Text>
+                <Text style={styles.bodyText}>{appointment.cancellation_reason}</Text>
+              </>
+            )}
+          </AdaptiveCard>
+        )}
+
+        {recordings.length > 0 && (
+          <AdaptiveCard style={styles.card}>
+            <Text style={styles.sectionTitle}>Recordings</Text>
+            {recordings.map(recording => {
+              const duration = formatRecordingDuration(recording.duration_seconds);
+              const isAvailable = recording.status === 'available' && !!recording.download_url;
+              return (
+                <AdaptiveTouchableOpacity
+                  key={recording.recording_id}
+                  style={styles.recordingRow}
+                  onPress={() => handleOpenRecording(recording)}
+                  disabled={!isAvailable}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Recording from ${format(new Date(recording.started_at), 'HH:mm')}`}
+                >
+                  <Ionicons
+                    name={isAvailable ? 'play-circle-outline' : 'hourglass-outline'}
+                    size={22}
+                    color={COLORS.PRIMARY}
+                  />
+                  <View style={styles.recordingInfo}>
+                    <Text style={styles.infoText}>
+                      {format(new Date(recording.started_at), 'd MMM yyyy, HH:mm')}
+                      {duration ? ` · ${duration}` : ''}
+                    </Text>
+                    {!isAvailable && (
+                      <Text style={styles.mutedText}>
+                        {RECORDING_STATUS_LABELS[recording.status]}
+                      </Text>
+                    )}
+                  </View>
+                </AdaptiveTouchableOpacity>
+              );
+            })}
+          </AdaptiveCard>
+        )}
+
+        <View style={styles.actions}>
+          {canConfirm && (
+            <AdaptiveTouchableOpacity
+              style={styles.primaryButton}
+              onPress={handleConfirm}
+              disabled={isSubmitting}
+              enableHaptics
+            >
+              <Ionicons name="checkmark-circle-outline" size={20} color={COLORS.TEXT_DARK} />
+              <Text style={styles.primaryButtonText}>Confirm appointment</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+          {canMessage && (
+            <AdaptiveTouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleMessage}
+              disabled={isSubmitting}
+              enableHaptics
+            >
+              <Ionicons name="chatbubbles-outline" size={20} color={COLORS.WHITE} />
+              <Text style={styles.secondaryButtonText}>
+                {isDoctor ? 'Message patient' : 'Message doctor'}
+              </Text>
+            </AdaptiveTouchableOpacity>
+          )}
+          {canReschedule && (
+            <AdaptiveTouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleReschedule}
+              disabled={isSubmitting}
+              enableHaptics
+            >
+              <Ionicons name="swap-horizontal-outline" size={20} color={COLORS.WHITE} />
+              <Text style={styles.secondaryButtonText}>Reschedule</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+          {canMarkNoShow && (
+            <AdaptiveTouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleNoShow}
+              disabled={isSubmitting}
+              enableHaptics
+            >
+              <Ionicons name="person-remove-outline" size={20} color={COLORS.WHITE} />
+              <Text style={styles.secondaryButtonText}>Mark as no-show</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+          {canCancel && (
+            <AdaptiveTouchableOpacity
+              style={styles.dangerButton}
+              onPress={() => setShowCancelModal(true)}
+              disabled={isSubmitting}
+              enableHaptics
+            >
+              <Ionicons name="close-circle-outline" size={20} color={COLORS.WHITE} />
+              <Text style={styles.secondaryButtonText}>Cancel appointment</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+
+      <CancelAppointmentModal
+        visible={showCancelModal}
+        isSubmitting={isSubmitting}
+        onConfirm={handleCancelConfirm}
+        onDismiss={() => setShowCancelModal(false)}
+      />
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 24,
+    padding: 12,
+    minWidth: 48,
+    minHeight: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  placeholder: {
+    width: 48,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  contentContainer: {
+    paddingBottom: 120,
+  },
+  card: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER_LIGHT,
+  },
+  counterpartName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  badgeRow: {
+    marginTop: 10,
+    marginBottom: 12,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  infoText: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+    marginLeft: 10,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  bodyText: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+    lineHeight: 21,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  recordingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  recordingInfo: {
+    flex: 1,
+  },
+  actions: {
+    marginTop: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.PRIMARY,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.BUTTON_SEMI_TRANSPARENT,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: COLORS.WHITE,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  dangerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.ERROR,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+});
+
+export default AppointmentDetailsScreen;
@@ -0,0 +1,354 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { format } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useState } from 'react';
+import { RefreshControl, StyleSheet, Text, View } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import {
+  AdaptiveAnimatedView,
+  AdaptiveCard,
+  AdaptiveFlatList,
+  AdaptiveTouchableOpacity,
+  useAdaptiveTheme,
+} from '../../components/adaptive/AdaptiveComponents';
+import {
+  APPOINTMENT_TYPE_LABELS,
+  AppointmentStatusBadge,
+  getAppointmentCounterpartName,
+} from '../../components/appointments/AppointmentStatusBadge';
+import { DoctorSkeleton, ShimmerProvider } from '../../components/common/SkeletonLoader';
+import { COLORS } from '../../constants';
+import type { AppDispatch } from '../../store';
+import {
+  selectAppointmentsError,
+  selectAppointmentsLoading,
+  selectPastAppointments,
+  selectUpcomingAppointmentsList,
+} from '../../store/selectors/appointmentsSelectors';
+import { selectUser } from '../../store/selectors/authSelectors';
+import { fetchMyAppointments, setSelectedAppointment } from '../../store/slices/appointmentsSlice';
+import type { Appointment } from '../../types';
+
+type AppointmentsTab = 'upcoming' | 'past';
+
+const AppointmentsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const dispatch = useDispatch<AppDispatch>();
+  const user = useSelector(selectUser);
+  const isDoctor = user?.accountType === 'health_specialist';
+
+  const upcoming = useSelector(selectUpcomingAppointmentsList);
+  const past = useSelector(selectPastAppointments);
+  const isLoading = useSelector(selectAppointmentsLoading);
+  const error = useSelector(selectAppointmentsError);
+
+  const [activeTab, setActiveTab] = useState<AppointmentsTab>('upcoming');
+  const [refreshing, setRefreshing] = useState(false);
+  const { isLowEndDevice } = useAdaptiveTheme();
+
+  const loadAppointments = useCallback(() => {
+    return dispatch(fetchMyAppointments({ limit: 100, sortBy: 'appointment_date' }));
+  }, [dispatch]);
+
+  // Refresh whenever the tab regains focus so changes made in details are reflected
+  useFocusEffect(
+    useCallback(() => {
+      loadAppointments();
+    }, [loadAppointments])
+  );
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadAppointments();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadAppointments]);
+
+  const handleAppointmentPress = useCallback(
+    (appointment: Appointment) => {
+      dispatch(setSelectedAppointment(appointment));
+      navigation.navigate('AppointmentDetails', { appointmentId: appointment.appointment_id });
+    },
+    [dispatch, navigation]
+  );
+
+  const renderAppointmentItem = useCallback(
+    ({ item, index }: { item: Appointment; index: number }) => {
+      const date = new Date(item.appointment_date);
+      return (
+        <AdaptiveAnimatedView
+          animationType={isLowEndDevice ? 'none' : 'fadeIn'}
+          delay={isLowEndDevice ? 0 : Math.min(index * 30, 300)}
+          style={styles.cardContainer}
+        >
+          <AdaptiveCard style={styles.card} onPress={() => handleAppointmentPress(item)}>
+            <View style={styles.cardRow}>
+              <View style={styles.dateBlock}>
+                <Text style={styles.dateMonth}>{format(date, 'MMM')}</Text>
+                <Text style={styles.dateDay}>{format(date, 'd')}</Text>
+                <Text style={styles.dateTime}>{format(date, 'HH:mm')}</Text>
+              </View>
+              <View style={styles.cardDetails}>
+                <Text style={styles.counterpartName} numberOfLines={1}>
+                  {getAppointmentCounterpartName(item, isDoctor)}
+                </Text>
+                <Text style={styles.typeText}>
+                  {APPOINTMENT_TYPE_LABELS[item.type]} · {item.duration_minutes} min
+                </Text>
+                <AppointmentStatusBadge status={item.status} />
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.TEXT_SECONDARY} />
+            </View>
+          </AdaptiveCard>
+        </AdaptiveAnimatedView>
+      );
+    },
+    [handleAppointmentPress, isDoctor, isLowEndDevice]
+  );
+
+  const data = activeTab === 'upcoming' ? upcoming : past;
+  const hasData = upcoming.length > 0 || past.length > 0;
+
+  const renderEmpty = () => {
+    if (isLoading && !hasData) {
+      return (
+        <ShimmerProvider>
+          <View style={styles.skeletonContainer}>
+            {Array.from({ length: isLowEndDevice ? 2 : 4 }, (_, index) => (
+              <DoctorSkeleton key={`skeleton-${index}`} />
+            ))}
+          </View>
+        </ShimmerProvider>
+      );
+    }
+
+    if (error && !hasData) {
+      return (
+        <AdaptiveAnimatedView animationType="fadeIn" style={styles.emptyContainer}>
+          <Ionicons name="warning-outline" size={48} color={COLORS.ERROR} />
+          <Text style={styles.errorText}>Failed to load appointments</Text>
+          <Text style={styles.emptySubtext}>{error}</Text>
+          <AdaptiveTouchableOpacity style={styles.retryButton} onPress={loadAppointments}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </AdaptiveTouchableOpacity>
+        </AdaptiveAnimatedView>
+      );
+    }
+
+    return (
+      <AdaptiveAnimatedView animationType="fadeIn" style={styles.emptyContainer}>
+        <Ionicons name="calendar-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyText}>
+          {activeTab === 'upcoming' ? 'No upcoming appointments' : 'No past appointments'}
+        </Text>
+        {activeTab === 'upcoming' && !isDoctor && (
+          <Text style={styles.emptySubtext}>Book a consultation from a doctor's profile</Text>
+        )}
+      </AdaptiveAnimatedView>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Appointments</Text>
+        <Text style={styles.headerSubtitle}>
+          {isDoctor ? 'Your consultations with patients' : 'Your upcoming and past consultations'}
+        </Text>
+
+        <View style={styles.tabs}>
+          {(['upcoming', 'past'] as AppointmentsTab[]).map(tab => {
+            const isActive = tab === activeTab;
+            const count = tab === 'upcoming' ? upcoming.length : past.length;
+            return (
+              <AdaptiveTouchableOpacity
+                key={tab}
+                style={[styles.tab, isActive && styles.tabActive]}
+                onPress={() => setActiveTab(tab)}
+                enableHaptics
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isActive }}
+              >
+                <Text style={[styles.tabText, isActive && styles.tabTextActive]}>
+                  {tab === 'upcoming' ? 'Upcoming' : 'Past'} ({count})
+                </Text>
+              </AdaptiveTouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <AdaptiveFlatList
+        data={data}
+        renderItem={renderAppointmentItem}
+        keyExtractor={item => String(item.appointment_id)}
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[COLORS.SECONDARY]}
+            tintColor={COLORS.SECONDARY}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={renderEmpty()}
+      />
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+    marginBottom: 16,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.GLASS_BG,
+    borderRadius: 12,
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  tabTextActive: {
+    color: COLORS.TEXT_DARK,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 100,
+  },
+  cardContainer: {
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateBlock: {
+    width: 56,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: COLORS.GLASS_BG,
+    marginRight: 14,
+  },
+  dateMonth: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+  },
+  dateDay: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  dateTime: {
+    fontSize: 12,
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+  cardDetails: {
+    flex: 1,
+  },
+  counterpartName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  typeText: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  skeletonContainer: {
+    paddingTop: 20,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 4,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  errorText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.ERROR,
+    marginTop: 16,
+  },
+  retryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  retryButtonText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default AppointmentsScreen;
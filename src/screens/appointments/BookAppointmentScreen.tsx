@@ -0,0 +1,311 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import { format, parseISO } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useDispatch } from 'react-redux';
+
+import {
+  AdaptiveCard,
+  AdaptiveTouchableOpacity,
+} from '../../components/adaptive/AdaptiveComponents';
+import { AppointmentSlotPicker } from '../../components/appointments/AppointmentSlotPicker';
+import { APPOINTMENT_TYPE_LABELS } from '../../components/appointments/AppointmentStatusBadge';
+import { COLORS, SUCCESS_MESSAGES } from '../../constants';
+import { useAvailableSlots } from '../../hooks/useAvailableSlots';
+import type { AppDispatch } from '../../store';
+import { createAppointment } from '../../store/slices/appointmentsSlice';
+import type { CreateAppointmentRequest, DoctorsStackParamList } from '../../types';
+
+type BookAppointmentRoute = RouteProp<DoctorsStackParamList, 'BookAppointment'>;
+
+const CONSULTATION_DURATION_MINUTES = 30;
+const BOOKABLE_TYPES: CreateAppointmentRequest['type'][] = ['video_call', 'in_person'];
+
+const BookAppointmentScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<BookAppointmentRoute>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { doctorId, doctorName, consultationFee } = route.params;
+
+  const [appointmentType, setAppointmentType] =
+    useState<CreateAppointmentRequest['type']>('video_call');
+  const [symptoms, setSymptoms] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    slotsByDate,
+    isLoading,
+    error,
+    selectedDate,
+    selectedSlot,
+    selectedDateTime,
+    selectDate,
+    selectSlot,
+    reload,
+  } = useAvailableSlots({ doctorId, durationMinutes: CONSULTATION_DURATION_MINUTES });
+
+  const handleBook = useCallback(async () => {
+    if (!selectedDateTime) return;
+    setIsSubmitting(true);
+    try {
+      const appointment = await dispatch(
+        createAppointment({
+          doctor_id: doctorId,
+          appointment_date: selectedDateTime,
+          duration_minutes: CONSULTATION_DURATION_MINUTES,
+          type: appointmentType,
+          symptoms: symptoms.trim() || undefined,
+        })
+      ).unwrap();
+
+      Alert.alert('Booked', SUCCESS_MESSAGES.APPOINTMENT_BOOKED, [
+        {
+          text: 'View appointment',
+          onPress: () =>
+            navigation.navigate('Appointments', {
+              screen: 'AppointmentDetails',
+              params: { appointmentId: appointment.appointment_id },
+            }),
+        },
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (bookingError: any) {
+      Alert.alert(
+        'Booking failed',
+        typeof bookingError === 'string' ? bookingError : 'Unable to book this time slot.'
+      );
+      // The slot may have been taken in the meantime
+      reload();
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [dispatch, doctorId, selectedDateTime, appointmentType, symptoms, navigation, reload]);
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          enableHaptics
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color={COLORS.WHITE} />
+        </AdaptiveTouchableOpacity>
+        <Text style={styles.headerTitle}>Book Appointment</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.doctorName}>Dr. {doctorName}</Text>
+          {consultationFee !== undefined && (
+            <Text style={styles.mutedText}>Consultation fee: ${consultationFee}</Text>
+          )}
+        </AdaptiveCard>
+
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.sectionTitle}>Consultation type</Text>
+          <View style={styles.typeRow}>
+            {BOOKABLE_TYPES.map(type => {
+              const isSelected = type === appointmentType;
+              return (
+                <AdaptiveTouchableOpacity
+                  key={type}
+                  style={[styles.typeChip, isSelected && styles.typeChipSelected]}
+                  onPress={() => setAppointmentType(type)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={[styles.typeText, isSelected && styles.typeTextSelected]}>
+                    {APPOINTMENT_TYPE_LABELS[type]}
+                  </Text>
+                </AdaptiveTouchableOpacity>
+              );
+            })}
+          </View>
+        </AdaptiveCard>
+
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.sectionTitle}>Choose a time</Text>
+          <AppointmentSlotPicker
+            slotsByDate={slotsByDate}
+            selectedDate={selectedDate}
+            selectedSlot={selectedSlot}
+            onSelectDate={selectDate}
+            onSelectSlot={selectSlot}
+            isLoading={isLoading}
+            error={error}
+            onRetry={reload}
+          />
+        </AdaptiveCard>
+
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.sectionTitle}>Symptoms (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={symptoms}
+            onChangeText={setSymptoms}
+            placeholder="Briefly describe what you would like to discuss"
+            placeholderTextColor={COLORS.TEXT_PLACEHOLDER}
+            multiline
+            maxLength={1000}
+          />
+        </AdaptiveCard>
+
+        <AdaptiveTouchableOpacity
+          style={[styles.bookButton, (!selectedDateTime || isSubmitting) && styles.disabled]}
+          onPress={handleBook}
+          disabled={!selectedDateTime || isSubmitting}
+          enableHaptics
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color={COLORS.TEXT_DARK} />
+          ) : (
+            <Text style={styles.bookButtonText}>
+              {selectedDateTime
+                ? `Book for ${format(parseISO(selectedDateTime), 'EEE d MMM, HH:mm')}`
+                : 'Select a time'}
+            </Text>
+          )}
+        </AdaptiveTouchableOpacity>
+      </ScrollView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 24,
+    padding: 12,
+    minWidth: 48,
+    minHeight: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  placeholder: {
+    width: 48,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  contentContainer: {
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER_LIGHT,
+  },
+  doctorName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  typeRow: {
+    flexDirection: 'row',
+  },
+  typeChip: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    marginRight: 8,
+  },
+  typeChipSelected: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  typeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  typeTextSelected: {
+    color: COLORS.TEXT_DARK,
+  },
+  input: {
+    minHeight: 90,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.INPUT_BG_PRIMARY,
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  bookButton: {
+    backgroundColor: COLORS.PRIMARY,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  bookButtonText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default BookAppointmentScreen;
@@ -0,0 +1,255 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import { format, parseISO } from 'date-fns';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import {
+  AdaptiveCard,
+  AdaptiveTouchableOpacity,
+} from '../../components/adaptive/AdaptiveComponents';
+import { AppointmentSlotPicker } from '../../components/appointments/AppointmentSlotPicker';
+import { COLORS } from '../../constants';
+import { useAvailableSlots } from '../../hooks/useAvailableSlots';
+import type { AppDispatch, RootState } from '../../store';
+import { selectAppointmentById } from '../../store/selectors/appointmentsSelectors';
+import { rescheduleAppointment } from '../../store/slices/appointmentsSlice';
+import type { AppointmentsStackParamList } from '../../types';
+
+type RescheduleAppointmentRoute = RouteProp<AppointmentsStackParamList, 'RescheduleAppointment'>;
+
+const RescheduleAppointmentScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RescheduleAppointmentRoute>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { appointmentId } = route.params;
+  const appointment = useSelector((state: RootState) =>
+    selectAppointmentById(state, appointmentId)
+  );
+
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    slotsByDate,
+    isLoading,
+    error,
+    selectedDate,
+    selectedSlot,
+    selectedDateTime,
+    selectDate,
+    selectSlot,
+    reload,
+  } = useAvailableSlots({
+    doctorId: appointment?.doctor_id,
+    durationMinutes: appointment?.duration_minutes,
+  });
+
+  const handleReschedule = useCallback(async () => {
+    if (!selectedDateTime) return;
+    setIsSubmitting(true);
+    try {
+      await dispatch(
+        rescheduleAppointment({
+          appointmentId,
+          newDate: selectedDateTime,
+          reason: reason.trim() || undefined,
+        })
+      ).unwrap();
+      Alert.alert('Rescheduled', 'Your appointment has been moved.', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (rescheduleError: any) {
+      Alert.alert(
+        'Reschedule failed',
+        typeof rescheduleError === 'string' ? rescheduleError : 'Unable to move this appointment.'
+      );
+      reload();
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [dispatch, appointmentId, selectedDateTime, reason, navigation, reload]);
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          enableHaptics
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color={COLORS.WHITE} />
+        </AdaptiveTouchableOpacity>
+        <Text style={styles.headerTitle}>Reschedule</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {appointment && (
+          <AdaptiveCard style={styles.card}>
+            <Text style={styles.mutedText}>Currently booked for</Text>
+            <Text style={styles.currentDate}>
+              {format(new Date(appointment.appointment_date), 'EEEE d MMMM, HH:mm')}
+            </Text>
+          </AdaptiveCard>
+        )}
+
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.sectionTitle}>Choose a new time</Text>
+          <AppointmentSlotPicker
+            slotsByDate={slotsByDate}
+            selectedDate={selectedDate}
+            selectedSlot={selectedSlot}
+            onSelectDate={selectDate}
+            onSelectSlot={selectSlot}
+            isLoading={isLoading}
+            error={error}
+            onRetry={reload}
+          />
+        </AdaptiveCard>
+
+        <AdaptiveCard style={styles.card}>
+          <Text style={styles.sectionTitle}>Reason (optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Let your doctor know why"
+            placeholderTextColor={COLORS.TEXT_PLACEHOLDER}
+            multiline
+            maxLength={500}
+          />
+        </AdaptiveCard>
+
+        <AdaptiveTouchableOpacity
+          style={[styles.submitButton, (!selectedDateTime || isSubmitting) && styles.disabled]}
+          onPress={handleReschedule}
+          disabled={!selectedDateTime || isSubmitting}
+          enableHaptics
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color={COLORS.TEXT_DARK} />
+          ) : (
+            <Text style={styles.submitButtonText}>
+              {selectedDateTime
+                ? `Move to ${format(parseISO(selectedDateTime), 'EEE d MMM, HH:mm')}`
+                : 'Select a time'}
+            </Text>
+          )}
+        </AdaptiveTouchableOpacity>
+      </ScrollView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 24,
+    padding: 12,
+    minWidth: 48,
+    minHeight: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  placeholder: {
+    width: 48,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  contentContainer: {
+    paddingBottom: 60,
+  },
+  card: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER_LIGHT,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  currentDate: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 12,
+  },
+  input: {
+    minHeight: 72,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.INPUT_BG_PRIMARY,
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    backgroundColor: COLORS.PRIMARY,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default RescheduleAppointmentScreen;
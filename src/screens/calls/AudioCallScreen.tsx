@@ -22,11 +22,15 @@ import {
 } from 'react-native';
 
 import { useAdaptiveTheme } from '../../components/adaptive/AdaptiveComponents';
+import { ChatUnreadBadge, InCallChatDrawer } from '../../components/calls/InCallChatDrawer';
+import { LiveCaptions } from '../../components/calls/LiveCaptions';
 import PermissionGate from '../../components/permissions/PermissionGate';
 import { OFFICIAL_DAILY_CONFIG } from '../../config/dailyOfficialConfig';
 import { COLORS } from '../../constants';
 import DailyCallContext from '../../hooks/daily/DailyCallContext';
 import { useActiveSpeaker } from '../../hooks/daily/useActiveSpeaker';
+import { useCallCaptions } from '../../hooks/daily/useCallCaptions';
+import { useInCallChat } from '../../hooks/daily/useInCallChat';
 import { useOfficialCallControls } from '../../hooks/daily/useOfficialCallControls';
 import { useOfficialParticipants } from '../../hooks/daily/useOfficialParticipants';
 import { OfficialDailyCallManager } from '../../services/OfficialDailyCallManager';
@@ -67,8 +71,17 @@ const AudioCallScreen: React.FC = () => {
   const warn = (...args: any[]) => console.warn(LOG, ...args);
   const error = (...args: any[]) => console.error(LOG, ...args);
 
-  const { roomUrl, contactName, callType, contactId, contextType, provider, dailyCallObject } =
-    route.params;
+  const {
+    roomUrl,
+    contactName,
+    callType,
+    contactId,
+    contextType,
+    provider,
+    dailyCallObject,
+    appointmentId,
+    callId,
+  } = route.params;
 
   // ✅ OFFICIAL: Use new official hooks for state management
   const [callDuration, setCallDuration] = useState(0);
@@ -99,6 +112,19 @@ const AudioCallScreen: React.FC = () => {
 
   const { activeSpeaker, speakerHistory } = useActiveSpeaker();
 
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const chat = useInCallChat(callObject, {
+    appointmentId,
+    roomUrl,
+    callId,
+    isOpen: isChatOpen,
+  });
+  const captions = useCallCaptions(callObject, {
+    appointmentId,
+    roomUrl,
+    activeSpeakerId: activeSpeaker?.session_id ?? null,
+  });
+
   // ✅ OFFICIAL: Audio-specific state using official patterns
   const [isSpeakerEnabled, setIsSpeakerEnabled] = useState(false);
   const [isAppActive, setIsAppActive] = useState(true);
@@ -634,6 +660,14 @@ const AudioCallScreen: React.FC = () => {
             )}
           </ScrollView>
 
+          {captions.captionsEnabled && (
+            <LiveCaptions
+              lines={captions.lines}
+              isTranscribing={captions.isTranscribing}
+              style={styles.captions}
+            />
+          )}
+
           {/* ✅ ENHANCED: Control buttons for audio calls */}
           <View style={[styles.controlsContainer, overlayShadowStyle]}>
             <View style={styles.controls}>
@@ -664,6 +698,23 @@ const AudioCallScreen: React.FC = () => {
                 </Text>
               </TouchableOpacity>
 
+              <TouchableOpacity
+                style={[styles.controlButton, isChatOpen && styles.activeButton]}
+                onPress={() => setIsChatOpen(open => !open)}
+                accessibilityLabel={isChatOpen ? 'Hide chat' : 'Open chat'}
+              >
+                <Ionicons name="chatbubble-ellipses" size={24} color="#fff" />
+                <ChatUnreadBadge count={chat.unreadCount} />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.controlButton, captions.captionsEnabled && styles.activeButton]}
+                onPress={captions.toggleCaptions}
+                accessibilityLabel={captions.captionsEnabled ? 'Hide captions' : 'Show captions'}
+              >
+                <Ionicons name="logo-closed-captioning" size={24} color="#fff" />
+              </TouchableOpacity>
+
               <TouchableOpacity
                 style={[styles.controlButton, styles.endCallButton]}
                 onPress={handleEndCallConfirmation}
@@ -706,6 +757,16 @@ const AudioCallScreen: React.FC = () => {
               ))}
             </View>
           )}
+
+          <InCallChatDrawer
+            visible={isChatOpen}
+            messages={chat.messages}
+            currentUserId={chat.currentUserId}
+            contactName={contactName}
+            onSend={chat.sendMessage}
+            onClose={() => setIsChatOpen(false)}
+            isReadByRecipient={chat.isReadByRecipient}
+          />
         </SafeAreaView>
       </DailyCallContext.Provider>
     </PermissionGate>
@@ -919,6 +980,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-around',
     alignItems: 'center',
   },
+  captions: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
   controlButton: {
     width: 56,
     height: 56,
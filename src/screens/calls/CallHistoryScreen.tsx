@@ -0,0 +1,248 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback } from 'react';
+import { RefreshControl, StyleSheet, Text, View } from 'react-native';
+import { useSelector } from 'react-redux';
+
+import {
+  AdaptiveAnimatedView,
+  AdaptiveFlatList,
+  AdaptiveTouchableOpacity,
+  useAdaptiveTheme,
+} from '../../components/adaptive/AdaptiveComponents';
+import { COLORS } from '../../constants';
+import { useCallHistory } from '../../hooks/useCallHistory';
+import { useReauthentication } from '../../hooks/useReauthentication';
+import { selectUser } from '../../store/selectors/authSelectors';
+import type { CallHistoryEntry } from '../../types/callTypes';
+import { CallLifecycleState } from '../../types/callTypes';
+
+const STATE_LABELS: Record<CallLifecycleState, string> = {
+  [CallLifecycleState.RINGING]: 'Ringing',
+  [CallLifecycleState.ANSWERED]: 'In progress',
+  [CallLifecycleState.DECLINED]: 'Declined',
+  [CallLifecycleState.CANCELLED]: 'Cancelled',
+  [CallLifecycleState.BUSY]: 'Busy',
+  [CallLifecycleState.MISSED]: 'No answer',
+  [CallLifecycleState.ENDED]: 'Completed',
+};
+
+const formatDuration = (entry: CallHistoryEntry) => {
+  if (!entry.answeredAt || !entry.endedAt) return null;
+  const seconds = Math.round((entry.endedAt - entry.answeredAt) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const CallHistoryScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const user = useSelector(selectUser);
+  const { history, isRefreshing, refresh, markMissedCallsSeen } = useCallHistory(
+    user ? String(user.id) : null
+  );
+  const { isLowEndDevice } = useAdaptiveTheme();
+  const isVerified = useReauthentication('Verify to view call history');
+
+  // Opening the list clears the missed-call badge
+  useFocusEffect(
+    useCallback(() => {
+      markMissedCallsSeen();
+    }, [markMissedCallsSeen])
+  );
+
+  const renderCall = useCallback(
+    ({ item, index }: { item: CallHistoryEntry; index: number }) => {
+      const isMissedIncoming =
+        item.direction === 'incoming' &&
+        [CallLifecycleState.MISSED, CallLifecycleState.CANCELLED, CallLifecycleState.BUSY].includes(
+          item.state
+        );
+      const duration = formatDuration(item);
+
+      return (
+        <AdaptiveAnimatedView
+          animationType={isLowEndDevice ? 'none' : 'fadeIn'}
+          delay={isLowEndDevice ? 0 : Math.min(index * 30, 300)}
+        >
+          <View style={styles.callRow}>
+            <View style={[styles.callIcon, isMissedIncoming && styles.callIconMissed]}>
+              <Ionicons
+                name={item.callType === 'video' ? 'videocam' : 'call'}
+                size={20}
+                color={isMissedIncoming ? COLORS.ERROR : COLORS.TEXT_PRIMARY}
+              />
+            </View>
+            <View style={styles.callInfo}>
+              <Text style={styles.participantName} numberOfLines={1}>
+                {item.participantName}
+              </Text>
+              <View style={styles.callMeta}>
+                <Ionicons
+                  name={item.direction === 'incoming' ? 'arrow-down' : 'arrow-up'}
+                  size={12}
+                  color={isMissedIncoming ? COLORS.ERROR : COLORS.TEXT_SECONDARY}
+                />
+                <Text style={[styles.callStatus, isMissedIncoming && styles.callStatusMissed]}>
+                  {isMissedIncoming ? 'Missed' : STATE_LABELS[item.state]}
+                  {duration ? ` · ${duration}` : ''}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.callTime}>{formatTime(item.startedAt)}</Text>
+          </View>
+        </AdaptiveAnimatedView>
+      );
+    },
+    [isLowEndDevice]
+  );
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Calls</Text>
+          <Text style={styles.headerSubtitle}>Recent and missed calls</Text>
+        </View>
+      </View>
+
+      {isVerified && (
+        <AdaptiveFlatList
+          data={history}
+          renderItem={renderCall}
+          keyExtractor={item => item.callId}
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              colors={[COLORS.SECONDARY]}
+              tintColor={COLORS.SECONDARY}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <AdaptiveAnimatedView animationType="fadeIn" style={styles.emptyContainer}>
+              <Ionicons name="call-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No calls yet</Text>
+            </AdaptiveAnimatedView>
+          }
+        />
+      )}
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  callRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  callIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.GLASS_BG_DARKER,
+    marginRight: 12,
+  },
+  callIconMissed: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderWidth: 1,
+    borderColor: COLORS.ERROR,
+  },
+  callInfo: {
+    flex: 1,
+  },
+  participantName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  callMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  callStatus: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginLeft: 4,
+  },
+  callStatusMissed: {
+    color: COLORS.ERROR,
+  },
+  callTime: {
+    fontSize: 12,
+    color: COLORS.TEXT_SECONDARY,
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+  },
+});
+
+export default CallHistoryScreen;
@@ -0,0 +1,246 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useState } from 'react';
+import { RefreshControl, StyleSheet, Text, View } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import {
+  AdaptiveAnimatedView,
+  AdaptiveFlatList,
+  AdaptiveTouchableOpacity,
+  useAdaptiveTheme,
+} from '../../components/adaptive/AdaptiveComponents';
+import { ChatRoomListItem } from '../../components/chat/ChatRoomListItem';
+import { DoctorSkeleton, ShimmerProvider } from '../../components/common/SkeletonLoader';
+import { COLORS } from '../../constants';
+import type { AppDispatch } from '../../store';
+import { selectUser } from '../../store/selectors/authSelectors';
+import {
+  selectChatConnected,
+  selectChatError,
+  selectChatLoading,
+  selectChatRoomsByActivity,
+  selectPendingOutboxCount,
+} from '../../store/selectors/chatSelectors';
+import { fetchChatRooms } from '../../store/slices/chatSlice';
+import type { ChatRoom } from '../../types';
+
+const ChatListScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const dispatch = useDispatch<AppDispatch>();
+  const user = useSelector(selectUser);
+  const isDoctor = user?.accountType === 'health_specialist';
+
+  const rooms = useSelector(selectChatRoomsByActivity);
+  const isLoading = useSelector(selectChatLoading);
+  const error = useSelector(selectChatError);
+  const isConnected = useSelector(selectChatConnected);
+  const pendingCount = useSelector(selectPendingOutboxCount);
+
+  const [refreshing, setRefreshing] = useState(false);
+  const { isLowEndDevice } = useAdaptiveTheme();
+
+  const loadRooms = useCallback(() => dispatch(fetchChatRooms()), [dispatch]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRooms();
+    }, [loadRooms])
+  );
+
+  const openRoom = useCallback(
+    (room: ChatRoom) => {
+      navigation.navigate('ChatRoom', { chatId: room.chatId, appointmentId: room.appointmentId });
+    },
+    [navigation]
+  );
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadRooms();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadRooms]);
+
+  const renderRoom = useCallback(
+    ({ item, index }: { item: ChatRoom; index: number }) => (
+      <AdaptiveAnimatedView
+        animationType={isLowEndDevice ? 'none' : 'fadeIn'}
+        delay={isLowEndDevice ? 0 : Math.min(index * 30, 300)}
+      >
+        <ChatRoomListItem room={item} isDoctor={isDoctor} onPress={openRoom} />
+      </AdaptiveAnimatedView>
+    ),
+    [isDoctor, isLowEndDevice, openRoom]
+  );
+
+  const renderEmpty = () => {
+    if (isLoading && rooms.length === 0) {
+      return (
+        <ShimmerProvider>
+          <View style={styles.skeletonContainer}>
+            {Array.from({ length: isLowEndDevice ? 2 : 4 }, (_, index) => (
+              <DoctorSkeleton key={`skeleton-${index}`} />
+            ))}
+          </View>
+        </ShimmerProvider>
+      );
+    }
+
+    if (error && rooms.length === 0) {
+      return (
+        <AdaptiveAnimatedView animationType="fadeIn" style={styles.emptyContainer}>
+          <Ionicons name="warning-outline" size={48} color={COLORS.ERROR} />
+          <Text style={styles.errorText}>Failed to load conversations</Text>
+          <Text style={styles.emptySubtext}>{error}</Text>
+          <AdaptiveTouchableOpacity style={styles.retryButton} onPress={loadRooms}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </AdaptiveTouchableOpacity>
+        </AdaptiveAnimatedView>
+      );
+    }
+
+    return (
+      <AdaptiveAnimatedView animationType="fadeIn" style={styles.emptyContainer}>
+        <Ionicons name="chatbubbles-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyText}>No conversations yet</Text>
+        <Text style={styles.emptySubtext}>
+          {isDoctor
+            ? 'Message a patient from one of your appointments'
+            : 'Message your doctor from one of your appointments'}
+        </Text>
+      </AdaptiveAnimatedView>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Messages</Text>
+        <Text style={styles.headerSubtitle}>
+          {isDoctor ? 'Follow-ups with your patients' : 'Follow-ups with your doctors'}
+        </Text>
+        {(!isConnected || pendingCount > 0) && (
+          <View style={styles.offlineBanner}>
+            <Ionicons name="cloud-offline-outline" size={16} color={COLORS.WARNING} />
+            <Text style={styles.offlineText}>
+              {pendingCount > 0
+                ? `${pendingCount} message${pendingCount === 1 ? '' : 's'} waiting to send`
+                : 'Offline — messages will send when you reconnect'}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <AdaptiveFlatList
+        data={rooms}
+        renderItem={renderRoom}
+        keyExtractor={item => item.chatId}
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[COLORS.SECONDARY]}
+            tintColor={COLORS.SECONDARY}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={renderEmpty()}
+      />
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+  },
+  offlineText: {
+    color: COLORS.TEXT_PRIMARY,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 100,
+  },
+  skeletonContainer: {
+    paddingTop: 20,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 4,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  errorText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.ERROR,
+    marginTop: 16,
+  },
+  retryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  retryButtonText: {
+    color: COLORS.TEXT_DARK,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ChatListScreen;
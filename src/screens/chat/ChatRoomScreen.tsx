@@ -0,0 +1,368 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import { AdaptiveTouchableOpacity } from '../../components/adaptive/AdaptiveComponents';
+import type { ComposedMessage } from '../../components/chat/ChatComposer';
+import { ChatComposer } from '../../components/chat/ChatComposer';
+import { ChatMessageBubble } from '../../components/chat/ChatMessageBubble';
+import { getChatCounterpartName } from '../../components/chat/ChatRoomListItem';
+import { COLORS } from '../../constants';
+import type { AppDispatch, RootState } from '../../store';
+import { selectUser } from '../../store/selectors/authSelectors';
+import {
+  selectChatConnected,
+  selectChatMessages,
+  selectChatMessagesLoading,
+  selectChatRoomById,
+  selectHasMoreChatMessages,
+} from '../../store/selectors/chatSelectors';
+import {
+  discardOutboxItem,
+  editChatMessage,
+  fetchChatMessages,
+  markChatAsRead,
+  retryOutboxItem,
+  sendChatMessage,
+  setActiveRoom,
+} from '../../store/slices/chatSlice';
+import type { ChatMessage, ChatStackParamList } from '../../types';
+
+type ChatRoomRoute = RouteProp<ChatStackParamList, 'ChatRoom'>;
+
+// Without a socket connection, new messages are picked up by polling while the room is open
+const POLL_INTERVAL_MS = 15000;
+
+const ChatRoomScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<ChatRoomRoute>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { chatId, appointmentId } = route.params;
+
+  const user = useSelector(selectUser);
+  const isDoctor = user?.accountType === 'health_specialist';
+  const currentUserId = user ? String(user.id) : null;
+
+  const room = useSelector((state: RootState) => selectChatRoomById(state, chatId));
+  const messages = useSelector((state: RootState) => selectChatMessages(state, chatId));
+  const hasMore = useSelector((state: RootState) => selectHasMoreChatMessages(state, chatId));
+  const isLoadingMessages = useSelector(selectChatMessagesLoading);
+  const isConnected = useSelector(selectChatConnected);
+
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+
+  const isClosed = room?.status === 'closed';
+
+  // The list is inverted so the newest message sits above the composer
+  const invertedMessages = useMemo(() => [...messages].reverse(), [messages]);
+  const messagesById = useMemo(
+    () => new Map(messages.map(message => [message.messageId, message])),
+    [messages]
+  );
+
+  const hasUnread = useMemo(
+    () =>
+      !!currentUserId &&
+      messages.some(
+        message =>
+          String(message.senderId) !== currentUserId &&
+          !message.readBy.some(receipt => String(receipt.userId) === currentUserId)
+      ),
+    [currentUserId, messages]
+  );
+
+  useEffect(() => {
+    dispatch(setActiveRoom(chatId));
+    return () => {
+      dispatch(setActiveRoom(null));
+    };
+  }, [dispatch, chatId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      dispatch(fetchChatMessages({ chatId }));
+      const interval = setInterval(() => {
+        dispatch(fetchChatMessages({ chatId }));
+      }, POLL_INTERVAL_MS);
+      return () => clearInterval(interval);
+    }, [dispatch, chatId])
+  );
+
+  // Anything on screen counts as read
+  useEffect(() => {
+    if (hasUnread) {
+      dispatch(markChatAsRead(chatId));
+    }
+  }, [dispatch, chatId, hasUnread]);
+
+  const loadOlder = useCallback(() => {
+    const oldest = messages.find(message => !message.localStatus);
+    if (!hasMore || isLoadingMessages || !oldest) return;
+    dispatch(fetchChatMessages({ chatId, before: oldest.messageId }));
+  }, [dispatch, chatId, hasMore, isLoadingMessages, messages]);
+
+  const handleSend = useCallback(
+    (composed: ComposedMessage) => {
+      dispatch(
+        sendChatMessage({
+          chatId,
+          ...composed,
+          replyToId: replyTo?.messageId,
+        })
+      );
+      setReplyTo(null);
+    },
+    [dispatch, chatId, replyTo]
+  );
+
+  const handleSubmitEdit = useCallback(
+    (content: string) => {
+      if (!editing) return;
+      dispatch(editChatMessage({ chatId, messageId: editing.messageId, content }));
+      setEditing(null);
+    },
+    [dispatch, chatId, editing]
+  );
+
+  const clearContext = useCallback(() => {
+    setReplyTo(null);
+    setEditing(null);
+  }, []);
+
+  const handleLongPress = useCallback(
+    (message: ChatMessage) => {
+      if (isClosed || message.localStatus === 'failed') return;
+
+      const isOwn = String(message.senderId) === currentUserId;
+      const actions: { text: string; onPress?: () => void; style?: 'cancel' }[] = [
+        {
+          text: 'Reply',
+          onPress: () => {
+            setEditing(null);
+            setReplyTo(message);
+          },
+        },
+      ];
+      if (isOwn && message.messageType === 'text') {
+        actions.push({
+          text: 'Edit',
+          onPress: () => {
+            setReplyTo(null);
+            setEditing(message);
+          },
+        });
+      }
+      actions.push({ text: 'Cancel', style: 'cancel' });
+
+      Alert.alert('Message', undefined, actions);
+    },
+    [currentUserId, isClosed]
+  );
+
+  const handleFailedPress = useCallback(
+    (message: ChatMessage) => {
+      Alert.alert('Message not sent', 'This message could not be delivered.', [
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => dispatch(discardOutboxItem(message.messageId)),
+        },
+        { text: 'Retry', onPress: () => dispatch(retryOutboxItem(message.messageId)) },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+    },
+    [dispatch]
+  );
+
+  const renderMessage = useCallback(
+    ({ item }: { item: ChatMessage }) => {
+      const isOwn = String(item.senderId) === currentUserId;
+      return (
+        <ChatMessageBubble
+          message={item}
+          isOwn={isOwn}
+          repliedTo={item.replyToId ? messagesById.get(item.replyToId) : undefined}
+          isRead={item.readBy.some(receipt => String(receipt.userId) !== String(item.senderId))}
+          onLongPress={handleLongPress}
+          onPressFailed={handleFailedPress}
+        />
+      );
+    },
+    [currentUserId, handleFailedPress, handleLongPress, messagesById]
+  );
+
+  const title = room ? getChatCounterpartName(room, isDoctor) : 'Conversation';
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          enableHaptics
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <Ionicons name="arrow-back" size={24} color={COLORS.WHITE} />
+        </AdaptiveTouchableOpacity>
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {title}
+          </Text>
+          {!isConnected && <Text style={styles.headerSubtitle}>Waiting for connection…</Text>}
+        </View>
+        <AdaptiveTouchableOpacity
+          style={styles.backButton}
+          onPress={() =>
+            navigation.navigate('Appointments', {
+              screen: 'AppointmentDetails',
+              params: { appointmentId },
+            })
+          }
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          accessibilityRole="button"
+          accessibilityLabel="View appointment"
+        >
+          <Ionicons name="calendar-outline" size={22} color={COLORS.WHITE} />
+        </AdaptiveTouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <FlatList
+          data={invertedMessages}
+          inverted
+          renderItem={renderMessage}
+          keyExtractor={item => item.messageId}
+          contentContainerStyle={styles.listContent}
+          onEndReached={loadOlder}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={
+            isLoadingMessages && messages.length > 0 ? (
+              <ActivityIndicator color={COLORS.PRIMARY} style={styles.loadingOlder} />
+            ) : null
+          }
+          ListEmptyComponent={
+            isLoadingMessages ? (
+              <ActivityIndicator color={COLORS.PRIMARY} size="large" style={styles.empty} />
+            ) : (
+              <Text style={[styles.emptyText, styles.empty]}>
+                Send a message to follow up on your consultation.
+              </Text>
+            )
+          }
+          showsVerticalScrollIndicator={false}
+        />
+
+        {isClosed ? (
+          <View style={styles.closedBar}>
+            <Text style={styles.closedText}>This conversation has been closed.</Text>
+          </View>
+        ) : (
+          <ChatComposer
+            replyTo={replyTo}
+            editing={editing}
+            onSend={handleSend}
+            onSubmitEdit={handleSubmitEdit}
+            onCancelContext={clearContext}
+          />
+        )}
+      </KeyboardAvoidingView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: Platform.OS === 'ios' ? 60 : 48,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+  },
+  backButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 24,
+    padding: 12,
+    minWidth: 48,
+    minHeight: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitleWrapper: {
+    flex: 1,
+    alignItems: 'center',
+    marginHorizontal: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: COLORS.WARNING,
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  loadingOlder: {
+    marginVertical: 12,
+  },
+  empty: {
+    // The list is inverted, so flip the placeholder back upright
+    transform: [{ scaleY: -1 }],
+    marginTop: 40,
+  },
+  emptyText: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  closedBar: {
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.GLASS_BORDER,
+    alignItems: 'center',
+  },
+  closedText: {
+    color: COLORS.TEXT_SECONDARY,
+    fontSize: 14,
+  },
+});
+
+export default ChatRoomScreen;
@@ -15,12 +15,13 @@ import {
 } from 'react-native';
 import { useSelector } from 'react-redux';
 
+import { AdaptiveLinearGradient } from '../../components/adaptive/AdaptiveComponents';
 import { AsyncErrorBoundary } from '../../components/common/AsyncErrorBoundary';
 import { HealthDashboardSkeleton } from '../../components/common/SkeletonLoader';
 import { HealthProviderInfo } from '../../components/health/HealthProviderInfo';
 import { PermissionDeniedView } from '../../components/permissions/PermissionDeniedView';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../../constants';
-import { AdaptiveLinearGradient } from '../../components/adaptive/AdaptiveComponents';
+import { useHealthUploadQueueStatus } from '../../hooks/health/useHealthUploadQueue';
 import { RootState } from '../../store';
 import { selectUser } from '../../store/selectors/authSelectors';
 import {
@@ -101,6 +102,7 @@ const HealthDashboardScreenContent: React.FC = () => {
   const dashboardMetrics = useSelector(selectDashboardMetrics);
   const isLoading = useSelector(selectHealthLoading);
   const lastSync = useSelector(selectLastSync);
+  const uploadStatus = useHealthUploadQueueStatus();
 
   const isLowEndDevice = width < 375;
 
@@ -566,6 +568,7 @@ const HealthDashboardScreenContent: React.FC = () => {
             <HealthProviderInfo
               providerName={deviceInfo.name || ''}
               lastSyncTime={lastSync || deviceInfo.lastSync || null}
+              uploadStatus={uploadStatus}
             />
           )}
         </View>
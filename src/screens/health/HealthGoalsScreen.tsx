@@ -0,0 +1,240 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useSelector } from 'react-redux';
+
+import { AdaptiveTouchableOpacity } from '../../components/adaptive/AdaptiveComponents';
+import { HealthGoalEditor } from '../../components/health/HealthGoalEditor';
+import type { HealthGoalCardItem } from '../../components/health/HealthGoalsCard';
+import { HealthGoalsCard } from '../../components/health/HealthGoalsCard';
+import { COLORS } from '../../constants';
+import { useHealthGoals } from '../../hooks/health/useHealthGoals';
+import { HealthGoalService } from '../../services/health/HealthGoalService';
+import { selectUser } from '../../store/selectors/authSelectors';
+import type { HealthGoal } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+const PERIOD_ORDER: HealthGoal['period'][] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * ✅ Steps goals
+ * Lists the patient's goals with progress, streaks and personal bests, and
+ * opens the editor to add, change or remove one.
+ */
+const HealthGoalsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const user = useSelector(selectUser);
+  const { goals, progress, saveGoal, removeGoal } = useHealthGoals(user ? String(user.id) : null);
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<HealthGoal | null>(null);
+
+  const stepGoals = useMemo(
+    () =>
+      goals
+        .filter(goal => goal.isActive && goal.type === HealthDataType.STEPS)
+        .sort((a, b) => PERIOD_ORDER.indexOf(a.period) - PERIOD_ORDER.indexOf(b.period)),
+    [goals]
+  );
+
+  const cardItems = useMemo<HealthGoalCardItem[]>(
+    () =>
+      stepGoals.map(goal => {
+        const goalProgress = progress[goal.id];
+        return {
+          id: goal.id,
+          type: goal.type,
+          target: goal.target,
+          current: goalProgress?.current ?? 0,
+          unit: goal.unit,
+          icon: 'footsteps',
+          color: COLORS.HEALTH_GREEN,
+          period: goal.period,
+          streak: goalProgress?.streak,
+          bestStreak: goalProgress?.bestStreak,
+          personalBest: goalProgress?.personalBest?.value,
+          isAchieved: goalProgress?.isAchieved,
+        };
+      }),
+    [stepGoals, progress]
+  );
+
+  const openEditor = useCallback(
+    (item: HealthGoalCardItem | null) => {
+      setEditingGoal(item ? (stepGoals.find(goal => goal.id === item.id) ?? null) : null);
+      setIsEditorOpen(true);
+    },
+    [stepGoals]
+  );
+
+  const handleSave = useCallback(
+    async (period: HealthGoal['period'], target: number) => {
+      // A new period starts a new history, so it gets a new goal
+      const goal =
+        editingGoal && editingGoal.period === period
+          ? { ...editingGoal, target }
+          : HealthGoalService.createGoal(HealthDataType.STEPS, period, target, 'steps');
+      try {
+        await saveGoal(goal, editingGoal ?? undefined);
+        setIsEditorOpen(false);
+      } catch (error) {
+        console.error('❌ Failed to save health goal:', error);
+        Alert.alert('Error', 'Unable to save your goal. Please try again.');
+      }
+    },
+    [editingGoal, saveGoal]
+  );
+
+  const confirmDelete = useCallback(
+    (goal: HealthGoal) => {
+      Alert.alert('Remove Goal', 'Your streak and personal best for this goal will be lost.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeGoal(goal.id);
+              setIsEditorOpen(false);
+            } catch (error) {
+              console.error('❌ Failed to remove health goal:', error);
+              Alert.alert('Error', 'Unable to remove your goal. Please try again.');
+            }
+          },
+        },
+      ]);
+    },
+    [removeGoal]
+  );
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Goals</Text>
+          <Text style={styles.headerSubtitle}>Tap a goal to change it</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {cardItems.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="trophy-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>No goals yet</Text>
+            <Text style={styles.emptySubtext}>
+              Set a steps goal to start a streak and get notified when you reach it.
+            </Text>
+          </View>
+        ) : (
+          <HealthGoalsCard goals={cardItems} onGoalPress={openEditor} onEditGoal={openEditor} />
+        )}
+
+        {stepGoals.length < PERIOD_ORDER.length && (
+          <AdaptiveTouchableOpacity
+            style={styles.addButton}
+            onPress={() => openEditor(null)}
+            testID="add-health-goal"
+          >
+            <Ionicons name="add" size={20} color={COLORS.WHITE} />
+            <Text style={styles.addText}>Add a goal</Text>
+          </AdaptiveTouchableOpacity>
+        )}
+      </ScrollView>
+
+      <HealthGoalEditor
+        visible={isEditorOpen}
+        goal={editingGoal}
+        onSave={handleSave}
+        onDelete={confirmDelete}
+        onClose={() => setIsEditorOpen(false)}
+      />
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    marginTop: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  addText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default HealthGoalsScreen;
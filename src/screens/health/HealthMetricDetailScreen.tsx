@@ -0,0 +1,394 @@
+import { Ionicons } from '@expo/vector-icons';
+import type { RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+import { AdaptiveTouchableOpacity } from '../../components/adaptive/AdaptiveComponents';
+import { HealthEntryEditor } from '../../components/health/HealthEntryEditor';
+import type { ChartDataPoint } from '../../components/health/UnifiedStepsChart';
+import { UnifiedStepsChart } from '../../components/health/UnifiedStepsChart';
+import { COLORS, ERROR_MESSAGES } from '../../constants';
+import { useHealthMetricHistory } from '../../hooks/health/useHealthMetricHistory';
+import type { HealthMetricDetail } from '../../services/health/HealthMetricHistory';
+import {
+  HEALTH_METRIC_DETAILS,
+  HealthMetricHistory,
+} from '../../services/health/HealthMetricHistory';
+import { MANUAL_ENTRY_DEFINITIONS } from '../../services/health/ManualHealthEntry';
+import type { HealthDataType, HealthMetricView } from '../../types/health';
+import { HEALTHKIT_ERROR_MESSAGES } from '../../types/healthKit';
+
+type HealthMetricDetailParams = Record<'HealthMetricDetail', { metric: HealthDataType }>;
+
+const VIEW_OPTIONS: { label: string; value: HealthMetricView; period: string }[] = [
+  { label: 'Day', value: 'day', period: 'today' },
+  { label: 'Week', value: 'week', period: 'this week' },
+  { label: 'Month', value: 'month', period: 'this month' },
+  { label: 'Year', value: 'year', period: 'this year' },
+];
+
+const formatValue = (detail: HealthMetricDetail, value: number, secondaryValue?: number | null) => {
+  const primary = value.toFixed(detail.decimals);
+  return secondaryValue !== null && secondaryValue !== undefined
+    ? `${primary}/${secondaryValue.toFixed(detail.decimals)}`
+    : primary;
+};
+
+/**
+ * ✅ One vital over a day, week, month or year
+ * Charts sleep, blood pressure, blood oxygen, weight or glucose from HealthKit
+ * or Health Connect, with the average and range and each period's reading.
+ * Metrics a patient can measure at home can be logged from the header.
+ */
+const HealthMetricDetailScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<HealthMetricDetailParams, 'HealthMetricDetail'>>();
+  const { metric } = route.params;
+  const detail = HEALTH_METRIC_DETAILS[metric];
+
+  const [view, setView] = useState<HealthMetricView>('week');
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+  const canLogReading = MANUAL_ENTRY_DEFINITIONS[metric] !== undefined;
+  const history = useHealthMetricHistory(metric, view);
+  const { data, isLoading, error, refresh, requestPermissions } = history;
+  const openSettings = 'openSettings' in history ? history.openSettings : undefined;
+
+  const summary = useMemo(() => HealthMetricHistory.summarize(data), [data]);
+  const chartRange = useMemo(() => HealthMetricHistory.getChartRange(metric, data), [metric, data]);
+  const chartData = useMemo<ChartDataPoint[]>(
+    () =>
+      data.map(point => ({
+        value: point.value ?? chartRange.minValue,
+        label: point.label,
+        isCurrent: point.isCurrent,
+        isFuture: point.isFuture,
+        isEmpty: point.value === null,
+        secondaryValue: point.secondaryValue ?? undefined,
+      })),
+    [data, chartRange]
+  );
+  const readings = useMemo(() => data.filter(point => point.value !== null).reverse(), [data]);
+
+  const periodText = VIEW_OPTIONS.find(option => option.value === view)?.period ?? '';
+
+  if (!detail) {
+    return null;
+  }
+
+  const renderContent = () => {
+    if (isLoading && data.length === 0) {
+      return <ActivityIndicator style={styles.loading} color={COLORS.WHITE} />;
+    }
+
+    if (error === 'NOT_AUTHORIZED' || error === 'NOT_AVAILABLE') {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>
+            {error === 'NOT_AVAILABLE'
+              ? ERROR_MESSAGES.HEALTH_SERVICE_UNAVAILABLE
+              : `Allow access to ${detail.title.toLowerCase()} to see your readings.`}
+          </Text>
+          {error === 'NOT_AUTHORIZED' && (
+            <AdaptiveTouchableOpacity style={styles.actionButton} onPress={requestPermissions}>
+              <Text style={styles.actionText}>Allow access</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+          {error === 'NOT_AUTHORIZED' && Platform.OS === 'android' && openSettings && (
+            <AdaptiveTouchableOpacity style={styles.linkButton} onPress={openSettings}>
+              <Text style={styles.linkText}>Open Health Connect</Text>
+            </AdaptiveTouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>Average</Text>
+            <Text style={styles.summaryValue}>
+              {summary ? formatValue(detail, summary.average, summary.secondaryAverage) : '--'}
+            </Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>Lowest</Text>
+            <Text style={styles.summaryValue}>
+              {summary ? formatValue(detail, summary.min) : '--'}
+            </Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>Highest</Text>
+            <Text style={styles.summaryValue}>
+              {summary ? formatValue(detail, summary.max) : '--'}
+            </Text>
+          </View>
+        </View>
+
+        <UnifiedStepsChart
+          data={chartData}
+          minValue={chartRange.minValue}
+          maxValue={chartRange.maxValue}
+        />
+
+        {error && <Text style={styles.errorText}>{HEALTHKIT_ERROR_MESSAGES[error]}</Text>}
+
+        {readings.length === 0 ? (
+          <Text style={styles.emptySubtext}>No readings {periodText}.</Text>
+        ) : (
+          readings.map(point => (
+            <View key={point.startDate.toISOString()} style={styles.readingRow}>
+              <Text style={styles.readingLabel}>{point.label}</Text>
+              <Text style={styles.readingValue}>
+                {formatValue(detail, point.value ?? 0, point.secondaryValue)} {detail.unit}
+              </Text>
+            </View>
+          ))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>{detail.title}</Text>
+          <Text style={styles.headerSubtitle}>
+            {detail.aggregation === 'nightly' ? 'Hours asleep' : detail.unit} · {periodText}
+          </Text>
+        </View>
+        <Ionicons
+          name={detail.icon as keyof typeof Ionicons.glyphMap}
+          size={28}
+          color={detail.color}
+        />
+        {canLogReading && (
+          <AdaptiveTouchableOpacity
+            style={styles.addButton}
+            onPress={() => setIsEntryOpen(true)}
+            accessibilityRole="button"
+            accessibilityLabel={`Log ${detail.title.toLowerCase()}`}
+          >
+            <Ionicons name="add-circle" size={30} color={COLORS.TEXT_PRIMARY} />
+          </AdaptiveTouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.viewSelector}>
+        {VIEW_OPTIONS.map(option => (
+          <AdaptiveTouchableOpacity
+            key={option.value}
+            style={[styles.viewButton, view === option.value && styles.viewButtonActive]}
+            onPress={() => setView(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: view === option.value }}
+          >
+            <Text style={[styles.viewText, view === option.value && styles.viewTextActive]}>
+              {option.label}
+            </Text>
+          </AdaptiveTouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isLoading && data.length > 0} onRefresh={refresh} />
+        }
+      >
+        {renderContent()}
+      </ScrollView>
+
+      {canLogReading && (
+        <HealthEntryEditor
+          visible={isEntryOpen}
+          initialType={metric}
+          onSaved={() => refresh()}
+          onClose={() => setIsEntryOpen(false)}
+        />
+      )}
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  addButton: {
+    marginLeft: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  viewSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 8,
+    padding: 4,
+    borderRadius: 16,
+    backgroundColor: COLORS.GLASS_BG,
+  },
+  viewButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  viewButtonActive: {
+    backgroundColor: COLORS.SECONDARY,
+  },
+  viewText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  viewTextActive: {
+    color: COLORS.WHITE,
+    fontWeight: '600',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  loading: {
+    marginTop: 60,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginTop: 12,
+    gap: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.GLASS_BORDER,
+    backgroundColor: COLORS.GLASS_BG,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  errorText: {
+    fontSize: 14,
+    color: COLORS.ERROR,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  readingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.GLASS_BORDER,
+  },
+  readingLabel: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  readingValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  actionButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    marginTop: 20,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  linkButton: {
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.SECONDARY,
+  },
+});
+
+export default HealthMetricDetailScreen;
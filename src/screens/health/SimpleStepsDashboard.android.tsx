@@ -18,6 +18,7 @@ import {
   AppState,
   type AppStateStatus,
 } from 'react-native';
+import { useSelector } from 'react-redux';
 
 import {
   AdaptiveTouchableOpacity,
@@ -26,6 +27,7 @@ import {
   PerformanceMonitor,
 } from '../../components/adaptive/AdaptiveComponents';
 import { HealthDashboardErrorBoundary } from '../../components/health/HealthDashboardErrorBoundary';
+import { HealthMetricLinks } from '../../components/health/HealthMetricLinks';
 import { UnifiedStepsChart, type ChartDataPoint } from '../../components/health/UnifiedStepsChart';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../../constants';
 import { useActiveTime } from '../../hooks/health/useActiveTime';
@@ -35,6 +37,8 @@ import { useMonthlyWeeks } from '../../hooks/health/useMonthlyWeeks';
 import { useStepCounter } from '../../hooks/health/useStepCounter';
 import { useWeeklySteps } from '../../hooks/health/useWeeklySteps';
 import { useYearlyMonths } from '../../hooks/health/useYearlyMonths';
+import { HealthGoalTracker } from '../../services/health/HealthGoalTracker';
+import { selectHealthGoals } from '../../store/selectors/healthSelectors';
 import type { PeriodFilter } from '../../types/health';
 import { safeHaptics, safeNavigation } from '../../utils/runtimeSafety';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
@@ -43,10 +47,10 @@ import { healthConnectManager } from '../../utils/HealthConnectManager';
 import { verifyHealthKitReady } from '../../utils/healthKitUtils';
 
 const IS_IOS = Platform.OS === 'ios';
-const STEPS_GOAL = 10_000;
 
 const SimpleStepsDashboard: React.FC = () => {
   const navigation = useNavigation();
+  const goals = useSelector(selectHealthGoals);
   const scrollY = useRef(new Animated.Value(0)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const { theme, isLowEndDevice } = useAdaptiveTheme();
@@ -722,20 +726,8 @@ const SimpleStepsDashboard: React.FC = () => {
 
   // Memoized goal calculations to prevent recalculation on every render
   const goalData = useMemo(() => {
-    let currentGoal: number;
-    switch (period) {
-      case 'today':
-        currentGoal = STEPS_GOAL; // 10,000 steps per day
-        break;
-      case 'week':
-        currentGoal = STEPS_GOAL * 7; // 70,000 steps per week
-        break;
-      case 'month':
-        currentGoal = STEPS_GOAL * 30; // 300,000 steps per month
-        break;
-      default:
-        currentGoal = STEPS_GOAL;
-    }
+    // The patient's goal for the period, or the daily goal scaled to it
+    const currentGoal = HealthGoalTracker.getStepTarget(goals, period);
 
     return {
       currentGoal,
@@ -744,7 +736,7 @@ const SimpleStepsDashboard: React.FC = () => {
       remainingSteps: Math.max(0, currentGoal - steps),
       percentageComplete: Math.min(100, (steps / currentGoal) * 100),
     };
-  }, [steps, period]);
+  }, [steps, period, goals]);
 
   const { currentGoal, progress, isGoalReached, remainingSteps, percentageComplete } = goalData;
 
@@ -760,13 +752,23 @@ const SimpleStepsDashboard: React.FC = () => {
             <Text style={styles.greeting}>{getGreeting()}</Text>
             <Text style={styles.headerTitle}>Step Counter</Text>
           </View>
-          <AdaptiveTouchableOpacity
-            style={styles.settingsButton}
-            onPress={() => safeNavigation.navigate(navigation, 'HealthSettings')}
-            enableHaptics={!isLowEndDevice}
-          >
-            <Ionicons name="settings-outline" size={24} color={COLORS.WHITE} />
-          </AdaptiveTouchableOpacity>
+          <View style={styles.headerActions}>
+            <AdaptiveTouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => safeNavigation.navigate(navigation, 'HealthGoals')}
+              enableHaptics={!isLowEndDevice}
+              accessibilityLabel="Goals"
+            >
+              <Ionicons name="trophy-outline" size={22} color={COLORS.WHITE} />
+            </AdaptiveTouchableOpacity>
+            <AdaptiveTouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => safeNavigation.navigate(navigation, 'HealthSettings')}
+              enableHaptics={!isLowEndDevice}
+            >
+              <Ionicons name="settings-outline" size={24} color={COLORS.WHITE} />
+            </AdaptiveTouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.dateContainer}>
@@ -1494,6 +1496,9 @@ const SimpleStepsDashboard: React.FC = () => {
             {renderChart()}
             {renderStats()}
             {renderMostStepsCard()}
+            <HealthMetricLinks
+              onSelect={metric => safeNavigation.navigate(navigation, 'HealthMetricDetail', { metric })}
+            />
           </ScrollView>
 
           {/* 🔔 Notification Banner (appears after permission grant) - NEW like iOS */}
@@ -1652,6 +1657,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.WHITE,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.SM,
+  },
   settingsButton: {
     width: 40,
     height: 40,
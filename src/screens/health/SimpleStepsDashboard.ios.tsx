@@ -33,6 +33,7 @@ import {
   type AppStateStatus,
   Linking,
 } from 'react-native';
+import { useSelector } from 'react-redux';
 
 // ✅ OFFICIAL PATTERN: Direct imports from library
 import {
@@ -54,15 +55,16 @@ import {
   PerformanceMonitor,
 } from '../../components/adaptive/AdaptiveComponents';
 import { HealthDashboardErrorBoundary } from '../../components/health/HealthDashboardErrorBoundary';
+import { HealthMetricLinks } from '../../components/health/HealthMetricLinks';
 import { UnifiedStepsChart, type ChartDataPoint } from '../../components/health/UnifiedStepsChart';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../../constants';
+import { HealthGoalTracker } from '../../services/health/HealthGoalTracker';
+import { selectHealthGoals } from '../../store/selectors/healthSelectors';
 import type { PeriodFilter } from '../../types/health';
 import { getPeriodRange } from '../../types/health';
 import { safeHaptics, safeNavigation } from '../../utils/runtimeSafety';
 import { UserHealthStorage } from '../../utils/userHealthStorage';
 
-const STEPS_GOAL = 10_000;
-
 // ✅ OFFICIAL PATTERN: Define required permissions once
 const REQUIRED_PERMISSIONS = [
   'HKQuantityTypeIdentifierStepCount',
@@ -93,6 +95,7 @@ interface HealthData {
 
 const SimpleStepsDashboard: React.FC = () => {
   const navigation = useNavigation();
+  const goals = useSelector(selectHealthGoals);
   const scrollY = useRef(new Animated.Value(0)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const { theme, isLowEndDevice } = useAdaptiveTheme();
@@ -1238,9 +1241,7 @@ const SimpleStepsDashboard: React.FC = () => {
   }, [fetchHealthData]);
 
   // Goal calculations
-  const currentGoal = period === 'today' ? STEPS_GOAL :
-                      period === 'week' ? STEPS_GOAL * 7 :
-                      STEPS_GOAL * 30;
+  const currentGoal = HealthGoalTracker.getStepTarget(goals, period);
   const progress = healthData.steps / currentGoal;
   const percentageComplete = Math.min(100, (healthData.steps / currentGoal) * 100);
 
@@ -1256,13 +1257,23 @@ const SimpleStepsDashboard: React.FC = () => {
             <Text style={styles.greeting}>{getGreeting()}</Text>
             <Text style={styles.headerTitle}>Step Counter</Text>
           </View>
-          <AdaptiveTouchableOpacity
-            style={styles.settingsButton}
-            onPress={() => safeNavigation.navigate(navigation, 'HealthSettings')}
-            enableHaptics={!isLowEndDevice}
-          >
-            <Ionicons name="settings-outline" size={24} color={COLORS.WHITE} />
-          </AdaptiveTouchableOpacity>
+          <View style={styles.headerActions}>
+            <AdaptiveTouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => safeNavigation.navigate(navigation, 'HealthGoals')}
+              enableHaptics={!isLowEndDevice}
+              accessibilityLabel="Goals"
+            >
+              <Ionicons name="trophy-outline" size={22} color={COLORS.WHITE} />
+            </AdaptiveTouchableOpacity>
+            <AdaptiveTouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => safeNavigation.navigate(navigation, 'HealthSettings')}
+              enableHaptics={!isLowEndDevice}
+            >
+              <Ionicons name="settings-outline" size={24} color={COLORS.WHITE} />
+            </AdaptiveTouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.dateContainer}>
@@ -1685,6 +1696,9 @@ const SimpleStepsDashboard: React.FC = () => {
             {renderTitleAndStats()}
             {renderChart()}
             {renderStats()}
+            <HealthMetricLinks
+              onSelect={metric => safeNavigation.navigate(navigation, 'HealthMetricDetail', { metric })}
+            />
           </ScrollView>
 
           {/* 🔔 Notification Banner (appears after permission grant) */}
@@ -1744,6 +1758,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.WHITE,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.SM,
+  },
   settingsButton: {
     width: 40,
     height: 40,
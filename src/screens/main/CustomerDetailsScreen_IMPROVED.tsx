@@ -24,6 +24,7 @@ import {
   Platform,
   BackHandler,
   TouchableOpacity,
+  Modal,
 } from 'react-native';
 import type { AppStateStatus } from 'react-native';
 import { useSelector } from 'react-redux';
@@ -41,18 +42,24 @@ import { EnterpriseCallInterface } from '../../components/daily/EnterpriseCallIn
 import { IntegrationVerifier } from '../../components/daily/IntegrationVerifier';
 import { FCMTokenDebugPanel } from '../../components/debug/FCMTokenDebugPanel';
 import CallDebugPanel, { type CallDebugInfo } from '../../components/CallDebugPanel';
-import { VIDEO_CALL_CONFIG } from '../../config/videoCallConfig';
+import { PatientHealthPanel } from '../../components/health/PatientHealthPanel';
 import { COLORS } from '../../constants';
+import { useConsultationAppointmentId } from '../../hooks/useConsultationAppointmentId';
 import { useOptimizedLoading } from '../../hooks/useOptimizedLoading';
+import { useOutgoingCallOutcome } from '../../hooks/useOutgoingCallOutcome';
+import { useReauthentication } from '../../hooks/useReauthentication';
 import { useDimensionTracking } from '../../hooks/usePerformanceTracking';
+import ChannelService from '../../services/channelService';
 import deviceCapabilityService from '../../services/deviceCapabilityService';
 import type { RootState } from '../../store';
 import type { CustomerDto } from '../../types/api';
+import { VideoCallProvider } from '../../types/videoCallProvider';
 import { permissionAwareCallInitiator } from '../../utils/PermissionAwareCallInitiator';
 import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
 import VideoCallDebugger from '../../utils/VideoCallDebugger';
 import { validateUUID } from '../../utils/uuidValidator';
 import { callsApi } from '../../services/api/callsApi';
+import CallLifecycleManager from '../../services/CallLifecycleManager';
 
 interface CustomerDetailsParamList {
   CustomerDetails: { 
@@ -65,6 +72,7 @@ interface CustomerDetailsParamList {
       callerType: 'customer' | 'doctor';
       callType: 'audio' | 'video';
       roomUrl: string;
+      callId?: string;
       metadata?: Record<string, any>;
     };
   };
@@ -150,6 +158,16 @@ const CustomerDetailsScreen: React.FC = () => {
   const [inCall, setInCall] = useState(false);
   const [callType, setCallType] = useState<'audio' | 'video'>('video');
   const [roomUrl, setRoomUrl] = useState<string | undefined>(undefined);
+  const [meetingToken, setMeetingToken] = useState<string | undefined>(undefined);
+  const [appointmentId, setAppointmentId] = useState<number | string | undefined>(undefined);
+  const [outgoingCallId, setOutgoingCallId] = useState<string | null>(null);
+
+  // 📅 Booked consultation a call placed from here is recorded against
+  const consultationAppointmentId = useConsultationAppointmentId({ patientId: customer.id });
+
+  // 🩺 Patient's shared health data; doctors only, before or during a call
+  const isDoctor = user?.accountType === 'health_specialist';
+  const [isHealthPanelOpen, setIsHealthPanelOpen] = useState(false);
 
   // 🔍 DEBUG: FCM Token Debug Panel
   const [showFCMDebugPanel, setShowFCMDebugPanel] = useState(false);
@@ -171,6 +189,12 @@ const CustomerDetailsScreen: React.FC = () => {
     finishLoadingRef.current = finishLoading;
   }, [finishLoading]);
 
+  // Patient health details sit behind the app lock; calls being joined skip the prompt
+  const isVerified = useReauthentication(
+    'Verify to view patient details',
+    !restoreCall && !incomingCallData
+  );
+
   const screenData = useMemo(() => {
     const { width, height } = screenDimensions;
     const isSmallScreen = width < 375;
@@ -218,6 +242,33 @@ const CustomerDetailsScreen: React.FC = () => {
     }, [])
   );
 
+  const handleCallError = useCallback((error: Error) => {
+    console.error('Call error:', error);
+
+    // 🧭 End call session with navigation manager on error
+    CallNavigationManager.getInstance().endCallSession();
+
+    setInCall(false);
+    Alert.alert('Call Error', error.message || 'An error occurred during the call');
+  }, []);
+
+  // 🔑 Join a room the patient provisioned with this user's own meeting token
+  const joinProvisionedRoom = useCallback(
+    async (url: string, type: 'audio' | 'video') => {
+      try {
+        const room = await ChannelService.getConsultationRoomAccess(url, type, VideoCallProvider.DAILY);
+        setCallType(type);
+        setRoomUrl(room.roomUrl);
+        setMeetingToken(room.token ?? undefined);
+        setAppointmentId(room.appointmentId);
+        setInCall(true);
+      } catch (error) {
+        handleCallError(error instanceof Error ? error : new Error('Could not join the consultation room'));
+      }
+    },
+    [handleCallError]
+  );
+
   // 🧭 Handle call restoration when screen is opened with restoreCall flag
   useEffect(() => {
     if (restoreCall && !inCall) {
@@ -230,29 +281,27 @@ const CustomerDetailsScreen: React.FC = () => {
       if (persistedCallState && persistedCallState.isInCall) {
         console.log('🧭 Found persisted call state, restoring call');
 
-        // Restore the call state
-        setCallType(persistedCallState.callType);
-        setRoomUrl(persistedCallState.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL);
-        setInCall(true);
+        // Restore the call state with a fresh meeting token
+        joinProvisionedRoom(persistedCallState.roomUrl ?? '', persistedCallState.callType);
       } else {
         console.log('🧭 No valid call state to restore, clearing restoreCall flag');
       }
     }
-  }, [restoreCall, inCall, customer.firstName, customer.lastName]);
+  }, [restoreCall, inCall, customer.firstName, customer.lastName, joinProvisionedRoom]);
 
   // 📞 CRITICAL FIX: Handle incoming call data from push notification
   // This is called when user answers an incoming call via CallKeep/push notification
+  const joinedIncomingCallRef = useRef<string | null>(null);
   useEffect(() => {
-    if (incomingCallData && !inCall) {
+    if (incomingCallData && !inCall && joinedIncomingCallRef.current !== incomingCallData.callUuid) {
+      joinedIncomingCallRef.current = incomingCallData.callUuid;
       console.log('📞 Incoming call detected - automatically showing call interface');
       console.log('   Caller:', incomingCallData.callerName);
       console.log('   Call type:', incomingCallData.callType);
       console.log('   Room URL:', incomingCallData.roomUrl);
 
-      // Set call state to show the call interface
-      setCallType(incomingCallData.callType);
-      setRoomUrl(incomingCallData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL);
-      setInCall(true);
+      // Show the call interface once the room grants this user a token
+      joinProvisionedRoom(incomingCallData.roomUrl, incomingCallData.callType);
 
       // Log for debugging
       VideoCallDebugger.logCallStart({
@@ -261,7 +310,7 @@ const CustomerDetailsScreen: React.FC = () => {
           ? `Dr. ${user?.firstName || ''} ${user?.lastName || ''}`
           : `${user?.firstName || ''} ${user?.lastName || ''}`,
         userRole: user?.accountType || 'unknown',
-        roomUrl: incomingCallData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL,
+        roomUrl: incomingCallData.roomUrl,
         screen: 'CustomerDetailsScreen_IMPROVED (Incoming Call)',
       });
 
@@ -275,11 +324,12 @@ const CustomerDetailsScreen: React.FC = () => {
           { customer },
           `${customer.firstName} ${customer.lastName}`,
           'customer',
-          incomingCallData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+          incomingCallData.roomUrl,
+          incomingCallData.callId
         );
       } catch {}
     }
-  }, [incomingCallData, inCall, user]);
+  }, [incomingCallData, inCall, user, joinProvisionedRoom]);
 
 
   // Reset anomaly logging when viewing a different entity
@@ -331,6 +381,18 @@ const CustomerDetailsScreen: React.FC = () => {
           validateUUID(customer.userId, 'Customer userId');
           console.log('✅ Valid customer userId format confirmed:', customer.userId);
 
+          // 🔑 Provision the private room first so the push can send the patient there
+          const room = await ChannelService.provisionConsultationRoom(
+            String(user.id),
+            customer.userId,
+            requestedCallType,
+            VideoCallProvider.DAILY,
+            consultationAppointmentId
+          );
+          if (!room.roomUrl || !room.token) {
+            throw new Error('The consultation room is not ready. Please try again.');
+          }
+
           // ✅ FIX: Use userId (not customer.id) to look up user in backend
           const initiateResult = await callsApi.initiateCall(
             customer.userId,  // ✅ FIX: Use User ID for backend lookup
@@ -348,7 +410,8 @@ const CustomerDetailsScreen: React.FC = () => {
                 firstName: customer.firstName,
                 lastName: customer.lastName,
               },
-            }
+            },
+            room.channelName
           );
 
           // ✅ Call ALWAYS succeeds now - push notification is optional
@@ -379,7 +442,7 @@ const CustomerDetailsScreen: React.FC = () => {
             initiationSuccess: true,
             pushStatus: (initiateResult as any).pushStatus,
             pushError: (initiateResult as any).pushError,
-            roomUrl: initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL,
+            roomUrl: room.roomUrl,
             requestPayload: {
               recipientId: customer.userId,
               callType: requestedCallType,
@@ -402,10 +465,26 @@ const CustomerDetailsScreen: React.FC = () => {
                 ? `Dr. ${user.firstName || ''} ${user.lastName || ''}`
                 : `${user.firstName || ''} ${user.lastName || ''}`,
             userRole: user.accountType || 'unknown',
-            roomUrl: initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL,
+            roomUrl: room.roomUrl,
             screen: 'CustomerDetailsScreen_IMPROVED',
           });
 
+          // 📞 Ring until the recipient answers, declines, is busy or the call times out
+          const callId = initiateResult.data?.callId;
+          if (callId) {
+            await CallLifecycleManager.getInstance().startOutgoingCall(
+              {
+                callId,
+                participantId: customer.userId,
+                participantName: `${customer.firstName} ${customer.lastName}`,
+                participantType: 'customer',
+                callType: requestedCallType,
+              },
+              initiateResult.data?.ringTimeoutMs
+            );
+            setOutgoingCallId(callId);
+          }
+
           // 🧭 Register call session with navigation manager
           CallNavigationManager.getInstance().startCallSession(
             requestedCallType,
@@ -413,12 +492,15 @@ const CustomerDetailsScreen: React.FC = () => {
             { customer },
             `${customer.firstName} ${customer.lastName}`,
             'customer',
-            initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+            room.roomUrl,
+            callId
           );
 
           // Join the room after sending push notification
           setCallType(requestedCallType);
-          setRoomUrl(initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL);
+          setRoomUrl(room.roomUrl);
+          setMeetingToken(room.token);
+          setAppointmentId(room.appointmentId);
           setInCall(true);
         } catch (error: any) {
           console.error('❌ Failed to initiate call:', error);
@@ -518,6 +600,7 @@ const CustomerDetailsScreen: React.FC = () => {
       customer?.id,
       customer?.firstName,
       customer?.lastName,
+      consultationAppointmentId,
     ]
   );
 
@@ -534,21 +617,18 @@ const CustomerDetailsScreen: React.FC = () => {
     // Clear call state immediately to prevent restoration
     setInCall(false);
     setRoomUrl(undefined);
+    setMeetingToken(undefined);
+    setAppointmentId(undefined);
+    setOutgoingCallId(null);
+    setIsHealthPanelOpen(false);
     console.log('🔴 CustomerDetailsScreen: Call state cleared (inCall=false, roomUrl=undefined)');
 
     // ✅ Cleanup is handled by EnterpriseCallInterface - no need to call here
     // Calling it here creates race conditions
   }, []);
 
-  const handleCallError = useCallback((error: Error) => {
-    console.error('Call error:', error);
-
-    // 🧭 End call session with navigation manager on error
-    CallNavigationManager.getInstance().endCallSession();
-
-    setInCall(false);
-    Alert.alert('Call Error', error.message || 'An error occurred during the call');
-  }, []);
+  // 📞 Leave the room if the call is declined, the recipient is busy or nobody answers
+  useOutgoingCallOutcome(outgoingCallId, `${customer.firstName} ${customer.lastName}`, handleEndCall);
 
   const goBack = useCallback(() => {
     navigation.goBack();
@@ -610,7 +690,7 @@ const CustomerDetailsScreen: React.FC = () => {
     }
   }, [goBack, inCall]);
 
-  if (isLoading || !showContent) {
+  if (isLoading || !showContent || !isVerified) {
     return (
       <LinearGradient
         colors={[COLORS.GRADIENT_START, COLORS.GRADIENT_END]}
@@ -691,9 +771,11 @@ const CustomerDetailsScreen: React.FC = () => {
       </View>
 
       {/* ✨ ENTERPRISE: Using enhanced EnterpriseCallInterface */}
-      {inCall && roomUrl ? (
+      {inCall && roomUrl && meetingToken ? (
         <EnterpriseCallInterface
           roomUrl={roomUrl}
+          meetingToken={meetingToken}
+          appointmentId={appointmentId}
           callType={callType}
           contactName={`${customer.firstName} ${customer.lastName}`}
           contactTitle="Patient"
@@ -706,6 +788,8 @@ const CustomerDetailsScreen: React.FC = () => {
               : `${user?.firstName} ${user?.lastName}`
           }
           userId={user?.id}
+          callId={outgoingCallId ?? incomingCallData?.callId}
+          onOpenPatientHealth={isDoctor ? () => setIsHealthPanelOpen(true) : undefined}
           medicalContext={{
             consultationType: 'routine',
             appointmentTime: new Date(),
@@ -885,9 +969,56 @@ const CustomerDetailsScreen: React.FC = () => {
                 </AdaptiveTouchableOpacity>
               </AdaptiveCard>
             </AdaptiveAnimatedView>
+
+            {isDoctor && (
+              <AdaptiveAnimatedView
+                animationType={isLowEndDevice ? 'fadeIn' : 'slideUp'}
+                duration={getAnimationDuration('normal')}
+                delay={500}
+              >
+                <PatientHealthPanel
+                  patientId={customer.userId}
+                  patientName={customer.firstName}
+                  thresholdsEditable
+                  style={styles.healthPanel}
+                />
+              </AdaptiveAnimatedView>
+            )}
           </ScrollView>
         </>
       )}
+
+      {/* 🩺 Health data during a call, over the call interface */}
+      <Modal
+        visible={inCall && isHealthPanelOpen}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsHealthPanelOpen(false)}
+      >
+        <LinearGradient
+          colors={COLORS.BRAND_GRADIENT}
+          locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+          start={COLORS.BRAND_GRADIENT_START}
+          style={styles.container}
+        >
+          <View style={styles.healthModalHeader}>
+            <Text style={styles.headerTitle}>
+              {customer.firstName} {customer.lastName}
+            </Text>
+            <TouchableOpacity
+              onPress={() => setIsHealthPanelOpen(false)}
+              hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+              accessibilityRole="button"
+              accessibilityLabel="Back to call"
+            >
+              <Ionicons name="close" size={26} color={COLORS.WHITE} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView contentContainerStyle={styles.healthModalContent}>
+            <PatientHealthPanel patientId={customer.userId} patientName={customer.firstName} live />
+          </ScrollView>
+        </LinearGradient>
+      </Modal>
     </LinearGradient>
   );
 };
@@ -1106,6 +1237,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginBottom: 12,
   },
+  healthPanel: {
+    marginTop: 20,
+  },
+  healthModalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 24,
+    paddingBottom: 12,
+  },
+  healthModalContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
   floatingDebugButton: {
     position: 'absolute',
     bottom: 100,
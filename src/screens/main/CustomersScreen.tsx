@@ -1,8 +1,16 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useCallback } from 'react';
-import { View, Text, StyleSheet, Image, RefreshControl, Alert } from 'react-native';
+import React, { useCallback, useMemo } from 'react';
+import {
+  ActivityIndicator,
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  RefreshControl,
+  Alert,
+} from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 
 import {
@@ -13,6 +21,8 @@ import {
   useAdaptiveTheme,
   PerformanceMonitor,
 } from '../../components/adaptive/AdaptiveComponents';
+import { FilterChips } from '../../components/common/FilterChips';
+import { LastUpdatedIndicator } from '../../components/common/LastUpdatedIndicator';
 import { SearchInput } from '../../components/common/SearchInput';
 import {
   CustomerSkeleton,
@@ -21,23 +31,36 @@ import {
   ShimmerProvider,
 } from '../../components/common/SkeletonLoader';
 import { COLORS } from '../../constants';
+import { useCallHistory } from '../../hooks/useCallHistory';
 import { useEntityList } from '../../hooks/useEntityList';
 import type { Customer } from '../../services/customersService';
 import type { AppDispatch } from '../../store';
 import { selectIsAuthenticated } from '../../store/selectors/authSelectors';
 import {
-  selectLightweightCustomers,
   selectCustomersLoading,
+  selectCustomersLoadingMore,
   selectCustomersError,
+  selectCustomersPagination,
+  selectCustomersCacheStatus,
+  selectCustomersFilters,
   selectFilteredCustomersCount,
-} from '../../store/selectors/customersSelectors';
+} from '../../store/selectors/entitiesSelectors';
 import { logoutUser } from '../../store/slices/authSlice';
-import { fetchCustomers, setSearchQuery } from '../../store/slices/customersSlice';
+import type { CustomersFilters } from '../../store/slices/entitiesSlice';
+import {
+  fetchNormalizedCustomers,
+  loadCachedCustomers,
+  selectAllNormalizedCustomers,
+  setCustomersFilters,
+  setCustomersSearchQuery,
+} from '../../store/slices/entitiesSlice';
 
 const CustomersScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const dispatch = useDispatch<AppDispatch>();
   const isAuthenticated = useSelector(selectIsAuthenticated);
+  const { missedCount: missedCalls } = useCallHistory(null);
+  const filters = useSelector(selectCustomersFilters);
 
   // Enhanced entity list with performance tracking and error handling
   const {
@@ -48,16 +71,26 @@ const CustomersScreen: React.FC = () => {
     refreshing,
     onRefresh,
     handleSearchChange,
+    handleFiltersChange,
+    loadMore,
+    isLoadingMore,
+    lastUpdated,
+    isShowingCachedData,
     retry,
     retryCount,
     loadingStates,
-  } = useEntityList<Customer>({
-    fetchAction: fetchCustomers,
-    setSearchQueryAction: setSearchQuery,
-    dataSelector: selectLightweightCustomers,
+  } = useEntityList<Customer, CustomersFilters>({
+    fetchAction: fetchNormalizedCustomers,
+    loadCachedAction: loadCachedCustomers,
+    setSearchQueryAction: setCustomersSearchQuery,
+    setFiltersAction: setCustomersFilters,
+    dataSelector: selectAllNormalizedCustomers,
     loadingSelector: selectCustomersLoading,
+    loadingMoreSelector: selectCustomersLoadingMore,
     errorSelector: selectCustomersError,
     filteredCountSelector: selectFilteredCustomersCount,
+    paginationSelector: selectCustomersPagination,
+    cacheStatusSelector: selectCustomersCacheStatus,
     enablePerformanceLogging: __DEV__,
     screenName: 'CustomersScreen',
   });
@@ -72,6 +105,23 @@ const CustomersScreen: React.FC = () => {
     getFlatListOptimizations,
   } = useAdaptiveTheme();
 
+  const filterChips = useMemo(
+    () => [
+      { key: 'onlineOnly', label: 'Online now', active: filters.onlineOnly },
+      { key: 'verifiedOnly', label: 'Verified', active: filters.verifiedOnly },
+    ],
+    [filters]
+  );
+
+  const handleFilterToggle = useCallback(
+    (key: string) => {
+      if (key === 'onlineOnly' || key === 'verifiedOnly') {
+        handleFiltersChange({ [key]: !filters[key] });
+      }
+    },
+    [filters, handleFiltersChange]
+  );
+
   // Memoized customer age calculation for performance
   const getCustomerAge = useCallback((dateOfBirth: string) => {
     return new Date().getFullYear() - new Date(dateOfBirth).getFullYear();
@@ -226,6 +276,35 @@ const CustomersScreen: React.FC = () => {
               <Text style={styles.headerTitle}>My Patients</Text>
               <Text style={styles.headerSubtitle}>Manage your patient consultations</Text>
             </View>
+            <AdaptiveTouchableOpacity
+              style={
+                isLowEndDevice
+                  ? [styles.logoutButton, styles.logoutButtonSimple, styles.appLockButton]
+                  : [styles.logoutButton, styles.appLockButton]
+              }
+              onPress={() => navigation.navigate('AppLockSettings')}
+              enableHaptics={!isLowEndDevice}
+              accessibilityLabel="Security settings"
+            >
+              <Ionicons name="lock-closed-outline" size={24} color={COLORS.WHITE} />
+            </AdaptiveTouchableOpacity>
+            <AdaptiveTouchableOpacity
+              style={
+                isLowEndDevice
+                  ? [styles.logoutButton, styles.logoutButtonSimple, styles.callHistoryButton]
+                  : [styles.logoutButton, styles.callHistoryButton]
+              }
+              onPress={() => navigation.navigate('CallHistory')}
+              enableHaptics={!isLowEndDevice}
+              accessibilityLabel="Call history"
+            >
+              <Ionicons name="call-outline" size={24} color={COLORS.WHITE} />
+              {missedCalls > 0 && (
+                <View style={styles.missedCallsBadge}>
+                  <Text style={styles.missedCallsText}>{missedCalls}</Text>
+                </View>
+              )}
+            </AdaptiveTouchableOpacity>
             {isAuthenticated && (
               <AdaptiveTouchableOpacity
                 style={
@@ -271,7 +350,13 @@ const CustomersScreen: React.FC = () => {
                 <Text style={styles.countText}>{filteredCustomersCount}</Text>
               </View>
             </View>
+            <LastUpdatedIndicator timestamp={lastUpdated} isStale={isShowingCachedData} />
           </View>
+          <FilterChips
+            chips={filterChips}
+            onToggle={handleFilterToggle}
+            testID="customers-filters"
+          />
 
           <AdaptiveFlatList
             data={lightweightCustomers}
@@ -294,6 +379,13 @@ const CustomersScreen: React.FC = () => {
             initialNumToRender={isLowEndDevice ? 5 : 10}
             maxToRenderPerBatch={isLowEndDevice ? 5 : 10}
             windowSize={isLowEndDevice ? 7 : 10}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isLoadingMore ? (
+                <ActivityIndicator style={styles.loadingMore} color={COLORS.SECONDARY} />
+              ) : null
+            }
             ListEmptyComponent={
               loadingStates.isLoading && !loadingStates.hasData ? (
                 <ShimmerProvider>
@@ -530,6 +622,32 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: '500',
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  appLockButton: {
+    marginRight: 8,
+  },
+  callHistoryButton: {
+    marginRight: 8,
+  },
+  missedCallsBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: COLORS.ERROR,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  missedCallsText: {
+    color: COLORS.WHITE,
+    fontSize: 11,
+    fontWeight: '700',
+  },
   logoutButton: {
     backgroundColor: COLORS.BUTTON_SECONDARY, // OLD APP semi-transparent overlay
     borderRadius: 20,
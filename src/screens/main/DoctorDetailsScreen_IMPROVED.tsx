@@ -40,18 +40,22 @@ import { EnterpriseCallInterface } from '../../components/daily/EnterpriseCallIn
 import { IntegrationVerifier } from '../../components/daily/IntegrationVerifier';
 import { FCMTokenDebugPanel } from '../../components/debug/FCMTokenDebugPanel';
 import CallDebugPanel, { type CallDebugInfo } from '../../components/CallDebugPanel';
-import { VIDEO_CALL_CONFIG } from '../../config/videoCallConfig';
 import { COLORS } from '../../constants';
+import { useConsultationAppointmentId } from '../../hooks/useConsultationAppointmentId';
 import { useOptimizedLoading } from '../../hooks/useOptimizedLoading';
+import { useOutgoingCallOutcome } from '../../hooks/useOutgoingCallOutcome';
 import { usePerformanceTracking, useDimensionTracking } from '../../hooks/usePerformanceTracking';
+import ChannelService from '../../services/channelService';
 import deviceCapabilityService from '../../services/deviceCapabilityService';
 import type { RootState } from '../../store';
 import type { HealthSpecialistDto } from '../../types/api';
+import { VideoCallProvider } from '../../types/videoCallProvider';
 import { permissionAwareCallInitiator } from '../../utils/PermissionAwareCallInitiator';
 import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
 import VideoCallDebugger from '../../utils/VideoCallDebugger';
 import { validateUUID } from '../../utils/uuidValidator';
 import { callsApi } from '../../services/api/callsApi';
+import CallLifecycleManager from '../../services/CallLifecycleManager';
 
 interface DoctorDetailsParamList {
   DoctorDetails: {
@@ -64,6 +68,7 @@ interface DoctorDetailsParamList {
       callerType: 'customer' | 'doctor';
       callType: 'audio' | 'video';
       roomUrl: string;
+      callId?: string;
       metadata?: Record<string, any>;
     };
   };
@@ -158,6 +163,12 @@ const DoctorDetailsScreen: React.FC = () => {
   const [inCall, setInCall] = useState(false);
   const [callType, setCallType] = useState<'audio' | 'video'>('video');
   const [roomUrl, setRoomUrl] = useState<string | undefined>(undefined);
+  const [meetingToken, setMeetingToken] = useState<string | undefined>(undefined);
+  const [appointmentId, setAppointmentId] = useState<number | string | undefined>(undefined);
+  const [outgoingCallId, setOutgoingCallId] = useState<string | null>(null);
+
+  // 📅 Booked consultation a call placed from here is recorded against
+  const consultationAppointmentId = useConsultationAppointmentId({ doctorId: doctor.id });
 
   // 🔍 DEBUG: FCM Token Debug Panel
   const [showFCMDebugPanel, setShowFCMDebugPanel] = useState(false);
@@ -245,6 +256,34 @@ const DoctorDetailsScreen: React.FC = () => {
     }, [])
   );
 
+  // Call handlers for CallInterface
+  const handleCallError = useCallback((error: Error) => {
+    console.error('Call error:', error);
+
+    // 🧭 End call session with navigation manager on error
+    CallNavigationManager.getInstance().endCallSession();
+
+    setInCall(false);
+    Alert.alert('Call Error', error.message || 'An error occurred during the call');
+  }, []);
+
+  // 🔑 Join a room the doctor provisioned with this user's own meeting token
+  const joinProvisionedRoom = useCallback(
+    async (url: string, type: 'audio' | 'video') => {
+      try {
+        const room = await ChannelService.getConsultationRoomAccess(url, type, VideoCallProvider.DAILY);
+        setCallType(type);
+        setRoomUrl(room.roomUrl);
+        setMeetingToken(room.token ?? undefined);
+        setAppointmentId(room.appointmentId);
+        setInCall(true);
+      } catch (error) {
+        handleCallError(error instanceof Error ? error : new Error('Could not join the consultation room'));
+      }
+    },
+    [handleCallError]
+  );
+
   // 🧭 Handle call restoration when screen is opened with restoreCall flag
   useEffect(() => {
     if (restoreCall && !inCall) {
@@ -259,31 +298,29 @@ const DoctorDetailsScreen: React.FC = () => {
       if (persistedCallState && persistedCallState.isInCall) {
         console.log('✅ Found valid persisted call state, restoring call');
 
-        // Restore the call state
-        setCallType(persistedCallState.callType);
-        setRoomUrl(persistedCallState.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL);
-        setInCall(true);
+        // Restore the call state with a fresh meeting token
+        joinProvisionedRoom(persistedCallState.roomUrl ?? '', persistedCallState.callType);
 
         // ✅ Background recovery is now handled by EnterpriseCallInterface + VideoCallBackgroundManager
       } else {
         console.log('❌ No valid call state to restore (call was ended intentionally or expired)');
       }
     }
-  }, [restoreCall, inCall, doctor.firstName, doctor.lastName]);
+  }, [restoreCall, inCall, doctor.firstName, doctor.lastName, joinProvisionedRoom]);
 
   // 📞 CRITICAL FIX: Handle incoming call data from push notification
   // This is called when user answers an incoming call via CallKeep/push notification
+  const joinedIncomingCallRef = useRef<string | null>(null);
   useEffect(() => {
-    if (incomingCallData && !inCall) {
+    if (incomingCallData && !inCall && joinedIncomingCallRef.current !== incomingCallData.callUuid) {
+      joinedIncomingCallRef.current = incomingCallData.callUuid;
       console.log('📞 Incoming call detected - automatically showing call interface');
       console.log('   Caller:', incomingCallData.callerName);
       console.log('   Call type:', incomingCallData.callType);
       console.log('   Room URL:', incomingCallData.roomUrl);
 
-      // Set call state to show the call interface
-      setCallType(incomingCallData.callType);
-      setRoomUrl(incomingCallData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL);
-      setInCall(true);
+      // Show the call interface once the room grants this user a token
+      joinProvisionedRoom(incomingCallData.roomUrl, incomingCallData.callType);
 
       // Log for debugging
       VideoCallDebugger.logCallStart({
@@ -292,7 +329,7 @@ const DoctorDetailsScreen: React.FC = () => {
           ? `${user?.firstName || ''} ${user?.lastName || ''}`
           : `Dr. ${user?.firstName || ''} ${user?.lastName || ''}`,
         userRole: user?.accountType || 'unknown',
-        roomUrl: incomingCallData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL,
+        roomUrl: incomingCallData.roomUrl,
         screen: 'DoctorDetailsScreen_IMPROVED (Incoming Call)',
       });
 
@@ -304,13 +341,14 @@ const DoctorDetailsScreen: React.FC = () => {
           { doctor },
           `Dr. ${doctor.firstName} ${doctor.lastName}`,
           'doctor',
-          incomingCallData.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+          incomingCallData.roomUrl,
+          incomingCallData.callId
         );
       } catch {}
 
       console.log('✅ Incoming call interface activated');
     }
-  }, [incomingCallData, inCall, user]);
+  }, [incomingCallData, inCall, user, joinProvisionedRoom]);
 
   // Reset anomaly logging when viewing a different entity
   useEffect(() => {
@@ -319,17 +357,6 @@ const DoctorDetailsScreen: React.FC = () => {
 
   // ✅ WORKING PATTERN: Simple call management using fixed CallInterface
 
-  // Call handlers for CallInterface
-  const handleCallError = useCallback((error: Error) => {
-    console.error('Call error:', error);
-
-    // 🧭 End call session with navigation manager on error
-    CallNavigationManager.getInstance().endCallSession();
-
-    setInCall(false);
-    Alert.alert('Call Error', error.message || 'An error occurred during the call');
-  }, []);
-
   const handleEndCall = useCallback(() => {
     console.log('🔴 DoctorDetailsScreen: handleEndCall called');
     VideoCallDebugger.logCallEnd();
@@ -342,12 +369,18 @@ const DoctorDetailsScreen: React.FC = () => {
     // Clear call state immediately to prevent restoration
     setInCall(false);
     setRoomUrl(undefined);
+    setMeetingToken(undefined);
+    setAppointmentId(undefined);
+    setOutgoingCallId(null);
     console.log('🔴 DoctorDetailsScreen: Call state cleared (inCall=false, roomUrl=undefined)');
 
     // ✅ Cleanup is handled by EnterpriseCallInterface - no need to call here
     // Calling it here creates race conditions
   }, []);
 
+  // 📞 Leave the room if the call is declined, the recipient is busy or nobody answers
+  useOutgoingCallOutcome(outgoingCallId, `Dr. ${doctor.firstName} ${doctor.lastName}`, handleEndCall);
+
   // PERFORMANCE: Memoized call handler with optimized dependencies
   const isStartingCallRef = useRef(false);
   const handleCallPress = useCallback(
@@ -390,6 +423,18 @@ const DoctorDetailsScreen: React.FC = () => {
           validateUUID(doctor.userId, 'Doctor userId');
           console.log('✅ Valid doctor userId format confirmed:', doctor.userId);
 
+          // 🔑 Provision the private room first so the push can send the doctor there
+          const room = await ChannelService.provisionConsultationRoom(
+            doctor.userId,
+            String(user.id),
+            requestedCallType,
+            VideoCallProvider.DAILY,
+            consultationAppointmentId
+          );
+          if (!room.roomUrl || !room.token) {
+            throw new Error('The consultation room is not ready. Please try again.');
+          }
+
           // ✅ FIX: Use userId (not doctor.id) to look up user in backend
           const initiateResult = await callsApi.initiateCall(
             doctor.userId,  // ✅ FIX: Use User ID for backend lookup
@@ -408,7 +453,8 @@ const DoctorDetailsScreen: React.FC = () => {
                 lastName: doctor.lastName,
                 specialistType: doctor.specialistType,
               },
-            }
+            },
+            room.channelName
           );
 
           // ✅ Call ALWAYS succeeds now - push notification is optional
@@ -439,7 +485,7 @@ const DoctorDetailsScreen: React.FC = () => {
               initiationSuccess: true,
               pushStatus: (initiateResult as any).pushStatus,
               pushError: (initiateResult as any).pushError,
-              roomUrl: initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL,
+              roomUrl: room.roomUrl,
               requestPayload: {
                 recipientId: doctor.userId,
                 callType: requestedCallType,
@@ -462,10 +508,26 @@ const DoctorDetailsScreen: React.FC = () => {
                 ? `${user.firstName || ''} ${user.lastName || ''}`
                 : `Dr. ${user.firstName || ''} ${user.lastName || ''}`,
             userRole: user.accountType || 'unknown',
-            roomUrl: initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL,
+            roomUrl: room.roomUrl,
             screen: 'DoctorDetailsScreen_IMPROVED',
           });
 
+          // 📞 Ring until the recipient answers, declines, is busy or the call times out
+          const callId = initiateResult.data?.callId;
+          if (callId) {
+            await CallLifecycleManager.getInstance().startOutgoingCall(
+              {
+                callId,
+                participantId: doctor.userId,
+                participantName: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+                participantType: 'doctor',
+                callType: requestedCallType,
+              },
+              initiateResult.data?.ringTimeoutMs
+            );
+            setOutgoingCallId(callId);
+          }
+
           // 🧭 Register call session with navigation manager
           CallNavigationManager.getInstance().startCallSession(
             requestedCallType,
@@ -473,12 +535,15 @@ const DoctorDetailsScreen: React.FC = () => {
             { doctor },
             `Dr. ${doctor.firstName} ${doctor.lastName}`,
             'doctor',
-            initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL
+            room.roomUrl,
+            callId
           );
 
           // Join the room after sending push notification
           setCallType(requestedCallType);
-          setRoomUrl(initiateResult.data?.roomUrl || VIDEO_CALL_CONFIG.DEFAULT_ROOM_URL);
+          setRoomUrl(room.roomUrl);
+          setMeetingToken(room.token);
+          setAppointmentId(room.appointmentId);
           setInCall(true);
         } catch (error: any) {
           console.error('❌ Failed to initiate call:', error);
@@ -579,6 +644,7 @@ const DoctorDetailsScreen: React.FC = () => {
       doctor?.id,
       doctor?.firstName,
       doctor?.lastName,
+      consultationAppointmentId,
     ]
   );
 
@@ -588,6 +654,14 @@ const DoctorDetailsScreen: React.FC = () => {
     navigation.goBack();
   }, [navigation]);
 
+  const handleBookAppointment = useCallback(() => {
+    (navigation as any).navigate('BookAppointment', {
+      doctorId: doctor.id,
+      doctorName: `${doctor.firstName} ${doctor.lastName}`,
+      consultationFee: doctor.teleconsultationFee,
+    });
+  }, [navigation, doctor.id, doctor.firstName, doctor.lastName, doctor.teleconsultationFee]);
+
   // 🧭 Navigation guards to prevent leaving call screen during active calls
   useEffect(() => {
     if (!inCall) return;
@@ -725,9 +799,11 @@ const DoctorDetailsScreen: React.FC = () => {
       </View>
 
       {/* ✨ ENTERPRISE: Using enhanced EnterpriseCallInterface component */}
-      {inCall && roomUrl ? (
+      {inCall && roomUrl && meetingToken ? (
         <EnterpriseCallInterface
           roomUrl={roomUrl}
+          meetingToken={meetingToken}
+          appointmentId={appointmentId}
           callType={callType}
           contactName={`Dr. ${doctor.firstName} ${doctor.lastName}`}
           contactTitle={doctor.specialistType}
@@ -740,6 +816,7 @@ const DoctorDetailsScreen: React.FC = () => {
               : `Dr. ${user?.firstName} ${user?.lastName}`
           }
           userId={user?.id}
+          callId={outgoingCallId ?? incomingCallData?.callId}
           medicalContext={{
             consultationType: 'routine',
             appointmentTime: new Date(),
@@ -981,6 +1058,32 @@ const DoctorDetailsScreen: React.FC = () => {
                     Audio Call
                   </Text>
                 </AdaptiveTouchableOpacity>
+
+                <AdaptiveTouchableOpacity
+                  style={[
+                    styles.secondaryDemoButton,
+                    styles.bookAppointmentButton,
+                    screenData.isSmallScreen && styles.secondaryDemoButtonSmall,
+                  ]}
+                  onPress={handleBookAppointment}
+                  enableHaptics
+                  accessibilityRole="button"
+                  accessibilityLabel="Book an appointment"
+                >
+                  <Ionicons
+                    name="calendar"
+                    size={screenData.isSmallScreen ? 16 : 18}
+                    color="#fff"
+                  />
+                  <Text
+                    style={[
+                      styles.secondaryDemoText,
+                      screenData.isSmallScreen && styles.secondaryDemoTextSmall,
+                    ]}
+                  >
+                    Book Appointment
+                  </Text>
+                </AdaptiveTouchableOpacity>
               </AdaptiveCard>
             </AdaptiveAnimatedView>
           </ScrollView>
@@ -1238,6 +1341,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#4CAF50',
   },
+  bookAppointmentButton: {
+    backgroundColor: COLORS.BUTTON_SEMI_TRANSPARENT,
+    borderColor: COLORS.PRIMARY,
+  },
   secondaryDemoButtonSmall: {
     paddingVertical: 10,
     paddingHorizontal: 16,
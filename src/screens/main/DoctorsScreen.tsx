@@ -1,8 +1,16 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useCallback } from 'react';
-import { View, Text, StyleSheet, RefreshControl, Alert, Image } from 'react-native';
+import React, { useCallback, useMemo } from 'react';
+import {
+  ActivityIndicator,
+  View,
+  Text,
+  StyleSheet,
+  RefreshControl,
+  Alert,
+  Image,
+} from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 
 import {
@@ -13,29 +21,47 @@ import {
   useAdaptiveTheme,
   PerformanceMonitor,
 } from '../../components/adaptive/AdaptiveComponents';
+import { FilterChips } from '../../components/common/FilterChips';
+import { LastUpdatedIndicator } from '../../components/common/LastUpdatedIndicator';
 import {
   DoctorSkeleton,
   HeaderSkeleton,
   ShimmerProvider,
 } from '../../components/common/SkeletonLoader';
 import { COLORS } from '../../constants';
+import { useCallHistory } from '../../hooks/useCallHistory';
 import { useEntityList } from '../../hooks/useEntityList';
 import type { AppDispatch } from '../../store';
 import { selectIsAuthenticated } from '../../store/selectors/authSelectors';
 import {
-  selectLightweightDoctors,
   selectDoctorsLoading,
+  selectDoctorsLoadingMore,
   selectDoctorsError,
+  selectDoctorsPagination,
+  selectDoctorsCacheStatus,
+  selectDoctorsFilters,
   selectFilteredDoctorsCount,
-} from '../../store/selectors/doctorsSelectors';
+} from '../../store/selectors/entitiesSelectors';
 import { logoutUser } from '../../store/slices/authSlice';
-import { fetchDoctors, setSearchQuery } from '../../store/slices/doctorsSlice';
+import type { DoctorsFilters } from '../../store/slices/entitiesSlice';
+import {
+  fetchNormalizedDoctors,
+  loadCachedDoctors,
+  selectAllNormalizedDoctors,
+  setDoctorsFilters,
+  setDoctorsSearchQuery,
+} from '../../store/slices/entitiesSlice';
 import type { HealthSpecialist as HealthSpecialistDto } from '../../types/api';
 
+// Doctors rated this high or better when the "Top rated" filter is on
+const TOP_RATED_MIN_RATING = 4;
+
 const DoctorsScreen: React.FC = () => {
   const navigation = useNavigation<any>();
   const dispatch = useDispatch<AppDispatch>();
   const isAuthenticated = useSelector(selectIsAuthenticated);
+  const { missedCount: missedCalls } = useCallHistory(null);
+  const filters = useSelector(selectDoctorsFilters);
 
   // Enhanced entity list with performance tracking and error handling
   const {
@@ -46,22 +72,54 @@ const DoctorsScreen: React.FC = () => {
     refreshing,
     onRefresh,
     handleSearchChange,
+    handleFiltersChange,
+    loadMore,
+    isLoadingMore,
+    lastUpdated,
+    isShowingCachedData,
     retry,
     retryCount,
     loadingStates,
-  } = useEntityList<HealthSpecialistDto>({
-    fetchAction: fetchDoctors,
-    setSearchQueryAction: setSearchQuery,
-    dataSelector: selectLightweightDoctors,
+  } = useEntityList<HealthSpecialistDto, DoctorsFilters>({
+    fetchAction: fetchNormalizedDoctors,
+    loadCachedAction: loadCachedDoctors,
+    setSearchQueryAction: setDoctorsSearchQuery,
+    setFiltersAction: setDoctorsFilters,
+    dataSelector: selectAllNormalizedDoctors,
     loadingSelector: selectDoctorsLoading,
+    loadingMoreSelector: selectDoctorsLoadingMore,
     errorSelector: selectDoctorsError,
     filteredCountSelector: selectFilteredDoctorsCount,
+    paginationSelector: selectDoctorsPagination,
+    cacheStatusSelector: selectDoctorsCacheStatus,
     enablePerformanceLogging: __DEV__,
     screenName: 'DoctorsScreen',
   });
 
   const { theme, isLowEndDevice, getFlatListOptimizations } = useAdaptiveTheme();
 
+  const filterChips = useMemo(
+    () => [
+      { key: 'onlineOnly', label: 'Online now', active: filters.onlineOnly },
+      { key: 'verifiedOnly', label: 'Verified', active: filters.verifiedOnly },
+      { key: 'topRated', label: 'Top rated', active: filters.minRating >= TOP_RATED_MIN_RATING },
+    ],
+    [filters]
+  );
+
+  const handleFilterToggle = useCallback(
+    (key: string) => {
+      if (key === 'topRated') {
+        handleFiltersChange({
+          minRating: filters.minRating >= TOP_RATED_MIN_RATING ? 0 : TOP_RATED_MIN_RATING,
+        });
+      } else if (key === 'onlineOnly' || key === 'verifiedOnly') {
+        handleFiltersChange({ [key]: !filters[key] });
+      }
+    },
+    [filters, handleFiltersChange]
+  );
+
   // Memoized rating display for performance
   const formatRating = useCallback((rating: number, totalReviews: number) => {
     return {
@@ -203,6 +261,35 @@ const DoctorsScreen: React.FC = () => {
               <Text style={styles.headerTitle}>Find a Doctor</Text>
               <Text style={styles.headerSubtitle}>Connect with healthcare professionals</Text>
             </View>
+            <AdaptiveTouchableOpacity
+              style={
+                isLowEndDevice
+                  ? [styles.logoutButton, styles.logoutButtonSimple, styles.appLockButton]
+                  : [styles.logoutButton, styles.appLockButton]
+              }
+              onPress={() => navigation.navigate('AppLockSettings')}
+              enableHaptics={!isLowEndDevice}
+              accessibilityLabel="Security settings"
+            >
+              <Ionicons name="lock-closed-outline" size={24} color={COLORS.WHITE} />
+            </AdaptiveTouchableOpacity>
+            <AdaptiveTouchableOpacity
+              style={
+                isLowEndDevice
+                  ? [styles.logoutButton, styles.logoutButtonSimple, styles.callHistoryButton]
+                  : [styles.logoutButton, styles.callHistoryButton]
+              }
+              onPress={() => navigation.navigate('CallHistory')}
+              enableHaptics={!isLowEndDevice}
+              accessibilityLabel="Call history"
+            >
+              <Ionicons name="call-outline" size={24} color={COLORS.WHITE} />
+              {missedCalls > 0 && (
+                <View style={styles.missedCallsBadge}>
+                  <Text style={styles.missedCallsText}>{missedCalls}</Text>
+                </View>
+              )}
+            </AdaptiveTouchableOpacity>
             {isAuthenticated && (
               <AdaptiveTouchableOpacity
                 style={
@@ -235,7 +322,9 @@ const DoctorsScreen: React.FC = () => {
                 <Text style={styles.countText}>{filteredDoctorsCount}</Text>
               </View>
             </View>
+            <LastUpdatedIndicator timestamp={lastUpdated} isStale={isShowingCachedData} />
           </View>
+          <FilterChips chips={filterChips} onToggle={handleFilterToggle} testID="doctors-filters" />
           <AdaptiveFlatList
             data={lightweightDoctors}
             renderItem={renderDoctorItem}
@@ -258,6 +347,13 @@ const DoctorsScreen: React.FC = () => {
             initialNumToRender={isLowEndDevice ? 5 : 10}
             maxToRenderPerBatch={isLowEndDevice ? 5 : 10}
             windowSize={isLowEndDevice ? 7 : 10}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isLoadingMore ? (
+                <ActivityIndicator style={styles.loadingMore} color={COLORS.SECONDARY} />
+              ) : null
+            }
             ListEmptyComponent={
               loadingStates.isLoading && !loadingStates.hasData ? (
                 <ShimmerProvider>
@@ -483,6 +579,32 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.TEXT_SECONDARY,
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  appLockButton: {
+    marginRight: 8,
+  },
+  callHistoryButton: {
+    marginRight: 8,
+  },
+  missedCallsBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: COLORS.ERROR,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  missedCallsText: {
+    color: COLORS.WHITE,
+    fontSize: 11,
+    fontWeight: '700',
+  },
   logoutButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     borderRadius: 20,
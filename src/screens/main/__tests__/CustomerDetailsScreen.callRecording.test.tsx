@@ -0,0 +1,204 @@
+/**
+ * @jest-environment node
+ */
+/// <reference types="@types/jest" />
+
+import { configureStore } from '@reduxjs/toolkit';
+import { fireEvent, render, waitFor } from '@testing-library/react-native';
+import React from 'react';
+import { Provider } from 'react-redux';
+
+import ChannelService from '../../../services/channelService';
+import appointmentsReducer from '../../../store/slices/appointmentsSlice';
+import type { Appointment } from '../../../types';
+import CustomerDetailsScreen from '../CustomerDetailsScreen_IMPROVED';
+
+const customer = {
+  id: 'patient-5',
+  userId: '3f0c8a52-9a55-4c55-8f6a-0d5d7cbe2f11',
+  firstName: 'Jane',
+  lastName: 'Doe',
+};
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ goBack: jest.fn(), navigate: jest.fn(), setOptions: jest.fn() }),
+  useRoute: () => ({ params: { customer } }),
+  useFocusEffect: jest.fn(),
+}));
+
+// The real recording hook behind the call screen, fed the props the details screen passes
+jest.mock('../../../components/daily/EnterpriseCallInterface', () => {
+  const { Text: MockText } = jest.requireActual('react-native');
+  const { useCallRecording: useRecording } = jest.requireActual(
+    '../../../hooks/daily/useCallRecording'
+  );
+  const callObject = {
+    on: jest.fn(),
+    off: jest.fn(),
+    sendAppMessage: jest.fn(),
+    startRecording: jest.fn(),
+    stopRecording: jest.fn(),
+  };
+  return {
+    EnterpriseCallInterface: ({
+      appointmentId,
+      roomUrl,
+    }: {
+      appointmentId?: number;
+      roomUrl: string;
+    }) => {
+      const recording = useRecording(callObject, { appointmentId, roomUrl });
+      return <MockText>{recording.canRecord ? 'can-record' : 'cannot-record'}</MockText>;
+    },
+  };
+});
+
+jest.mock('../../../components/health/PatientHealthPanel', () => ({
+  PatientHealthPanel: () => null,
+}));
+
+jest.mock('../../../services/channelService', () => ({
+  __esModule: true,
+  default: {
+    provisionConsultationRoom: jest.fn(),
+    getConsultationRoomAccess: jest.fn(),
+    parseAppointmentId: jest.fn(() => null),
+  },
+}));
+
+jest.mock('../../../services/api/callsApi', () => ({
+  callsApi: {
+    initiateCall: jest.fn().mockResolvedValue({ success: true, data: { callId: 'call-1' } }),
+  },
+}));
+
+jest.mock('../../../services/CallLifecycleManager', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      startOutgoingCall: jest.fn().mockResolvedValue(undefined),
+      addListener: jest.fn(() => jest.fn()),
+    }),
+  },
+}));
+
+jest.mock('../../../services/CallNavigationManager', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      startCallSession: jest.fn(),
+      endCallSession: jest.fn(),
+      enableNavigationGuards: jest.fn(),
+      getCurrentCallState: jest.fn(() => null),
+    }),
+  },
+}));
+
+jest.mock('../../../hooks/useReauthentication', () => ({
+  useReauthentication: () => true,
+}));
+
+jest.mock('../../../hooks/useOptimizedLoading', () => ({
+  useOptimizedLoading: () => ({ isLoading: false, showContent: true, finishLoading: jest.fn() }),
+}));
+
+jest.mock('../../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ trackWarning: jest.fn(), trackCriticalError: jest.fn() }),
+  },
+}));
+
+const appointment = (overrides: Partial<Appointment>): Appointment =>
+  ({
+    appointment_id: 42,
+    patient_id: customer.id,
+    doctor_id: 'doc-7',
+    appointment_date: new Date(Date.now() - 5 * 60000).toISOString(),
+    duration_minutes: 30,
+    fee: 0,
+    status: 'confirmed',
+    type: 'video_call',
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  }) as unknown as Appointment;
+
+const renderScreen = (appointments: Appointment[]) => {
+  const user = {
+    id: 'doc-user-7',
+    firstName: 'Ada',
+    lastName: 'Smith',
+    accountType: 'health_specialist',
+  };
+  const store = configureStore({
+    reducer: {
+      auth: (state = { user }) => state,
+      appointments: appointmentsReducer,
+    },
+    preloadedState: {
+      appointments: { ...appointmentsReducer(undefined, { type: 'init' }), appointments },
+    },
+  });
+  return render(
+    <Provider store={store}>
+      <CustomerDetailsScreen />
+    </Provider>
+  );
+};
+
+const startVideoCall = async (screen: ReturnType<typeof render>) => {
+  fireEvent.press(screen.getByText('Video Call'));
+  await waitFor(() => expect(ChannelService.provisionConsultationRoom).toHaveBeenCalled());
+};
+
+describe('CustomerDetailsScreen consultation calls', () => {
+  beforeEach(() => {
+    (ChannelService.provisionConsultationRoom as jest.Mock).mockImplementation(
+      async (_doctorId, _customerId, callType, provider, appointmentId) => ({
+        channelName: 'consultation_doc-user-7_patient',
+        participants: { doctorId: 'doc-user-7', customerId: customer.userId },
+        callType,
+        provider,
+        callId: 'daily_consultation',
+        token: 'meeting-token',
+        roomUrl: 'https://hopmed.daily.co/consultation_doc-user-7_patient',
+        appointmentId,
+      })
+    );
+  });
+
+  it('lets the doctor record a call placed during the booked video consultation', async () => {
+    const screen = renderScreen([
+      appointment({ appointment_id: 41, type: 'in_person' }),
+      appointment({ appointment_id: 42 }),
+    ]);
+
+    await startVideoCall(screen);
+
+    expect(ChannelService.provisionConsultationRoom).toHaveBeenCalledWith(
+      'doc-user-7',
+      customer.userId,
+      'video',
+      expect.anything(),
+      42
+    );
+    await waitFor(() => expect(screen.getByText('can-record')).toBeTruthy());
+  });
+
+  it('offers no recording outside a booked consultation', async () => {
+    const screen = renderScreen([
+      appointment({ appointment_date: new Date(Date.now() + 3 * 3600000).toISOString() }),
+    ]);
+
+    await startVideoCall(screen);
+
+    expect(ChannelService.provisionConsultationRoom).toHaveBeenCalledWith(
+      'doc-user-7',
+      customer.userId,
+      'video',
+      expect.anything(),
+      undefined
+    );
+    await waitFor(() => expect(screen.getByText('cannot-record')).toBeTruthy());
+  });
+});
@@ -0,0 +1,243 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Switch, Text, View } from 'react-native';
+import { useSelector } from 'react-redux';
+
+import { AdaptiveTouchableOpacity } from '../../components/adaptive/AdaptiveComponents';
+import { COLORS } from '../../constants';
+import type { AppLockSettings } from '../../services/AppLockService';
+import AppLockService, { APP_LOCK_TIMEOUT_OPTIONS } from '../../services/AppLockService';
+import { selectUser } from '../../store/selectors/authSelectors';
+
+const AppLockSettingsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const user = useSelector(selectUser);
+  const isDoctor = user?.accountType === 'health_specialist';
+  const [settings, setSettings] = useState<AppLockSettings>(() =>
+    AppLockService.getInstance().getSettings()
+  );
+  const [isAvailable, setIsAvailable] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const service = AppLockService.getInstance();
+    let isMounted = true;
+
+    Promise.all([service.initialize(), service.isAvailable()]).then(([, available]) => {
+      if (isMounted) {
+        setSettings(service.getSettings());
+        setIsAvailable(available);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const applySettings = useCallback(async (changes: Partial<AppLockSettings>) => {
+    const service = AppLockService.getInstance();
+    setIsSaving(true);
+    try {
+      const applied = await service.updateSettings(changes);
+      if (!applied) {
+        Alert.alert('App Lock', 'Face ID or fingerprint could not be verified. Please try again.');
+      }
+      setSettings(service.getSettings());
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Security</Text>
+          <Text style={styles.headerSubtitle}>Protect patient data on this device</Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.row}>
+          <Ionicons name="finger-print" size={24} color={COLORS.TEXT_PRIMARY} />
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle}>Unlock with Face ID or fingerprint</Text>
+            <Text style={styles.rowDescription}>
+              Asked when the app opens, and before showing patient details or call history
+            </Text>
+          </View>
+          <Switch
+            value={settings.enabled}
+            onValueChange={enabled => applySettings({ enabled })}
+            disabled={!isAvailable || isSaving}
+            trackColor={{ true: COLORS.SECONDARY, false: COLORS.GLASS_BG_DARKER }}
+            testID="app-lock-switch"
+          />
+        </View>
+
+        {!isAvailable && (
+          <Text style={styles.notice}>
+            Set up Face ID or a fingerprint in your device settings to use app lock.
+          </Text>
+        )}
+
+        {settings.enabled && (
+          <>
+            <Text style={styles.sectionTitle}>Lock after leaving the app</Text>
+            {APP_LOCK_TIMEOUT_OPTIONS.map(option => (
+              <AdaptiveTouchableOpacity
+                key={option.value}
+                style={styles.optionRow}
+                onPress={() => applySettings({ backgroundTimeoutMs: option.value })}
+                disabled={isSaving}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: settings.backgroundTimeoutMs === option.value }}
+              >
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                {settings.backgroundTimeoutMs === option.value && (
+                  <Ionicons name="checkmark" size={20} color={COLORS.SECONDARY} />
+                )}
+              </AdaptiveTouchableOpacity>
+            ))}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Devices</Text>
+        <AdaptiveTouchableOpacity
+          style={styles.optionRow}
+          onPress={() => navigation.navigate('Sessions')}
+          testID="open-sessions"
+        >
+          <Text style={styles.optionLabel}>Signed-in devices</Text>
+          <Ionicons name="chevron-forward" size={20} color={COLORS.TEXT_SECONDARY} />
+        </AdaptiveTouchableOpacity>
+
+        {!isDoctor && (
+          <>
+            <Text style={styles.sectionTitle}>Health data</Text>
+            <AdaptiveTouchableOpacity
+              style={styles.optionRow}
+              onPress={() => navigation.navigate('HealthSharing')}
+              testID="open-health-sharing"
+            >
+              <Text style={styles.optionLabel}>Sharing with doctors</Text>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.TEXT_SECONDARY} />
+            </AdaptiveTouchableOpacity>
+            <AdaptiveTouchableOpacity
+              style={styles.optionRow}
+              onPress={() => navigation.navigate('HealthAccessLog')}
+              testID="open-health-access-log"
+            >
+              <Text style={styles.optionLabel}>Access log</Text>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.TEXT_SECONDARY} />
+            </AdaptiveTouchableOpacity>
+            <AdaptiveTouchableOpacity
+              style={styles.optionRow}
+              onPress={() => navigation.navigate('HealthSourcePriority')}
+              testID="open-health-source-priority"
+            >
+              <Text style={styles.optionLabel}>Preferred sources</Text>
+              <Ionicons name="chevron-forward" size={20} color={COLORS.TEXT_SECONDARY} />
+            </AdaptiveTouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+  },
+  rowText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 4,
+  },
+  notice: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: COLORS.TEXT_PRIMARY,
+  },
+});
+
+export default AppLockSettingsScreen;
@@ -0,0 +1,225 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, RefreshControl, StyleSheet, Text, View } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import {
+  AdaptiveFlatList,
+  AdaptiveTouchableOpacity,
+} from '../../components/adaptive/AdaptiveComponents';
+import { getSharingLabel } from '../../components/health/HealthSharingGrantEditor';
+import { COLORS } from '../../constants';
+import type { AppDispatch } from '../../store';
+import { selectHealthAccessAudit } from '../../store/selectors/healthSharingSelectors';
+import { fetchHealthAccessAudit } from '../../store/slices/healthSharingSlice';
+import type { HealthAccessAuditEntry } from '../../types/health';
+
+const ACTIONS: Record<
+  HealthAccessAuditEntry['action'],
+  { verb: string; icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  viewed: { verb: 'viewed', icon: 'eye-outline', color: COLORS.TEXT_PRIMARY },
+  denied: { verb: 'was refused', icon: 'ban-outline', color: COLORS.ERROR },
+  granted: { verb: 'was given access to', icon: 'lock-open-outline', color: COLORS.SECONDARY },
+  updated: { verb: 'now has access to', icon: 'create-outline', color: COLORS.SECONDARY },
+  revoked: { verb: 'lost access to', icon: 'lock-closed-outline', color: COLORS.TEXT_SECONDARY },
+  expired: { verb: 'no longer has access to', icon: 'time-outline', color: COLORS.TEXT_SECONDARY },
+};
+
+const formatOccurredAt = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const HealthAccessLogScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { entries, page, hasMore, isLoading, error } = useSelector(selectHealthAccessAudit);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    dispatch(fetchHealthAccessAudit({ page: 1 }));
+  }, [dispatch]);
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      await dispatch(fetchHealthAccessAudit({ page: 1 }));
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [dispatch]);
+
+  const loadMore = useCallback(() => {
+    if (hasMore && !isLoading && entries.length > 0) {
+      dispatch(fetchHealthAccessAudit({ page: page + 1 }));
+    }
+  }, [dispatch, hasMore, isLoading, entries.length, page]);
+
+  const renderEntry = useCallback(({ item }: { item: HealthAccessAuditEntry }) => {
+    const action = ACTIONS[item.action];
+    const dataTypes = item.data_types.map(getSharingLabel).join(', ');
+
+    return (
+      <View style={styles.entryRow}>
+        <View style={styles.entryIcon}>
+          <Ionicons name={action.icon} size={20} color={action.color} />
+        </View>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryText}>
+            <Text style={styles.actorName}>{item.actor.name}</Text> {action.verb}{' '}
+            {dataTypes || 'your health data'}
+          </Text>
+          <Text style={styles.entryMeta}>{formatOccurredAt(item.occurred_at)}</Text>
+        </View>
+      </View>
+    );
+  }, []);
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Access Log</Text>
+          <Text style={styles.headerSubtitle}>Who has seen your health data</Text>
+        </View>
+      </View>
+
+      {isLoading && entries.length === 0 ? (
+        <ActivityIndicator color={COLORS.SECONDARY} style={styles.loading} />
+      ) : (
+        <AdaptiveFlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={item => item.id}
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              colors={[COLORS.SECONDARY]}
+              tintColor={COLORS.SECONDARY}
+            />
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="shield-checkmark-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>{error ?? 'No one has accessed your data'}</Text>
+            </View>
+          }
+          ListFooterComponent={
+            isLoading && !isRefreshing && entries.length > 0 ? (
+              <ActivityIndicator color={COLORS.SECONDARY} style={styles.footerLoading} />
+            ) : null
+          }
+        />
+      )}
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  footerLoading: {
+    marginVertical: 16,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  entryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.GLASS_BG_DARKER,
+    marginRight: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryText: {
+    fontSize: 15,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  actorName: {
+    fontWeight: '600',
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
+
+export default HealthAccessLogScreen;
@@ -0,0 +1,407 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+
+import { AdaptiveTouchableOpacity } from '../../components/adaptive/AdaptiveComponents';
+import type { SharingDoctor } from '../../components/health/HealthSharingGrantEditor';
+import {
+  HealthSharingGrantEditor,
+  getSharingLabel,
+} from '../../components/health/HealthSharingGrantEditor';
+import { COLORS } from '../../constants';
+import type { AppDispatch } from '../../store';
+import { selectAllAppointments } from '../../store/selectors/appointmentsSelectors';
+import {
+  selectActiveHealthSharingGrants,
+  selectHealthSharingError,
+  selectHealthSharingLoading,
+  selectHealthSharingSavingDoctorIds,
+  selectPastHealthSharingGrants,
+} from '../../store/selectors/healthSharingSelectors';
+import { fetchMyAppointments } from '../../store/slices/appointmentsSlice';
+import {
+  fetchHealthSharingGrants,
+  revokeHealthSharingGrant,
+  saveHealthSharingGrant,
+} from '../../store/slices/healthSharingSlice';
+import {
+  requestHealthSharingPermission,
+  selectPermissions,
+} from '../../store/slices/permissionSlice';
+import type { HealthSharingGrant, HealthSharingGrantRequest } from '../../types/health';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+const describeGrantEnd = (grant: HealthSharingGrant) => {
+  if (grant.revoked_at) return `Stopped ${formatDate(grant.revoked_at)}`;
+  if (!grant.expires_at) return 'Until you stop sharing';
+  const expiresAt = new Date(grant.expires_at).getTime();
+  return `${expiresAt > Date.now() ? 'Until' : 'Ended'} ${formatDate(grant.expires_at)}`;
+};
+
+const HealthSharingScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const dispatch = useDispatch<AppDispatch>();
+  const activeGrants = useSelector(selectActiveHealthSharingGrants);
+  const pastGrants = useSelector(selectPastHealthSharingGrants);
+  const isLoading = useSelector(selectHealthSharingLoading);
+  const error = useSelector(selectHealthSharingError);
+  const savingDoctorIds = useSelector(selectHealthSharingSavingDoctorIds);
+  const appointments = useSelector(selectAllAppointments);
+  const sharingPermission = useSelector(selectPermissions).healthSharing.status;
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingGrant, setEditingGrant] = useState<HealthSharingGrant | null>(null);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  // Appointments only need loading once, for the list of doctors
+  const appointmentsRequestedRef = useRef(false);
+
+  useEffect(() => {
+    dispatch(fetchHealthSharingGrants()).finally(() => setHasLoaded(true));
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (appointmentsRequestedRef.current || appointments.length > 0) return;
+    appointmentsRequestedRef.current = true;
+    dispatch(fetchMyAppointments({ limit: 100, sortBy: 'appointment_date' }));
+  }, [dispatch, appointments.length]);
+
+  // Doctors the patient has booked with and isn't already sharing with
+  const doctors = useMemo(() => {
+    const sharing = new Set(activeGrants.map(grant => grant.doctor_id));
+    const byId = new Map<string, SharingDoctor>();
+    for (const appointment of appointments) {
+      const id = String(appointment.doctor_id);
+      if (sharing.has(id) || byId.has(id)) continue;
+      const { user, specialties } = appointment.doctor;
+      byId.set(id, {
+        id,
+        name: `Dr. ${user.firstName} ${user.lastName}`,
+        specialty: specialties[0]?.name,
+      });
+    }
+    return [...byId.values()];
+  }, [appointments, activeGrants]);
+
+  const openEditor = useCallback((grant: HealthSharingGrant | null) => {
+    setEditingGrant(grant);
+    setIsEditorOpen(true);
+  }, []);
+
+  const handleSave = useCallback(
+    async (request: HealthSharingGrantRequest) => {
+      // Sharing only helps if this device can read health data to sync; it's
+      // asked once and the grant is saved whatever the answer
+      if (sharingPermission === 'unknown') {
+        await dispatch(requestHealthSharingPermission());
+      }
+      const result = await dispatch(saveHealthSharingGrant(request));
+      if (saveHealthSharingGrant.fulfilled.match(result)) {
+        setIsEditorOpen(false);
+      } else {
+        Alert.alert('Error', 'Unable to update sharing. Please try again.');
+      }
+    },
+    [dispatch, sharingPermission]
+  );
+
+  const confirmRevoke = useCallback(
+    (grant: HealthSharingGrant) => {
+      Alert.alert(
+        'Stop Sharing',
+        `${grant.doctor_name} will no longer see your health data, including during calls.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Stop Sharing',
+            style: 'destructive',
+            onPress: async () => {
+              const result = await dispatch(revokeHealthSharingGrant(grant));
+              if (revokeHealthSharingGrant.rejected.match(result)) {
+                Alert.alert('Error', 'Unable to stop sharing. Please try again.');
+              }
+            },
+          },
+        ]
+      );
+    },
+    [dispatch]
+  );
+
+  const renderGrant = (grant: HealthSharingGrant, isActive: boolean) => {
+    const isSaving = savingDoctorIds.includes(grant.doctor_id);
+
+    return (
+      <View key={grant.id} style={[styles.grantCard, !isActive && styles.pastGrantCard]}>
+        <View style={styles.grantHeader}>
+          <View style={styles.grantInfo}>
+            <Text style={styles.doctorName} numberOfLines={1}>
+              {grant.doctor_name}
+            </Text>
+            <Text style={[styles.grantMeta, isActive && styles.activeMeta]}>
+              {grant.doctor_specialty ? `${grant.doctor_specialty} · ` : ''}
+              {describeGrantEnd(grant)}
+            </Text>
+          </View>
+          {isActive &&
+            (isSaving ? (
+              <ActivityIndicator color={COLORS.SECONDARY} />
+            ) : (
+              <>
+                <AdaptiveTouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => openEditor(grant)}
+                  accessibilityLabel={`Change what ${grant.doctor_name} can see`}
+                >
+                  <Ionicons name="create-outline" size={20} color={COLORS.TEXT_PRIMARY} />
+                </AdaptiveTouchableOpacity>
+                <AdaptiveTouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => confirmRevoke(grant)}
+                  accessibilityLabel={`Stop sharing with ${grant.doctor_name}`}
+                >
+                  <Ionicons name="close-circle-outline" size={20} color={COLORS.ERROR} />
+                </AdaptiveTouchableOpacity>
+              </>
+            ))}
+        </View>
+        <View style={styles.chips}>
+          {grant.data_types.map(type => (
+            <View key={type} style={styles.chip}>
+              <Text style={styles.chipText}>{getSharingLabel(type)}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Health Sharing</Text>
+          <Text style={styles.headerSubtitle}>Choose what your doctors can see</Text>
+        </View>
+        <AdaptiveTouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.navigate('HealthAccessLog')}
+          accessibilityLabel="Access log"
+          testID="open-health-access-log"
+        >
+          <Ionicons name="list-outline" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+      </View>
+
+      {!hasLoaded && isLoading ? (
+        <ActivityIndicator color={COLORS.SECONDARY} style={styles.loading} />
+      ) : (
+        <ScrollView
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={hasLoaded && isLoading}
+              onRefresh={() => dispatch(fetchHealthSharingGrants())}
+              colors={[COLORS.SECONDARY]}
+              tintColor={COLORS.SECONDARY}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {activeGrants.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="lock-closed-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>{error ?? "You're not sharing health data"}</Text>
+              <Text style={styles.emptySubtext}>
+                Doctors can't see any of your health data until you share it.
+              </Text>
+            </View>
+          ) : (
+            activeGrants.map(grant => renderGrant(grant, true))
+          )}
+
+          <AdaptiveTouchableOpacity
+            style={styles.shareButton}
+            onPress={() => openEditor(null)}
+            testID="share-health-data"
+          >
+            <Ionicons name="add" size={20} color={COLORS.WHITE} />
+            <Text style={styles.shareText}>Share with a doctor</Text>
+          </AdaptiveTouchableOpacity>
+
+          {pastGrants.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Previously shared</Text>
+              {pastGrants.map(grant => renderGrant(grant, false))}
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      <HealthSharingGrantEditor
+        visible={isEditorOpen}
+        doctors={doctors}
+        grant={editingGrant}
+        isSaving={savingDoctorIds.length > 0}
+        onSave={handleSave}
+        onClose={() => setIsEditorOpen(false)}
+      />
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  grantCard: {
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  pastGrantCard: {
+    opacity: 0.6,
+  },
+  grantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  grantInfo: {
+    flex: 1,
+  },
+  doctorName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  grantMeta: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  activeMeta: {
+    color: COLORS.SECONDARY,
+  },
+  iconButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  chip: {
+    backgroundColor: COLORS.GLASS_BG_DARKER,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 12,
+    color: COLORS.TEXT_PRIMARY,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    marginTop: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.SECONDARY,
+  },
+  shareText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.WHITE,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 28,
+    marginBottom: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default HealthSharingScreen;
@@ -0,0 +1,260 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { AdaptiveTouchableOpacity } from '../../components/adaptive/AdaptiveComponents';
+import { COLORS } from '../../constants';
+import { wearableHealthManager } from '../../services/health/WearableHealthManager';
+import type { HealthSourcePriority } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+// Data types that phones and watches commonly both record
+const PRIORITY_DATA_TYPES: { type: HealthDataType; label: string }[] = [
+  { type: HealthDataType.STEPS, label: 'Steps' },
+  { type: HealthDataType.HEART_RATE, label: 'Heart rate' },
+  { type: HealthDataType.CALORIES_BURNED, label: 'Calories' },
+  { type: HealthDataType.SLEEP, label: 'Sleep' },
+  { type: HealthDataType.BLOOD_PRESSURE, label: 'Blood pressure' },
+  { type: HealthDataType.OXYGEN_SATURATION, label: 'Blood oxygen' },
+  { type: HealthDataType.WEIGHT, label: 'Weight' },
+  { type: HealthDataType.BLOOD_GLUCOSE, label: 'Blood glucose' },
+];
+
+interface SourceLabel {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}
+
+const SOURCE_LABELS: Partial<Record<string, SourceLabel>> = {
+  watch: { label: 'Watch', icon: 'watch-outline' },
+  phone: { label: 'Phone', icon: 'phone-portrait-outline' },
+  manual: { label: 'Entered by hand', icon: 'create-outline' },
+};
+
+// A priority can also name a specific device by its id
+const describeSource = (source: string): SourceLabel =>
+  SOURCE_LABELS[source] ?? { label: source, icon: 'hardware-chip-outline' };
+
+const HealthSourcePriorityScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const [priorities, setPriorities] = useState<HealthSourcePriority>({});
+  const [customTypes, setCustomTypes] = useState<HealthDataType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPriorities = useCallback(async () => {
+    const orders = await Promise.all(
+      PRIORITY_DATA_TYPES.map(({ type }) => wearableHealthManager.getSourcePriority(type))
+    );
+    setPriorities(
+      Object.fromEntries(PRIORITY_DATA_TYPES.map(({ type }, index) => [type, orders[index]]))
+    );
+    setCustomTypes(
+      PRIORITY_DATA_TYPES.map(({ type }) => type).filter(type =>
+        wearableHealthManager.hasCustomSourcePriority(type)
+      )
+    );
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    loadPriorities().finally(() => {
+      if (isMounted) setIsLoading(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [loadPriorities]);
+
+  const savePriority = useCallback(
+    async (type: HealthDataType, priority: string[] | null) => {
+      setIsSaving(true);
+      try {
+        await wearableHealthManager.setSourcePriority(type, priority);
+        await loadPriorities();
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [loadPriorities]
+  );
+
+  const moveSource = useCallback(
+    (type: HealthDataType, index: number, offset: -1 | 1) => {
+      const order = [...(priorities[type] ?? [])];
+      const target = index + offset;
+      if (target < 0 || target >= order.length) return;
+
+      [order[index], order[target]] = [order[target], order[index]];
+      savePriority(type, order);
+    },
+    [priorities, savePriority]
+  );
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Preferred Sources</Text>
+          <Text style={styles.headerSubtitle}>
+            When several devices record the same thing, the one highest in the list is used
+          </Text>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loading} color={COLORS.TEXT_PRIMARY} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {PRIORITY_DATA_TYPES.map(({ type, label }) => {
+            const order = priorities[type] ?? [];
+            return (
+              <View key={type}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>{label}</Text>
+                  {customTypes.includes(type) && (
+                    <AdaptiveTouchableOpacity
+                      onPress={() => savePriority(type, null)}
+                      disabled={isSaving}
+                      testID={`reset-source-priority-${type}`}
+                    >
+                      <Text style={styles.resetLabel}>Use default</Text>
+                    </AdaptiveTouchableOpacity>
+                  )}
+                </View>
+                {order.map((source, index) => {
+                  const { label: sourceLabel, icon } = describeSource(source);
+                  return (
+                    <View key={source} style={styles.sourceRow}>
+                      <Ionicons name={icon} size={20} color={COLORS.TEXT_PRIMARY} />
+                      <Text style={styles.sourceLabel}>{sourceLabel}</Text>
+                      <AdaptiveTouchableOpacity
+                        style={styles.moveButton}
+                        onPress={() => moveSource(type, index, -1)}
+                        disabled={isSaving || index === 0}
+                        accessibilityLabel={`Prefer ${sourceLabel}`}
+                        testID={`move-up-${type}-${source}`}
+                      >
+                        <Ionicons
+                          name="chevron-up"
+                          size={20}
+                          color={index === 0 ? COLORS.GLASS_BG_DARKER : COLORS.TEXT_PRIMARY}
+                        />
+                      </AdaptiveTouchableOpacity>
+                      <AdaptiveTouchableOpacity
+                        style={styles.moveButton}
+                        onPress={() => moveSource(type, index, 1)}
+                        disabled={isSaving || index === order.length - 1}
+                        accessibilityLabel={`Prefer ${sourceLabel} less`}
+                        testID={`move-down-${type}-${source}`}
+                      >
+                        <Ionicons
+                          name="chevron-down"
+                          size={20}
+                          color={
+                            index === order.length - 1
+                              ? COLORS.GLASS_BG_DARKER
+                              : COLORS.TEXT_PRIMARY
+                          }
+                        />
+                      </AdaptiveTouchableOpacity>
+                    </View>
+                  );
+                })}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.TEXT_SECONDARY,
+  },
+  resetLabel: {
+    fontSize: 14,
+    color: COLORS.SECONDARY,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  sourceLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: COLORS.TEXT_PRIMARY,
+    marginLeft: 12,
+  },
+  moveButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
+
+export default HealthSourcePriorityScreen;
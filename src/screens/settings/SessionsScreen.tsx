@@ -0,0 +1,263 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { LinearGradient } from 'expo-linear-gradient';
+import React, { useCallback } from 'react';
+import { ActivityIndicator, Alert, RefreshControl, StyleSheet, Text, View } from 'react-native';
+
+import {
+  AdaptiveFlatList,
+  AdaptiveTouchableOpacity,
+} from '../../components/adaptive/AdaptiveComponents';
+import { COLORS } from '../../constants';
+import { useSessions } from '../../hooks/useSessions';
+import type { UserSession } from '../../types';
+
+const PLATFORM_ICONS: Record<UserSession['platform'], keyof typeof Ionicons.glyphMap> = {
+  ios: 'phone-portrait-outline',
+  android: 'phone-portrait-outline',
+  web: 'desktop-outline',
+};
+
+const formatLastActive = (session: UserSession) => {
+  if (session.isCurrent) return 'This device';
+
+  const minutes = Math.floor((Date.now() - new Date(session.lastActiveAt).getTime()) / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours}h ago`;
+
+  return `Active ${new Date(session.lastActiveAt).toLocaleDateString([], {
+    month: 'short',
+    day: 'numeric',
+  })}`;
+};
+
+const SessionsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { sessions, isLoading, isRefreshing, error, refresh, revokeSession, revokeOtherSessions } =
+    useSessions();
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  const confirmRevoke = useCallback(
+    (session: UserSession) => {
+      Alert.alert('Sign Out Device', `Sign out of HopMed on ${session.deviceName}?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () =>
+            revokeSession(session.id).catch(() =>
+              Alert.alert('Error', 'Unable to sign out this device. Please try again.')
+            ),
+        },
+      ]);
+    },
+    [revokeSession]
+  );
+
+  const confirmRevokeOthers = useCallback(() => {
+    Alert.alert('Sign Out Other Devices', 'Every device except this one will be signed out.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out All',
+        style: 'destructive',
+        onPress: () =>
+          revokeOtherSessions().catch(() =>
+            Alert.alert('Error', 'Unable to sign out other devices. Please try again.')
+          ),
+      },
+    ]);
+  }, [revokeOtherSessions]);
+
+  const renderSession = useCallback(
+    ({ item }: { item: UserSession }) => (
+      <View style={styles.sessionRow}>
+        <View style={styles.sessionIcon}>
+          <Ionicons name={PLATFORM_ICONS[item.platform]} size={20} color={COLORS.TEXT_PRIMARY} />
+        </View>
+        <View style={styles.sessionInfo}>
+          <Text style={styles.deviceName} numberOfLines={1}>
+            {item.deviceName}
+          </Text>
+          <Text style={[styles.sessionMeta, item.isCurrent && styles.currentSession]}>
+            {formatLastActive(item)}
+            {item.location ? ` · ${item.location}` : ''}
+          </Text>
+        </View>
+        {!item.isCurrent && (
+          <AdaptiveTouchableOpacity
+            style={styles.revokeButton}
+            onPress={() => confirmRevoke(item)}
+            accessibilityLabel={`Sign out ${item.deviceName}`}
+          >
+            <Ionicons name="log-out-outline" size={20} color={COLORS.ERROR} />
+          </AdaptiveTouchableOpacity>
+        )}
+      </View>
+    ),
+    [confirmRevoke]
+  );
+
+  return (
+    <LinearGradient
+      colors={COLORS.BRAND_GRADIENT}
+      locations={COLORS.BRAND_GRADIENT_LOCATIONS}
+      start={COLORS.BRAND_GRADIENT_START}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <AdaptiveTouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.TEXT_PRIMARY} />
+        </AdaptiveTouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Devices</Text>
+          <Text style={styles.headerSubtitle}>Where you're signed in</Text>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator color={COLORS.SECONDARY} style={styles.loading} />
+      ) : (
+        <AdaptiveFlatList
+          data={sessions}
+          renderItem={renderSession}
+          keyExtractor={item => item.id}
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              colors={[COLORS.SECONDARY]}
+              tintColor={COLORS.SECONDARY}
+            />
+          }
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="phone-portrait-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>{error ?? 'No devices found'}</Text>
+            </View>
+          }
+          ListFooterComponent={
+            hasOtherSessions ? (
+              <AdaptiveTouchableOpacity
+                style={styles.revokeAllButton}
+                onPress={confirmRevokeOthers}
+                testID="revoke-other-sessions"
+              >
+                <Text style={styles.revokeAllText}>Sign out all other devices</Text>
+              </AdaptiveTouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  backButton: {
+    marginRight: 12,
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.TEXT_PRIMARY,
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: COLORS.TEXT_SECONDARY,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.GLASS_BG,
+    borderColor: COLORS.GLASS_BORDER,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  sessionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.GLASS_BG_DARKER,
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+  },
+  sessionMeta: {
+    fontSize: 13,
+    color: COLORS.TEXT_SECONDARY,
+    marginTop: 2,
+  },
+  currentSession: {
+    color: COLORS.SECONDARY,
+  },
+  revokeButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  revokeAllButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.ERROR,
+  },
+  revokeAllText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.ERROR,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: COLORS.TEXT_PRIMARY,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
+
+export default SessionsScreen;
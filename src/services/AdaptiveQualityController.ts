@@ -0,0 +1,321 @@
+/**
+ * AdaptiveQualityController
+ *
+ * Keeps a video consultation going on a link that changes mid-call. Join-time
+ * settings (DailyService.getAdaptiveJoinConfig) are only a starting point:
+ * this controller polls Daily's `getNetworkStats`, listens to
+ * NetworkMonitorService, and steps the send/receive simulcast layers up and
+ * down. When the link can't carry video at all it drops to audio-only, and
+ * brings video back once the link has been healthy for a while.
+ *
+ * Stepping down is quick (two bad samples); stepping up is slow, and slower
+ * still out of audio-only, so a flaky 3G link doesn't flap between levels.
+ * Every change carries a user-facing reason for the call UI to show.
+ */
+
+import type { DailyCallObject, DailyNetworkStats } from '../types/dailyCall';
+import { SentryErrorTracker } from '../utils/sentryErrorTracker';
+
+import type { NetworkState } from './networkMonitorService';
+import NetworkMonitorService, { NetworkQuality } from './networkMonitorService';
+
+export type QualityLevel = 'high' | 'medium' | 'low' | 'audio-only';
+
+export interface QualityChange {
+  from: QualityLevel;
+  to: QualityLevel;
+  reason: string;
+  at: number;
+}
+
+export type QualityChangeListener = (change: QualityChange) => void;
+
+/** Part of the Daily call object the controller reads stats from and adjusts */
+type QualityCallObject = Pick<
+  DailyCallObject,
+  | 'getNetworkStats'
+  | 'localVideo'
+  | 'setLocalVideo'
+  | 'updateParticipants'
+  | 'updateSendSettings'
+  | 'updateReceiveSettings'
+>;
+
+type LinkHealth = 'good' | 'poor' | 'critical';
+
+// Lowest to highest; audio-only sits below the lowest video layer
+const LEVELS: QualityLevel[] = ['audio-only', 'low', 'medium', 'high'];
+
+const LEVEL_SETTINGS: Record<Exclude<QualityLevel, 'audio-only'>, { layer: number }> = {
+  low: { layer: 0 },
+  medium: { layer: 1 },
+  high: { layer: 2 },
+};
+
+const POLL_INTERVAL_MS = 5000;
+// Consecutive samples needed before acting
+const STEP_DOWN_SAMPLES = 2;
+const STEP_UP_SAMPLES = 6;
+const LEAVE_AUDIO_ONLY_SAMPLES = 12;
+
+const PACKET_LOSS_POOR = 0.03;
+const PACKET_LOSS_CRITICAL = 0.1;
+
+const REASONS = {
+  stepDown: 'Weak connection - lowering video quality',
+  audioOnly: 'Connection too weak for video - switched to audio only',
+  stepUp: 'Connection improved - raising video quality',
+  videoBack: 'Connection recovered - video is back on',
+  cameraOverride: 'Camera turned back on - using lowest video quality',
+};
+
+class AdaptiveQualityController {
+  private static instance: AdaptiveQualityController | null = null;
+
+  private callObject: QualityCallObject | null = null;
+  private level: QualityLevel = 'medium';
+  private poorStreak = 0;
+  private criticalStreak = 0;
+  private goodStreak = 0;
+  private videoDisabledByController = false;
+  private pollIntervalId: ReturnType<typeof setInterval> | null = null;
+  private networkUnsubscribe: (() => void) | null = null;
+  private listeners = new Map<string, QualityChangeListener>();
+  private lastChange: QualityChange | null = null;
+
+  static getInstance(): AdaptiveQualityController {
+    if (!AdaptiveQualityController.instance) {
+      AdaptiveQualityController.instance = new AdaptiveQualityController();
+    }
+    return AdaptiveQualityController.instance;
+  }
+
+  /**
+   * Start adapting a joined call. Audio calls have nothing to adapt.
+   * Starting again with another call object replaces the previous session.
+   */
+  startCallSession(
+    callObject: QualityCallObject | null,
+    callType: 'audio' | 'video',
+    options: { startAudioOnly?: boolean } = {}
+  ): void {
+    if (callType !== 'video' || !callObject) return;
+    if (this.callObject === callObject) return;
+
+    this.endCallSession();
+    this.callObject = callObject;
+    this.lastChange = null;
+    this.resetStreaks();
+
+    // Start where the join config started: from the link quality we already know about
+    const networkQuality = NetworkMonitorService.getNetworkQuality();
+    this.level =
+      networkQuality === NetworkQuality.EXCELLENT
+        ? 'high'
+        : networkQuality === NetworkQuality.GOOD
+          ? 'medium'
+          : 'low';
+    this.videoDisabledByController = !!options.startAudioOnly;
+    if (options.startAudioOnly) {
+      this.level = 'audio-only';
+    }
+
+    console.log(`📶 Adaptive quality started at ${this.level}`);
+    this.applyLevel(this.level);
+
+    this.pollIntervalId = setInterval(() => {
+      this.sample();
+    }, POLL_INTERVAL_MS);
+    this.networkUnsubscribe = NetworkMonitorService.addListener(this.handleNetworkChange);
+  }
+
+  endCallSession(): void {
+    if (this.pollIntervalId) {
+      clearInterval(this.pollIntervalId);
+      this.pollIntervalId = null;
+    }
+    this.networkUnsubscribe?.();
+    this.networkUnsubscribe = null;
+
+    if (this.callObject) {
+      console.log('📶 Adaptive quality stopped');
+    }
+    this.callObject = null;
+    this.videoDisabledByController = false;
+  }
+
+  getLevel(): QualityLevel {
+    return this.level;
+  }
+
+  getLastChange(): QualityChange | null {
+    return this.lastChange;
+  }
+
+  addListener(id: string, listener: QualityChangeListener): () => void {
+    this.listeners.set(id, listener);
+    return () => {
+      this.listeners.delete(id);
+    };
+  }
+
+  destroy(): void {
+    this.endCallSession();
+    this.listeners.clear();
+    AdaptiveQualityController.instance = null;
+  }
+
+  /**
+   * Read the latest network stats and act on them
+   */
+  async sample(): Promise<void> {
+    const callObject = this.callObject;
+    if (!callObject) return;
+
+    let stats: DailyNetworkStats | null = null;
+    try {
+      stats = await callObject.getNetworkStats();
+    } catch (error) {
+      console.warn('📶 Network stats unavailable:', error);
+    }
+    if (callObject !== this.callObject) return;
+
+    this.evaluate(this.classify(stats));
+  }
+
+  private handleNetworkChange = (state: NetworkState): void => {
+    // A dropped connection is Daily's reconnection logic to handle, not a quality change
+    if (!this.callObject || !state.isConnected) return;
+
+    if (state.quality === NetworkQuality.POOR) {
+      this.sample();
+    }
+  };
+
+  private classify(stats: DailyNetworkStats | null): LinkHealth {
+    const threshold = stats?.threshold;
+    const networkState = stats?.networkState;
+    const packetLoss = Math.max(
+      stats?.stats?.worstVideoSendPacketLoss ?? 0,
+      stats?.stats?.worstVideoRecvPacketLoss ?? 0,
+      stats?.stats?.video?.recvPacketLoss ?? 0
+    );
+    const deviceQuality = NetworkMonitorService.getNetworkQuality();
+
+    if (threshold === 'very-low' || networkState === 'bad' || packetLoss >= PACKET_LOSS_CRITICAL) {
+      return 'critical';
+    }
+    if (
+      threshold === 'low' ||
+      networkState === 'warning' ||
+      packetLoss >= PACKET_LOSS_POOR ||
+      deviceQuality === NetworkQuality.POOR
+    ) {
+      return 'poor';
+    }
+    return 'good';
+  }
+
+  private evaluate(health: LinkHealth): void {
+    // The user turned the camera back on while we had it off: respect that
+    if (
+      this.level === 'audio-only' &&
+      this.videoDisabledByController &&
+      this.callObject?.localVideo() === true
+    ) {
+      this.videoDisabledByController = false;
+      this.changeLevel('low', REASONS.cameraOverride);
+      return;
+    }
+
+    this.goodStreak = health === 'good' ? this.goodStreak + 1 : 0;
+    this.poorStreak = health === 'poor' || health === 'critical' ? this.poorStreak + 1 : 0;
+    this.criticalStreak = health === 'critical' ? this.criticalStreak + 1 : 0;
+
+    const index = LEVELS.indexOf(this.level);
+
+    if (this.criticalStreak >= STEP_DOWN_SAMPLES && this.level !== 'audio-only') {
+      this.changeLevel('audio-only', REASONS.audioOnly);
+    } else if (this.poorStreak >= STEP_DOWN_SAMPLES && index > LEVELS.indexOf('low')) {
+      this.changeLevel(LEVELS[index - 1], REASONS.stepDown);
+    } else if (this.level === 'audio-only' && this.goodStreak >= LEAVE_AUDIO_ONLY_SAMPLES) {
+      this.changeLevel('low', REASONS.videoBack);
+    } else if (
+      this.level !== 'audio-only' &&
+      this.goodStreak >= STEP_UP_SAMPLES &&
+      index < LEVELS.length - 1
+    ) {
+      this.changeLevel(LEVELS[index + 1], REASONS.stepUp);
+    }
+  }
+
+  private changeLevel(to: QualityLevel, reason: string): void {
+    const from = this.level;
+    this.level = to;
+    this.resetStreaks();
+
+    const change: QualityChange = { from, to, reason, at: Date.now() };
+    this.lastChange = change;
+    console.log(`📶 Quality ${from} → ${to}: ${reason}`);
+
+    SentryErrorTracker.getInstance().addBreadcrumb({
+      category: 'call.quality',
+      message: `Quality ${from} → ${to}`,
+      data: { reason },
+      level: to === 'audio-only' ? 'warning' : 'info',
+    });
+
+    this.applyLevel(to, from);
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('📶 Quality change listener failed:', error);
+      }
+    });
+  }
+
+  private async applyLevel(to: QualityLevel, from?: QualityLevel): Promise<void> {
+    const callObject = this.callObject;
+    if (!callObject) return;
+
+    try {
+      if (to === 'audio-only') {
+        if (callObject.localVideo()) {
+          callObject.setLocalVideo(false);
+          this.videoDisabledByController = true;
+        }
+        callObject.updateParticipants?.({
+          '*': { setSubscribedTracks: { audio: true, video: false } },
+        });
+        return;
+      }
+
+      if (from === 'audio-only') {
+        callObject.updateParticipants?.({
+          '*': { setSubscribedTracks: { audio: true, video: true } },
+        });
+        // Only undo what we did; a camera the user turned off stays off
+        if (this.videoDisabledByController) {
+          callObject.setLocalVideo(true);
+          this.videoDisabledByController = false;
+        }
+      }
+
+      await callObject.updateSendSettings?.({ video: { maxQuality: to } });
+      await callObject.updateReceiveSettings?.({
+        '*': { video: { layer: LEVEL_SETTINGS[to].layer } },
+      });
+    } catch (error) {
+      console.warn(`📶 Failed to apply ${to} quality:`, error);
+    }
+  }
+
+  private resetStreaks(): void {
+    this.poorStreak = 0;
+    this.criticalStreak = 0;
+    this.goodStreak = 0;
+  }
+}
+
+export default AdaptiveQualityController;
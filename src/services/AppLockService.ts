@@ -0,0 +1,261 @@
+/**
+ * AppLockService
+ *
+ * Optional Face ID / fingerprint lock on top of the stored session. The
+ * session itself is untouched: locking moves AuthStateMachine to `locked`,
+ * which hides the app until the user unlocks with biometrics (or the device
+ * passcode as a fallback).
+ *
+ * The app locks on cold start and when it returns from the background after
+ * the configured timeout. Screens holding sensitive data (patient health
+ * details, call history) ask for re-authentication when opened.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+
+import { STORAGE_KEYS } from '../constants';
+import AppLifecycleManager from '../utils/AppLifecycleManager';
+import PermissionDialogStateManager from '../utils/PermissionDialogStateManager';
+import { supportsBiometrics } from '../utils/platform';
+
+import AuthStateMachine from './AuthStateMachine';
+import CallNavigationManager from './CallNavigationManager';
+
+export interface AppLockSettings {
+  enabled: boolean;
+  /** How long the app may stay in the background before it locks */
+  backgroundTimeoutMs: number;
+}
+
+export const APP_LOCK_TIMEOUT_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Immediately', value: 0 },
+  { label: 'After 1 minute', value: 60 * 1000 },
+  { label: 'After 5 minutes', value: 5 * 60 * 1000 },
+  { label: 'After 15 minutes', value: 15 * 60 * 1000 },
+];
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  backgroundTimeoutMs: 60 * 1000,
+};
+
+// A sensitive screen opened right after unlocking does not prompt again
+const REAUTH_GRACE_MS = 30 * 1000;
+
+class AppLockService {
+  private static instance: AppLockService | null = null;
+
+  private settings: AppLockSettings = DEFAULT_SETTINGS;
+  private loadPromise: Promise<void> | null = null;
+  private authPromise: Promise<boolean> | null = null;
+  private lastAuthenticatedAt: number | null = null;
+  private backgroundedWhilePrompting = false;
+  private unsubscribeLifecycle: (() => void) | null = null;
+
+  static getInstance(): AppLockService {
+    if (!AppLockService.instance) {
+      AppLockService.instance = new AppLockService();
+    }
+    return AppLockService.instance;
+  }
+
+  /**
+   * Load the saved settings and start watching for the app coming back from
+   * the background. Safe to call more than once.
+   */
+  initialize(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadSettings();
+      this.unsubscribeLifecycle = AppLifecycleManager.getInstance().addListener(
+        'AppLockService',
+        this.handleLifecycleEvent
+      );
+    }
+    return this.loadPromise;
+  }
+
+  getSettings(): AppLockSettings {
+    return { ...this.settings };
+  }
+
+  isAvailable(): Promise<boolean> {
+    return supportsBiometrics();
+  }
+
+  /**
+   * Change the lock settings. Turning the lock on asks for biometrics first so
+   * nobody can enable a lock they cannot open. Resolves false when the change
+   * was not applied.
+   */
+  async updateSettings(changes: Partial<AppLockSettings>): Promise<boolean> {
+    await this.initialize();
+
+    if (changes.enabled && !this.settings.enabled) {
+      if (!(await this.isAvailable())) {
+        console.warn('⚠️ App lock unavailable - no biometrics enrolled on this device');
+        return false;
+      }
+      if (!(await this.authenticate('Confirm to turn on app lock'))) {
+        return false;
+      }
+    }
+
+    this.settings = { ...this.settings, ...changes };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.APP_LOCK_SETTINGS, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('❌ Failed to save app lock settings:', error);
+    }
+    console.log(`🔐 App lock ${this.settings.enabled ? 'enabled' : 'disabled'}`);
+    return true;
+  }
+
+  /**
+   * Cold start: lock a restored session before any of it is shown.
+   */
+  async lockOnLaunch(): Promise<void> {
+    await this.initialize();
+    await this.lock();
+  }
+
+  async lock(): Promise<void> {
+    if (!this.settings.enabled) return;
+
+    // Never cover an ongoing consultation
+    if (CallNavigationManager.getInstance().isInCall()) {
+      console.log('📞 Skipping app lock during active call');
+      return;
+    }
+
+    this.lastAuthenticatedAt = null;
+    await AuthStateMachine.getInstance().lock();
+  }
+
+  async unlock(): Promise<boolean> {
+    const machine = AuthStateMachine.getInstance();
+    if (!machine.isLocked()) return true;
+
+    if (!(await this.authenticate('Unlock HopMed'))) {
+      return false;
+    }
+
+    await machine.unlock();
+    return true;
+  }
+
+  /**
+   * Ask again before showing sensitive data. Always passes while the lock is
+   * turned off.
+   */
+  async requireReauthentication(reason: string): Promise<boolean> {
+    await this.initialize();
+    if (!this.settings.enabled) return true;
+
+    if (this.lastAuthenticatedAt && Date.now() - this.lastAuthenticatedAt < REAUTH_GRACE_MS) {
+      return true;
+    }
+
+    return this.authenticate(reason);
+  }
+
+  /**
+   * Logout: forget the settings and release a lock held by the old session.
+   */
+  async clear(): Promise<void> {
+    this.settings = DEFAULT_SETTINGS;
+    this.lastAuthenticatedAt = null;
+
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.APP_LOCK_SETTINGS);
+    } catch (error) {
+      console.error('❌ Failed to clear app lock settings:', error);
+    }
+
+    const machine = AuthStateMachine.getInstance();
+    if (machine.isLocked()) {
+      await machine.logout();
+    }
+  }
+
+  destroy(): void {
+    this.unsubscribeLifecycle?.();
+    this.unsubscribeLifecycle = null;
+    this.loadPromise = null;
+    AppLockService.instance = null;
+  }
+
+  // ==================== PRIVATE METHODS ====================
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.APP_LOCK_SETTINGS);
+      if (stored) {
+        this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.error('❌ Failed to load app lock settings:', error);
+    }
+  }
+
+  /**
+   * One system prompt at a time; concurrent callers share its result.
+   */
+  private authenticate(promptMessage: string): Promise<boolean> {
+    if (!this.authPromise) {
+      this.authPromise = LocalAuthentication.authenticateAsync({
+        promptMessage,
+        fallbackLabel: 'Use Passcode',
+        cancelLabel: 'Cancel',
+      })
+        .then(result => {
+          if (result.success) {
+            this.lastAuthenticatedAt = Date.now();
+            return true;
+          }
+          console.log(`🔐 Biometric authentication not completed: ${result.error}`);
+          return false;
+        })
+        .catch(error => {
+          console.error('❌ Biometric authentication failed:', error);
+          return false;
+        })
+        .finally(() => {
+          this.authPromise = null;
+        });
+    }
+    return this.authPromise;
+  }
+
+  private handleLifecycleEvent = (event: string, metadata?: any): void => {
+    if (event === 'backgrounding') {
+      // The system prompt itself makes the app inactive for a moment
+      this.backgroundedWhilePrompting = this.authPromise !== null;
+      return;
+    }
+
+    if (event !== 'resumed_from_background' && event !== 'app_terminated_detected') {
+      return;
+    }
+
+    // Launch events carry no duration; cold start is handled by lockOnLaunch
+    const backgroundDuration = metadata?.backgroundDuration;
+    if (typeof backgroundDuration !== 'number') {
+      return;
+    }
+    if (this.backgroundedWhilePrompting) {
+      this.backgroundedWhilePrompting = false;
+      return;
+    }
+    if (PermissionDialogStateManager.getInstance().isPermissionDialogActive()) {
+      return;
+    }
+
+    if (backgroundDuration >= this.settings.backgroundTimeoutMs) {
+      console.log(`🔐 Locking after ${Math.round(backgroundDuration / 1000)}s in background`);
+      this.lock().catch(error => console.error('❌ Failed to lock app:', error));
+    }
+  };
+}
+
+export default AppLockService;
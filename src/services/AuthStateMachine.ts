@@ -8,6 +8,7 @@ export type AuthState =
   | 'refreshing'
   | 'expired'
   | 'offline'
+  | 'locked'
   | 'unauthenticated'
   | 'error';
 
@@ -20,7 +21,10 @@ export type AuthEvent =
   | 'LOGOUT'
   | 'CLEAR_ERROR'
   | 'MEMORY_PRESSURE'
-  | 'STORAGE_ERROR';
+  | 'STORAGE_ERROR'
+  | 'LOCK'
+  | 'UNLOCK'
+  | 'SESSION_REVOKED';
 
 interface AuthContext {
   user?: User;
@@ -50,6 +54,8 @@ interface AuthStateTransition {
  * - Concurrent operation prevention
  * - Memory pressure handling
  * - Network error recovery
+ * - Biometric app lock (session kept, UI hidden until unlocked)
+ * - Remote sign-out (session revoked from another device)
  * - Comprehensive state tracking
  */
 class AuthStateMachine extends EventEmitter {
@@ -236,23 +242,34 @@ class AuthStateMachine extends EventEmitter {
         LOGOUT: ['unauthenticated'],
         NETWORK_ERROR: ['offline'],
         MEMORY_PRESSURE: ['offline'],
+        LOCK: ['locked'],
+        SESSION_REVOKED: ['unauthenticated'],
       },
       refreshing: {
         LOGIN_SUCCESS: ['authenticated'],
         TOKEN_EXPIRED: ['expired'],
         NETWORK_ERROR: ['offline'],
         STORAGE_ERROR: ['error'],
+        SESSION_REVOKED: ['unauthenticated'],
       },
       expired: {
         LOGIN_SUCCESS: ['authenticated'],
         LOGOUT: ['unauthenticated'],
         REFRESH_TOKEN: ['refreshing'],
+        SESSION_REVOKED: ['unauthenticated'],
       },
       offline: {
         LOGIN_SUCCESS: ['authenticated'],
         INITIALIZE: ['authenticated', 'unauthenticated'],
         LOGOUT: ['unauthenticated'],
         CLEAR_ERROR: ['authenticated', 'unauthenticated'],
+        LOCK: ['locked'],
+        SESSION_REVOKED: ['unauthenticated'],
+      },
+      locked: {
+        UNLOCK: ['authenticated'],
+        LOGOUT: ['unauthenticated'],
+        SESSION_REVOKED: ['unauthenticated'],
       },
       error: {
         CLEAR_ERROR: ['unauthenticated'],
@@ -304,6 +321,21 @@ class AuthStateMachine extends EventEmitter {
         this.transition('error', event, context);
         return null;
 
+      case 'LOCK':
+        this.transition('locked', event);
+        return null;
+
+      case 'UNLOCK':
+        this.transition('authenticated', event);
+        return this.context;
+
+      case 'SESSION_REVOKED':
+        // Keep only the reason so the sign-in screen can explain what happened
+        this.transition('unauthenticated', event, context);
+        this.resetContext();
+        this.context = { error: context?.error };
+        return null;
+
       default:
         console.warn(`🚫 Unknown auth event: ${event}`);
         return null;
@@ -430,6 +462,18 @@ class AuthStateMachine extends EventEmitter {
     return this.queueEvent('STORAGE_ERROR', { error });
   }
 
+  public async lock(): Promise<any> {
+    return this.queueEvent('LOCK');
+  }
+
+  public async unlock(): Promise<any> {
+    return this.queueEvent('UNLOCK');
+  }
+
+  public async sessionRevoked(reason: string): Promise<any> {
+    return this.queueEvent('SESSION_REVOKED', { error: reason });
+  }
+
   /**
    * Retry logic helpers
    */
@@ -499,6 +543,10 @@ class AuthStateMachine extends EventEmitter {
     return this.currentState === 'error';
   }
 
+  public isLocked(): boolean {
+    return this.currentState === 'locked';
+  }
+
   public getTransitionHistory(): AuthStateTransition[] {
     return [...this.transitionHistory];
   }
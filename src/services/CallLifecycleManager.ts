@@ -0,0 +1,442 @@
+/**
+ * CallLifecycleManager
+ *
+ * One state machine for how every call rings and how it ends, shared by the
+ * caller (details screens through CallNavigationManager), the callee
+ * (IncomingCallManager) and the backend (callsApi plus `call_status` pushes):
+ *
+ *   ringing → answered → ended
+ *   ringing → declined | cancelled | busy | missed
+ *
+ * Local actions are applied first and then reported to the backend; statuses
+ * pushed by the backend are applied without being echoed back. Every call is
+ * kept in a persisted history so incoming calls nobody picked up can be badged
+ * until the user has seen them.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../constants';
+import type { CallHistoryEntry, CallLifecycleListener } from '../types/callTypes';
+import { CallLifecycleState } from '../types/callTypes';
+import { SentryErrorTracker } from '../utils/sentryErrorTracker';
+
+import type { CallHistoryRecord } from './api/callsApi';
+import { callsApi } from './api/callsApi';
+
+const CALL_TRANSITIONS: Record<CallLifecycleState, CallLifecycleState[]> = {
+  [CallLifecycleState.RINGING]: [
+    CallLifecycleState.ANSWERED,
+    CallLifecycleState.DECLINED,
+    CallLifecycleState.CANCELLED,
+    CallLifecycleState.BUSY,
+    CallLifecycleState.MISSED,
+  ],
+  [CallLifecycleState.ANSWERED]: [CallLifecycleState.ENDED],
+  [CallLifecycleState.DECLINED]: [],
+  [CallLifecycleState.CANCELLED]: [],
+  [CallLifecycleState.BUSY]: [],
+  [CallLifecycleState.MISSED]: [],
+  [CallLifecycleState.ENDED]: [],
+};
+
+// Incoming calls that ended without the user picking up count towards the badge
+const UNANSWERED_INCOMING_STATES = [
+  CallLifecycleState.MISSED,
+  CallLifecycleState.CANCELLED,
+  CallLifecycleState.BUSY,
+];
+
+// Used when the backend does not say how long the recipient rings
+const DEFAULT_RING_TIMEOUT_MS = 45000;
+const MAX_HISTORY_ENTRIES = 200;
+
+type NewCall = Pick<
+  CallHistoryEntry,
+  'callId' | 'participantId' | 'participantName' | 'participantType' | 'callType'
+>;
+
+class CallLifecycleManager {
+  private static instance: CallLifecycleManager | null = null;
+
+  private history = new Map<string, CallHistoryEntry>();
+  private ringTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<CallLifecycleListener>();
+  private loadPromise: Promise<void> | null = null;
+
+  static getInstance(): CallLifecycleManager {
+    if (!CallLifecycleManager.instance) {
+      CallLifecycleManager.instance = new CallLifecycleManager();
+    }
+    return CallLifecycleManager.instance;
+  }
+
+  /**
+   * Caller: start ringing. The call is reported missed if nobody answers in time.
+   */
+  async startOutgoingCall(call: NewCall, ringTimeoutMs = DEFAULT_RING_TIMEOUT_MS): Promise<void> {
+    await this.record({ ...call, direction: 'outgoing' }, CallLifecycleState.RINGING);
+    this.startRingTimer(call.callId, ringTimeoutMs);
+    console.log(`📞 Outgoing call ${call.callId} ringing ${call.participantName}`);
+  }
+
+  /**
+   * Callee: register a call from a push. Returns false when the call should not
+   * ring, either because the user is already in a call (the caller gets a busy
+   * signal) or because this push is a duplicate of a call already handled.
+   */
+  async receiveIncomingCall(call: NewCall, isBusy: boolean): Promise<boolean> {
+    await this.load();
+
+    const existing = this.history.get(call.callId);
+    if (existing) {
+      // FCM and VoIP can both deliver the same call
+      return existing.state === CallLifecycleState.RINGING;
+    }
+
+    if (isBusy) {
+      console.log(`📵 Already in a call, rejecting ${call.callId} as busy`);
+      await this.record({ ...call, direction: 'incoming' }, CallLifecycleState.BUSY);
+      this.notifyServer('markCallBusy', call.callId, () => callsApi.markCallBusy(call.callId));
+      return false;
+    }
+
+    await this.record({ ...call, direction: 'incoming' }, CallLifecycleState.RINGING);
+    // Stop ringing locally even if the backend's missed status never arrives
+    this.startRingTimer(call.callId, DEFAULT_RING_TIMEOUT_MS);
+    return true;
+  }
+
+  async answerCall(callId: string): Promise<boolean> {
+    const changed = await this.transition(callId, CallLifecycleState.ANSWERED);
+    if (changed) {
+      this.notifyServer('answerCall', callId, () => callsApi.answerCall(callId));
+    }
+    return changed;
+  }
+
+  async declineCall(callId: string): Promise<boolean> {
+    const changed = await this.transition(callId, CallLifecycleState.DECLINED);
+    if (changed) {
+      this.notifyServer('declineCall', callId, () => callsApi.declineCall(callId));
+    }
+    return changed;
+  }
+
+  /**
+   * Caller: the recipient joined the room, so the call was answered even if
+   * the backend's `answered` status never arrives. The recipient reports its
+   * own answer, so nothing is sent to the backend.
+   */
+  async confirmAnswered(callId: string): Promise<boolean> {
+    await this.load();
+
+    if (this.history.get(callId)?.state !== CallLifecycleState.RINGING) {
+      return false;
+    }
+    return this.transition(callId, CallLifecycleState.ANSWERED);
+  }
+
+  /**
+   * Leave a call from either side: cancels or declines it while it is still
+   * ringing, otherwise ends it.
+   */
+  async hangUp(callId: string): Promise<void> {
+    await this.load();
+
+    const entry = this.history.get(callId);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.state === CallLifecycleState.ANSWERED) {
+      if (await this.transition(callId, CallLifecycleState.ENDED)) {
+        this.notifyServer('endCall', callId, () => callsApi.endCall(callId));
+      }
+    } else if (entry.state === CallLifecycleState.RINGING) {
+      if (entry.direction === 'incoming') {
+        await this.declineCall(callId);
+      } else if (await this.transition(callId, CallLifecycleState.CANCELLED)) {
+        this.notifyServer('cancelCall', callId, () => callsApi.cancelCall(callId));
+      }
+    }
+  }
+
+  /**
+   * Apply a status the backend pushed (the other party answered, declined,
+   * cancelled, was busy, or the call timed out or ended)
+   */
+  async applyServerStatus(callId: string, status: string): Promise<boolean> {
+    if (!Object.values(CallLifecycleState).includes(status as CallLifecycleState)) {
+      console.warn(`⚠️ Ignoring unknown call status "${status}" for ${callId}`);
+      return false;
+    }
+
+    return this.transition(callId, status as CallLifecycleState);
+  }
+
+  getCallState(callId: string): CallLifecycleState | null {
+    return this.history.get(callId)?.state ?? null;
+  }
+
+  /**
+   * Merge the backend's history, which also covers calls that rang while this
+   * device was offline or the app was not running
+   */
+  async syncHistory(userId: string): Promise<void> {
+    await this.load();
+
+    const response = await callsApi.getCallHistory();
+    const calls = response.data?.calls ?? [];
+
+    const changed: CallHistoryEntry[] = [];
+    for (const record of calls) {
+      const existing = this.history.get(record.callId);
+      const remote = this.fromRecord(record, userId);
+
+      // The backend has the final say; only whether the user has seen the call is local
+      if (existing?.state !== remote.state) {
+        // A missed call starts unseen, so a seen one was opened by the user on this device
+        const wasMissedLocally = existing !== undefined && !this.isSeen(existing);
+        const seenLocally = existing?.seen === true;
+        const openedByUser = wasMissedLocally && seenLocally;
+        const entry = { ...remote, seen: remote.seen || openedByUser };
+        this.clearRingTimer(record.callId);
+        this.history.set(record.callId, entry);
+        changed.push(entry);
+      }
+    }
+
+    if (changed.length > 0) {
+      await this.persist();
+      changed.forEach(entry => this.notifyListeners(entry, null));
+    }
+  }
+
+  async getHistory(): Promise<CallHistoryEntry[]> {
+    await this.load();
+    return [...this.history.values()].sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async getUnseenMissedCount(): Promise<number> {
+    const history = await this.getHistory();
+    return history.filter(entry => !entry.seen).length;
+  }
+
+  async markMissedCallsSeen(): Promise<void> {
+    await this.load();
+
+    const unseen = [...this.history.values()].filter(entry => !entry.seen);
+    if (unseen.length === 0) {
+      return;
+    }
+
+    unseen.forEach(entry => {
+      entry.seen = true;
+    });
+    await this.persist();
+    unseen.forEach(entry => this.notifyListeners(entry, entry.state));
+  }
+
+  /**
+   * Forget the signed-in user's calls, in memory and on disk. Used on logout.
+   */
+  async clear(): Promise<void> {
+    await this.load();
+
+    this.ringTimers.forEach(timer => clearTimeout(timer));
+    this.ringTimers.clear();
+    this.history.clear();
+
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.CALL_HISTORY);
+    } catch (error) {
+      console.error('❌ Failed to clear call history:', error);
+    }
+  }
+
+  addListener(listener: CallLifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async transition(callId: string, next: CallLifecycleState): Promise<boolean> {
+    await this.load();
+
+    const entry = this.history.get(callId);
+    if (!entry) {
+      console.warn(`⚠️ Ignoring ${next} for unknown call ${callId}`);
+      return false;
+    }
+
+    const previous = entry.state;
+    if (!CALL_TRANSITIONS[previous].includes(next)) {
+      console.log(`📞 Call ${callId} is already ${previous}, ignoring ${next}`);
+      return false;
+    }
+
+    const now = Date.now();
+    entry.state = next;
+    if (next === CallLifecycleState.ANSWERED) {
+      entry.answeredAt = now;
+    } else {
+      entry.endedAt = now;
+    }
+    entry.seen = this.isSeen(entry);
+
+    this.clearRingTimer(callId);
+    await this.persist();
+    this.notifyListeners(entry, previous);
+
+    console.log(`📞 Call ${callId}: ${previous} → ${next}`);
+    return true;
+  }
+
+  private async record(
+    call: NewCall & Pick<CallHistoryEntry, 'direction'>,
+    state: CallLifecycleState
+  ): Promise<void> {
+    await this.load();
+
+    const now = Date.now();
+    const entry: CallHistoryEntry = {
+      ...call,
+      state,
+      startedAt: now,
+      endedAt: state === CallLifecycleState.RINGING ? undefined : now,
+      seen: true,
+    };
+    entry.seen = this.isSeen(entry);
+
+    this.history.set(call.callId, entry);
+    await this.persist();
+    this.notifyListeners(entry, null);
+  }
+
+  private isSeen(entry: CallHistoryEntry): boolean {
+    return !(entry.direction === 'incoming' && UNANSWERED_INCOMING_STATES.includes(entry.state));
+  }
+
+  private startRingTimer(callId: string, timeoutMs: number): void {
+    this.clearRingTimer(callId);
+    this.ringTimers.set(
+      callId,
+      setTimeout(() => {
+        this.ringTimers.delete(callId);
+        this.handleRingTimeout(callId).catch(error => {
+          console.error('❌ Failed to time out ringing call:', error);
+        });
+      }, timeoutMs)
+    );
+  }
+
+  private clearRingTimer(callId: string): void {
+    const timer = this.ringTimers.get(callId);
+    if (timer) {
+      clearTimeout(timer);
+      this.ringTimers.delete(callId);
+    }
+  }
+
+  private async handleRingTimeout(callId: string): Promise<void> {
+    const entry = this.history.get(callId);
+    if (!(await this.transition(callId, CallLifecycleState.MISSED)) || !entry) {
+      return;
+    }
+
+    // The caller owns the timeout; the callee's timer only clears its own ringing UI
+    if (entry.direction === 'outgoing') {
+      this.notifyServer('markCallMissed', callId, () =>
+        callsApi.markCallMissed(callId, entry.participantId)
+      );
+    }
+  }
+
+  /**
+   * Report a local transition. The local state stands if this fails; the
+   * backend settles the call on its own timeout and syncHistory reconciles.
+   */
+  private notifyServer(action: string, callId: string, request: () => Promise<unknown>): void {
+    request().catch(error => {
+      console.warn(`⚠️ Failed to report ${action} for call ${callId}:`, error);
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'callLifecycleManager',
+        action,
+        additional: { callId },
+      });
+    });
+  }
+
+  private notifyListeners(entry: CallHistoryEntry, previous: CallLifecycleState | null): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener({ ...entry }, previous);
+      } catch (error) {
+        console.error('❌ Call lifecycle listener failed:', error);
+      }
+    });
+  }
+
+  private fromRecord(record: CallHistoryRecord, userId: string): CallHistoryEntry {
+    const isOutgoing = record.callerId === userId;
+    const entry: CallHistoryEntry = {
+      callId: record.callId,
+      direction: isOutgoing ? 'outgoing' : 'incoming',
+      participantId: isOutgoing ? record.recipientId : record.callerId,
+      participantName: isOutgoing ? record.recipientName : record.callerName,
+      participantType: isOutgoing ? record.recipientType : record.callerType,
+      callType: record.callType,
+      state: record.status as CallLifecycleState,
+      startedAt: new Date(record.startedAt).getTime(),
+      answeredAt: record.answeredAt ? new Date(record.answeredAt).getTime() : undefined,
+      endedAt: record.endedAt ? new Date(record.endedAt).getTime() : undefined,
+      seen: true,
+    };
+    entry.seen = this.isSeen(entry);
+    return entry;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEYS.CALL_HISTORY);
+          const entries: CallHistoryEntry[] = stored ? JSON.parse(stored) : [];
+          entries.forEach(entry => {
+            // Anything left ringing was interrupted by the app closing; syncHistory corrects it
+            if (entry.state === CallLifecycleState.RINGING) {
+              entry.state = CallLifecycleState.MISSED;
+              entry.seen = this.isSeen(entry);
+            }
+            if (!this.history.has(entry.callId)) {
+              this.history.set(entry.callId, entry);
+            }
+          });
+        } catch (error) {
+          console.error('❌ Failed to load call history:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    const entries = [...this.history.values()]
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, MAX_HISTORY_ENTRIES);
+
+    if (entries.length < this.history.size) {
+      this.history = new Map(entries.map(entry => [entry.callId, entry]));
+    }
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CALL_HISTORY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('❌ Failed to persist call history:', error);
+    }
+  }
+}
+
+export default CallLifecycleManager;
@@ -17,6 +17,7 @@ import type { NavigationContainerRef, ParamListBase } from '@react-navigation/na
 import type { AppStateStatus } from 'react-native';
 
 import AppStateManager from '../utils/AppStateManager';
+import CallLifecycleManager from './CallLifecycleManager';
 import VideoCallBackgroundManager from './VideoCallBackgroundManager';
 import type { VideoCallBackgroundListener } from './VideoCallBackgroundManager';
 import { SentryErrorTracker } from '../utils/sentryErrorTracker';
@@ -29,6 +30,7 @@ interface CallNavigationState {
   participantName: string;
   participantType: 'customer' | 'doctor';
   roomUrl?: string;
+  callId?: string; // Backend call id, when the call went through callsApi
   callStartTime: number;
   backgroundTransitionTime?: number;
 }
@@ -172,7 +174,8 @@ class CallNavigationManager {
     screenParams: Record<string, any>,
     participantName: string,
     participantType: 'customer' | 'doctor',
-    roomUrl?: string
+    roomUrl?: string,
+    callId?: string
   ): void {
     console.log(`🧭 Starting call navigation tracking: ${currentScreen}`);
 
@@ -184,6 +187,7 @@ class CallNavigationManager {
       participantName,
       participantType,
       roomUrl,
+      callId,
       callStartTime: Date.now(),
     };
 
@@ -202,6 +206,14 @@ class CallNavigationManager {
   public endCallSession(): void {
     console.log('🧭 Ending call navigation tracking');
 
+    // Cancels the call if the other side never picked up, otherwise ends it
+    const callId = this.currentCallState?.callId;
+    if (callId) {
+      CallLifecycleManager.getInstance().hangUp(callId).catch(error => {
+        console.error('❌ Failed to hang up call:', error);
+      });
+    }
+
     this.currentCallState = null;
     this.isNavigationBlocked = false;
 
@@ -394,6 +406,7 @@ class CallNavigationManager {
             participantName: parsedState.participantName,
             participantType: parsedState.participantType,
             roomUrl: parsedState.roomUrl,
+            callId: parsedState.callId,
             callStartTime: parsedState.callStartTime,
             backgroundTransitionTime: parsedState.backgroundTransitionTime,
           };
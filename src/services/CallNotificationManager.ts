@@ -16,7 +16,9 @@ import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 
 import AppStateManager from '../utils/AppStateManager';
+import CallLifecycleManager from './CallLifecycleManager';
 import CallNavigationManager from './CallNavigationManager';
+import IncomingCallActivityLauncher from './IncomingCallActivityLauncher';
 import VideoCallBackgroundManager from './VideoCallBackgroundManager';
 import { SentryErrorTracker } from '../utils/sentryErrorTracker';
 
@@ -38,6 +40,7 @@ interface ActiveCallNotification {
 }
 
 interface IncomingCallNotificationData {
+  callUuid?: string; // IncomingCallManager's id, for notifications it launched
   callId: string;
   callerId: string;
   callerName: string;
@@ -415,6 +418,20 @@ class CallNotificationManager {
       // 🚨 Handle incoming call notification actions
       // Check for both 'incoming_call' and 'incoming_call_fullscreen' types
       if (notificationData?.type === 'incoming_call' || notificationData?.type === 'incoming_call_fullscreen') {
+        // 🚨 CRITICAL FIX: Extract call data from notification (works for both stored and non-stored cases)
+        const callData: IncomingCallNotificationData = this.incomingCallNotification || {
+          callUuid: notificationData.callUuid as string | undefined,
+          callId: notificationData.callId as string,
+          callerId: notificationData.callerId as string,
+          callerName: notificationData.callerName as string,
+          callerType: notificationData.callerType as 'customer' | 'doctor',
+          callType: notificationData.callType as 'audio' | 'video',
+          roomUrl: notificationData.roomUrl as string,
+          metadata: typeof notificationData.metadata === 'string' 
+            ? JSON.parse(notificationData.metadata) 
+            : notificationData.metadata,
+        };
+
         switch (actionIdentifier) {
           case 'answer_call':
             console.log('✅ FALLBACK: Answer call action from notification');
@@ -422,6 +439,13 @@ class CallNotificationManager {
               this.onIncomingCallAnsweredCallback(this.incomingCallNotification);
             }
             await this.dismissIncomingCallNotification();
+
+            // IncomingCallScreen reports the answer and joins, as if answered there
+            if (this.navigationRef) {
+              this.navigationRef.navigate('IncomingCall', { callData, autoAnswer: true });
+            } else if (callData.callId) {
+              await CallLifecycleManager.getInstance().answerCall(callData.callId);
+            }
             break;
 
           case 'decline_call':
@@ -429,6 +453,12 @@ class CallNotificationManager {
             if (this.incomingCallNotification && this.onIncomingCallDeclinedCallback) {
               this.onIncomingCallDeclinedCallback(this.incomingCallNotification);
             }
+            if (callData.callId) {
+              await CallLifecycleManager.getInstance().declineCall(callData.callId);
+            }
+            if (callData.callUuid) {
+              await IncomingCallActivityLauncher.getInstance().dismissIncomingCallUI(callData.callUuid);
+            }
             await this.dismissIncomingCallNotification();
             break;
 
@@ -436,19 +466,6 @@ class CallNotificationManager {
             // User tapped the notification - navigate directly to IncomingCallScreen
             console.log('📱 FALLBACK: Incoming call notification tapped - showing incoming call screen');
 
-            // 🚨 CRITICAL FIX: Extract call data from notification (works for both stored and non-stored cases)
-            const callData = this.incomingCallNotification || {
-              callId: notificationData.callId as string,
-              callerId: notificationData.callerId as string,
-              callerName: notificationData.callerName as string,
-              callerType: notificationData.callerType as 'customer' | 'doctor',
-              callType: notificationData.callType as 'audio' | 'video',
-              roomUrl: notificationData.roomUrl as string,
-              metadata: typeof notificationData.metadata === 'string' 
-                ? JSON.parse(notificationData.metadata) 
-                : notificationData.metadata,
-            };
-
             if (callData) {
               // ✅ DIRECT NAVIGATION with data as params
               if (this.navigationRef) {
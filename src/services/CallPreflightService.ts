@@ -0,0 +1,430 @@
+/**
+ * CallPreflightService
+ *
+ * Measures the link and devices right before a consultation is joined:
+ * uplink/downlink bandwidth, round-trip time and packet loss from Daily's
+ * `testCallQuality`, plus the local camera frame rate and microphone input
+ * level. The measurements are scored against what Daily needs for a 1:1 call
+ * (pass / warn / fail) and, when video is out of reach but audio is not, the
+ * result recommends joining audio-only.
+ *
+ * The call object is passed in by DailyService so the test runs on the same
+ * camera and microphone the call will use.
+ */
+
+import { Platform } from 'react-native';
+
+import { SentryErrorTracker } from '../utils/sentryErrorTracker';
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export type PreflightCheckId = 'uplink' | 'downlink' | 'rtt' | 'packetLoss' | 'camera' | 'mic';
+
+export interface PreflightMetrics {
+  uplinkKbps: number | null;
+  downlinkKbps: number | null;
+  rttMs: number | null;
+  /** Fraction of packets lost, 0-1 */
+  packetLoss: number | null;
+  /** Frame rate the camera was opened at (track settings), not a measured rate */
+  cameraConfiguredFrameRate: number | null;
+  /** Peak microphone input level, 0-1 */
+  micInputLevel: number | null;
+}
+
+export interface PreflightCheck {
+  id: PreflightCheckId;
+  status: PreflightStatus;
+  message: string;
+}
+
+export interface PreflightResult {
+  callType: 'audio' | 'video';
+  status: PreflightStatus;
+  /** 0-100, averaged over the checks that could be measured */
+  score: number;
+  recommendAudioOnly: boolean;
+  /** The user's answer to the audio-only recommendation; null until asked */
+  audioOnlyChosen: boolean | null;
+  metrics: PreflightMetrics;
+  checks: PreflightCheck[];
+  /** Daily's own verdict for the network test ('good', 'warning', 'bad', 'failed', 'aborted') */
+  networkResult: string | null;
+  durationMs: number;
+  testedAt: number;
+}
+
+// Daily's guidance for a 1:1 consultation; bandwidth in kbps, RTT in ms
+export const PREFLIGHT_THRESHOLDS = {
+  video: {
+    bandwidthPassKbps: 1000,
+    bandwidthWarnKbps: 600,
+  },
+  audio: {
+    bandwidthPassKbps: 100,
+    bandwidthWarnKbps: 50,
+  },
+  rttPassMs: 150,
+  rttWarnMs: 300,
+  packetLossPass: 0.01,
+  packetLossWarn: 0.05,
+  frameRatePass: 24,
+  frameRateWarn: 15,
+  micLevelPass: 0.01,
+} as const;
+
+// Long enough for Daily to settle on a bandwidth estimate without keeping the patient waiting
+const NETWORK_TEST_DURATION_MS = 8000;
+const MIC_SAMPLE_INTERVAL_MS = 200;
+// A test run from the pre-join screen is reused if the call starts soon after
+const RESULT_MAX_AGE_MS = 60 * 1000;
+
+const STATUS_POINTS: Record<PreflightStatus, number> = { pass: 100, warn: 60, fail: 0 };
+
+const NETWORK_CHECKS: PreflightCheckId[] = ['uplink', 'downlink', 'rtt', 'packetLoss'];
+
+const rate = (
+  value: number,
+  passAt: number,
+  warnAt: number,
+  higherIsBetter: boolean
+): PreflightStatus => {
+  if (higherIsBetter) {
+    if (value >= passAt) return 'pass';
+    return value >= warnAt ? 'warn' : 'fail';
+  }
+  if (value <= passAt) return 'pass';
+  return value <= warnAt ? 'warn' : 'fail';
+};
+
+const rateBandwidth = (kbps: number, callType: 'audio' | 'video') => {
+  const { bandwidthPassKbps, bandwidthWarnKbps } = PREFLIGHT_THRESHOLDS[callType];
+  return rate(kbps, bandwidthPassKbps, bandwidthWarnKbps, true);
+};
+
+/**
+ * Score measured metrics for a call type. Metrics that could not be measured
+ * are left out rather than counted as failures.
+ */
+export const scorePreflight = (
+  metrics: PreflightMetrics,
+  callType: 'audio' | 'video'
+): Pick<PreflightResult, 'status' | 'score' | 'recommendAudioOnly' | 'checks'> => {
+  const checks: PreflightCheck[] = [];
+  const { uplinkKbps, downlinkKbps, rttMs, packetLoss, cameraConfiguredFrameRate, micInputLevel } =
+    metrics;
+
+  if (uplinkKbps !== null) {
+    checks.push({
+      id: 'uplink',
+      status: rateBandwidth(uplinkKbps, callType),
+      message: `Upload ${Math.round(uplinkKbps)} kbps`,
+    });
+  }
+  if (downlinkKbps !== null) {
+    checks.push({
+      id: 'downlink',
+      status: rateBandwidth(downlinkKbps, callType),
+      message: `Download ${Math.round(downlinkKbps)} kbps`,
+    });
+  }
+  if (rttMs !== null) {
+    checks.push({
+      id: 'rtt',
+      status: rate(rttMs, PREFLIGHT_THRESHOLDS.rttPassMs, PREFLIGHT_THRESHOLDS.rttWarnMs, false),
+      message: `Latency ${Math.round(rttMs)} ms`,
+    });
+  }
+  if (packetLoss !== null) {
+    checks.push({
+      id: 'packetLoss',
+      status: rate(
+        packetLoss,
+        PREFLIGHT_THRESHOLDS.packetLossPass,
+        PREFLIGHT_THRESHOLDS.packetLossWarn,
+        false
+      ),
+      message: `Packet loss ${(packetLoss * 100).toFixed(1)}%`,
+    });
+  }
+  if (callType === 'video' && cameraConfiguredFrameRate !== null) {
+    checks.push({
+      id: 'camera',
+      status: rate(
+        cameraConfiguredFrameRate,
+        PREFLIGHT_THRESHOLDS.frameRatePass,
+        PREFLIGHT_THRESHOLDS.frameRateWarn,
+        true
+      ),
+      message: `Camera set to ${Math.round(cameraConfiguredFrameRate)} fps`,
+    });
+  }
+  if (micInputLevel !== null) {
+    // A quiet room is not a broken microphone, so silence only warns
+    checks.push({
+      id: 'mic',
+      status: micInputLevel >= PREFLIGHT_THRESHOLDS.micLevelPass ? 'pass' : 'warn',
+      message:
+        micInputLevel >= PREFLIGHT_THRESHOLDS.micLevelPass
+          ? 'Microphone picking up sound'
+          : 'No sound from the microphone',
+    });
+  }
+
+  const score = checks.length
+    ? Math.round(
+        checks.reduce((total, check) => total + STATUS_POINTS[check.status], 0) / checks.length
+      )
+    : 0;
+
+  const status: PreflightStatus = !checks.length
+    ? 'warn'
+    : checks.some(check => check.status === 'fail')
+      ? 'fail'
+      : checks.some(check => check.status === 'warn')
+        ? 'warn'
+        : 'pass';
+
+  // Audio-only helps when the network (not the camera) can't carry video but can carry audio
+  const videoNetworkFails = checks.some(
+    check => NETWORK_CHECKS.includes(check.id) && check.status === 'fail'
+  );
+  const audioBandwidthOk = [uplinkKbps, downlinkKbps].every(
+    kbps => kbps === null || rateBandwidth(kbps, 'audio') !== 'fail'
+  );
+
+  return {
+    status,
+    score,
+    recommendAudioOnly: callType === 'video' && videoNetworkFails && audioBandwidthOk,
+    checks,
+  };
+};
+
+class CallPreflightService {
+  private static instance: CallPreflightService | null = null;
+
+  private inFlight: Promise<PreflightResult | null> | null = null;
+  private lastResult: PreflightResult | null = null;
+
+  static getInstance(): CallPreflightService {
+    if (!CallPreflightService.instance) {
+      CallPreflightService.instance = new CallPreflightService();
+    }
+    return CallPreflightService.instance;
+  }
+
+  /**
+   * Run the preflight test on a Daily call object that has not joined yet.
+   * Concurrent callers share one run. Resolves to null when the test can't
+   * run on this platform.
+   */
+  run(callObject: any, callType: 'audio' | 'video'): Promise<PreflightResult | null> {
+    if (!this.inFlight) {
+      this.inFlight = this.performTest(callObject, callType).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Wait for a test that is still running, so a join doesn't compete with it
+   */
+  async waitForIdle(): Promise<void> {
+    await this.inFlight?.catch(() => null);
+  }
+
+  /**
+   * The last result for this call type, if it is recent enough to trust
+   */
+  getRecentResult(callType: 'audio' | 'video'): PreflightResult | null {
+    if (
+      !this.lastResult ||
+      this.lastResult.callType !== callType ||
+      Date.now() - this.lastResult.testedAt > RESULT_MAX_AGE_MS
+    ) {
+      return null;
+    }
+    return this.lastResult;
+  }
+
+  getLastResult(): PreflightResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Record whether the user took the audio-only recommendation, so the join
+   * follows their choice instead of turning the camera off for them
+   */
+  setAudioOnlyChoice(audioOnly: boolean): void {
+    if (!this.lastResult) return;
+    this.lastResult = { ...this.lastResult, audioOnlyChosen: audioOnly };
+  }
+
+  /**
+   * Forget the last result and detach it from error reports once the call ends
+   */
+  clear(): void {
+    this.lastResult = null;
+    SentryErrorTracker.getInstance().setCallContext('call_preflight', null);
+  }
+
+  destroy(): void {
+    this.inFlight = null;
+    this.lastResult = null;
+    CallPreflightService.instance = null;
+  }
+
+  private async performTest(
+    callObject: any,
+    callType: 'audio' | 'video'
+  ): Promise<PreflightResult | null> {
+    if (Platform.OS === 'web' || !callObject) return null;
+
+    const startedAt = Date.now();
+    console.log(`🩺 Running ${callType} call preflight test...`);
+
+    try {
+      await callObject.startCamera({ startVideoOff: callType === 'audio', startAudioOff: false });
+    } catch (error) {
+      console.warn('⚠️ Preflight could not start camera/microphone:', error);
+    }
+
+    const stopMicSampling = this.sampleMicLevel(callObject);
+    const network = await this.testNetwork(callObject);
+    const micInputLevel = stopMicSampling();
+
+    const metrics: PreflightMetrics = {
+      ...network.metrics,
+      cameraConfiguredFrameRate:
+        callType === 'video' ? this.readCameraConfiguredFrameRate(callObject) : null,
+      micInputLevel,
+    };
+
+    const result: PreflightResult = {
+      callType,
+      ...scorePreflight(metrics, callType),
+      audioOnlyChosen: null,
+      metrics,
+      networkResult: network.result,
+      durationMs: Date.now() - startedAt,
+      testedAt: Date.now(),
+    };
+
+    this.lastResult = result;
+    this.report(result);
+
+    console.log(
+      `🩺 Preflight ${result.status} (${result.score}/100)${result.recommendAudioOnly ? ' - audio-only recommended' : ''}`
+    );
+    return result;
+  }
+
+  private async testNetwork(callObject: any): Promise<{
+    result: string | null;
+    metrics: Pick<PreflightMetrics, 'uplinkKbps' | 'downlinkKbps' | 'rttMs' | 'packetLoss'>;
+  }> {
+    const empty = { uplinkKbps: null, downlinkKbps: null, rttMs: null, packetLoss: null };
+
+    if (typeof callObject.testCallQuality !== 'function') {
+      return { result: null, metrics: empty };
+    }
+
+    // Daily runs the test for up to 30s; stopping early still reports what it measured
+    const stopTimer = setTimeout(() => {
+      try {
+        callObject.stopTestCallQuality?.();
+      } catch {}
+    }, NETWORK_TEST_DURATION_MS);
+
+    try {
+      const { result, data } = await callObject.testCallQuality();
+      const toKbps = (bps: unknown) => (typeof bps === 'number' ? bps / 1000 : null);
+      const rttSeconds = data?.avgRoundTripTime ?? data?.maxRoundTripTime;
+
+      return {
+        result: result ?? null,
+        metrics: {
+          uplinkKbps: toKbps(data?.avgAvailableOutgoingBitrate ?? data?.avgSendBitsPerSecond),
+          downlinkKbps: toKbps(data?.avgRecvBitsPerSecond),
+          rttMs: typeof rttSeconds === 'number' ? rttSeconds * 1000 : null,
+          packetLoss: typeof data?.avgSendPacketLoss === 'number' ? data.avgSendPacketLoss : null,
+        },
+      };
+    } catch (error) {
+      console.warn('⚠️ Preflight network test failed:', error);
+      return { result: 'failed', metrics: empty };
+    } finally {
+      clearTimeout(stopTimer);
+    }
+  }
+
+  /**
+   * Sample the local audio level while the network test runs; returns a stop
+   * function resolving to the peak level, or null if it can't be observed
+   */
+  private sampleMicLevel(callObject: any): () => number | null {
+    if (typeof callObject.getLocalAudioLevel !== 'function') {
+      return () => null;
+    }
+
+    let peak: number | null = null;
+    const sample = () => {
+      try {
+        const level = callObject.getLocalAudioLevel();
+        if (typeof level === 'number') peak = Math.max(peak ?? 0, level);
+      } catch {}
+    };
+
+    try {
+      callObject.startLocalAudioLevelObserver?.(MIC_SAMPLE_INTERVAL_MS);
+    } catch {}
+    const interval = setInterval(sample, MIC_SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      sample();
+      try {
+        callObject.stopLocalAudioLevelObserver?.();
+      } catch {}
+      return peak;
+    };
+  }
+
+  private readCameraConfiguredFrameRate(callObject: any): number | null {
+    try {
+      const track = callObject.participants()?.local?.tracks?.video?.persistentTrack;
+      const frameRate = track?.getSettings?.().frameRate;
+      return typeof frameRate === 'number' ? frameRate : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private report(result: PreflightResult): void {
+    const tracker = SentryErrorTracker.getInstance();
+
+    // Kept on the scope so any error later in the call carries the preflight numbers
+    tracker.setCallContext('call_preflight', {
+      status: result.status,
+      score: result.score,
+      recommendAudioOnly: result.recommendAudioOnly,
+      networkResult: result.networkResult,
+      durationMs: result.durationMs,
+      ...result.metrics,
+      failedChecks: result.checks
+        .filter(check => check.status !== 'pass')
+        .map(check => `${check.id}:${check.status}`),
+    });
+
+    tracker.addBreadcrumb({
+      category: 'call.preflight',
+      message: `Preflight ${result.status} (${result.score}/100)`,
+      data: { callType: result.callType, recommendAudioOnly: result.recommendAudioOnly },
+      level: result.status === 'fail' ? 'warning' : 'info',
+    });
+  }
+}
+
+export default CallPreflightService;
@@ -12,11 +12,12 @@
  *   <uses-permission android:name="android.permission.FOREGROUND_SERVICE" />
  *   <uses-permission android:name="android.permission.FOREGROUND_SERVICE_CAMERA" />
  *   <uses-permission android:name="android.permission.FOREGROUND_SERVICE_MICROPHONE" />
+ *   <uses-permission android:name="android.permission.FOREGROUND_SERVICE_MEDIA_PROJECTION" />
  *   <uses-permission android:name="android.permission.POST_NOTIFICATIONS" />
  *
  *   <service
  *     android:name="com.asterinet.react.bgactions.RNBackgroundActionsTask"
- *     android:foregroundServiceType="camera|microphone"
+ *     android:foregroundServiceType="camera|microphone|mediaProjection"
  *     android:exported="false" />
  */
 
@@ -52,6 +53,7 @@ interface ActiveServiceInfo {
 class ForegroundServiceManager {
   private static instance: ForegroundServiceManager | null = null;
   private isServiceRunning = false;
+  private isScreenSharing = false;
   private activeServiceInfo: ActiveServiceInfo | null = null;
   private updateIntervalId: NodeJS.Timeout | null = null;
 
@@ -182,7 +184,9 @@ class ForegroundServiceManager {
       const duration = this.getCallDuration();
       const options: ForegroundServiceOptions = {
         id: this.activeServiceInfo.serviceId,
-        title: callType === 'video' ? '📹 Video Call In Progress' : '📞 Audio Call In Progress',
+        title: this.isScreenSharing
+          ? '🖥️ Sharing Your Screen'
+          : callType === 'video' ? '📹 Video Call In Progress' : '📞 Audio Call In Progress',
         message: `${contactName} • ${duration}`,
         icon: 'ic_launcher',
         button: true,
@@ -234,6 +238,7 @@ class ForegroundServiceManager {
 
       // Clear state
       this.isServiceRunning = false;
+      this.isScreenSharing = false;
       this.activeServiceInfo = null;
 
       console.log('✅ ForegroundService: Stopped');
@@ -242,11 +247,111 @@ class ForegroundServiceManager {
       console.error('❌ ForegroundService: Failed to stop:', error);
       // Force clear state even if stop failed
       this.isServiceRunning = false;
+      this.isScreenSharing = false;
       this.activeServiceInfo = null;
       this.stopPeriodicUpdates();
     }
   }
 
+  /**
+   * Switch the running call service to a mediaProjection service for screen
+   * sharing. Android 14+ only hands out a MediaProjection to a foreground
+   * service of that type, so this must succeed before Daily starts capturing.
+   */
+  public async startScreenShareService(): Promise<boolean> {
+    if (!this.isSupported() || this.isScreenSharing) {
+      return true;
+    }
+
+    const mod = this.ensureModule();
+    if (!mod || !this.isServiceRunning || !this.activeServiceInfo) {
+      console.warn('📱 ForegroundService: No call service running, cannot share screen');
+      return false;
+    }
+
+    try {
+      console.log('📱 ForegroundService: Switching to screen share service...');
+      this.isScreenSharing = true;
+      // Keep the call's own types so Android doesn't cut the camera or microphone mid-call
+      await this.restartWithServiceType(
+        this.activeServiceInfo.callType === 'video'
+          ? ['camera', 'microphone', 'mediaProjection']
+          : ['microphone', 'mediaProjection']
+      );
+      console.log('✅ ForegroundService: Screen share service started');
+      return true;
+
+    } catch (error) {
+      console.error('❌ ForegroundService: Failed to start screen share service:', error);
+      this.isScreenSharing = false;
+      // Put the call service back so the call keeps running in the background
+      await this.restartWithServiceType(
+        [this.activeServiceInfo.callType === 'video' ? 'camera' : 'microphone']
+      ).catch(() => undefined);
+      SentryErrorTracker.getInstance().trackError(error as Error, {
+        context: 'ForegroundServiceManager',
+        action: 'startScreenShareService',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Return to the regular call service once screen sharing stops
+   */
+  public async stopScreenShareService(): Promise<void> {
+    if (!this.isSupported() || !this.isScreenSharing || !this.activeServiceInfo) {
+      this.isScreenSharing = false;
+      return;
+    }
+
+    try {
+      console.log('📱 ForegroundService: Screen share ended, restoring call service...');
+      this.isScreenSharing = false;
+      await this.restartWithServiceType(
+        [this.activeServiceInfo.callType === 'video' ? 'camera' : 'microphone']
+      );
+    } catch (error) {
+      console.warn('⚠️ ForegroundService: Failed to restore call service:', error);
+    }
+  }
+
+  /**
+   * The service type is fixed when a foreground service starts, so changing
+   * it means stopping and starting the service with the same notification.
+   * Several types are combined the way the manifest declares them.
+   */
+  private async restartWithServiceType(
+    serviceTypes: ('camera' | 'microphone' | 'mediaProjection')[]
+  ): Promise<void> {
+    const mod = this.ensureModule();
+    if (!mod || !this.activeServiceInfo) return;
+
+    const { serviceId, contactName, callType } = this.activeServiceInfo;
+    await mod.stop();
+    await mod.start({
+      id: serviceId,
+      title: this.isScreenSharing
+        ? '🖥️ Sharing Your Screen'
+        : callType === 'video' ? '📹 Video Call In Progress' : '📞 Audio Call In Progress',
+      message: `Connected with ${contactName}`,
+      icon: 'ic_launcher',
+      button: true,
+      buttonText: 'Return to Call',
+      buttonOnPress: 'HopMedCallReturn',
+      setOnlyAlertOnce: true,
+      color: '#007AFF',
+      ServiceType: serviceTypes.join('|'),
+    });
+  }
+
+  /**
+   * Whether the service is currently running for screen sharing
+   */
+  public isScreenShareActive(): boolean {
+    return this.isScreenSharing;
+  }
+
   /**
    * Start periodic notification updates
    */
@@ -16,7 +16,8 @@ import * as Notifications from 'expo-notifications';
 const NativeIncomingCallModule = NativeModules.NativeIncomingCallModule;
 
 interface IncomingCallData {
-  callId: string;
+  callUuid: string; // IncomingCallManager's id for the ringing call
+  callId?: string; // Backend call id, drives the shared call lifecycle
   callerId: string;
   callerName: string;
   callerType: 'customer' | 'doctor';
@@ -66,7 +67,8 @@ class IncomingCallActivityLauncher {
 
       try {
         await NativeIncomingCallModule.launchIncomingCallActivity({
-          callId: callData.callId,
+          callUuid: callData.callUuid,
+          callId: callData.callId ?? '',
           callerId: callData.callerId,
           callerName: callData.callerName,
           callerType: callData.callerType,
@@ -101,7 +103,7 @@ class IncomingCallActivityLauncher {
    * 🚨 ENHANCED: Improved configuration for better wake-up behavior
    */
   private async createFullScreenNotification(callData: IncomingCallData): Promise<void> {
-    const notificationId = `incoming_call_fullscreen_${callData.callId}`;
+    const notificationId = `incoming_call_fullscreen_${callData.callUuid}`;
 
     const notificationContent: Notifications.NotificationContentInput = {
       title: `📞 Incoming ${callData.callType === 'video' ? 'Video' : 'Audio'} Call`,
@@ -113,6 +115,7 @@ class IncomingCallActivityLauncher {
       autoDismiss: false,
       data: {
         type: 'incoming_call_fullscreen',
+        callUuid: callData.callUuid,
         callId: callData.callId,
         callerId: callData.callerId,
         callerName: callData.callerName,
@@ -206,6 +209,22 @@ class IncomingCallActivityLauncher {
     }
   }
 
+  /**
+   * Remove the incoming call UI when the caller hangs up before it is answered
+   */
+  async dismissIncomingCallUI(callUuid: string): Promise<void> {
+    if (this.activeCallData?.callUuid === callUuid) {
+      this.activeCallData = null;
+    }
+
+    try {
+      await Notifications.dismissNotificationAsync(`incoming_call_fullscreen_${callUuid}`);
+      console.log(`✅ Incoming call UI dismissed: ${callUuid}`);
+    } catch (error) {
+      console.warn('⚠️ Failed to dismiss incoming call notification:', error);
+    }
+  }
+
   /**
    * Get active call data
    */
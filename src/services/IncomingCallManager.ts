@@ -24,10 +24,12 @@ import { v4 as uuidv4 } from 'react-native-get-random-values';
 import * as Device from 'expo-device';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+import CallLifecycleManager from './CallLifecycleManager';
 import CallNavigationManager from './CallNavigationManager';
 import CallNotificationManager, { type IncomingCallNotificationData } from './CallNotificationManager';
 import IncomingCallActivityLauncher from './IncomingCallActivityLauncher';
 import { SentryErrorTracker, type ErrorContext } from '../utils/sentryErrorTracker';
+import { CallLifecycleState, type CallHistoryEntry } from '../types/callTypes';
 
 // Lazy import CallKeep to avoid iOS simulator crash and TurboModule errors
 let RNCallKeep: any = null;
@@ -122,6 +124,7 @@ interface IncomingCallData {
   callerType: 'customer' | 'doctor'; // Type of caller
   callType: 'audio' | 'video';
   roomUrl: string; // Daily.co room URL
+  callId?: string; // Backend call id, drives the shared call lifecycle
   metadata?: Record<string, any>; // Additional call metadata
 }
 
@@ -157,8 +160,13 @@ class IncomingCallManager {
   // Callbacks for handling call events
   private onCallAnsweredCallback: ((callData: IncomingCallData) => void) | null = null;
   private onCallDeclinedCallback: ((callData: IncomingCallData) => void) | null = null;
+  private lifecycleUnsubscribe: (() => void) | null = null;
 
-  private constructor() {}
+  private constructor() {
+    this.lifecycleUnsubscribe = CallLifecycleManager.getInstance().addListener(
+      this.handleLifecycleChange.bind(this)
+    );
+  }
 
   static getInstance(): IncomingCallManager {
     if (!IncomingCallManager.instance) {
@@ -620,12 +628,31 @@ class IncomingCallManager {
    * - Android: Use custom NativeIncomingCallModule (New Arch compatible)
    * - iOS: Use CallKeep (works fine with New Arch on iOS)
    */
-  async displayIncomingCall(callData: Omit<IncomingCallData, 'callUuid'>): Promise<string> {
+  async displayIncomingCall(callData: Omit<IncomingCallData, 'callUuid'>): Promise<string | null> {
     if (!this.isInitialized) {
       console.warn('⚠️ IncomingCallManager not initialized');
       await this.initialize();
     }
 
+    // A second call while one is active gets a busy signal instead of ringing,
+    // and a push for a call that was already handled is dropped
+    if (callData.callId) {
+      const shouldRing = await CallLifecycleManager.getInstance().receiveIncomingCall(
+        {
+          callId: callData.callId,
+          participantId: callData.callerId,
+          participantName: callData.callerName,
+          participantType: callData.callerType,
+          callType: callData.callType,
+        },
+        this.hasActiveCalls() || CallNavigationManager.getInstance().isInCall()
+      );
+
+      if (!shouldRing) {
+        return null;
+      }
+    }
+
     // Generate unique call UUID
     const callUuid = uuidv4();
 
@@ -649,7 +676,8 @@ class IncomingCallManager {
 
         // Launch native incoming call activity
         await launcher.launchIncomingCallUI({
-          callId: callUuid,
+          callUuid,
+          callId: fullCallData.callId,
           callerId: fullCallData.callerId,
           callerName: fullCallData.callerName,
           callerType: fullCallData.callerType,
@@ -788,6 +816,10 @@ class IncomingCallManager {
       return;
     }
 
+    if (callData.callId) {
+      await CallLifecycleManager.getInstance().answerCall(callData.callId);
+    }
+
     const CallKeep = getCallKeep();
     if (!CallKeep) return;
 
@@ -841,6 +873,11 @@ class IncomingCallManager {
       return;
     }
 
+    // Declines the call if it is still ringing, otherwise ends it
+    if (callData.callId) {
+      await CallLifecycleManager.getInstance().hangUp(callData.callId);
+    }
+
     const CallKeep = getCallKeep();
     if (!CallKeep) return;
 
@@ -880,6 +917,47 @@ class IncomingCallManager {
     }
   }
 
+  /**
+   * Dismiss the ringing UI when the caller hangs up or the call times out
+   */
+  private handleLifecycleChange(entry: CallHistoryEntry, previousState: CallLifecycleState | null): void {
+    if (entry.direction !== 'incoming') {
+      return;
+    }
+
+    const call = this.getActiveCalls().find(active => active.callId === entry.callId);
+    if (!call) {
+      return;
+    }
+
+    // CallKeep's end event forgets iOS calls; Android's own call UI has no such
+    // event, and a call left here would reject the next one as busy
+    if (
+      Platform.OS === 'android' &&
+      (entry.state === CallLifecycleState.DECLINED || entry.state === CallLifecycleState.ENDED)
+    ) {
+      this.activeCalls.delete(call.callUuid);
+      return;
+    }
+
+    if (previousState !== CallLifecycleState.RINGING) {
+      return;
+    }
+    if (entry.state !== CallLifecycleState.CANCELLED && entry.state !== CallLifecycleState.MISSED) {
+      return;
+    }
+
+    console.log(`📞 Caller stopped ringing (${entry.state}), dismissing call ${call.callUuid}`);
+
+    if (Platform.OS === 'android') {
+      this.activeCalls.delete(call.callUuid);
+      IncomingCallActivityLauncher.getInstance().dismissIncomingCallUI(call.callUuid);
+    } else {
+      // CXCallEndedReason: 2 = remote ended, 3 = unanswered
+      this.reportCallEnded(call.callUuid, entry.state === CallLifecycleState.MISSED ? 3 : 2);
+    }
+  }
+
   /**
    * Handle mute action
    */
@@ -1072,6 +1150,11 @@ class IncomingCallManager {
     this.onCallAnsweredCallback = null;
     this.onCallDeclinedCallback = null;
 
+    if (this.lifecycleUnsubscribe) {
+      this.lifecycleUnsubscribe();
+      this.lifecycleUnsubscribe = null;
+    }
+
     this.isInitialized = false;
     IncomingCallManager.instance = null;
 
@@ -19,6 +19,7 @@ import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 
 import IncomingCallManager, { type IncomingCallData } from './IncomingCallManager';
+import CallLifecycleManager from './CallLifecycleManager';
 import CallNavigationManager from './CallNavigationManager';
 import { SentryErrorTracker } from '../utils/sentryErrorTracker';
 
@@ -45,6 +46,7 @@ interface PushTokenData {
 }
 
 interface IncomingCallPushPayload {
+  callId?: string;
   callerId: string;
   callerName: string;
   callerType: 'customer' | 'doctor';
@@ -440,6 +442,7 @@ class NotifeeNotificationService {
       if (data && data.type === 'incoming_call') {
         // Parse call data
         const callData: IncomingCallPushPayload = {
+          callId: data.callId,
           callerId: data.callerId,
           callerName: data.callerName,
           callerType: data.callerType,
@@ -449,6 +452,9 @@ class NotifeeNotificationService {
         };
 
         await this.handleIncomingCallPush(callData);
+      } else if (data && data.type === 'call_status') {
+        // The other party answered, declined, cancelled or was busy
+        await CallLifecycleManager.getInstance().applyServerStatus(data.callId, data.status);
       }
     } catch (error) {
       console.error('❌ Failed to handle remote message:', error);
@@ -471,6 +477,7 @@ class NotifeeNotificationService {
       const incomingCallManager = IncomingCallManager.getInstance();
 
       await incomingCallManager.displayIncomingCall({
+        callId: payload.callId,
         callerId: payload.callerId,
         callerName: payload.callerName,
         callerType: payload.callerType,
@@ -600,6 +607,10 @@ class NotifeeNotificationService {
         if (pressAction?.id === 'answer_call') {
           console.log('✅ User answered call from notification');
 
+          if (notification?.data?.callId) {
+            await CallLifecycleManager.getInstance().answerCall(notification.data.callId);
+          }
+
           // Navigate to call screen
           this.navigateToCallScreen(notification?.data);
 
@@ -615,7 +626,9 @@ class NotifeeNotificationService {
             await notifeeInstance.cancelNotification(notification.id);
           }
 
-          // TODO: Notify backend of declined call
+          if (notification?.data?.callId) {
+            await CallLifecycleManager.getInstance().declineCall(notification.data.callId);
+          }
         }
       }
     } catch (error) {
@@ -642,7 +655,8 @@ class NotifeeNotificationService {
         callData.metadata || {},
         callData.callerName,
         callData.callerType,
-        callData.roomUrl
+        callData.roomUrl,
+        callData.callId
       );
 
       // Navigate based on caller type
@@ -763,6 +777,10 @@ export const notifeeBackgroundHandler = async (event: any) => {
       if (notification?.id) {
         await notifee.cancelNotification(notification.id);
       }
+
+      if (notification?.data?.callId) {
+        await CallLifecycleManager.getInstance().declineCall(notification.data.callId);
+      }
     }
   } catch (error) {
     console.error('❌ Background handler failed:', error);
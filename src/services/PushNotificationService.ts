@@ -15,6 +15,7 @@ import * as Device from 'expo-device';
 import * as TaskManager from 'expo-task-manager';
 
 import IncomingCallManager, { type IncomingCallData } from './IncomingCallManager';
+import CallLifecycleManager from './CallLifecycleManager';
 import CallNavigationManager from './CallNavigationManager';
 import { SentryErrorTracker } from '../utils/sentryErrorTracker';
 
@@ -28,6 +29,7 @@ interface PushTokenData {
 }
 
 interface IncomingCallPushPayload {
+  callId?: string;
   callerId: string;
   callerName: string;
   callerType: 'customer' | 'doctor';
@@ -73,6 +75,7 @@ TaskManager.defineTask(
         // Get IncomingCallManager and display call
         const incomingCallManager = IncomingCallManager.getInstance();
         await incomingCallManager.displayIncomingCall({
+          callId: notificationData.callId,
           callerId: notificationData.callerId,
           callerName: notificationData.callerName,
           callerType: notificationData.callerType,
@@ -82,6 +85,11 @@ TaskManager.defineTask(
         });
 
         console.log('✅ Background incoming call displayed via CallKeep');
+      } else if (notificationData && notificationData.type === 'call_status') {
+        await CallLifecycleManager.getInstance().applyServerStatus(
+          notificationData.callId,
+          notificationData.status
+        );
       }
     } catch (error) {
       console.error('❌ Error handling background notification:', error);
@@ -359,6 +367,13 @@ class PushNotificationService {
 
       if (data && data.type === 'incoming_call') {
         this.handleIncomingCallPush(data as IncomingCallPushPayload);
+      } else if (data && data.type === 'call_status') {
+        // The other party answered, declined, cancelled or was busy
+        CallLifecycleManager.getInstance()
+          .applyServerStatus(data.callId as string, data.status as string)
+          .catch((error) => {
+            console.error('❌ Failed to apply call status push:', error);
+          });
       }
     });
 
@@ -380,7 +395,8 @@ class PushNotificationService {
           callData.metadata || {},
           callData.callerName,
           callData.callerType,
-          callData.roomUrl
+          callData.roomUrl,
+          callData.callId
         );
 
         // Navigate to call screen
@@ -468,6 +484,7 @@ class PushNotificationService {
 
       // Display incoming call UI
       const callUuid = await incomingCallManager.displayIncomingCall({
+        callId: payload.callId,
         callerId: payload.callerId,
         callerName: payload.callerName,
         callerType: payload.callerType,
@@ -476,7 +493,9 @@ class PushNotificationService {
         metadata,
       });
 
-      console.log(`✅ Incoming call displayed: ${callUuid}`);
+      if (callUuid) {
+        console.log(`✅ Incoming call displayed: ${callUuid}`);
+      }
     } catch (error) {
       console.error('❌ Failed to handle incoming call push:', error);
       SentryErrorTracker.getInstance().trackError(error as Error, {
@@ -139,16 +139,25 @@ class UnifiedVideoCallService {
   private wrapDailyService(): BaseVideoCallService {
     return {
       initializeEngine: () => DailyServiceInstance.initializeEngine(),
-      joinRoom: (roomUrl: string, options?: any) => DailyServiceInstance.joinRoom(roomUrl), // ✅ FIX: Remove options parameter
+      joinRoom: (roomUrl: string, options?: any) =>
+        DailyServiceInstance.joinRoom(roomUrl, { token: options?.token }),
       leaveRoom: () => DailyServiceInstance.leaveRoom(),
       setLocalAudio: (enabled: boolean) => DailyServiceInstance.setLocalAudio(enabled),
       setLocalVideo: (enabled: boolean) => DailyServiceInstance.setLocalVideo(enabled),
       flipCamera: () => DailyServiceInstance.flipCamera(),
       createRoom: (roomName?: string) => DailyServiceInstance.createRoom(roomName),
-      startConsultation: (doctorId: string, customerId: string, callType: 'audio' | 'video') =>
-        DailyServiceInstance.startConsultation(doctorId, customerId, callType),
-      joinConsultation: (doctorId: string, customerId: string, callType: 'audio' | 'video') =>
-        DailyServiceInstance.joinConsultation(doctorId, customerId, callType),
+      startConsultation: (
+        doctorId: string,
+        customerId: string,
+        callType: 'audio' | 'video',
+        appointmentId?: number | string
+      ) => DailyServiceInstance.startConsultation(doctorId, customerId, callType, appointmentId),
+      joinConsultation: (
+        doctorId: string,
+        customerId: string,
+        callType: 'audio' | 'video',
+        appointmentId?: number | string
+      ) => DailyServiceInstance.joinConsultation(doctorId, customerId, callType, appointmentId),
       endConsultation: () => DailyServiceInstance.endConsultation(),
       getProvider: () => VideoCallProvider.DAILY,
       getCapabilities: (): VideoCallCapabilities => ({
@@ -294,7 +303,8 @@ class UnifiedVideoCallService {
   async startConsultation(
     doctorId: string,
     customerId: string,
-    callType: 'audio' | 'video' = 'video'
+    callType: 'audio' | 'video' = 'video',
+    appointmentId?: number | string
   ): Promise<ChannelInfo | null> {
     if (!this.isInitialized) {
       const initialized = await this.initialize();
@@ -314,7 +324,12 @@ class UnifiedVideoCallService {
 
     try {
       console.log(`🏥 Starting ${callType} consultation with ${this.currentProvider}`);
-      const result = await this.currentService.startConsultation(doctorId, customerId, callType);
+      const result = await this.currentService.startConsultation(
+        doctorId,
+        customerId,
+        callType,
+        appointmentId
+      );
       if (result) {
         UnifiedVideoCallService.activeSessionId =
           result.channelName || result.roomUrl || 'active_session';
@@ -330,7 +345,7 @@ class UnifiedVideoCallService {
         console.log(`🔄 Attempting fallback to preferred provider: ${this.preferredProvider}`);
         const fallbackResult = await this.switchProvider(this.preferredProvider);
         if (fallbackResult) {
-          return await this.startConsultation(doctorId, customerId, callType);
+          return await this.startConsultation(doctorId, customerId, callType, appointmentId);
         }
       }
 
@@ -344,7 +359,8 @@ class UnifiedVideoCallService {
   async joinConsultation(
     doctorId: string,
     customerId: string,
-    callType: 'audio' | 'video' = 'video'
+    callType: 'audio' | 'video' = 'video',
+    appointmentId?: number | string
   ): Promise<ChannelInfo | null> {
     if (!this.isInitialized) {
       const initialized = await this.initialize();
@@ -356,7 +372,12 @@ class UnifiedVideoCallService {
       throw new Error('Another call is already active. Please end the current call first.');
     }
     try {
-      const result = await this.currentService.joinConsultation(doctorId, customerId, callType);
+      const result = await this.currentService.joinConsultation(
+        doctorId,
+        customerId,
+        callType,
+        appointmentId
+      );
       if (result) {
         UnifiedVideoCallService.activeSessionId =
           result.channelName || result.roomUrl || 'active_session';
@@ -0,0 +1,129 @@
+/// <reference types="@types/jest" />
+
+import type { QualityChange } from '../AdaptiveQualityController';
+import AdaptiveQualityController from '../AdaptiveQualityController';
+
+jest.mock('../networkMonitorService', () => ({
+  __esModule: true,
+  NetworkQuality: { EXCELLENT: 'excellent', GOOD: 'good', POOR: 'poor' },
+  default: {
+    getNetworkQuality: () => 'good',
+    addListener: () => () => undefined,
+  },
+}));
+
+jest.mock('../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ addBreadcrumb: jest.fn() }),
+  },
+}));
+
+const stats = {
+  good: { threshold: 'good', stats: { worstVideoRecvPacketLoss: 0 } },
+  poor: { threshold: 'low', stats: { worstVideoRecvPacketLoss: 0.04 } },
+  critical: { threshold: 'very-low', stats: { worstVideoRecvPacketLoss: 0.15 } },
+};
+
+const fakeCallObject = () => {
+  let videoOn = true;
+  return {
+    getNetworkStats: jest.fn().mockResolvedValue(stats.good),
+    localVideo: jest.fn(() => videoOn),
+    setLocalVideo: jest.fn((enabled: boolean) => {
+      videoOn = enabled;
+    }),
+    updateSendSettings: jest.fn().mockResolvedValue(undefined),
+    updateReceiveSettings: jest.fn().mockResolvedValue(undefined),
+    updateParticipants: jest.fn(),
+  };
+};
+
+describe('AdaptiveQualityController', () => {
+  let controller: AdaptiveQualityController;
+  let callObject: ReturnType<typeof fakeCallObject>;
+  let changes: QualityChange[];
+
+  const sampleTimes = async (link: keyof typeof stats, times: number) => {
+    callObject.getNetworkStats.mockResolvedValue(stats[link]);
+    for (let i = 0; i < times; i++) {
+      await controller.sample();
+    }
+  };
+
+  beforeEach(() => {
+    AdaptiveQualityController.getInstance().destroy();
+    controller = AdaptiveQualityController.getInstance();
+    callObject = fakeCallObject();
+    changes = [];
+    controller.addListener('test', change => changes.push(change));
+    controller.startCallSession(callObject, 'video');
+  });
+
+  afterEach(() => {
+    controller.destroy();
+  });
+
+  it('starts from the known link quality and applies its simulcast layer', () => {
+    expect(controller.getLevel()).toBe('medium');
+    expect(callObject.updateSendSettings).toHaveBeenCalledWith({
+      video: { maxQuality: 'medium' },
+    });
+  });
+
+  it('steps down only after consecutive poor samples', async () => {
+    await sampleTimes('poor', 1);
+    expect(controller.getLevel()).toBe('medium');
+
+    await sampleTimes('poor', 1);
+    expect(controller.getLevel()).toBe('low');
+    expect(changes[0]).toEqual(
+      expect.objectContaining({ from: 'medium', to: 'low', reason: expect.any(String) })
+    );
+    expect(callObject.updateReceiveSettings).toHaveBeenLastCalledWith({
+      '*': { video: { layer: 0 } },
+    });
+  });
+
+  it('drops to audio-only on a critical link and waits longer before bringing video back', async () => {
+    await sampleTimes('critical', 2);
+    expect(controller.getLevel()).toBe('audio-only');
+    expect(callObject.setLocalVideo).toHaveBeenLastCalledWith(false);
+
+    // A good stretch that would step up a video level isn't enough to leave audio-only
+    await sampleTimes('good', 6);
+    expect(controller.getLevel()).toBe('audio-only');
+
+    await sampleTimes('good', 6);
+    expect(controller.getLevel()).toBe('low');
+    expect(callObject.setLocalVideo).toHaveBeenLastCalledWith(true);
+  });
+
+  it('resets the recovery count when the link wobbles', async () => {
+    await sampleTimes('poor', 2);
+    await sampleTimes('good', 5);
+    await sampleTimes('poor', 1);
+    await sampleTimes('good', 5);
+    expect(controller.getLevel()).toBe('low');
+
+    await sampleTimes('good', 1);
+    expect(controller.getLevel()).toBe('medium');
+  });
+
+  it('leaves a camera the user turned off alone when video comes back', async () => {
+    callObject.setLocalVideo(false);
+    callObject.setLocalVideo.mockClear();
+
+    await sampleTimes('critical', 2);
+    await sampleTimes('good', 12);
+
+    expect(controller.getLevel()).toBe('low');
+    expect(callObject.setLocalVideo).not.toHaveBeenCalled();
+  });
+
+  it('stops adapting when the call ends', async () => {
+    controller.endCallSession();
+    await sampleTimes('critical', 2);
+
+    expect(changes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,126 @@
+/// <reference types="@types/jest" />
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+
+import type { AuthTokens, User } from '../../types';
+import AppLifecycleManager from '../../utils/AppLifecycleManager';
+import AppLockService from '../AppLockService';
+import AuthStateMachine from '../AuthStateMachine';
+import CallNavigationManager from '../CallNavigationManager';
+
+jest.mock('expo-local-authentication', () => ({
+  authenticateAsync: jest.fn(),
+}));
+
+jest.mock('../../utils/platform', () => ({
+  supportsBiometrics: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('../CallNavigationManager', () => {
+  const manager = { isInCall: jest.fn().mockReturnValue(false) };
+  return { __esModule: true, default: { getInstance: () => manager } };
+});
+
+const authenticateAsync = LocalAuthentication.authenticateAsync as jest.Mock;
+
+// Fresh singletons behave like the app after a restart, with the stored session restored
+const restart = async () => {
+  AppLockService.getInstance().destroy();
+  AuthStateMachine.getInstance().destroy();
+  // Let the new machine settle before it is told about the session
+  AuthStateMachine.getInstance();
+  await jest.advanceTimersByTimeAsync(0);
+  await AuthStateMachine.getInstance().loginSuccess(
+    { accessToken: 'access', refreshToken: 'refresh' } as AuthTokens,
+    { id: 'user-1' } as User
+  );
+  return AppLockService.getInstance();
+};
+
+const resumeAfter = (backgroundDuration: number) =>
+  (AppLifecycleManager.getInstance() as any).notifyListeners('resumed_from_background', {
+    backgroundDuration,
+  });
+
+describe('AppLockService', () => {
+  beforeEach(async () => {
+    authenticateAsync.mockReset();
+    authenticateAsync.mockResolvedValue({ success: true });
+    await AsyncStorage.clear();
+  });
+
+  it('locks a restored session on cold start and unlocks with biometrics', async () => {
+    const previousRun = await restart();
+    await previousRun.updateSettings({ enabled: true });
+
+    const service = await restart();
+    await service.lockOnLaunch();
+    expect(AuthStateMachine.getInstance().getCurrentState()).toBe('locked');
+
+    authenticateAsync.mockResolvedValueOnce({ success: false, error: 'user_cancel' });
+    expect(await service.unlock()).toBe(false);
+    expect(AuthStateMachine.getInstance().isLocked()).toBe(true);
+
+    expect(await service.unlock()).toBe(true);
+    expect(AuthStateMachine.getInstance().getCurrentState()).toBe('authenticated');
+  });
+
+  it('only locks after the configured time in the background', async () => {
+    const service = await restart();
+    await service.updateSettings({ enabled: true, backgroundTimeoutMs: 60000 });
+
+    resumeAfter(10000);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(AuthStateMachine.getInstance().isLocked()).toBe(false);
+
+    resumeAfter(90000);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(AuthStateMachine.getInstance().isLocked()).toBe(true);
+  });
+
+  it('does not lock during a call or while disabled', async () => {
+    const service = await restart();
+    await service.lockOnLaunch();
+    expect(AuthStateMachine.getInstance().isLocked()).toBe(false);
+
+    await service.updateSettings({ enabled: true });
+    (CallNavigationManager.getInstance().isInCall as jest.Mock).mockReturnValueOnce(true);
+    await service.lock();
+    expect(AuthStateMachine.getInstance().isLocked()).toBe(false);
+  });
+
+  it('will not turn on without a successful biometric check', async () => {
+    const service = await restart();
+    authenticateAsync.mockResolvedValueOnce({ success: false, error: 'user_cancel' });
+
+    expect(await service.updateSettings({ enabled: true })).toBe(false);
+    expect(service.getSettings().enabled).toBe(false);
+  });
+
+  it('asks again for sensitive screens once the grace period has passed', async () => {
+    const service = await restart();
+    expect(await service.requireReauthentication('Verify')).toBe(true);
+    expect(authenticateAsync).not.toHaveBeenCalled();
+
+    await service.updateSettings({ enabled: true });
+    expect(await service.requireReauthentication('Verify')).toBe(true);
+    expect(authenticateAsync).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(Date.now() + 60000);
+    authenticateAsync.mockResolvedValueOnce({ success: false, error: 'user_cancel' });
+    expect(await service.requireReauthentication('Verify')).toBe(false);
+  });
+
+  it('forgets the settings and releases the lock on logout', async () => {
+    const service = await restart();
+    await service.updateSettings({ enabled: true });
+    await service.lock();
+
+    await service.clear();
+
+    expect(AuthStateMachine.getInstance().getCurrentState()).toBe('unauthenticated');
+    const nextSession = await restart();
+    expect(await nextSession.requireReauthentication('Verify')).toBe(true);
+  });
+});
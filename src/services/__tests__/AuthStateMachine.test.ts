@@ -0,0 +1,52 @@
+/// <reference types="@types/jest" />
+
+import type { AuthTokens, User } from '../../types';
+import AuthStateMachine from '../AuthStateMachine';
+
+const tokens = { accessToken: 'access', refreshToken: 'refresh' } as AuthTokens;
+const user = { id: 'user-1' } as User;
+
+const signedInMachine = async () => {
+  AuthStateMachine.getInstance().destroy();
+  const machine = AuthStateMachine.getInstance();
+  // Let the constructor's initialization finish before queueing more events
+  await jest.advanceTimersByTimeAsync(0);
+  await machine.loginSuccess(tokens, user);
+  return machine;
+};
+
+describe('AuthStateMachine session revocation', () => {
+  it('signs out with the reason when the session is revoked remotely', async () => {
+    const machine = await signedInMachine();
+    const stateChange = jest.fn();
+    machine.on('stateChange', stateChange);
+
+    await machine.sessionRevoked('Signed out from another device');
+
+    expect(machine.getCurrentState()).toBe('unauthenticated');
+    expect(machine.getContext()).toEqual({ error: 'Signed out from another device' });
+    expect(stateChange).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'unauthenticated', event: 'SESSION_REVOKED' })
+    );
+  });
+
+  it('signs out a locked app when its session is revoked', async () => {
+    const machine = await signedInMachine();
+    await machine.lock();
+
+    await machine.sessionRevoked('Signed out from another device');
+
+    expect(machine.getCurrentState()).toBe('unauthenticated');
+  });
+
+  it('only unlocks back into the session it locked', async () => {
+    const machine = await signedInMachine();
+    await machine.lock();
+
+    await machine.loginSuccess(tokens, user);
+    expect(machine.isLocked()).toBe(true);
+
+    await machine.unlock();
+    expect(machine.getCurrentState()).toBe('authenticated');
+  });
+});
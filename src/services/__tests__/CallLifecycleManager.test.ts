@@ -0,0 +1,210 @@
+/// <reference types="@types/jest" />
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { CallLifecycleState } from '../../types/callTypes';
+import { callsApi } from '../api/callsApi';
+import CallLifecycleManager from '../CallLifecycleManager';
+
+jest.mock('../api/callsApi', () => ({
+  callsApi: {
+    answerCall: jest.fn().mockResolvedValue({ success: true }),
+    declineCall: jest.fn().mockResolvedValue({ success: true }),
+    markCallMissed: jest.fn().mockResolvedValue({ success: true }),
+    cancelCall: jest.fn().mockResolvedValue({ success: true }),
+    markCallBusy: jest.fn().mockResolvedValue({ success: true }),
+    endCall: jest.fn().mockResolvedValue({ success: true }),
+    getCallHistory: jest.fn(),
+  },
+}));
+
+jest.mock('../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ trackServiceError: jest.fn() }),
+  },
+}));
+
+const call = (callId: string) => ({
+  callId,
+  participantId: 'user-2',
+  participantName: 'Dr. Smith',
+  participantType: 'doctor' as const,
+  callType: 'video' as const,
+});
+
+// A fresh manager behaves like the app after a restart
+const restartManager = () => {
+  (CallLifecycleManager as any).instance = null;
+  return CallLifecycleManager.getInstance();
+};
+
+describe('CallLifecycleManager', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('reports an outgoing call missed when nobody answers in time', async () => {
+    const manager = restartManager();
+    await manager.startOutgoingCall(call('call-1'), 30000);
+
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.MISSED);
+    expect(callsApi.markCallMissed).toHaveBeenCalledWith('call-1', 'user-2');
+  });
+
+  it('rejects an incoming call as busy and badges it', async () => {
+    const manager = restartManager();
+
+    expect(await manager.receiveIncomingCall(call('call-1'), true)).toBe(false);
+
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.BUSY);
+    expect(callsApi.markCallBusy).toHaveBeenCalledWith('call-1');
+    expect(await manager.getUnseenMissedCount()).toBe(1);
+
+    await manager.markMissedCallsSeen();
+    expect(await manager.getUnseenMissedCount()).toBe(0);
+  });
+
+  it('rings a duplicate push only while the call is still ringing', async () => {
+    const manager = restartManager();
+
+    expect(await manager.receiveIncomingCall(call('call-1'), false)).toBe(true);
+    expect(await manager.receiveIncomingCall(call('call-1'), false)).toBe(true);
+
+    await manager.declineCall('call-1');
+    expect(await manager.receiveIncomingCall(call('call-1'), false)).toBe(false);
+  });
+
+  it('cancels an outgoing call hung up while ringing and ignores later statuses', async () => {
+    const manager = restartManager();
+    const listener = jest.fn();
+    manager.addListener(listener);
+    await manager.startOutgoingCall(call('call-1'));
+
+    await manager.hangUp('call-1');
+
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.CANCELLED);
+    expect(callsApi.cancelCall).toHaveBeenCalledWith('call-1');
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ state: CallLifecycleState.CANCELLED }),
+      CallLifecycleState.RINGING
+    );
+
+    expect(await manager.applyServerStatus('call-1', 'answered')).toBe(false);
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.CANCELLED);
+  });
+
+  it('applies server statuses through to the end of the call', async () => {
+    const manager = restartManager();
+    await manager.startOutgoingCall(call('call-1'));
+
+    expect(await manager.applyServerStatus('call-1', 'answered')).toBe(true);
+    jest.advanceTimersByTime(60000);
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.ANSWERED);
+
+    await manager.hangUp('call-1');
+    const [entry] = await manager.getHistory();
+    expect(entry).toMatchObject({ state: CallLifecycleState.ENDED, seen: true });
+    expect(callsApi.endCall).toHaveBeenCalledWith('call-1');
+    expect(callsApi.answerCall).not.toHaveBeenCalled();
+  });
+
+  it('counts an outgoing call answered once the recipient joins the room', async () => {
+    const manager = restartManager();
+    await manager.startOutgoingCall(call('call-1'), 30000);
+
+    expect(await manager.confirmAnswered('call-1')).toBe(true);
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.ANSWERED);
+    expect(callsApi.markCallMissed).not.toHaveBeenCalled();
+    expect(callsApi.answerCall).not.toHaveBeenCalled();
+    expect(await manager.confirmAnswered('call-1')).toBe(false);
+  });
+
+  it('answers an incoming call before the local ring timeout', async () => {
+    const manager = restartManager();
+    await manager.receiveIncomingCall(call('call-1'), false);
+
+    await manager.answerCall('call-1');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(manager.getCallState('call-1')).toBe(CallLifecycleState.ANSWERED);
+    expect(callsApi.answerCall).toHaveBeenCalledWith('call-1');
+    expect(await manager.getUnseenMissedCount()).toBe(0);
+  });
+
+  it('treats calls left ringing at shutdown as missed after a restart', async () => {
+    await restartManager().receiveIncomingCall(call('call-1'), false);
+
+    const [entry] = await restartManager().getHistory();
+
+    expect(entry).toMatchObject({ state: CallLifecycleState.MISSED, seen: false });
+  });
+
+  it('forgets every call on logout, including after a restart', async () => {
+    const manager = restartManager();
+    await manager.receiveIncomingCall(call('call-1'), true);
+    await manager.startOutgoingCall(call('call-2'), 30000);
+
+    await manager.clear();
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(await manager.getHistory()).toEqual([]);
+    expect(await restartManager().getHistory()).toEqual([]);
+    expect(callsApi.markCallMissed).not.toHaveBeenCalled();
+  });
+
+  it('merges the backend history and keeps calls the user has already seen', async () => {
+    const manager = restartManager();
+    await manager.receiveIncomingCall(call('call-1'), true);
+    await manager.markMissedCallsSeen();
+    (callsApi.getCallHistory as jest.Mock).mockResolvedValue({
+      data: {
+        calls: [
+          {
+            callId: 'call-1',
+            callerId: 'user-2',
+            callerName: 'Dr. Smith',
+            callerType: 'doctor',
+            recipientId: 'user-1',
+            recipientName: 'Jane Doe',
+            recipientType: 'customer',
+            callType: 'video',
+            status: 'missed',
+            startedAt: '2026-03-01T08:00:00Z',
+            endedAt: '2026-03-01T08:00:45Z',
+          },
+          {
+            callId: 'call-2',
+            callerId: 'user-3',
+            callerName: 'Dr. Jones',
+            callerType: 'doctor',
+            recipientId: 'user-1',
+            recipientName: 'Jane Doe',
+            recipientType: 'customer',
+            callType: 'audio',
+            status: 'missed',
+            startedAt: '2026-03-02T08:00:00Z',
+          },
+        ],
+      },
+    });
+
+    await manager.syncHistory('user-1');
+
+    const history = await manager.getHistory();
+    expect(history.map(entry => entry.callId)).toEqual(['call-2', 'call-1']);
+    expect(history.find(entry => entry.callId === 'call-1')).toMatchObject({
+      state: CallLifecycleState.MISSED,
+      seen: true,
+    });
+    expect(history.find(entry => entry.callId === 'call-2')).toMatchObject({
+      direction: 'incoming',
+      participantName: 'Dr. Jones',
+      seen: false,
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/// <reference types="@types/jest" />
+
+import type { PreflightMetrics } from '../CallPreflightService';
+import CallPreflightService, { scorePreflight } from '../CallPreflightService';
+
+const mockSetCallContext = jest.fn();
+
+jest.mock('../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ setCallContext: mockSetCallContext, addBreadcrumb: jest.fn() }),
+  },
+}));
+
+const healthyLink: PreflightMetrics = {
+  uplinkKbps: 2500,
+  downlinkKbps: 3000,
+  rttMs: 60,
+  packetLoss: 0,
+  cameraConfiguredFrameRate: 30,
+  micInputLevel: 0.2,
+};
+
+const fakeCallObject = (data: Record<string, number>) => ({
+  startCamera: jest.fn().mockResolvedValue(undefined),
+  testCallQuality: jest.fn().mockResolvedValue({ result: 'good', data }),
+  stopTestCallQuality: jest.fn(),
+  startLocalAudioLevelObserver: jest.fn(),
+  stopLocalAudioLevelObserver: jest.fn(),
+  getLocalAudioLevel: jest.fn().mockReturnValue(0.3),
+  participants: () => ({
+    local: { tracks: { video: { persistentTrack: { getSettings: () => ({ frameRate: 30 }) } } } },
+  }),
+});
+
+describe('scorePreflight', () => {
+  it('passes a link that meets video requirements', () => {
+    const result = scorePreflight(healthyLink, 'video');
+
+    expect(result.status).toBe('pass');
+    expect(result.score).toBe(100);
+    expect(result.recommendAudioOnly).toBe(false);
+  });
+
+  it('recommends audio-only when the link can carry audio but not video', () => {
+    const result = scorePreflight({ ...healthyLink, uplinkKbps: 300 }, 'video');
+
+    expect(result.status).toBe('fail');
+    expect(result.recommendAudioOnly).toBe(true);
+    expect(result.checks).toContainEqual(expect.objectContaining({ id: 'uplink', status: 'fail' }));
+  });
+
+  it('judges bandwidth against audio requirements for audio calls', () => {
+    const result = scorePreflight(
+      { ...healthyLink, uplinkKbps: 300, cameraConfiguredFrameRate: 5 },
+      'audio'
+    );
+
+    expect(result.status).toBe('pass');
+    expect(result.checks.map(check => check.id)).not.toContain('camera');
+  });
+
+  it('warns rather than fails on a silent microphone and skips unmeasured metrics', () => {
+    const result = scorePreflight(
+      { ...healthyLink, micInputLevel: 0, rttMs: null, packetLoss: null },
+      'video'
+    );
+
+    expect(result.status).toBe('warn');
+    expect(result.checks.map(check => check.id)).toEqual(['uplink', 'downlink', 'camera', 'mic']);
+  });
+});
+
+describe('CallPreflightService', () => {
+  beforeEach(() => {
+    CallPreflightService.getInstance().destroy();
+    mockSetCallContext.mockClear();
+  });
+
+  it('measures the call object and attaches the result to Sentry', async () => {
+    const callObject = fakeCallObject({
+      avgAvailableOutgoingBitrate: 400000,
+      avgRecvBitsPerSecond: 1500000,
+      avgRoundTripTime: 0.08,
+      avgSendPacketLoss: 0.002,
+    });
+
+    const result = await CallPreflightService.getInstance().run(callObject, 'video');
+
+    expect(callObject.startCamera).toHaveBeenCalled();
+    expect(result?.metrics).toEqual({
+      uplinkKbps: 400,
+      downlinkKbps: 1500,
+      rttMs: 80,
+      packetLoss: 0.002,
+      cameraConfiguredFrameRate: 30,
+      micInputLevel: 0.3,
+    });
+    expect(result?.recommendAudioOnly).toBe(true);
+    expect(mockSetCallContext).toHaveBeenCalledWith(
+      'call_preflight',
+      expect.objectContaining({ status: 'fail', recommendAudioOnly: true, uplinkKbps: 400 })
+    );
+    expect(CallPreflightService.getInstance().getRecentResult('video')).toBe(result);
+    expect(CallPreflightService.getInstance().getRecentResult('audio')).toBeNull();
+  });
+
+  it('shares one run between concurrent callers', async () => {
+    const callObject = fakeCallObject({ avgAvailableOutgoingBitrate: 2000000 });
+    const service = CallPreflightService.getInstance();
+
+    const [first, second] = await Promise.all([
+      service.run(callObject, 'audio'),
+      service.run(callObject, 'audio'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(callObject.testCallQuality).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the audio-only choice with the recent result', async () => {
+    const service = CallPreflightService.getInstance();
+    const result = await service.run(
+      fakeCallObject({ avgAvailableOutgoingBitrate: 400000 }),
+      'video'
+    );
+    expect(result?.audioOnlyChosen).toBeNull();
+
+    service.setAudioOnlyChoice(true);
+
+    expect(service.getRecentResult('video')?.audioOnlyChosen).toBe(true);
+  });
+});
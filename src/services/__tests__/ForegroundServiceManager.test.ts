@@ -0,0 +1,79 @@
+/// <reference types="@types/jest" />
+
+import ForegroundServiceManager from '../ForegroundServiceManager';
+
+const mockService = {
+  start: jest.fn().mockResolvedValue(undefined),
+  stop: jest.fn().mockResolvedValue(undefined),
+  update: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'android' },
+}));
+
+jest.mock('@supersami/rn-foreground-service', () => ({
+  __esModule: true,
+  default: mockService,
+}));
+
+jest.mock('../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ trackError: jest.fn() }),
+  },
+}));
+
+const lastServiceType = (): string | undefined => {
+  const [options] = (mockService.start.mock.calls.at(-1) ?? []) as [{ ServiceType?: string }?];
+  return options?.ServiceType;
+};
+
+describe('ForegroundServiceManager screen sharing', () => {
+  let manager: ForegroundServiceManager;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    manager = ForegroundServiceManager.getInstance();
+    await manager.stopService();
+    mockService.start.mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await manager.stopService();
+  });
+
+  it('refuses to share without a running call service', async () => {
+    await expect(manager.startScreenShareService()).resolves.toBe(false);
+    expect(mockService.start).not.toHaveBeenCalled();
+  });
+
+  it('adds mediaProjection to the call service and removes it again', async () => {
+    await manager.startService('Dr. Smith', 'video', 'https://hopmed.daily.co/room');
+    expect(lastServiceType()).toBe('camera');
+
+    await expect(manager.startScreenShareService()).resolves.toBe(true);
+    expect(mockService.stop).toHaveBeenCalledTimes(1);
+    expect(lastServiceType()).toBe('camera|microphone|mediaProjection');
+    expect(manager.isScreenShareActive()).toBe(true);
+
+    await manager.stopScreenShareService();
+    expect(lastServiceType()).toBe('camera');
+    expect(manager.isScreenShareActive()).toBe(false);
+  });
+
+  it('restores the call service when mediaProjection fails to start', async () => {
+    await manager.startService('Dr. Smith', 'audio', 'https://hopmed.daily.co/room');
+    mockService.start.mockRejectedValueOnce(new Error('SecurityException'));
+
+    await expect(manager.startScreenShareService()).resolves.toBe(false);
+    expect(lastServiceType()).toBe('microphone');
+    expect(manager.isScreenShareActive()).toBe(false);
+  });
+
+  it('keeps the microphone when an audio call shares its screen', async () => {
+    await manager.startService('Dr. Smith', 'audio', 'https://hopmed.daily.co/room');
+
+    await expect(manager.startScreenShareService()).resolves.toBe(true);
+    expect(lastServiceType()).toBe('microphone|mediaProjection');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for CallCaptionsService - caption lines from transcription events and
+ * transcript uploads
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../../constants';
+import type { CaptionsState, TranscriptionEventSource } from '../callCaptionsService';
+import callCaptionsService from '../callCaptionsService';
+
+const mockSaveAppointmentTranscript = jest.fn();
+
+jest.mock('../appointmentService', () => ({
+  __esModule: true,
+  default: {
+    saveAppointmentTranscript: (...args: unknown[]) => mockSaveAppointmentTranscript(...args),
+  },
+}));
+
+jest.mock('../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ trackWarning: jest.fn() }),
+  },
+}));
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+  return {
+    getRandomBytes: (length: number) => new Uint8Array(nodeCrypto.randomBytes(length)),
+  };
+});
+
+/**
+ * Local stand-in for a Daily call object: records handlers and lets the test
+ * emit transcription events
+ */
+const createEventSource = () => {
+  const handlers = new Map<string, Set<(ev?: any) => void>>();
+  const source: TranscriptionEventSource & { emit: (event: string, payload?: unknown) => void } = {
+    on: (event, handler) => {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)?.add(handler);
+    },
+    off: (event, handler) => {
+      handlers.get(event)?.delete(handler);
+    },
+    participants: () => ({
+      local: { session_id: 'local-1', user_name: 'Dr. Smith', local: true },
+      'remote-1': { session_id: 'remote-1', user_name: 'Jane Doe' },
+    }),
+    emit: (event, payload) => {
+      handlers.get(event)?.forEach(handler => handler(payload));
+    },
+  };
+  return source;
+};
+
+describe('CallCaptionsService', () => {
+  describe('CaptionSession', () => {
+    let source: ReturnType<typeof createEventSource>;
+    let state: CaptionsState;
+    let fallbackSpeakerId: string | null;
+
+    const startSession = () => {
+      const session = callCaptionsService.createSession(source, {
+        getFallbackSpeakerId: () => fallbackSpeakerId,
+        onChange: next => {
+          state = next;
+        },
+      });
+      session.attach();
+      return session;
+    };
+
+    beforeEach(() => {
+      source = createEventSource();
+      state = { isTranscribing: false, lines: [] };
+      fallbackSpeakerId = null;
+    });
+
+    it('attributes lines to the speaking participant', () => {
+      const session = startSession();
+
+      source.emit('transcription-started');
+      source.emit('transcription-message', {
+        participantId: 'remote-1',
+        text: 'My headache started on Monday',
+        timestamp: '2026-10-18T10:00:05.000Z',
+        rawResponse: { is_final: true },
+      });
+      source.emit('transcription-message', {
+        participantId: 'local-1',
+        text: 'Any nausea?',
+        timestamp: '2026-10-18T10:00:09.000Z',
+      });
+
+      expect(state.isTranscribing).toBe(true);
+      expect(state.lines.map(line => [line.speakerName, line.text])).toEqual([
+        ['Jane Doe', 'My headache started on Monday'],
+        ['You', 'Any nausea?'],
+      ]);
+      expect(session.getTranscript()).toHaveLength(2);
+    });
+
+    it('falls back to the active speaker when the event has no participant', () => {
+      startSession();
+      fallbackSpeakerId = 'remote-1';
+
+      source.emit('transcription-message', { text: 'It gets worse at night' });
+
+      expect(state.lines[0]).toEqual(
+        expect.objectContaining({ speakerId: 'remote-1', speakerName: 'Jane Doe' })
+      );
+    });
+
+    it('shows interim text live but keeps only final lines in the transcript', () => {
+      const session = startSession();
+
+      source.emit('transcription-message', {
+        participantId: 'remote-1',
+        text: 'It gets',
+        rawResponse: { is_final: false },
+      });
+      expect(state.lines).toEqual([expect.objectContaining({ text: 'It gets', isFinal: false })]);
+      expect(session.getTranscript()).toHaveLength(0);
+
+      source.emit('transcription-message', {
+        participantId: 'remote-1',
+        text: 'It gets worse at night',
+        rawResponse: { is_final: true },
+      });
+      expect(state.lines).toEqual([
+        expect.objectContaining({ text: 'It gets worse at night', isFinal: true }),
+      ]);
+      expect(session.getTranscript()).toHaveLength(1);
+    });
+
+    it('reads transcription delivered as app-messages and ignores other traffic', () => {
+      startSession();
+
+      source.emit('app-message', {
+        fromId: 'transcription',
+        data: { session_id: 'remote-1', user_name: 'Jane Doe', text: 'Thank you', is_final: true },
+      });
+      source.emit('app-message', { fromId: 'remote-1', data: { type: 'chat:message' } });
+
+      expect(state.lines.map(line => line.text)).toEqual(['Thank you']);
+    });
+
+    it('stops following events once detached', () => {
+      const session = startSession();
+      session.detach();
+
+      source.emit('transcription-message', { participantId: 'remote-1', text: 'Hello?' });
+
+      expect(session.getTranscript()).toHaveLength(0);
+    });
+  });
+
+  describe('consent envelopes', () => {
+    it('recognises caption requests and answers but not other traffic', () => {
+      const request = callCaptionsService.createRequest('user-1');
+
+      expect(request).toMatchObject({ type: 'captions:request', requestedBy: 'user-1' });
+      expect(callCaptionsService.isCaptionsEnvelope(request)).toBe(true);
+      expect(
+        callCaptionsService.isCaptionsEnvelope({
+          type: 'captions:consent',
+          requestId: request.requestId,
+          accepted: true,
+          userId: 'user-2',
+        })
+      ).toBe(true);
+      expect(callCaptionsService.isCaptionsEnvelope({ type: 'recording:request' })).toBe(false);
+    });
+  });
+
+  describe('formatTranscript', () => {
+    it('writes one timestamped line per caption', () => {
+      expect(
+        callCaptionsService.formatTranscript([
+          {
+            id: 'caption_1',
+            speakerId: 'remote-1',
+            speakerName: 'Jane Doe',
+            text: 'Thank you',
+            timestamp: '2026-10-18T10:00:05.000Z',
+            isFinal: true,
+          },
+        ])
+      ).toBe('[10:00:05] Jane Doe: Thank you');
+    });
+  });
+
+  describe('saveTranscript', () => {
+    const transcript = (appointmentId: number) =>
+      callCaptionsService.buildTranscript(
+        appointmentId,
+        [
+          {
+            id: 'caption_1',
+            speakerId: 'remote-1',
+            speakerName: 'Jane Doe',
+            text: 'Thank you',
+            timestamp: '2026-10-18T10:00:05.000Z',
+            isFinal: true,
+          },
+        ],
+        '2026-10-18T10:00:00.000Z'
+      );
+
+    beforeEach(async () => {
+      mockSaveAppointmentTranscript.mockReset();
+      await AsyncStorage.clear();
+    });
+
+    it('attaches the transcript to the appointment', async () => {
+      mockSaveAppointmentTranscript.mockResolvedValue({ success: true });
+
+      await expect(callCaptionsService.saveTranscript(transcript(42))).resolves.toBe(true);
+      expect(mockSaveAppointmentTranscript).toHaveBeenCalledWith(
+        42,
+        expect.objectContaining({
+          entries: [expect.objectContaining({ speaker_name: 'Jane Doe', text: 'Thank you' })],
+          text: '[10:00:05] Jane Doe: Thank you',
+          started_at: '2026-10-18T10:00:00.000Z',
+        })
+      );
+    });
+
+    it('keeps a transcript that failed to upload and sends it with the next one', async () => {
+      mockSaveAppointmentTranscript.mockRejectedValueOnce(new Error('Network request failed'));
+
+      await expect(callCaptionsService.saveTranscript(transcript(42))).resolves.toBe(false);
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX);
+      expect(stored).not.toBeNull();
+      expect(stored).not.toContain('Thank you');
+
+      mockSaveAppointmentTranscript.mockResolvedValue({ success: true });
+      await expect(callCaptionsService.saveTranscript(transcript(43))).resolves.toBe(true);
+
+      expect(mockSaveAppointmentTranscript.mock.calls.map(([id]) => id as number)).toEqual([
+        42, 42, 43,
+      ]);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX)).toBeNull();
+    });
+  });
+});
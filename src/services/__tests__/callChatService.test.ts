@@ -0,0 +1,118 @@
+/**
+ * Tests for CallChatService - in-call chat history, merging and read receipts
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import callChatService from '../callChatService';
+
+const doctor = { id: 'doc-1', role: 'doctor' as const };
+const patient = { id: 'pat-1', role: 'patient' as const };
+
+describe('CallChatService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('getChatId', () => {
+    it('prefers an explicit appointment id', () => {
+      expect(callChatService.getChatId({ appointmentId: 7, roomUrl: 'https://x/room' })).toBe(
+        'appointment_7'
+      );
+    });
+
+    it('derives the appointment from a per-appointment room url', () => {
+      expect(
+        callChatService.getChatId({
+          roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1_apt-42',
+        })
+      ).toBe('appointment_42');
+    });
+
+    it('keys calls outside an appointment by the call id, never the reusable room', () => {
+      expect(
+        callChatService.getChatId({
+          roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1',
+          callId: 'call-9',
+        })
+      ).toBe('call_call-9');
+      expect(
+        callChatService.getChatId({ roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1' })
+      ).toBeNull();
+      expect(callChatService.getChatId({})).toBeNull();
+    });
+  });
+
+  describe('messages and receipts', () => {
+    it('counts only messages from the other party that are unread', () => {
+      const own = callChatService.createMessage('appointment_1', doctor, 'Hello');
+      const incoming = callChatService.createMessage('appointment_1', patient, 'Hi doctor');
+
+      const unread = callChatService.getUnreadMessages([own, incoming], doctor.id);
+      expect(unread.map(message => message.messageId)).toEqual([incoming.messageId]);
+    });
+
+    it('applies read receipts without duplicating readers', () => {
+      const message = callChatService.createMessage('appointment_1', patient, 'Hi');
+      const receipt = { messageIds: [message.messageId], userId: doctor.id, readAt: 'now' };
+
+      const once = callChatService.applyReadReceipt([message], receipt);
+      const twice = callChatService.applyReadReceipt(once, receipt);
+
+      expect(callChatService.isReadBy(twice[0], doctor.id)).toBe(true);
+      expect(twice[0].readBy).toHaveLength(2);
+    });
+
+    it('merges duplicates by id and keeps messages in timestamp order', () => {
+      const first = {
+        ...callChatService.createMessage('c', doctor, 'one'),
+        timestamp: '2026-01-01T10:00:00.000Z',
+      };
+      const second = {
+        ...callChatService.createMessage('c', patient, 'two'),
+        timestamp: '2026-01-01T10:01:00.000Z',
+      };
+      const secondRead = callChatService.applyReadReceipt([second], {
+        messageIds: [second.messageId],
+        userId: doctor.id,
+        readAt: 'now',
+      })[0];
+
+      const merged = callChatService.mergeMessages([second], [first, secondRead]);
+
+      expect(merged.map(message => message.content)).toEqual(['one', 'two']);
+      expect(callChatService.isReadBy(merged[1], doctor.id)).toBe(true);
+    });
+  });
+
+  describe('history persistence', () => {
+    it('round-trips history per chat', async () => {
+      const message = callChatService.createMessage('appointment_9', doctor, 'Take care');
+
+      await callChatService.saveHistory('appointment_9', [message]);
+
+      await expect(callChatService.loadHistory('appointment_9')).resolves.toEqual([message]);
+      await expect(callChatService.loadHistory('appointment_10')).resolves.toEqual([]);
+    });
+
+    it('stores history encrypted and clears every chat on logout', async () => {
+      await callChatService.saveHistory('appointment_9', [
+        callChatService.createMessage('appointment_9', doctor, 'Take care'),
+      ]);
+      await callChatService.saveHistory('call_call-9', [
+        callChatService.createMessage('call_call-9', patient, 'Thank you'),
+      ]);
+      await AsyncStorage.setItem('hopmed_chat_outbox', '[]');
+
+      const keys = await AsyncStorage.getAllKeys();
+      const stored = await AsyncStorage.multiGet(keys);
+      expect(stored.map(([, value]) => value).join()).not.toContain('Take care');
+
+      await callChatService.clearAllHistory();
+
+      await expect(callChatService.loadHistory('appointment_9')).resolves.toEqual([]);
+      await expect(callChatService.loadHistory('call_call-9')).resolves.toEqual([]);
+      expect(await AsyncStorage.getItem('hopmed_chat_outbox')).toBe('[]');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for CallRecordingService - consent handshake and stored consents
+ */
+
+import callRecordingService from '../callRecordingService';
+
+const mockSubmitRecordingConsent = jest.fn();
+
+jest.mock('../appointmentService', () => ({
+  __esModule: true,
+  default: {
+    submitRecordingConsent: (...args: unknown[]) => mockSubmitRecordingConsent(...args),
+  },
+}));
+
+jest.mock('../../utils/sentryErrorTracker', () => ({
+  SentryErrorTracker: {
+    getInstance: () => ({ trackServiceError: jest.fn() }),
+  },
+}));
+
+describe('CallRecordingService', () => {
+  beforeEach(() => {
+    mockSubmitRecordingConsent.mockReset();
+  });
+
+  describe('getAppointmentId', () => {
+    it('prefers an explicit appointment id', () => {
+      expect(
+        callRecordingService.getAppointmentId({ appointmentId: 7, roomUrl: 'https://x/room' })
+      ).toBe(7);
+    });
+
+    it('derives the appointment from a per-appointment room url', () => {
+      expect(
+        callRecordingService.getAppointmentId({
+          roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1_apt-42',
+        })
+      ).toBe('42');
+    });
+
+    it('has no appointment for ad-hoc calls, so nothing can be recorded', () => {
+      expect(
+        callRecordingService.getAppointmentId({
+          roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1',
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('envelopes', () => {
+    it('recognises its own app-messages and ignores chat traffic', () => {
+      const request = callRecordingService.createRequest('doc-1');
+
+      expect(request).toEqual(
+        expect.objectContaining({ type: 'recording:request', requestedBy: 'doc-1' })
+      );
+      expect(callRecordingService.isRecordingEnvelope(request)).toBe(true);
+      expect(callRecordingService.isRecordingEnvelope({ type: 'chat:message' })).toBe(false);
+      expect(callRecordingService.isRecordingEnvelope(null)).toBe(false);
+    });
+  });
+
+  describe('saveConsent', () => {
+    it('stores the answer against the appointment', async () => {
+      mockSubmitRecordingConsent.mockResolvedValue({ success: true });
+
+      await expect(callRecordingService.saveConsent(42, 'patient', true)).resolves.toBe(true);
+      expect(mockSubmitRecordingConsent).toHaveBeenCalledWith(42, {
+        role: 'patient',
+        accepted: true,
+        purpose: 'recording',
+        consented_at: expect.any(String),
+      });
+    });
+
+    it('stores consent to live captions separately from consent to record', async () => {
+      mockSubmitRecordingConsent.mockResolvedValue({ success: true });
+
+      await callRecordingService.saveConsent(42, 'doctor', true, 'transcription');
+
+      expect(mockSubmitRecordingConsent).toHaveBeenCalledWith(
+        42,
+        expect.objectContaining({ role: 'doctor', purpose: 'transcription' })
+      );
+    });
+
+    it('reports a consent the API rejected as not stored', async () => {
+      mockSubmitRecordingConsent.mockResolvedValue({ success: false, error: 'Forbidden' });
+
+      await expect(callRecordingService.saveConsent(42, 'doctor', true)).resolves.toBe(false);
+    });
+
+    it('reports a consent that never reached the API as not stored', async () => {
+      mockSubmitRecordingConsent.mockRejectedValue(new Error('Network request failed'));
+
+      await expect(callRecordingService.saveConsent(42, 'doctor', true)).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for ChannelService - per-consultation room naming and provisioning
+ */
+
+import { VideoCallProvider } from '../../types/videoCallProvider';
+import videoRoomsApi from '../api/videoRoomsApi';
+import ChannelService from '../channelService';
+
+jest.mock('../api/videoRoomsApi', () => ({
+  __esModule: true,
+  default: {
+    createRoom: jest.fn(),
+    getMeetingToken: jest.fn(),
+  },
+}));
+
+jest.mock('../../config/env.config', () => ({
+  getConfig: () => ({ HOPMED_VIDEO_DAILY_DOMAIN: 'test.daily.co' }),
+}));
+
+const mockCreateRoom = videoRoomsApi.createRoom as jest.Mock;
+const mockGetMeetingToken = videoRoomsApi.getMeetingToken as jest.Mock;
+
+describe('ChannelService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('room naming', () => {
+    it('derives the same room for both participants of an appointment', () => {
+      const doctorSide = ChannelService.generateConsultationChannel(
+        'doc-1',
+        'pat-1',
+        'video',
+        VideoCallProvider.DAILY,
+        null,
+        42
+      );
+      const patientSide = ChannelService.generateConsultationChannel(
+        'doc-1',
+        'pat-1',
+        'audio',
+        VideoCallProvider.DAILY,
+        null,
+        42
+      );
+
+      expect(doctorSide.channelName).toBe('consultation_doc-1_pat-1_apt-42');
+      expect(patientSide.channelName).toBe(doctorSide.channelName);
+      expect(doctorSide.roomUrl).toBe('https://test.daily.co/consultation_doc-1_pat-1_apt-42');
+    });
+
+    it('gives separate appointments separate rooms', () => {
+      const first = ChannelService.buildConsultationRoomName('doc-1', 'pat-1', 1);
+      const second = ChannelService.buildConsultationRoomName('doc-1', 'pat-1', 2);
+      const otherPatient = ChannelService.buildConsultationRoomName('doc-1', 'pat-2', 1);
+
+      expect(new Set([first, second, otherPatient]).size).toBe(3);
+    });
+
+    it('strips characters Daily does not allow in room names', () => {
+      expect(ChannelService.buildConsultationRoomName('doc_1', 'pat@1')).toBe(
+        'consultation_doc-1_pat-1'
+      );
+    });
+
+    it('parses participants back out of per-appointment rooms', () => {
+      expect(ChannelService.parseChannelName('consultation_doc-1_pat-1_apt-42')).toEqual({
+        doctorId: 'doc-1',
+        customerId: 'pat-1',
+      });
+      expect(ChannelService.parseChannelName('consultation_doc-1_pat-1')).toEqual({
+        doctorId: 'doc-1',
+        customerId: 'pat-1',
+      });
+    });
+
+    it('generates unique, valid test channels', () => {
+      const channel = ChannelService.generateTestChannel('audio', VideoCallProvider.DAILY);
+
+      expect(ChannelService.isValidChannelName(channel.channelName)).toBe(true);
+      expect(channel.token).toBeNull();
+    });
+  });
+
+  describe('provisionConsultationRoom', () => {
+    it('creates the room through the backend and carries the meeting token', async () => {
+      mockCreateRoom.mockResolvedValue({
+        success: true,
+        data: {
+          roomName: 'consultation_doc-1_pat-1_apt-42',
+          roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1_apt-42',
+          token: 'meeting-token',
+        },
+      });
+
+      const channelInfo = await ChannelService.provisionConsultationRoom(
+        'doc-1',
+        'pat-1',
+        'video',
+        VideoCallProvider.DAILY,
+        42
+      );
+
+      expect(mockCreateRoom).toHaveBeenCalledWith({
+        roomName: 'consultation_doc-1_pat-1_apt-42',
+        doctorId: 'doc-1',
+        customerId: 'pat-1',
+        appointmentId: 42,
+        callType: 'video',
+      });
+      expect(channelInfo.token).toBe('meeting-token');
+      expect(channelInfo.appointmentId).toBe(42);
+      expect(channelInfo.participants).toEqual({ doctorId: 'doc-1', customerId: 'pat-1' });
+    });
+
+    it('throws when the backend cannot provision the room', async () => {
+      mockCreateRoom.mockResolvedValue({ success: false, message: 'Appointment not found' });
+
+      await expect(
+        ChannelService.provisionConsultationRoom('doc-1', 'pat-1', 'video', VideoCallProvider.DAILY)
+      ).rejects.toThrow('Appointment not found');
+    });
+  });
+
+  describe('getConsultationRoomAccess', () => {
+    it('fetches our own meeting token for a room the caller provisioned', async () => {
+      mockGetMeetingToken.mockResolvedValue({
+        success: true,
+        data: {
+          roomName: 'consultation_doc-1_pat-1_apt-42',
+          roomUrl: 'https://test.daily.co/consultation_doc-1_pat-1_apt-42',
+          token: 'callee-token',
+        },
+      });
+
+      const channelInfo = await ChannelService.getConsultationRoomAccess(
+        'https://test.daily.co/consultation_doc-1_pat-1_apt-42',
+        'audio',
+        VideoCallProvider.DAILY
+      );
+
+      expect(mockGetMeetingToken).toHaveBeenCalledWith('consultation_doc-1_pat-1_apt-42');
+      expect(channelInfo).toMatchObject({
+        token: 'callee-token',
+        appointmentId: '42',
+        participants: { doctorId: 'doc-1', customerId: 'pat-1' },
+      });
+    });
+
+    it('refuses calls without a consultation room', async () => {
+      await expect(
+        ChannelService.getConsultationRoomAccess('', 'video', VideoCallProvider.DAILY)
+      ).rejects.toThrow('This call has no consultation room');
+      await expect(
+        ChannelService.getConsultationRoomAccess(
+          'https://test.daily.co/ZVpxSgQtPXff8Cq9l44z',
+          'video',
+          VideoCallProvider.DAILY
+        )
+      ).rejects.toThrow('This call has no consultation room');
+      expect(mockGetMeetingToken).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -157,7 +157,11 @@ class ApiService {
               if (Platform.OS === 'web' && typeof window !== 'undefined' && window.dispatchEvent) {
                 window.dispatchEvent(
                   new CustomEvent('tokenExpired', {
-                    detail: { reason: errorAnalysis.reason, type: errorAnalysis.type },
+                    detail: {
+                      reason: errorAnalysis.reason,
+                      type: errorAnalysis.type,
+                      code: errorAnalysis.code,
+                    },
                   })
                 );
               } else {
@@ -165,6 +169,7 @@ class ApiService {
                 DeviceEventEmitter.emit('tokenExpired', {
                   reason: errorAnalysis.reason,
                   type: errorAnalysis.type,
+                  code: errorAnalysis.code,
                 });
               }
             } else {
@@ -501,6 +506,7 @@ class ApiService {
     shouldLogout: boolean;
     shouldRetry: boolean;
     retryAfter: number; // milliseconds
+    code?: string; // Backend error code, e.g. TOKEN_REVOKED after a remote sign-out
   } {
     const status = error.response?.status;
     const errorCode = error.code;
@@ -527,6 +533,7 @@ class ApiService {
           shouldLogout: true,
           shouldRetry: false,
           retryAfter: 0,
+          code: responseData.code,
         };
       }
       
@@ -731,8 +738,12 @@ class ApiService {
     return response.data;
   }
 
-  public async post<T>(url: string, data?: any): Promise<ApiResponse<T>> {
-    const response = await this.client.post(url, data);
+  public async post<T>(
+    url: string,
+    data?: any,
+    headers?: Record<string, string>
+  ): Promise<ApiResponse<T>> {
+    const response = await this.client.post(url, data, headers ? { headers } : undefined);
 
     // Handle direct backend responses that aren't wrapped in ApiResponse format
     if (
@@ -10,6 +10,8 @@
  */
 
 import { apiService } from '../api';
+import type { SessionDeviceInfo } from './sessionsApi';
+import { getSessionDeviceInfo } from './sessionsApi';
 import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
 import type { ApiResponse } from '../../types';
 
@@ -19,18 +21,22 @@ interface PushTokenRegistrationData {
   token: string;
   platform: 'ios' | 'android';
   type: 'expo' | 'voip' | 'fcm'; // 'expo' for Expo push tokens, 'voip'/'fcm' for native tokens
+  device: SessionDeviceInfo; // Labels this device on the Sessions screen
 }
 
 interface InitiateCallData {
   recipientId: string;
   callType: 'audio' | 'video';
+  roomName?: string; // Private room the caller provisioned; the push sends the recipient there
   metadata?: Record<string, any>;
 }
 
 interface InitiateCallResponse {
   success: boolean;
+  callId: string;
   roomUrl: string;
   message: string;
+  ringTimeoutMs?: number; // How long the recipient rings before the call counts as missed
 }
 
 interface CallActionResponse {
@@ -39,6 +45,21 @@ interface CallActionResponse {
   message: string;
 }
 
+interface CallHistoryRecord {
+  callId: string;
+  callerId: string;
+  callerName: string;
+  callerType: 'customer' | 'doctor';
+  recipientId: string;
+  recipientName: string;
+  recipientType: 'customer' | 'doctor';
+  callType: 'audio' | 'video';
+  status: 'ringing' | 'answered' | 'declined' | 'cancelled' | 'busy' | 'missed' | 'ended';
+  startedAt: string;
+  answeredAt?: string;
+  endedAt?: string;
+}
+
 // ================== API Client ==================
 
 class CallsApiClient {
@@ -58,6 +79,7 @@ class CallsApiClient {
         token,
         platform,
         type,
+        device: getSessionDeviceInfo(),
       };
 
       const response = await apiService.post<{ success: boolean; message: string }>(
@@ -96,7 +118,8 @@ class CallsApiClient {
   async initiateCall(
     recipientId: string,
     callType: 'audio' | 'video' = 'video',
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    roomName?: string
   ): Promise<ApiResponse<InitiateCallResponse>> {
     try {
       console.log(`📞 Initiating ${callType} call to user ${recipientId}...`);
@@ -104,6 +127,7 @@ class CallsApiClient {
       const data: InitiateCallData = {
         recipientId,
         callType,
+        roomName,
         metadata,
       };
 
@@ -243,6 +267,115 @@ class CallsApiClient {
       throw error;
     }
   }
+
+  /**
+   * Cancel an outgoing call that is still ringing
+   */
+  async cancelCall(callId: string): Promise<ApiResponse<CallActionResponse>> {
+    try {
+      console.log(`🚫 Cancelling call: ${callId}`);
+
+      const response = await apiService.post<CallActionResponse>(`/calls/${callId}/cancel`);
+
+      if (response.success) {
+        console.log('✅ Call cancelled successfully');
+      }
+
+      return response;
+    } catch (error: any) {
+      console.error('❌ Failed to cancel call:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'callsApi',
+        action: 'cancelCall',
+        additional: {
+          callId,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Reject an incoming call because this user is already in another call
+   */
+  async markCallBusy(callId: string): Promise<ApiResponse<CallActionResponse>> {
+    try {
+      console.log(`📵 Reporting busy for call: ${callId}`);
+
+      const response = await apiService.post<CallActionResponse>(`/calls/${callId}/busy`);
+
+      if (response.success) {
+        console.log('✅ Busy signal sent successfully');
+      }
+
+      return response;
+    } catch (error: any) {
+      console.error('❌ Failed to send busy signal:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'callsApi',
+        action: 'markCallBusy',
+        additional: {
+          callId,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * End an answered call
+   */
+  async endCall(callId: string): Promise<ApiResponse<CallActionResponse>> {
+    try {
+      console.log(`📴 Ending call: ${callId}`);
+
+      const response = await apiService.post<CallActionResponse>(`/calls/${callId}/end`);
+
+      if (response.success) {
+        console.log('✅ Call ended successfully');
+      }
+
+      return response;
+    } catch (error: any) {
+      console.error('❌ Failed to end call:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'callsApi',
+        action: 'endCall',
+        additional: {
+          callId,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Calls made or received by the current user, newest first
+   * Includes calls that rang while this device was offline or the app was killed
+   */
+  async getCallHistory(since?: string): Promise<ApiResponse<{ calls: CallHistoryRecord[] }>> {
+    try {
+      return await apiService.get<{ calls: CallHistoryRecord[] }>(
+        '/calls/history',
+        since ? { since } : undefined
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to fetch call history:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'callsApi',
+        action: 'getCallHistory',
+      });
+
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
@@ -255,4 +388,5 @@ export type {
   InitiateCallData,
   InitiateCallResponse,
   CallActionResponse,
+  CallHistoryRecord,
 };
@@ -0,0 +1,223 @@
+/**
+ * Chat API Client
+ *
+ * Handles asynchronous doctor–patient messaging through the HopMed backend:
+ * - Chat rooms (one per appointment, created on first use)
+ * - Message history with cursor pagination
+ * - Sending, editing and read receipts
+ * - Attachment uploads (images, documents and voice notes)
+ *
+ * Sends carry a client-generated id so the backend can de-duplicate
+ * messages that are retried from the offline queue.
+ */
+
+import type { ApiResponse, ChatAttachment, ChatMessage, ChatRoom } from '../../types';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+import { apiService } from '../api';
+
+// ================== Types ==================
+
+interface SendMessageData {
+  clientMessageId: string;
+  messageType: ChatMessage['messageType'];
+  content: string;
+  replyToId?: string;
+  attachmentIds?: string[];
+}
+
+interface MessagesPage {
+  messages: ChatMessage[];
+  /** Whether older messages exist before the first one returned */
+  hasMore: boolean;
+}
+
+interface UploadAttachmentData {
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  durationMs?: number;
+}
+
+// ================== API Client ==================
+
+class ChatApiClient {
+  /**
+   * List the current user's chat rooms, most recently active first
+   */
+  async getChatRooms(): Promise<ApiResponse<ChatRoom[]>> {
+    try {
+      return await apiService.get<ChatRoom[]>('/chats');
+    } catch (error: any) {
+      console.error('❌ Failed to fetch chat rooms:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'getChatRooms',
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Open the chat for an appointment, creating it on first use
+   * Both participants get the same room back.
+   */
+  async getOrCreateChatRoom(appointmentId: number): Promise<ApiResponse<ChatRoom>> {
+    try {
+      return await apiService.post<ChatRoom>('/chats', { appointmentId });
+    } catch (error: any) {
+      console.error('❌ Failed to open chat room:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'getOrCreateChatRoom',
+        additional: { appointmentId },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a page of messages, newest last
+   * Pass `before` (a message id) to load older history.
+   */
+  async getMessages(
+    chatId: string,
+    params: { before?: string; limit?: number } = {}
+  ): Promise<ApiResponse<MessagesPage>> {
+    try {
+      return await apiService.get<MessagesPage>(
+        `/chats/${encodeURIComponent(chatId)}/messages`,
+        params
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to fetch chat messages:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'getMessages',
+        additional: { chatId, before: params.before },
+      });
+
+      throw error;
+    }
+  }
+
+  async sendMessage(chatId: string, data: SendMessageData): Promise<ApiResponse<ChatMessage>> {
+    try {
+      return await apiService.post<ChatMessage>(
+        `/chats/${encodeURIComponent(chatId)}/messages`,
+        data
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to send chat message:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'sendMessage',
+        additional: {
+          chatId,
+          messageType: data.messageType,
+          attachments: data.attachmentIds?.length ?? 0,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  async editMessage(
+    chatId: string,
+    messageId: string,
+    content: string
+  ): Promise<ApiResponse<ChatMessage>> {
+    try {
+      return await apiService.put<ChatMessage>(
+        `/chats/${encodeURIComponent(chatId)}/messages/${encodeURIComponent(messageId)}`,
+        { content }
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to edit chat message:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'editMessage',
+        additional: { chatId, messageId },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Mark messages as read; without ids the whole chat is marked read
+   */
+  async markAsRead(
+    chatId: string,
+    messageIds?: string[]
+  ): Promise<ApiResponse<{ readAt: string }>> {
+    try {
+      return await apiService.post<{ readAt: string }>(
+        `/chats/${encodeURIComponent(chatId)}/read`,
+        { messageIds }
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to mark chat as read:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'markAsRead',
+        additional: { chatId },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a local file so it can be referenced by a message
+   */
+  async uploadAttachment(
+    chatId: string,
+    file: UploadAttachmentData
+  ): Promise<ApiResponse<ChatAttachment>> {
+    try {
+      console.log(`📎 Uploading ${file.mimeType} attachment to chat ${chatId}...`);
+
+      const formData = new FormData();
+      // React Native's FormData accepts file descriptors in place of Blobs
+      formData.append('file', {
+        uri: file.uri,
+        name: file.fileName,
+        type: file.mimeType,
+      } as any);
+      if (file.durationMs !== undefined) {
+        formData.append('durationMs', String(file.durationMs));
+      }
+
+      return await apiService.upload<ChatAttachment>(
+        `/chats/${encodeURIComponent(chatId)}/attachments`,
+        formData
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to upload chat attachment:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'chatApi',
+        action: 'uploadAttachment',
+        additional: { chatId, mimeType: file.mimeType },
+      });
+
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const chatApi = new ChatApiClient();
+export default chatApi;
+
+// Export types
+export type { MessagesPage, SendMessageData, UploadAttachmentData };
@@ -0,0 +1,110 @@
+/**
+ * Health Sharing API Client
+ *
+ * The patient's consent for doctors to see their health data. Grants are per
+ * doctor, per data type and optionally time-bounded; the backend enforces them
+ * on every health endpoint a doctor calls and writes each consent change and
+ * each read to the patient's access log.
+ */
+
+import type { ApiResponse, PaginatedResponse } from '../../types';
+import type {
+  HealthAccessAuditEntry,
+  HealthSharingGrant,
+  HealthSharingGrantRequest,
+} from '../../types/health';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+import { apiService } from '../api';
+
+// ================== API Client ==================
+
+class HealthSharingApiClient {
+  /**
+   * List the signed-in patient's grants, revoked and expired ones included
+   */
+  async getGrants(): Promise<ApiResponse<HealthSharingGrant[]>> {
+    try {
+      return await apiService.get<HealthSharingGrant[]>('/health/sharing/grants');
+    } catch (error: any) {
+      console.error('❌ Failed to fetch health sharing grants:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'healthSharingApi',
+        action: 'getGrants',
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Share data with a doctor, replacing any current grant for that doctor
+   */
+  async saveGrant(request: HealthSharingGrantRequest): Promise<ApiResponse<HealthSharingGrant>> {
+    try {
+      console.log(
+        `🩺 Sharing ${request.data_types.length} data types with ${request.doctor_id}...`
+      );
+      return await apiService.post<HealthSharingGrant>('/health/sharing/grants', request);
+    } catch (error: any) {
+      console.error('❌ Failed to save health sharing grant:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'healthSharingApi',
+        action: 'saveGrant',
+        additional: { doctorId: request.doctor_id },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Stop sharing with a doctor; their next request for the data is refused
+   */
+  async revokeGrant(grantId: string): Promise<ApiResponse<HealthSharingGrant>> {
+    try {
+      console.log(`🩺 Revoking health sharing grant ${grantId}...`);
+      return await apiService.post<HealthSharingGrant>(`/health/sharing/grants/${grantId}/revoke`);
+    } catch (error: any) {
+      console.error('❌ Failed to revoke health sharing grant:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'healthSharingApi',
+        action: 'revokeGrant',
+        additional: { grantId },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Page through the access log, newest first
+   */
+  async getAuditLog(
+    page = 1,
+    limit = 30
+  ): Promise<ApiResponse<PaginatedResponse<HealthAccessAuditEntry>>> {
+    try {
+      return await apiService.get<PaginatedResponse<HealthAccessAuditEntry>>(
+        '/health/sharing/audit',
+        { page, limit }
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to fetch health access log:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'healthSharingApi',
+        action: 'getAuditLog',
+        additional: { page },
+      });
+
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const healthSharingApi = new HealthSharingApiClient();
+export default healthSharingApi;
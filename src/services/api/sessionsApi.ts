@@ -0,0 +1,116 @@
+/**
+ * Sessions API Client
+ *
+ * Lists the devices the user is signed in on and signs them out remotely.
+ * Devices are labelled from the details sent with push-token registration
+ * (see `getSessionDeviceInfo`). A revoked device finds out on its next token
+ * refresh, which fails with `TOKEN_REVOKED`.
+ */
+
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+
+import type { ApiResponse, UserSession } from '../../types';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+import { apiService } from '../api';
+import deviceCapabilityService from '../deviceCapabilityService';
+
+// ================== Types ==================
+
+interface SessionDeviceInfo {
+  deviceName: string;
+  manufacturer: string;
+  model: string;
+  osVersion: string;
+  isTablet: boolean;
+}
+
+interface RevokeSessionsResponse {
+  revokedCount: number;
+}
+
+// ================== Device Info ==================
+
+/**
+ * Describe this device for the session list, from the capabilities detected at
+ * startup
+ */
+export const getSessionDeviceInfo = (): SessionDeviceInfo => {
+  const { manufacturer, model, isTablet } = deviceCapabilityService.getCapabilities();
+
+  return {
+    deviceName: Device.deviceName ?? `${manufacturer} ${model}`,
+    manufacturer,
+    model,
+    osVersion: `${Platform.OS} ${Platform.Version}`,
+    isTablet,
+  };
+};
+
+// ================== API Client ==================
+
+class SessionsApiClient {
+  /**
+   * List the user's active sessions, the current one included
+   */
+  async getSessions(): Promise<ApiResponse<UserSession[]>> {
+    try {
+      return await apiService.get<UserSession[]>('/auth/sessions');
+    } catch (error: any) {
+      console.error('❌ Failed to fetch sessions:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'sessionsApi',
+        action: 'getSessions',
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out one other device
+   */
+  async revokeSession(sessionId: string): Promise<ApiResponse<void>> {
+    try {
+      console.log(`🔐 Revoking session ${sessionId}...`);
+      return await apiService.delete<void>(`/auth/sessions/${sessionId}`);
+    } catch (error: any) {
+      console.error('❌ Failed to revoke session:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'sessionsApi',
+        action: 'revokeSession',
+        additional: { sessionId },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out every device except this one
+   */
+  async revokeOtherSessions(): Promise<ApiResponse<RevokeSessionsResponse>> {
+    try {
+      console.log('🔐 Revoking all other sessions...');
+      return await apiService.post<RevokeSessionsResponse>('/auth/sessions/revoke-others');
+    } catch (error: any) {
+      console.error('❌ Failed to revoke other sessions:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'sessionsApi',
+        action: 'revokeOtherSessions',
+      });
+
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const sessionsApi = new SessionsApiClient();
+export default sessionsApi;
+
+// Export types
+export type { SessionDeviceInfo, RevokeSessionsResponse };
@@ -0,0 +1,102 @@
+/**
+ * Video Rooms API Client
+ *
+ * Handles consultation room provisioning through the HopMed backend:
+ * - Private Daily.co room creation (idempotent per room name)
+ * - Meeting token issuance for the authenticated participant
+ *
+ * The Daily.co REST key lives on the backend only; the app never talks
+ * to api.daily.co directly.
+ */
+
+import type { ApiResponse } from '../../types';
+import { SentryErrorTracker } from '../../utils/sentryErrorTracker';
+import { apiService } from '../api';
+
+// ================== Types ==================
+
+interface CreateRoomData {
+  roomName: string;
+  doctorId?: string;
+  customerId?: string;
+  appointmentId?: number | string;
+  callType?: 'audio' | 'video';
+}
+
+interface VideoRoomResponse {
+  roomName: string;
+  roomUrl: string;
+  /** Meeting token scoped to the room and the requesting user */
+  token: string;
+  /** ISO timestamp after which the room and token stop working */
+  expiresAt?: string;
+}
+
+// ================== API Client ==================
+
+class VideoRoomsApiClient {
+  /**
+   * Create (or fetch, if it already exists) a private consultation room
+   * and issue a meeting token for the current user.
+   *
+   * Both participants call this with the same room name, so the backend
+   * returns the existing room for whoever arrives second.
+   */
+  async createRoom(data: CreateRoomData): Promise<ApiResponse<VideoRoomResponse>> {
+    try {
+      console.log(`🏗️ Provisioning consultation room ${data.roomName}...`);
+
+      const response = await apiService.post<VideoRoomResponse>('/video/rooms', data);
+
+      if (response.success) {
+        console.log('✅ Consultation room ready');
+      } else {
+        console.warn('⚠️ Room provisioning returned false success');
+      }
+
+      return response;
+    } catch (error: any) {
+      console.error('❌ Failed to provision consultation room:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'videoRoomsApi',
+        action: 'createRoom',
+        additional: {
+          roomName: data.roomName,
+          appointmentId: data.appointmentId,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a fresh meeting token for an existing room
+   * Used when a stored token has expired mid-session (e.g. on reconnect)
+   */
+  async getMeetingToken(roomName: string): Promise<ApiResponse<VideoRoomResponse>> {
+    try {
+      return await apiService.post<VideoRoomResponse>(
+        `/video/rooms/${encodeURIComponent(roomName)}/token`
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to fetch meeting token:', error);
+
+      SentryErrorTracker.getInstance().trackServiceError(error, {
+        service: 'videoRoomsApi',
+        action: 'getMeetingToken',
+        additional: { roomName },
+      });
+
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const videoRoomsApi = new VideoRoomsApiClient();
+export default videoRoomsApi;
+
+// Export types
+export type { CreateRoomData, VideoRoomResponse };
@@ -1,8 +1,11 @@
 import type {
   Appointment,
+  AppointmentRecording,
+  AppointmentTranscript,
   CreateAppointmentRequest,
   ApiResponse,
   PaginationParams,
+  RecordingConsent,
 } from '../types';
 
 import { apiService } from './api';
@@ -87,7 +90,7 @@ class AppointmentService {
 
   // Appointment Availability
   async checkAvailability(
-    doctorId: number,
+    doctorId: number | string,
     date: string,
     duration: number = 30
   ): Promise<
@@ -109,7 +112,7 @@ class AppointmentService {
   }
 
   async getAvailableSlots(
-    doctorId: number,
+    doctorId: number | string,
     startDate: string,
     endDate: string,
     duration: number = 30
@@ -242,6 +245,50 @@ class AppointmentService {
     >(`/appointments/${appointmentId}/documents`);
   }
 
+  // Consultation Recordings
+  async submitRecordingConsent(
+    appointmentId: number | string,
+    consent: Pick<RecordingConsent, 'role' | 'accepted' | 'purpose' | 'consented_at'>
+  ): Promise<ApiResponse<RecordingConsent>> {
+    return await apiService.post<RecordingConsent>(
+      `/appointments/${appointmentId}/recording-consent`,
+      consent
+    );
+  }
+
+  async getRecordingConsents(
+    appointmentId: number | string
+  ): Promise<ApiResponse<RecordingConsent[]>> {
+    return await apiService.get<RecordingConsent[]>(
+      `/appointments/${appointmentId}/recording-consent`
+    );
+  }
+
+  async getAppointmentRecordings(
+    appointmentId: number | string
+  ): Promise<ApiResponse<AppointmentRecording[]>> {
+    return await apiService.get<AppointmentRecording[]>(
+      `/appointments/${appointmentId}/recordings`
+    );
+  }
+
+  // Consultation Transcripts
+  async saveAppointmentTranscript(
+    appointmentId: number | string,
+    transcript: Omit<AppointmentTranscript, 'appointment_id'>
+  ): Promise<ApiResponse<{ transcript_id: number }>> {
+    return await apiService.post<{ transcript_id: number }>(
+      `/appointments/${appointmentId}/transcript`,
+      transcript
+    );
+  }
+
+  async getAppointmentTranscript(
+    appointmentId: number | string
+  ): Promise<ApiResponse<AppointmentTranscript>> {
+    return await apiService.get<AppointmentTranscript>(`/appointments/${appointmentId}/transcript`);
+  }
+
   // Payment and Billing
   async getAppointmentBilling(appointmentId: number): Promise<
     ApiResponse<{
@@ -2,7 +2,12 @@ import type { User, AuthTokens, LoginRequest, RegisterRequest, ApiResponse } fro
 import VideoCallDebugger from '../utils/VideoCallDebugger';
 
 import { apiService } from './api';
+import AppLockService from './AppLockService';
+import { callChatService } from './callChatService';
+import CallLifecycleManager from './CallLifecycleManager';
+import { chatOutboxService } from './chatOutboxService';
 import DailyCallManager from './DailyCallManager';
+import { entityCacheService } from './entityCacheService';
 
 class AuthService {
   // Authentication
@@ -88,13 +93,7 @@ class AuthService {
 
   async logout(): Promise<ApiResponse<void>> {
     try {
-      // Clean up any active Daily.co calls before logging out
-      await DailyCallManager.forceCleanup();
-      console.log('🧹 AuthService: Cleaned up Daily.co instances before logout');
-
-      // Clear video call debugger sessions
-      VideoCallDebugger.clearSessions();
-      console.log('🧹 AuthService: Cleared video call debugger sessions');
+      await this.clearLocalData();
 
       const response = await apiService.post<void>('/auth/logout');
       return response;
@@ -303,6 +302,35 @@ class AuthService {
     apiService.clearTokens();
   }
 
+  /**
+   * Remove what the signed-in user left on this device. Used on logout and
+   * when the session was revoked from another device.
+   */
+  async clearLocalData(): Promise<void> {
+    // Clean up any active Daily.co calls before logging out
+    await DailyCallManager.forceCleanup();
+    console.log('🧹 AuthService: Cleaned up Daily.co instances before logout');
+
+    // Clear video call debugger sessions
+    VideoCallDebugger.clearSessions();
+    console.log('🧹 AuthService: Cleared video call debugger sessions');
+
+    await entityCacheService.clear();
+    console.log('🧹 AuthService: Cleared cached doctor and customer lists');
+
+    await AppLockService.getInstance().clear();
+    console.log('🧹 AuthService: Cleared app lock settings');
+
+    await chatOutboxService.clear();
+    console.log('🧹 AuthService: Cleared unsent chat messages');
+
+    await callChatService.clearAllHistory();
+    console.log('🧹 AuthService: Cleared in-call chat history');
+
+    await CallLifecycleManager.getInstance().clear();
+    console.log('🧹 AuthService: Cleared call history');
+  }
+
   // Email verification
   async resendVerificationEmail(): Promise<ApiResponse<void>> {
     return await apiService.post<void>('/auth/resend-verification');
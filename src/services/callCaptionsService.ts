@@ -0,0 +1,308 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../constants';
+import type { AppointmentTranscript } from '../types';
+import type { DailyParticipant } from '../types/dailyCall';
+import { SentryErrorTracker } from '../utils/sentryErrorTracker';
+
+import appointmentService from './appointmentService';
+import { HealthDataCrypto } from './health/HealthDataCrypto';
+
+/**
+ * Live captions and post-call transcripts from Daily transcription
+ *
+ * Daily runs one transcription per room, started by the doctor once both
+ * parties have stored their consent, using the same handshake as recordings.
+ * Every participant receives the transcription events and decides locally
+ * whether to show captions. Final lines build the transcript the doctor's device
+ * saves against the appointment when the call ends; a transcript that can't
+ * be uploaded is kept, encrypted like other health data, and retried with the
+ * next one.
+ */
+
+// Final lines kept on screen under the live one
+const VISIBLE_CAPTION_LINES = 2;
+const TRANSCRIPTION_SENDER_ID = 'transcription';
+
+export interface CaptionLine {
+  id: string;
+  speakerId: string | null;
+  speakerName: string;
+  text: string;
+  timestamp: string;
+  isFinal: boolean;
+}
+
+export interface CaptionsState {
+  isTranscribing: boolean;
+  /** The last few final lines, then the line still being spoken */
+  lines: CaptionLine[];
+}
+
+export type CallCaptionsEnvelope =
+  | { type: 'captions:request'; requestId: string; requestedBy: string }
+  | { type: 'captions:consent'; requestId: string; accepted: boolean; userId: string };
+
+/**
+ * Anything that emits Daily's transcription events: the call object in the
+ * app, a local stand-in in tests
+ */
+export interface TranscriptionEventSource {
+  on(event: string, handler: (ev?: any) => void): unknown;
+  off(event: string, handler: (ev?: any) => void): unknown;
+  participants(): Record<string, DailyParticipant>;
+}
+
+interface CaptionSessionOptions {
+  /** Who to credit when a line carries no participant id, e.g. the active speaker */
+  getFallbackSpeakerId?: () => string | null;
+  onChange: (state: CaptionsState) => void;
+}
+
+/**
+ * Follows the transcription of one call: live caption lines for display and
+ * the full list of final lines for the transcript
+ */
+export class CaptionSession {
+  private transcript: CaptionLine[] = [];
+  private interim: CaptionLine | null = null;
+  private isTranscribing = false;
+  private startedAt: string | null = null;
+  private lineCounter = 0;
+
+  constructor(
+    private readonly source: TranscriptionEventSource,
+    private readonly options: CaptionSessionOptions
+  ) {}
+
+  attach(): void {
+    this.source.on('transcription-started', this.handleStarted);
+    this.source.on('transcription-stopped', this.handleStopped);
+    this.source.on('transcription-error', this.handleStopped);
+    this.source.on('transcription-message', this.handleTranscriptionMessage);
+    this.source.on('app-message', this.handleAppMessage);
+  }
+
+  detach(): void {
+    this.source.off('transcription-started', this.handleStarted);
+    this.source.off('transcription-stopped', this.handleStopped);
+    this.source.off('transcription-error', this.handleStopped);
+    this.source.off('transcription-message', this.handleTranscriptionMessage);
+    this.source.off('app-message', this.handleAppMessage);
+  }
+
+  getTranscript(): CaptionLine[] {
+    return this.transcript;
+  }
+
+  getStartedAt(): string | null {
+    return this.startedAt;
+  }
+
+  getState(): CaptionsState {
+    const lines = this.transcript.slice(-VISIBLE_CAPTION_LINES);
+    return {
+      isTranscribing: this.isTranscribing,
+      lines: this.interim ? [...lines, this.interim] : lines,
+    };
+  }
+
+  private handleStarted = () => {
+    this.isTranscribing = true;
+    this.startedAt = this.startedAt ?? new Date().toISOString();
+    this.emit();
+  };
+
+  private handleStopped = () => {
+    this.isTranscribing = false;
+    this.interim = null;
+    this.emit();
+  };
+
+  private handleTranscriptionMessage = (event?: any) => {
+    this.addLine({
+      speakerId: event?.participantId ?? null,
+      text: event?.text,
+      timestamp: event?.timestamp,
+      isFinal: event?.rawResponse?.is_final !== false,
+    });
+  };
+
+  // Older Daily versions deliver transcription as app-messages from a reserved sender
+  private handleAppMessage = (event?: any) => {
+    if (event?.fromId !== TRANSCRIPTION_SENDER_ID) return;
+    const data = event.data;
+    this.addLine({
+      speakerId: data?.session_id ?? null,
+      speakerName: data?.user_name,
+      text: data?.text,
+      timestamp: data?.timestamp,
+      isFinal: data?.is_final !== false,
+    });
+  };
+
+  private addLine(raw: {
+    speakerId: string | null;
+    speakerName?: string;
+    text?: string;
+    timestamp?: string | Date;
+    isFinal: boolean;
+  }) {
+    const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+    if (!text) return;
+
+    // Transcription can arrive before the started event, e.g. after joining late
+    this.isTranscribing = true;
+    this.startedAt = this.startedAt ?? new Date().toISOString();
+
+    const speakerId = raw.speakerId ?? this.options.getFallbackSpeakerId?.() ?? null;
+    const line: CaptionLine = {
+      id: `caption_${++this.lineCounter}`,
+      speakerId,
+      speakerName: this.resolveSpeakerName(speakerId, raw.speakerName),
+      text,
+      timestamp: raw.timestamp ? new Date(raw.timestamp).toISOString() : new Date().toISOString(),
+      isFinal: raw.isFinal,
+    };
+
+    if (line.isFinal) {
+      this.transcript.push(line);
+      this.interim = null;
+    } else {
+      this.interim = line;
+    }
+    this.emit();
+  }
+
+  private resolveSpeakerName(speakerId: string | null, providedName?: string): string {
+    if (!speakerId) return providedName || 'Unknown speaker';
+    try {
+      const participant = Object.values(this.source.participants()).find(
+        candidate => candidate.session_id === speakerId
+      );
+      if (participant?.local) return 'You';
+      return participant?.user_name || providedName || 'Participant';
+    } catch {
+      return providedName || 'Participant';
+    }
+  }
+
+  private emit() {
+    this.options.onChange(this.getState());
+  }
+}
+
+class CallCaptionsService {
+  createSession(source: TranscriptionEventSource, options: CaptionSessionOptions): CaptionSession {
+    return new CaptionSession(source, options);
+  }
+
+  createRequest(requestedBy: string): CallCaptionsEnvelope {
+    return {
+      type: 'captions:request',
+      requestId: `cap_${requestedBy}_${Date.now()}`,
+      requestedBy,
+    };
+  }
+
+  isCaptionsEnvelope(data: unknown): data is CallCaptionsEnvelope {
+    const type = (data as { type?: unknown } | null)?.type;
+    return type === 'captions:request' || type === 'captions:consent';
+  }
+
+  /**
+   * Plain-text transcript, one line per caption: "[14:02:10] Dr. Smith: ..."
+   */
+  formatTranscript(lines: CaptionLine[]): string {
+    return lines
+      .map(line => `[${line.timestamp.slice(11, 19)}] ${line.speakerName}: ${line.text}`)
+      .join('\n');
+  }
+
+  buildTranscript(
+    appointmentId: number | string,
+    lines: CaptionLine[],
+    startedAt: string | null
+  ): AppointmentTranscript {
+    return {
+      appointment_id: appointmentId,
+      entries: lines.map(line => ({
+        speaker_id: line.speakerId,
+        speaker_name: line.speakerName,
+        text: line.text,
+        timestamp: line.timestamp,
+      })),
+      text: this.formatTranscript(lines),
+      started_at: startedAt ?? (lines.length > 0 ? lines[0].timestamp : new Date().toISOString()),
+      ended_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Attach a transcript to its appointment. Transcripts that fail to upload are
+   * queued and go out with the next save.
+   */
+  async saveTranscript(transcript: AppointmentTranscript): Promise<boolean> {
+    const queued = await this.loadOutbox();
+    const pending = [...queued, transcript];
+    const failed: AppointmentTranscript[] = [];
+
+    for (const item of pending) {
+      const { appointment_id: appointmentId, ...body } = item;
+      try {
+        const response = await appointmentService.saveAppointmentTranscript(appointmentId, body);
+        if (!response.success) {
+          throw new Error(response.error || response.message || 'Transcript was not saved');
+        }
+        console.log(`📝 [Captions] Transcript saved for appointment ${appointmentId}`);
+      } catch (error) {
+        console.warn('⚠️ [Captions] Failed to save transcript, keeping it for later:', error);
+        SentryErrorTracker.getInstance().trackWarning('Call transcript upload failed', {
+          service: 'callCaptionsService',
+          action: 'saveTranscript',
+          additional: { appointmentId, entries: item.entries.length },
+        });
+        failed.push(item);
+      }
+    }
+
+    await this.saveOutbox(failed);
+    return !failed.includes(transcript);
+  }
+
+  private async loadOutbox(): Promise<AppointmentTranscript[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX);
+      return stored
+        ? await HealthDataCrypto.getInstance().decryptJSON<AppointmentTranscript[]>(
+            stored,
+            STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX
+          )
+        : [];
+    } catch (error) {
+      console.warn('⚠️ [Captions] Failed to load transcript outbox:', error);
+      return [];
+    }
+  }
+
+  private async saveOutbox(transcripts: AppointmentTranscript[]): Promise<void> {
+    try {
+      if (transcripts.length === 0) {
+        await AsyncStorage.removeItem(STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX);
+      } else {
+        await AsyncStorage.setItem(
+          STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX,
+          await HealthDataCrypto.getInstance().encryptJSON(
+            transcripts,
+            STORAGE_KEYS.CALL_TRANSCRIPT_OUTBOX
+          )
+        );
+      }
+    } catch (error) {
+      console.warn('⚠️ [Captions] Failed to persist transcript outbox:', error);
+    }
+  }
+}
+
+export const callCaptionsService = new CallCaptionsService();
+export default callCaptionsService;
@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../constants';
+import type { ChatMessage } from '../types';
+
+import ChannelService from './channelService';
+import { HealthDataCrypto } from './health/HealthDataCrypto';
+
+/**
+ * In-call chat over Daily app-messages
+ *
+ * Messages travel peer-to-peer through `sendAppMessage` while both parties are
+ * in the room, and each device keeps its own copy of the history per
+ * appointment (or per call, for calls outside an appointment) so the
+ * conversation is still readable after the call ends. The stored history is
+ * encrypted like other health data and cleared on logout.
+ */
+
+// Cap stored history so a long-running chat cannot grow storage unbounded
+const MAX_STORED_MESSAGES = 500;
+
+export type CallChatEnvelope =
+  | { type: 'chat:message'; message: ChatMessage }
+  | { type: 'chat:read'; chatId: string; messageIds: string[]; userId: string; readAt: string }
+  | { type: 'chat:sync'; chatId: string; messages: ChatMessage[] };
+
+export interface CallChatSender {
+  id: string;
+  role: ChatMessage['senderRole'];
+}
+
+class CallChatService {
+  // Saves are fired without awaiting, so writes are chained to land in order
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Resolve the history key for a call: the appointment when known, otherwise
+   * the backend call id both participants were given. Room names are reused
+   * across calls, so a call with neither has no stored history.
+   */
+  getChatId(options: {
+    appointmentId?: number | string;
+    roomUrl?: string;
+    callId?: string;
+  }): string | null {
+    const appointmentId =
+      options.appointmentId ??
+      (options.roomUrl ? ChannelService.parseAppointmentId(options.roomUrl) : null);
+    if (appointmentId !== null && appointmentId !== undefined && appointmentId !== '') {
+      return `appointment_${appointmentId}`;
+    }
+    return options.callId ? `call_${options.callId}` : null;
+  }
+
+  createMessage(chatId: string, sender: CallChatSender, content: string): ChatMessage {
+    const timestamp = new Date().toISOString();
+    return {
+      messageId: `${sender.id}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      chatId,
+      senderId: sender.id,
+      senderRole: sender.role,
+      messageType: 'text',
+      content,
+      timestamp,
+      // The sender has implicitly read their own message
+      readBy: [{ userId: sender.id, readAt: timestamp }],
+    };
+  }
+
+  isChatEnvelope(data: unknown): data is CallChatEnvelope {
+    const type = (data as { type?: unknown } | null)?.type;
+    return type === 'chat:message' || type === 'chat:read' || type === 'chat:sync';
+  }
+
+  /**
+   * Merge incoming messages into the history, de-duplicated by id and
+   * ordered by timestamp. Read receipts from both copies are combined.
+   */
+  mergeMessages(existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+    const byId = new Map(existing.map(message => [message.messageId, message]));
+    incoming.forEach(message => {
+      const current = byId.get(message.messageId);
+      byId.set(
+        message.messageId,
+        current ? { ...current, readBy: this.mergeReadBy(current.readBy, message.readBy) } : message
+      );
+    });
+    return Array.from(byId.values()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  applyReadReceipt(
+    messages: ChatMessage[],
+    receipt: { messageIds: string[]; userId: string; readAt: string }
+  ): ChatMessage[] {
+    const ids = new Set(receipt.messageIds);
+    return messages.map(message =>
+      ids.has(message.messageId)
+        ? {
+            ...message,
+            readBy: this.mergeReadBy(message.readBy, [
+              { userId: receipt.userId, readAt: receipt.readAt },
+            ]),
+          }
+        : message
+    );
+  }
+
+  isReadBy(message: ChatMessage, userId: string): boolean {
+    return message.readBy.some(receipt => String(receipt.userId) === userId);
+  }
+
+  getUnreadMessages(messages: ChatMessage[], userId: string): ChatMessage[] {
+    return messages.filter(
+      message => String(message.senderId) !== userId && !this.isReadBy(message, userId)
+    );
+  }
+
+  async loadHistory(chatId: string): Promise<ChatMessage[]> {
+    try {
+      const key = this.getStorageKey(chatId);
+      const stored = await AsyncStorage.getItem(key);
+      return stored
+        ? await HealthDataCrypto.getInstance().decryptJSON<ChatMessage[]>(stored, key)
+        : [];
+    } catch (error) {
+      console.warn('⚠️ Failed to load call chat history:', error);
+      return [];
+    }
+  }
+
+  saveHistory(chatId: string, messages: ChatMessage[]): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const key = this.getStorageKey(chatId);
+      await AsyncStorage.setItem(
+        key,
+        await HealthDataCrypto.getInstance().encryptJSON(messages.slice(-MAX_STORED_MESSAGES), key)
+      );
+    });
+  }
+
+  clearHistory(chatId: string): Promise<void> {
+    return this.enqueueWrite(() => AsyncStorage.removeItem(this.getStorageKey(chatId)));
+  }
+
+  // Every call's history belongs to the signed-in user, so nothing outlives the session
+  clearAllHistory(): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(
+        keys.filter(key => key.startsWith(`${STORAGE_KEYS.CALL_CHAT_HISTORY}_`))
+      );
+    });
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(write).catch(error => {
+      console.warn('⚠️ Failed to persist call chat history:', error);
+    });
+    return this.writes;
+  }
+
+  private getStorageKey(chatId: string) {
+    return `${STORAGE_KEYS.CALL_CHAT_HISTORY}_${chatId}`;
+  }
+
+  private mergeReadBy(a: ChatMessage['readBy'], b: ChatMessage['readBy']): ChatMessage['readBy'] {
+    const byUser = new Map(a.map(receipt => [String(receipt.userId), receipt]));
+    b.forEach(receipt => {
+      if (!byUser.has(String(receipt.userId))) {
+        byUser.set(String(receipt.userId), receipt);
+      }
+    });
+    return Array.from(byUser.values());
+  }
+}
+
+export const callChatService = new CallChatService();
+export default callChatService;
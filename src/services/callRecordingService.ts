@@ -0,0 +1,88 @@
+import type { RecordingConsent } from '../types';
+import { SentryErrorTracker } from '../utils/sentryErrorTracker';
+
+import appointmentService from './appointmentService';
+import ChannelService from './channelService';
+
+/**
+ * Consent handshake for consultation recordings
+ *
+ * Only the doctor can start a Daily cloud recording, and only after both
+ * parties have agreed. Each side stores its own answer against the
+ * appointment before saying yes over Daily app-messages, so a recording on
+ * the server always has two stored consents behind it.
+ */
+
+export type RecordingRole = RecordingConsent['role'];
+export type ConsentPurpose = RecordingConsent['purpose'];
+
+export type CallRecordingEnvelope =
+  | { type: 'recording:request'; requestId: string; requestedBy: string }
+  | { type: 'recording:consent'; requestId: string; accepted: boolean; userId: string };
+
+class CallRecordingService {
+  /**
+   * Recordings are stored against an appointment: the explicit one when known,
+   * otherwise the one encoded in a per-appointment room url
+   */
+  getAppointmentId(options: {
+    appointmentId?: number | string;
+    roomUrl?: string;
+  }): number | string | null {
+    if (options.appointmentId !== undefined && options.appointmentId !== '') {
+      return options.appointmentId;
+    }
+    return options.roomUrl ? ChannelService.parseAppointmentId(options.roomUrl) : null;
+  }
+
+  createRequest(requestedBy: string): CallRecordingEnvelope {
+    return {
+      type: 'recording:request',
+      requestId: `rec_${requestedBy}_${Date.now()}`,
+      requestedBy,
+    };
+  }
+
+  isRecordingEnvelope(data: unknown): data is CallRecordingEnvelope {
+    const type = (data as { type?: unknown } | null)?.type;
+    return type === 'recording:request' || type === 'recording:consent';
+  }
+
+  /**
+   * Store one party's answer against the appointment. Resolves false when it
+   * could not be stored; callers must then treat the answer as a refusal.
+   */
+  async saveConsent(
+    appointmentId: number | string,
+    role: RecordingRole,
+    accepted: boolean,
+    purpose: ConsentPurpose = 'recording'
+  ): Promise<boolean> {
+    try {
+      const response = await appointmentService.submitRecordingConsent(appointmentId, {
+        role,
+        accepted,
+        purpose,
+        consented_at: new Date().toISOString(),
+      });
+      if (!response.success) {
+        throw new Error(response.error || response.message || 'Consent was not stored');
+      }
+      console.log(
+        `🔴 [Recording] ${role} ${purpose} consent stored: ${accepted ? 'accepted' : 'declined'}`
+      );
+      return true;
+    } catch (error) {
+      console.error('❌ [Recording] Failed to store consent:', error);
+      SentryErrorTracker.getInstance().trackServiceError(error as Error, {
+        service: 'callRecordingService',
+        action: 'saveConsent',
+        additional: { appointmentId, role, accepted, purpose },
+      });
+      return false;
+    }
+  }
+}
+
+export const callRecordingService = new CallRecordingService();
+export default callRecordingService;
@@ -1,9 +1,16 @@
 import { getConfig } from '../config/env.config';
 import { VideoCallProvider } from '../types/videoCallProvider';
 
+import videoRoomsApi from './api/videoRoomsApi';
+
+// Daily room names only allow letters, digits, '-' and '_'
+const APPOINTMENT_SUFFIX = '_apt-';
+const sanitizeRoomSegment = (value: string) => value.replace(/[^A-Za-z0-9-]/g, '-');
+
 /**
  * Channel Service - Unified channel naming and management for all video call providers
- * Ensures patients and doctors join the same channel using Daily.co
+ * Ensures patients and doctors join the same channel using Daily.co, with one
+ * private room per consultation provisioned by the backend
  */
 
 export interface CallParticipants {
@@ -20,8 +27,10 @@ export interface ChannelInfo {
   callId: string;
   /** The video call provider for the session. */
   provider: VideoCallProvider;
-  /** The token required for authentication, if any. */
+  /** Daily meeting token issued by the backend for the current user, if any. */
   token?: string | null;
+  /** Appointment the room was provisioned for (per-appointment rooms only). */
+  appointmentId?: number | string;
   participants: CallParticipants;
   /** Requested callType (used to set initial media state, not to derive room). */
   callType: 'audio' | 'video';
@@ -40,40 +49,119 @@ export class ChannelService {
   }
 
   /**
-   * Generate consistent channel name for doctor-patient consultation
-   *
-   * ✅ DEMO/POC MODE: ALWAYS uses default room - NO EXCEPTIONS
+   * Build the deterministic Daily room name for a consultation.
+   * Both participants derive the same name from the same inputs, and each
+   * appointment gets its own room so separate consultations never share one.
+   */
+  buildConsultationRoomName(
+    doctorId: string,
+    customerId: string,
+    appointmentId?: number | string
+  ): string {
+    const base = `consultation_${sanitizeRoomSegment(doctorId)}_${sanitizeRoomSegment(customerId)}`;
+    return appointmentId !== undefined && appointmentId !== ''
+      ? `${base}${APPOINTMENT_SUFFIX}${sanitizeRoomSegment(String(appointmentId))}`
+      : base;
+  }
+
+  /**
+   * Generate consistent channel info for a doctor-patient consultation.
+   * Naming only - use provisionConsultationRoom() to get a joinable room and token.
    */
   generateConsultationChannel(
     doctorId: string,
     customerId: string,
     callType: 'audio' | 'video',
     provider: VideoCallProvider,
-    token?: string
+    token?: string | null,
+    appointmentId?: number | string
   ): ChannelInfo {
-    // ✅ ALWAYS USE YOUR SPECIFIC ROOM - NO EXCEPTIONS
-    const baseChannelName = 'ZVpxSgQtPXff8Cq9l44z';
-    const config = getConfig();
+    const channelName = this.buildConsultationRoomName(doctorId, customerId, appointmentId);
+    const callId = `${provider}_${channelName}_${Date.now()}`;
+
+    return {
+      channelName,
+      participants: { doctorId, customerId },
+      callType,
+      provider,
+      callId,
+      token: token ?? null,
+      roomUrl: this.buildRoomUrl(channelName, provider),
+      appointmentId,
+    };
+  }
 
-    console.log('🎭 ALWAYS USING YOUR SPECIFIC ROOM:', baseChannelName);
+  /**
+   * Create (or reuse) the private consultation room on the backend and attach
+   * the meeting token issued for the current user.
+   */
+  async provisionConsultationRoom(
+    doctorId: string,
+    customerId: string,
+    callType: 'audio' | 'video',
+    provider: VideoCallProvider,
+    appointmentId?: number | string
+  ): Promise<ChannelInfo> {
+    const channelInfo = this.generateConsultationChannel(
+      doctorId,
+      customerId,
+      callType,
+      provider,
+      null,
+      appointmentId
+    );
 
-    const callId = `${provider}_${baseChannelName}_${Date.now()}`;
+    const response = await videoRoomsApi.createRoom({
+      roomName: channelInfo.channelName,
+      doctorId,
+      customerId,
+      appointmentId,
+      callType,
+    });
 
-    const roomUrl =
-      provider === VideoCallProvider.DAILY
-        ? `https://${config.HOPMED_VIDEO_DAILY_DOMAIN || 'mbinina.daily.co'}/${baseChannelName}`
-        : baseChannelName;
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to provision consultation room');
+    }
 
-    console.log(`📞 YOUR ROOM: ${baseChannelName} | URL: ${roomUrl}`);
+    console.log(`📞 Consultation room ready: ${response.data.roomName}`);
 
     return {
-      channelName: baseChannelName,
-      participants: { doctorId, customerId },
+      ...channelInfo,
+      channelName: response.data.roomName || channelInfo.channelName,
+      roomUrl: response.data.roomUrl || channelInfo.roomUrl,
+      token: response.data.token,
+    };
+  }
+
+  /**
+   * Get the current user's meeting token for a room the other participant
+   * provisioned, e.g. when answering their call or rejoining after a restart.
+   */
+  async getConsultationRoomAccess(
+    roomUrl: string,
+    callType: 'audio' | 'video',
+    provider: VideoCallProvider
+  ): Promise<ChannelInfo> {
+    const channelName = roomUrl.split('?')[0].split('/').pop() ?? '';
+    const participants = this.parseChannelName(channelName);
+    if (!participants) {
+      throw new Error('This call has no consultation room');
+    }
+
+    const response = await videoRoomsApi.getMeetingToken(channelName);
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to get access to the consultation room');
+    }
+
+    return {
+      channelName,
+      participants,
       callType,
       provider,
-      callId,
-      token,
-      roomUrl,
+      callId: `${provider}_${channelName}_${Date.now()}`,
+      token: response.data.token,
+      roomUrl: response.data.roomUrl || roomUrl,
+      appointmentId: this.parseAppointmentId(channelName) ?? undefined,
     };
   }
 
@@ -81,6 +169,12 @@ export class ChannelService {
    * Parse channel name to extract participant information
    */
   parseChannelName(channelName: string): CallParticipants | null {
+    // Per-appointment rooms carry an appointment suffix after the participant ids
+    const perAppointment = channelName.match(/^consultation_(.+)_(.+)_apt-(.+)$/);
+    if (perAppointment) {
+      const [, id1, id2] = perAppointment;
+      return { doctorId: id1, customerId: id2 };
+    }
     // Support legacy pattern with callType suffix AND new unified pattern
     const legacy = channelName.match(/^consultation_(.+)_(.+)_(audio|video)$/);
     if (legacy) {
@@ -95,32 +189,32 @@ export class ChannelService {
     return null;
   }
 
+  /**
+   * Extract the appointment id from a per-appointment room name or URL
+   */
+  parseAppointmentId(channelNameOrUrl: string): string | null {
+    const channelName = channelNameOrUrl.split('/').pop() ?? '';
+    const match = channelName.match(/_apt-([A-Za-z0-9-]+)$/);
+    return match ? match[1] : null;
+  }
+
   /**
    * Generate emergency/test channel for fallback scenarios
-   * ✅ ALWAYS USE YOUR SPECIFIC ROOM - NO EXCEPTIONS
    */
   generateTestChannel(
     callType: 'audio' | 'video' = 'video',
     provider: VideoCallProvider
   ): ChannelInfo {
-    // ✅ ALWAYS USE YOUR SPECIFIC ROOM EVEN FOR TESTS
-    const channelName = 'ZVpxSgQtPXff8Cq9l44z';
-    const callId = `${provider}_${channelName}_${Date.now()}`;
-    const config = getConfig();
-
-    console.log('🧪 TEST CHANNEL ALSO USING YOUR SPECIFIC ROOM:', channelName);
+    const channelName = `test_${Date.now()}_${callType}`;
 
     return {
       channelName,
       participants: { doctorId: 'test', customerId: 'test' },
       callType,
       provider,
-      callId,
-      token: undefined,
-      roomUrl:
-        provider === VideoCallProvider.DAILY
-          ? `https://${config.HOPMED_VIDEO_DAILY_DOMAIN || 'mbinina.daily.co'}/${channelName}`
-          : channelName,
+      callId: `${provider}_${channelName}`,
+      token: null,
+      roomUrl: this.buildRoomUrl(channelName, provider),
     };
   }
 
@@ -145,6 +239,14 @@ export class ChannelService {
 
     return `${channelInfo.callType.charAt(0).toUpperCase() + channelInfo.callType.slice(1)} consultation on ${channelInfo.provider}`;
   }
+
+  private buildRoomUrl(channelName: string, provider: VideoCallProvider): string {
+    if (provider !== VideoCallProvider.DAILY) {
+      return channelName;
+    }
+    const config = getConfig();
+    return `https://${config.HOPMED_VIDEO_DAILY_DOMAIN || 'mbinina.daily.co'}/${channelName}`;
+  }
 }
 
 export default ChannelService.getInstance();
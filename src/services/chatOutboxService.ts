@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../constants';
+import type { ChatMessage, ChatOutboxItem, LocalChatAttachment } from '../types';
+
+import { HealthDataCrypto } from './health/HealthDataCrypto';
+
+/**
+ * Offline send queue for chat
+ *
+ * Every send and edit is written to the outbox first and removed once the
+ * backend acknowledges it, so messages composed without a connection (or
+ * interrupted mid-upload) survive restarts and go out in order later. Queued
+ * messages are encrypted at rest like other health data and cleared on logout.
+ */
+
+// Give up on an item after this many transient failures and let the user retry
+const MAX_ATTEMPTS = 8;
+
+export interface OutgoingChatMessage {
+  chatId: string;
+  messageType: ChatMessage['messageType'];
+  content: string;
+  replyToId?: string;
+  attachments?: LocalChatAttachment[];
+}
+
+class ChatOutboxService {
+  // Saves are fired without awaiting, so writes are chained to land in order
+  private writes: Promise<void> = Promise.resolve();
+
+  generateClientMessageId(senderId: string): string {
+    return `local_${senderId}_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  /**
+   * Build the queued send along with the optimistic message shown in the room
+   */
+  createSendItem(
+    outgoing: OutgoingChatMessage,
+    sender: Pick<ChatMessage, 'senderId' | 'senderRole'>
+  ): ChatOutboxItem {
+    const clientMessageId = this.generateClientMessageId(String(sender.senderId));
+    const timestamp = new Date().toISOString();
+    const localAttachments = outgoing.attachments ?? [];
+
+    return {
+      kind: 'send',
+      id: clientMessageId,
+      chatId: outgoing.chatId,
+      attempts: 0,
+      localAttachments,
+      message: {
+        messageId: clientMessageId,
+        clientMessageId,
+        chatId: outgoing.chatId,
+        senderId: sender.senderId,
+        senderRole: sender.senderRole,
+        messageType: outgoing.messageType,
+        content: outgoing.content,
+        timestamp,
+        readBy: [{ userId: sender.senderId, readAt: timestamp }],
+        replyToId: outgoing.replyToId,
+        // Local files stand in for the uploaded copies until the send completes
+        attachments: localAttachments.map((attachment, index) => ({
+          id: `${clientMessageId}_${index}`,
+          fileName: attachment.fileName,
+          fileSize: attachment.fileSize,
+          mimeType: attachment.mimeType,
+          url: attachment.uri,
+          durationMs: attachment.durationMs,
+        })),
+        localStatus: 'pending',
+      },
+    };
+  }
+
+  createEditItem(chatId: string, messageId: string, content: string): ChatOutboxItem {
+    return {
+      kind: 'edit',
+      id: `edit_${messageId}_${Date.now()}`,
+      chatId,
+      messageId,
+      content,
+      attempts: 0,
+    };
+  }
+
+  /**
+   * Transient failures (no response, timeouts, 5xx, rate limiting) stay queued;
+   * anything else is a rejection that retrying will not fix.
+   */
+  isRetryableError(error: any): boolean {
+    const status = error?.response?.status ?? error?.status;
+    if (!status) return true;
+    return status >= 500 || status === 408 || status === 429;
+  }
+
+  hasExhaustedAttempts(attempts: number): boolean {
+    return attempts >= MAX_ATTEMPTS;
+  }
+
+  async load(): Promise<ChatOutboxItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.CHAT_OUTBOX);
+      return stored
+        ? await HealthDataCrypto.getInstance().decryptJSON<ChatOutboxItem[]>(
+            stored,
+            STORAGE_KEYS.CHAT_OUTBOX
+          )
+        : [];
+    } catch (error) {
+      console.warn('⚠️ Failed to load chat outbox:', error);
+      return [];
+    }
+  }
+
+  save(items: ChatOutboxItem[]): Promise<void> {
+    return this.enqueueWrite(async () => {
+      if (items.length === 0) {
+        await AsyncStorage.removeItem(STORAGE_KEYS.CHAT_OUTBOX);
+      } else {
+        await AsyncStorage.setItem(
+          STORAGE_KEYS.CHAT_OUTBOX,
+          await HealthDataCrypto.getInstance().encryptJSON(items, STORAGE_KEYS.CHAT_OUTBOX)
+        );
+      }
+    });
+  }
+
+  // Unsent messages belong to the signed-in user, so nothing outlives the session
+  clear(): Promise<void> {
+    return this.enqueueWrite(() => AsyncStorage.removeItem(STORAGE_KEYS.CHAT_OUTBOX));
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(write).catch(error => {
+      console.warn('⚠️ Failed to persist chat outbox:', error);
+    });
+    return this.writes;
+  }
+}
+
+export const chatOutboxService = new ChatOutboxService();
+export default chatOutboxService;
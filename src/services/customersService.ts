@@ -1,4 +1,5 @@
-import type { User } from '../types';
+import type { PaginatedResponse, SearchParams, User } from '../types';
+import { toPaginatedResponse, toSearchQueryParams } from '../utils/pagination';
 
 import { apiService } from './api';
 
@@ -9,28 +10,31 @@ export interface Customer extends User {
 }
 
 class CustomersService {
-  async getCustomers(): Promise<Customer[]> {
+  // Fetch one page of customers; search and filters are applied server-side
+  async getCustomers(params: SearchParams = {}): Promise<PaginatedResponse<Customer>> {
+    const queryParams = toSearchQueryParams(params);
+    const page = Number(queryParams.page);
+    const limit = Number(queryParams.limit);
+
     try {
-      console.log('🚀 Fetching customers from backend API...');
-      const response = await apiService.get<Customer[]>('/customers');
-      console.log('🔍 Raw API Response:', JSON.stringify(response, null, 2));
-      console.log('🔍 Raw API Response type:', typeof response);
+      console.log(`🚀 Fetching customers page ${page} from backend API...`);
+      const response = await apiService.get<Customer[] | PaginatedResponse<Customer>>(
+        '/customers',
+        queryParams
+      );
       console.log('🔍 Raw API Response success:', response.success);
       console.log('📋 Response has data property:', !!response.data);
-      console.log(
-        '📋 Customers data type:',
-        Array.isArray(response.data) ? 'array' : typeof response.data
-      );
-      console.log('📊 Customers count:', response.data?.length || 0);
 
-      if (response.success && response.data && Array.isArray(response.data)) {
-        if (response.data.length > 0) {
-          console.log('✅ Using real API customers data');
-          return response.data.map(customer => this.mapApiCustomerToInterface(customer));
-        } else {
-          console.warn('⚠️ API returned empty array - no customers found');
-          return [];
-        }
+      if (response.success && response.data && typeof response.data === 'object') {
+        const result = toPaginatedResponse(response.data, page, limit);
+        console.log(
+          `📊 Customers page ${result.page}: ${result.items.length} of ${result.total}` +
+            (result.hasMore ? ' (more available)' : '')
+        );
+        return {
+          ...result,
+          items: result.items.map(customer => this.mapApiCustomerToInterface(customer)),
+        };
       }
 
       console.error('⚠️ API returned unexpected response structure:', response);
@@ -56,7 +60,7 @@ class CustomersService {
       // Only use mock data if explicitly enabled
       if (__DEV__ && process.env.EXPO_USE_MOCK_CUSTOMERS === 'true') {
         console.warn('⚠️ Development mode: Using mock customers (EXPO_USE_MOCK_CUSTOMERS=true)');
-        return this.getMockCustomers();
+        return toPaginatedResponse(page === 1 ? this.getMockCustomers() : [], page, limit);
       }
 
       console.error('❌ BACKEND REQUIRED - Not using mock data');
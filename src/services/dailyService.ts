@@ -4,14 +4,13 @@
  * KEY IMPROVEMENTS FOR SEAMLESS DOCTOR-PATIENT COMMUNICATION:
  *
  * 🏗️ AUTOMATIC ROOM CREATION:
- * - joinRoom() now auto-creates rooms when they don't exist (line ~344)
- * - Handles race conditions when both doctor and patient try to join simultaneously
- * - Gracefully handles "room already exists" errors by fetching existing room
+ * - joinRoom() now auto-creates rooms when they don't exist
+ * - Rooms are private and provisioned by the backend, which also issues meeting tokens
+ * - Backend room creation is idempotent, so simultaneous doctor/patient joins share one room
  *
  * 👥 BIDIRECTIONAL COMMUNICATION:
  * - Both doctor and patient can initiate/join the same consultation room
- * - Consistent room naming ensures both users join identical rooms
- * - Public room configuration allows seamless access for both parties
+ * - Deterministic per-appointment room naming ensures both users join identical rooms
  *
  * 📱 OPTIMIZED FOR CONSULTATIONS:
  * - 2-hour room expiry for extended consultations
@@ -19,6 +18,14 @@
  * - Network quality indicators and prejoin bypass for faster access
  * - Automatic transcoding for device compatibility
  *
+ * 🩺 PRE-CALL TEST:
+ * - joinConsultation() measures bandwidth, RTT, packet loss, camera and mic before joining
+ * - Weak links join with the camera off (audio-only recommended); results go to Sentry
+ *
+ * 📶 MID-CALL ADAPTATION:
+ * - getAdaptiveJoinConfig() only sets the starting point; AdaptiveQualityController
+ *   steps simulcast layers and audio-only up and down from live network stats
+ *
  * 🔄 ENHANCED ERROR HANDLING:
  * - Retry logic with automatic room creation on join failures
  * - Comprehensive error tracking and recovery strategies
@@ -38,6 +45,10 @@ import { VideoCallProvider } from '../types/videoCallProvider';
 import { isExpoGo } from '../utils/nativeModuleChecker';
 import { sentryTracker } from '../utils/sentryErrorTracker';
 
+import AdaptiveQualityController from './AdaptiveQualityController';
+import videoRoomsApi from './api/videoRoomsApi';
+import type { PreflightResult } from './CallPreflightService';
+import CallPreflightService from './CallPreflightService';
 import type { ChannelInfo } from './channelService';
 import ChannelService from './channelService';
 import deviceCapabilityService, { PerformanceTier } from './deviceCapabilityService';
@@ -67,7 +78,6 @@ if (Platform.OS !== 'web' && !isExpoGo()) {
 export class DailyService implements BaseVideoCallService {
   private static instance: DailyService;
   private call: DailyCallType | null = null;
-  private apiKey: string;
   private dailyDomain: string; // Base Daily domain, e.g. mbinina.daily.co
   private networkMonitor = NetworkMonitorService;
   private reconnectionManager = ReconnectionManager;
@@ -89,21 +99,12 @@ export class DailyService implements BaseVideoCallService {
   private constructor() {
     try {
       // Get Daily.co configuration from robust environment system
+      // Rooms and meeting tokens are provisioned by the backend, so only the domain is needed here
       const config = getConfig();
-      this.apiKey =
-        config.HOPMED_VIDEO_DAILY_API_KEY ||
-        'de05bcc9d2c0ad891300c19e9d42bb6b1f61ebac2e33fd22949eed768ea0ddb9';
       this.dailyDomain = config.HOPMED_VIDEO_DAILY_DOMAIN || 'mbinina.daily.co';
-
-      if (!this.apiKey) {
-        console.warn(
-          'Daily.co API key not configured. Room creation will not work, but direct room URLs can still be used.'
-        );
-      }
       console.log('Daily.co service initialized with environment config');
     } catch (error) {
       console.warn('Failed to load Daily.co config, using fallbacks:', error);
-      this.apiKey = 'de05bcc9d2c0ad891300c19e9d42bb6b1f61ebac2e33fd22949eed768ea0ddb9';
       this.dailyDomain = 'mbinina.daily.co';
     }
   }
@@ -305,7 +306,7 @@ export class DailyService implements BaseVideoCallService {
     }
   }
 
-  async joinRoom(roomUrl: string): Promise<void> {
+  async joinRoom(roomUrl: string, options?: { token?: string | null }): Promise<void> {
     if (Platform.OS === 'web') {
       console.warn('Video calls not supported on web platform');
       return;
@@ -388,6 +389,9 @@ export class DailyService implements BaseVideoCallService {
       throw new Error('Room URL cannot be empty');
     }
 
+    // Don't compete with a preflight test that is still using the call object
+    await CallPreflightService.getInstance().waitForIdle();
+
     // Check network quality before joining
     const networkState = this.networkMonitor.getCurrentState();
     if (!networkState.isConnected) {
@@ -402,11 +406,14 @@ export class DailyService implements BaseVideoCallService {
 
       console.log('🚀 Joining Daily.co room with config:', {
         url: roomUrl,
+        hasToken: !!options?.token,
         ...joinConfig, // Spread the adaptive config
       });
 
       await this.call.join({
         url: roomUrl,
+        // Consultation rooms are private; the meeting token grants access
+        ...(options?.token ? { token: options.token } : {}),
         ...joinConfig,
       });
 
@@ -419,7 +426,6 @@ export class DailyService implements BaseVideoCallService {
       // ✅ ENHANCED: Auto-create room if join failed due to room not existing
       // This handles cases where the room hasn't been created yet by either doctor or patient
       if (
-        this.apiKey &&
         error instanceof Error &&
         (error.message.includes('not found') ||
           error.message.includes('404') ||
@@ -438,7 +444,7 @@ export class DailyService implements BaseVideoCallService {
         }
 
         try {
-          // Create the room with consultation-optimized settings
+          // The backend returns the existing room if the other participant created it first
           console.log(`Creating Daily.co room: ${roomName}`);
           const roomInfo = await this.createRoom(roomName);
           console.log(`✅ Successfully created room: ${roomInfo.roomUrl}`);
@@ -450,6 +456,7 @@ export class DailyService implements BaseVideoCallService {
           console.log('🔄 Attempting to join newly created room...');
           await this.call.join({
             url: roomInfo.roomUrl,
+            ...(roomInfo.token ? { token: roomInfo.token } : {}),
             ...freshJoinConfig,
           });
 
@@ -460,32 +467,6 @@ export class DailyService implements BaseVideoCallService {
         } catch (createError) {
           console.error('❌ Failed to auto-create room:', createError);
 
-          // ✅ ENHANCED: Last resort - try to fetch room details if it was created by another participant
-          try {
-            console.log('🔍 Last resort: checking if room was created by another participant...');
-            const existingRoomResponse = await fetch(`https://api.daily.co/v1/rooms/${roomName}`, {
-              headers: { Authorization: `Bearer ${this.apiKey}` },
-            });
-
-            if (existingRoomResponse.ok) {
-              const existingRoomData = await existingRoomResponse.json();
-              console.log('✅ Found room created by another participant, attempting final join...');
-
-              const finalJoinConfig = this.getAdaptiveJoinConfig();
-              await this.call.join({
-                url: existingRoomData.url,
-                ...finalJoinConfig,
-              });
-
-              this.currentRoomUrl = existingRoomData.url;
-              this.lastConnectionError = null;
-              console.log('✅ Successfully joined room created by another participant');
-              return; // Exit successfully
-            }
-          } catch (lastResortError) {
-            console.error('Last resort room check failed:', lastResortError);
-          }
-
           // Fall through to original error handling
         }
       }
@@ -548,6 +529,7 @@ export class DailyService implements BaseVideoCallService {
     } catch (error) {
       console.error('Failed to leave Daily.co room:', error);
     } finally {
+      AdaptiveQualityController.getInstance().endCallSession();
       // Always reset state regardless of success/failure
       this.currentRoomUrl = null;
       this.connectionQuality = 'unknown';
@@ -739,7 +721,8 @@ export class DailyService implements BaseVideoCallService {
   async startConsultation(
     doctorId: string,
     customerId: string,
-    callType: 'audio' | 'video' = 'video'
+    callType: 'audio' | 'video' = 'video',
+    appointmentId?: number | string
   ): Promise<ChannelInfo> {
     console.log(
       `🏥 [Daily] Starting consultation: doctor=${doctorId}, customer=${customerId}, type=${callType}`
@@ -800,47 +783,34 @@ export class DailyService implements BaseVideoCallService {
       );
     }
 
-    // Generate consistent channel info for both participants
-    const channelInfo = ChannelService.generateConsultationChannel(
+    // Deterministic room name for both participants; the actual room is provisioned below
+    let channelInfo = ChannelService.generateConsultationChannel(
       doctorId,
       customerId,
       callType,
-      VideoCallProvider.DAILY
+      VideoCallProvider.DAILY,
+      null,
+      appointmentId
     );
 
     try {
-      // ✅ ENHANCED: First check if room already exists to avoid unnecessary creation attempts
-      const roomName = channelInfo.channelName;
-      let roomExists = false;
-
-      if (this.apiKey) {
-        try {
-          console.log(`🔍 Checking if consultation room exists: ${roomName}`);
-          const existingRoomResponse = await fetch(`https://api.daily.co/v1/rooms/${roomName}`, {
-            headers: { Authorization: `Bearer ${this.apiKey}` },
-          });
-
-          if (existingRoomResponse.ok) {
-            const existingRoomData = await existingRoomResponse.json();
-            console.log(`✅ Consultation room already exists: ${existingRoomData.name}`);
-            // Update channel info with existing room URL
-            channelInfo.roomUrl = existingRoomData.url;
-            roomExists = true;
-          }
-        } catch (checkError) {
-          console.log(
-            'Room existence check failed, will attempt creation during join:',
-            checkError
-          );
-        }
-      }
+      // ✅ Private per-consultation room + meeting token from the backend
+      channelInfo = await ChannelService.provisionConsultationRoom(
+        doctorId,
+        customerId,
+        callType,
+        VideoCallProvider.DAILY,
+        appointmentId
+      );
 
       // ✅ ENHANCED: joinRoom now automatically creates room if it doesn't exist
       // This ensures seamless room creation for the first participant (doctor or patient)
       console.log(
         `🚀 Joining consultation room: ${channelInfo.roomUrl || channelInfo.channelName}`
       );
-      await this.joinRoom(channelInfo.roomUrl || channelInfo.channelName);
+      await this.joinRoom(channelInfo.roomUrl || channelInfo.channelName, {
+        token: channelInfo.token,
+      });
 
       // Configure media settings based on call type
       if (callType === 'audio') {
@@ -860,6 +830,8 @@ export class DailyService implements BaseVideoCallService {
         channelInfo.roomUrl = this.currentRoomUrl;
       }
 
+      AdaptiveQualityController.getInstance().startCallSession(this.call, callType);
+
       console.log(
         `✅ [Daily] Successfully started ${callType} consultation: ${channelInfo.roomUrl}`
       );
@@ -880,6 +852,7 @@ export class DailyService implements BaseVideoCallService {
             doctorId,
             customerId,
             callType,
+            appointmentId,
             roomName: channelInfo.channelName,
             roomUrl: channelInfo.roomUrl,
           },
@@ -892,7 +865,8 @@ export class DailyService implements BaseVideoCallService {
   async joinConsultation(
     doctorId: string,
     customerId: string,
-    callType: 'audio' | 'video' = 'video'
+    callType: 'audio' | 'video' = 'video',
+    appointmentId?: number | string
   ): Promise<ChannelInfo> {
     console.log(
       `👥 [Daily] Joining consultation: doctor=${doctorId}, customer=${customerId}, type=${callType}`
@@ -954,35 +928,30 @@ export class DailyService implements BaseVideoCallService {
     }
 
     // Generate the same consistent channel info as startConsultation
-    const channelInfo = ChannelService.generateConsultationChannel(
+    let channelInfo = ChannelService.generateConsultationChannel(
       doctorId,
       customerId,
       callType,
-      VideoCallProvider.DAILY
+      VideoCallProvider.DAILY,
+      null,
+      appointmentId
     );
 
     try {
-      // ✅ ENHANCED: Similar to startConsultation, check if room exists first
-      const roomName = channelInfo.channelName;
-
-      if (this.apiKey) {
-        try {
-          console.log(`🔍 Verifying consultation room exists: ${roomName}`);
-          const existingRoomResponse = await fetch(`https://api.daily.co/v1/rooms/${roomName}`, {
-            headers: { Authorization: `Bearer ${this.apiKey}` },
-          });
+      // ✅ Same backend call as startConsultation - returns the existing room plus our own token
+      channelInfo = await ChannelService.provisionConsultationRoom(
+        doctorId,
+        customerId,
+        callType,
+        VideoCallProvider.DAILY,
+        appointmentId
+      );
 
-          if (existingRoomResponse.ok) {
-            const existingRoomData = await existingRoomResponse.json();
-            console.log(`✅ Found existing consultation room: ${existingRoomData.name}`);
-            // Update channel info with existing room URL
-            channelInfo.roomUrl = existingRoomData.url;
-          } else {
-            console.log(`⚠️ Consultation room not found, will be created during join: ${roomName}`);
-          }
-        } catch (checkError) {
-          console.log('Room verification failed, proceeding with join attempt:', checkError);
-        }
+      const preflight = await this.runPreflightTest(callType);
+      // The camera only starts off if the user took the recommendation in the pre-call check
+      const startAudioOnly = callType === 'video' && preflight?.audioOnlyChosen === true;
+      if (preflight?.recommendAudioOnly && !startAudioOnly) {
+        console.log('📶 Audio-only recommended but not chosen - joining with video');
       }
 
       // ✅ ENHANCED: joinRoom now handles both joining existing rooms AND creating new ones
@@ -990,11 +959,17 @@ export class DailyService implements BaseVideoCallService {
       console.log(
         `🚀 Joining consultation room: ${channelInfo.roomUrl || channelInfo.channelName}`
       );
-      await this.joinRoom(channelInfo.roomUrl || channelInfo.channelName);
+      await this.joinRoom(channelInfo.roomUrl || channelInfo.channelName, {
+        token: channelInfo.token,
+      });
 
       // Configure media settings to match call type
-      if (callType === 'audio') {
-        console.log('🎤 Configuring for audio-only consultation');
+      if (callType === 'audio' || startAudioOnly) {
+        console.log(
+          callType === 'audio'
+            ? '🎤 Configuring for audio-only consultation'
+            : '📶 Joining with camera off, as chosen in the pre-call check'
+        );
         await this.setLocalVideo(false).catch(error => {
           console.warn('Failed to disable video for audio call:', error);
         });
@@ -1010,6 +985,10 @@ export class DailyService implements BaseVideoCallService {
         channelInfo.roomUrl = this.currentRoomUrl;
       }
 
+      AdaptiveQualityController.getInstance().startCallSession(this.call, callType, {
+        startAudioOnly,
+      });
+
       console.log(
         `✅ [Daily] Successfully joined ${callType} consultation: ${channelInfo.roomUrl}`
       );
@@ -1030,8 +1009,10 @@ export class DailyService implements BaseVideoCallService {
             doctorId,
             customerId,
             callType,
+            appointmentId,
             roomName: channelInfo.channelName,
             roomUrl: channelInfo.roomUrl,
+            preflightStatus: CallPreflightService.getInstance().getLastResult()?.status,
           },
         }
       );
@@ -1042,166 +1023,60 @@ export class DailyService implements BaseVideoCallService {
   async endConsultation(): Promise<void> {
     console.log('🏁 [Daily] Ending consultation');
     await this.leaveRoom();
+    CallPreflightService.getInstance().clear();
   }
 
-  // === Room Management ===
-
   /**
-   * ✅ DEMO/POC: Create or ensure the default demo room exists
+   * Pre-call network and device test. Reuses a result from the last minute
+   * (e.g. one run from a pre-join screen); never throws, so a failed test
+   * doesn't stop the consultation.
    */
-  async ensureDemoRoom(): Promise<ChannelInfo> {
-    const demoRoomName = 'ZVpxSgQtPXff8Cq9l44z';
-    const demoRoomUrl = `https://${this.dailyDomain}/${demoRoomName}`;
-
-    console.log('🎭 DEMO MODE: Ensuring demo room exists:', demoRoomUrl);
+  async runPreflightTest(callType: 'audio' | 'video'): Promise<PreflightResult | null> {
+    const preflight = CallPreflightService.getInstance();
+    const recent = preflight.getRecentResult(callType);
+    if (recent) return recent;
 
     try {
-      // Try to create or get existing room
-      const channelInfo = await this.createRoom(demoRoomName);
-      console.log('✅ Demo room ready:', channelInfo.roomUrl);
-      return channelInfo;
+      if (!this.call) {
+        await this.initializeEngine();
+      }
+      if (this.isCallActive()) return null;
+      return await preflight.run(this.call, callType);
     } catch (error) {
-      console.warn('Demo room creation failed, using direct URL:', error);
-
-      // Return fallback channel info with direct URL
-      return {
-        provider: VideoCallProvider.DAILY,
-        channelName: demoRoomName,
-        roomUrl: demoRoomUrl,
-        token: null,
-        callId: `daily_demo_${Date.now()}`,
-        participants: { doctorId: 'demo-doctor', customerId: 'demo-patient' },
-        callType: 'video' as 'audio' | 'video',
-      };
+      console.warn('⚠️ [Daily] Preflight test failed, joining without it:', error);
+      return null;
     }
   }
 
-  async createRoom(roomName?: string): Promise<ChannelInfo> {
-    if (!this.apiKey) {
-      throw new Error('Daily.co API key not configured. Cannot create rooms.');
-    }
+  // === Room Management ===
 
-    // ✅ ENHANCED: Make rooms public for consultations to allow both doctor and patient to join seamlessly
-    const isPrivate = false; // Changed to public for better consultation access
-    const exp = Math.floor(Date.now() / 1000) + 2 * 60 * 60; // Extended to 2 hours for longer consultations
+  /**
+   * Create (or fetch) a private room through the backend.
+   * The returned ChannelInfo carries the meeting token needed by joinRoom().
+   */
+  async createRoom(roomName?: string): Promise<ChannelInfo> {
+    const name = roomName || `room_${Date.now()}`;
+    const participants = ChannelService.parseChannelName(name) ?? {
+      doctorId: '',
+      customerId: '',
+    }; // Will be populated by caller when the name is not a consultation room
 
     try {
-      // ✅ ENHANCED: Check if room exists first to handle race conditions
-      if (roomName) {
-        try {
-          const existingRoomResponse = await fetch(`https://api.daily.co/v1/rooms/${roomName}`, {
-            headers: { Authorization: `Bearer ${this.apiKey}` },
-          });
-
-          if (existingRoomResponse.ok) {
-            const existingRoomData = await existingRoomResponse.json();
-            console.log(
-              '♻️ Room already exists, returning existing room details:',
-              existingRoomData.name
-            );
-
-            return {
-              provider: VideoCallProvider.DAILY,
-              channelName: existingRoomData.name,
-              roomUrl: existingRoomData.url,
-              token: null,
-              callId: `daily_${existingRoomData.name}_${Date.now()}`,
-              participants: { doctorId: '', customerId: '' }, // Will be populated by caller
-              callType: 'video' as 'audio' | 'video',
-            };
-          }
-        } catch (fetchError) {
-          // Room doesn't exist, continue with creation
-          console.log('Room does not exist yet, proceeding with creation...');
-        }
-      }
-
-      const response = await fetch('https://api.daily.co/v1/rooms', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          name: roomName,
-          privacy: isPrivate ? 'private' : 'public',
-          properties: {
-            exp,
-            enable_knocking: false, // Disable knocking for seamless joining
-            enable_screenshare: true,
-            enable_chat: true,
-            start_video_off: false,
-            start_audio_off: false,
-            max_participants: 2, // Limit to doctor and patient for consultations
-            // ✅ CONSULTATION-OPTIMIZED: Core settings for seamless doctor-patient communication
-            enable_network_ui: true, // Show network quality indicators
-            enable_prejoin_ui: false, // Skip prejoin for faster access
-            // ✅ ENHANCED: Mobile video optimization settings
-            enable_video_processing: true, // Enable video processing for better compatibility
-            enable_audio_processing: true, // Enable audio processing for better quality
-            enable_bandwidth_estimation: true, // Enable bandwidth estimation for adaptive quality
-            enable_automatic_video_subscription: true, // Automatically subscribe to video tracks
-            enable_automatic_audio_subscription: true, // Automatically subscribe to audio tracks
-          },
-        }),
-      });
+      const response = await videoRoomsApi.createRoom({ roomName: name, ...participants });
 
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => ({}));
-
-        // ✅ ENHANCED: Handle room already exists gracefully (race condition fix)
-        if (
-          response.status === 400 &&
-          (errorBody.error?.includes('already exists') ||
-            errorBody.info?.includes('already exists'))
-        ) {
-          console.log('♻️ Room already exists during creation, fetching existing room details...');
-          try {
-            // Fetch existing room details instead of failing
-            const existingRoomResponse = await fetch(`https://api.daily.co/v1/rooms/${roomName}`, {
-              headers: { Authorization: `Bearer ${this.apiKey}` },
-            });
-
-            if (existingRoomResponse.ok) {
-              const existingRoomData = await existingRoomResponse.json();
-              console.log(
-                '✅ Retrieved existing Daily.co room after creation conflict:',
-                existingRoomData.name
-              );
-
-              return {
-                provider: VideoCallProvider.DAILY,
-                channelName: existingRoomData.name,
-                roomUrl: existingRoomData.url,
-                token: null,
-                callId: `daily_${existingRoomData.name}_${Date.now()}`,
-                participants: { doctorId: '', customerId: '' }, // Will be populated by caller
-                callType: 'video' as 'audio' | 'video',
-              };
-            }
-          } catch (fetchError) {
-            console.warn(
-              'Failed to fetch existing room details after creation conflict:',
-              fetchError
-            );
-          }
-        }
-
-        throw new Error(
-          `Failed to create Daily.co room: ${errorBody.error || errorBody.info || response.statusText}`
-        );
+      if (!response.success || !response.data) {
+        throw new Error(`Failed to create Daily.co room: ${response.message || 'Unknown error'}`);
       }
 
-      const roomData = await response.json();
-      console.log('✅ Created Daily.co room:', roomData.name, 'URL:', roomData.url);
+      console.log('✅ Daily.co room ready:', response.data.roomName, 'URL:', response.data.roomUrl);
 
       return {
         provider: VideoCallProvider.DAILY,
-        channelName: roomData.name,
-        roomUrl: roomData.url,
-        token: null, // Daily.co can use tokens, but not in this basic setup
-        callId: `daily_${roomData.name}_${Date.now()}`,
-        participants: { doctorId: '', customerId: '' }, // Will be populated by caller
+        channelName: response.data.roomName,
+        roomUrl: response.data.roomUrl || `https://${this.dailyDomain}/${response.data.roomName}`,
+        token: response.data.token,
+        callId: `daily_${response.data.roomName}_${Date.now()}`,
+        participants,
         callType: 'video' as 'audio' | 'video',
       };
     } catch (error) {
@@ -1,32 +1,37 @@
 import type { Doctor } from '../store/slices/doctorsSlice';
+import type { PaginatedResponse, SearchParams } from '../types';
+import { toPaginatedResponse, toSearchQueryParams } from '../utils/pagination';
 
 import { apiService } from './api';
 
 class DoctorsService {
-  // Fetch all doctors (health specialists)
-  async getDoctors(): Promise<Doctor[]> {
+  // Fetch one page of doctors (health specialists); search and filters are applied server-side
+  async getDoctors(params: SearchParams = {}): Promise<PaginatedResponse<Doctor>> {
+    const queryParams = toSearchQueryParams(params);
+    const page = Number(queryParams.page);
+    const limit = Number(queryParams.limit);
+
     try {
-      const response = await apiService.get<Doctor[]>('/health-specialists');
-      console.log('🔍 Raw API Response type:', typeof response);
+      const response = await apiService.get<Doctor[] | PaginatedResponse<Doctor>>(
+        '/health-specialists',
+        queryParams
+      );
       console.log('🔍 Raw API Response success:', response.success);
       console.log('📋 Response has data property:', !!response.data);
-      console.log(
-        '📋 Doctors data type:',
-        Array.isArray(response.data) ? 'array' : typeof response.data
-      );
-      console.log('📊 Doctors count:', response.data?.length || 0);
 
       // Check if we have a successful API response
-      if (response.success && response.data && Array.isArray(response.data)) {
-        if (response.data.length > 0) {
-          console.log('✅ Using real API doctors data');
-          // Map the API response to match our Doctor interface
-          return response.data.map(doctor => this.mapApiDoctorToInterface(doctor));
-        } else {
-          // API is working but no doctors in database - this should not happen with seeded data
-          console.warn('⚠️ API returned empty array - database may not be seeded');
-          return [];
-        }
+      if (response.success && response.data && typeof response.data === 'object') {
+        const result = toPaginatedResponse(response.data, page, limit);
+        console.log(
+          `📊 Doctors page ${result.page}: ${result.items.length} of ${result.total}` +
+            (result.hasMore ? ' (more available)' : '')
+        );
+
+        // Map the API response to match our Doctor interface
+        return {
+          ...result,
+          items: result.items.map(doctor => this.mapApiDoctorToInterface(doctor)),
+        };
       }
 
       // If API response is malformed
@@ -35,10 +40,10 @@ class DoctorsService {
     } catch (error: any) {
       console.error('❌ Error fetching doctors:', error?.response?.status, error?.message);
 
-      // Only fall back to mock data in development or if specifically configured
-      if (__DEV__ && process.env.NODE_ENV !== 'production') {
-        console.warn('⚠️ Development mode: API unavailable, using mock doctors for testing');
-        return this.getMockDoctors();
+      // Only use mock data if explicitly enabled; otherwise the cached directory covers offline use
+      if (__DEV__ && process.env.EXPO_USE_MOCK_DOCTORS === 'true') {
+        console.warn('⚠️ Development mode: Using mock doctors (EXPO_USE_MOCK_DOCTORS=true)');
+        return toPaginatedResponse(page === 1 ? this.getMockDoctors() : [], page, limit);
       }
 
       // In production, throw the error to let the UI handle it properly
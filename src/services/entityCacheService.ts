@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../constants';
+import type { PaginatedResponse } from '../types';
+
+/**
+ * Offline copy of the doctor and customer directories
+ *
+ * The first pages of each unfiltered directory are written to disk whenever
+ * they load, so the lists can render straight away on the next launch (or with
+ * no connection) while fresh data is fetched in the background.
+ */
+
+export type CachedEntityList = 'doctors' | 'customers';
+
+export interface EntityCacheSnapshot<T> {
+  items: T[];
+  pagination: Pick<PaginatedResponse<T>, 'page' | 'total' | 'hasMore'>;
+  /** When the items were fetched from the backend */
+  savedAt: number;
+}
+
+// Eviction policy: only the first few pages are kept, and a copy older than a
+// week is dropped rather than shown
+export const MAX_CACHED_PAGES = 5;
+const MAX_CACHE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CACHE_KEYS: Record<CachedEntityList, string> = {
+  doctors: STORAGE_KEYS.ENTITY_CACHE_DOCTORS,
+  customers: STORAGE_KEYS.ENTITY_CACHE_CUSTOMERS,
+};
+
+class EntityCacheService {
+  async load<T>(list: CachedEntityList): Promise<EntityCacheSnapshot<T> | null> {
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_KEYS[list]);
+      if (!stored) return null;
+
+      const snapshot = JSON.parse(stored) as EntityCacheSnapshot<T>;
+      if (Date.now() - snapshot.savedAt > MAX_CACHE_AGE_MS) {
+        console.log(`🗑️ Evicting expired ${list} cache`);
+        await AsyncStorage.removeItem(CACHE_KEYS[list]);
+        return null;
+      }
+
+      return snapshot;
+    } catch (error) {
+      console.warn(`⚠️ Failed to load cached ${list}:`, error);
+      return null;
+    }
+  }
+
+  async save<T>(list: CachedEntityList, snapshot: EntityCacheSnapshot<T>): Promise<void> {
+    if (snapshot.pagination.page > MAX_CACHED_PAGES) return;
+
+    try {
+      await AsyncStorage.setItem(CACHE_KEYS[list], JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn(`⚠️ Failed to persist cached ${list}:`, error);
+    }
+  }
+
+  // The customer directory is specific to the signed-in doctor, so nothing outlives the session
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.multiRemove(Object.values(CACHE_KEYS));
+    } catch (error) {
+      console.warn('⚠️ Failed to clear entity cache:', error);
+    }
+  }
+}
+
+export const entityCacheService = new EntityCacheService();
+export default entityCacheService;
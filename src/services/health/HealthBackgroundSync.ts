@@ -1,10 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as Battery from 'expo-battery';
+import * as TaskManager from 'expo-task-manager';
 import type { AppStateStatus } from 'react-native';
 import { AppState, Platform } from 'react-native';
 
-import { store } from '../../store';
+import { STORAGE_KEYS } from '../../constants';
+import { persistor, store } from '../../store';
 import { fetchLatestHealthData } from '../../store/slices/healthSlice';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
 
+import { HEALTH_BACKGROUND_SYNC_TASK, HealthSyncService } from './HealthSyncService';
+
+export interface BackgroundSyncRun {
+  startedAt: number;
+  durationMs: number;
+  outcome: 'success' | 'failed' | 'skipped';
+  reason?: string;
+}
+
+export interface SyncMetrics {
+  lastSync: number;
+  syncCount: number;
+  failureCount: number;
+  averageSyncDuration: number;
+  backgroundRuns: BackgroundSyncRun[]; // Most recent first
+}
+
+export interface SyncConfiguration {
+  baseInterval: number;
+  minInterval: number;
+  maxInterval: number;
+  adaptiveSync: boolean;
+  batteryOptimization: boolean;
+  minBatteryLevel: number; // 0-1; below this, background runs wait until the device is charging
+  allowCellular: boolean;
+}
+
+const MAX_RECORDED_RUNS = 20;
+const REHYDRATION_TIMEOUT = 5000;
+
 class HealthBackgroundSync {
   private static instance: HealthBackgroundSync;
   private lastSync: number = 0;
@@ -12,6 +48,25 @@ class HealthBackgroundSync {
   private intervalId: NodeJS.Timeout | null = null;
   private appStateSubscription: any = null;
   private started = false;
+  private metricsLoaded: Promise<void> | null = null;
+
+  private config: SyncConfiguration = {
+    baseInterval: 15 * 60 * 1000,
+    minInterval: 5 * 60 * 1000,
+    maxInterval: 60 * 60 * 1000,
+    adaptiveSync: true,
+    batteryOptimization: true,
+    minBatteryLevel: 0.2,
+    allowCellular: true,
+  };
+
+  private syncMetrics: SyncMetrics = {
+    lastSync: 0,
+    syncCount: 0,
+    failureCount: 0,
+    averageSyncDuration: 0,
+    backgroundRuns: [],
+  };
 
   static getInstance() {
     if (!HealthBackgroundSync.instance) {
@@ -29,7 +84,7 @@ class HealthBackgroundSync {
 
     // Start with adaptive sync interval
     this.scheduleNextSync();
-    this.maybeSync('start');
+    this.loadSyncMetrics().then(() => this.maybeSync('start'));
   }
 
   stop() {
@@ -190,6 +245,7 @@ class HealthBackgroundSync {
         this.syncMetrics.syncCount;
 
       this.lastSync = now; // Backward compatibility
+      this.persistSyncMetrics();
 
       console.log(
         `✅ Background health sync (${reason}) completed in ${duration}ms (avg: ${this.syncMetrics.averageSyncDuration.toFixed(0)}ms)`
@@ -204,6 +260,7 @@ class HealthBackgroundSync {
 
       // Update failure metrics
       this.syncMetrics.failureCount++;
+      this.persistSyncMetrics();
 
       // Reschedule with longer interval after failure
       if (reason === 'interval') {
@@ -227,10 +284,174 @@ class HealthBackgroundSync {
   }
 
   /**
-   * Get sync statistics for debugging
+   * Runs inside the OS background task: an incremental sync through
+   * HealthSyncService, skipped when the battery or network say not to.
+   */
+  async runBackgroundSync(): Promise<BackgroundTask.BackgroundTaskResult> {
+    const startedAt = Date.now();
+    await this.loadSyncMetrics();
+
+    const skipReason = await this.getBackgroundSkipReason();
+    const userId = skipReason ? null : await this.getSignedInUserId();
+    if (skipReason || !userId) {
+      const reason = skipReason ?? 'no signed-in user';
+      console.log(`⏭️ Skipping background health sync (${reason})`);
+      await this.recordBackgroundRun({
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        outcome: 'skipped',
+        reason,
+      });
+      return BackgroundTask.BackgroundTaskResult.Success;
+    }
+
+    try {
+      const success = await HealthSyncService.getInstance().syncHealthData(userId);
+      const durationMs = Date.now() - startedAt;
+
+      this.recordSyncDuration(success, startedAt, durationMs);
+      await this.recordBackgroundRun({
+        startedAt,
+        durationMs,
+        outcome: success ? 'success' : 'failed',
+        reason: success ? undefined : 'upload queued for retry',
+      });
+
+      console.log(
+        `✅ Background health sync finished in ${durationMs}ms (${success ? 'uploaded' : 'queued'})`
+      );
+      return success
+        ? BackgroundTask.BackgroundTaskResult.Success
+        : BackgroundTask.BackgroundTaskResult.Failed;
+    } catch (error) {
+      const durationMs = Date.now() - startedAt;
+      this.recordSyncDuration(false, startedAt, durationMs);
+      await this.recordBackgroundRun({
+        startedAt,
+        durationMs,
+        outcome: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+      });
+
+      sentryTracker.trackServiceError(
+        error instanceof Error ? error : 'Background health task failed',
+        {
+          service: 'healthBackgroundSync',
+          action: 'runBackgroundSync',
+          additional: { platform: Platform.OS },
+        }
+      );
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  }
+
+  /**
+   * Background runs wait for a healthy battery and an acceptable network
+   */
+  private async getBackgroundSkipReason(): Promise<string | undefined> {
+    try {
+      const power = await Battery.getPowerStateAsync();
+      if (power.lowPowerMode) {
+        return 'low power mode';
+      }
+
+      const isCharging =
+        power.batteryState === Battery.BatteryState.CHARGING ||
+        power.batteryState === Battery.BatteryState.FULL;
+      // batteryLevel is -1 when the platform can't report it
+      if (
+        !isCharging &&
+        power.batteryLevel >= 0 &&
+        power.batteryLevel < this.config.minBatteryLevel
+      ) {
+        return `battery at ${Math.round(power.batteryLevel * 100)}%`;
+      }
+    } catch (error) {
+      console.warn('⚠️ Battery state unavailable, continuing background sync', error);
+    }
+
+    const network = await NetInfo.fetch();
+    if (!network.isConnected) {
+      return 'offline';
+    }
+    if (network.type === 'cellular' && !this.config.allowCellular) {
+      return 'cellular data not allowed';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The background task can start before redux-persist has restored the session
+   */
+  private async getSignedInUserId(): Promise<string | null> {
+    const deadline = Date.now() + REHYDRATION_TIMEOUT;
+    while (!persistor.getState().bootstrapped && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const userId = store.getState().auth?.user?.id;
+    return userId ? String(userId) : null;
+  }
+
+  private recordSyncDuration(success: boolean, finishedAt: number, duration: number): void {
+    if (!success) {
+      this.syncMetrics.failureCount++;
+      return;
+    }
+
+    this.syncMetrics.lastSync = finishedAt;
+    this.syncMetrics.syncCount++;
+    this.syncMetrics.averageSyncDuration =
+      (this.syncMetrics.averageSyncDuration * (this.syncMetrics.syncCount - 1) + duration) /
+      this.syncMetrics.syncCount;
+    this.lastSync = finishedAt;
+  }
+
+  private async recordBackgroundRun(run: BackgroundSyncRun): Promise<void> {
+    this.syncMetrics.backgroundRuns = [run, ...this.syncMetrics.backgroundRuns].slice(
+      0,
+      MAX_RECORDED_RUNS
+    );
+    await this.persistSyncMetrics();
+  }
+
+  /**
+   * Metrics are shared between the foreground app and background task runs
+   */
+  private loadSyncMetrics(): Promise<void> {
+    if (!this.metricsLoaded) {
+      this.metricsLoaded = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEYS.HEALTH_SYNC_METRICS);
+          if (stored) {
+            this.syncMetrics = { ...this.syncMetrics, ...JSON.parse(stored) };
+            this.lastSync = this.syncMetrics.lastSync;
+          }
+        } catch (error) {
+          console.warn('⚠️ Failed to load health sync metrics:', error);
+        }
+      })();
+    }
+    return this.metricsLoaded;
+  }
+
+  private async persistSyncMetrics(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.HEALTH_SYNC_METRICS,
+        JSON.stringify(this.syncMetrics)
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to persist health sync metrics:', error);
+    }
+  }
+
+  /**
+   * Get sync statistics, including recent background task runs
    */
   getSyncMetrics(): SyncMetrics {
-    return { ...this.syncMetrics };
+    return { ...this.syncMetrics, backgroundRuns: [...this.syncMetrics.backgroundRuns] };
   }
 
   /**
@@ -254,6 +475,17 @@ class HealthBackgroundSync {
   }
 }
 
+// Task definitions must run when the bundle loads, including headless background launches
+if (Platform.OS !== 'web') {
+  TaskManager.defineTask(HEALTH_BACKGROUND_SYNC_TASK, () =>
+    HealthBackgroundSync.getInstance().runBackgroundSync()
+  );
+}
+
 export const startHealthBackgroundSync = () => {
   HealthBackgroundSync.getInstance().start();
 };
+
+export const getHealthSyncMetrics = () => HealthBackgroundSync.getInstance().getSyncMetrics();
+
+export { HealthBackgroundSync };
@@ -3,14 +3,18 @@
  *
  * Provides intelligent caching for health data with TTL, compression, and smart invalidation.
  * Optimizes performance and reduces API calls while maintaining data freshness.
+ * Persisted entries are encrypted with HealthDataCrypto.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 
 import type { HealthMetric, HealthDataType } from '../../types/health';
+import { HealthDataIntegrityError } from '../../utils/error';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
 
+import { HealthDataCrypto } from './HealthDataCrypto';
+
 interface CachedHealthData {
   data: HealthMetric[];
   timestamp: number;
@@ -31,7 +35,7 @@ interface CacheStats {
 
 export class HealthDataCacheService {
   private static instance: HealthDataCacheService;
-  private readonly CACHE_VERSION = '1.0';
+  private readonly CACHE_VERSION = '2.0'; // 2.0: entries encrypted at rest
   private readonly DEFAULT_TTL = 10 * 60 * 1000; // 10 minutes
   private readonly MAX_CACHE_SIZE = 50; // Maximum number of cached entries
   private readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour
@@ -246,10 +250,14 @@ export class HealthDataCacheService {
 
   private async getFromStorage(key: string): Promise<CachedHealthData | null> {
     try {
-      const stored = await AsyncStorage.getItem(this.getStorageKey(key));
+      const storageKey = this.getStorageKey(key);
+      const stored = await AsyncStorage.getItem(storageKey);
       if (!stored) return null;
 
-      const cached: CachedHealthData = JSON.parse(stored);
+      const cached = await HealthDataCrypto.getInstance().decryptJSON<CachedHealthData>(
+        stored,
+        storageKey
+      );
 
       // Validate version and platform compatibility
       if (cached.version !== this.CACHE_VERSION) {
@@ -263,14 +271,19 @@ export class HealthDataCacheService {
       return cached;
     } catch (error) {
       console.warn('🏥 Health cache storage retrieval failed:', error);
+      if (error instanceof HealthDataIntegrityError) {
+        // Tampered, or written with a key that has since been retired
+        await AsyncStorage.removeItem(this.getStorageKey(key)).catch(() => {});
+      }
       return null;
     }
   }
 
   private async setInStorage(key: string, cached: CachedHealthData): Promise<void> {
     try {
-      const serialized = JSON.stringify(cached);
-      await AsyncStorage.setItem(this.getStorageKey(key), serialized);
+      const storageKey = this.getStorageKey(key);
+      const serialized = await HealthDataCrypto.getInstance().encryptJSON(cached, storageKey);
+      await AsyncStorage.setItem(storageKey, serialized);
     } catch (error) {
       console.warn('🏥 Health cache storage write failed:', error);
       throw error;
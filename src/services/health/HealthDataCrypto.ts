@@ -0,0 +1,238 @@
+/**
+ * Health Data Crypto
+ *
+ * Authenticated encryption (XChaCha20-Poly1305) for health data kept on the
+ * device: sync backups, the upload queue and the health data cache. Keys are
+ * generated on the device and held in the platform keystore without iCloud or
+ * backup migration, and rotate on a fixed schedule. Also provides SHA-256
+ * digests for upload payloads.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+import { HealthDataIntegrityError } from '../../utils/error';
+
+interface HealthKey {
+  id: string;
+  key: string; // base64
+  createdAt: number;
+}
+
+interface HealthKeyring {
+  activeKeyId: string;
+  keys: HealthKey[];
+}
+
+const KEYRING_STORAGE_KEY = 'hopmed_health_keyring';
+const ENVELOPE_PREFIX = 'hmenc1';
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+const KEY_ROTATION_INTERVAL = 90 * 24 * 60 * 60 * 1000;
+// Data only readable with a key older than this many rotations is treated as missing
+const MAX_RETAINED_KEYS = 3;
+
+const KEYSTORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  // Readable by background syncs while locked, never restored onto another device
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+// Hermes has no TextDecoder, so UTF-8 is converted by hand
+/* eslint-disable no-bitwise */
+const utf8ToBytes = (value: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const bytesToUtf8 = (bytes: Uint8Array): string => {
+  const codePoints: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const length = byte < 0x80 ? 1 : byte < 0xe0 ? 2 : byte < 0xf0 ? 3 : 4;
+    let code = length === 1 ? byte : byte & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      code = (code << 6) | (bytes[i + j] & 0x3f);
+    }
+    codePoints.push(code);
+    i += length;
+  }
+
+  let result = '';
+  for (let start = 0; start < codePoints.length; start += 0x8000) {
+    result += String.fromCodePoint(...codePoints.slice(start, start + 0x8000));
+  }
+  return result;
+};
+/* eslint-enable no-bitwise */
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export class HealthDataCrypto {
+  private static instance: HealthDataCrypto;
+  private keyringPromise: Promise<HealthKeyring> | null = null;
+
+  static getInstance(): HealthDataCrypto {
+    if (!HealthDataCrypto.instance) {
+      HealthDataCrypto.instance = new HealthDataCrypto();
+    }
+    return HealthDataCrypto.instance;
+  }
+
+  /**
+   * Encrypt a string. `context` (usually the storage key) is bound to the
+   * ciphertext, so a payload copied into another slot fails to decrypt.
+   */
+  async encrypt(plaintext: string, context: string): Promise<string> {
+    const keyring = await this.getKeyring();
+    const activeKey = keyring.keys.find(key => key.id === keyring.activeKeyId);
+    if (!activeKey) {
+      throw new HealthDataIntegrityError('Active health data key is missing');
+    }
+
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    const cipher = xchacha20poly1305(base64ToBytes(activeKey.key), nonce, utf8ToBytes(context));
+    const ciphertext = cipher.encrypt(utf8ToBytes(plaintext));
+
+    return [ENVELOPE_PREFIX, activeKey.id, bytesToBase64(nonce), bytesToBase64(ciphertext)].join(
+      ':'
+    );
+  }
+
+  /**
+   * Decrypt a payload produced by `encrypt`. Values written before encryption
+   * was introduced are returned unchanged so existing data keeps loading.
+   */
+  async decrypt(payload: string, context: string): Promise<string> {
+    if (!this.isEncrypted(payload)) {
+      return payload;
+    }
+
+    const [, keyId, nonce, ciphertext] = payload.split(':');
+    const keyring = await this.getKeyring();
+    const key = keyring.keys.find(candidate => candidate.id === keyId);
+    if (!key) {
+      throw new HealthDataIntegrityError(`Health data key ${keyId} is no longer available`);
+    }
+
+    try {
+      const cipher = xchacha20poly1305(
+        base64ToBytes(key.key),
+        base64ToBytes(nonce),
+        utf8ToBytes(context)
+      );
+      return bytesToUtf8(cipher.decrypt(base64ToBytes(ciphertext)));
+    } catch {
+      throw new HealthDataIntegrityError('Health data failed authentication');
+    }
+  }
+
+  async encryptJSON<T>(value: T, context: string): Promise<string> {
+    return this.encrypt(JSON.stringify(value), context);
+  }
+
+  async decryptJSON<T>(payload: string, context: string): Promise<T> {
+    return JSON.parse(await this.decrypt(payload, context));
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(`${ENVELOPE_PREFIX}:`);
+  }
+
+  /**
+   * SHA-256 of a UTF-8 string, base64 encoded (as used by Content-Digest)
+   */
+  async sha256(value: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, value, {
+      encoding: Crypto.CryptoEncoding.BASE64,
+    });
+  }
+
+  /**
+   * Start encrypting with a fresh key. Older keys stay available for reading
+   * until they fall out of the retention window.
+   */
+  async rotateKey(): Promise<string> {
+    const keyring = await this.getKeyring();
+    const rotated = this.withNewKey(keyring);
+    await this.saveKeyring(rotated);
+    this.keyringPromise = Promise.resolve(rotated);
+    console.log(`🔐 Rotated health data key to ${rotated.activeKeyId}`);
+    return rotated.activeKeyId;
+  }
+
+  private getKeyring(): Promise<HealthKeyring> {
+    if (!this.keyringPromise) {
+      this.keyringPromise = this.loadKeyring().catch(error => {
+        // Let the next call retry instead of caching the failure
+        this.keyringPromise = null;
+        throw error;
+      });
+    }
+    return this.keyringPromise;
+  }
+
+  private async loadKeyring(): Promise<HealthKeyring> {
+    const stored = await SecureStore.getItemAsync(KEYRING_STORAGE_KEY, KEYSTORE_OPTIONS);
+    let keyring: HealthKeyring | null = stored ? JSON.parse(stored) : null;
+
+    const activeKey = keyring?.keys.find(key => key.id === keyring?.activeKeyId);
+    if (!keyring || !activeKey || Date.now() - activeKey.createdAt > KEY_ROTATION_INTERVAL) {
+      keyring = this.withNewKey(keyring);
+      await this.saveKeyring(keyring);
+      console.log(`🔐 Health data key ${keyring.activeKeyId} is now active`);
+    }
+
+    return keyring;
+  }
+
+  private withNewKey(keyring: HealthKeyring | null): HealthKeyring {
+    const newKey: HealthKey = {
+      id: `k${Date.now().toString(36)}${bytesToBase64(Crypto.getRandomBytes(3)).replace(/[+/=]/g, '')}`,
+      key: bytesToBase64(Crypto.getRandomBytes(KEY_BYTES)),
+      createdAt: Date.now(),
+    };
+
+    return {
+      activeKeyId: newKey.id,
+      keys: [newKey, ...(keyring?.keys ?? [])].slice(0, MAX_RETAINED_KEYS),
+    };
+  }
+
+  private async saveKeyring(keyring: HealthKeyring): Promise<void> {
+    await SecureStore.setItemAsync(KEYRING_STORAGE_KEY, JSON.stringify(keyring), KEYSTORE_OPTIONS);
+  }
+}
@@ -7,7 +7,7 @@
 
 import { Platform } from 'react-native';
 
-import type { HealthMetric, HealthDataRange } from '../../types/health';
+import type { HealthMetric, HealthDataRange, HealthMetricProvenance } from '../../types/health';
 import { HealthDataType } from '../../types/health';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
 
@@ -28,6 +28,21 @@ export class HealthDataNormalizer {
   private static readonly MIN_VALID_TIMESTAMP = new Date('2020-01-01').getTime();
   private static readonly MAX_FUTURE_DAYS = 1; // Allow up to 1 day in future
 
+  // Totals accumulated over an interval; overlapping readings of these double count
+  private static readonly CUMULATIVE_TYPES = new Set<HealthDataType>([
+    HealthDataType.STEPS,
+    HealthDataType.DISTANCE,
+    HealthDataType.CALORIES_BURNED,
+    HealthDataType.ACTIVE_ENERGY,
+    HealthDataType.SLEEP,
+    HealthDataType.EXERCISE,
+  ]);
+  // Point readings from different sources this close together describe the same moment
+  private static readonly POINT_MATCH_WINDOW_MS = 60 * 1000;
+  private static readonly FULLY_COVERED = 0.999;
+
+  static readonly DEFAULT_SOURCE_PRIORITY: string[] = ['watch', 'phone', 'manual'];
+
   /**
    * Normalize health data from any platform to unified format
    */
@@ -146,6 +161,7 @@ export class HealthDataNormalizer {
   ): HealthMetric {
     const baseId = `${platform}_${dataType}_${index}`;
     const timestamp = this.extractTimestamp(item, platform);
+    const endTime = new Date(platform === 'ios' ? item.endDate : item.endTime).getTime();
     const value = this.extractValue(item, dataType, platform);
     const unit = this.getStandardUnit(dataType);
     const deviceSource = this.determineSource(item, platform, source);
@@ -162,6 +178,7 @@ export class HealthDataNormalizer {
         quality: this.assessDataQuality(item, platform),
         confidence: this.calculateConfidence(item, dataType, platform),
         context: `${platform}_normalized`,
+        endTime: endTime > timestamp.getTime() ? endTime : undefined,
         platform,
         originalSource: source || 'unknown',
         validationScore: 1.0, // Will be updated during validation
@@ -296,6 +313,20 @@ export class HealthDataNormalizer {
     return unitMap[dataType] || 'units';
   }
 
+  /**
+   * Source and device of a raw platform item, for callers that read a health
+   * store directly but merge sources the same way
+   */
+  static identifySource(
+    item: any,
+    platform: 'ios' | 'android'
+  ): Pick<HealthMetric, 'source' | 'deviceId'> {
+    return {
+      source: this.determineSource(item, platform),
+      deviceId: this.extractDeviceId(item, platform),
+    };
+  }
+
   /**
    * Determine data source (watch, phone, manual)
    */
@@ -457,9 +488,10 @@ export class HealthDataNormalizer {
   }
 
   /**
-   * Validate value ranges for specific data types
+   * Validate value ranges for specific data types. Also checks readings a
+   * patient enters by hand before they are saved.
    */
-  private static validateValueRange(
+  static validateValueRange(
     value: number,
     dataType: HealthDataType
   ): {
@@ -509,6 +541,8 @@ export class HealthDataNormalizer {
         break;
 
       case HealthDataType.BLOOD_PRESSURE:
+        if (value <= 0)
+          return { isValid: false, message: 'Blood pressure must be positive', severity: 'error' };
         if (value < 50)
           return { isValid: false, message: 'Blood pressure too low', severity: 'warning' };
         if (value > 250)
@@ -534,6 +568,23 @@ export class HealthDataNormalizer {
             severity: 'error',
           };
         break;
+
+      case HealthDataType.BLOOD_GLUCOSE:
+        if (value < 20 || value > 600)
+          return {
+            isValid: false,
+            message: 'Blood glucose out of measurable range (20-600 mg/dL)',
+            severity: 'error',
+          };
+        if (value < 70)
+          return { isValid: false, message: 'Blood glucose low (<70 mg/dL)', severity: 'warning' };
+        if (value > 250)
+          return {
+            isValid: false,
+            message: 'Blood glucose high (>250 mg/dL)',
+            severity: 'warning',
+          };
+        break;
     }
 
     return { isValid: true, message: 'Value is valid', severity: 'error' };
@@ -597,6 +648,147 @@ export class HealthDataNormalizer {
     return values.filter(value => value < lowerBound || value > upperBound);
   }
 
+  /**
+   * Merge readings of one data type recorded by several sources (e.g. a watch
+   * and the phone both counting steps). Readings are taken in priority order;
+   * a lower-priority reading that overlaps one already kept is dropped, or for
+   * cumulative types trimmed to the part nobody else counted. Kept readings
+   * record what they superseded in `metadata.provenance`.
+   */
+  static mergeSources(
+    metrics: HealthMetric[],
+    dataType: HealthDataType,
+    priority: string[] = this.DEFAULT_SOURCE_PRIORITY
+  ): HealthMetric[] {
+    if (metrics.length < 2) return metrics;
+
+    const rank = (metric: HealthMetric) => {
+      const byDevice = metric.deviceId ? priority.indexOf(metric.deviceId) : -1;
+      if (byDevice !== -1) return byDevice;
+      const bySource = priority.indexOf(metric.source);
+      return bySource !== -1 ? bySource : priority.length;
+    };
+
+    // Copies, since kept readings collect provenance as the merge goes
+    const ordered = metrics
+      .map(metric => ({ ...metric }))
+      .sort(
+        (a, b) =>
+          rank(a) - rank(b) ||
+          (b.metadata?.confidence ?? 0) - (a.metadata?.confidence ?? 0) ||
+          a.timestamp.getTime() - b.timestamp.getTime()
+      );
+
+    const kept: HealthMetric[] = [];
+    for (const metric of ordered) {
+      const merged = this.CUMULATIVE_TYPES.has(dataType)
+        ? this.mergeInterval(metric, kept)
+        : this.mergePoint(metric, kept);
+      if (merged) kept.push(merged);
+    }
+
+    return kept.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Returns the part of `metric` not already counted by `kept`, or null if it is fully covered
+   */
+  private static mergeInterval(metric: HealthMetric, kept: HealthMetric[]): HealthMetric | null {
+    const [start, end] = this.getInterval(metric);
+    const length = end - start;
+
+    const overlaps: { metric: HealthMetric; from: number; to: number }[] = [];
+    for (const other of kept) {
+      const [otherStart, otherEnd] = this.getInterval(other);
+      const from = Math.max(start, otherStart);
+      const to = Math.min(end, otherEnd);
+      // Instant readings overlap anything whose interval contains them
+      if (to > from || (length === 0 && from === to)) {
+        overlaps.push({ metric: other, from, to });
+      }
+    }
+
+    if (overlaps.length === 0) return metric;
+
+    // Union of the overlapping ranges, so readings kept earlier are not subtracted twice
+    const ranges = overlaps.map(({ from, to }) => [from, to]).sort((a, b) => a[0] - b[0]);
+    let covered = 0;
+    let coveredUntil = start;
+    for (const [from, to] of ranges) {
+      covered += Math.max(0, to - Math.max(from, coveredUntil));
+      coveredUntil = Math.max(coveredUntil, to);
+    }
+    const coveredShare = length === 0 ? 1 : covered / length;
+
+    for (const overlap of overlaps) {
+      const share = length === 0 ? 1 : (overlap.to - overlap.from) / length;
+      this.addProvenance(overlap.metric, this.toProvenance(metric, share));
+    }
+
+    if (coveredShare >= this.FULLY_COVERED) return null;
+
+    const remaining = metric.value * (1 - coveredShare);
+    return {
+      ...metric,
+      value: Math.round(remaining * 100) / 100,
+      metadata: {
+        ...metric.metadata,
+        provenance: [
+          ...(metric.metadata?.provenance ?? []),
+          this.toProvenance(metric, coveredShare),
+        ],
+      },
+    };
+  }
+
+  /**
+   * Returns `metric` unless another source already reported the same moment
+   */
+  private static mergePoint(metric: HealthMetric, kept: HealthMetric[]): HealthMetric | null {
+    const time = metric.timestamp.getTime();
+    let match: HealthMetric | null = null;
+    let matchDistance = Infinity;
+
+    for (const other of kept) {
+      const distance = Math.abs(other.timestamp.getTime() - time);
+      const sameSource = other.source === metric.source && other.deviceId === metric.deviceId;
+      const isMatch = sameSource
+        ? distance === 0 && other.value === metric.value
+        : distance <= this.POINT_MATCH_WINDOW_MS;
+      if (isMatch && distance < matchDistance) {
+        match = other;
+        matchDistance = distance;
+      }
+    }
+
+    if (!match) return metric;
+
+    this.addProvenance(match, this.toProvenance(metric, 1));
+    return null;
+  }
+
+  private static getInterval(metric: HealthMetric): [number, number] {
+    const start = metric.timestamp.getTime();
+    return [start, Math.max(start, metric.metadata?.endTime ?? start)];
+  }
+
+  private static toProvenance(metric: HealthMetric, overlap: number): HealthMetricProvenance {
+    return {
+      metricId: metric.id,
+      source: metric.source,
+      deviceId: metric.deviceId,
+      value: metric.value,
+      overlap: Math.round(overlap * 1000) / 1000,
+    };
+  }
+
+  private static addProvenance(metric: HealthMetric, entry: HealthMetricProvenance): void {
+    metric.metadata = {
+      ...metric.metadata,
+      provenance: [...(metric.metadata?.provenance ?? []), entry],
+    };
+  }
+
   /**
    * Calculate data integrity score
    */
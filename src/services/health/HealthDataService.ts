@@ -12,7 +12,7 @@ import { isExpoGo } from '../../utils/nativeModuleChecker';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
 import PermissionManager from '../PermissionManagerMigrated';
 
-// import { AppleHealthKitProvider } from './providers/AppleHealthKitProvider'; // Removed - using @kingstinct/react-native-healthkit directly
+import { AppleHealthKitProvider } from './providers/AppleHealthKitProvider';
 import { GoogleHealthConnectProvider } from './providers/GoogleHealthConnectProvider';
 import { wearableHealthManager } from './WearableHealthManager';
 
@@ -247,11 +247,11 @@ export class HealthDataService {
         // Allow initialization to continue with fallback capabilities
       }
 
-      // Apple HealthKit provider removed - using @kingstinct/react-native-healthkit directly in hooks
-      // if (Platform.OS === 'ios') {
-      //   const appleProvider = new AppleHealthKitProvider();
-      //   wearableHealthManager.registerProvider('apple_healthkit', appleProvider);
-      // }
+      // Register Apple HealthKit provider (iOS)
+      if (Platform.OS === 'ios') {
+        const appleProvider = new AppleHealthKitProvider();
+        wearableHealthManager.registerProvider(appleProvider.name, appleProvider);
+      }
 
       // Register Google Health Connect provider (Android)
       if (Platform.OS === 'android') {
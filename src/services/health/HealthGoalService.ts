@@ -0,0 +1,117 @@
+/**
+ * Health Goal Service
+ *
+ * Stores each user's health goals and their achievement history on the device,
+ * under user-scoped keys so they carry over between sign-ins without leaking
+ * to another account, and sends the local notification when a goal is reached.
+ */
+
+import * as Notifications from 'expo-notifications';
+
+import { STORAGE_KEYS } from '../../constants';
+import type { HealthGoal, HealthGoalHistory } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+import { AppStorage } from '../../utils/storage';
+
+import { DEFAULT_DAILY_STEPS_GOAL } from './HealthGoalTracker';
+
+// Goals as stored; dates don't survive JSON
+type StoredHealthGoal = Omit<HealthGoal, 'createdAt'> & { createdAt: string };
+
+const PERIOD_NAMES: Record<HealthGoal['period'], string> = {
+  daily: 'today',
+  weekly: 'this week',
+  monthly: 'this month',
+};
+
+export class HealthGoalService {
+  private static instance: HealthGoalService;
+
+  static getInstance(): HealthGoalService {
+    if (!HealthGoalService.instance) {
+      HealthGoalService.instance = new HealthGoalService();
+    }
+    return HealthGoalService.instance;
+  }
+
+  /**
+   * New active goal; ids only need to be unique on this device
+   */
+  static createGoal(
+    type: HealthDataType,
+    period: HealthGoal['period'],
+    target: number,
+    unit: string
+  ): HealthGoal {
+    return {
+      id: `goal_${type}_${period}_${Date.now()}`,
+      type,
+      target,
+      unit,
+      period,
+      isActive: true,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * The user's goals, or a daily steps goal for a user who has never set any
+   */
+  async loadGoals(userId: string): Promise<HealthGoal[]> {
+    const stored = await AppStorage.getObject<StoredHealthGoal[]>(
+      `${STORAGE_KEYS.HEALTH_GOALS}_${userId}`
+    );
+    if (!stored) {
+      return [
+        HealthGoalService.createGoal(
+          HealthDataType.STEPS,
+          'daily',
+          DEFAULT_DAILY_STEPS_GOAL,
+          'steps'
+        ),
+      ];
+    }
+    return stored.map(goal => ({ ...goal, createdAt: new Date(goal.createdAt) }));
+  }
+
+  async saveGoals(userId: string, goals: HealthGoal[]): Promise<void> {
+    await AppStorage.setObject(`${STORAGE_KEYS.HEALTH_GOALS}_${userId}`, goals);
+  }
+
+  /**
+   * Achievement history per goal id
+   */
+  async loadHistory(userId: string): Promise<Record<string, HealthGoalHistory>> {
+    return (
+      (await AppStorage.getObject<Record<string, HealthGoalHistory>>(
+        `${STORAGE_KEYS.HEALTH_GOAL_HISTORY}_${userId}`
+      )) ?? {}
+    );
+  }
+
+  async saveHistory(userId: string, history: Record<string, HealthGoalHistory>): Promise<void> {
+    await AppStorage.setObject(`${STORAGE_KEYS.HEALTH_GOAL_HISTORY}_${userId}`, history);
+  }
+
+  /**
+   * Let the patient know a goal was reached; sent once per goal period
+   */
+  async notifyGoalAchieved(goal: HealthGoal, value: number, streak: number): Promise<void> {
+    try {
+      const streakText = streak > 1 ? ` That's ${streak} in a row!` : '';
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: '🏆 Goal reached',
+          body: `${value.toLocaleString()} ${goal.unit} ${PERIOD_NAMES[goal.period]}, past your goal of ${goal.target.toLocaleString()}.${streakText}`,
+          data: { type: 'health_goal', goalId: goal.id },
+        },
+        trigger: null, // Send immediately
+      });
+      console.log(`🏆 Goal notification sent: ${goal.type} ${goal.period}`);
+    } catch (error) {
+      console.error('❌ Failed to send goal notification:', error);
+    }
+  }
+}
+
+export default HealthGoalService;
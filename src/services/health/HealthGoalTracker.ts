@@ -0,0 +1,246 @@
+/**
+ * Health Goal Tracker
+ *
+ * Works out whether the patient's goals were met, and for how long in a row,
+ * from the step totals the health hooks already load. Each goal keeps a small
+ * achievement history so streaks and personal bests survive past the week or
+ * month of readings the hooks return.
+ */
+
+import type { WeeklyStepData } from '../../hooks/health/useMonthlyWeeks';
+import type { DailyStepData } from '../../hooks/health/useWeeklySteps';
+import type {
+  HealthGoal,
+  HealthGoalHistory,
+  HealthGoalProgress,
+  PeriodFilter,
+} from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+export const DEFAULT_DAILY_STEPS_GOAL = 10_000;
+
+// About a year of daily achievements; older ones no longer affect a streak
+const MAX_ACHIEVED_PERIODS = 400;
+
+const FILTER_PERIODS: Record<PeriodFilter, HealthGoal['period']> = {
+  today: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+};
+
+// Used when there is no goal for the period, scaled from the daily one
+const FILTER_DAYS: Record<PeriodFilter, number> = {
+  today: 1,
+  week: 7,
+  month: 30,
+};
+
+/**
+ * Total for one goal period, keyed as returned by `HealthGoalTracker.periodKey`
+ */
+export interface GoalPeriodValue {
+  period: string;
+  value: number;
+  isCurrent: boolean;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDay = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfWeek = (date: Date) => {
+  const monday = new Date(date);
+  const dayOfWeek = monday.getDay();
+  monday.setDate(monday.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+  return monday;
+};
+
+const parseKey = (key: string) => {
+  const [year, month, day = 1] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export class HealthGoalTracker {
+  /**
+   * Key of the period containing `date`: the day, the Monday starting the week,
+   * or the month
+   */
+  static periodKey(period: HealthGoal['period'], date: Date): string {
+    switch (period) {
+      case 'daily':
+        return formatDay(date);
+      case 'weekly':
+        return formatDay(startOfWeek(date));
+      case 'monthly':
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+    }
+  }
+
+  /**
+   * Key of the period `offset` periods before (negative) or after `key`
+   */
+  static shiftPeriod(period: HealthGoal['period'], key: string, offset: number): string {
+    const date = parseKey(key);
+    switch (period) {
+      case 'daily':
+        date.setDate(date.getDate() + offset);
+        break;
+      case 'weekly':
+        date.setDate(date.getDate() + offset * 7);
+        break;
+      case 'monthly':
+        date.setMonth(date.getMonth() + offset);
+        break;
+    }
+    return HealthGoalTracker.periodKey(period, date);
+  }
+
+  /**
+   * Step totals per goal period from `useWeeklySteps` and `useMonthlyWeeks`.
+   * Daily goals get each day of this week so far; weekly and monthly goals
+   * only the period in progress.
+   */
+  static getStepPeriods(
+    period: HealthGoal['period'],
+    weeklyData: DailyStepData[],
+    monthlyData: WeeklyStepData[],
+    now = new Date()
+  ): GoalPeriodValue[] {
+    switch (period) {
+      case 'daily':
+        return weeklyData
+          .filter(day => !day.isFuture)
+          .map(day => ({
+            period: HealthGoalTracker.periodKey('daily', day.date),
+            value: day.steps,
+            isCurrent: day.isToday,
+          }));
+      case 'weekly':
+        if (weeklyData.length === 0) return [];
+        return [
+          {
+            period: HealthGoalTracker.periodKey('weekly', now),
+            value: weeklyData.reduce((sum, day) => sum + day.steps, 0),
+            isCurrent: true,
+          },
+        ];
+      case 'monthly':
+        if (monthlyData.length === 0) return [];
+        return [
+          {
+            period: HealthGoalTracker.periodKey('monthly', now),
+            value: monthlyData.reduce((sum, week) => sum + week.steps, 0),
+            isCurrent: true,
+          },
+        ];
+    }
+  }
+
+  /**
+   * Fold the latest totals into a goal's history. `achievedNow` is true the
+   * first time the period in progress reaches the target, so the caller
+   * notifies once per period.
+   */
+  static record(
+    goal: HealthGoal,
+    history: HealthGoalHistory | undefined,
+    periods: GoalPeriodValue[]
+  ): { history: HealthGoalHistory; achievedNow: boolean } {
+    const achieved = new Set(history?.achievedPeriods ?? []);
+    let best = history?.best ?? null;
+    let lastNotifiedPeriod = history?.lastNotifiedPeriod ?? null;
+    let achievedNow = false;
+
+    periods.forEach(({ period, value, isCurrent }) => {
+      const isAchieved = value >= goal.target;
+
+      if (isAchieved) {
+        achieved.add(period);
+      } else if (isCurrent) {
+        // Still in progress, so re-checked against the target as it is now.
+        // Finished periods keep the result they were recorded with.
+        achieved.delete(period);
+      }
+
+      if (value > 0 && (!best || value > best.value)) {
+        best = { value, period };
+      }
+
+      if (isCurrent && isAchieved && lastNotifiedPeriod !== period) {
+        lastNotifiedPeriod = period;
+        achievedNow = true;
+      }
+    });
+
+    return {
+      history: {
+        goalId: goal.id,
+        achievedPeriods: [...achieved].sort().slice(-MAX_ACHIEVED_PERIODS),
+        best,
+        lastNotifiedPeriod,
+      },
+      achievedNow,
+    };
+  }
+
+  /**
+   * Progress, current streak and bests for a goal. A streak still counts when
+   * the period in progress hasn't reached the target yet.
+   */
+  static getProgress(
+    goal: HealthGoal,
+    history: HealthGoalHistory | undefined,
+    periods: GoalPeriodValue[],
+    now = new Date()
+  ): HealthGoalProgress {
+    const achievedPeriods = history?.achievedPeriods ?? [];
+    const achieved = new Set(achievedPeriods);
+    const currentKey = HealthGoalTracker.periodKey(goal.period, now);
+    const isAchieved = achieved.has(currentKey);
+
+    let streak = 0;
+    let key = isAchieved ? currentKey : HealthGoalTracker.shiftPeriod(goal.period, currentKey, -1);
+    while (achieved.has(key)) {
+      streak += 1;
+      key = HealthGoalTracker.shiftPeriod(goal.period, key, -1);
+    }
+
+    let bestStreak = 0;
+    let run = 0;
+    achievedPeriods.forEach((period, index) => {
+      const previous = achievedPeriods[index - 1];
+      run =
+        index > 0 && HealthGoalTracker.shiftPeriod(goal.period, previous, 1) === period
+          ? run + 1
+          : 1;
+      bestStreak = Math.max(bestStreak, run);
+    });
+
+    return {
+      goalId: goal.id,
+      current: periods.find(period => period.isCurrent)?.value ?? 0,
+      isAchieved,
+      streak,
+      bestStreak: Math.max(bestStreak, streak),
+      personalBest: history?.best ?? null,
+    };
+  }
+
+  /**
+   * Step target for a dashboard period: the matching active goal, otherwise
+   * the daily goal scaled to the period
+   */
+  static getStepTarget(goals: HealthGoal[], filter: PeriodFilter): number {
+    const stepGoals = goals.filter(goal => goal.isActive && goal.type === HealthDataType.STEPS);
+    const matching = stepGoals.find(goal => goal.period === FILTER_PERIODS[filter]);
+    if (matching) {
+      return matching.target;
+    }
+
+    const daily = stepGoals.find(goal => goal.period === 'daily');
+    return (daily?.target ?? DEFAULT_DAILY_STEPS_GOAL) * FILTER_DAYS[filter];
+  }
+}
+
+export default HealthGoalTracker;
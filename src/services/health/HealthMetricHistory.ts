@@ -0,0 +1,359 @@
+/**
+ * Health Metric History
+ *
+ * Groups sleep, blood pressure, blood oxygen, weight and glucose readings into
+ * the buckets of a metric detail view, so HealthKit and Health Connect data
+ * chart the same way. Reading the samples is left to `useHealthMetricHistory`.
+ */
+
+import type { RecordType } from 'react-native-health-connect';
+
+import { COLORS } from '../../constants';
+import { HKCategoryType, HKQuantityType } from '../../constants/healthKitTypes';
+import type { HealthMetricPoint, HealthMetricSample, HealthMetricView } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+import { HealthDataNormalizer } from './HealthDataNormalizer';
+
+export interface HealthMetricDetail {
+  title: string;
+  unit: string;
+  icon: string; // Ionicons name
+  color: string;
+  decimals: number;
+  // Sleep adds up each night and averages the nights; the rest average readings
+  aggregation: 'nightly' | 'average';
+  // Chart floor and ceiling, widened when readings fall outside them
+  chartRange: [number, number];
+  healthKit: string[];
+  healthConnect: RecordType;
+}
+
+export const HEALTH_METRIC_DETAILS: Partial<Record<HealthDataType, HealthMetricDetail>> = {
+  [HealthDataType.SLEEP]: {
+    title: 'Sleep',
+    unit: 'h',
+    icon: 'moon',
+    color: COLORS.HEALTH_PURPLE,
+    decimals: 1,
+    aggregation: 'nightly',
+    chartRange: [0, 10],
+    healthKit: [HKCategoryType.sleepAnalysis],
+    healthConnect: 'SleepSession',
+  },
+  [HealthDataType.BLOOD_PRESSURE]: {
+    title: 'Blood Pressure',
+    unit: 'mmHg',
+    icon: 'pulse',
+    color: COLORS.HEALTH_ORANGE,
+    decimals: 0,
+    aggregation: 'average',
+    chartRange: [60, 160],
+    healthKit: [HKQuantityType.bloodPressureSystolic, HKQuantityType.bloodPressureDiastolic],
+    healthConnect: 'BloodPressure',
+  },
+  [HealthDataType.OXYGEN_SATURATION]: {
+    title: 'Blood Oxygen',
+    unit: '%',
+    icon: 'water',
+    color: COLORS.HEALTH_BLUE,
+    decimals: 0,
+    aggregation: 'average',
+    chartRange: [90, 100],
+    healthKit: [HKQuantityType.oxygenSaturation],
+    healthConnect: 'OxygenSaturation',
+  },
+  [HealthDataType.WEIGHT]: {
+    title: 'Weight',
+    unit: 'kg',
+    icon: 'body',
+    color: COLORS.HEALTH_PURPLE,
+    decimals: 1,
+    aggregation: 'average',
+    chartRange: [50, 100],
+    healthKit: [HKQuantityType.bodyMass],
+    healthConnect: 'Weight',
+  },
+  [HealthDataType.BLOOD_GLUCOSE]: {
+    title: 'Blood Glucose',
+    unit: 'mg/dL',
+    icon: 'flask',
+    color: COLORS.HEALTH_PINK,
+    decimals: 0,
+    aggregation: 'average',
+    chartRange: [70, 180],
+    healthKit: [HKQuantityType.bloodGlucose],
+    healthConnect: 'BloodGlucose',
+  },
+};
+
+// Order of the metric cards on the dashboards
+export const DETAIL_METRICS: HealthDataType[] = [
+  HealthDataType.SLEEP,
+  HealthDataType.BLOOD_PRESSURE,
+  HealthDataType.OXYGEN_SATURATION,
+  HealthDataType.WEIGHT,
+  HealthDataType.BLOOD_GLUCOSE,
+];
+
+// The day view groups today into eight three-hour buckets
+const DAY_BUCKET_HOURS = 3;
+
+export interface HealthMetricBucket {
+  startDate: Date;
+  endDate: Date;
+  label: string;
+  isCurrent: boolean;
+  isFuture: boolean;
+}
+
+export interface HealthMetricSummary {
+  average: number;
+  secondaryAverage: number | null;
+  min: number;
+  max: number;
+}
+
+const endOf = (next: Date) => new Date(next.getTime() - 1);
+
+const hourLabel = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'a' : 'p'}`;
+
+const nightKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Sleep segments closer together than this belong to the same night
+const SLEEP_SESSION_GAP_MS = 2 * 60 * 60 * 1000;
+
+interface SleepSession {
+  endDate: Date;
+  value: number;
+  sampleCount: number;
+}
+
+/**
+ * Stage segments (and the same night recorded by several sources) joined into
+ * sessions. Time another segment already covered is counted once.
+ */
+const toSleepSessions = (samples: HealthMetricSample[]): SleepSession[] => {
+  const sessions: SleepSession[] = [];
+  let coveredUntil = 0;
+
+  [...samples]
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+    .forEach(sample => {
+      const start = sample.startDate.getTime();
+      const end = sample.endDate.getTime();
+
+      if (sessions.length === 0 || start > coveredUntil + SLEEP_SESSION_GAP_MS) {
+        sessions.push({ endDate: sample.endDate, value: sample.value, sampleCount: 1 });
+        coveredUntil = end;
+        return;
+      }
+
+      const current = sessions[sessions.length - 1];
+      const duration = end - start;
+      const overlap = Math.max(0, Math.min(end, coveredUntil) - start);
+      current.value += duration > 0 ? (sample.value * (duration - overlap)) / duration : 0;
+      current.sampleCount += 1;
+      if (end > coveredUntil) {
+        coveredUntil = end;
+        current.endDate = sample.endDate;
+      }
+    });
+
+  return sessions;
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export class HealthMetricHistory {
+  /**
+   * Buckets of a view around `now`: hours of today, days of this week (from
+   * Monday), weeks of this month (1-7, 8-14, ...), or months of this year
+   */
+  static getBuckets(view: HealthMetricView, now = new Date()): HealthMetricBucket[] {
+    const ranges: { start: Date; next: Date; label: string }[] = [];
+    const year = now.getFullYear();
+    const month = now.getMonth();
+
+    switch (view) {
+      case 'day':
+        for (let hour = 0; hour < 24; hour += DAY_BUCKET_HOURS) {
+          ranges.push({
+            start: new Date(year, month, now.getDate(), hour),
+            next: new Date(year, month, now.getDate(), hour + DAY_BUCKET_HOURS),
+            label: hourLabel(hour),
+          });
+        }
+        break;
+      case 'week': {
+        const dayOfWeek = now.getDay();
+        const monday = now.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek);
+        for (let day = 0; day < 7; day++) {
+          const start = new Date(year, month, monday + day);
+          ranges.push({
+            start,
+            next: new Date(year, month, monday + day + 1),
+            label: start.toLocaleDateString('en-US', { weekday: 'short' }),
+          });
+        }
+        break;
+      }
+      case 'month': {
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+        for (let day = 1; day <= daysInMonth; day += 7) {
+          ranges.push({
+            start: new Date(year, month, day),
+            next: new Date(year, month, Math.min(day + 7, daysInMonth + 1)),
+            label: `W${Math.ceil(day / 7)}`,
+          });
+        }
+        break;
+      }
+      case 'year':
+        for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
+          const start = new Date(year, monthIndex, 1);
+          ranges.push({
+            start,
+            next: new Date(year, monthIndex + 1, 1),
+            label: start.toLocaleDateString('en-US', { month: 'short' }),
+          });
+        }
+        break;
+    }
+
+    return ranges.map(({ start, next, label }) => ({
+      startDate: start,
+      endDate: endOf(next),
+      label,
+      isCurrent: now >= start && now < next,
+      isFuture: start > now,
+    }));
+  }
+
+  /**
+   * Readings several sources took of the same moment (or, for sleep, the same
+   * time asleep) reduced to the one from the source the user trusts most, as
+   * on the dashboard
+   */
+  static mergeSources(
+    metric: HealthDataType,
+    samples: HealthMetricSample[],
+    priority?: string[]
+  ): HealthMetricSample[] {
+    const merged = HealthDataNormalizer.mergeSources(
+      samples.map((sample, index) => ({
+        id: String(index),
+        type: metric,
+        value: sample.value,
+        unit: HEALTH_METRIC_DETAILS[metric]?.unit ?? '',
+        timestamp: sample.startDate,
+        source: sample.source ?? 'phone',
+        deviceId: sample.deviceId,
+        metadata: { endTime: sample.endDate.getTime() },
+      })),
+      metric,
+      priority
+    );
+
+    return merged.map(reading => ({ ...samples[Number(reading.id)], value: reading.value }));
+  }
+
+  /**
+   * Readings grouped into buckets. Sleep counts toward the night it ends on,
+   * judged by when the whole session ends rather than each stage; other
+   * readings toward when they were taken.
+   */
+  static aggregate(
+    metric: HealthDataType,
+    buckets: HealthMetricBucket[],
+    samples: HealthMetricSample[]
+  ): HealthMetricPoint[] {
+    const isNightly = HEALTH_METRIC_DETAILS[metric]?.aggregation === 'nightly';
+    const sessions = isNightly ? toSleepSessions(samples) : [];
+
+    return buckets.map(bucket => {
+      const inBucket = bucket.isFuture
+        ? []
+        : samples.filter(sample => {
+            const at = isNightly ? sample.endDate : sample.startDate;
+            return at >= bucket.startDate && at <= bucket.endDate;
+          });
+
+      let values = inBucket.map(sample => sample.value);
+      let sampleCount = inBucket.length;
+      if (isNightly) {
+        const nightsInBucket = bucket.isFuture
+          ? []
+          : sessions.filter(
+              session => session.endDate >= bucket.startDate && session.endDate <= bucket.endDate
+            );
+        const nights = new Map<string, number>();
+        nightsInBucket.forEach(session => {
+          const key = nightKey(session.endDate);
+          nights.set(key, (nights.get(key) ?? 0) + session.value);
+        });
+        values = [...nights.values()];
+        sampleCount = nightsInBucket.reduce((count, session) => count + session.sampleCount, 0);
+      }
+
+      const secondaryValues = inBucket
+        .map(sample => sample.secondaryValue)
+        .filter((value): value is number => value !== undefined);
+
+      return {
+        startDate: bucket.startDate,
+        endDate: bucket.endDate,
+        label: bucket.label,
+        isCurrent: bucket.isCurrent,
+        isFuture: bucket.isFuture,
+        value: average(values),
+        secondaryValue: average(secondaryValues),
+        min: values.length > 0 ? Math.min(...values) : null,
+        max: values.length > 0 ? Math.max(...values) : null,
+        sampleCount,
+      };
+    });
+  }
+
+  /**
+   * Average and range across the buckets that have readings, or null when
+   * none do
+   */
+  static summarize(points: HealthMetricPoint[]): HealthMetricSummary | null {
+    const withData = points.filter(point => point.value !== null);
+    if (withData.length === 0) return null;
+
+    return {
+      average: average(withData.map(point => point.value ?? 0)) ?? 0,
+      secondaryAverage: average(
+        withData
+          .map(point => point.secondaryValue)
+          .filter((value): value is number => value !== null)
+      ),
+      min: Math.min(...withData.map(point => point.min ?? Infinity)),
+      max: Math.max(...withData.map(point => point.max ?? -Infinity)),
+    };
+  }
+
+  /**
+   * Chart floor and ceiling: the metric's usual range, widened to fit every
+   * bucket average
+   */
+  static getChartRange(
+    metric: HealthDataType,
+    points: HealthMetricPoint[]
+  ): { minValue: number; maxValue: number } {
+    const [floor, ceiling] = HEALTH_METRIC_DETAILS[metric]?.chartRange ?? [0, 100];
+    const values = points.flatMap(point =>
+      [point.value, point.secondaryValue].filter((value): value is number => value !== null)
+    );
+
+    return {
+      minValue: Math.min(floor, ...values),
+      maxValue: Math.max(ceiling, ...values),
+    };
+  }
+}
+
+export default HealthMetricHistory;
@@ -5,7 +5,9 @@ import { HealthDataType } from '../../types/health';
 import { isExpoGo } from '../../utils/nativeModuleChecker';
 import { apiService } from '../api';
 
+import { HealthDataCrypto } from './HealthDataCrypto';
 import { HealthDataService } from './HealthDataService';
+import { HealthUploadQueue } from './HealthUploadQueue';
 
 // Platform-specific storage import with Expo Go safety check
 let EncryptedStorage: any = null;
@@ -21,6 +23,16 @@ if (Platform.OS !== 'web' && !isExpoGo()) {
   console.log('🔐 Encrypted Storage unavailable in Expo Go - using fallback storage');
 }
 
+// EncryptedStorage can't list its keys, so backups are tracked in an index entry
+const BACKUP_INDEX_KEY = 'health_backup_index';
+const BACKUP_KEY_PREFIX = 'health_backup_';
+const LAST_SYNC_KEY = 'last_health_sync';
+
+// Defined in HealthBackgroundSync, registered with the OS by scheduleBackgroundSync
+export const HEALTH_BACKGROUND_SYNC_TASK = 'hopmed-health-background-sync';
+// Minutes; the OS treats this as a lower bound and batches wakeups as it sees fit
+const BACKGROUND_SYNC_INTERVAL = 60;
+
 interface HealthSyncData {
   metrics: HealthMetric[];
   userId: string;
@@ -32,7 +44,8 @@ interface HealthSyncData {
 export class HealthSyncService {
   private static instance: HealthSyncService;
   private syncInProgress = false;
-  private pendingUploads: HealthMetric[] = [];
+  private uploadQueue = HealthUploadQueue.getInstance();
+  private crypto = HealthDataCrypto.getInstance();
   private syncErrors: HealthSyncError[] = [];
   private lastSyncTime: Date | null = null;
 
@@ -62,9 +75,9 @@ export class HealthSyncService {
         throw new Error('Health service not available');
       }
 
-      // Determine sync timeframe
+      // Determine sync timeframe (incremental from the last successful sync)
       const endDate = new Date();
-      const startDate = this.getLastSyncDate();
+      const startDate = await this.getLastSyncDate();
 
       // Collect health data from all supported types
       const allHealthData: HealthMetric[] = [];
@@ -75,6 +88,7 @@ export class HealthSyncService {
         HealthDataType.BLOOD_PRESSURE,
         HealthDataType.OXYGEN_SATURATION,
         HealthDataType.BODY_TEMPERATURE,
+        HealthDataType.BLOOD_GLUCOSE,
         HealthDataType.SLEEP,
       ];
 
@@ -96,12 +110,12 @@ export class HealthSyncService {
       const dataResults = await Promise.all(dataPromises);
       dataResults.forEach(data => allHealthData.push(...data));
 
-      // Add any pending uploads
-      allHealthData.push(...this.pendingUploads);
+      await this.uploadQueue.load();
 
-      if (allHealthData.length === 0) {
+      if (allHealthData.length === 0 && this.uploadQueue.getPendingCount(userId) === 0) {
         console.log('No health data to sync');
-        this.lastSyncTime = new Date();
+        this.lastSyncTime = endDate;
+        await this.updateLastSyncTime(endDate);
         this.syncInProgress = false;
         return true;
       }
@@ -116,21 +130,21 @@ export class HealthSyncService {
       };
 
       // Store locally first (as backup)
-      await this.storeHealthDataLocally(syncData);
+      if (allHealthData.length > 0) {
+        await this.storeHealthDataLocally(syncData);
+      }
 
-      // Upload to server
-      const uploadSuccess = await this.uploadHealthData(syncData);
+      // Queue durably before uploading so nothing is lost if the app is killed offline
+      await this.uploadQueue.enqueue(userId, allHealthData);
+      const uploadSuccess = await this.uploadQueue.flush(userId, { force: forceSync });
 
       if (uploadSuccess) {
-        // Clear pending uploads on successful sync
-        this.pendingUploads = [];
-        this.lastSyncTime = new Date();
-        await this.updateLastSyncTime(this.lastSyncTime);
+        // Readings that landed after endDate are picked up by the next window
+        this.lastSyncTime = endDate;
+        await this.updateLastSyncTime(endDate);
         console.log(`Successfully synced ${allHealthData.length} health metrics`);
       } else {
-        // Add failed metrics to pending uploads
-        this.pendingUploads.push(...allHealthData);
-        console.error('Failed to upload health data, added to pending queue');
+        console.error('Failed to upload health data, readings kept in upload queue');
       }
 
       this.syncInProgress = false;
@@ -143,30 +157,30 @@ export class HealthSyncService {
     }
   }
 
-  private async uploadHealthData(syncData: HealthSyncData): Promise<boolean> {
-    try {
-      const response = await apiService.post('/health/sync', {
-        data: syncData,
-        checksum: this.calculateChecksum(syncData),
-      });
-
-      return response.success;
-    } catch (error) {
-      console.error('Failed to upload health data:', error);
-      return false;
-    }
+  /**
+   * Queue a reading the patient logged by hand and start uploading it without
+   * waiting for the upload. A copy saved to HealthKit or Health Connect is
+   * read back by a later sync with the same record key, so it is neither
+   * queued nor stored twice.
+   */
+  async queueManualEntry(userId: string, metric: HealthMetric): Promise<void> {
+    await this.uploadQueue.load();
+    await this.uploadQueue.enqueue(userId, [metric]);
+    this.uploadQueue.flush(userId);
   }
 
   private async storeHealthDataLocally(syncData: HealthSyncData): Promise<void> {
     try {
-      const encryptedData = JSON.stringify(syncData);
-      const storageKey = `health_backup_${syncData.timestamp.getTime()}`;
+      const storageKey = `${BACKUP_KEY_PREFIX}${syncData.timestamp.getTime()}`;
+      const encryptedData = await this.crypto.encryptJSON(syncData, storageKey);
 
       if (Platform.OS === 'web') {
         // Use localStorage for web
         localStorage.setItem(storageKey, encryptedData);
       } else if (EncryptedStorage) {
         await EncryptedStorage.setItem(storageKey, encryptedData);
+        const backupKeys = await this.getBackupKeys();
+        await this.saveBackupIndex([...backupKeys, storageKey]);
       }
 
       // Clean up old backups (keep only last 7 days)
@@ -178,51 +192,67 @@ export class HealthSyncService {
 
   private async cleanupOldBackups(): Promise<void> {
     try {
-      let keys: string[] = [];
-
-      if (Platform.OS === 'web') {
-        // Get localStorage keys
-        keys = Object.keys(localStorage);
-      } else if (EncryptedStorage) {
-        keys = Object.keys({}); // EncryptedStorage.getAllKeys doesn't exist, use fallback
-      }
-
-      const healthBackupKeys = keys.filter((key: string) => key.startsWith('health_backup_'));
+      const healthBackupKeys = await this.getBackupKeys();
 
       const cutoffTime = Date.now() - 7 * 24 * 60 * 60 * 1000; // 7 days ago
+      const expiredKeys = healthBackupKeys.filter(
+        key => parseInt(key.replace(BACKUP_KEY_PREFIX, ''), 10) < cutoffTime
+      );
 
-      for (const key of healthBackupKeys) {
-        const timestamp = parseInt(key.replace('health_backup_', ''));
-        if (timestamp < cutoffTime) {
-          if (Platform.OS === 'web') {
-            localStorage.removeItem(key);
-          } else if (EncryptedStorage) {
-            await EncryptedStorage.removeItem(key);
-          }
+      for (const key of expiredKeys) {
+        if (Platform.OS === 'web') {
+          localStorage.removeItem(key);
+        } else if (EncryptedStorage) {
+          await EncryptedStorage.removeItem(key);
         }
       }
+
+      if (Platform.OS !== 'web' && EncryptedStorage && expiredKeys.length > 0) {
+        await this.saveBackupIndex(healthBackupKeys.filter(key => !expiredKeys.includes(key)));
+      }
     } catch (error) {
       console.error('Failed to cleanup old backups:', error);
     }
   }
 
-  private calculateChecksum(data: HealthSyncData): string {
-    // Simple checksum for data integrity verification
-    const dataString = JSON.stringify(data.metrics);
-    let hash = 0;
-    for (let i = 0; i < dataString.length; i++) {
-      const char = dataString.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private async getBackupKeys(): Promise<string[]> {
+    if (Platform.OS === 'web') {
+      return Object.keys(localStorage).filter(key => key.startsWith(BACKUP_KEY_PREFIX));
     }
-    return hash.toString();
+    if (!EncryptedStorage) {
+      return [];
+    }
+
+    const index = await EncryptedStorage.getItem(BACKUP_INDEX_KEY);
+    return index ? JSON.parse(index) : [];
   }
 
-  private getLastSyncDate(): Date {
+  private async saveBackupIndex(keys: string[]): Promise<void> {
+    await EncryptedStorage.setItem(BACKUP_INDEX_KEY, JSON.stringify(keys));
+  }
+
+  private async getLastSyncDate(): Promise<Date> {
     if (this.lastSyncTime) {
       return this.lastSyncTime;
     }
 
+    // Background runs start in a fresh JS context, so fall back to the persisted value
+    try {
+      let stored: string | null = null;
+      if (Platform.OS === 'web') {
+        stored = localStorage.getItem(LAST_SYNC_KEY);
+      } else if (EncryptedStorage) {
+        stored = await EncryptedStorage.getItem(LAST_SYNC_KEY);
+      }
+
+      if (stored) {
+        this.lastSyncTime = new Date(stored);
+        return this.lastSyncTime;
+      }
+    } catch (error) {
+      console.error('Failed to read last sync time:', error);
+    }
+
     // Default to last 7 days for first sync
     return new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
   }
@@ -230,9 +260,9 @@ export class HealthSyncService {
   private async updateLastSyncTime(date: Date): Promise<void> {
     try {
       if (Platform.OS === 'web') {
-        localStorage.setItem('last_health_sync', date.toISOString());
+        localStorage.setItem(LAST_SYNC_KEY, date.toISOString());
       } else if (EncryptedStorage) {
-        await EncryptedStorage.setItem('last_health_sync', date.toISOString());
+        await EncryptedStorage.setItem(LAST_SYNC_KEY, date.toISOString());
       }
     } catch (error) {
       console.error('Failed to update last sync time:', error);
@@ -285,7 +315,7 @@ export class HealthSyncService {
     return {
       lastSync: this.lastSyncTime,
       isOnline: await this.checkConnectivity(),
-      pendingUploads: this.pendingUploads.length,
+      pendingUploads: this.uploadQueue.getPendingCount(),
       errors: [...this.syncErrors],
     };
   }
@@ -301,16 +331,18 @@ export class HealthSyncService {
   }
 
   async retryFailedUploads(userId: string): Promise<boolean> {
-    if (this.pendingUploads.length === 0) {
+    await this.uploadQueue.load();
+    const pendingCount = this.uploadQueue.getPendingCount(userId);
+    if (pendingCount === 0) {
       return true;
     }
 
-    console.log(`Retrying ${this.pendingUploads.length} failed uploads...`);
-    return await this.syncHealthData(userId, true);
+    console.log(`Retrying ${pendingCount} failed uploads...`);
+    return await this.uploadQueue.flush(userId, { force: true });
   }
 
   async clearPendingUploads(): Promise<void> {
-    this.pendingUploads = [];
+    await this.uploadQueue.clear();
     console.log('Cleared pending health data uploads');
   }
 
@@ -325,6 +357,7 @@ export class HealthSyncService {
       HealthDataType.BLOOD_PRESSURE,
       HealthDataType.OXYGEN_SATURATION,
       HealthDataType.BODY_TEMPERATURE,
+      HealthDataType.BLOOD_GLUCOSE,
       HealthDataType.SLEEP,
     ];
 
@@ -343,23 +376,58 @@ export class HealthSyncService {
     return allData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
-  async scheduleBackgroundSync(): Promise<void> {
-    // This would integrate with background task scheduling
-    // Implementation depends on the background task library used
-    console.log('Background sync scheduling not yet implemented');
+  /**
+   * Register the OS background task that keeps health data syncing while the
+   * app is closed. Returns false when background execution isn't available.
+   */
+  async scheduleBackgroundSync(minimumInterval = BACKGROUND_SYNC_INTERVAL): Promise<boolean> {
+    if (Platform.OS === 'web' || isExpoGo()) {
+      console.log('📋 Background health sync not supported in this environment');
+      return false;
+    }
+
+    try {
+      // Loaded here so importing the service doesn't need the native task modules
+      const BackgroundTask = await import('expo-background-task');
+      const TaskManager = await import('expo-task-manager');
+
+      const status = await BackgroundTask.getStatusAsync();
+      if (status === BackgroundTask.BackgroundTaskStatus.Restricted) {
+        console.warn(
+          '⚠️ Background tasks are restricted, health data will sync in the foreground only'
+        );
+        return false;
+      }
+
+      if (await TaskManager.isTaskRegisteredAsync(HEALTH_BACKGROUND_SYNC_TASK)) {
+        return true;
+      }
+
+      await BackgroundTask.registerTaskAsync(HEALTH_BACKGROUND_SYNC_TASK, { minimumInterval });
+      console.log(`✅ Background health sync registered (every ${minimumInterval}+ minutes)`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to register background health sync:', error);
+      return false;
+    }
   }
 
-  async loadCachedHealthData(): Promise<HealthMetric[]> {
+  async cancelBackgroundSync(): Promise<void> {
     try {
-      let keys: string[] = [];
+      const BackgroundTask = await import('expo-background-task');
+      const TaskManager = await import('expo-task-manager');
 
-      if (Platform.OS === 'web') {
-        keys = Object.keys(localStorage);
-      } else {
-        keys = []; // Skip cached data loading for non-web platforms without proper EncryptedStorage methods
+      if (await TaskManager.isTaskRegisteredAsync(HEALTH_BACKGROUND_SYNC_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(HEALTH_BACKGROUND_SYNC_TASK);
       }
+    } catch (error) {
+      console.error('❌ Failed to cancel background health sync:', error);
+    }
+  }
 
-      const healthBackupKeys = keys.filter((key: string) => key.startsWith('health_backup_'));
+  async loadCachedHealthData(): Promise<HealthMetric[]> {
+    try {
+      const healthBackupKeys = await this.getBackupKeys();
 
       if (healthBackupKeys.length === 0) {
         return [];
@@ -379,8 +447,12 @@ export class HealthSyncService {
       }
 
       if (encryptedData) {
-        const syncData: HealthSyncData = JSON.parse(encryptedData);
-        return syncData.metrics;
+        const syncData = await this.crypto.decryptJSON<HealthSyncData>(encryptedData, latestKey);
+        // Dates come back from JSON as strings
+        return syncData.metrics.map(metric => ({
+          ...metric,
+          timestamp: new Date(metric.timestamp),
+        }));
       }
 
       return [];
@@ -0,0 +1,443 @@
+/**
+ * Health Upload Queue
+ *
+ * Durable outbox for health readings waiting to reach the backend. Readings are
+ * persisted before any network call, deduplicated by an idempotency key derived
+ * from the reading, uploaded in size-bounded batches to the batch endpoint
+ * through the `batchUploadHealthData` mutation, and retried with exponential backoff.
+ * The persisted queue is encrypted with HealthDataCrypto.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AppStateStatus, NativeEventSubscription } from 'react-native';
+import { AppState } from 'react-native';
+
+import { STORAGE_KEYS } from '../../constants';
+import type { store as AppStore } from '../../store';
+import { healthApi } from '../../store/api/healthApi';
+import type { HealthMetric, HealthUploadQueueStatus, QueuedHealthRecord } from '../../types/health';
+import { HealthServiceError } from '../../utils/error';
+import { sentryTracker } from '../../utils/sentryErrorTracker';
+import NetworkMonitorService from '../networkMonitorService';
+
+import { HealthDataCrypto } from './HealthDataCrypto';
+
+interface PersistedQueue {
+  records: QueuedHealthRecord[];
+  failedAttempts: number;
+  nextAttemptAt: number | null;
+}
+
+type StatusListener = (status: HealthUploadQueueStatus) => void;
+
+const MAX_BATCH_RECORDS = 200;
+const MAX_BATCH_BYTES = 256 * 1024;
+// Oldest readings are dropped past this point; they are still in the platform
+// store and are read again because the sync window only advances after upload
+const MAX_QUEUED_RECORDS = 5000;
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+
+// The batch endpoint reports readings it skipped alongside `success`
+const getErrorStatus = (error: any): number | string | undefined =>
+  error?.status ?? error?.response?.status;
+
+const getErrorMessage = (error: any): string =>
+  error?.response?.data?.message ||
+  error?.data?.message ||
+  error?.message ||
+  error?.error ||
+  'Upload failed';
+
+export class HealthUploadQueue {
+  private static instance: HealthUploadQueue;
+  private records: QueuedHealthRecord[] = [];
+  private failedAttempts = 0;
+  private nextAttemptAt: number | null = null;
+  private lastError: string | null = null;
+  private lastUploadAt: number | null = null;
+  private rejected = 0;
+  private isUploading = false;
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<boolean> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<StatusListener>();
+  private status: HealthUploadQueueStatus = this.buildStatus();
+
+  static getInstance(): HealthUploadQueue {
+    if (!HealthUploadQueue.instance) {
+      HealthUploadQueue.instance = new HealthUploadQueue();
+    }
+    return HealthUploadQueue.instance;
+  }
+
+  /**
+   * Stable key for a reading, so the same sample read twice is only queued
+   * (and stored by the backend) once. The device is left out: a reading the
+   * app wrote to the health store comes back with a device id its in-app copy
+   * never had.
+   */
+  static createRecordKey(metric: HealthMetric): string {
+    return [
+      metric.type,
+      new Date(metric.timestamp).toISOString(),
+      metric.value,
+      metric.source,
+    ].join('|');
+  }
+
+  /**
+   * Retry uploads for the signed-in user when the device reconnects or the
+   * app returns to the foreground. Returns a function that stops listening.
+   */
+  start(userId: string): () => void {
+    let wasConnected = NetworkMonitorService.isConnected();
+
+    const unsubscribeNetwork = NetworkMonitorService.addListener(state => {
+      const reconnected = state.isConnected && !wasConnected;
+      wasConnected = state.isConnected;
+
+      if (reconnected) {
+        console.log('📶 Back online, flushing health upload queue');
+        this.flush(userId, { force: true });
+      }
+    });
+
+    const appStateSubscription: NativeEventSubscription = AppState.addEventListener(
+      'change',
+      (nextAppState: AppStateStatus) => {
+        if (nextAppState === 'active') {
+          this.flush(userId);
+        }
+      }
+    );
+
+    this.flush(userId);
+
+    return () => {
+      unsubscribeNetwork();
+      appStateSubscription.remove();
+      this.clearRetryTimer();
+    };
+  }
+
+  /**
+   * Persist readings for upload. Returns how many were new to the queue.
+   */
+  async enqueue(userId: string, metrics: HealthMetric[]): Promise<number> {
+    await this.load();
+
+    const queuedKeys = new Set(this.records.map(record => `${record.userId}:${record.key}`));
+    const now = Date.now();
+    let added = 0;
+
+    for (const metric of metrics) {
+      const key = HealthUploadQueue.createRecordKey(metric);
+      if (queuedKeys.has(`${userId}:${key}`)) continue;
+      queuedKeys.add(`${userId}:${key}`);
+
+      this.records.push({
+        key,
+        userId,
+        dataType: metric.type,
+        value: metric.value,
+        unit: metric.unit,
+        timestamp: new Date(metric.timestamp).toISOString(),
+        source: metric.source,
+        metadata: metric.metadata,
+        queuedAt: now,
+      });
+      added++;
+    }
+
+    if (added === 0) return 0;
+
+    if (this.records.length > MAX_QUEUED_RECORDS) {
+      const dropped = this.records.length - MAX_QUEUED_RECORDS;
+      this.records = this.records.slice(dropped);
+      console.warn(`⚠️ Health upload queue full, dropped ${dropped} oldest readings`);
+    }
+
+    await this.persist();
+    this.notify();
+    return added;
+  }
+
+  /**
+   * Upload everything queued for the user. Resolves true once the user's
+   * queue is empty. Respects the backoff window unless forced.
+   */
+  flush(userId: string, options: { force?: boolean } = {}): Promise<boolean> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.drain(userId, options.force ?? false).finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  getStatus(): HealthUploadQueueStatus {
+    return this.status;
+  }
+
+  getPendingCount(userId?: string): number {
+    if (!userId) return this.records.length;
+    return this.records.filter(record => record.userId === userId).length;
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.records = [];
+    this.resetBackoff();
+    this.clearRetryTimer();
+    await this.persist();
+    this.notify();
+  }
+
+  async load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.restore();
+    }
+    return this.loadPromise;
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.HEALTH_UPLOAD_QUEUE);
+      if (stored) {
+        const persisted = await HealthDataCrypto.getInstance().decryptJSON<PersistedQueue>(
+          stored,
+          STORAGE_KEYS.HEALTH_UPLOAD_QUEUE
+        );
+        // Anything enqueued before the restore finished goes after the stored readings
+        this.records = [...persisted.records, ...this.records];
+        this.failedAttempts = persisted.failedAttempts;
+        this.nextAttemptAt = persisted.nextAttemptAt;
+        console.log(`📦 Restored ${this.records.length} queued health readings`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to restore health upload queue:', error);
+    }
+    this.notify();
+  }
+
+  private async drain(userId: string, force: boolean): Promise<boolean> {
+    await this.load();
+
+    if (!force && this.nextAttemptAt && this.nextAttemptAt > Date.now()) {
+      return false;
+    }
+    this.clearRetryTimer();
+
+    while (this.getPendingCount(userId) > 0) {
+      const batch = this.takeBatch(userId);
+
+      this.isUploading = true;
+      this.notify();
+
+      try {
+        // Stamp the batch before sending so a retry after a crash reuses the same key
+        await this.persist();
+        await this.uploadBatch(userId, batch);
+
+        this.removeRecords(batch);
+        this.resetBackoff();
+        this.lastUploadAt = Date.now();
+        await this.persist();
+        console.log(`✅ Uploaded ${batch.length} health readings`);
+      } catch (error: any) {
+        if (this.isRejected(error)) {
+          // The backend will never accept this batch, so retrying would block everything behind it
+          this.removeRecords(batch);
+          this.rejected += batch.length;
+          await this.persist();
+          sentryTracker.trackServiceError(error instanceof Error ? error : getErrorMessage(error), {
+            service: 'healthUploadQueue',
+            action: 'uploadBatch',
+            additional: { status: getErrorStatus(error), records: batch.length },
+          });
+          continue;
+        }
+
+        this.failedAttempts++;
+        this.lastError = getErrorMessage(error);
+        this.nextAttemptAt = Date.now() + this.getRetryDelay();
+        await this.persist();
+        this.scheduleRetry(userId);
+        console.warn(
+          `⚠️ Health upload failed (attempt ${this.failedAttempts}), retrying at ${new Date(
+            this.nextAttemptAt
+          ).toISOString()}`
+        );
+        return false;
+      } finally {
+        this.isUploading = false;
+        this.notify();
+      }
+    }
+
+    return true;
+  }
+
+  private takeBatch(userId: string): QueuedHealthRecord[] {
+    const userRecords = this.records.filter(record => record.userId === userId);
+
+    // Finish a batch that was already sent before starting a new one
+    const pendingBatchId = userRecords.find(record => record.batchId)?.batchId;
+    if (pendingBatchId) {
+      return userRecords.filter(record => record.batchId === pendingBatchId);
+    }
+
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const batch: QueuedHealthRecord[] = [];
+    let bytes = 0;
+
+    for (const record of userRecords) {
+      const size = JSON.stringify(record).length;
+      if (
+        batch.length > 0 &&
+        (batch.length >= MAX_BATCH_RECORDS || bytes + size > MAX_BATCH_BYTES)
+      ) {
+        break;
+      }
+      record.batchId = batchId;
+      batch.push(record);
+      bytes += size;
+    }
+
+    return batch;
+  }
+
+  private async uploadBatch(userId: string, batch: QueuedHealthRecord[]): Promise<void> {
+    const data = batch.map(record => ({
+      dataType: record.dataType,
+      value: record.value,
+      timestamp: record.timestamp,
+      metadata: { ...record.metadata, unit: record.unit, source: record.source },
+      idempotencyKey: record.key,
+    }));
+    // Digest of the exact body the endpoint serialises
+    const digest = await HealthDataCrypto.getInstance().sha256(JSON.stringify({ data }));
+
+    // Loaded here rather than at the top: the store's health slice imports this queue
+    const { store } = require('../../store') as { store: typeof AppStore };
+    const request = store.dispatch(
+      healthApi.endpoints.batchUploadHealthData.initiate({
+        userId,
+        data,
+        // Lets the backend recognise a retried batch it has already stored
+        idempotencyKey: batch[0].batchId,
+        contentDigest: `sha-256=:${digest}:`,
+      })
+    );
+
+    try {
+      const result = await request.unwrap();
+      // A 2xx that says nothing was stored is retried like any other transient failure
+      if (!result.success) {
+        throw new HealthServiceError('Backend did not store the health readings', 'upload');
+      }
+      if (result.errors && result.errors.length > 0) {
+        console.warn(`⚠️ Backend skipped ${result.errors.length} health readings`, result.errors);
+      }
+    } finally {
+      request.reset();
+    }
+  }
+
+  // Client errors other than auth and throttling mean the payload itself is bad
+  private isRejected(error: any): boolean {
+    const status = getErrorStatus(error);
+    return (
+      typeof status === 'number' &&
+      status >= 400 &&
+      status < 500 &&
+      ![401, 403, 408, 429].includes(status)
+    );
+  }
+
+  private getRetryDelay(): number {
+    const delay = Math.min(BASE_RETRY_DELAY * 2 ** (this.failedAttempts - 1), MAX_RETRY_DELAY);
+    // Jitter so devices that reconnect together don't retry in lockstep
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private scheduleRetry(userId: string): void {
+    this.clearRetryTimer();
+    if (!this.nextAttemptAt) return;
+
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.flush(userId);
+      },
+      Math.max(this.nextAttemptAt - Date.now(), 0)
+    );
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private resetBackoff(): void {
+    this.failedAttempts = 0;
+    this.nextAttemptAt = null;
+    this.lastError = null;
+  }
+
+  private removeRecords(batch: QueuedHealthRecord[]): void {
+    const sent = new Set(batch);
+    this.records = this.records.filter(record => !sent.has(record));
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      if (this.records.length === 0 && this.failedAttempts === 0) {
+        await AsyncStorage.removeItem(STORAGE_KEYS.HEALTH_UPLOAD_QUEUE);
+        return;
+      }
+
+      const persisted: PersistedQueue = {
+        records: this.records,
+        failedAttempts: this.failedAttempts,
+        nextAttemptAt: this.nextAttemptAt,
+      };
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.HEALTH_UPLOAD_QUEUE,
+        await HealthDataCrypto.getInstance().encryptJSON(
+          persisted,
+          STORAGE_KEYS.HEALTH_UPLOAD_QUEUE
+        )
+      );
+    } catch (error) {
+      console.error('❌ Failed to persist health upload queue:', error);
+    }
+  }
+
+  private buildStatus(): HealthUploadQueueStatus {
+    return {
+      pending: this.records.length,
+      isUploading: this.isUploading,
+      failedAttempts: this.failedAttempts,
+      nextRetryAt: this.nextAttemptAt,
+      lastError: this.lastError,
+      lastUploadAt: this.lastUploadAt,
+      rejected: this.rejected,
+    };
+  }
+
+  private notify(): void {
+    this.status = this.buildStatus();
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
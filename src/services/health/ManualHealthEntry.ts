@@ -0,0 +1,219 @@
+/**
+ * Manual Health Entry
+ *
+ * Readings a patient logs by hand from a blood pressure cuff, glucose meter,
+ * scale or thermometer. Values are converted to the unit HealthKit, Health
+ * Connect and the HopMed API store, checked against HealthDataNormalizer's
+ * ranges, then written back to the platform store and synced.
+ */
+
+import type { HealthMetric } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+import { HealthDataNormalizer } from './HealthDataNormalizer';
+import { HealthDataService } from './HealthDataService';
+import { HealthSyncService } from './HealthSyncService';
+
+export interface ManualEntryUnit {
+  label: string;
+  // Converts a value in this unit to the entry's stored unit
+  toStored: (value: number) => number;
+}
+
+export interface ManualEntryDefinition {
+  title: string;
+  icon: string; // Ionicons name
+  unit: string; // Stored unit, matching HealthDataNormalizer
+  units: ManualEntryUnit[]; // First is the default
+  decimals: number; // Stored values are rounded to this
+  // Blood pressure asks for the diastolic as well
+  hasDiastolic: boolean;
+}
+
+export interface ManualEntryInput {
+  type: HealthDataType;
+  value: number;
+  diastolic?: number;
+  unit: string; // Label of one of the entry's units
+  timestamp: Date;
+}
+
+export interface ManualEntryValidation {
+  errors: string[]; // The reading can't be saved
+  warnings: string[]; // The reading is unusual; saved once the patient confirms
+}
+
+export interface ManualEntryResult {
+  savedToPlatform: boolean;
+}
+
+// Standard clinical factor between glucose in mmol/L and mg/dL
+const MG_DL_PER_MMOL_L = 18;
+const KG_PER_LB = 0.45359237;
+
+const same = (value: number) => value;
+
+export const MANUAL_ENTRY_DEFINITIONS: Partial<Record<HealthDataType, ManualEntryDefinition>> = {
+  [HealthDataType.BLOOD_PRESSURE]: {
+    title: 'Blood Pressure',
+    icon: 'pulse',
+    unit: 'mmHg',
+    units: [{ label: 'mmHg', toStored: same }],
+    decimals: 0,
+    hasDiastolic: true,
+  },
+  [HealthDataType.BLOOD_GLUCOSE]: {
+    title: 'Blood Glucose',
+    icon: 'flask',
+    unit: 'mg/dL',
+    units: [
+      { label: 'mg/dL', toStored: same },
+      { label: 'mmol/L', toStored: value => value * MG_DL_PER_MMOL_L },
+    ],
+    decimals: 0,
+    hasDiastolic: false,
+  },
+  [HealthDataType.WEIGHT]: {
+    title: 'Weight',
+    icon: 'body',
+    unit: 'kg',
+    units: [
+      { label: 'kg', toStored: same },
+      { label: 'lb', toStored: value => value * KG_PER_LB },
+    ],
+    decimals: 1,
+    hasDiastolic: false,
+  },
+  [HealthDataType.BODY_TEMPERATURE]: {
+    title: 'Temperature',
+    icon: 'thermometer',
+    unit: '°C',
+    units: [
+      { label: '°C', toStored: same },
+      { label: '°F', toStored: value => ((value - 32) * 5) / 9 },
+    ],
+    decimals: 1,
+    hasDiastolic: false,
+  },
+};
+
+// Order of the reading types in the entry form
+export const MANUAL_ENTRY_TYPES: HealthDataType[] = [
+  HealthDataType.BLOOD_PRESSURE,
+  HealthDataType.BLOOD_GLUCOSE,
+  HealthDataType.WEIGHT,
+  HealthDataType.BODY_TEMPERATURE,
+];
+
+// Allows for the clock moving on while the form is open
+const FUTURE_TOLERANCE_MS = 60 * 1000;
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export class ManualHealthEntry {
+  /**
+   * The entry as a manual-source metric in stored units, or null when the type
+   * or unit isn't one the form offers
+   */
+  static toMetric(input: ManualEntryInput): HealthMetric | null {
+    const definition = MANUAL_ENTRY_DEFINITIONS[input.type];
+    const unit = definition?.units.find(option => option.label === input.unit);
+    if (!definition || !unit) return null;
+
+    const toStored = (value: number) => round(unit.toStored(value), definition.decimals);
+
+    return {
+      id: `manual_${input.type}_${input.timestamp.getTime()}`,
+      type: input.type,
+      value: toStored(input.value),
+      unit: definition.unit,
+      timestamp: input.timestamp,
+      source: 'manual',
+      metadata: {
+        quality: 'high',
+        confidence: 1,
+        context: 'manual_entry',
+        diastolic:
+          definition.hasDiastolic && input.diastolic !== undefined
+            ? toStored(input.diastolic)
+            : undefined,
+      },
+    };
+  }
+
+  /**
+   * Errors stop the entry being saved; warnings flag a value outside the usual
+   * range that the patient should double-check
+   */
+  static validate(input: ManualEntryInput, now = new Date()): ManualEntryValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const addRangeCheck = (value: number) => {
+      const result = HealthDataNormalizer.validateValueRange(value, input.type);
+      if (!result.isValid) {
+        (result.severity === 'error' ? errors : warnings).push(result.message);
+      }
+    };
+
+    const metric = this.toMetric(input);
+    if (!metric) {
+      return { errors: ['This reading type is not supported'], warnings };
+    }
+
+    if (!Number.isFinite(input.value)) {
+      errors.push('Enter a reading');
+    } else {
+      addRangeCheck(metric.value);
+    }
+
+    if (MANUAL_ENTRY_DEFINITIONS[input.type]?.hasDiastolic) {
+      const diastolic = metric.metadata?.diastolic;
+      if (diastolic === undefined || !Number.isFinite(diastolic)) {
+        errors.push('Enter the diastolic (lower) reading');
+      } else {
+        addRangeCheck(diastolic);
+        if (diastolic >= metric.value) {
+          errors.push('Diastolic must be lower than systolic');
+        }
+      }
+    }
+
+    if (input.timestamp.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) {
+      errors.push('Reading time cannot be in the future');
+    }
+
+    return { errors: [...new Set(errors)], warnings: [...new Set(warnings)] };
+  }
+
+  /**
+   * Write the reading to HealthKit or Health Connect, then queue it for
+   * upload. Resolves once queued; the upload carries on in the background and
+   * still happens when the platform store can't be written to.
+   */
+  static async save(userId: string, metric: HealthMetric): Promise<ManualEntryResult> {
+    const healthService = HealthDataService.getInstance();
+    let savedToPlatform = false;
+
+    try {
+      if (await healthService.initialize()) {
+        // Only prompts for access the patient hasn't answered yet, including write access
+        await healthService.requestPermissions([metric.type]);
+        savedToPlatform = await healthService.writeHealthData(metric);
+      }
+    } catch (error) {
+      console.error('❌ Failed to write manual reading to the health store:', error);
+    }
+
+    await HealthSyncService.getInstance().queueManualEntry(userId, metric);
+    console.log(
+      `📝 Logged ${metric.type} (${savedToPlatform ? 'saved to health store' : 'HopMed only'})`
+    );
+
+    return { savedToPlatform };
+  }
+}
+
+export default ManualHealthEntry;
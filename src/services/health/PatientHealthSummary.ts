@@ -0,0 +1,220 @@
+/**
+ * Patient Health Summary
+ *
+ * Turns a patient's synced health data, as returned to a doctor by the
+ * backend, into what the doctor-side health panel shows: the latest reading
+ * per vital with its recent trend, this week's steps, and active alerts.
+ * Only data types the patient has shared are ever included.
+ */
+
+import { COLORS } from '../../constants';
+import type { DailyStepData } from '../../hooks/health/useWeeklySteps';
+import type { HealthAlert, HealthMetric } from '../../types/health';
+import { HealthDataType } from '../../types/health';
+
+/**
+ * Health data grouped by type, as returned by `healthApi.getHealthData`
+ */
+export interface PatientHealthData {
+  heartRate: HealthMetric[];
+  steps: HealthMetric[];
+  sleep: HealthMetric[];
+  weight: HealthMetric[];
+  bloodPressure: HealthMetric[];
+  oxygenSaturation: HealthMetric[];
+  bodyTemperature: HealthMetric[];
+  bloodGlucose: HealthMetric[];
+  caloriesBurned: HealthMetric[];
+}
+
+export interface TrendPoint {
+  x: number;
+  y: number;
+  date: Date;
+  value: number;
+}
+
+export interface VitalSummary {
+  type: HealthDataType;
+  label: string;
+  icon: string;
+  color: string;
+  value: number;
+  unit: string;
+  timestamp: Date;
+  trend: TrendPoint[];
+}
+
+interface VitalDefinition {
+  type: HealthDataType;
+  key: keyof PatientHealthData;
+  label: string;
+  icon: string;
+  color: string;
+  unit: string;
+  decimals: number;
+}
+
+export class PatientHealthSummary {
+  // Readings kept per sparkline; enough to show a trend without crowding a card
+  static readonly TREND_POINTS = 12;
+
+  // Point-in-time vitals in the order a clinician reads them
+  static readonly VITALS: VitalDefinition[] = [
+    {
+      type: HealthDataType.HEART_RATE,
+      key: 'heartRate',
+      label: 'Heart rate',
+      icon: 'heart',
+      color: COLORS.HEALTH_RED,
+      unit: 'bpm',
+      decimals: 0,
+    },
+    {
+      type: HealthDataType.BLOOD_PRESSURE,
+      key: 'bloodPressure',
+      label: 'Blood pressure',
+      icon: 'pulse',
+      color: COLORS.HEALTH_ORANGE,
+      unit: 'mmHg',
+      decimals: 0,
+    },
+    {
+      type: HealthDataType.OXYGEN_SATURATION,
+      key: 'oxygenSaturation',
+      label: 'SpO₂',
+      icon: 'water',
+      color: COLORS.HEALTH_BLUE,
+      unit: '%',
+      decimals: 0,
+    },
+    {
+      type: HealthDataType.BODY_TEMPERATURE,
+      key: 'bodyTemperature',
+      label: 'Temperature',
+      icon: 'thermometer',
+      color: COLORS.HEALTH_PINK,
+      unit: '°C',
+      decimals: 1,
+    },
+    {
+      type: HealthDataType.BLOOD_GLUCOSE,
+      key: 'bloodGlucose',
+      label: 'Glucose',
+      icon: 'water-outline',
+      color: COLORS.HEALTH_GOLD,
+      unit: 'mg/dL',
+      decimals: 0,
+    },
+    {
+      type: HealthDataType.WEIGHT,
+      key: 'weight',
+      label: 'Weight',
+      icon: 'barbell',
+      color: COLORS.HEALTH_PURPLE,
+      unit: 'kg',
+      decimals: 1,
+    },
+  ];
+
+  /**
+   * Latest reading and recent trend for each shared vital that has data
+   */
+  static getLatestVitals(
+    data: Partial<PatientHealthData>,
+    sharedTypes: HealthDataType[]
+  ): VitalSummary[] {
+    const shared = new Set(sharedTypes);
+
+    return PatientHealthSummary.VITALS.filter(vital => shared.has(vital.type)).flatMap(vital => {
+      const readings = PatientHealthSummary.sortByTime(data[vital.key] ?? []);
+      if (readings.length === 0) return [];
+
+      const latest = readings[readings.length - 1];
+      return [
+        {
+          type: vital.type,
+          label: vital.label,
+          icon: vital.icon,
+          color: vital.color,
+          value: Number(latest.value.toFixed(vital.decimals)),
+          unit: latest.unit || vital.unit,
+          timestamp: new Date(latest.timestamp),
+          trend: PatientHealthSummary.toTrendPoints(readings),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Chart points for the most recent readings, oldest first
+   */
+  static toTrendPoints(
+    metrics: HealthMetric[],
+    limit = PatientHealthSummary.TREND_POINTS
+  ): TrendPoint[] {
+    return PatientHealthSummary.sortByTime(metrics)
+      .slice(-limit)
+      .map(metric => {
+        const date = new Date(metric.timestamp);
+        return { x: date.getTime(), y: metric.value, date, value: metric.value };
+      });
+  }
+
+  /**
+   * Step totals for the current week, Monday to Sunday, in the shape
+   * `WeeklyStepsChart` draws for the patient's own dashboard
+   */
+  static toWeeklySteps(steps: HealthMetric[], now = new Date()): DailyStepData[] {
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const dayOfWeek = today.getDay(); // 0 = Sunday
+    const monday = new Date(today);
+    monday.setDate(today.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+
+    const totals = new Map<string, number>();
+    for (const metric of steps) {
+      const key = new Date(metric.timestamp).toDateString();
+      totals.set(key, (totals.get(key) ?? 0) + metric.value);
+    }
+
+    return Array.from({ length: 7 }, (_, index) => {
+      const date = new Date(monday);
+      date.setDate(monday.getDate() + index);
+      return {
+        date,
+        steps: Math.round(totals.get(date.toDateString()) ?? 0),
+        isToday: date.getTime() === today.getTime(),
+        isFuture: date.getTime() > today.getTime(),
+        dayName: date.toLocaleDateString('en-US', { weekday: 'short' }),
+        dayNumber: date.getDate(),
+      };
+    });
+  }
+
+  /**
+   * Unread alerts for shared data types, critical first, then newest first
+   */
+  static getActiveAlerts(alerts: HealthAlert[], sharedTypes: HealthDataType[]): HealthAlert[] {
+    const shared = new Set(sharedTypes);
+    const severity: Record<HealthAlert['type'], number> = { critical: 0, warning: 1, info: 2 };
+
+    return alerts
+      .filter(alert => !alert.isRead && shared.has(alert.healthDataType))
+      .sort(
+        (a, b) =>
+          severity[a.type] - severity[b.type] ||
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+  }
+
+  // Timestamps arrive as ISO strings over the API despite the Date type
+  private static sortByTime(metrics: HealthMetric[]): HealthMetric[] {
+    return [...metrics].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+}
+
+export default PatientHealthSummary;
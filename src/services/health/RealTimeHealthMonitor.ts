@@ -8,26 +8,22 @@
 import { EventEmitter } from 'events';
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import BackgroundTask from 'expo-background-task';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 
-import type { HealthMetric, HealthDataType, HealthAlert } from '../../types/health';
+import { store } from '../../store';
+import { healthApi } from '../../store/api/healthApi';
+import type {
+  HealthMetric,
+  HealthDataType,
+  HealthAlert,
+  HealthThreshold,
+} from '../../types/health';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
 
 import { HealthDataService } from './HealthDataService';
 import { wearableHealthManager } from './WearableHealthManager';
 
-interface HealthThreshold {
-  type: HealthDataType;
-  min?: number;
-  max?: number;
-  critical_min?: number;
-  critical_max?: number;
-  enabled: boolean;
-  patient_specific?: boolean;
-}
-
 interface MonitoringSession {
   id: string;
   patientId: string;
@@ -48,6 +44,7 @@ interface HealthAnomaly {
   timestamp: Date;
   description: string;
   recommendation: string;
+  patientSpecific: boolean; // Raised against a doctor-set limit rather than the default
 }
 
 interface RealTimeConfig {
@@ -66,7 +63,7 @@ export class RealTimeHealthMonitor extends EventEmitter {
   private isMonitoring = false;
   private currentSession: MonitoringSession | null = null;
   private monitoringInterval: NodeJS.Timeout | null = null;
-  private backgroundTask: string | null = null;
+  private backgroundInterval: NodeJS.Timeout | null = null;
 
   private config: RealTimeConfig = {
     monitoringInterval: 30000, // 30 seconds
@@ -163,11 +160,18 @@ export class RealTimeHealthMonitor extends EventEmitter {
         patientId,
         startTime: new Date(),
         isActive: true,
-        thresholds: customThresholds || this.defaultThresholds,
+        thresholds: customThresholds || (await this.getPatientThresholds(patientId)),
         alertCount: 0,
         dataPoints: [],
       };
 
+      // Pick up limits the doctor changed since they were last cached
+      if (!customThresholds) {
+        this.syncPatientThresholds(patientId).catch(error => {
+          console.warn('⚠️ Patient threshold sync failed:', error);
+        });
+      }
+
       // Request notification permissions
       await this.requestNotificationPermissions();
 
@@ -219,10 +223,10 @@ export class RealTimeHealthMonitor extends EventEmitter {
         this.monitoringInterval = null;
       }
 
-      // Stop background task
-      if (this.backgroundTask) {
-        BackgroundTask.finish(this.backgroundTask);
-        this.backgroundTask = null;
+      // Stop background checks
+      if (this.backgroundInterval) {
+        clearInterval(this.backgroundInterval);
+        this.backgroundInterval = null;
       }
 
       // End current session
@@ -326,7 +330,9 @@ export class RealTimeHealthMonitor extends EventEmitter {
     const anomalies: HealthAnomaly[] = [];
 
     // Critical threshold violations
-    if (threshold.critical_min && metric.value < threshold.critical_min) {
+    const patientSpecific = threshold.patient_specific === true;
+
+    if (threshold.critical_min !== undefined && metric.value < threshold.critical_min) {
       anomalies.push({
         id: `anomaly_${Date.now()}_critical_low`,
         type: metric.type,
@@ -336,10 +342,11 @@ export class RealTimeHealthMonitor extends EventEmitter {
         timestamp: metric.timestamp,
         description: `Critical low ${metric.type}: ${metric.value} ${metric.unit}`,
         recommendation: this.getRecommendation(metric.type, 'critical_low', metric.value),
+        patientSpecific,
       });
     }
 
-    if (threshold.critical_max && metric.value > threshold.critical_max) {
+    if (threshold.critical_max !== undefined && metric.value > threshold.critical_max) {
       anomalies.push({
         id: `anomaly_${Date.now()}_critical_high`,
         type: metric.type,
@@ -349,12 +356,13 @@ export class RealTimeHealthMonitor extends EventEmitter {
         timestamp: metric.timestamp,
         description: `Critical high ${metric.type}: ${metric.value} ${metric.unit}`,
         recommendation: this.getRecommendation(metric.type, 'critical_high', metric.value),
+        patientSpecific,
       });
     }
 
     // Normal threshold violations
     if (
-      threshold.min &&
+      threshold.min !== undefined &&
       metric.value < threshold.min &&
       !anomalies.some(a => a.severity === 'critical')
     ) {
@@ -367,11 +375,12 @@ export class RealTimeHealthMonitor extends EventEmitter {
         timestamp: metric.timestamp,
         description: `Low ${metric.type}: ${metric.value} ${metric.unit}`,
         recommendation: this.getRecommendation(metric.type, 'low', metric.value),
+        patientSpecific,
       });
     }
 
     if (
-      threshold.max &&
+      threshold.max !== undefined &&
       metric.value > threshold.max &&
       !anomalies.some(a => a.severity === 'critical')
     ) {
@@ -384,6 +393,7 @@ export class RealTimeHealthMonitor extends EventEmitter {
         timestamp: metric.timestamp,
         description: `High ${metric.type}: ${metric.value} ${metric.unit}`,
         recommendation: this.getRecommendation(metric.type, 'high', metric.value),
+        patientSpecific,
       });
     }
 
@@ -433,6 +443,7 @@ export class RealTimeHealthMonitor extends EventEmitter {
         description: `Unusual ${metric.type} pattern detected: ${metric.value} ${metric.unit} (${deviation.toFixed(1)} deviation from recent average)`,
         recommendation:
           'Monitor closely for additional readings and consult healthcare provider if pattern continues.',
+        patientSpecific: false,
       };
     }
 
@@ -584,13 +595,9 @@ export class RealTimeHealthMonitor extends EventEmitter {
    */
   private async setupBackgroundMonitoring(): Promise<void> {
     if (Platform.OS === 'ios') {
-      // iOS background processing
-      this.backgroundTask = await BackgroundTask.start({
-        name: 'HealthMonitoring',
-      });
-
-      // Background sync interval
-      setInterval(async () => {
+      // Runs while iOS keeps the app alive; syncs after the app is closed go
+      // through the health background sync task instead
+      this.backgroundInterval = setInterval(async () => {
         if (this.isMonitoring && this.currentSession) {
           await this.performHealthCheck();
         }
@@ -850,16 +857,115 @@ export class RealTimeHealthMonitor extends EventEmitter {
   }
 
   /**
-   * Update patient thresholds
+   * Limits used for any data type without a doctor-set override
    */
-  public async updateThresholds(thresholds: HealthThreshold[]): Promise<void> {
-    if (this.currentSession) {
-      this.currentSession.thresholds = thresholds;
+  public getDefaultThresholds(): HealthThreshold[] {
+    return this.defaultThresholds.map(threshold => ({ ...threshold }));
+  }
+
+  /**
+   * Thresholds for a patient: the defaults, overridden by any doctor-set limits cached on the device
+   */
+  public async getPatientThresholds(patientId: string): Promise<HealthThreshold[]> {
+    try {
+      const cached = await AsyncStorage.getItem(this.getThresholdsKey(patientId));
+      return this.resolveThresholds(cached ? JSON.parse(cached) : []);
+    } catch (error) {
+      console.error('❌ Error loading patient thresholds:', error);
+      return this.resolveThresholds([]);
+    }
+  }
+
+  /**
+   * Fetch the patient's doctor-set limits from the backend and apply them to
+   * the running session. Falls back to the cached limits when offline.
+   */
+  public async syncPatientThresholds(patientId: string): Promise<HealthThreshold[]> {
+    const request = store.dispatch(
+      healthApi.endpoints.getPatientThresholds.initiate(patientId, { forceRefetch: true })
+    );
+
+    try {
+      const { thresholds } = await request.unwrap();
+      await this.applyPatientThresholds(patientId, thresholds);
+    } catch (error) {
+      console.warn('⚠️ Could not sync patient thresholds, using cached limits:', error);
+      sentryTracker.trackServiceError(
+        error instanceof Error ? error : 'Patient threshold sync failed',
+        {
+          service: 'realTimeHealthMonitor',
+          action: 'syncPatientThresholds',
+          additional: { patientId },
+        }
+      );
+    } finally {
+      request.unsubscribe();
+    }
+
+    return this.getPatientThresholds(patientId);
+  }
+
+  /**
+   * Set a patient's limits (doctor only). The backend records the change and
+   * reason in the patient's threshold audit trail.
+   */
+  public async updateThresholds(
+    patientId: string,
+    thresholds: HealthThreshold[],
+    reason?: string
+  ): Promise<void> {
+    const request = store.dispatch(
+      healthApi.endpoints.updatePatientThresholds.initiate({ patientId, thresholds, reason })
+    );
+
+    try {
+      const result = await request.unwrap();
+      await this.applyPatientThresholds(patientId, result.thresholds);
+      console.log(`✅ Patient thresholds updated (${result.audit.length} changes audited)`);
+    } finally {
+      request.reset();
+    }
+  }
+
+  private async applyPatientThresholds(
+    patientId: string,
+    thresholds: HealthThreshold[]
+  ): Promise<void> {
+    await AsyncStorage.setItem(this.getThresholdsKey(patientId), JSON.stringify(thresholds));
+
+    if (this.currentSession?.patientId === patientId) {
+      this.currentSession.thresholds = this.resolveThresholds(thresholds);
       await this.saveSession();
-      console.log('✅ Patient thresholds updated');
+      this.emit('thresholdsUpdated', {
+        sessionId: this.currentSession.id,
+        patientId,
+        thresholds: this.currentSession.thresholds,
+        timestamp: new Date(),
+      });
     }
   }
 
+  /**
+   * Overlay patient-specific limits on the defaults, per data type
+   */
+  private resolveThresholds(patientThresholds: HealthThreshold[]): HealthThreshold[] {
+    const overrides = new Map(
+      patientThresholds.map(threshold => [threshold.type, { ...threshold, patient_specific: true }])
+    );
+    const resolved = this.defaultThresholds.map(
+      threshold => overrides.get(threshold.type) ?? threshold
+    );
+    const extra = patientThresholds
+      .filter(threshold => !this.defaultThresholds.some(d => d.type === threshold.type))
+      .map(threshold => ({ ...threshold, patient_specific: true }));
+
+    return [...resolved, ...extra];
+  }
+
+  private getThresholdsKey(patientId: string): string {
+    return `health_thresholds_${patientId}`;
+  }
+
   /**
    * Get stored alerts for a patient
    */
@@ -13,9 +13,16 @@
  * - Enhanced error recovery and permission management
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 
-import type { HealthMetric, HealthDataRange, HealthPermission } from '../../types/health';
+import { STORAGE_KEYS } from '../../constants';
+import type {
+  HealthMetric,
+  HealthDataRange,
+  HealthPermission,
+  HealthSourcePriority,
+} from '../../types/health';
 import { HealthDataType } from '../../types/health';
 import { sentryTracker } from '../../utils/sentryErrorTracker';
 
@@ -124,6 +131,8 @@ export class WearableHealthManager {
     string,
     { permissions: HealthPermission[]; timestamp: number }
   >();
+  private sourcePriority: HealthSourcePriority = {};
+  private sourcePriorityPromise: Promise<void> | null = null;
   private CACHE_TTL = 30000; // 30 seconds data cache
   private readonly PERMISSION_CACHE_TTL = 900000; // 15 minutes permission cache - optimized for better performance
   private errorRecoveryStrategy: ErrorRecoveryStrategy = {
@@ -315,6 +324,7 @@ export class WearableHealthManager {
 
     // Detect device performance and apply optimizations
     this.detectDevicePerformance();
+    await this.loadSourcePriority();
 
     const initPromises = Array.from(this.providers.entries()).map(async ([name, provider]) => {
       try {
@@ -556,9 +566,18 @@ export class WearableHealthManager {
           setTimeout(() => reject(new Error(`Provider timeout after ${timeout}ms`)), timeout);
         });
 
-        const data = await Promise.race([provider.readHealthData(dataType, range), timeoutPromise]);
+        const rawData = await Promise.race([
+          provider.readHealthData(dataType, range),
+          timeoutPromise,
+        ]);
+        if (rawData && rawData.length > 0) {
+          // Phone and watch often record the same activity; count it once
+          const data = HealthDataNormalizer.mergeSources(
+            rawData,
+            dataType,
+            this.sourcePriority[dataType]
+          );
 
-        if (data && data.length > 0) {
           console.log(
             `🏥 Successfully fetched ${data.length} ${dataType} records from ${providerName}`
           );
@@ -1070,6 +1089,66 @@ export class WearableHealthManager {
     this.errorRecoveryStrategy = { ...this.errorRecoveryStrategy, ...strategy };
   }
 
+  /**
+   * Sources to trust first when readings of a data type overlap. Readable
+   * before the manager is initialized, e.g. by screens that read a store directly.
+   */
+  async getSourcePriority(dataType: HealthDataType): Promise<string[]> {
+    await this.loadSourcePriority();
+    return this.sourcePriority[dataType] ?? HealthDataNormalizer.DEFAULT_SOURCE_PRIORITY;
+  }
+
+  /**
+   * Whether the user has chosen their own order for a data type
+   */
+  hasCustomSourcePriority(dataType: HealthDataType): boolean {
+    return this.sourcePriority[dataType] !== undefined;
+  }
+
+  /**
+   * Set the user's source order for a data type (deviceIds or 'watch' | 'phone' | 'manual'),
+   * or pass null to go back to the default
+   */
+  async setSourcePriority(dataType: HealthDataType, priority: string[] | null): Promise<void> {
+    await this.loadSourcePriority();
+
+    const next = { ...this.sourcePriority };
+    if (priority && priority.length > 0) {
+      next[dataType] = priority;
+    } else {
+      delete next[dataType];
+    }
+    this.sourcePriority = next;
+
+    // Cached responses were merged with the old order
+    this.clearCache(dataType);
+
+    try {
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.HEALTH_SOURCE_PRIORITY,
+        JSON.stringify(this.sourcePriority)
+      );
+    } catch (error) {
+      console.warn('🏥 Failed to persist health source priority:', error);
+    }
+  }
+
+  private loadSourcePriority(): Promise<void> {
+    if (!this.sourcePriorityPromise) {
+      this.sourcePriorityPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEYS.HEALTH_SOURCE_PRIORITY);
+          if (stored) {
+            this.sourcePriority = JSON.parse(stored);
+          }
+        } catch (error) {
+          console.warn('🏥 Failed to load health source priority:', error);
+        }
+      })();
+    }
+    return this.sourcePriorityPromise;
+  }
+
   /**
    * Cleanup all providers (important for memory management)
    */
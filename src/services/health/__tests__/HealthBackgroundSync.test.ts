@@ -0,0 +1,140 @@
+/// <reference types="@types/jest" />
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Battery from 'expo-battery';
+import * as TaskManager from 'expo-task-manager';
+
+import { STORAGE_KEYS } from '../../../constants';
+import { HealthBackgroundSync } from '../HealthBackgroundSync';
+import { HEALTH_BACKGROUND_SYNC_TASK } from '../HealthSyncService';
+
+const mockSyncHealthData = jest.fn();
+
+jest.mock('../HealthSyncService', () => ({
+  HEALTH_BACKGROUND_SYNC_TASK: 'hopmed-health-background-sync',
+  HealthSyncService: { getInstance: () => ({ syncHealthData: mockSyncHealthData }) },
+}));
+
+jest.mock('../../../store', () => ({
+  store: { getState: () => ({ auth: { user: { id: 42 } } }), dispatch: jest.fn() },
+  persistor: { getState: () => ({ bootstrapped: true }) },
+}));
+
+jest.mock('../../../store/slices/healthSlice', () => ({
+  fetchLatestHealthData: jest.fn(),
+}));
+
+jest.mock('expo-task-manager', () => ({ defineTask: jest.fn() }));
+
+jest.mock('expo-background-task', () => ({
+  BackgroundTaskResult: { Success: 1, Failed: 2 },
+}));
+
+jest.mock('expo-battery', () => ({
+  BatteryState: { UNKNOWN: 0, UNPLUGGED: 1, CHARGING: 2, FULL: 3 },
+  getPowerStateAsync: jest.fn(),
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { fetch: jest.fn() },
+}));
+
+jest.mock('../../../utils/sentryErrorTracker', () => ({
+  sentryTracker: { trackServiceError: jest.fn(), trackCriticalError: jest.fn() },
+}));
+
+// Captured before beforeEach clears the mocks
+const definedTasks = (TaskManager.defineTask as jest.Mock).mock.calls.map(([name]) => name);
+const mockPowerState = Battery.getPowerStateAsync as jest.Mock;
+const mockNetInfoFetch = NetInfo.fetch as jest.Mock;
+
+const freshInstance = () => {
+  (HealthBackgroundSync as any).instance = undefined;
+  return HealthBackgroundSync.getInstance();
+};
+
+describe('HealthBackgroundSync background task', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    mockPowerState.mockResolvedValue({
+      batteryLevel: 0.8,
+      batteryState: Battery.BatteryState.UNPLUGGED,
+      lowPowerMode: false,
+    });
+    mockNetInfoFetch.mockResolvedValue({ isConnected: true, type: 'wifi' });
+    mockSyncHealthData.mockResolvedValue(true);
+  });
+
+  it('defines the task the sync service registers', () => {
+    expect(definedTasks).toEqual([HEALTH_BACKGROUND_SYNC_TASK]);
+  });
+
+  it('runs an incremental sync for the signed-in user and records the run', async () => {
+    const sync = freshInstance();
+
+    const result = await sync.runBackgroundSync();
+
+    expect(result).toBe(1);
+    expect(mockSyncHealthData).toHaveBeenCalledWith('42');
+    const metrics = sync.getSyncMetrics();
+    expect(metrics.syncCount).toBe(1);
+    expect(metrics.backgroundRuns[0]).toMatchObject({ outcome: 'success' });
+  });
+
+  it('skips the sync on low battery unless charging', async () => {
+    mockPowerState.mockResolvedValue({
+      batteryLevel: 0.1,
+      batteryState: Battery.BatteryState.UNPLUGGED,
+      lowPowerMode: false,
+    });
+    const sync = freshInstance();
+
+    await sync.runBackgroundSync();
+    expect(mockSyncHealthData).not.toHaveBeenCalled();
+    expect(sync.getSyncMetrics().backgroundRuns[0]).toMatchObject({
+      outcome: 'skipped',
+      reason: 'battery at 10%',
+    });
+
+    mockPowerState.mockResolvedValue({
+      batteryLevel: 0.1,
+      batteryState: Battery.BatteryState.CHARGING,
+      lowPowerMode: false,
+    });
+    await sync.runBackgroundSync();
+    expect(mockSyncHealthData).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the sync while offline or on cellular when it is not allowed', async () => {
+    const sync = freshInstance();
+
+    mockNetInfoFetch.mockResolvedValueOnce({ isConnected: false, type: 'none' });
+    await sync.runBackgroundSync();
+    expect(sync.getSyncMetrics().backgroundRuns[0].reason).toBe('offline');
+
+    sync.updateConfig({ allowCellular: false });
+    mockNetInfoFetch.mockResolvedValueOnce({ isConnected: true, type: 'cellular' });
+    await sync.runBackgroundSync();
+    expect(sync.getSyncMetrics().backgroundRuns[0].reason).toBe('cellular data not allowed');
+
+    expect(mockSyncHealthData).not.toHaveBeenCalled();
+  });
+
+  it('keeps run history across background launches', async () => {
+    mockSyncHealthData.mockResolvedValueOnce(false);
+    await freshInstance().runBackgroundSync();
+
+    const stored = JSON.parse((await AsyncStorage.getItem(STORAGE_KEYS.HEALTH_SYNC_METRICS))!);
+    expect(stored.failureCount).toBe(1);
+
+    const relaunched = freshInstance();
+    await relaunched.runBackgroundSync();
+    expect(relaunched.getSyncMetrics().backgroundRuns.map(run => run.outcome)).toEqual([
+      'success',
+      'failed',
+    ]);
+  });
+});
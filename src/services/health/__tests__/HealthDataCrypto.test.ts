@@ -0,0 +1,126 @@
+/// <reference types="@types/jest" />
+
+import * as SecureStore from 'expo-secure-store';
+
+import { HealthDataIntegrityError } from '../../../utils/error';
+import { HealthDataCrypto } from '../HealthDataCrypto';
+
+const mockKeystore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 5,
+  getItemAsync: jest.fn((key: string) => Promise.resolve(mockKeystore.get(key) ?? null)),
+  setItemAsync: jest.fn((key: string, value: string) => {
+    mockKeystore.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    CryptoEncoding: { BASE64: 'base64' },
+    getRandomBytes: (length: number) => new Uint8Array(nodeCrypto.randomBytes(length)),
+    digestStringAsync: async (_algorithm: string, value: string) =>
+      nodeCrypto.createHash('sha256').update(value, 'utf8').digest('base64'),
+  };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A fresh instance behaves like the app after a restart
+const relaunch = () => {
+  (HealthDataCrypto as any).instance = undefined;
+  return HealthDataCrypto.getInstance();
+};
+
+const storedKeyring = () => JSON.parse(mockKeystore.get('hopmed_health_keyring')!);
+
+describe('HealthDataCrypto', () => {
+  beforeEach(() => {
+    mockKeystore.clear();
+    jest.clearAllMocks();
+  });
+
+  it('round-trips data across a restart without storing it in the clear', async () => {
+    const payload = await relaunch().encryptJSON({ heartRate: 72 }, 'health_backup_1');
+
+    expect(payload.startsWith('hmenc1:')).toBe(true);
+    expect(payload).not.toContain('heartRate');
+    expect(await relaunch().decryptJSON(payload, 'health_backup_1')).toEqual({ heartRate: 72 });
+  });
+
+  it('keeps the key on this device only', async () => {
+    await relaunch().encrypt('72', 'ctx');
+
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith(
+      'hopmed_health_keyring',
+      expect.any(String),
+      { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY }
+    );
+  });
+
+  it('rejects tampered data and data moved to another slot', async () => {
+    const crypto = relaunch();
+    const payload = await crypto.encrypt('72 bpm', 'health_backup_1');
+    const parts = payload.split(':');
+    const ciphertext = Buffer.from(parts[3], 'base64');
+    ciphertext[0] ^= 1;
+    const tampered = [...parts.slice(0, 3), ciphertext.toString('base64')].join(':');
+
+    await expect(crypto.decrypt(tampered, 'health_backup_1')).rejects.toBeInstanceOf(
+      HealthDataIntegrityError
+    );
+    await expect(crypto.decrypt(payload, 'health_backup_2')).rejects.toBeInstanceOf(
+      HealthDataIntegrityError
+    );
+  });
+
+  it('preserves non-ASCII text', async () => {
+    const crypto = relaunch();
+    const note = 'Douleur thoracique · 胸痛 · 🫀';
+
+    expect(await crypto.decrypt(await crypto.encrypt(note, 'ctx'), 'ctx')).toBe(note);
+  });
+
+  it('passes through data written before encryption was enabled', async () => {
+    expect(await relaunch().decryptJSON('{"heartRate":72}', 'ctx')).toEqual({ heartRate: 72 });
+  });
+
+  it('keeps older data readable after the key rotates', async () => {
+    const crypto = relaunch();
+    const before = await crypto.encrypt('72', 'ctx');
+    const oldKeyId = storedKeyring().activeKeyId;
+
+    const newKeyId = await crypto.rotateKey();
+    const after = await crypto.encrypt('75', 'ctx');
+
+    expect(newKeyId).not.toBe(oldKeyId);
+    expect(after.split(':')[1]).toBe(newKeyId);
+    expect(await relaunch().decrypt(before, 'ctx')).toBe('72');
+    expect(await relaunch().decrypt(after, 'ctx')).toBe('75');
+  });
+
+  it('rotates a key that has expired and eventually retires it', async () => {
+    const now = Date.now();
+    const oldest = await relaunch().encrypt('72', 'ctx');
+    const firstKeyId = storedKeyring().activeKeyId;
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 91 * DAY);
+    await relaunch().encrypt('75', 'ctx');
+    expect(storedKeyring().activeKeyId).not.toBe(firstKeyId);
+
+    await relaunch().rotateKey();
+    await relaunch().rotateKey();
+    (Date.now as jest.Mock).mockRestore();
+
+    await expect(relaunch().decrypt(oldest, 'ctx')).rejects.toBeInstanceOf(
+      HealthDataIntegrityError
+    );
+  });
+
+  it('computes base64 SHA-256 digests', async () => {
+    expect(await relaunch().sha256('abc')).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+  });
+});
@@ -0,0 +1,135 @@
+/// <reference types="@types/jest" />
+
+import type { HealthMetric } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { HealthDataNormalizer } from '../HealthDataNormalizer';
+
+jest.mock('../../../utils/sentryErrorTracker', () => ({
+  sentryTracker: { trackServiceError: jest.fn() },
+}));
+
+const at = (time: string) => new Date(`2026-03-01T${time}:00Z`);
+
+const steps = (
+  id: string,
+  source: HealthMetric['source'],
+  value: number,
+  from: string,
+  to: string,
+  deviceId?: string
+): HealthMetric => ({
+  id,
+  type: HealthDataType.STEPS,
+  value,
+  unit: 'steps',
+  timestamp: at(from),
+  source,
+  deviceId,
+  metadata: { endTime: at(to).getTime() },
+});
+
+const heartRate = (
+  id: string,
+  source: HealthMetric['source'],
+  value: number,
+  time: string
+): HealthMetric => ({
+  id,
+  type: HealthDataType.HEART_RATE,
+  value,
+  unit: 'bpm',
+  timestamp: at(time),
+  source,
+});
+
+const total = (metrics: HealthMetric[]) => metrics.reduce((sum, metric) => sum + metric.value, 0);
+
+describe('HealthDataNormalizer.mergeSources', () => {
+  it('counts steps recorded by both the watch and the phone once', () => {
+    const merged = HealthDataNormalizer.mergeSources(
+      [
+        steps('phone-1', 'phone', 1200, '08:00', '08:30'),
+        steps('watch-1', 'watch', 1000, '08:00', '08:30'),
+        steps('phone-2', 'phone', 400, '09:00', '09:10'),
+      ],
+      HealthDataType.STEPS
+    );
+
+    expect(merged.map(metric => metric.id)).toEqual(['watch-1', 'phone-2']);
+    expect(total(merged)).toBe(1400);
+    expect(merged[0].metadata?.provenance).toEqual([
+      { metricId: 'phone-1', source: 'phone', deviceId: undefined, value: 1200, overlap: 1 },
+    ]);
+  });
+
+  it('keeps only the uncovered share of a partially overlapping reading', () => {
+    const merged = HealthDataNormalizer.mergeSources(
+      [
+        steps('watch-1', 'watch', 600, '08:00', '08:30'),
+        steps('phone-1', 'phone', 800, '08:20', '09:00'),
+      ],
+      HealthDataType.STEPS
+    );
+
+    const phone = merged.find(metric => metric.id === 'phone-1');
+    expect(phone?.value).toBe(600); // 30 of its 40 minutes were not covered by the watch
+    expect(phone?.metadata?.provenance).toEqual([
+      expect.objectContaining({ metricId: 'phone-1', value: 800, overlap: 0.25 }),
+    ]);
+  });
+
+  it('follows the configured priority, including specific devices', () => {
+    const readings = [
+      steps('watch-1', 'watch', 1000, '08:00', '08:30', 'Apple Watch'),
+      steps('phone-1', 'phone', 1200, '08:00', '08:30', 'iPhone'),
+    ];
+
+    expect(
+      HealthDataNormalizer.mergeSources(readings, HealthDataType.STEPS, ['phone']).map(
+        metric => metric.id
+      )
+    ).toEqual(['phone-1']);
+    expect(
+      HealthDataNormalizer.mergeSources(readings, HealthDataType.STEPS, [
+        'iPhone',
+        'Apple Watch',
+      ])[0].id
+    ).toBe('phone-1');
+  });
+
+  it('collapses point readings from different sources taken at the same moment', () => {
+    const merged = HealthDataNormalizer.mergeSources(
+      [
+        heartRate('phone-1', 'phone', 74, '08:00'),
+        heartRate('watch-1', 'watch', 72, '08:00'),
+        heartRate('watch-2', 'watch', 80, '08:05'),
+      ],
+      HealthDataType.HEART_RATE
+    );
+
+    expect(merged.map(metric => metric.id)).toEqual(['watch-1', 'watch-2']);
+    expect(merged[0].metadata?.provenance?.[0]).toMatchObject({ metricId: 'phone-1', value: 74 });
+  });
+
+  it('keeps consecutive readings from the same source and drops exact repeats', () => {
+    const merged = HealthDataNormalizer.mergeSources(
+      [
+        heartRate('watch-1', 'watch', 72, '08:00'),
+        heartRate('watch-2', 'watch', 75, '08:00'),
+        heartRate('watch-1-copy', 'watch', 72, '08:00'),
+      ],
+      HealthDataType.HEART_RATE
+    );
+
+    expect(merged.map(metric => metric.id).sort()).toEqual(['watch-1', 'watch-2']);
+  });
+
+  it('does not modify the readings it was given', () => {
+    const phone = steps('phone-1', 'phone', 1200, '08:00', '08:30');
+    const watch = steps('watch-1', 'watch', 1000, '08:00', '08:30');
+
+    HealthDataNormalizer.mergeSources([phone, watch], HealthDataType.STEPS);
+
+    expect(watch.metadata?.provenance).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+/// <reference types="@types/jest" />
+
+import type { WeeklyStepData } from '../../../hooks/health/useMonthlyWeeks';
+import type { DailyStepData } from '../../../hooks/health/useWeeklySteps';
+import type { HealthGoal } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { DEFAULT_DAILY_STEPS_GOAL, HealthGoalTracker } from '../HealthGoalTracker';
+
+const goal = (overrides: Partial<HealthGoal> = {}): HealthGoal => ({
+  id: 'goal-1',
+  type: HealthDataType.STEPS,
+  target: 10_000,
+  unit: 'steps',
+  period: 'daily',
+  isActive: true,
+  createdAt: new Date(2026, 9, 1),
+  ...overrides,
+});
+
+// Wednesday 14 October 2026, mid-afternoon
+const now = new Date(2026, 9, 14, 15, 0);
+
+// Monday to Sunday of the week containing `now`
+const week = (steps: number[]): DailyStepData[] =>
+  steps.map((value, index) => {
+    const date = new Date(2026, 9, 12 + index);
+    return {
+      date,
+      steps: value,
+      isToday: index === 2,
+      isFuture: index > 2,
+      dayName: date.toLocaleDateString('en-US', { weekday: 'short' }),
+      dayNumber: date.getDate(),
+    };
+  });
+
+const monthWeek = (weekNumber: number, steps: number): WeeklyStepData => ({
+  weekNumber,
+  startDate: new Date(2026, 9, 1 + (weekNumber - 1) * 7),
+  endDate: new Date(2026, 9, weekNumber * 7),
+  steps,
+  isCurrentWeek: weekNumber === 2,
+  isFuture: weekNumber > 2,
+  label: `Week ${weekNumber}`,
+});
+
+describe('HealthGoalTracker', () => {
+  it('keys days, Monday-start weeks and months', () => {
+    const sunday = new Date(2026, 9, 18);
+
+    expect(HealthGoalTracker.periodKey('daily', sunday)).toBe('2026-10-18');
+    expect(HealthGoalTracker.periodKey('weekly', sunday)).toBe('2026-10-12');
+    expect(HealthGoalTracker.periodKey('monthly', sunday)).toBe('2026-10');
+    expect(HealthGoalTracker.shiftPeriod('daily', '2026-10-01', -1)).toBe('2026-09-30');
+    expect(HealthGoalTracker.shiftPeriod('weekly', '2026-10-12', -1)).toBe('2026-10-05');
+    expect(HealthGoalTracker.shiftPeriod('monthly', '2026-01', -1)).toBe('2025-12');
+  });
+
+  it('counts a streak that runs into days before the loaded week', () => {
+    const dailyGoal = goal();
+    const periods = HealthGoalTracker.getStepPeriods(
+      'daily',
+      week([12_000, 11_000, 4_000, 0, 0, 0, 0]),
+      [],
+      now
+    );
+    const { history } = HealthGoalTracker.record(
+      dailyGoal,
+      {
+        goalId: dailyGoal.id,
+        achievedPeriods: ['2026-10-09', '2026-10-10', '2026-10-11'],
+        best: { value: 15_000, period: '2026-10-09' },
+        lastNotifiedPeriod: '2026-10-13',
+      },
+      periods
+    );
+
+    const progress = HealthGoalTracker.getProgress(dailyGoal, history, periods, now);
+
+    // Today isn't done yet, so the run up to yesterday still counts
+    expect(progress.isAchieved).toBe(false);
+    expect(progress.current).toBe(4_000);
+    expect(progress.streak).toBe(5);
+    expect(progress.bestStreak).toBe(5);
+    expect(progress.personalBest).toEqual({ value: 15_000, period: '2026-10-09' });
+  });
+
+  it('notifies once when the period in progress reaches the goal', () => {
+    const dailyGoal = goal();
+    const first = HealthGoalTracker.record(
+      dailyGoal,
+      undefined,
+      HealthGoalTracker.getStepPeriods('daily', week([0, 0, 10_500, 0, 0, 0, 0]), [], now)
+    );
+    expect(first.achievedNow).toBe(true);
+    expect(first.history.best).toEqual({ value: 10_500, period: '2026-10-14' });
+
+    const second = HealthGoalTracker.record(
+      dailyGoal,
+      first.history,
+      HealthGoalTracker.getStepPeriods('daily', week([0, 0, 11_200, 0, 0, 0, 0]), [], now)
+    );
+    expect(second.achievedNow).toBe(false);
+    expect(second.history.best?.value).toBe(11_200);
+  });
+
+  it('re-checks only the period in progress when the target goes up', () => {
+    const periods = HealthGoalTracker.getStepPeriods(
+      'daily',
+      week([9_000, 0, 9_500, 0, 0, 0, 0]),
+      [],
+      now
+    );
+    const { history } = HealthGoalTracker.record(goal({ target: 8_000 }), undefined, periods);
+    const raised = HealthGoalTracker.record(goal({ target: 12_000 }), history, periods);
+
+    expect(raised.history.achievedPeriods).toEqual(['2026-10-12']);
+  });
+
+  it('totals the week and month for weekly and monthly goals', () => {
+    expect(
+      HealthGoalTracker.getStepPeriods('weekly', week([8_000, 9_000, 3_000, 0, 0, 0, 0]), [], now)
+    ).toEqual([{ period: '2026-10-12', value: 20_000, isCurrent: true }]);
+
+    expect(
+      HealthGoalTracker.getStepPeriods(
+        'monthly',
+        [],
+        [monthWeek(1, 60_000), monthWeek(2, 25_000)],
+        now
+      )
+    ).toEqual([{ period: '2026-10', value: 85_000, isCurrent: true }]);
+
+    expect(HealthGoalTracker.getStepPeriods('weekly', [], [], now)).toEqual([]);
+  });
+
+  it('finds the longest run of achieved weeks', () => {
+    const weeklyGoal = goal({ period: 'weekly', target: 50_000 });
+    const progress = HealthGoalTracker.getProgress(
+      weeklyGoal,
+      {
+        goalId: weeklyGoal.id,
+        achievedPeriods: ['2026-08-31', '2026-09-07', '2026-09-14', '2026-10-05'],
+        best: null,
+        lastNotifiedPeriod: null,
+      },
+      [],
+      now
+    );
+
+    expect(progress.streak).toBe(1);
+    expect(progress.bestStreak).toBe(3);
+  });
+
+  it("uses the patient's goal for the dashboard period, or scales the daily one", () => {
+    const goals = [
+      goal({ target: 8_000 }),
+      goal({ id: 'goal-2', period: 'monthly', target: 200_000 }),
+    ];
+
+    expect(HealthGoalTracker.getStepTarget(goals, 'today')).toBe(8_000);
+    expect(HealthGoalTracker.getStepTarget(goals, 'week')).toBe(56_000);
+    expect(HealthGoalTracker.getStepTarget(goals, 'month')).toBe(200_000);
+    expect(HealthGoalTracker.getStepTarget([], 'week')).toBe(DEFAULT_DAILY_STEPS_GOAL * 7);
+  });
+});
@@ -0,0 +1,168 @@
+/// <reference types="@types/jest" />
+
+import type { HealthMetricSample } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { HealthMetricHistory } from '../HealthMetricHistory';
+
+// Wednesday 14 October 2026, mid-afternoon
+const now = new Date(2026, 9, 14, 15, 0);
+
+const reading = (date: Date, value: number, secondaryValue?: number): HealthMetricSample => ({
+  startDate: date,
+  endDate: date,
+  value,
+  secondaryValue,
+});
+
+const sleep = (start: Date, hours: number): HealthMetricSample => ({
+  startDate: start,
+  endDate: new Date(start.getTime() + hours * 60 * 60 * 1000),
+  value: hours,
+});
+
+describe('HealthMetricHistory', () => {
+  it('buckets each view around now', () => {
+    const day = HealthMetricHistory.getBuckets('day', now);
+    expect(day).toHaveLength(8);
+    expect(day.map(bucket => bucket.label)).toEqual([
+      '12a',
+      '3a',
+      '6a',
+      '9a',
+      '12p',
+      '3p',
+      '6p',
+      '9p',
+    ]);
+    expect(day.findIndex(bucket => bucket.isCurrent)).toBe(5);
+
+    const week = HealthMetricHistory.getBuckets('week', now);
+    expect(week[0].startDate).toEqual(new Date(2026, 9, 12));
+    expect(week[6].endDate).toEqual(new Date(2026, 9, 18, 23, 59, 59, 999));
+    expect(week.filter(bucket => bucket.isFuture)).toHaveLength(4);
+
+    const month = HealthMetricHistory.getBuckets('month', now);
+    expect(month.map(bucket => bucket.label)).toEqual(['W1', 'W2', 'W3', 'W4', 'W5']);
+    expect(month[4].startDate).toEqual(new Date(2026, 9, 29));
+    expect(month[4].endDate).toEqual(new Date(2026, 9, 31, 23, 59, 59, 999));
+
+    const year = HealthMetricHistory.getBuckets('year', now);
+    expect(year).toHaveLength(12);
+    expect(year[9].isCurrent).toBe(true);
+  });
+
+  it('averages blood pressure readings with their diastolic', () => {
+    const points = HealthMetricHistory.aggregate(
+      HealthDataType.BLOOD_PRESSURE,
+      HealthMetricHistory.getBuckets('week', now),
+      [
+        reading(new Date(2026, 9, 12, 8), 120, 80),
+        reading(new Date(2026, 9, 12, 20), 130, 90),
+        reading(new Date(2026, 9, 14, 9), 118, 76),
+      ]
+    );
+
+    expect(points[0]).toMatchObject({
+      value: 125,
+      secondaryValue: 85,
+      min: 120,
+      max: 130,
+      sampleCount: 2,
+    });
+    expect(points[1].value).toBeNull();
+    expect(points[2].value).toBe(118);
+
+    expect(HealthMetricHistory.summarize(points)).toEqual({
+      average: 121.5,
+      secondaryAverage: 80.5,
+      min: 118,
+      max: 130,
+    });
+  });
+
+  it('adds up each night of sleep toward the morning it ends', () => {
+    const points = HealthMetricHistory.aggregate(
+      HealthDataType.SLEEP,
+      HealthMetricHistory.getBuckets('week', now),
+      [
+        // Sunday night into Monday, in two stretches
+        sleep(new Date(2026, 9, 11, 23), 3),
+        sleep(new Date(2026, 9, 12, 2, 30), 4),
+        sleep(new Date(2026, 9, 12, 23), 6),
+      ]
+    );
+
+    expect(points[0].value).toBe(7);
+    expect(points[1].value).toBe(6);
+
+    // The month view averages the nights in each week
+    const month = HealthMetricHistory.aggregate(
+      HealthDataType.SLEEP,
+      HealthMetricHistory.getBuckets('month', now),
+      [sleep(new Date(2026, 9, 11, 23), 7), sleep(new Date(2026, 9, 12, 23), 6)]
+    );
+    expect(month[1]).toMatchObject({ value: 6.5, min: 6, max: 7 });
+  });
+
+  it('counts a night split into stages across midnight, and overlapping sources, once', () => {
+    const points = HealthMetricHistory.aggregate(
+      HealthDataType.SLEEP,
+      HealthMetricHistory.getBuckets('week', now),
+      [
+        // Sunday night stages: the first ends before midnight
+        sleep(new Date(2026, 9, 11, 22, 30), 1.5),
+        sleep(new Date(2026, 9, 12, 0), 6),
+        // The phone recorded part of the same night
+        sleep(new Date(2026, 9, 12, 1), 2),
+      ]
+    );
+
+    expect(points[0]).toMatchObject({ value: 7.5, sampleCount: 3 });
+  });
+
+  it('keeps one copy of a reading taken by several sources, from the preferred source', () => {
+    const cuff = new Date(2026, 9, 13, 8, 0);
+    const samples = HealthMetricHistory.mergeSources(
+      HealthDataType.BLOOD_PRESSURE,
+      [
+        { ...reading(cuff, 128, 84), source: 'phone' },
+        { ...reading(new Date(cuff.getTime() + 30 * 1000), 131, 86), source: 'watch' },
+        { ...reading(new Date(2026, 9, 13, 20, 0), 118, 76), source: 'phone' },
+      ],
+      ['phone', 'watch', 'manual']
+    );
+
+    expect(samples.map(sample => [sample.value, sample.secondaryValue])).toEqual([
+      [128, 84],
+      [118, 76],
+    ]);
+  });
+
+  it('counts time asleep recorded by both the watch and the phone once', () => {
+    const samples = HealthMetricHistory.mergeSources(
+      HealthDataType.SLEEP,
+      [
+        { ...sleep(new Date(2026, 9, 12, 23, 0), 8), source: 'watch' },
+        { ...sleep(new Date(2026, 9, 13, 5, 0), 4), source: 'phone' },
+      ],
+      ['watch', 'phone', 'manual']
+    );
+
+    expect(samples.reduce((sum, sample) => sum + sample.value, 0)).toBe(10);
+  });
+
+  it('ignores readings in future buckets and widens the chart to fit', () => {
+    const points = HealthMetricHistory.aggregate(
+      HealthDataType.WEIGHT,
+      HealthMetricHistory.getBuckets('week', now),
+      [reading(new Date(2026, 9, 13, 7), 112.4), reading(new Date(2026, 9, 16, 7), 111)]
+    );
+
+    expect(points[4].value).toBeNull();
+    expect(HealthMetricHistory.getChartRange(HealthDataType.WEIGHT, points)).toEqual({
+      minValue: 50,
+      maxValue: 112.4,
+    });
+    expect(HealthMetricHistory.summarize([])).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/// <reference types="@types/jest" />
+
+import { createHash } from 'crypto';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS } from '../../../constants';
+import type { HealthMetric } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { HealthUploadQueue } from '../HealthUploadQueue';
+
+const mockUpload = jest.fn();
+
+// Records each batch as the arguments the upload mutation was started with
+jest.mock('../../../store', () => ({
+  store: { dispatch: (request: unknown) => request },
+}));
+
+jest.mock('../../../store/api/healthApi', () => ({
+  healthApi: {
+    endpoints: {
+      batchUploadHealthData: {
+        initiate: (args: unknown) => ({ unwrap: () => mockUpload(args), reset: () => {} }),
+      },
+    },
+  },
+}));
+
+jest.mock('../../networkMonitorService', () => ({
+  __esModule: true,
+  default: { isConnected: () => true, addListener: () => () => {} },
+}));
+
+jest.mock('../../../utils/sentryErrorTracker', () => ({
+  sentryTracker: { trackServiceError: jest.fn() },
+}));
+
+jest.mock('expo-crypto', () => {
+  const nodeCrypto = jest.requireActual('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    CryptoEncoding: { BASE64: 'base64' },
+    getRandomBytes: (length: number) => new Uint8Array(nodeCrypto.randomBytes(length)),
+    digestStringAsync: async (_algorithm: string, value: string) =>
+      nodeCrypto.createHash('sha256').update(value, 'utf8').digest('base64'),
+  };
+});
+
+const metric = (value: number, minutesAgo = 0): HealthMetric => ({
+  id: `hr_${value}_${minutesAgo}`,
+  type: HealthDataType.HEART_RATE,
+  value,
+  unit: 'bpm',
+  timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0) - minutesAgo * 60 * 1000),
+  source: 'watch',
+});
+
+// A fresh queue behaves like the app after a restart
+const restartQueue = () => {
+  (HealthUploadQueue as any).instance = undefined;
+  return HealthUploadQueue.getInstance();
+};
+
+const httpError = (status: number) => ({ status, data: { message: `HTTP ${status}` } });
+
+describe('HealthUploadQueue', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('keeps readings across a restart while the backend is unreachable', async () => {
+    mockUpload.mockRejectedValue({ status: 'FETCH_ERROR', error: 'Network request failed' });
+    const queue = restartQueue();
+
+    await queue.enqueue('user-1', [metric(72), metric(75, 5)]);
+    expect(await queue.flush('user-1')).toBe(false);
+    expect(queue.getStatus()).toMatchObject({ pending: 2, failedAttempts: 1 });
+    expect(queue.getStatus().nextRetryAt).toBeGreaterThan(Date.now());
+
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.HEALTH_UPLOAD_QUEUE);
+    expect(stored?.startsWith('hmenc1:')).toBe(true);
+    expect(stored).not.toContain('bpm');
+
+    const restarted = restartQueue();
+    await restarted.load();
+    expect(restarted.getPendingCount('user-1')).toBe(2);
+  });
+
+  it('does not queue the same reading twice', async () => {
+    const queue = restartQueue();
+
+    expect(await queue.enqueue('user-1', [metric(72), metric(75, 5)])).toBe(2);
+    expect(await queue.enqueue('user-1', [metric(72), metric(80, 10)])).toBe(1);
+    expect(queue.getPendingCount()).toBe(3);
+  });
+
+  it('uploads a manual reading once when the health store copy is read back offline', async () => {
+    mockUpload.mockRejectedValue({ status: 'FETCH_ERROR', error: 'Network request failed' });
+    const queue = restartQueue();
+    const manual: HealthMetric = {
+      ...metric(120),
+      type: HealthDataType.BLOOD_PRESSURE,
+      source: 'manual',
+    };
+
+    await queue.enqueue('user-1', [manual]);
+    expect(await queue.flush('user-1')).toBe(false);
+    // The next sync reads it back from HealthKit, attributed to the phone
+    expect(await queue.enqueue('user-1', [{ ...manual, deviceId: 'iPhone' }])).toBe(0);
+
+    mockUpload.mockResolvedValue({ success: true, recordsCreated: 1, errors: [] });
+    expect(await queue.flush('user-1', { force: true })).toBe(true);
+    expect(mockUpload.mock.calls[1][0].data).toHaveLength(1);
+  });
+
+  it('uploads in bounded batches with per-record and per-batch idempotency keys', async () => {
+    mockUpload.mockResolvedValue({ success: true, recordsCreated: 1, errors: [] });
+    const queue = restartQueue();
+
+    await queue.enqueue(
+      'user-1',
+      Array.from({ length: 450 }, (_, index) => metric(60 + (index % 40), index))
+    );
+    expect(await queue.flush('user-1')).toBe(true);
+
+    const batches = mockUpload.mock.calls.map(([args]) => args);
+    expect(batches.map(batch => batch.data.length)).toEqual([200, 200, 50]);
+    expect(new Set(batches.map(batch => batch.idempotencyKey)).size).toBe(3);
+    expect(batches[0]).toMatchObject({ userId: 'user-1' });
+    expect(batches[0].contentDigest).toBe(
+      `sha-256=:${createHash('sha256')
+        .update(JSON.stringify({ data: batches[0].data }))
+        .digest('base64')}:`
+    );
+    expect(batches[0].data[0].idempotencyKey).toBe(
+      HealthUploadQueue.createRecordKey(metric(60, 0))
+    );
+    expect(queue.getStatus().pending).toBe(0);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.HEALTH_UPLOAD_QUEUE)).toBeNull();
+  });
+
+  it('resends a failed batch with the same idempotency key', async () => {
+    mockUpload
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue({ success: true, recordsCreated: 1, errors: [] });
+    const queue = restartQueue();
+
+    await queue.enqueue('user-1', [metric(72)]);
+    await queue.flush('user-1');
+
+    // Still inside the backoff window
+    expect(await restartQueue().flush('user-1')).toBe(false);
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+
+    expect(await HealthUploadQueue.getInstance().flush('user-1', { force: true })).toBe(true);
+    expect(mockUpload.mock.calls[1][0].idempotencyKey).toBe(
+      mockUpload.mock.calls[0][0].idempotencyKey
+    );
+  });
+
+  it('keeps a batch the backend answered without storing', async () => {
+    mockUpload.mockResolvedValueOnce({ success: false, recordsCreated: 0, errors: [] });
+    const queue = restartQueue();
+
+    await queue.enqueue('user-1', [metric(72)]);
+
+    expect(await queue.flush('user-1')).toBe(false);
+    expect(queue.getStatus()).toMatchObject({ pending: 1, failedAttempts: 1 });
+  });
+
+  it('backs off exponentially between failed attempts', async () => {
+    mockUpload.mockRejectedValue(httpError(500));
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const queue = restartQueue();
+    await queue.enqueue('user-1', [metric(72)]);
+
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await queue.flush('user-1', { force: true });
+      delays.push((queue.getStatus().nextRetryAt as number) - Date.now());
+    }
+
+    expect(delays[1]).toBeGreaterThanOrEqual(delays[0] * 2 - 10);
+    expect(delays[2]).toBeGreaterThanOrEqual(delays[1] * 2 - 10);
+    (Math.random as jest.Mock).mockRestore();
+  });
+
+  it('drops batches the backend rejects so later readings still upload', async () => {
+    mockUpload
+      .mockRejectedValueOnce(httpError(422))
+      .mockResolvedValue({ success: true, recordsCreated: 1, errors: [] });
+    const queue = restartQueue();
+
+    await queue.enqueue('user-1', [metric(72)]);
+    await queue.flush('user-1');
+    await queue.enqueue('user-1', [metric(75, 5)]);
+
+    expect(await queue.flush('user-1')).toBe(true);
+    expect(queue.getStatus()).toMatchObject({ pending: 0, rejected: 1, failedAttempts: 0 });
+  });
+
+  it('only uploads readings that belong to the given user', async () => {
+    mockUpload.mockResolvedValue({ success: true, recordsCreated: 1, errors: [] });
+    const queue = restartQueue();
+
+    await queue.enqueue('user-1', [metric(72)]);
+    await queue.enqueue('user-2', [metric(72)]);
+    await queue.flush('user-2');
+
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+    expect(mockUpload.mock.calls[0][0].userId).toBe('user-2');
+    expect(queue.getPendingCount('user-1')).toBe(1);
+  });
+});
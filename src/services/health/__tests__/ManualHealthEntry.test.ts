@@ -0,0 +1,134 @@
+/// <reference types="@types/jest" />
+
+import { HealthDataType } from '../../../types/health';
+import type { ManualEntryInput } from '../ManualHealthEntry';
+import { ManualHealthEntry } from '../ManualHealthEntry';
+
+const mockInitialize = jest.fn();
+const mockRequestPermissions = jest.fn();
+const mockWriteHealthData = jest.fn();
+const mockQueueManualEntry = jest.fn();
+
+jest.mock('../HealthDataService', () => ({
+  HealthDataService: {
+    getInstance: () => ({
+      initialize: mockInitialize,
+      requestPermissions: mockRequestPermissions,
+      writeHealthData: mockWriteHealthData,
+    }),
+  },
+}));
+
+jest.mock('../HealthSyncService', () => ({
+  HealthSyncService: { getInstance: () => ({ queueManualEntry: mockQueueManualEntry }) },
+}));
+
+jest.mock('../../../utils/sentryErrorTracker', () => ({
+  sentryTracker: { trackServiceError: jest.fn() },
+}));
+
+const now = new Date(2026, 9, 14, 15, 0);
+
+const entry = (input: Partial<ManualEntryInput>): ManualEntryInput => ({
+  type: HealthDataType.BLOOD_PRESSURE,
+  value: 120,
+  diastolic: 80,
+  unit: 'mmHg',
+  timestamp: new Date(2026, 9, 14, 8, 30),
+  ...input,
+});
+
+describe('ManualHealthEntry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInitialize.mockResolvedValue(true);
+    mockRequestPermissions.mockResolvedValue(true);
+    mockWriteHealthData.mockResolvedValue(true);
+    mockQueueManualEntry.mockResolvedValue(undefined);
+  });
+
+  it('converts readings to the units the health stores use', () => {
+    expect(
+      ManualHealthEntry.toMetric(
+        entry({ type: HealthDataType.BLOOD_GLUCOSE, value: 5.5, unit: 'mmol/L' })
+      )
+    ).toMatchObject({ value: 99, unit: 'mg/dL', source: 'manual' });
+    expect(
+      ManualHealthEntry.toMetric(entry({ type: HealthDataType.WEIGHT, value: 165, unit: 'lb' }))
+        ?.value
+    ).toBe(74.8);
+    expect(
+      ManualHealthEntry.toMetric(
+        entry({ type: HealthDataType.BODY_TEMPERATURE, value: 100.4, unit: '°F' })
+      )?.value
+    ).toBe(38);
+
+    const bloodPressure = ManualHealthEntry.toMetric(entry({}));
+    expect(bloodPressure).toMatchObject({ value: 120, metadata: { diastolic: 80 } });
+    expect(bloodPressure?.id).toBe(
+      `manual_${HealthDataType.BLOOD_PRESSURE}_${entry({}).timestamp.getTime()}`
+    );
+
+    expect(ManualHealthEntry.toMetric(entry({ unit: 'kPa' }))).toBeNull();
+  });
+
+  it('rejects readings that cannot be right and flags unusual ones', () => {
+    expect(ManualHealthEntry.validate(entry({}), now)).toEqual({ errors: [], warnings: [] });
+
+    expect(ManualHealthEntry.validate(entry({ diastolic: 125 }), now).errors).toEqual([
+      'Diastolic must be lower than systolic',
+    ]);
+    expect(ManualHealthEntry.validate(entry({ diastolic: Number.NaN }), now).errors).toEqual([
+      'Enter the diastolic (lower) reading',
+    ]);
+    expect(
+      ManualHealthEntry.validate(entry({ timestamp: new Date(2026, 9, 14, 16, 0) }), now).errors
+    ).toEqual(['Reading time cannot be in the future']);
+
+    // 115 °F is 46.1 °C, above the viable range
+    expect(
+      ManualHealthEntry.validate(
+        entry({ type: HealthDataType.BODY_TEMPERATURE, value: 115, unit: '°F' }),
+        now
+      ).errors
+    ).toEqual(['Body temperature out of viable range']);
+
+    expect(
+      ManualHealthEntry.validate(
+        entry({ type: HealthDataType.BLOOD_GLUCOSE, value: 15.5, unit: 'mmol/L' }),
+        now
+      )
+    ).toEqual({ errors: [], warnings: ['Blood glucose high (>250 mg/dL)'] });
+    expect(
+      ManualHealthEntry.validate(
+        entry({ type: HealthDataType.BLOOD_GLUCOSE, value: 0, unit: 'mg/dL' }),
+        now
+      ).errors
+    ).toEqual(['Blood glucose out of measurable range (20-600 mg/dL)']);
+  });
+
+  it('writes to the health store before queueing the upload', async () => {
+    const metric = ManualHealthEntry.toMetric(entry({}));
+    if (!metric) throw new Error('Expected a metric');
+
+    await expect(ManualHealthEntry.save('42', metric)).resolves.toEqual({
+      savedToPlatform: true,
+    });
+    expect(mockRequestPermissions).toHaveBeenCalledWith([HealthDataType.BLOOD_PRESSURE]);
+    expect(mockWriteHealthData).toHaveBeenCalledWith(metric);
+    expect(mockQueueManualEntry).toHaveBeenCalledWith('42', metric);
+  });
+
+  it('still uploads a reading the health store would not take', async () => {
+    mockWriteHealthData.mockRejectedValue(new Error('Write permission denied'));
+    const metric = ManualHealthEntry.toMetric(
+      entry({ type: HealthDataType.WEIGHT, value: 70, unit: 'kg' })
+    );
+    if (!metric) throw new Error('Expected a metric');
+
+    await expect(ManualHealthEntry.save('42', metric)).resolves.toEqual({
+      savedToPlatform: false,
+    });
+    expect(mockQueueManualEntry).toHaveBeenCalledWith('42', metric);
+  });
+});
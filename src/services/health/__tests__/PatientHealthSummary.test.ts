@@ -0,0 +1,110 @@
+/// <reference types="@types/jest" />
+
+import type { HealthAlert, HealthMetric } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { PatientHealthSummary } from '../PatientHealthSummary';
+
+const reading = (
+  type: HealthDataType,
+  value: number,
+  timestamp: string,
+  unit = ''
+): HealthMetric => ({
+  id: `${type}_${timestamp}`,
+  type,
+  value,
+  unit,
+  // Timestamps come over the API as strings
+  timestamp: timestamp as unknown as Date,
+  source: 'watch',
+});
+
+const alert = (
+  id: string,
+  type: HealthAlert['type'],
+  healthDataType: HealthDataType,
+  timestamp: string,
+  isRead = false
+): HealthAlert => ({
+  id,
+  type,
+  title: id,
+  message: id,
+  healthDataType,
+  threshold: 100,
+  currentValue: 120,
+  timestamp: new Date(timestamp),
+  isRead,
+});
+
+describe('PatientHealthSummary', () => {
+  describe('getLatestVitals', () => {
+    const data = {
+      heartRate: [
+        reading(HealthDataType.HEART_RATE, 88, '2026-10-16T09:00:00Z', 'bpm'),
+        reading(HealthDataType.HEART_RATE, 72, '2026-10-14T09:00:00Z', 'bpm'),
+      ],
+      bodyTemperature: [reading(HealthDataType.BODY_TEMPERATURE, 37.46, '2026-10-15T08:00:00Z')],
+      bloodGlucose: [reading(HealthDataType.BLOOD_GLUCOSE, 140, '2026-10-15T08:00:00Z')],
+    };
+
+    it('shows the most recent reading with its trend, oldest first', () => {
+      const [heartRate] = PatientHealthSummary.getLatestVitals(data, [HealthDataType.HEART_RATE]);
+
+      expect(heartRate).toEqual(
+        expect.objectContaining({ type: HealthDataType.HEART_RATE, value: 88, unit: 'bpm' })
+      );
+      expect(heartRate.trend.map(point => point.y)).toEqual([72, 88]);
+    });
+
+    it('only includes data types the patient has shared', () => {
+      const vitals = PatientHealthSummary.getLatestVitals(data, [HealthDataType.BODY_TEMPERATURE]);
+
+      expect(vitals.map(vital => vital.type)).toEqual([HealthDataType.BODY_TEMPERATURE]);
+      expect(vitals[0]).toEqual(expect.objectContaining({ value: 37.5, unit: '°C' }));
+    });
+
+    it('skips shared vitals without readings', () => {
+      expect(PatientHealthSummary.getLatestVitals(data, [HealthDataType.WEIGHT])).toEqual([]);
+    });
+  });
+
+  describe('toWeeklySteps', () => {
+    it('totals steps per day for Monday to Sunday of the current week', () => {
+      const now = new Date(2026, 9, 15, 14, 0); // Thursday
+      const week = PatientHealthSummary.toWeeklySteps(
+        [
+          reading(HealthDataType.STEPS, 3000, new Date(2026, 9, 12, 9).toISOString()),
+          reading(HealthDataType.STEPS, 1500, new Date(2026, 9, 12, 18).toISOString()),
+          reading(HealthDataType.STEPS, 6000, new Date(2026, 9, 15, 10).toISOString()),
+          // Last week's Sunday is not part of this week
+          reading(HealthDataType.STEPS, 9000, new Date(2026, 9, 11, 10).toISOString()),
+        ],
+        now
+      );
+
+      expect(week).toHaveLength(7);
+      expect(week.map(day => day.steps)).toEqual([4500, 0, 0, 6000, 0, 0, 0]);
+      expect(week[0].dayName).toBe('Mon');
+      expect(week[3].isToday).toBe(true);
+      expect(week.filter(day => day.isFuture)).toHaveLength(3);
+    });
+  });
+
+  describe('getActiveAlerts', () => {
+    it('lists unread alerts for shared types, critical first then newest', () => {
+      const alerts = PatientHealthSummary.getActiveAlerts(
+        [
+          alert('old-warning', 'warning', HealthDataType.HEART_RATE, '2026-10-14T09:00:00Z'),
+          alert('new-warning', 'warning', HealthDataType.HEART_RATE, '2026-10-16T09:00:00Z'),
+          alert('critical', 'critical', HealthDataType.BLOOD_GLUCOSE, '2026-10-13T09:00:00Z'),
+          alert('read', 'critical', HealthDataType.HEART_RATE, '2026-10-16T10:00:00Z', true),
+          alert('unshared', 'critical', HealthDataType.WEIGHT, '2026-10-16T10:00:00Z'),
+        ],
+        [HealthDataType.HEART_RATE, HealthDataType.BLOOD_GLUCOSE]
+      );
+
+      expect(alerts.map(item => item.id)).toEqual(['critical', 'new-warning', 'old-warning']);
+    });
+  });
+});
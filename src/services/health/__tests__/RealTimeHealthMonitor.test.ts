@@ -0,0 +1,177 @@
+/// <reference types="@types/jest" />
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { store } from '../../../store';
+import type { HealthMetric, HealthThreshold } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { sentryTracker } from '../../../utils/sentryErrorTracker';
+import { RealTimeHealthMonitor } from '../RealTimeHealthMonitor';
+
+const mockRequest = jest.fn();
+
+jest.mock('../../../store', () => ({
+  store: { dispatch: jest.fn() },
+}));
+
+jest.mock('../../../store/api/healthApi', () => ({
+  healthApi: {
+    endpoints: {
+      getPatientThresholds: { initiate: (patientId: string) => ({ patientId }) },
+      updatePatientThresholds: { initiate: (args: unknown) => args },
+    },
+  },
+}));
+
+jest.mock('../HealthDataService', () => ({
+  HealthDataService: {
+    getInstance: () => ({ initialize: jest.fn().mockResolvedValue(true) }),
+  },
+}));
+
+jest.mock('../WearableHealthManager', () => ({
+  wearableHealthManager: { getHealthData: jest.fn().mockResolvedValue([]) },
+}));
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+}));
+
+jest.mock('../../../utils/sentryErrorTracker', () => ({
+  sentryTracker: { trackServiceError: jest.fn() },
+}));
+
+const heartRateLimits: HealthThreshold = {
+  type: HealthDataType.HEART_RATE,
+  min: 45,
+  max: 90,
+  critical_min: 0,
+  critical_max: 130,
+  enabled: true,
+};
+
+const metric = (value: number): HealthMetric => ({
+  id: `hr_${value}`,
+  type: HealthDataType.HEART_RATE,
+  value,
+  unit: 'bpm',
+  timestamp: new Date('2026-03-01T08:00:00Z'),
+  source: 'watch',
+});
+
+const findThreshold = (thresholds: HealthThreshold[], type: HealthDataType) =>
+  thresholds.find(threshold => threshold.type === type);
+
+// A fresh monitor behaves like the app after a restart
+const restartMonitor = () => {
+  (RealTimeHealthMonitor as any).instance = undefined;
+  return RealTimeHealthMonitor.getInstance();
+};
+
+describe('RealTimeHealthMonitor patient thresholds', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    (store.dispatch as jest.Mock).mockImplementation(args => ({
+      unwrap: () => mockRequest(args),
+      unsubscribe: jest.fn(),
+      reset: jest.fn(),
+    }));
+  });
+
+  it('uses the defaults for a patient without doctor-set limits', async () => {
+    const thresholds = await restartMonitor().getPatientThresholds('patient-1');
+
+    expect(findThreshold(thresholds, HealthDataType.HEART_RATE)).toMatchObject({
+      min: 60,
+      max: 100,
+    });
+    expect(thresholds.some(threshold => threshold.patient_specific)).toBe(false);
+  });
+
+  it('overlays synced limits on the defaults and keeps them across a restart', async () => {
+    mockRequest.mockResolvedValue({ thresholds: [heartRateLimits], updated_at: '2026-03-01' });
+
+    const synced = await restartMonitor().syncPatientThresholds('patient-1');
+
+    expect(store.dispatch).toHaveBeenCalledWith({ patientId: 'patient-1' });
+    expect(findThreshold(synced, HealthDataType.HEART_RATE)).toMatchObject({
+      min: 45,
+      max: 90,
+      patient_specific: true,
+    });
+    expect(findThreshold(synced, HealthDataType.OXYGEN_SATURATION)?.patient_specific).toBe(
+      undefined
+    );
+
+    const reloaded = await restartMonitor().getPatientThresholds('patient-1');
+    expect(reloaded).toEqual(synced);
+    expect(await restartMonitor().getPatientThresholds('patient-2')).not.toEqual(synced);
+  });
+
+  it('keeps the cached limits when the backend is unreachable', async () => {
+    mockRequest.mockResolvedValueOnce({ thresholds: [heartRateLimits], updated_at: '2026-03-01' });
+    const monitor = restartMonitor();
+    await monitor.syncPatientThresholds('patient-1');
+
+    mockRequest.mockRejectedValueOnce({ status: 'FETCH_ERROR', error: 'Network request failed' });
+    const thresholds = await monitor.syncPatientThresholds('patient-1');
+
+    expect(findThreshold(thresholds, HealthDataType.HEART_RATE)?.max).toBe(90);
+    expect(sentryTracker.trackServiceError).toHaveBeenCalledWith(
+      'Patient threshold sync failed',
+      expect.objectContaining({ action: 'syncPatientThresholds' })
+    );
+  });
+
+  it('sends doctor changes with a reason and applies them to the running session', async () => {
+    const monitor = restartMonitor();
+    (monitor as any).currentSession = {
+      id: 'session-1',
+      patientId: 'patient-1',
+      thresholds: await monitor.getPatientThresholds('patient-1'),
+    };
+    mockRequest.mockResolvedValue({
+      thresholds: [heartRateLimits],
+      updated_at: '2026-03-01',
+      audit: [{ id: 'audit-1' }],
+    });
+    const onUpdate = jest.fn();
+    monitor.on('thresholdsUpdated', onUpdate);
+
+    await monitor.updateThresholds('patient-1', [heartRateLimits], 'On beta blockers');
+
+    expect(store.dispatch).toHaveBeenCalledWith({
+      patientId: 'patient-1',
+      thresholds: [heartRateLimits],
+      reason: 'On beta blockers',
+    });
+    expect(
+      findThreshold(monitor.getCurrentSession()!.thresholds, HealthDataType.HEART_RATE)
+    ).toMatchObject({ max: 90, patient_specific: true });
+    expect(onUpdate).toHaveBeenCalledWith(expect.objectContaining({ patientId: 'patient-1' }));
+  });
+
+  it('does not apply limits when the backend rejects the change', async () => {
+    mockRequest.mockRejectedValue({ status: 403, data: { message: 'Doctors only' } });
+    const monitor = restartMonitor();
+
+    await expect(monitor.updateThresholds('patient-1', [heartRateLimits])).rejects.toEqual(
+      expect.objectContaining({ status: 403 })
+    );
+    expect(
+      findThreshold(await monitor.getPatientThresholds('patient-1'), HealthDataType.HEART_RATE)?.max
+    ).toBe(100);
+  });
+
+  it('flags readings outside patient limits, including limits set to zero', () => {
+    const monitor = restartMonitor();
+    const detect = (value: number, threshold: HealthThreshold) =>
+      (monitor as any).detectAnomalies(metric(value), threshold);
+
+    const [high] = detect(95, { ...heartRateLimits, patient_specific: true });
+    expect(high).toMatchObject({ severity: 'medium', patientSpecific: true });
+
+    expect(detect(-1, { ...heartRateLimits, min: undefined })[0]?.severity).toBe('critical');
+  });
+});
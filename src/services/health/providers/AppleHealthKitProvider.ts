@@ -0,0 +1,417 @@
+/**
+ * Apple HealthKit Provider
+ *
+ * Implements the HealthProvider interface for Apple HealthKit on iOS, covering
+ * iPhone and Apple Watch data. Samples are read through
+ * @kingstinct/react-native-healthkit and handed to HealthDataNormalizer so iOS
+ * and Android metrics share one format.
+ */
+
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import { Platform } from 'react-native';
+
+import type { HealthMetric, HealthDataRange, HealthPermission } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import { isExpoGo } from '../../../utils/nativeModuleChecker';
+import { sentryTracker } from '../../../utils/sentryErrorTracker';
+import { HealthDataNormalizer } from '../HealthDataNormalizer';
+import type { HealthProvider } from '../WearableHealthManager';
+
+let HealthKit: any = null;
+
+// HealthKit needs device hardware; the native module also crashes on the simulator
+if (Platform.OS === 'ios' && !isExpoGo()) {
+  if (Constants.isDevice) {
+    try {
+      HealthKit = require('@kingstinct/react-native-healthkit');
+    } catch (error) {
+      console.warn('🍎 @kingstinct/react-native-healthkit not available:', error);
+    }
+  } else {
+    console.log('🍎 Skipping HealthKit native module on iOS simulator');
+  }
+}
+
+// HKAuthorizationRequestStatus: `unnecessary` once the user has answered the prompt
+const REQUEST_STATUS_UNNECESSARY = 2;
+
+const SLEEP_ANALYSIS = 'HKCategoryTypeIdentifierSleepAnalysis';
+// Blood pressure is saved as a correlation of a systolic and a diastolic sample
+const BLOOD_PRESSURE_CORRELATION = 'HKCorrelationTypeIdentifierBloodPressure';
+const BLOOD_PRESSURE_DIASTOLIC = 'HKQuantityTypeIdentifierBloodPressureDiastolic';
+// HKCategoryValueSleepAnalysis values that are not sleep
+const SLEEP_IN_BED = 0;
+const SLEEP_AWAKE = 2;
+
+interface QuantityTypeMapping {
+  identifier: string;
+  unit: string;
+  scale?: number; // HealthKit reports percentages as 0-1 fractions
+}
+
+const QUANTITY_TYPES: Partial<Record<HealthDataType, QuantityTypeMapping>> = {
+  [HealthDataType.HEART_RATE]: {
+    identifier: 'HKQuantityTypeIdentifierHeartRate',
+    unit: 'count/min',
+  },
+  [HealthDataType.RESTING_HEART_RATE]: {
+    identifier: 'HKQuantityTypeIdentifierRestingHeartRate',
+    unit: 'count/min',
+  },
+  [HealthDataType.STEPS]: { identifier: 'HKQuantityTypeIdentifierStepCount', unit: 'count' },
+  [HealthDataType.WEIGHT]: { identifier: 'HKQuantityTypeIdentifierBodyMass', unit: 'kg' },
+  [HealthDataType.HEIGHT]: { identifier: 'HKQuantityTypeIdentifierHeight', unit: 'cm' },
+  [HealthDataType.BLOOD_PRESSURE]: {
+    identifier: 'HKQuantityTypeIdentifierBloodPressureSystolic',
+    unit: 'mmHg',
+  },
+  [HealthDataType.BODY_TEMPERATURE]: {
+    identifier: 'HKQuantityTypeIdentifierBodyTemperature',
+    unit: 'degC',
+  },
+  [HealthDataType.OXYGEN_SATURATION]: {
+    identifier: 'HKQuantityTypeIdentifierOxygenSaturation',
+    unit: '%',
+    scale: 100,
+  },
+  [HealthDataType.BLOOD_GLUCOSE]: {
+    identifier: 'HKQuantityTypeIdentifierBloodGlucose',
+    unit: 'mg/dL',
+  },
+  [HealthDataType.DISTANCE]: {
+    identifier: 'HKQuantityTypeIdentifierDistanceWalkingRunning',
+    unit: 'm',
+  },
+  [HealthDataType.CALORIES_BURNED]: {
+    identifier: 'HKQuantityTypeIdentifierActiveEnergyBurned',
+    unit: 'kcal',
+  },
+  [HealthDataType.ACTIVE_ENERGY]: {
+    identifier: 'HKQuantityTypeIdentifierActiveEnergyBurned',
+    unit: 'kcal',
+  },
+  [HealthDataType.RESPIRATORY_RATE]: {
+    identifier: 'HKQuantityTypeIdentifierRespiratoryRate',
+    unit: 'count/min',
+  },
+  [HealthDataType.BODY_FAT_PERCENTAGE]: {
+    identifier: 'HKQuantityTypeIdentifierBodyFatPercentage',
+    unit: '%',
+    scale: 100,
+  },
+};
+
+// Readings a patient may log by hand; everything else is device-measured only
+const WRITABLE_TYPES: HealthDataType[] = [
+  HealthDataType.WEIGHT,
+  HealthDataType.HEIGHT,
+  HealthDataType.BLOOD_PRESSURE,
+  HealthDataType.BODY_TEMPERATURE,
+  HealthDataType.BLOOD_GLUCOSE,
+  HealthDataType.HEART_RATE,
+  HealthDataType.OXYGEN_SATURATION,
+];
+
+export class AppleHealthKitProvider implements HealthProvider {
+  readonly name = 'apple_healthkit';
+  readonly platform = 'ios' as const;
+  readonly priority = 90; // High priority on iOS
+  readonly supportedDataTypes: HealthDataType[] = [
+    ...(Object.keys(QUANTITY_TYPES) as HealthDataType[]),
+    HealthDataType.SLEEP,
+  ];
+
+  private isInitialized = false;
+
+  async initialize(): Promise<boolean> {
+    console.log('🍎 Initializing Apple HealthKit provider...');
+
+    this.isInitialized = await this.isAvailable();
+    if (!this.isInitialized) {
+      console.warn('🍎 HealthKit is not available on this device');
+    }
+    return this.isInitialized;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (Platform.OS !== 'ios' || !HealthKit) return false;
+
+    try {
+      return Boolean(await HealthKit.isHealthDataAvailable());
+    } catch (error) {
+      console.warn('🍎 Error checking HealthKit availability:', error);
+      return false;
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    console.log('🍎 Cleaning up Apple HealthKit provider...');
+    this.isInitialized = false;
+  }
+
+  /**
+   * iOS never reveals whether read access was granted, only whether the user
+   * has already answered the prompt. A type counts as granted once answered;
+   * denied types then simply return no samples.
+   */
+  async checkPermissions(dataTypes: HealthDataType[]): Promise<HealthPermission[]> {
+    return Promise.all(
+      dataTypes.map(async type => {
+        const identifier = this.getTypeIdentifier(type);
+        let granted = false;
+
+        if (this.isInitialized && identifier) {
+          try {
+            const status = await HealthKit.getRequestStatusForAuthorization(
+              [identifier],
+              this.supportsWriting(type) ? [identifier] : []
+            );
+            granted = status === REQUEST_STATUS_UNNECESSARY;
+          } catch (error) {
+            console.warn(`🍎 Failed to check HealthKit authorization for ${type}:`, error);
+          }
+        }
+
+        return {
+          type,
+          read: identifier !== null,
+          write: this.supportsWriting(type),
+          granted,
+        };
+      })
+    );
+  }
+
+  async requestPermissions(dataTypes: HealthDataType[]): Promise<boolean> {
+    console.log(`🍎 Requesting HealthKit permissions for: [${dataTypes.join(', ')}]`);
+
+    if (!this.isInitialized && !(await this.initialize())) {
+      return false;
+    }
+
+    const toRead = new Set<string>();
+    const toShare = new Set<string>();
+    for (const type of dataTypes) {
+      const identifier = this.getTypeIdentifier(type);
+      if (!identifier) {
+        console.warn(`🍎 Skipping unsupported data type: ${type}`);
+        continue;
+      }
+      const identifiers =
+        type === HealthDataType.BLOOD_PRESSURE
+          ? [identifier, BLOOD_PRESSURE_DIASTOLIC]
+          : [identifier];
+      identifiers.forEach(id => {
+        toRead.add(id);
+        if (this.supportsWriting(type)) {
+          toShare.add(id);
+        }
+      });
+    }
+
+    if (toRead.size === 0) {
+      console.warn('🍎 No valid permission requests');
+      return false;
+    }
+
+    try {
+      await HealthKit.requestAuthorization(Array.from(toRead), Array.from(toShare));
+      return true;
+    } catch (error) {
+      console.error('🍎 HealthKit permission request failed:', error);
+      sentryTracker.trackServiceError(
+        error instanceof Error ? error : 'HealthKit permission request failed',
+        {
+          service: 'appleHealthKitProvider',
+          action: 'requestPermissions',
+          additional: { dataTypes },
+        }
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Native errors propagate so WearableHealthManager can classify and retry them
+   */
+  async readHealthData(
+    dataType: HealthDataType,
+    options: HealthDataRange
+  ): Promise<HealthMetric[]> {
+    if (!this.isInitialized) {
+      console.error('🍎 HealthKit not initialized');
+      return [];
+    }
+
+    const samples =
+      dataType === HealthDataType.SLEEP
+        ? await this.readSleepSamples(options)
+        : await this.readQuantitySamples(dataType, options);
+
+    if (samples.length === 0) {
+      console.log(`🍎 No ${dataType} data found`);
+      return [];
+    }
+
+    const result = HealthDataNormalizer.normalizeHealthData(samples, dataType, 'ios', this.name);
+    if (result.warnings.length > 0) {
+      console.warn(`🍎 ${dataType} normalization warnings:`, result.warnings);
+    }
+
+    const metrics = result.normalizedData ?? [];
+    if (dataType === HealthDataType.BLOOD_PRESSURE) {
+      await this.attachDiastolic(metrics, options);
+    }
+    console.log(`🍎 Found ${metrics.length} ${dataType} records`);
+    return metrics;
+  }
+
+  async writeHealthData(metric: HealthMetric): Promise<boolean> {
+    const mapping = QUANTITY_TYPES[metric.type];
+    if (!this.isInitialized || !mapping || !this.supportsWriting(metric.type)) {
+      console.warn(`🍎 Writing ${metric.type} to HealthKit is not supported`);
+      return false;
+    }
+
+    const metadata = { HKWasUserEntered: metric.source === 'manual' };
+
+    try {
+      if (metric.type === HealthDataType.BLOOD_PRESSURE) {
+        const diastolic = metric.metadata?.diastolic;
+        if (diastolic === undefined) {
+          console.warn('🍎 Blood pressure needs a diastolic reading to be saved');
+          return false;
+        }
+
+        await HealthKit.saveCorrelationSample(
+          BLOOD_PRESSURE_CORRELATION,
+          [
+            { quantityType: mapping.identifier, quantity: metric.value, unit: mapping.unit },
+            { quantityType: BLOOD_PRESSURE_DIASTOLIC, quantity: diastolic, unit: mapping.unit },
+          ],
+          metric.timestamp,
+          metric.timestamp,
+          metadata
+        );
+        return true;
+      }
+
+      await HealthKit.saveQuantitySample(
+        mapping.identifier,
+        mapping.unit,
+        metric.value / (mapping.scale ?? 1),
+        metric.timestamp,
+        metric.timestamp,
+        metadata
+      );
+      return true;
+    } catch (error) {
+      console.error(`🍎 Failed to write ${metric.type} to HealthKit:`, error);
+      sentryTracker.trackServiceError(error instanceof Error ? error : 'HealthKit write failed', {
+        service: 'appleHealthKitProvider',
+        action: 'writeHealthData',
+        additional: { dataType: metric.type },
+      });
+      return false;
+    }
+  }
+
+  async getDeviceInfo(): Promise<{
+    deviceName?: string;
+    deviceModel?: string;
+    osVersion?: string;
+    appVersion?: string;
+  }> {
+    return {
+      deviceName: Device.deviceName ?? 'iPhone',
+      deviceModel: Device.modelName ?? 'Apple HealthKit',
+      osVersion: Device.osVersion ?? String(Platform.Version),
+      appVersion: Constants.expoConfig?.version,
+    };
+  }
+
+  // Helper methods
+
+  private async readQuantitySamples(
+    dataType: HealthDataType,
+    options: HealthDataRange
+  ): Promise<any[]> {
+    const mapping = QUANTITY_TYPES[dataType];
+    if (!mapping) {
+      console.warn(`🍎 Unsupported data type: ${dataType}`);
+      return [];
+    }
+
+    const samples = await HealthKit.queryQuantitySamples(mapping.identifier, {
+      filter: { startDate: options.startDate, endDate: options.endDate },
+      limit: options.limit ?? 0,
+      ascending: true,
+      unit: mapping.unit,
+    });
+
+    return (samples ?? []).map((sample: any) => ({
+      ...this.toNormalizerSample(sample),
+      value: sample.quantity * (mapping.scale ?? 1),
+    }));
+  }
+
+  /**
+   * Blood pressure is read as its systolic samples; the diastolic taken at the
+   * same moment goes in each reading's metadata
+   */
+  private async attachDiastolic(metrics: HealthMetric[], options: HealthDataRange): Promise<void> {
+    const samples = await HealthKit.queryQuantitySamples(BLOOD_PRESSURE_DIASTOLIC, {
+      filter: { startDate: options.startDate, endDate: options.endDate },
+      limit: 0,
+      ascending: true,
+      unit: 'mmHg',
+    });
+
+    const diastolicByTime = new Map<number, number>();
+    (samples ?? []).forEach((sample: any) =>
+      diastolicByTime.set(new Date(sample.startDate).getTime(), sample.quantity)
+    );
+
+    metrics.forEach(metric => {
+      const diastolic = diastolicByTime.get(metric.timestamp.getTime());
+      if (diastolic !== undefined) {
+        metric.metadata = { ...metric.metadata, diastolic };
+      }
+    });
+  }
+
+  private async readSleepSamples(options: HealthDataRange): Promise<any[]> {
+    const samples = await HealthKit.queryCategorySamples(SLEEP_ANALYSIS, {
+      filter: { startDate: options.startDate, endDate: options.endDate },
+      limit: options.limit ?? 0,
+      ascending: true,
+    });
+
+    return (samples ?? [])
+      .filter((sample: any) => sample.value !== SLEEP_IN_BED && sample.value !== SLEEP_AWAKE)
+      .map((sample: any) => this.toNormalizerSample(sample));
+  }
+
+  /**
+   * Shape a HealthKit sample the way HealthDataNormalizer reads iOS items
+   */
+  private toNormalizerSample(sample: any) {
+    const sourceName: string = sample.sourceRevision?.source?.name ?? '';
+    return {
+      startDate: sample.startDate,
+      endDate: sample.endDate,
+      sourceName: sample.metadata?.HKWasUserEntered ? `${sourceName} (user entered)` : sourceName,
+      device: sample.device?.name,
+    };
+  }
+
+  private getTypeIdentifier(dataType: HealthDataType): string | null {
+    if (dataType === HealthDataType.SLEEP) return SLEEP_ANALYSIS;
+    return QUANTITY_TYPES[dataType]?.identifier ?? null;
+  }
+
+  private supportsWriting(dataType: HealthDataType): boolean {
+    return WRITABLE_TYPES.includes(dataType);
+  }
+}
@@ -47,6 +47,18 @@ if (Platform.OS === 'android' && !isExpoGo()) {
   console.log('🤖 Health Connect unavailable in Expo Go - requires development build');
 }
 
+// Readings a patient may log by hand; everything else is device-measured only
+const WRITABLE_TYPES: HealthDataType[] = [
+  HealthDataType.WEIGHT,
+  HealthDataType.BLOOD_PRESSURE,
+  HealthDataType.BODY_TEMPERATURE,
+  HealthDataType.BLOOD_GLUCOSE,
+];
+
+// Health Connect RecordingMethod values
+const RECORDING_METHOD_UNKNOWN = 0;
+const RECORDING_METHOD_MANUAL_ENTRY = 3;
+
 export class GoogleHealthConnectProvider implements HealthProvider {
   readonly name = 'google_health_connect';
   readonly platform = 'android' as const;
@@ -1166,7 +1178,9 @@ export class GoogleHealthConnectProvider implements HealthProvider {
       permissions.push({
         type: dataType,
         read: this.supportsReading(dataType),
-        write: false, // Health dashboard only needs read access
+        write: this.lastGrantedPermissions.some(
+          perm => perm.recordType === recordType && perm.accessType === 'write'
+        ),
         granted,
       });
     }
@@ -1216,6 +1230,12 @@ export class GoogleHealthConnectProvider implements HealthProvider {
         accessType: 'read' as const,
         recordType,
       });
+      if (this.supportsWriting(dataType)) {
+        permissionRequests.push({
+          accessType: 'write' as const,
+          recordType,
+        });
+      }
     }
 
     if (permissionRequests.length === 0) {
@@ -1332,9 +1352,29 @@ export class GoogleHealthConnectProvider implements HealthProvider {
   }
 
   async writeHealthData(metric: HealthMetric): Promise<boolean> {
-    // Health dashboard only needs read access - writing not supported
-    console.warn(`🤖 Write operations not supported for health dashboard`);
-    return false;
+    const recordType = this.mapToHealthConnectType(metric.type);
+    const record = recordType ? this.createHealthConnectRecord(metric, recordType) : null;
+    if (!this.isInitialized || !insertRecords || !record || !this.supportsWriting(metric.type)) {
+      console.warn(`🤖 Writing ${metric.type} to Health Connect is not supported`);
+      return false;
+    }
+
+    try {
+      const recordIds = await insertRecords([record]);
+      console.log(`🤖 Wrote ${metric.type} to Health Connect`);
+      return Array.isArray(recordIds) && recordIds.length > 0;
+    } catch (error) {
+      console.error(`🤖 Failed to write ${metric.type} to Health Connect:`, error);
+      sentryTracker.trackServiceError(
+        error instanceof Error ? error : `Health Connect write failed: ${error}`,
+        {
+          service: 'googleHealthConnectProvider',
+          action: 'writeHealthData',
+          additional: { dataType: metric.type, recordType },
+        }
+      );
+      return false;
+    }
   }
 
   async getDeviceInfo(): Promise<any> {
@@ -1594,6 +1634,8 @@ export class GoogleHealthConnectProvider implements HealthProvider {
           quality: 'medium', // Lower quality due to fallback mapping
           confidence: 0.8,
           context: 'google_health_connect_fallback',
+          endTime: record.endTime ? new Date(record.endTime).getTime() : undefined,
+          diastolic: record.diastolic ? record.diastolic.inMillimetersOfMercury : undefined,
         },
       };
 
@@ -1640,7 +1682,7 @@ export class GoogleHealthConnectProvider implements HealthProvider {
       case HealthDataType.WEIGHT:
         return record.weight ? record.weight.inKilograms : record.value || 0;
       case HealthDataType.BLOOD_PRESSURE:
-        return record.systolic || record.value || 0;
+        return record.systolic ? record.systolic.inMillimetersOfMercury : record.value || 0;
       case HealthDataType.BODY_TEMPERATURE:
         return record.temperature ? record.temperature.inCelsius : record.value || 0;
       case HealthDataType.OXYGEN_SATURATION:
@@ -1654,7 +1696,7 @@ export class GoogleHealthConnectProvider implements HealthProvider {
         return record.value || 0;
       case HealthDataType.BLOOD_GLUCOSE:
         return (
-          (record.level && (record.level.milligramsPerDeciliter || record.level.mgPerDeciliter)) ||
+          (record.level && (record.level.inMilligramsPerDeciliter || record.level.mgPerDeciliter)) ||
           record.value ||
           0
         );
@@ -1697,6 +1739,10 @@ export class GoogleHealthConnectProvider implements HealthProvider {
   }
 
   private determineSource(record: any): 'watch' | 'phone' | 'manual' {
+    if (record.metadata?.recordingMethod === RECORDING_METHOD_MANUAL_ENTRY) {
+      return 'manual';
+    }
+
     const dataOrigin = record.metadata?.dataOrigin?.packageName || '';
 
     // Detect if data comes from a watch/wearable
@@ -1717,44 +1763,57 @@ export class GoogleHealthConnectProvider implements HealthProvider {
     return 'phone';
   }
 
+  /**
+   * Shape a reading as a Health Connect record for insertRecords, or null when
+   * it can't be written (blood pressure needs its diastolic)
+   */
   private createHealthConnectRecord(metric: HealthMetric, recordType: string): any {
     const baseRecord = {
       recordType,
-      startTime: metric.timestamp.toISOString(),
-      endTime: metric.timestamp.toISOString(),
+      time: metric.timestamp.toISOString(),
       metadata: {
-        dataOrigin: {
-          packageName: 'com.lns.hopmed',
-        },
+        clientRecordId: metric.id,
+        recordingMethod:
+          metric.source === 'manual' ? RECORDING_METHOD_MANUAL_ENTRY : RECORDING_METHOD_UNKNOWN,
       },
     };
 
     switch (metric.type) {
-      case HealthDataType.STEPS:
+      case HealthDataType.WEIGHT:
         return {
           ...baseRecord,
-          count: metric.value,
+          weight: { value: metric.value, unit: 'kilograms' },
         };
 
-      case HealthDataType.WEIGHT:
+      case HealthDataType.BLOOD_PRESSURE:
+        if (metric.metadata?.diastolic === undefined) {
+          return null;
+        }
         return {
           ...baseRecord,
-          weight: {
-            inKilograms: metric.value,
-          },
+          systolic: { value: metric.value, unit: 'millimetersOfMercury' },
+          diastolic: { value: metric.metadata.diastolic, unit: 'millimetersOfMercury' },
+          bodyPosition: 0, // UNKNOWN
+          measurementLocation: 0, // UNKNOWN
         };
 
-      case HealthDataType.HEART_RATE:
+      case HealthDataType.BODY_TEMPERATURE:
         return {
           ...baseRecord,
-          beatsPerMinute: metric.value,
+          temperature: { value: metric.value, unit: 'celsius' },
         };
 
-      default:
+      case HealthDataType.BLOOD_GLUCOSE:
         return {
           ...baseRecord,
-          value: metric.value,
+          level: { value: metric.value, unit: 'milligramsPerDeciliter' },
+          specimenSource: 0, // UNKNOWN
+          mealType: 0, // UNKNOWN
+          relationToMeal: 0, // UNKNOWN
         };
+
+      default:
+        return null;
     }
   }
 
@@ -1763,8 +1822,7 @@ export class GoogleHealthConnectProvider implements HealthProvider {
   }
 
   private supportsWriting(dataType: HealthDataType): boolean {
-    // Health dashboard only needs read access
-    return false;
+    return WRITABLE_TYPES.includes(dataType);
   }
 
   /**
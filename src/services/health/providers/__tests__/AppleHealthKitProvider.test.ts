@@ -0,0 +1,278 @@
+/**
+ * Tests for the Apple HealthKit provider
+ * The native module is mocked at the require boundary, like the Health Connect tests
+ */
+
+import type { HealthMetric } from '../../../../types/health';
+import { HealthDataType } from '../../../../types/health';
+import { AppleHealthKitProvider } from '../AppleHealthKitProvider';
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios', Version: '17.4' },
+}));
+
+jest.mock('expo-constants', () => ({
+  isDevice: true,
+  expoConfig: { version: '2.3.0' },
+}));
+
+jest.mock('../../../../utils/nativeModuleChecker', () => ({
+  isExpoGo: jest.fn(() => false),
+}));
+
+jest.mock('../../../../utils/sentryErrorTracker', () => ({
+  sentryTracker: {
+    trackServiceError: jest.fn(),
+    trackCriticalError: jest.fn(),
+  },
+}));
+
+// Factory runs when the provider module loads, before this file's consts exist
+jest.mock(
+  '@kingstinct/react-native-healthkit',
+  () => ({
+    isHealthDataAvailable: jest.fn(),
+    getRequestStatusForAuthorization: jest.fn(),
+    requestAuthorization: jest.fn(),
+    queryQuantitySamples: jest.fn(),
+    queryCategorySamples: jest.fn(),
+    saveQuantitySample: jest.fn(),
+    saveCorrelationSample: jest.fn(),
+  }),
+  { virtual: true }
+);
+
+const mockHealthKit = jest.requireMock('@kingstinct/react-native-healthkit');
+
+const range = {
+  startDate: new Date('2026-03-01T00:00:00Z'),
+  endDate: new Date('2026-03-02T00:00:00Z'),
+};
+
+const sample = (quantity: number, startDate: string) => ({
+  quantity,
+  startDate: new Date(startDate),
+  endDate: new Date(startDate),
+  sourceRevision: { source: { name: 'Apple Watch' } },
+  device: { name: 'Apple Watch' },
+});
+
+describe('AppleHealthKitProvider', () => {
+  let provider: AppleHealthKitProvider;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockHealthKit.isHealthDataAvailable.mockResolvedValue(true);
+    mockHealthKit.getRequestStatusForAuthorization.mockResolvedValue(2);
+    mockHealthKit.requestAuthorization.mockResolvedValue(true);
+    mockHealthKit.queryQuantitySamples.mockResolvedValue([]);
+    mockHealthKit.queryCategorySamples.mockResolvedValue([]);
+    mockHealthKit.saveQuantitySample.mockResolvedValue(true);
+    mockHealthKit.saveCorrelationSample.mockResolvedValue(true);
+
+    provider = new AppleHealthKitProvider();
+    await provider.initialize();
+  });
+
+  it('is unavailable when HealthKit reports no health data', async () => {
+    mockHealthKit.isHealthDataAvailable.mockResolvedValue(false);
+
+    const unavailable = new AppleHealthKitProvider();
+    expect(await unavailable.initialize()).toBe(false);
+    expect(await unavailable.readHealthData(HealthDataType.HEART_RATE, range)).toEqual([]);
+    expect(mockHealthKit.queryQuantitySamples).not.toHaveBeenCalled();
+  });
+
+  it('requests read access, plus write access for types patients can log', async () => {
+    expect(
+      await provider.requestPermissions([
+        HealthDataType.STEPS,
+        HealthDataType.WEIGHT,
+        HealthDataType.BLOOD_PRESSURE,
+      ])
+    ).toBe(true);
+
+    expect(mockHealthKit.requestAuthorization).toHaveBeenCalledWith(
+      [
+        'HKQuantityTypeIdentifierStepCount',
+        'HKQuantityTypeIdentifierBodyMass',
+        'HKQuantityTypeIdentifierBloodPressureSystolic',
+        'HKQuantityTypeIdentifierBloodPressureDiastolic',
+      ],
+      [
+        'HKQuantityTypeIdentifierBodyMass',
+        'HKQuantityTypeIdentifierBloodPressureSystolic',
+        'HKQuantityTypeIdentifierBloodPressureDiastolic',
+      ]
+    );
+  });
+
+  it('treats a type as granted once the user has answered the prompt', async () => {
+    mockHealthKit.getRequestStatusForAuthorization
+      .mockResolvedValueOnce(2) // unnecessary
+      .mockResolvedValueOnce(1); // shouldRequest
+
+    const permissions = await provider.checkPermissions([
+      HealthDataType.HEART_RATE,
+      HealthDataType.STEPS,
+    ]);
+
+    expect(permissions).toEqual([
+      { type: HealthDataType.HEART_RATE, read: true, write: true, granted: true },
+      { type: HealthDataType.STEPS, read: true, write: false, granted: false },
+    ]);
+  });
+
+  it('reads quantity samples through the shared normalizer', async () => {
+    mockHealthKit.queryQuantitySamples.mockResolvedValue([
+      sample(62, '2026-03-01T08:00:00Z'),
+      sample(71, '2026-03-01T09:00:00Z'),
+    ]);
+
+    const metrics = await provider.readHealthData(HealthDataType.HEART_RATE, range);
+
+    expect(mockHealthKit.queryQuantitySamples).toHaveBeenCalledWith(
+      'HKQuantityTypeIdentifierHeartRate',
+      expect.objectContaining({
+        filter: { startDate: range.startDate, endDate: range.endDate },
+        unit: 'count/min',
+      })
+    );
+    expect(metrics.map(metric => metric.value)).toEqual([62, 71]);
+    expect(metrics[0]).toMatchObject({
+      type: HealthDataType.HEART_RATE,
+      unit: 'bpm',
+      source: 'watch',
+      deviceId: 'Apple Watch',
+    });
+  });
+
+  it('converts HealthKit fractions to percentages', async () => {
+    mockHealthKit.queryQuantitySamples.mockResolvedValue([sample(0.97, '2026-03-01T08:00:00Z')]);
+
+    const [metric] = await provider.readHealthData(HealthDataType.OXYGEN_SATURATION, range);
+
+    expect(metric.value).toBeCloseTo(97);
+    expect(metric.unit).toBe('%');
+  });
+
+  it('counts only asleep stages as sleep', async () => {
+    mockHealthKit.queryCategorySamples.mockResolvedValue([
+      { value: 0, startDate: '2026-03-01T22:00:00Z', endDate: '2026-03-02T06:00:00Z' },
+      { value: 3, startDate: '2026-03-01T22:30:00Z', endDate: '2026-03-02T01:00:00Z' },
+      { value: 2, startDate: '2026-03-02T01:00:00Z', endDate: '2026-03-02T01:10:00Z' },
+      { value: 5, startDate: '2026-03-02T01:10:00Z', endDate: '2026-03-02T02:00:00Z' },
+    ]);
+
+    const metrics = await provider.readHealthData(HealthDataType.SLEEP, range);
+
+    expect(mockHealthKit.queryCategorySamples).toHaveBeenCalledWith(
+      'HKCategoryTypeIdentifierSleepAnalysis',
+      expect.any(Object)
+    );
+    expect(metrics.map(metric => metric.value)).toEqual([150, 50]);
+  });
+
+  it('pairs blood pressure readings with the diastolic taken at the same time', async () => {
+    mockHealthKit.queryQuantitySamples.mockImplementation((identifier: string) =>
+      Promise.resolve(
+        identifier === 'HKQuantityTypeIdentifierBloodPressureDiastolic'
+          ? [sample(78, '2026-03-01T08:00:00Z')]
+          : [sample(121, '2026-03-01T08:00:00Z'), sample(130, '2026-03-01T12:00:00Z')]
+      )
+    );
+
+    const metrics = await provider.readHealthData(HealthDataType.BLOOD_PRESSURE, range);
+
+    expect(mockHealthKit.queryQuantitySamples).toHaveBeenCalledWith(
+      'HKQuantityTypeIdentifierBloodPressureDiastolic',
+      expect.objectContaining({ unit: 'mmHg' })
+    );
+    expect(metrics.map(metric => [metric.value, metric.metadata?.diastolic])).toEqual([
+      [121, 78],
+      [130, undefined],
+    ]);
+  });
+
+  it('lets native read errors reach the manager for retry', async () => {
+    mockHealthKit.queryQuantitySamples.mockRejectedValue(new Error('Health data access denied'));
+
+    await expect(provider.readHealthData(HealthDataType.STEPS, range)).rejects.toThrow(
+      'Health data access denied'
+    );
+  });
+
+  it('writes manual readings and refuses device-only types', async () => {
+    const timestamp = new Date('2026-03-01T08:00:00Z');
+
+    expect(
+      await provider.writeHealthData({
+        id: 'w1',
+        type: HealthDataType.WEIGHT,
+        value: 72.5,
+        unit: 'kg',
+        timestamp,
+        source: 'manual',
+      })
+    ).toBe(true);
+    expect(mockHealthKit.saveQuantitySample).toHaveBeenCalledWith(
+      'HKQuantityTypeIdentifierBodyMass',
+      'kg',
+      72.5,
+      timestamp,
+      timestamp,
+      { HKWasUserEntered: true }
+    );
+
+    expect(
+      await provider.writeHealthData({
+        id: 's1',
+        type: HealthDataType.STEPS,
+        value: 500,
+        unit: 'steps',
+        timestamp,
+        source: 'manual',
+      })
+    ).toBe(false);
+    expect(mockHealthKit.saveQuantitySample).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves blood pressure as a systolic/diastolic correlation', async () => {
+    const timestamp = new Date('2026-03-01T08:00:00Z');
+    const bloodPressure: HealthMetric = {
+      id: 'bp1',
+      type: HealthDataType.BLOOD_PRESSURE,
+      value: 120,
+      unit: 'mmHg',
+      timestamp,
+      source: 'manual',
+    };
+
+    expect(await provider.writeHealthData({ ...bloodPressure, metadata: { diastolic: 80 } })).toBe(
+      true
+    );
+    expect(mockHealthKit.saveCorrelationSample).toHaveBeenCalledWith(
+      'HKCorrelationTypeIdentifierBloodPressure',
+      [
+        {
+          quantityType: 'HKQuantityTypeIdentifierBloodPressureSystolic',
+          quantity: 120,
+          unit: 'mmHg',
+        },
+        {
+          quantityType: 'HKQuantityTypeIdentifierBloodPressureDiastolic',
+          quantity: 80,
+          unit: 'mmHg',
+        },
+      ],
+      timestamp,
+      timestamp,
+      { HKWasUserEntered: true }
+    );
+    expect(mockHealthKit.saveQuantitySample).not.toHaveBeenCalled();
+
+    // Half a reading isn't saved
+    expect(await provider.writeHealthData(bloodPressure)).toBe(false);
+    expect(mockHealthKit.saveCorrelationSample).toHaveBeenCalledTimes(1);
+  });
+});
@@ -93,6 +93,8 @@ export const baseApi = createApi({
     'Appointment',
     'HealthMetrics',
     'HealthSync',
+    'HealthThresholds',
+    'HealthSharing',
     'Permission',
     'Notification',
   ],
@@ -1,6 +1,13 @@
 import React from 'react';
 
-import type { HealthDataType, HealthMetric } from '../../types/health';
+import type {
+  HealthAlert,
+  HealthDataType,
+  HealthMetric,
+  HealthThreshold,
+  HealthThresholdAuditEntry,
+  PatientHealthAccess,
+} from '../../types/health';
 
 import { baseApi } from './baseApi';
 
@@ -211,7 +218,7 @@ export const healthApi = baseApi.injectEndpoints({
 
     // Batch upload health data
     batchUploadHealthData: builder.mutation<
-      { success: boolean; recordsCreated: number; errors: any[] },
+      { success: boolean; recordsCreated: number; errors?: any[] },
       {
         userId: string;
         data: {
@@ -219,13 +226,22 @@ export const healthApi = baseApi.injectEndpoints({
           value: number;
           timestamp: string;
           metadata?: Record<string, any>;
+          idempotencyKey?: string;
         }[];
+        // Lets the backend recognise a retried batch it has already stored
+        idempotencyKey?: string;
+        // SHA-256 of the JSON body (`sha-256=:<base64>:`), checked by the backend before storing
+        contentDigest?: string;
       }
     >({
-      query: ({ userId, data }) => ({
+      query: ({ userId, data, idempotencyKey, contentDigest }) => ({
         url: `health/data/${userId}/batch`,
         method: 'POST',
         body: { data },
+        headers: {
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+          ...(contentDigest ? { 'Content-Digest': contentDigest } : {}),
+        },
       }),
       invalidatesTags: (result, error, arg) => [
         { type: 'HealthMetrics', id: 'LIST' },
@@ -284,6 +300,49 @@ export const healthApi = baseApi.injectEndpoints({
         { type: 'HealthMetrics', id: `insights-${arg.userId}` },
       ],
     }),
+
+    // Doctor-set alert limits for a patient (only the overridden types)
+    getPatientThresholds: builder.query<
+      { thresholds: HealthThreshold[]; updated_at: string | null },
+      string
+    >({
+      query: patientId => `health/patients/${patientId}/thresholds`,
+      providesTags: (result, error, patientId) => [{ type: 'HealthThresholds', id: patientId }],
+    }),
+
+    // Replace a patient's limits; the backend records who changed what in the audit trail
+    updatePatientThresholds: builder.mutation<
+      { thresholds: HealthThreshold[]; updated_at: string; audit: HealthThresholdAuditEntry[] },
+      { patientId: string; thresholds: HealthThreshold[]; reason?: string }
+    >({
+      query: ({ patientId, thresholds, reason }) => ({
+        url: `health/patients/${patientId}/thresholds`,
+        method: 'PUT',
+        body: { thresholds, reason },
+      }),
+      invalidatesTags: (result, error, arg) => [{ type: 'HealthThresholds', id: arg.patientId }],
+    }),
+
+    getPatientThresholdAudit: builder.query<{ entries: HealthThresholdAuditEntry[] }, string>({
+      query: patientId => `health/patients/${patientId}/thresholds/audit`,
+      providesTags: (result, error, patientId) => [{ type: 'HealthThresholds', id: patientId }],
+    }),
+
+    // Which of a patient's data types the signed-in doctor has been granted
+    getPatientHealthAccess: builder.query<PatientHealthAccess, string>({
+      query: patientId => `health/patients/${patientId}/access`,
+      providesTags: (result, error, patientId) => [{ type: 'HealthSharing', id: patientId }],
+      keepUnusedDataFor: 60,
+    }),
+
+    // Alerts the patient's monitor raised, limited to the granted data types
+    getPatientHealthAlerts: builder.query<{ alerts: HealthAlert[] }, string>({
+      query: patientId => `health/patients/${patientId}/alerts`,
+      providesTags: (result, error, patientId) => [
+        { type: 'HealthMetrics', id: `alerts-${patientId}` },
+        { type: 'HealthSharing', id: patientId },
+      ],
+    }),
   }),
   overrideExisting: false,
 });
@@ -298,6 +357,11 @@ export const {
   useBatchUploadHealthDataMutation,
   useGetHealthInsightsQuery,
   useUpdateHealthGoalsMutation,
+  useGetPatientThresholdsQuery,
+  useUpdatePatientThresholdsMutation,
+  useGetPatientThresholdAuditQuery,
+  useGetPatientHealthAccessQuery,
+  useGetPatientHealthAlertsQuery,
 
   // Lazy query hooks for manual triggering
   useLazyGetHealthDataQuery,
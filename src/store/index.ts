@@ -7,9 +7,11 @@ import { persistStore, persistReducer, createTransform } from 'redux-persist';
 import { baseApi } from './api/baseApi';
 import appointmentsSlice from './slices/appointmentsSlice';
 import authSlice from './slices/authSlice';
+import chatSlice from './slices/chatSlice';
 import customersSlice from './slices/customersSlice';
 import doctorsSlice from './slices/doctorsSlice';
 import entitiesSlice from './slices/entitiesSlice';
+import healthSharingSlice from './slices/healthSharingSlice';
 import healthSlice from './slices/healthSlice';
 import permissionSlice from './slices/permissionSlice';
 
@@ -99,7 +101,9 @@ const rootReducer = combineReducers({
   doctors: doctorsSlice,
   customers: customersSlice,
   appointments: appointmentsSlice,
+  chat: chatSlice,
   health: healthSlice,
+  healthSharing: healthSharingSlice,
   permissions: permissionSlice,
   entities: entitiesSlice,
   [baseApi.reducerPath]: baseApi.reducer,
@@ -0,0 +1,127 @@
+import { createSelector } from '@reduxjs/toolkit';
+
+import type { Appointment } from '../../types';
+import type { RootState } from '../index';
+
+// Base selector for appointments state
+const selectAppointmentsState = (state: RootState) => state.appointments;
+
+// Core selectors
+export const selectAllAppointments = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.appointments
+);
+
+export const selectSelectedAppointment = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.selectedAppointment
+);
+
+export const selectAppointmentsLoading = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.isLoading
+);
+
+export const selectAppointmentsError = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.error
+);
+
+export const selectAppointmentsStats = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.stats
+);
+
+export const selectAvailableSlots = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.availableSlots
+);
+
+export const selectSlotsLoading = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.isLoadingSlots
+);
+
+export const selectSlotsError = createSelector(
+  [selectAppointmentsState],
+  appointments => appointments.slotsError
+);
+
+// Enhanced selectors
+const ACTIVE_STATUSES: Appointment['status'][] = ['scheduled', 'confirmed', 'in_progress'];
+
+const byDateAsc = (a: Appointment, b: Appointment) =>
+  new Date(a.appointment_date).getTime() - new Date(b.appointment_date).getTime();
+
+export const selectUpcomingAppointmentsList = createSelector(
+  [selectAllAppointments],
+  appointments => {
+    const now = Date.now();
+    return appointments
+      .filter(
+        apt =>
+          ACTIVE_STATUSES.includes(apt.status) &&
+          // Keep in-progress consultations visible even after their start time
+          (apt.status === 'in_progress' || new Date(apt.appointment_date).getTime() >= now)
+      )
+      .sort(byDateAsc);
+  }
+);
+
+export const selectPastAppointments = createSelector(
+  [selectAllAppointments, selectUpcomingAppointmentsList],
+  (appointments, upcoming) => {
+    const upcomingIds = new Set(upcoming.map(apt => apt.appointment_id));
+    return appointments
+      .filter(apt => !upcomingIds.has(apt.appointment_id))
+      .sort((a, b) => byDateAsc(b, a));
+  }
+);
+
+// Resolves an appointment from the list first so details render without a round-trip
+export const selectAppointmentById = (state: RootState, appointmentId: number) => {
+  const selectedAppointment = selectSelectedAppointment(state);
+  if (selectedAppointment?.appointment_id === appointmentId) {
+    return selectedAppointment;
+  }
+  return selectAllAppointments(state).find(apt => apt.appointment_id === appointmentId) ?? null;
+};
+
+// A video consultation can be joined a little before its slot and until the slot ends
+const CONSULTATION_EARLY_JOIN_MS = 15 * 60 * 1000;
+
+// The video appointment a call with this doctor or patient belongs to, if one is due now
+export const selectDueConsultationAppointment = (
+  state: RootState,
+  participant: { doctorId?: string | number; patientId?: string | number },
+  now = Date.now()
+) =>
+  selectAllAppointments(state)
+    .filter(apt => {
+      if (apt.type !== 'video_call' || !ACTIVE_STATUSES.includes(apt.status)) return false;
+      if (
+        participant.doctorId !== undefined &&
+        String(apt.doctor_id) !== String(participant.doctorId)
+      ) {
+        return false;
+      }
+      if (
+        participant.patientId !== undefined &&
+        String(apt.patient_id) !== String(participant.patientId)
+      ) {
+        return false;
+      }
+      if (apt.status === 'in_progress') return true;
+      const start = new Date(apt.appointment_date).getTime();
+      return (
+        now >= start - CONSULTATION_EARLY_JOIN_MS && now <= start + apt.duration_minutes * 60000
+      );
+    })
+    .sort(byDateAsc)
+    .at(0) ?? null;
+
+export const selectAvailableSlotDates = createSelector([selectAvailableSlots], slots =>
+  Object.keys(slots)
+    .filter(date => slots[date].length > 0)
+    .sort()
+);
@@ -0,0 +1,63 @@
+import { createSelector } from '@reduxjs/toolkit';
+
+import type { ChatMessage } from '../../types';
+import type { RootState } from '../index';
+
+import { selectUser } from './authSelectors';
+
+const EMPTY_MESSAGES: ChatMessage[] = [];
+
+// Base selector for chat state
+const selectChatState = (state: RootState) => state.chat;
+
+// Core selectors
+export const selectChatRooms = createSelector([selectChatState], chat => chat.rooms);
+
+export const selectChatLoading = createSelector([selectChatState], chat => chat.isLoading);
+
+export const selectChatMessagesLoading = createSelector(
+  [selectChatState],
+  chat => chat.isLoadingMessages
+);
+
+export const selectChatError = createSelector([selectChatState], chat => chat.error);
+
+export const selectChatConnected = createSelector([selectChatState], chat => chat.isConnected);
+
+export const selectChatOutbox = createSelector([selectChatState], chat => chat.outbox);
+
+// Parameterized selectors
+export const selectChatRoomById = createSelector(
+  [selectChatRooms, (_state: RootState, chatId: string) => chatId],
+  (rooms, chatId) => rooms.find(room => room.chatId === chatId) ?? null
+);
+
+export const selectChatMessages = createSelector(
+  [selectChatState, (_state: RootState, chatId: string) => chatId],
+  (chat, chatId) => chat.messages[chatId] ?? EMPTY_MESSAGES
+);
+
+export const selectHasMoreChatMessages = createSelector(
+  [selectChatState, (_state: RootState, chatId: string) => chatId],
+  (chat, chatId) => chat.hasMoreMessages[chatId] ?? true
+);
+
+// Enhanced selectors
+export const selectChatRoomsByActivity = createSelector([selectChatRooms], rooms =>
+  [...rooms].sort((a, b) =>
+    (b.lastMessageAt ?? b.createdAt).localeCompare(a.lastMessageAt ?? a.createdAt)
+  )
+);
+
+export const selectTotalUnreadChats = createSelector(
+  [selectChatRooms, selectUser],
+  (rooms, user) => {
+    const role = user?.accountType === 'health_specialist' ? 'doctor' : 'patient';
+    return rooms.reduce((total, room) => total + room.unreadCount[role], 0);
+  }
+);
+
+export const selectPendingOutboxCount = createSelector(
+  [selectChatOutbox],
+  outbox => outbox.filter(item => !item.failed).length
+);
@@ -25,51 +25,26 @@ export const selectDoctorsLoading = createSelector(
 
 export const selectDoctorsError = createSelector([selectDoctorsState], doctors => doctors.error);
 
-// Filtered doctors based on search and filters
-export const selectFilteredNormalizedDoctors = createSelector(
-  [selectAllNormalizedDoctors, selectDoctorsSearchQuery, selectDoctorsFilters],
-  (doctors, searchQuery, filters) => {
-    let filtered = doctors;
-
-    // Apply search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        doctor =>
-          `${doctor.firstName} ${doctor.lastName}`.toLowerCase().includes(query) ||
-          doctor.specialistType.toLowerCase().includes(query) ||
-          doctor.email.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply filters
-    if (filters.specialty) {
-      filtered = filtered.filter(doctor => doctor.specialistType === filters.specialty);
-    }
-
-    if (filters.onlineOnly) {
-      filtered = filtered.filter(doctor => doctor.isOnline);
-    }
-
-    if (filters.verifiedOnly) {
-      filtered = filtered.filter(doctor => doctor.isVerified);
-    }
-
-    if (filters.minRating > 0) {
-      filtered = filtered.filter(doctor => doctor.rating >= filters.minRating);
-    }
-
-    if (filters.maxPrice) {
-      filtered = filtered.filter(doctor => doctor.teleconsultationFee <= filters.maxPrice!);
-    }
-
-    return filtered;
-  }
+export const selectDoctorsLoadingMore = createSelector(
+  [selectDoctorsState],
+  doctors => doctors.isLoadingMore
 );
 
+export const selectDoctorsPagination = createSelector(
+  [selectDoctorsState],
+  doctors => doctors.pagination
+);
+
+// When the list was last fetched, and whether it is the copy saved on disk
+export const selectDoctorsCacheStatus = createSelector([selectDoctorsState], doctors => ({
+  lastUpdated: doctors.lastFetch,
+  isFromCache: doctors.isFromCache,
+}));
+
+// Search and filters are applied server-side, so this counts matches across all pages
 export const selectFilteredDoctorsCount = createSelector(
-  [selectFilteredNormalizedDoctors],
-  filteredDoctors => filteredDoctors.length
+  [selectDoctorsPagination],
+  pagination => pagination.total
 );
 
 export const selectOnlineNormalizedDoctors = createSelector([selectAllNormalizedDoctors], doctors =>
@@ -125,52 +100,25 @@ export const selectCustomersError = createSelector(
   customers => customers.error
 );
 
-// Filtered customers based on search and filters
-export const selectFilteredNormalizedCustomers = createSelector(
-  [selectAllNormalizedCustomers, selectCustomersSearchQuery, selectCustomersFilters],
-  (customers, searchQuery, filters) => {
-    let filtered = customers;
-    const currentYear = new Date().getFullYear();
-
-    // Apply search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        customer =>
-          `${customer.firstName} ${customer.lastName}`.toLowerCase().includes(query) ||
-          customer.email.toLowerCase().includes(query) ||
-          customer.phoneNumber?.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply filters
-    if (filters.onlineOnly) {
-      filtered = filtered.filter(customer => customer.isOnline);
-    }
-
-    if (filters.verifiedOnly) {
-      filtered = filtered.filter(customer => customer.emailVerified);
-    }
-
-    if (filters.ageRange) {
-      filtered = filtered.filter(customer => {
-        if (!customer.dateOfBirth) return false;
-        const age = currentYear - new Date(customer.dateOfBirth).getFullYear();
-        return age >= filters.ageRange!.min && age <= filters.ageRange!.max;
-      });
-    }
-
-    if (filters.gender) {
-      filtered = filtered.filter(customer => customer.gender === filters.gender);
-    }
-
-    return filtered;
-  }
+export const selectCustomersLoadingMore = createSelector(
+  [selectCustomersState],
+  customers => customers.isLoadingMore
+);
+
+export const selectCustomersPagination = createSelector(
+  [selectCustomersState],
+  customers => customers.pagination
 );
 
+export const selectCustomersCacheStatus = createSelector([selectCustomersState], customers => ({
+  lastUpdated: customers.lastFetch,
+  isFromCache: customers.isFromCache,
+}));
+
+// Search and filters are applied server-side, so this counts matches across all pages
 export const selectFilteredCustomersCount = createSelector(
-  [selectFilteredNormalizedCustomers],
-  filteredCustomers => filteredCustomers.length
+  [selectCustomersPagination],
+  pagination => pagination.total
 );
 
 export const selectOnlineNormalizedCustomers = createSelector(
@@ -265,25 +213,23 @@ export const selectCustomersLoadingStatesNormalized = createSelector(
 );
 
 // Optimized selectors for list rendering (memoized and filtered for essential props only)
-export const selectOptimizedDoctorsForList = createSelector(
-  [selectFilteredNormalizedDoctors],
-  doctors =>
-    doctors.map(doctor => ({
-      id: doctor.id,
-      firstName: doctor.firstName,
-      lastName: doctor.lastName,
-      specialistType: doctor.specialistType,
-      rating: doctor.rating,
-      totalReviews: doctor.totalReviews,
-      teleconsultationFee: doctor.teleconsultationFee,
-      isOnline: doctor.isOnline,
-      isVerified: doctor.isVerified,
-      profilePicture: doctor.profilePicture,
-    }))
+export const selectOptimizedDoctorsForList = createSelector([selectAllNormalizedDoctors], doctors =>
+  doctors.map(doctor => ({
+    id: doctor.id,
+    firstName: doctor.firstName,
+    lastName: doctor.lastName,
+    specialistType: doctor.specialistType,
+    rating: doctor.rating,
+    totalReviews: doctor.totalReviews,
+    teleconsultationFee: doctor.teleconsultationFee,
+    isOnline: doctor.isOnline,
+    isVerified: doctor.isVerified,
+    profilePicture: doctor.profilePicture,
+  }))
 );
 
 export const selectOptimizedCustomersForList = createSelector(
-  [selectFilteredNormalizedCustomers],
+  [selectAllNormalizedCustomers],
   customers =>
     customers.map(customer => ({
       id: customer.id,
@@ -154,6 +154,15 @@ export const selectHealthInsights = createSelector([selectHealthState], health =
 
 export const selectHealthGoals = createSelector([selectHealthState], health => health.goals);
 
+export const selectActiveHealthGoals = createSelector([selectHealthGoals], goals =>
+  goals.filter(goal => goal.isActive)
+);
+
+export const selectHealthGoalProgress = createSelector(
+  [selectHealthState],
+  health => health.goalProgress
+);
+
 // Sync status selectors
 export const selectSyncStatus = createSelector([selectHealthState], health => health.syncStatus);
 
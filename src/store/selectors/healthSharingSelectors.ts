@@ -0,0 +1,52 @@
+import { createSelector } from '@reduxjs/toolkit';
+
+import type { HealthSharingState } from '../slices/healthSharingSlice';
+import { isGrantActive } from '../slices/healthSharingSlice';
+
+// Base selector for health sharing state
+const selectHealthSharingState = (state: { healthSharing: HealthSharingState }) =>
+  state.healthSharing;
+
+// Core selectors
+export const selectHealthSharingGrants = createSelector(
+  [selectHealthSharingState],
+  healthSharing => healthSharing.grants
+);
+
+export const selectHealthSharingLoading = createSelector(
+  [selectHealthSharingState],
+  healthSharing => healthSharing.isLoading
+);
+
+export const selectHealthSharingError = createSelector(
+  [selectHealthSharingState],
+  healthSharing => healthSharing.error
+);
+
+export const selectHealthSharingSavingDoctorIds = createSelector(
+  [selectHealthSharingState],
+  healthSharing => healthSharing.savingDoctorIds
+);
+
+export const selectHealthAccessAudit = createSelector(
+  [selectHealthSharingState],
+  healthSharing => healthSharing.audit
+);
+
+// Grants doctors can use right now, soonest to expire first
+export const selectActiveHealthSharingGrants = createSelector([selectHealthSharingGrants], grants =>
+  grants
+    .filter(grant => isGrantActive(grant))
+    .sort(
+      (a, b) =>
+        (a.expires_at ? new Date(a.expires_at).getTime() : Number.MAX_SAFE_INTEGER) -
+        (b.expires_at ? new Date(b.expires_at).getTime() : Number.MAX_SAFE_INTEGER)
+    )
+);
+
+// Revoked or expired grants, most recently granted first
+export const selectPastHealthSharingGrants = createSelector([selectHealthSharingGrants], grants =>
+  grants
+    .filter(grant => !isGrantActive(grant))
+    .sort((a, b) => new Date(b.granted_at).getTime() - new Date(a.granted_at).getTime())
+);
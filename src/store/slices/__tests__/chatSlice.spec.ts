@@ -0,0 +1,224 @@
+/// <reference types="@types/jest" />
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+
+import { STORAGE_KEYS } from '../../../constants';
+import chatApi from '../../../services/api/chatApi';
+import chatOutboxService from '../../../services/chatOutboxService';
+import chatReducer, {
+  editChatMessage,
+  flushChatOutbox,
+  loadChatOutbox,
+  markChatAsRead,
+  sendChatMessage,
+} from '../chatSlice';
+
+jest.mock('../../../services/api/chatApi', () => ({
+  __esModule: true,
+  default: {
+    sendMessage: jest.fn(),
+    editMessage: jest.fn(),
+    uploadAttachment: jest.fn(),
+  },
+}));
+
+const mockSendMessage = chatApi.sendMessage as jest.Mock;
+const mockUploadAttachment = chatApi.uploadAttachment as jest.Mock;
+
+const patient = { id: 'pat-1', accountType: 'patient' };
+
+const setupStore = () =>
+  configureStore({
+    reducer: {
+      chat: chatReducer,
+      auth: (state = { user: patient }) => state,
+    },
+  });
+
+// Let the un-awaited flush started by send/edit run to completion (timers are faked globally)
+const settle = async () => {
+  for (let i = 0; i < 50; i++) {
+    await Promise.resolve();
+  }
+};
+
+const networkError = () => Object.assign(new Error('Network Error'), { response: undefined });
+
+const serverCopy = (clientMessageId: string, content: string) => ({
+  messageId: 'srv-1',
+  clientMessageId,
+  chatId: 'chat-1',
+  senderId: patient.id,
+  senderRole: 'patient',
+  messageType: 'text',
+  content,
+  timestamp: new Date().toISOString(),
+  readBy: [],
+});
+
+describe('chatSlice outbox', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  it('keeps messages queued and persisted while the backend is unreachable', async () => {
+    mockSendMessage.mockRejectedValue(networkError());
+    const store = setupStore();
+
+    await store.dispatch(
+      sendChatMessage({ chatId: 'chat-1', messageType: 'text', content: 'Feeling better' })
+    );
+    await settle();
+
+    const { outbox, messages } = store.getState().chat;
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].failed).toBeFalsy();
+    expect(messages['chat-1'][0]).toMatchObject({
+      content: 'Feeling better',
+      localStatus: 'pending',
+    });
+
+    const stored = (await AsyncStorage.getItem(STORAGE_KEYS.CHAT_OUTBOX)) ?? '';
+    expect(stored).not.toContain('Feeling better');
+    expect(await chatOutboxService.load()).toHaveLength(1);
+  });
+
+  it('replaces the optimistic message with the server copy once delivered', async () => {
+    mockSendMessage.mockRejectedValueOnce(networkError());
+    const store = setupStore();
+
+    await store.dispatch(
+      sendChatMessage({ chatId: 'chat-1', messageType: 'text', content: 'Thanks doctor' })
+    );
+    await settle();
+    const clientMessageId = store.getState().chat.outbox[0].id;
+
+    mockSendMessage.mockResolvedValueOnce({
+      success: true,
+      data: serverCopy(clientMessageId, 'Thanks doctor'),
+    });
+    await store.dispatch(flushChatOutbox());
+
+    const { outbox, messages } = store.getState().chat;
+    expect(outbox).toHaveLength(0);
+    expect(messages['chat-1']).toHaveLength(1);
+    expect(messages['chat-1'][0].messageId).toBe('srv-1');
+    expect(mockSendMessage).toHaveBeenLastCalledWith(
+      'chat-1',
+      expect.objectContaining({ clientMessageId, content: 'Thanks doctor' })
+    );
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.CHAT_OUTBOX)).toBeNull();
+  });
+
+  it('marks rejected messages as failed without blocking later ones', async () => {
+    mockSendMessage
+      .mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { response: { status: 403 } }))
+      .mockImplementation((_chatId, data) =>
+        Promise.resolve({ success: true, data: serverCopy(data.clientMessageId, data.content) })
+      );
+    const store = setupStore();
+
+    await store.dispatch(
+      sendChatMessage({ chatId: 'chat-1', messageType: 'text', content: 'first' })
+    );
+    await settle();
+    await store.dispatch(
+      sendChatMessage({ chatId: 'chat-1', messageType: 'text', content: 'second' })
+    );
+    await settle();
+
+    const { outbox, messages } = store.getState().chat;
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].failed).toBe(true);
+    expect(messages['chat-1'].find(message => message.content === 'first')?.localStatus).toBe(
+      'failed'
+    );
+  });
+
+  it('uploads attachments once and reuses them when the send is retried', async () => {
+    mockUploadAttachment.mockResolvedValue({
+      success: true,
+      data: {
+        id: 'att-1',
+        fileName: 'scan.pdf',
+        fileSize: 10,
+        mimeType: 'application/pdf',
+        url: 'u',
+      },
+    });
+    mockSendMessage.mockRejectedValueOnce(networkError());
+    const store = setupStore();
+
+    await store.dispatch(
+      sendChatMessage({
+        chatId: 'chat-1',
+        messageType: 'file',
+        content: '',
+        attachments: [
+          {
+            uri: 'file:///scan.pdf',
+            fileName: 'scan.pdf',
+            fileSize: 10,
+            mimeType: 'application/pdf',
+          },
+        ],
+      })
+    );
+    await settle();
+
+    mockSendMessage.mockResolvedValueOnce({ success: true, data: serverCopy('x', '') });
+    await store.dispatch(flushChatOutbox());
+
+    expect(mockUploadAttachment).toHaveBeenCalledTimes(1);
+    expect(mockSendMessage).toHaveBeenLastCalledWith(
+      'chat-1',
+      expect.objectContaining({ attachmentIds: ['att-1'] })
+    );
+  });
+
+  it('rewrites a queued send instead of queueing an edit', async () => {
+    mockSendMessage.mockRejectedValue(networkError());
+    const store = setupStore();
+
+    await store.dispatch(
+      sendChatMessage({ chatId: 'chat-1', messageType: 'text', content: 'tpyo' })
+    );
+    await settle();
+    const messageId = store.getState().chat.outbox[0].id;
+
+    await store.dispatch(editChatMessage({ chatId: 'chat-1', messageId, content: 'typo' }));
+    await settle();
+
+    const { outbox, messages } = store.getState().chat;
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].kind).toBe('send');
+    expect(messages['chat-1'][0].content).toBe('typo');
+  });
+
+  it('restores queued messages after a restart', async () => {
+    mockSendMessage.mockRejectedValue(networkError());
+    const first = setupStore();
+    await first.dispatch(
+      sendChatMessage({ chatId: 'chat-1', messageType: 'text', content: 'still here' })
+    );
+    await settle();
+
+    const restarted = setupStore();
+    await restarted.dispatch(loadChatOutbox());
+
+    expect(restarted.getState().chat.outbox).toHaveLength(1);
+    expect(restarted.getState().chat.messages['chat-1'][0].content).toBe('still here');
+  });
+
+  it('takes read receipts for rooms whose messages were never loaded', () => {
+    const receipt = markChatAsRead.fulfilled(
+      { chatId: 'chat-2', userId: 'doc-1', role: 'doctor', readAt: new Date().toISOString() },
+      'request-1',
+      'chat-2'
+    );
+
+    expect(() => chatReducer(undefined, receipt)).not.toThrow();
+  });
+});
@@ -0,0 +1,226 @@
+/// <reference types="@types/jest" />
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+
+import { STORAGE_KEYS } from '../../../constants';
+import { apiService } from '../../../services/api';
+import entitiesReducer, {
+  fetchNormalizedDoctors,
+  loadCachedDoctors,
+  selectAllNormalizedDoctors,
+  setDoctorsFilters,
+  setDoctorsSearchQuery,
+} from '../entitiesSlice';
+
+jest.mock('../../../services/api', () => ({
+  apiService: { get: jest.fn() },
+}));
+
+jest.mock('../../../services/customersService', () => ({
+  customersService: { getCustomers: jest.fn() },
+}));
+
+const mockGet = apiService.get as jest.Mock;
+
+const doctor = (id: string, rating: number) => ({
+  id,
+  userId: `user-${id}`,
+  firstName: 'Dr.',
+  lastName: id,
+  specialistType: 'doctor',
+  rating,
+  totalReviews: 10,
+  teleconsultationFee: 50,
+  isVerified: true,
+  isOnline: true,
+  email: `${id}@hopmed.com`,
+});
+
+// The backend pages by 2 here so a few fixtures span several pages
+const page = (items: ReturnType<typeof doctor>[], pageNumber: number, total: number) => ({
+  success: true,
+  data: { items, page: pageNumber, limit: 2, total },
+});
+
+const setupStore = () => configureStore({ reducer: { entities: entitiesReducer } });
+
+describe('entitiesSlice doctor pages', () => {
+  beforeEach(async () => {
+    mockGet.mockReset();
+    await AsyncStorage.clear();
+  });
+
+  it('merges later pages into the first and stops when the server has no more', async () => {
+    const store = setupStore();
+    mockGet.mockResolvedValueOnce(page([doctor('a', 4.9), doctor('b', 4.5)], 1, 3));
+    mockGet.mockResolvedValueOnce(page([doctor('c', 4.7)], 2, 3));
+
+    await store.dispatch(fetchNormalizedDoctors());
+    expect(store.getState().entities.doctors.pagination).toEqual({
+      page: 1,
+      total: 3,
+      hasMore: true,
+    });
+
+    await store.dispatch(fetchNormalizedDoctors({ page: 2 }));
+
+    const state = store.getState() as any;
+    expect(selectAllNormalizedDoctors(state).map(d => d.id)).toEqual(['a', 'c', 'b']);
+    expect(state.entities.doctors.pagination).toEqual({ page: 2, total: 3, hasMore: false });
+
+    await store.dispatch(fetchNormalizedDoctors({ page: 3 }));
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends search and filters to the server and restarts from the first page', async () => {
+    const store = setupStore();
+    mockGet.mockResolvedValue(page([doctor('a', 4.9), doctor('b', 4.5)], 1, 40));
+    await store.dispatch(fetchNormalizedDoctors());
+
+    store.dispatch(setDoctorsSearchQuery(' smith '));
+    store.dispatch(setDoctorsFilters({ specialty: 'cardiology', onlineOnly: true, minRating: 4 }));
+    mockGet.mockResolvedValueOnce(page([doctor('c', 4.7)], 1, 1));
+    await store.dispatch(fetchNormalizedDoctors());
+
+    expect(mockGet).toHaveBeenLastCalledWith('/health-specialists', {
+      page: 1,
+      limit: 20,
+      sortBy: 'rating',
+      sortOrder: 'desc',
+      q: 'smith',
+      specialty: 'cardiology',
+      minRating: 4,
+      available: true,
+    });
+    expect(selectAllNormalizedDoctors(store.getState() as any).map(d => d.id)).toEqual(['c']);
+    expect(store.getState().entities.doctors.pagination.total).toBe(1);
+  });
+
+  it('serves the first page from cache unless refreshing', async () => {
+    const store = setupStore();
+    mockGet.mockResolvedValue(page([doctor('a', 4.9)], 1, 1));
+
+    await store.dispatch(fetchNormalizedDoctors());
+    await store.dispatch(fetchNormalizedDoctors());
+    expect(mockGet).toHaveBeenCalledTimes(1);
+
+    await store.dispatch(fetchNormalizedDoctors({ refresh: true }));
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a page that arrives after a newer search started', async () => {
+    const store = setupStore();
+    mockGet.mockResolvedValueOnce(page([doctor('a', 4.9), doctor('b', 4.5)], 1, 4));
+    await store.dispatch(fetchNormalizedDoctors());
+
+    let resolveStale: (value: unknown) => void = () => undefined;
+    mockGet.mockReturnValueOnce(new Promise(resolve => (resolveStale = resolve)));
+    const stale = store.dispatch(fetchNormalizedDoctors({ page: 2 }));
+
+    store.dispatch(setDoctorsSearchQuery('jones'));
+    mockGet.mockResolvedValueOnce(page([doctor('j', 4.2)], 1, 1));
+    await store.dispatch(fetchNormalizedDoctors());
+
+    resolveStale(page([doctor('c', 4.1)], 2, 4));
+    await stale;
+
+    expect(selectAllNormalizedDoctors(store.getState() as any).map(d => d.id)).toEqual(['j']);
+    expect(store.getState().entities.doctors.isLoadingMore).toBe(false);
+  });
+
+  it('treats a bare array from an older backend as the only page', async () => {
+    const store = setupStore();
+    mockGet.mockResolvedValueOnce({ success: true, data: [doctor('a', 4.9), doctor('b', 4.5)] });
+
+    await store.dispatch(fetchNormalizedDoctors());
+
+    expect(store.getState().entities.doctors.pagination).toEqual({
+      page: 1,
+      total: 2,
+      hasMore: false,
+    });
+  });
+});
+
+describe('entitiesSlice offline cache', () => {
+  beforeEach(async () => {
+    mockGet.mockReset();
+    await AsyncStorage.clear();
+  });
+
+  const cachedIds = async () => {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.ENTITY_CACHE_DOCTORS);
+    return stored
+      ? JSON.parse(stored)
+          .items.map((d: { id: string }) => d.id)
+          .sort()
+      : null;
+  };
+
+  it('saves the loaded pages of the unfiltered directory but not search results', async () => {
+    const store = setupStore();
+    mockGet.mockResolvedValueOnce(page([doctor('a', 4.9), doctor('b', 4.5)], 1, 3));
+    mockGet.mockResolvedValueOnce(page([doctor('c', 4.7)], 2, 3));
+
+    await store.dispatch(fetchNormalizedDoctors());
+    await store.dispatch(fetchNormalizedDoctors({ page: 2 }));
+    expect(await cachedIds()).toEqual(['a', 'b', 'c']);
+
+    store.dispatch(setDoctorsSearchQuery('smith'));
+    mockGet.mockResolvedValueOnce(page([doctor('s', 4.1)], 1, 1));
+    await store.dispatch(fetchNormalizedDoctors());
+    expect(await cachedIds()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('renders the saved list on the next launch and revalidates it', async () => {
+    mockGet.mockResolvedValueOnce(page([doctor('a', 4.9), doctor('b', 4.5)], 1, 3));
+    await setupStore().dispatch(fetchNormalizedDoctors());
+
+    const store = setupStore();
+    await store.dispatch(loadCachedDoctors());
+
+    expect(selectAllNormalizedDoctors(store.getState() as any).map(d => d.id)).toEqual(['a', 'b']);
+    expect(store.getState().entities.doctors).toMatchObject({
+      isFromCache: true,
+      pagination: { page: 1, total: 3, hasMore: true },
+    });
+
+    mockGet.mockResolvedValueOnce(page([doctor('a', 4.9)], 1, 1));
+    await store.dispatch(fetchNormalizedDoctors());
+
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    expect(selectAllNormalizedDoctors(store.getState() as any).map(d => d.id)).toEqual(['a']);
+    expect(store.getState().entities.doctors.isFromCache).toBe(false);
+  });
+
+  it('keeps the saved list when revalidating fails offline', async () => {
+    mockGet.mockResolvedValueOnce(page([doctor('a', 4.9)], 1, 1));
+    await setupStore().dispatch(fetchNormalizedDoctors());
+
+    const store = setupStore();
+    await store.dispatch(loadCachedDoctors());
+    mockGet.mockRejectedValueOnce(new Error('Network Error'));
+    await store.dispatch(fetchNormalizedDoctors());
+
+    expect(selectAllNormalizedDoctors(store.getState() as any).map(d => d.id)).toEqual(['a']);
+    expect(store.getState().entities.doctors.isFromCache).toBe(true);
+  });
+
+  it('evicts a saved list older than a week', async () => {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.ENTITY_CACHE_DOCTORS,
+      JSON.stringify({
+        items: [doctor('a', 4.9)],
+        pagination: { page: 1, total: 1, hasMore: false },
+        savedAt: Date.now() - 8 * 24 * 60 * 60 * 1000,
+      })
+    );
+
+    const store = setupStore();
+    await store.dispatch(loadCachedDoctors());
+
+    expect(selectAllNormalizedDoctors(store.getState() as any)).toEqual([]);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.ENTITY_CACHE_DOCTORS)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+/// <reference types="@types/jest" />
+
+import type { HealthAccessAuditEntry, HealthSharingGrant } from '../../../types/health';
+import { HealthDataType } from '../../../types/health';
+import reducer, {
+  fetchHealthAccessAudit,
+  fetchHealthSharingGrants,
+  isGrantActive,
+  revokeHealthSharingGrant,
+  saveHealthSharingGrant,
+} from '../healthSharingSlice';
+
+const grant = (overrides: Partial<HealthSharingGrant> = {}): HealthSharingGrant => ({
+  id: 'grant-1',
+  doctor_id: 'doc-1',
+  doctor_name: 'Dr. Ada Obi',
+  data_types: [HealthDataType.HEART_RATE],
+  granted_at: '2026-10-01T09:00:00Z',
+  expires_at: null,
+  revoked_at: null,
+  ...overrides,
+});
+
+const auditEntry = (id: string): HealthAccessAuditEntry => ({
+  id,
+  grant_id: 'grant-1',
+  actor: { id: 'doc-1', name: 'Dr. Ada Obi', role: 'doctor' },
+  action: 'viewed',
+  data_types: [HealthDataType.HEART_RATE],
+  occurred_at: '2026-10-02T09:00:00Z',
+});
+
+const withGrants = (grants: HealthSharingGrant[]) =>
+  reducer(undefined, { type: fetchHealthSharingGrants.fulfilled.type, payload: grants });
+
+describe('healthSharingSlice', () => {
+  it('mirrors the grants returned by the backend', () => {
+    const state = withGrants([grant()]);
+
+    expect(state.grants).toEqual([grant()]);
+    expect(state.isLoading).toBe(false);
+    expect(state.lastFetched).not.toBeNull();
+  });
+
+  it("replaces a doctor's active grant when sharing with them again", () => {
+    const past = grant({ id: 'grant-0', revoked_at: '2026-09-01T09:00:00Z' });
+    const request = {
+      doctor_id: 'doc-1',
+      data_types: [HealthDataType.HEART_RATE, HealthDataType.SLEEP],
+      expires_at: null,
+    };
+    const saved = grant({ id: 'grant-2', data_types: request.data_types });
+
+    let state = withGrants([grant(), past]);
+    state = reducer(state, {
+      type: saveHealthSharingGrant.pending.type,
+      meta: { arg: request },
+    });
+    expect(state.savingDoctorIds).toEqual(['doc-1']);
+
+    state = reducer(state, {
+      type: saveHealthSharingGrant.fulfilled.type,
+      payload: saved,
+      meta: { arg: request },
+    });
+
+    expect(state.grants.map(item => item.id)).toEqual(['grant-2', 'grant-0']);
+    expect(state.savingDoctorIds).toEqual([]);
+  });
+
+  it('only marks a grant revoked once the backend confirms', () => {
+    const active = grant();
+    let state = withGrants([active]);
+
+    state = reducer(state, {
+      type: revokeHealthSharingGrant.rejected.type,
+      payload: 'Failed to stop sharing',
+      meta: { arg: active },
+    });
+    expect(isGrantActive(state.grants[0])).toBe(true);
+    expect(state.error).toBe('Failed to stop sharing');
+
+    state = reducer(state, {
+      type: revokeHealthSharingGrant.fulfilled.type,
+      payload: { ...active, revoked_at: '2026-10-03T09:00:00Z' },
+      meta: { arg: active },
+    });
+    expect(isGrantActive(state.grants[0])).toBe(false);
+  });
+
+  it('treats expired grants as inactive', () => {
+    const now = new Date('2026-10-10T00:00:00Z').getTime();
+
+    expect(isGrantActive(grant({ expires_at: '2026-10-09T00:00:00Z' }), now)).toBe(false);
+    expect(isGrantActive(grant({ expires_at: '2026-10-11T00:00:00Z' }), now)).toBe(true);
+    expect(isGrantActive(grant({ data_types: [] }), now)).toBe(false);
+  });
+
+  it('appends further access log pages and restarts from the first', () => {
+    const page = (items: HealthAccessAuditEntry[], number: number, hasMore: boolean) => ({
+      type: fetchHealthAccessAudit.fulfilled.type,
+      payload: { items, page: number, limit: 30, total: 3, hasMore },
+    });
+
+    let state = reducer(undefined, page([auditEntry('a'), auditEntry('b')], 1, true));
+    state = reducer(state, page([auditEntry('c')], 2, false));
+    expect(state.audit.entries.map(entry => entry.id)).toEqual(['a', 'b', 'c']);
+    expect(state.audit.hasMore).toBe(false);
+
+    state = reducer(state, page([auditEntry('d')], 1, true));
+    expect(state.audit.entries.map(entry => entry.id)).toEqual(['d']);
+  });
+});
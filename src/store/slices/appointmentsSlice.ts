@@ -8,6 +8,9 @@ interface AppointmentsState {
   appointments: Appointment[];
   upcomingAppointments: Appointment[];
   selectedAppointment: Appointment | null;
+  availableSlots: Record<string, string[]>;
+  isLoadingSlots: boolean;
+  slotsError: string | null;
   isLoading: boolean;
   error: string | null;
   stats: {
@@ -22,6 +25,9 @@ const initialState: AppointmentsState = {
   appointments: [],
   upcomingAppointments: [],
   selectedAppointment: null,
+  availableSlots: {},
+  isLoadingSlots: false,
+  slotsError: null,
   isLoading: false,
   error: null,
   stats: {
@@ -168,6 +174,92 @@ export const updateAppointment = createAsyncThunk(
   }
 );
 
+export const confirmAppointment = createAsyncThunk(
+  'appointments/confirm',
+  async (appointmentId: number, { rejectWithValue }) => {
+    try {
+      const response = await appointmentService.confirmAppointment(appointmentId);
+      if (response.success) {
+        return appointmentId;
+      }
+      return rejectWithValue(response.message || 'Failed to confirm appointment');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to confirm appointment');
+    }
+  }
+);
+
+export const markAppointmentNoShow = createAsyncThunk(
+  'appointments/markNoShow',
+  async (appointmentId: number, { rejectWithValue }) => {
+    try {
+      const response = await appointmentService.markAsNoShow(appointmentId);
+      if (response.success) {
+        return appointmentId;
+      }
+      return rejectWithValue(response.message || 'Failed to mark appointment as no-show');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to mark appointment as no-show');
+    }
+  }
+);
+
+export const fetchAvailableSlots = createAsyncThunk(
+  'appointments/fetchAvailableSlots',
+  async (
+    {
+      doctorId,
+      startDate,
+      endDate,
+      duration = 30,
+    }: {
+      doctorId: number | string;
+      startDate: string;
+      endDate: string;
+      duration?: number;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await appointmentService.getAvailableSlots(
+        doctorId,
+        startDate,
+        endDate,
+        duration
+      );
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to fetch available slots');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch available slots');
+    }
+  }
+);
+
+// Keeps both lists in sync when the backend acknowledges a status-only change
+const applyStatus = (
+  state: AppointmentsState,
+  appointmentId: number,
+  status: Appointment['status']
+) => {
+  const appointment = state.appointments.find(apt => apt.appointment_id === appointmentId);
+  if (appointment) {
+    appointment.status = status;
+  }
+
+  const upcomingAppointment = state.upcomingAppointments.find(
+    apt => apt.appointment_id === appointmentId
+  );
+  if (upcomingAppointment) {
+    upcomingAppointment.status = status;
+  }
+
+  if (state.selectedAppointment?.appointment_id === appointmentId) {
+    state.selectedAppointment.status = status;
+  }
+};
+
 const appointmentsSlice = createSlice({
   name: 'appointments',
   initialState,
@@ -191,6 +283,10 @@ const appointmentsSlice = createSlice({
         upcomingAppointment.status = action.payload.status as any;
       }
     },
+    clearAvailableSlots: state => {
+      state.availableSlots = {};
+      state.slotsError = null;
+    },
     removeAppointmentFromList: (state, action: PayloadAction<number>) => {
       state.appointments = state.appointments.filter(apt => apt.appointment_id !== action.payload);
       state.upcomingAppointments = state.upcomingAppointments.filter(
@@ -211,6 +307,7 @@ const appointmentsSlice = createSlice({
         state.upcomingAppointments.unshift(action.payload);
         state.stats.total += 1;
         state.stats.upcoming += 1;
+        state.availableSlots = {};
         state.error = null;
       })
       .addCase(createAppointment.rejected, (state, action) => {
@@ -282,11 +379,8 @@ const appointmentsSlice = createSlice({
         state.isLoading = false;
         const appointmentId = action.payload;
 
-        // Update status in appointments list
-        const appointment = state.appointments.find(apt => apt.appointment_id === appointmentId);
-        if (appointment) {
-          appointment.status = 'cancelled';
-        }
+        // Update status in appointments list and details view
+        applyStatus(state, appointmentId, 'cancelled');
 
         // Remove from upcoming appointments
         state.upcomingAppointments = state.upcomingAppointments.filter(
@@ -332,6 +426,12 @@ const appointmentsSlice = createSlice({
           state.upcomingAppointments[upcomingIndex] = updatedAppointment;
         }
 
+        if (state.selectedAppointment?.appointment_id === updatedAppointment.appointment_id) {
+          state.selectedAppointment = updatedAppointment;
+        }
+
+        // Slots are stale once one of them has been taken
+        state.availableSlots = {};
         state.error = null;
       })
       .addCase(rescheduleAppointment.rejected, (state, action) => {
@@ -368,6 +468,57 @@ const appointmentsSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Confirm appointment (doctor)
+    builder
+      .addCase(confirmAppointment.pending, state => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(confirmAppointment.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyStatus(state, action.payload, 'confirmed');
+        state.error = null;
+      })
+      .addCase(confirmAppointment.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Mark appointment as no-show (doctor)
+    builder
+      .addCase(markAppointmentNoShow.pending, state => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(markAppointmentNoShow.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyStatus(state, action.payload, 'no_show');
+        state.upcomingAppointments = state.upcomingAppointments.filter(
+          apt => apt.appointment_id !== action.payload
+        );
+        state.error = null;
+      })
+      .addCase(markAppointmentNoShow.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Fetch available slots
+    builder
+      .addCase(fetchAvailableSlots.pending, state => {
+        state.isLoadingSlots = true;
+        state.slotsError = null;
+      })
+      .addCase(fetchAvailableSlots.fulfilled, (state, action) => {
+        state.isLoadingSlots = false;
+        state.availableSlots = action.payload;
+        state.slotsError = null;
+      })
+      .addCase(fetchAvailableSlots.rejected, (state, action) => {
+        state.isLoadingSlots = false;
+        state.slotsError = action.payload as string;
+      });
   },
 });
 
@@ -375,6 +526,7 @@ export const {
   setSelectedAppointment,
   clearError,
   updateAppointmentStatus,
+  clearAvailableSlots,
   removeAppointmentFromList,
 } = appointmentsSlice.actions;
 
@@ -0,0 +1,511 @@
+import type { PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+
+import chatApi from '../../services/api/chatApi';
+import type { OutgoingChatMessage } from '../../services/chatOutboxService';
+import chatOutboxService from '../../services/chatOutboxService';
+import type {
+  ChatAttachment,
+  ChatMessage,
+  ChatOutboxItem,
+  ChatRoom,
+  ChatState,
+  User,
+} from '../../types';
+
+const MESSAGES_PAGE_SIZE = 30;
+
+// Narrow view of the store used by thunks; avoids a runtime import cycle with ../index
+interface ChatThunkState {
+  chat: ChatState;
+  auth: { user: User | null };
+}
+
+const initialState: ChatState = {
+  rooms: [],
+  messages: {},
+  hasMoreMessages: {},
+  activeRoom: null,
+  isLoading: false,
+  isLoadingMessages: false,
+  error: null,
+  isConnected: true,
+  outbox: [],
+  isFlushingOutbox: false,
+};
+
+const getSenderRole = (user: User): ChatMessage['senderRole'] =>
+  user.accountType === 'health_specialist' ? 'doctor' : 'patient';
+
+const persistOutbox = (getState: () => unknown) =>
+  chatOutboxService.save((getState() as ChatThunkState).chat.outbox);
+
+// Async thunks
+export const fetchChatRooms = createAsyncThunk(
+  'chat/fetchRooms',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await chatApi.getChatRooms();
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to fetch conversations');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch conversations');
+    }
+  }
+);
+
+export const openAppointmentChat = createAsyncThunk(
+  'chat/openForAppointment',
+  async (appointmentId: number, { rejectWithValue }) => {
+    try {
+      const response = await chatApi.getOrCreateChatRoom(appointmentId);
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to open conversation');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to open conversation');
+    }
+  }
+);
+
+export const fetchChatMessages = createAsyncThunk(
+  'chat/fetchMessages',
+  async ({ chatId, before }: { chatId: string; before?: string }, { rejectWithValue }) => {
+    try {
+      const response = await chatApi.getMessages(chatId, { before, limit: MESSAGES_PAGE_SIZE });
+      if (response.success && response.data) {
+        return { chatId, before, ...response.data };
+      }
+      return rejectWithValue(response.message || 'Failed to fetch messages');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to fetch messages');
+    }
+  }
+);
+
+export const markChatAsRead = createAsyncThunk(
+  'chat/markAsRead',
+  async (chatId: string, { getState, rejectWithValue }) => {
+    const { user } = (getState() as ChatThunkState).auth;
+    if (!user) {
+      return rejectWithValue('Not signed in');
+    }
+
+    try {
+      const response = await chatApi.markAsRead(chatId);
+      if (response.success) {
+        return {
+          chatId,
+          userId: String(user.id),
+          role: getSenderRole(user),
+          readAt: response.data?.readAt ?? new Date().toISOString(),
+        };
+      }
+      return rejectWithValue(response.message || 'Failed to mark conversation as read');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to mark conversation as read');
+    }
+  }
+);
+
+export const loadChatOutbox = createAsyncThunk('chat/loadOutbox', async () =>
+  chatOutboxService.load()
+);
+
+/**
+ * Deliver queued sends and edits in order.
+ * Stops at the first transient failure so later messages never overtake
+ * earlier ones; rejected items are marked failed and skipped.
+ */
+export const flushChatOutbox = createAsyncThunk(
+  'chat/flushOutbox',
+  async (_, { dispatch, getState }) => {
+    let delivered = 0;
+    const attempted = new Set<string>();
+
+    const nextItem = () =>
+      (getState() as ChatThunkState).chat.outbox.find(
+        item => !item.failed && !attempted.has(item.id)
+      );
+
+    for (let item = nextItem(); item; item = nextItem()) {
+      attempted.add(item.id);
+
+      try {
+        if (item.kind === 'send') {
+          const uploaded = [...(item.uploadedAttachments ?? [])];
+          for (const local of item.localAttachments.slice(uploaded.length)) {
+            const upload = await chatApi.uploadAttachment(item.chatId, {
+              uri: local.uri,
+              fileName: local.fileName,
+              mimeType: local.mimeType,
+              durationMs: local.durationMs,
+            });
+            if (!upload.success || !upload.data) {
+              throw new Error(upload.message || 'Attachment upload was rejected');
+            }
+            uploaded.push(upload.data);
+            dispatch(outboxAttachmentUploaded({ id: item.id, attachment: upload.data }));
+            await persistOutbox(getState);
+          }
+
+          const response = await chatApi.sendMessage(item.chatId, {
+            clientMessageId: item.id,
+            messageType: item.message.messageType,
+            content: item.message.content,
+            replyToId: item.message.replyToId,
+            attachmentIds: uploaded.map(attachment => attachment.id),
+          });
+          if (!response.success || !response.data) {
+            throw new Error(response.message || 'Message was rejected');
+          }
+          dispatch(outboxItemDelivered({ id: item.id, message: response.data }));
+        } else {
+          const response = await chatApi.editMessage(item.chatId, item.messageId, item.content);
+          if (!response.success || !response.data) {
+            throw new Error(response.message || 'Edit was rejected');
+          }
+          dispatch(outboxItemDelivered({ id: item.id, message: response.data }));
+        }
+        delivered += 1;
+        await persistOutbox(getState);
+      } catch (error: any) {
+        const retryable = chatOutboxService.isRetryableError(error);
+        dispatch(
+          outboxItemAttemptFailed({
+            id: item.id,
+            error: error.message || 'Failed to send',
+            failed: !retryable || chatOutboxService.hasExhaustedAttempts(item.attempts + 1),
+          })
+        );
+        await persistOutbox(getState);
+
+        if (retryable) {
+          console.log('📴 Chat outbox paused until the connection recovers');
+          break;
+        }
+      }
+    }
+
+    return delivered;
+  },
+  {
+    condition: (_, { getState }) => !(getState() as ChatThunkState).chat.isFlushingOutbox,
+  }
+);
+
+export const sendChatMessage = createAsyncThunk(
+  'chat/sendMessage',
+  async (outgoing: OutgoingChatMessage, { dispatch, getState, rejectWithValue }) => {
+    const { user } = (getState() as ChatThunkState).auth;
+    if (!user) {
+      return rejectWithValue('Not signed in');
+    }
+
+    const item = chatOutboxService.createSendItem(outgoing, {
+      senderId: String(user.id),
+      senderRole: getSenderRole(user),
+    });
+    dispatch(outboxItemAdded(item));
+    await persistOutbox(getState);
+
+    dispatch(flushChatOutbox());
+    return item.id;
+  }
+);
+
+export const editChatMessage = createAsyncThunk(
+  'chat/editMessage',
+  async (
+    { chatId, messageId, content }: { chatId: string; messageId: string; content: string },
+    { dispatch, getState }
+  ) => {
+    const { outbox } = (getState() as ChatThunkState).chat;
+    const queuedSend = outbox.find(item => item.kind === 'send' && item.id === messageId);
+
+    if (queuedSend) {
+      // Not delivered yet, so rewrite the queued send rather than queueing an edit
+      dispatch(queuedSendEdited({ id: messageId, content }));
+    } else {
+      dispatch(outboxItemAdded(chatOutboxService.createEditItem(chatId, messageId, content)));
+    }
+    await persistOutbox(getState);
+
+    dispatch(flushChatOutbox());
+    return messageId;
+  }
+);
+
+export const retryOutboxItem = createAsyncThunk(
+  'chat/retryOutboxItem',
+  async (id: string, { dispatch, getState }) => {
+    dispatch(outboxItemReset(id));
+    await persistOutbox(getState);
+    dispatch(flushChatOutbox());
+    return id;
+  }
+);
+
+export const discardOutboxItem = createAsyncThunk(
+  'chat/discardOutboxItem',
+  async (id: string, { dispatch, getState }) => {
+    dispatch(outboxItemRemoved(id));
+    await persistOutbox(getState);
+    return id;
+  }
+);
+
+// Server copies replace local ones by id; the list stays in timestamp order
+const upsertMessages = (state: ChatState, chatId: string, incoming: ChatMessage[]) => {
+  const byId = new Map((state.messages[chatId] ?? []).map(message => [message.messageId, message]));
+  incoming.forEach(message => {
+    if (message.clientMessageId && message.clientMessageId !== message.messageId) {
+      byId.delete(message.clientMessageId);
+    }
+    byId.set(message.messageId, message);
+  });
+  state.messages[chatId] = Array.from(byId.values()).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+};
+
+const findMessage = (state: ChatState, chatId: string, messageId: string) =>
+  (state.messages[chatId] ?? []).find(message => message.messageId === messageId);
+
+const upsertRoom = (state: ChatState, room: ChatRoom) => {
+  const index = state.rooms.findIndex(existing => existing.chatId === room.chatId);
+  if (index === -1) {
+    state.rooms.unshift(room);
+  } else {
+    state.rooms[index] = room;
+  }
+};
+
+const updateRoomPreview = (state: ChatState, message: ChatMessage) => {
+  const room = state.rooms.find(existing => existing.chatId === message.chatId);
+  if (room && (!room.lastMessageAt || room.lastMessageAt <= message.timestamp)) {
+    room.lastMessageAt = message.timestamp;
+    room.lastMessage = message.content || message.attachments?.[0]?.fileName;
+  }
+};
+
+const chatSlice = createSlice({
+  name: 'chat',
+  initialState,
+  reducers: {
+    setActiveRoom: (state, action: PayloadAction<string | null>) => {
+      state.activeRoom = action.payload;
+    },
+    setChatConnected: (state, action: PayloadAction<boolean>) => {
+      state.isConnected = action.payload;
+    },
+    clearChatError: state => {
+      state.error = null;
+    },
+    outboxItemAdded: (state, action: PayloadAction<ChatOutboxItem>) => {
+      const item = action.payload;
+      state.outbox.push(item);
+
+      if (item.kind === 'send') {
+        upsertMessages(state, item.chatId, [item.message]);
+        updateRoomPreview(state, item.message);
+      } else {
+        const message = findMessage(state, item.chatId, item.messageId);
+        if (message) {
+          message.content = item.content;
+          message.isEdited = true;
+          message.editedAt = new Date().toISOString();
+        }
+      }
+    },
+    queuedSendEdited: (state, action: PayloadAction<{ id: string; content: string }>) => {
+      const item = state.outbox.find(queued => queued.id === action.payload.id);
+      if (item?.kind !== 'send') return;
+
+      item.message.content = action.payload.content;
+      const message = findMessage(state, item.chatId, item.id);
+      if (message) {
+        message.content = action.payload.content;
+      }
+    },
+    outboxAttachmentUploaded: (
+      state,
+      action: PayloadAction<{ id: string; attachment: ChatAttachment }>
+    ) => {
+      const item = state.outbox.find(queued => queued.id === action.payload.id);
+      if (item?.kind === 'send') {
+        item.uploadedAttachments = [...(item.uploadedAttachments ?? []), action.payload.attachment];
+      }
+    },
+    outboxItemDelivered: (state, action: PayloadAction<{ id: string; message: ChatMessage }>) => {
+      const { id, message } = action.payload;
+      state.outbox = state.outbox.filter(item => item.id !== id);
+      upsertMessages(state, message.chatId, [
+        { ...message, clientMessageId: message.clientMessageId ?? id },
+      ]);
+      updateRoomPreview(state, message);
+    },
+    outboxItemAttemptFailed: (
+      state,
+      action: PayloadAction<{ id: string; error: string; failed: boolean }>
+    ) => {
+      const item = state.outbox.find(queued => queued.id === action.payload.id);
+      if (!item) return;
+
+      item.attempts += 1;
+      item.lastError = action.payload.error;
+      item.failed = action.payload.failed;
+      if (item.kind === 'send' && action.payload.failed) {
+        const message = findMessage(state, item.chatId, item.id);
+        if (message) {
+          message.localStatus = 'failed';
+        }
+      }
+    },
+    outboxItemReset: (state, action: PayloadAction<string>) => {
+      const item = state.outbox.find(queued => queued.id === action.payload);
+      if (!item) return;
+
+      item.attempts = 0;
+      item.failed = false;
+      item.lastError = undefined;
+      if (item.kind === 'send') {
+        const message = findMessage(state, item.chatId, item.id);
+        if (message) {
+          message.localStatus = 'pending';
+        }
+      }
+    },
+    outboxItemRemoved: (state, action: PayloadAction<string>) => {
+      const item = state.outbox.find(queued => queued.id === action.payload);
+      if (!item) return;
+
+      state.outbox = state.outbox.filter(queued => queued.id !== action.payload);
+      if (item.kind === 'send') {
+        state.messages[item.chatId] = (state.messages[item.chatId] ?? []).filter(
+          message => message.messageId !== item.id
+        );
+      }
+    },
+  },
+  extraReducers: builder => {
+    // Fetch chat rooms
+    builder
+      .addCase(fetchChatRooms.pending, state => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchChatRooms.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.rooms = action.payload;
+        state.isConnected = true;
+        state.error = null;
+      })
+      .addCase(fetchChatRooms.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Open chat for an appointment
+    builder
+      .addCase(openAppointmentChat.pending, state => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(openAppointmentChat.fulfilled, (state, action) => {
+        state.isLoading = false;
+        upsertRoom(state, action.payload);
+        state.error = null;
+      })
+      .addCase(openAppointmentChat.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Fetch messages
+    builder
+      .addCase(fetchChatMessages.pending, state => {
+        state.isLoadingMessages = true;
+        state.error = null;
+      })
+      .addCase(fetchChatMessages.fulfilled, (state, action) => {
+        const { chatId, before, messages, hasMore } = action.payload;
+        state.isLoadingMessages = false;
+        upsertMessages(state, chatId, messages);
+        // Only a history page tells us whether older messages remain
+        if (before !== undefined || !(chatId in state.hasMoreMessages)) {
+          state.hasMoreMessages[chatId] = hasMore;
+        }
+        state.isConnected = true;
+        state.error = null;
+      })
+      .addCase(fetchChatMessages.rejected, (state, action) => {
+        state.isLoadingMessages = false;
+        state.error = action.payload as string;
+      });
+
+    // Mark as read
+    builder.addCase(markChatAsRead.fulfilled, (state, action) => {
+      const { chatId, userId, role, readAt } = action.payload;
+      (state.messages[chatId] ?? []).forEach(message => {
+        if (
+          String(message.senderId) !== userId &&
+          !message.readBy.some(receipt => String(receipt.userId) === userId)
+        ) {
+          message.readBy.push({ userId, readAt });
+        }
+      });
+
+      const room = state.rooms.find(existing => existing.chatId === chatId);
+      if (room) {
+        room.unreadCount[role] = 0;
+      }
+    });
+
+    // Restore the outbox and its optimistic messages after a restart
+    builder.addCase(loadChatOutbox.fulfilled, (state, action) => {
+      const known = new Set(state.outbox.map(item => item.id));
+      action.payload
+        .filter(item => !known.has(item.id))
+        .forEach(item => {
+          state.outbox.push(item);
+          if (item.kind === 'send') {
+            upsertMessages(state, item.chatId, [
+              { ...item.message, localStatus: item.failed ? 'failed' : 'pending' },
+            ]);
+          }
+        });
+    });
+
+    // Flush outbox
+    builder
+      .addCase(flushChatOutbox.pending, state => {
+        state.isFlushingOutbox = true;
+      })
+      .addCase(flushChatOutbox.fulfilled, state => {
+        state.isFlushingOutbox = false;
+        state.isConnected = !state.outbox.some(item => !item.failed && item.attempts > 0);
+      })
+      .addCase(flushChatOutbox.rejected, state => {
+        state.isFlushingOutbox = false;
+      });
+  },
+});
+
+export const { setActiveRoom, setChatConnected, clearChatError } = chatSlice.actions;
+
+// Outbox bookkeeping is driven by the thunks above
+const {
+  outboxItemAdded,
+  queuedSendEdited,
+  outboxAttachmentUploaded,
+  outboxItemDelivered,
+  outboxItemAttemptFailed,
+  outboxItemReset,
+  outboxItemRemoved,
+} = chatSlice.actions;
+
+export default chatSlice.reducer;
@@ -26,7 +26,8 @@ export const fetchCustomers = createAsyncThunk(
   'customers/fetchCustomers',
   async (_, { rejectWithValue }) => {
     try {
-      const customers = await customersService.getCustomers();
+      // First page only; the directory screens page through entitiesSlice
+      const { items: customers } = await customersService.getCustomers();
       return customers;
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
@@ -44,7 +44,8 @@ export const fetchDoctors = createAsyncThunk(
   'doctors/fetchDoctors',
   async (_, { rejectWithValue }) => {
     try {
-      const doctors = await doctorsService.getDoctors();
+      // First page only; the directory screens page through entitiesSlice
+      const { items: doctors } = await doctorsService.getDoctors();
       return doctors;
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
@@ -4,11 +4,18 @@ import { createSlice, createEntityAdapter, createAsyncThunk } from '@reduxjs/too
 import type { Customer } from '../../services/customersService';
 import { customersService } from '../../services/customersService';
 import { doctorsService } from '../../services/doctorsService';
+import type { CachedEntityList } from '../../services/entityCacheService';
+import { entityCacheService } from '../../services/entityCacheService';
+import type { PaginatedResponse } from '../../types';
+import { DEFAULT_PAGE_SIZE } from '../../utils/pagination';
 import type { RootState } from '../index';
 
 import type { Doctor } from './doctorsSlice';
 
-// Entity adapters for normalized storage
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Entity adapters for normalized storage. Pages are merged in as they load; the
+// backend is asked for the same order the comparers apply.
 const doctorsAdapter = createEntityAdapter<Doctor>({
   // Sort by rating (descending), then by name
   sortComparer: (a, b) => {
@@ -26,12 +33,35 @@ const customersAdapter = createEntityAdapter<Customer>({
   },
 });
 
+export interface EntityPageRequest {
+  /** Page to load; page 1 replaces what is loaded, later pages are merged in */
+  page?: number;
+  /** Skip the first-page cache, e.g. for pull-to-refresh */
+  refresh?: boolean;
+}
+
+interface EntityPagination {
+  /** Last page loaded */
+  page: number;
+  /** Matches for the current search and filters across all pages */
+  total: number;
+  hasMore: boolean;
+}
+
+type EntityPageResult<T> = (PaginatedResponse<T> & { cached: false }) | { cached: true };
+
 interface DoctorsEntityState {
   searchQuery: string;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
+  pagination: EntityPagination;
+  latestRequestId: string | null;
+  /** Showing the copy saved on disk; cleared once the first page is fetched again */
+  isFromCache: boolean;
   filters: {
     specialty?: string;
+    hospital?: string;
     onlineOnly: boolean;
     verifiedOnly: boolean;
     minRating: number;
@@ -43,7 +73,12 @@ interface DoctorsEntityState {
 interface CustomersEntityState {
   searchQuery: string;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
+  pagination: EntityPagination;
+  latestRequestId: string | null;
+  /** Showing the copy saved on disk; cleared once the first page is fetched again */
+  isFromCache: boolean;
   filters: {
     onlineOnly: boolean;
     verifiedOnly: boolean;
@@ -53,15 +88,33 @@ interface CustomersEntityState {
   lastFetch: number | null;
 }
 
+export type DoctorsFilters = DoctorsEntityState['filters'];
+export type CustomersFilters = CustomersEntityState['filters'];
+
 interface EntitiesState {
   doctors: DoctorsEntityState & ReturnType<typeof doctorsAdapter.getInitialState>;
   customers: CustomersEntityState & ReturnType<typeof customersAdapter.getInitialState>;
 }
 
+// Narrow view of the store used by thunks
+interface EntitiesThunkState {
+  entities: EntitiesState;
+}
+
+const initialPagination: EntityPagination = {
+  page: 0,
+  total: 0,
+  hasMore: false,
+};
+
 const initialDoctorsState: DoctorsEntityState = {
   searchQuery: '',
   isLoading: false,
+  isLoadingMore: false,
   error: null,
+  pagination: initialPagination,
+  latestRequestId: null,
+  isFromCache: false,
   filters: {
     onlineOnly: false,
     verifiedOnly: false,
@@ -73,7 +126,11 @@ const initialDoctorsState: DoctorsEntityState = {
 const initialCustomersState: CustomersEntityState = {
   searchQuery: '',
   isLoading: false,
+  isLoadingMore: false,
   error: null,
+  pagination: initialPagination,
+  latestRequestId: null,
+  isFromCache: false,
   filters: {
     onlineOnly: false,
     verifiedOnly: false,
@@ -86,59 +143,193 @@ const initialState: EntitiesState = {
   customers: customersAdapter.getInitialState(initialCustomersState),
 };
 
+// Only the unfiltered directory is cached; searches and filtered views always go to the server
+const isDefaultView = <F extends object>(searchQuery: string, filters: F, defaults: F) =>
+  !searchQuery.trim() &&
+  (Object.keys({ ...filters, ...defaults }) as (keyof F)[]).every(
+    key => filters[key] === defaults[key]
+  );
+
+const toPagination = ({ page, total, hasMore }: PaginatedResponse<unknown>): EntityPagination => ({
+  page,
+  total,
+  hasMore,
+});
+
+// Save what the list will hold once this page is merged in
+const cachePage = <T extends { id: string }>(
+  list: CachedEntityList,
+  loaded: Record<string, T | undefined>,
+  result: PaginatedResponse<T>
+) => {
+  const merged = result.page <= 1 ? {} : { ...loaded };
+  result.items.forEach(item => {
+    merged[item.id] = item;
+  });
+
+  return entityCacheService.save(list, {
+    items: Object.values(merged).filter((item): item is T => item !== undefined),
+    pagination: toPagination(result),
+    savedAt: Date.now(),
+  });
+};
+
+// Later pages are requested one at a time, only once the first page is in and while more exist
+const canLoadPage = (
+  page: number,
+  state: Pick<DoctorsEntityState, 'isLoading' | 'isLoadingMore' | 'pagination'>
+) => page === 1 || (!state.isLoading && !state.isLoadingMore && state.pagination.hasMore);
+
 // Async thunks for normalized doctors
-export const fetchNormalizedDoctors = createAsyncThunk(
+export const fetchNormalizedDoctors = createAsyncThunk<
+  EntityPageResult<Doctor>,
+  EntityPageRequest | undefined,
+  { state: EntitiesThunkState; rejectValue: string }
+>(
   'entities/fetchDoctors',
-  async (_, { getState, rejectWithValue }) => {
+  async ({ page = 1, refresh = false } = {}, { getState, rejectWithValue }) => {
     try {
-      const state = getState() as RootState;
-      const lastFetch = state.entities.doctors.lastFetch;
-      const now = Date.now();
+      const { lastFetch, searchQuery, filters, isFromCache, entities } =
+        getState().entities.doctors;
 
-      // Only refetch if more than 5 minutes have passed (cache strategy)
-      if (lastFetch && now - lastFetch < 5 * 60 * 1000) {
-        return { doctors: Object.values(state.entities.doctors.entities), cached: true };
+      // Only refetch the first page if more than 5 minutes have passed (cache strategy).
+      // A list restored from disk is always revalidated.
+      if (
+        page === 1 &&
+        !refresh &&
+        !isFromCache &&
+        lastFetch &&
+        Date.now() - lastFetch < CACHE_TTL_MS
+      ) {
+        return { cached: true };
       }
 
-      const doctors = await doctorsService.getDoctors();
-      return { doctors, cached: false };
+      const result = await doctorsService.getDoctors({
+        page,
+        limit: DEFAULT_PAGE_SIZE,
+        sortBy: 'rating',
+        sortOrder: 'desc',
+        query: searchQuery,
+        filters: {
+          specialty: filters.specialty,
+          hospital: filters.hospital,
+          minRating: filters.minRating > 0 ? filters.minRating : undefined,
+          maxPrice: filters.maxPrice,
+          available: filters.onlineOnly,
+          verified: filters.verifiedOnly,
+        },
+      });
+      if (isDefaultView(searchQuery, filters, initialDoctorsState.filters)) {
+        await cachePage('doctors', entities, result);
+      }
+      return { ...result, cached: false };
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
     }
+  },
+  {
+    condition: ({ page = 1 } = {}, { getState }) => canLoadPage(page, getState().entities.doctors),
   }
 );
 
-export const fetchNormalizedCustomers = createAsyncThunk(
+export const fetchNormalizedCustomers = createAsyncThunk<
+  EntityPageResult<Customer>,
+  EntityPageRequest | undefined,
+  { state: EntitiesThunkState; rejectValue: string }
+>(
   'entities/fetchCustomers',
-  async (_, { getState, rejectWithValue }) => {
+  async ({ page = 1, refresh = false } = {}, { getState, rejectWithValue }) => {
     try {
-      const state = getState() as RootState;
-      const lastFetch = state.entities.customers.lastFetch;
-      const now = Date.now();
+      const { lastFetch, searchQuery, filters, isFromCache, entities } =
+        getState().entities.customers;
 
-      // Only refetch if more than 5 minutes have passed (cache strategy)
-      if (lastFetch && now - lastFetch < 5 * 60 * 1000) {
-        return { customers: Object.values(state.entities.customers.entities), cached: true };
+      // Only refetch the first page if more than 5 minutes have passed (cache strategy).
+      // A list restored from disk is always revalidated.
+      if (
+        page === 1 &&
+        !refresh &&
+        !isFromCache &&
+        lastFetch &&
+        Date.now() - lastFetch < CACHE_TTL_MS
+      ) {
+        return { cached: true };
       }
 
-      const customers = await customersService.getCustomers();
-      return { customers, cached: false };
+      const result = await customersService.getCustomers({
+        page,
+        limit: DEFAULT_PAGE_SIZE,
+        sortBy: 'lastName',
+        sortOrder: 'asc',
+        query: searchQuery,
+        filters: {
+          online: filters.onlineOnly,
+          verified: filters.verifiedOnly,
+          minAge: filters.ageRange?.min,
+          maxAge: filters.ageRange?.max,
+          gender: filters.gender,
+        },
+      });
+      if (isDefaultView(searchQuery, filters, initialCustomersState.filters)) {
+        await cachePage('customers', entities, result);
+      }
+      return { ...result, cached: false };
     } catch (error) {
       return rejectWithValue(error instanceof Error ? error.message : 'Unknown error');
     }
+  },
+  {
+    condition: ({ page = 1 } = {}, { getState }) =>
+      canLoadPage(page, getState().entities.customers),
   }
 );
 
+// Restore the lists saved on disk so they render before the network answers
+export const loadCachedDoctors = createAsyncThunk('entities/loadCachedDoctors', () =>
+  entityCacheService.load<Doctor>('doctors')
+);
+
+export const loadCachedCustomers = createAsyncThunk('entities/loadCachedCustomers', () =>
+  entityCacheService.load<Customer>('customers')
+);
+
+type PageRequestState = Pick<
+  DoctorsEntityState,
+  'isLoading' | 'isLoadingMore' | 'error' | 'latestRequestId'
+>;
+
+// A first-page request supersedes any page still loading, so late responses for
+// an older search are dropped
+const startPageRequest = (
+  state: PageRequestState,
+  meta: { requestId: string; arg: EntityPageRequest | undefined }
+) => {
+  const isFirstPage = (meta.arg?.page ?? 1) === 1;
+  state.isLoading = isFirstPage;
+  state.isLoadingMore = !isFirstPage;
+  state.error = null;
+  state.latestRequestId = meta.requestId;
+};
+
+const finishPageRequest = (state: PageRequestState) => {
+  state.isLoading = false;
+  state.isLoadingMore = false;
+  state.error = null;
+  state.latestRequestId = null;
+};
+
 const entitiesSlice = createSlice({
   name: 'entities',
   initialState,
   reducers: {
     // Doctor reducers
+    // Changing the search or filters invalidates the loaded pages; the next fetch starts over
     setDoctorsSearchQuery: (state, action: PayloadAction<string>) => {
       state.doctors.searchQuery = action.payload;
+      state.doctors.lastFetch = null;
     },
-    setDoctorsFilters: (state, action: PayloadAction<Partial<DoctorsEntityState['filters']>>) => {
+    setDoctorsFilters: (state, action: PayloadAction<Partial<DoctorsFilters>>) => {
       state.doctors.filters = { ...state.doctors.filters, ...action.payload };
+      state.doctors.lastFetch = null;
     },
     updateDoctorOnlineStatus: (
       state,
@@ -156,12 +347,11 @@ const entitiesSlice = createSlice({
     // Customer reducers
     setCustomersSearchQuery: (state, action: PayloadAction<string>) => {
       state.customers.searchQuery = action.payload;
+      state.customers.lastFetch = null;
     },
-    setCustomersFilters: (
-      state,
-      action: PayloadAction<Partial<CustomersEntityState['filters']>>
-    ) => {
+    setCustomersFilters: (state, action: PayloadAction<Partial<CustomersFilters>>) => {
       state.customers.filters = { ...state.customers.filters, ...action.payload };
+      state.customers.lastFetch = null;
     },
     updateCustomerOnlineStatus: (
       state,
@@ -201,44 +391,78 @@ const entitiesSlice = createSlice({
   extraReducers: builder => {
     // Doctors async thunks
     builder
-      .addCase(fetchNormalizedDoctors.pending, state => {
-        state.doctors.isLoading = true;
-        state.doctors.error = null;
+      .addCase(fetchNormalizedDoctors.pending, (state, action) => {
+        startPageRequest(state.doctors, action.meta);
       })
       .addCase(fetchNormalizedDoctors.fulfilled, (state, action) => {
-        state.doctors.isLoading = false;
-        state.doctors.error = null;
+        const { payload, meta } = action;
+        if (meta.requestId !== state.doctors.latestRequestId) return;
 
-        if (!action.payload.cached) {
-          // Only update entities if not from cache
-          doctorsAdapter.setAll(state.doctors, action.payload.doctors);
-          state.doctors.lastFetch = Date.now();
+        finishPageRequest(state.doctors);
+        // Only update entities if not from cache
+        if (!payload.cached) {
+          if (payload.page <= 1) {
+            doctorsAdapter.setAll(state.doctors, payload.items);
+            state.doctors.lastFetch = Date.now();
+            state.doctors.isFromCache = false;
+          } else {
+            doctorsAdapter.upsertMany(state.doctors, payload.items);
+          }
+          state.doctors.pagination = toPagination(payload);
         }
       })
       .addCase(fetchNormalizedDoctors.rejected, (state, action) => {
-        state.doctors.isLoading = false;
-        state.doctors.error = action.payload as string;
+        if (action.meta.requestId !== state.doctors.latestRequestId) return;
+
+        finishPageRequest(state.doctors);
+        state.doctors.error = action.payload ?? action.error.message ?? 'Unknown error';
+      })
+      // Cached pages only fill an empty list; they never replace fresher data
+      .addCase(loadCachedDoctors.fulfilled, (state, action) => {
+        if (!action.payload || state.doctors.ids.length > 0) return;
+
+        doctorsAdapter.setAll(state.doctors, action.payload.items);
+        state.doctors.pagination = action.payload.pagination;
+        state.doctors.lastFetch = action.payload.savedAt;
+        state.doctors.isFromCache = true;
       });
 
     // Customers async thunks
     builder
-      .addCase(fetchNormalizedCustomers.pending, state => {
-        state.customers.isLoading = true;
-        state.customers.error = null;
+      .addCase(fetchNormalizedCustomers.pending, (state, action) => {
+        startPageRequest(state.customers, action.meta);
       })
       .addCase(fetchNormalizedCustomers.fulfilled, (state, action) => {
-        state.customers.isLoading = false;
-        state.customers.error = null;
+        const { payload, meta } = action;
+        if (meta.requestId !== state.customers.latestRequestId) return;
 
-        if (!action.payload.cached) {
-          // Only update entities if not from cache
-          customersAdapter.setAll(state.customers, action.payload.customers);
-          state.customers.lastFetch = Date.now();
+        finishPageRequest(state.customers);
+        // Only update entities if not from cache
+        if (!payload.cached) {
+          if (payload.page <= 1) {
+            customersAdapter.setAll(state.customers, payload.items);
+            state.customers.lastFetch = Date.now();
+            state.customers.isFromCache = false;
+          } else {
+            customersAdapter.upsertMany(state.customers, payload.items);
+          }
+          state.customers.pagination = toPagination(payload);
         }
       })
       .addCase(fetchNormalizedCustomers.rejected, (state, action) => {
-        state.customers.isLoading = false;
-        state.customers.error = action.payload as string;
+        if (action.meta.requestId !== state.customers.latestRequestId) return;
+
+        finishPageRequest(state.customers);
+        state.customers.error = action.payload ?? action.error.message ?? 'Unknown error';
+      })
+      // Cached pages only fill an empty list; they never replace fresher data
+      .addCase(loadCachedCustomers.fulfilled, (state, action) => {
+        if (!action.payload || state.customers.ids.length > 0) return;
+
+        customersAdapter.setAll(state.customers, action.payload.items);
+        state.customers.pagination = action.payload.pagination;
+        state.customers.lastFetch = action.payload.savedAt;
+        state.customers.isFromCache = true;
       });
   },
 });
@@ -0,0 +1,199 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+
+import { healthSharingApi } from '../../services/api/healthSharingApi';
+import type {
+  HealthAccessAuditEntry,
+  HealthSharingGrant,
+  HealthSharingGrantRequest,
+} from '../../types/health';
+
+// Mirror of the consent state the backend enforces; the backend stays the
+// source of truth, so grants are only changed here once it confirms
+export interface HealthSharingState {
+  grants: HealthSharingGrant[];
+  isLoading: boolean;
+  savingDoctorIds: string[];
+  error: string | null;
+  lastFetched: string | null;
+  audit: {
+    entries: HealthAccessAuditEntry[];
+    page: number;
+    hasMore: boolean;
+    isLoading: boolean;
+    error: string | null;
+  };
+}
+
+const initialState: HealthSharingState = {
+  grants: [],
+  isLoading: false,
+  savingDoctorIds: [],
+  error: null,
+  lastFetched: null,
+  audit: {
+    entries: [],
+    page: 0,
+    hasMore: true,
+    isLoading: false,
+    error: null,
+  },
+};
+
+/**
+ * Whether a grant currently lets its doctor see the listed data types
+ */
+export const isGrantActive = (grant: HealthSharingGrant, now = Date.now()) =>
+  !grant.revoked_at &&
+  grant.data_types.length > 0 &&
+  (!grant.expires_at || new Date(grant.expires_at).getTime() > now);
+
+// Async thunks
+export const fetchHealthSharingGrants = createAsyncThunk(
+  'healthSharing/fetchGrants',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await healthSharingApi.getGrants();
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to load sharing settings');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to load sharing settings');
+    }
+  }
+);
+
+export const saveHealthSharingGrant = createAsyncThunk(
+  'healthSharing/saveGrant',
+  async (request: HealthSharingGrantRequest, { rejectWithValue }) => {
+    try {
+      const response = await healthSharingApi.saveGrant(request);
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to share health data');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to share health data');
+    }
+  }
+);
+
+export const revokeHealthSharingGrant = createAsyncThunk(
+  'healthSharing/revokeGrant',
+  async (grant: HealthSharingGrant, { rejectWithValue }) => {
+    try {
+      const response = await healthSharingApi.revokeGrant(grant.id);
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to stop sharing');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to stop sharing');
+    }
+  }
+);
+
+export const fetchHealthAccessAudit = createAsyncThunk(
+  'healthSharing/fetchAudit',
+  async ({ page = 1 }: { page?: number } = {}, { rejectWithValue }) => {
+    try {
+      const response = await healthSharingApi.getAuditLog(page);
+      if (response.success && response.data) {
+        return response.data;
+      }
+      return rejectWithValue(response.message || 'Failed to load the access log');
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to load the access log');
+    }
+  }
+);
+
+const upsertGrant = (state: HealthSharingState, grant: HealthSharingGrant) => {
+  const index = state.grants.findIndex(existing => existing.id === grant.id);
+  if (index >= 0) {
+    state.grants[index] = grant;
+  } else {
+    state.grants.unshift(grant);
+  }
+};
+
+const clearSaving = (state: HealthSharingState, doctorId: string) => {
+  state.savingDoctorIds = state.savingDoctorIds.filter(id => id !== doctorId);
+};
+
+const healthSharingSlice = createSlice({
+  name: 'healthSharing',
+  initialState,
+  reducers: {
+    clearHealthSharingError: state => {
+      state.error = null;
+    },
+  },
+  extraReducers: builder => {
+    builder
+      // Fetch grants
+      .addCase(fetchHealthSharingGrants.pending, state => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchHealthSharingGrants.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.grants = action.payload;
+        state.lastFetched = new Date().toISOString();
+      })
+      .addCase(fetchHealthSharingGrants.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // Save grant
+      .addCase(saveHealthSharingGrant.pending, (state, action) => {
+        state.savingDoctorIds.push(action.meta.arg.doctor_id);
+        state.error = null;
+      })
+      .addCase(saveHealthSharingGrant.fulfilled, (state, action) => {
+        clearSaving(state, action.meta.arg.doctor_id);
+        // The backend replaces a doctor's previous grant rather than adding a second one
+        state.grants = state.grants.filter(
+          grant => grant.doctor_id !== action.payload.doctor_id || !isGrantActive(grant)
+        );
+        upsertGrant(state, action.payload);
+      })
+      .addCase(saveHealthSharingGrant.rejected, (state, action) => {
+        clearSaving(state, action.meta.arg.doctor_id);
+        state.error = action.payload as string;
+      })
+      // Revoke grant
+      .addCase(revokeHealthSharingGrant.pending, (state, action) => {
+        state.savingDoctorIds.push(action.meta.arg.doctor_id);
+        state.error = null;
+      })
+      .addCase(revokeHealthSharingGrant.fulfilled, (state, action) => {
+        clearSaving(state, action.meta.arg.doctor_id);
+        upsertGrant(state, action.payload);
+      })
+      .addCase(revokeHealthSharingGrant.rejected, (state, action) => {
+        clearSaving(state, action.meta.arg.doctor_id);
+        state.error = action.payload as string;
+      })
+      // Access log
+      .addCase(fetchHealthAccessAudit.pending, state => {
+        state.audit.isLoading = true;
+        state.audit.error = null;
+      })
+      .addCase(fetchHealthAccessAudit.fulfilled, (state, action) => {
+        const { items, page, hasMore } = action.payload;
+        state.audit.isLoading = false;
+        state.audit.entries = page <= 1 ? items : [...state.audit.entries, ...items];
+        state.audit.page = page;
+        state.audit.hasMore = hasMore;
+      })
+      .addCase(fetchHealthAccessAudit.rejected, (state, action) => {
+        state.audit.isLoading = false;
+        state.audit.error = action.payload as string;
+      });
+  },
+});
+
+export const { clearHealthSharingError } = healthSharingSlice.actions;
+
+export default healthSharingSlice.reducer;
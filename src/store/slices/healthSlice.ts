@@ -10,6 +10,7 @@ import type {
   HealthAlert,
   HealthInsight,
   HealthGoal,
+  HealthGoalProgress,
   HealthPermissionState,
 } from '../../types/health';
 import { HealthDataType, CORE_HEALTH_DATA_TYPES } from '../../types/health';
@@ -50,6 +51,7 @@ interface HealthState {
   };
   syncStatus: HealthSyncStatus;
   goals: HealthGoal[];
+  goalProgress: Partial<Record<string, HealthGoalProgress>>; // By goal id
   alerts: HealthAlert[];
   insights: HealthInsight[];
   isLoading: boolean;
@@ -93,6 +95,7 @@ const initialState: HealthState = {
     errors: [],
   },
   goals: [],
+  goalProgress: {},
   alerts: [],
   insights: [],
   isLoading: false,
@@ -406,6 +409,32 @@ const healthSlice = createSlice({
       state.goals = state.goals.filter(goal => goal.id !== action.payload);
     },
 
+    setHealthGoals: (state, action: PayloadAction<HealthGoal[]>) => {
+      state.goals = action.payload;
+
+      const goalIds = new Set(action.payload.map(goal => goal.id));
+      Object.keys(state.goalProgress).forEach(goalId => {
+        if (!goalIds.has(goalId)) {
+          delete state.goalProgress[goalId];
+        }
+      });
+
+      // Keep the steps card in line with the daily steps goal
+      const dailySteps = action.payload.find(
+        goal => goal.isActive && goal.type === HealthDataType.STEPS && goal.period === 'daily'
+      );
+      if (dailySteps) {
+        state.healthData.steps.goal = dailySteps.target;
+        state.healthData.steps.progress = (state.healthData.steps.today / dailySteps.target) * 100;
+      }
+    },
+
+    setHealthGoalProgress: (state, action: PayloadAction<HealthGoalProgress[]>) => {
+      action.payload.forEach(progress => {
+        state.goalProgress[progress.goalId] = progress;
+      });
+    },
+
     calculateTrends: state => {
       // Calculate trends for each health metric
       Object.keys(state.healthData).forEach(key => {
@@ -452,6 +481,7 @@ const healthSlice = createSlice({
       state.healthData = initialState.healthData;
       state.alerts = [];
       state.insights = [];
+      state.goalProgress = {};
       state.error = null;
     },
   },
@@ -673,6 +703,8 @@ export const {
   addHealthInsight,
   updateHealthGoal,
   removeHealthGoal,
+  setHealthGoals,
+  setHealthGoalProgress,
   calculateTrends,
   clearError,
   resetHealthData,
@@ -521,6 +521,33 @@ export const requestHealthMonitoringPermission = createAsyncThunk(
   }
 );
 
+export const requestHealthSharingPermission = createAsyncThunk(
+  'permissions/requestHealthSharing',
+  async (_, { rejectWithValue }) => {
+    try {
+      const permissionManager = ConsolidatedPermissionManager.getInstance();
+      const result = await permissionManager.requestPermission('health-sharing', {
+        feature: 'health-data-sharing',
+        priority: 'optional',
+        userInitiated: true,
+        fallbackStrategy: {
+          mode: 'alternative',
+          description: 'Manually entered readings can still be shared',
+          limitations: ['No automatic health data sharing'],
+          alternativeApproach: 'Manual data entry during consultations',
+        },
+      });
+
+      return {
+        status: result.status as PermissionStatus['status'],
+        canAskAgain: result.canAskAgain,
+      };
+    } catch (error) {
+      return rejectWithValue(`Health sharing permission failed: ${error}`);
+    }
+  }
+);
+
 const permissionSlice = createSlice({
   name: 'permissions',
   initialState,
@@ -714,6 +741,20 @@ const permissionSlice = createSlice({
         state.camera.lastChecked = timestamp;
         state.microphone.status = action.payload.microphoneGranted ? 'granted' : 'denied';
         state.microphone.lastChecked = timestamp;
+      })
+      .addCase(requestHealthSharingPermission.pending, state => {
+        state.healthSharing.isChecking = true;
+        state.healthSharing.error = undefined;
+      })
+      .addCase(requestHealthSharingPermission.fulfilled, (state, action) => {
+        state.healthSharing.status = action.payload.status;
+        state.healthSharing.lastChecked = Date.now();
+        state.healthSharing.canAskAgain = action.payload.canAskAgain;
+        state.healthSharing.isChecking = false;
+      })
+      .addCase(requestHealthSharingPermission.rejected, (state, action) => {
+        state.healthSharing.isChecking = false;
+        state.healthSharing.error = action.payload as string;
       });
 
     // System initialization
@@ -21,6 +21,38 @@ export enum CallState {
   SWITCHING_PROVIDER = 'switching_provider',
 }
 
+/**
+ * Signalling lifecycle of a call, from the first ring to its outcome. Separate
+ * from CallState, which tracks the media connection once the room is joined.
+ */
+export enum CallLifecycleState {
+  RINGING = 'ringing',
+  ANSWERED = 'answered',
+  DECLINED = 'declined',
+  CANCELLED = 'cancelled',
+  BUSY = 'busy',
+  MISSED = 'missed',
+  ENDED = 'ended',
+}
+
+export interface CallHistoryEntry {
+  callId: string; // Backend call id
+  direction: 'incoming' | 'outgoing';
+  participantId: string;
+  participantName: string;
+  participantType: 'customer' | 'doctor';
+  callType: 'audio' | 'video';
+  state: CallLifecycleState;
+  startedAt: number;
+  answeredAt?: number;
+  endedAt?: number;
+  seen: boolean; // False for incoming calls nobody picked up until the history is opened
+}
+
+export interface CallLifecycleListener {
+  (entry: CallHistoryEntry, previousState: CallLifecycleState | null): void;
+}
+
 export interface ChannelInfo {
   channelName: string;
   participants: {
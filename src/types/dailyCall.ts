@@ -0,0 +1,63 @@
+/**
+ * Daily Call Types - the part of a Daily call object the app relies on
+ *
+ * Call UIs and the in-call hooks take this instead of the SDK's DailyCall, so
+ * they type-check without the native SDK and tests can pass a small stand-in.
+ * The SDK's call object satisfies it.
+ */
+
+import type DailyMediaStreamTrack from '@daily-co/react-native-webrtc/lib/typescript/MediaStreamTrack';
+
+export interface DailyParticipantTrack {
+  persistentTrack?: DailyMediaStreamTrack | null;
+}
+
+export interface DailyParticipant {
+  session_id: string;
+  user_name?: string;
+  local?: boolean;
+  tracks?: {
+    video?: DailyParticipantTrack;
+    audio?: DailyParticipantTrack;
+    screenVideo?: DailyParticipantTrack & { state?: string };
+  };
+}
+
+export interface DailyParticipantCounts {
+  present: number;
+}
+
+export interface DailyNetworkStats {
+  /** Daily's own verdict on the link: 'good', 'low' or 'very-low' */
+  threshold?: string;
+  networkState?: string;
+  stats?: {
+    worstVideoSendPacketLoss?: number;
+    worstVideoRecvPacketLoss?: number;
+    video?: { recvLatency?: number; recvPacketLoss?: number };
+    audio?: { recvLatency?: number };
+  };
+}
+
+export interface DailyCallObject {
+  participantCounts(): DailyParticipantCounts;
+  participants(): Record<string, DailyParticipant>;
+  localVideo(): boolean;
+  localAudio(): boolean;
+  setLocalVideo(enabled: boolean): void;
+  setLocalAudio(enabled: boolean): void;
+  getNetworkStats(): Promise<DailyNetworkStats>;
+  join(options: Record<string, unknown>): Promise<void>;
+  leave(): Promise<void>;
+  on(event: string, handler: (ev?: unknown) => void): DailyCallObject;
+  off(event: string, handler?: (ev?: unknown) => void): DailyCallObject;
+  sendAppMessage(data: unknown, to?: string): void;
+  startScreenShare(): void;
+  stopScreenShare(): void;
+  startRecording(): void;
+  stopRecording(): void;
+  startTranscription(): void;
+  updateParticipants?(updates: Record<string, unknown>): unknown;
+  updateSendSettings?(settings: Record<string, unknown>): Promise<unknown>;
+  updateReceiveSettings?(settings: Record<string, unknown>): Promise<unknown>;
+}
@@ -10,9 +10,23 @@ export interface HealthMetric {
     quality?: 'high' | 'medium' | 'low';
     confidence?: number;
     context?: string;
+    endTime?: number; // Epoch ms, for readings that cover an interval (steps, sleep)
+    diastolic?: number; // mmHg, for blood pressure readings (value is the systolic)
+    provenance?: HealthMetricProvenance[]; // Readings folded into this one when merging sources
   };
 }
 
+export interface HealthMetricProvenance {
+  metricId: string;
+  source: HealthMetric['source'];
+  deviceId?: string;
+  value: number; // Value as originally recorded by that source
+  overlap: number; // 0-1, share of the reading covered by this one
+}
+
+// Per data type, most trusted first. Entries match a deviceId or a source ('watch' | 'phone' | 'manual').
+export type HealthSourcePriority = Partial<Record<HealthDataType, string[]>>;
+
 export enum HealthDataType {
   HEART_RATE = 'heart_rate',
   STEPS = 'steps',
@@ -112,6 +126,29 @@ export interface HealthSyncStatus {
   errors: HealthSyncError[];
 }
 
+export interface QueuedHealthRecord {
+  key: string; // Idempotency key derived from the reading itself
+  userId: string;
+  dataType: HealthDataType;
+  value: number;
+  unit: string;
+  timestamp: string;
+  source: HealthMetric['source'];
+  metadata?: Record<string, any>;
+  batchId?: string; // Set once the record has been sent, so retries reuse the same batch
+  queuedAt: number;
+}
+
+export interface HealthUploadQueueStatus {
+  pending: number;
+  isUploading: boolean;
+  failedAttempts: number;
+  nextRetryAt: number | null;
+  lastError: string | null;
+  lastUploadAt: number | null;
+  rejected: number;
+}
+
 export interface HealthSyncError {
   id: string;
   type: HealthDataType;
@@ -130,6 +167,24 @@ export interface HealthGoal {
   createdAt: Date;
 }
 
+// Achievement history kept per goal, so streaks can reach back further than the
+// week or month of readings the step hooks load
+export interface HealthGoalHistory {
+  goalId: string;
+  achievedPeriods: string[]; // Period keys, oldest first
+  best: { value: number; period: string } | null;
+  lastNotifiedPeriod: string | null;
+}
+
+export interface HealthGoalProgress {
+  goalId: string;
+  current: number;
+  isAchieved: boolean;
+  streak: number; // Consecutive periods achieved, up to the current one
+  bestStreak: number;
+  personalBest: { value: number; period: string } | null;
+}
+
 export interface HealthAlert {
   id: string;
   type: 'warning' | 'critical' | 'info';
@@ -142,6 +197,71 @@ export interface HealthAlert {
   isRead: boolean;
 }
 
+// Limits the monitor raises alerts against. Defaults are clinical norms; a
+// doctor can override them per patient through the backend.
+export interface HealthThreshold {
+  type: HealthDataType;
+  min?: number;
+  max?: number;
+  critical_min?: number;
+  critical_max?: number;
+  enabled: boolean;
+  patient_specific?: boolean;
+  set_by?: { id: string; name: string };
+  updated_at?: string;
+  note?: string;
+}
+
+export interface HealthThresholdAuditEntry {
+  id: string;
+  patient_id: string;
+  type: HealthDataType;
+  changed_by: { id: string; name: string; role: 'doctor' | 'admin' };
+  changed_at: string;
+  previous: Omit<HealthThreshold, 'type'> | null; // null when first set
+  current: Omit<HealthThreshold, 'type'> | null; // null when removed
+  reason?: string;
+}
+
+// What a doctor may currently see of a patient's health data. The patient
+// grants it; the backend enforces it on every health endpoint.
+export interface PatientHealthAccess {
+  patient_id: string;
+  granted: boolean;
+  data_types: HealthDataType[];
+  expires_at: string | null;
+}
+
+// The patient's side of the same consent: one grant per doctor, listing the
+// data types that doctor may see until it expires or is revoked.
+export interface HealthSharingGrant {
+  id: string;
+  doctor_id: string;
+  doctor_name: string;
+  doctor_specialty?: string;
+  data_types: HealthDataType[];
+  granted_at: string;
+  expires_at: string | null; // null until revoked
+  revoked_at: string | null;
+}
+
+export interface HealthSharingGrantRequest {
+  doctor_id: string;
+  data_types: HealthDataType[];
+  expires_at: string | null;
+}
+
+// Recorded by the backend for every consent change and every read of the
+// patient's health data, whether allowed or refused
+export interface HealthAccessAuditEntry {
+  id: string;
+  grant_id: string | null;
+  actor: { id: string; name: string; role: 'doctor' | 'patient' | 'admin' | 'system' };
+  action: 'granted' | 'updated' | 'revoked' | 'expired' | 'viewed' | 'denied';
+  data_types: HealthDataType[];
+  occurred_at: string;
+}
+
 export interface HealthTrend {
   type: HealthDataType;
   direction: 'up' | 'down' | 'stable';
@@ -258,10 +378,43 @@ export interface PeriodRange {
   period: PeriodFilter;
 }
 
+/**
+ * Views of a metric detail screen: today by the hour, this week by day, this
+ * month by week and this year by month
+ */
+export type HealthMetricView = 'day' | 'week' | 'month' | 'year';
+
+// One reading as read from HealthKit or Health Connect. Blood pressure keeps
+// the diastolic in `secondaryValue`; sleep is hours asleep.
+export interface HealthMetricSample {
+  startDate: Date;
+  endDate: Date;
+  value: number;
+  secondaryValue?: number;
+  source?: HealthMetric['source'];
+  deviceId?: string;
+}
+
+export interface HealthMetricPoint {
+  startDate: Date;
+  endDate: Date;
+  label: string;
+  isCurrent: boolean;
+  isFuture: boolean;
+  value: number | null; // Total for sleep, average otherwise; null without readings
+  secondaryValue: number | null;
+  min: number | null;
+  max: number | null;
+  sampleCount: number;
+}
+
 /**
  * Helper function to get date range for a period
  */
-export function getPeriodRange(period: PeriodFilter, referenceDate: Date = new Date()): PeriodRange {
+export function getPeriodRange(
+  period: PeriodFilter,
+  referenceDate: Date = new Date()
+): PeriodRange {
   const now = new Date(referenceDate);
   const startDate = new Date(now);
   const endDate = new Date(now);
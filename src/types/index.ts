@@ -32,6 +32,21 @@ export interface AuthTokens {
   expiresIn?: number; // ✅ Optional: seconds until access token expires (provided by backend)
 }
 
+/** A signed-in device, as listed on the Sessions screen */
+export interface UserSession {
+  id: string;
+  deviceName: string;
+  platform: 'ios' | 'android' | 'web';
+  manufacturer?: string;
+  model?: string;
+  osVersion?: string;
+  location?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  /** The session this device is signed in with */
+  isCurrent: boolean;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -106,19 +121,59 @@ export interface Appointment {
   notes?: string;
   type: 'in_person' | 'video_call' | 'home_visit';
   doctor: Doctor;
+  patient?: User;
   hospital?: Hospital;
+  cancellation_reason?: string;
   created_at: string;
   updated_at: string;
 }
 
 export interface CreateAppointmentRequest {
-  doctor_id: number;
+  doctor_id: number | string; // Health specialists are keyed by UUID on the current API
   hospital_id?: number;
   appointment_date: string;
+  duration_minutes?: number;
   symptoms?: string;
   type: 'in_person' | 'video_call' | 'home_visit';
 }
 
+// Consultation recording: Daily cloud recordings, started only once both parties consent
+export interface RecordingConsent {
+  appointment_id: number | string;
+  user_id: number | string;
+  role: 'doctor' | 'patient';
+  accepted: boolean;
+  /** What the consent covers; live captions need their own */
+  purpose: 'recording' | 'transcription';
+  consented_at: string;
+}
+
+export interface AppointmentRecording {
+  recording_id: string;
+  appointment_id: number | string;
+  status: 'processing' | 'available' | 'failed';
+  started_at: string;
+  duration_seconds?: number;
+  file_size?: number;
+  download_url?: string; // Short-lived link, refreshed on every fetch
+}
+
+// Consultation transcript, built from live captions during the call
+export interface TranscriptEntry {
+  speaker_id: string | null;
+  speaker_name: string;
+  text: string;
+  timestamp: string;
+}
+
+export interface AppointmentTranscript {
+  appointment_id: number | string;
+  entries: TranscriptEntry[];
+  text: string;
+  started_at: string;
+  ended_at: string;
+}
+
 // Health Data Types
 export interface HealthData {
   id: number;
@@ -170,8 +225,10 @@ export interface VideoCallSession {
 export interface ChatRoom {
   chatId: string;
   appointmentId: number;
-  doctorId: number;
-  patientId: number;
+  doctorId: number | string;
+  patientId: number | string;
+  doctorName?: string;
+  patientName?: string;
   status: 'active' | 'archived' | 'closed';
   createdAt: string;
   lastMessageAt?: string;
@@ -185,39 +242,93 @@ export interface ChatRoom {
 export interface ChatMessage {
   messageId: string;
   chatId: string;
-  senderId: number;
+  senderId: number | string; // Users are keyed by UUID on the current API
   senderRole: 'doctor' | 'patient';
   messageType: 'text' | 'image' | 'file' | 'voice' | 'system';
   content: string;
   timestamp: string;
   readBy: {
-    userId: number;
+    userId: number | string;
     readAt: string;
   }[];
   isEdited?: boolean;
   editedAt?: string;
   replyToId?: string;
-  attachments?: {
-    id: string;
-    fileName: string;
-    fileSize: number;
-    mimeType: string;
-    url: string;
-    thumbnailUrl?: string;
-  }[];
+  attachments?: ChatAttachment[];
+  /** Client-generated id, echoed by the server so retried sends are not duplicated */
+  clientMessageId?: string;
+  /** Set only on local copies that the server has not acknowledged yet */
+  localStatus?: 'pending' | 'failed';
 }
 
+export interface ChatAttachment {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  url: string;
+  thumbnailUrl?: string;
+  durationMs?: number; // Voice notes only
+}
+
+/** A file picked or recorded on the device that has not been uploaded yet */
+export interface LocalChatAttachment {
+  uri: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  durationMs?: number;
+}
+
+export type ChatOutboxItem =
+  | {
+      kind: 'send';
+      id: string;
+      chatId: string;
+      message: ChatMessage;
+      localAttachments: LocalChatAttachment[];
+      /** Uploads already completed, in the same order, so retries skip them */
+      uploadedAttachments?: ChatAttachment[];
+      attempts: number;
+      lastError?: string;
+      failed?: boolean;
+    }
+  | {
+      kind: 'edit';
+      id: string;
+      chatId: string;
+      messageId: string;
+      content: string;
+      attempts: number;
+      lastError?: string;
+      failed?: boolean;
+    };
+
 // Navigation Types
 export interface RootStackParamList {
   Auth: undefined;
   Main: undefined;
   VideoCall: { roomUrl: string; provider: string; doctorId?: string; customerId?: string };
-  AudioCall: { roomUrl: string; provider: string; doctorId?: string; customerId?: string };
+  AudioCall: {
+    roomUrl: string;
+    provider: string;
+    doctorId?: string;
+    customerId?: string;
+    appointmentId?: number;
+    callId?: string;
+  };
 }
 
 export interface CallStackParamList {
   VideoCall: { roomUrl: string; provider: string; doctorId?: string; customerId?: string };
-  AudioCall: { roomUrl: string; provider: string; doctorId?: string; customerId?: string };
+  AudioCall: {
+    roomUrl: string;
+    provider: string;
+    doctorId?: string;
+    customerId?: string;
+    appointmentId?: number;
+    callId?: string;
+  };
 }
 
 export interface AuthStackParamList {
@@ -241,18 +352,22 @@ export interface MainTabParamList {
 export interface DoctorsStackParamList {
   DoctorsList: undefined;
   DoctorDetails: { doctorId: number };
-  BookAppointment: { doctorId: number };
+  BookAppointment: { doctorId: string; doctorName: string; consultationFee?: number | string };
+  [key: string]: object | undefined; // Index signature for React Navigation's ParamListBase
 }
 
 export interface AppointmentsStackParamList {
   AppointmentsList: undefined;
   AppointmentDetails: { appointmentId: number };
+  RescheduleAppointment: { appointmentId: number };
   VideoCall: { sessionId: string };
+  [key: string]: object | undefined; // Index signature for React Navigation's ParamListBase
 }
 
 export interface ChatStackParamList {
   ChatList: undefined;
   ChatRoom: { chatId: string; appointmentId: number };
+  [key: string]: object | undefined; // Index signature for React Navigation's ParamListBase
 }
 
 // Form Types
@@ -309,10 +424,15 @@ export interface HealthDataState {
 export interface ChatState {
   rooms: ChatRoom[];
   messages: Record<string, ChatMessage[]>;
+  hasMoreMessages: Record<string, boolean>;
   activeRoom: string | null;
   isLoading: boolean;
+  isLoadingMessages: boolean;
   error: string | null;
   isConnected: boolean;
+  /** Sends and edits waiting for the server, persisted across restarts */
+  outbox: ChatOutboxItem[];
+  isFlushingOutbox: boolean;
 }
 
 export interface VideoCallState {
@@ -340,6 +460,14 @@ export interface SearchParams extends PaginationParams {
   filters?: Record<string, any>;
 }
 
+export interface PaginatedResponse<T> {
+  items: T[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
 export interface LoadingState {
   isLoading: boolean;
   error: string | null;
@@ -30,6 +30,8 @@ export interface ChannelInfo {
   };
   callType: 'audio' | 'video';
   provider: VideoCallProvider;
+  token?: string | null;
+  appointmentId?: number | string;
 }
 
 export interface BaseVideoCallService {
@@ -48,9 +50,15 @@ export interface BaseVideoCallService {
   startConsultation(
     doctorId: string,
     customerId: string,
-    callType: 'audio' | 'video'
+    callType: 'audio' | 'video',
+    appointmentId?: number | string
+  ): Promise<any>;
+  joinConsultation(
+    doctorId: string,
+    customerId: string,
+    callType: 'audio' | 'video',
+    appointmentId?: number | string
   ): Promise<any>;
-  joinConsultation(doctorId: string, customerId: string, callType: 'audio' | 'video'): Promise<any>;
   endConsultation(): Promise<void>;
 
   // Provider info
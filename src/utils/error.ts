@@ -68,6 +68,16 @@ export class HealthServiceError extends Error {
   }
 }
 
+export class HealthDataIntegrityError extends Error {
+  code: string;
+
+  constructor(message: string = 'Health data failed integrity check') {
+    super(message);
+    this.name = 'HealthDataIntegrityError';
+    this.code = 'HEALTH_DATA_INTEGRITY_ERROR';
+  }
+}
+
 /**
  * Error handler utility
  */
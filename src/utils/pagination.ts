@@ -0,0 +1,57 @@
+import type { PaginatedResponse, SearchParams } from '../types';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Normalize a list endpoint's response to a page. Backends that predate
+ * pagination return the whole collection as a bare array, which is treated as
+ * the only page.
+ */
+export const toPaginatedResponse = <T>(
+  data: T[] | Partial<PaginatedResponse<T>> | undefined,
+  page: number,
+  limit: number
+): PaginatedResponse<T> => {
+  if (Array.isArray(data)) {
+    return { items: data, page, limit, total: data.length, hasMore: false };
+  }
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? items.length;
+  const resolvedPage = data?.page ?? page;
+  const resolvedLimit = data?.limit ?? limit;
+  return {
+    items,
+    page: resolvedPage,
+    limit: resolvedLimit,
+    total,
+    hasMore: data?.hasMore ?? resolvedPage * resolvedLimit < total,
+  };
+};
+
+/**
+ * Flatten search params into the query string the list endpoints accept.
+ * Filters that are unset or switched off are left out so the backend does not
+ * constrain on them.
+ */
+export const toSearchQueryParams = ({
+  query,
+  filters = {},
+  page = 1,
+  limit = DEFAULT_PAGE_SIZE,
+  ...sorting
+}: SearchParams): Record<string, string | number | boolean> => {
+  const params: Record<string, string | number | boolean> = { page, limit, ...sorting };
+
+  if (query?.trim()) {
+    params.q = query.trim();
+  }
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== false && value !== '') {
+      params[key] = value;
+    }
+  });
+
+  return params;
+};
@@ -382,6 +382,15 @@ export class SentryErrorTracker {
       });
     } catch {}
   }
+
+  /**
+   * Attach call details to every event reported until cleared (pass null)
+   */
+  setCallContext(name: string, data: Record<string, any> | null): void {
+    try {
+      Sentry.setContext(name, data);
+    } catch {}
+  }
 }
 
 /**